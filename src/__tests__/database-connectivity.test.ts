@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { createClient } from '@supabase/supabase-js';
-import type { Database } from '../lib/database.types';
+import { Constants, type Database } from '../lib/database.types';
 
 // Create a test client using environment variables
 // Prioritize production environment variables for CI/CD testing
@@ -131,8 +131,8 @@ describe('Supabase Database Connectivity', () => {
       expect(claim).toHaveProperty('priority');
       
       // Verify enum values are valid
-      const validStatuses = ['pending', 'approved', 'rejected', 'under_review'];
-      const validTypes = ['insurance', 'warranty', 'return', 'refund', 'compensation', 'other'];
+      const validStatuses = Constants.public.Enums.claim_status;
+      const validTypes = Constants.public.Enums.claim_type;
       
       if (claim.status) {
         expect(validStatuses).toContain(claim.status);
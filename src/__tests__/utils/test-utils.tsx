@@ -56,7 +56,7 @@ export const mockClaim = {
   title: 'Test Claim',
   description: 'Test claim description',
   claim_type: 'disability' as const,
-  status: 'pending' as const,
+  status: 'intake' as const,
   created_at: '2024-01-01T00:00:00Z',
   updated_at: '2024-01-01T00:00:00Z',
 };
@@ -0,0 +1,219 @@
+'use client';
+
+import React from 'react';
+import { useUser, useJobs, useJobStatusCounts, useRetryJob } from '@/hooks';
+import { JOB_STATUSES, JOB_STATUS_LABELS } from '@/lib/job-queue';
+import {
+  ErrorAlert,
+  PageLoadingFallback,
+  TableLoadingFallback,
+} from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import type { Job, JobStatus } from '@/lib/supabase';
+
+const STATUS_BADGE_VARIANTS: Record<
+  JobStatus,
+  'default' | 'secondary' | 'success' | 'destructive'
+> = {
+  pending: 'secondary',
+  running: 'default',
+  completed: 'success',
+  dead: 'destructive',
+};
+
+const formatTime = (time: string | null) =>
+  time ? new Date(time).toLocaleString() : '—';
+
+// =================================
+// JOB ROW
+// =================================
+
+const JobRow: React.FC<{
+  job: Job;
+  onRetry: (job: Job) => void;
+  isRetrying: boolean;
+}> = ({ job, onRetry, isRetrying }) => (
+  <li className="space-y-2 rounded-lg border p-3">
+    <div className="flex items-center justify-between gap-2">
+      <span className="font-mono text-sm font-medium">{job.type}</span>
+      <Badge variant={STATUS_BADGE_VARIANTS[job.status]}>
+        {JOB_STATUS_LABELS[job.status]}
+      </Badge>
+    </div>
+    <p className="text-xs text-gray-500">
+      Attempt {job.attempts} of {job.max_attempts} · Run at{' '}
+      {formatTime(job.run_at)}
+      {job.completed_at && ` · Completed ${formatTime(job.completed_at)}`}
+      {job.locked_by && ` · ${job.locked_by}`}
+    </p>
+    {job.last_error && (
+      <pre className="overflow-x-auto rounded-md bg-red-50 p-2 text-xs whitespace-pre-wrap text-red-800 dark:bg-red-950 dark:text-red-200">
+        {job.last_error}
+      </pre>
+    )}
+    <details className="text-xs">
+      <summary className="cursor-pointer text-gray-500">Payload</summary>
+      <pre className="mt-1 overflow-x-auto rounded-md bg-gray-50 p-2 dark:bg-gray-900">
+        {JSON.stringify(job.payload, null, 2)}
+      </pre>
+      {job.result !== null && (
+        <pre className="mt-1 overflow-x-auto rounded-md bg-gray-50 p-2 dark:bg-gray-900">
+          {JSON.stringify(job.result, null, 2)}
+        </pre>
+      )}
+    </details>
+    {job.status === 'dead' && (
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isRetrying}
+        onClick={() => onRetry(job)}
+      >
+        Retry
+      </Button>
+    )}
+  </li>
+);
+
+// =================================
+// PAGE
+// =================================
+
+export default function JobsPage() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const isAdmin = user?.role === 'admin';
+  const [status, setStatus] = React.useState<JobStatus | undefined>('dead');
+  const [page, setPage] = React.useState(1);
+  const [retryError, setRetryError] = React.useState<Error | null>(null);
+  const limit = 20;
+
+  const { jobs, total, isLoading, error, refreshJobs } = useJobs({
+    page,
+    limit,
+    ...(status && { status }),
+  });
+  const { counts } = useJobStatusCounts();
+  const { retryJob, isRetrying } = useRetryJob();
+
+  if (isUserLoading) {
+    return <PageLoadingFallback text="Loading jobs..." />;
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="Background jobs are only available to admins"
+          variant="info"
+          title="Admin Access Required"
+        />
+      </div>
+    );
+  }
+
+  const selectStatus = (option: JobStatus | undefined) => {
+    setStatus(option);
+    setPage(1);
+  };
+
+  const handleRetry = async (job: Job) => {
+    setRetryError(null);
+    try {
+      await retryJob(job.id);
+    } catch (err) {
+      setRetryError(err as Error);
+    }
+  };
+
+  const pages = Math.max(Math.ceil(total / limit), 1);
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 px-4 py-12">
+      <h1 className="text-3xl font-bold">Background Jobs</h1>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant={status === undefined ? 'default' : 'outline'}
+          onClick={() => selectStatus(undefined)}
+        >
+          All
+        </Button>
+        {JOB_STATUSES.map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={status === option ? 'default' : 'outline'}
+            onClick={() => selectStatus(option)}
+          >
+            {JOB_STATUS_LABELS[option]}
+            {counts && ` (${counts[option]})`}
+          </Button>
+        ))}
+      </div>
+
+      {retryError && (
+        <ErrorAlert
+          error={retryError}
+          variant="destructive"
+          size="sm"
+          dismissible
+          onDismiss={() => setRetryError(null)}
+        />
+      )}
+
+      <Card className="p-4">
+        {isLoading ? (
+          <TableLoadingFallback rows={5} columns={3} />
+        ) : error ? (
+          <ErrorAlert
+            error={error}
+            title="Failed to load jobs"
+            showRetry
+            onRetry={refreshJobs}
+            category="server"
+          />
+        ) : jobs.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No jobs to show.</p>
+        ) : (
+          <ul className="space-y-2">
+            {jobs.map(job => (
+              <JobRow
+                key={job.id}
+                job={job}
+                onRetry={handleRetry}
+                isRetrying={isRetrying}
+              />
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between text-sm">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            Previous
+          </Button>
+          <span>
+            Page {page} of {pages}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={page >= pages}
+            onClick={() => setPage(page + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+'use client';
+
+import React from 'react';
+import {
+  useUser,
+  useLeads,
+  useLead,
+  useLeadsSubscription,
+  useUpdateLeadStatus,
+  useAssignLead,
+  useAddLeadNote,
+  useConvertLead,
+} from '@/hooks';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  LEAD_STATUS_TRANSITIONS,
+  canConvertLead,
+  getLeadName,
+} from '@/lib/leads';
+import { CLAIM_TYPE_LABELS, CASE_URGENCY_LABELS } from '@/lib/claim-types';
+import { leadNoteSchema } from '@/lib/validations';
+import { DatabaseError } from '@/lib/database-helpers';
+import {
+  ErrorAlert,
+  PageLoadingFallback,
+  TableLoadingFallback,
+} from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import type { LeadStatus } from '@/lib/supabase';
+
+const STATUS_BADGE_VARIANTS: Record<
+  LeadStatus,
+  'default' | 'secondary' | 'success' | 'destructive'
+> = {
+  new: 'default',
+  contacted: 'secondary',
+  converted: 'success',
+  spam: 'destructive',
+};
+
+// =================================
+// LEAD DETAIL
+// =================================
+
+const LeadDetail: React.FC<{ leadId: string; staffId: string }> = ({
+  leadId,
+  staffId,
+}) => {
+  const { lead, notes, isLoading, error, refreshLead } = useLead(leadId);
+  const { updateStatus, isUpdating } = useUpdateLeadStatus();
+  const { assignLead, isAssigning } = useAssignLead();
+  const { addNote, isAdding } = useAddLeadNote();
+  const { convertLead, isConverting } = useConvertLead();
+  const [note, setNote] = React.useState('');
+  const [actionError, setActionError] = React.useState<Error | string | null>(
+    null
+  );
+  const [conversion, setConversion] = React.useState<string | null>(null);
+
+  if (isLoading) {
+    return <TableLoadingFallback rows={4} columns={2} />;
+  }
+
+  if (error || !lead) {
+    return (
+      <ErrorAlert
+        error={error ?? 'Lead not found'}
+        title="Failed to load lead"
+        showRetry
+        onRetry={refreshLead}
+      />
+    );
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err as Error);
+    }
+  };
+
+  const handleAddNote = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = leadNoteSchema.safeParse({ content: note });
+    if (!parsed.success) {
+      setActionError(parsed.error.issues[0]?.message ?? 'Invalid note');
+      return;
+    }
+
+    run(async () => {
+      await addNote(lead.id, staffId, parsed.data.content);
+      setNote('');
+    });
+  };
+
+  const handleConvert = () =>
+    run(async () => {
+      let result;
+      try {
+        result = await convertLead(lead.id);
+      } catch (err) {
+        // Anyone can enter an email on the contact form, so staff confirm
+        // an existing account is the veteran's before the claim goes to it
+        const userId =
+          err instanceof DatabaseError && err.code === 'ACCOUNT_EXISTS'
+            ? (err.details?.userId as string | undefined)
+            : undefined;
+        if (
+          !userId ||
+          !window.confirm(
+            `An account already uses ${lead.email}. Open the claim on that account?`
+          )
+        ) {
+          throw err;
+        }
+        result = await convertLead(lead.id, { linkToUserId: userId });
+      }
+      setConversion(
+        `Opened claim ${result.claim.claim_number}${
+          result.invited ? ` and invited ${result.user.email}` : ''
+        }`
+      );
+      refreshLead();
+    });
+
+  return (
+    <Card className="space-y-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{getLeadName(lead)}</h2>
+        <Badge variant={STATUS_BADGE_VARIANTS[lead.status]}>
+          {LEAD_STATUS_LABELS[lead.status]}
+        </Badge>
+      </div>
+
+      {actionError && (
+        <ErrorAlert
+          error={actionError}
+          variant="destructive"
+          size="sm"
+          dismissible
+          onDismiss={() => setActionError(null)}
+        />
+      )}
+      {conversion && (
+        <ErrorAlert error={conversion} variant="info" title="Lead converted" />
+      )}
+
+      <div className="space-y-1 text-sm">
+        <p>
+          <span className="font-medium">Email:</span>{' '}
+          <a href={`mailto:${lead.email}`} className="text-primary">
+            {lead.email}
+          </a>
+        </p>
+        {lead.phone && (
+          <p>
+            <span className="font-medium">Phone:</span> {lead.phone}
+          </p>
+        )}
+        <p>
+          <span className="font-medium">Service:</span>{' '}
+          {CLAIM_TYPE_LABELS[lead.claim_type]}
+          {lead.other_service && ` (${lead.other_service})`}
+        </p>
+        {lead.condition && (
+          <p>
+            <span className="font-medium">Condition:</span> {lead.condition}
+          </p>
+        )}
+        <p>
+          <span className="font-medium">Timeline:</span>{' '}
+          {CASE_URGENCY_LABELS[lead.urgency]}
+        </p>
+        <p>
+          <span className="font-medium">Assigned to:</span>{' '}
+          {lead.assignee?.full_name ?? lead.assignee?.email ?? 'Unassigned'}
+        </p>
+        {lead.message && (
+          <p className="pt-2 whitespace-pre-line text-gray-600 dark:text-gray-400">
+            {lead.message}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {LEAD_STATUS_TRANSITIONS[lead.status].map(status => (
+          <Button
+            key={status}
+            size="sm"
+            variant={status === 'spam' ? 'destructive' : 'outline'}
+            disabled={isUpdating}
+            onClick={() => run(() => updateStatus(lead, status))}
+          >
+            Mark {LEAD_STATUS_LABELS[status]}
+          </Button>
+        ))}
+        {lead.assigned_to === staffId ? (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={isAssigning}
+            onClick={() => run(() => assignLead(lead.id, null))}
+          >
+            Unassign
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isAssigning}
+            onClick={() => run(() => assignLead(lead.id, staffId))}
+          >
+            Assign to Me
+          </Button>
+        )}
+        {canConvertLead(lead) && (
+          <Button
+            size="sm"
+            isLoading={isConverting}
+            loadingText="Converting..."
+            onClick={handleConvert}
+          >
+            Convert to Claim
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="mb-2 font-medium">Notes</h3>
+        {notes.length === 0 ? (
+          <p className="text-sm text-gray-500">No notes yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {notes.map(entry => (
+              <li key={entry.id} className="rounded-md border p-2 text-sm">
+                <p className="whitespace-pre-line">{entry.content}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {entry.author?.full_name ?? 'Staff'} ·{' '}
+                  {entry.created_at &&
+                    new Date(entry.created_at).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddNote} className="mt-3 space-y-2">
+          <textarea
+            value={note}
+            onChange={event => setNote(event.target.value)}
+            rows={3}
+            placeholder="Add a note about this inquiry..."
+            className="block w-full rounded-md border px-3 py-2 text-sm"
+          />
+          <Button type="submit" size="sm" disabled={isAdding || !note.trim()}>
+            Add Note
+          </Button>
+        </form>
+      </div>
+    </Card>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function LeadInboxPage() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const isStaff = user?.role === 'admin' || user?.role === 'moderator';
+  const [status, setStatus] = React.useState<LeadStatus | undefined>('new');
+  const [mineOnly, setMineOnly] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+
+  const { leads, total, isLoading, error, refreshLeads } = useLeads({
+    ...(status && { status }),
+    ...(mineOnly && user && { assignedTo: user.id }),
+  });
+  useLeadsSubscription(isStaff);
+
+  if (isUserLoading) {
+    return <PageLoadingFallback text="Loading lead inbox..." />;
+  }
+
+  if (!user || !isStaff) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="The lead inbox is only available to staff"
+          variant="info"
+          title="Staff Access Required"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 px-4 py-12">
+      <h1 className="text-3xl font-bold">Lead Inbox</h1>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant={status === undefined ? 'default' : 'outline'}
+          onClick={() => setStatus(undefined)}
+        >
+          All
+        </Button>
+        {LEAD_STATUSES.map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={status === option ? 'default' : 'outline'}
+            onClick={() => setStatus(option)}
+          >
+            {LEAD_STATUS_LABELS[option]}
+          </Button>
+        ))}
+        <label className="ml-4 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={mineOnly}
+            onChange={event => setMineOnly(event.target.checked)}
+          />
+          Assigned to me
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Card className="p-4">
+          <h2 className="mb-4 text-lg font-semibold">Inquiries ({total})</h2>
+          {isLoading ? (
+            <TableLoadingFallback rows={5} columns={3} />
+          ) : error ? (
+            <ErrorAlert
+              error={error}
+              title="Failed to load leads"
+              showRetry
+              onRetry={refreshLeads}
+              category="server"
+            />
+          ) : leads.length === 0 ? (
+            <p className="py-8 text-center text-gray-500">
+              No inquiries to show.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {leads.map(lead => (
+                <li key={lead.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(lead.id)}
+                    className={`w-full rounded-lg border p-3 text-left ${
+                      selectedId === lead.id ? 'border-primary' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{getLeadName(lead)}</span>
+                      <Badge variant={STATUS_BADGE_VARIANTS[lead.status]}>
+                        {LEAD_STATUS_LABELS[lead.status]}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                      {CLAIM_TYPE_LABELS[lead.claim_type]}
+                      {lead.condition && ` · ${lead.condition}`}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {lead.created_at &&
+                        new Date(lead.created_at).toLocaleString()}
+                      {lead.assignee &&
+                        ` · ${lead.assignee.full_name ?? lead.assignee.email}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        {selectedId ? (
+          <LeadDetail key={selectedId} leadId={selectedId} staffId={user.id} />
+        ) : (
+          <Card className="p-4 text-center text-gray-500">
+            Select an inquiry to view it.
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import React from 'react';
+import {
+  useUser,
+  useForm,
+  useWebhooks,
+  useWebhookDeliveries,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  usePingWebhook,
+} from '@/hooks';
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+import {
+  webhookSubscriptionSchema,
+  type WebhookSubscriptionData,
+} from '@/lib/validations';
+import {
+  ErrorAlert,
+  PageLoadingFallback,
+  TableLoadingFallback,
+} from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import type {
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from '@/lib/supabase';
+
+const DELIVERY_BADGE_VARIANTS: Record<
+  WebhookDeliveryStatus,
+  'secondary' | 'success' | 'destructive'
+> = {
+  pending: 'secondary',
+  delivered: 'success',
+  failed: 'destructive',
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border px-3 py-2 text-sm';
+
+const getEventLabel = (event: string) =>
+  WEBHOOK_EVENT_LABELS[event as WebhookEvent] ?? event;
+
+// =================================
+// NEW WEBHOOK
+// =================================
+
+const WebhookForm: React.FC<{ adminId: string }> = ({ adminId }) => {
+  const { createWebhook } = useCreateWebhook();
+  const form = useForm<WebhookSubscriptionData>({
+    schema: webhookSubscriptionSchema,
+    defaultValues: { name: '', url: '', events: [], active: true },
+    onSubmit: async data => {
+      await createWebhook(data, adminId);
+      form.reset();
+    },
+  });
+  const { errors } = form.formState;
+
+  return (
+    <form onSubmit={form.handleSubmit(form.submit)} className="space-y-4">
+      <h2 className="text-lg font-semibold">Add Webhook</h2>
+
+      {form.submitError && (
+        <ErrorAlert
+          error={form.submitError}
+          variant="destructive"
+          size="sm"
+          dismissible
+          onDismiss={form.clearError}
+        />
+      )}
+
+      <div>
+        <label htmlFor="webhook-name" className="block text-sm font-medium">
+          Partner name
+        </label>
+        <input
+          id="webhook-name"
+          className={inputClassName}
+          {...form.register('name')}
+        />
+        {errors.name && (
+          <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="webhook-url" className="block text-sm font-medium">
+          Endpoint URL
+        </label>
+        <input
+          id="webhook-url"
+          type="url"
+          placeholder="https://partner.example.org/webhooks"
+          className={inputClassName}
+          {...form.register('url')}
+        />
+        {errors.url && (
+          <p className="mt-1 text-sm text-red-600">{errors.url.message}</p>
+        )}
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-medium">Events</legend>
+        <div className="mt-1 grid grid-cols-1 gap-1 sm:grid-cols-2">
+          {WEBHOOK_EVENTS.map(event => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                value={event}
+                {...form.register('events')}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              {WEBHOOK_EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        {errors.events && (
+          <p className="mt-1 text-sm text-red-600">{errors.events.message}</p>
+        )}
+      </fieldset>
+
+      <Button type="submit" size="sm" disabled={form.isSubmitting}>
+        {form.isSubmitting ? 'Adding...' : 'Add Webhook'}
+      </Button>
+    </form>
+  );
+};
+
+// =================================
+// DELIVERIES
+// =================================
+
+const WebhookDeliveries: React.FC<{ subscription: WebhookSubscription }> = ({
+  subscription,
+}) => {
+  const { deliveries, total, isLoading, error, refreshDeliveries } =
+    useWebhookDeliveries(subscription.id);
+
+  return (
+    <Card className="space-y-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">
+          Deliveries to {subscription.name} ({total})
+        </h2>
+        <Button size="sm" variant="ghost" onClick={refreshDeliveries}>
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <TableLoadingFallback rows={4} columns={3} />
+      ) : error ? (
+        <ErrorAlert
+          error={error}
+          title="Failed to load deliveries"
+          showRetry
+          onRetry={refreshDeliveries}
+          category="server"
+        />
+      ) : deliveries.length === 0 ? (
+        <p className="py-8 text-center text-gray-500">No deliveries yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {deliveries.map(delivery => (
+            <li key={delivery.id} className="rounded-lg border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {getEventLabel(delivery.event)}
+                </span>
+                <Badge variant={DELIVERY_BADGE_VARIANTS[delivery.status]}>
+                  {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                </Badge>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {delivery.created_at &&
+                  new Date(delivery.created_at).toLocaleString()}
+                {` · ${delivery.attempts} ${delivery.attempts === 1 ? 'attempt' : 'attempts'}`}
+                {delivery.response_status !== null &&
+                  ` · HTTP ${delivery.response_status}`}
+                {delivery.status === 'pending' &&
+                  delivery.next_attempt_at &&
+                  ` · Next attempt ${new Date(delivery.next_attempt_at).toLocaleString()}`}
+              </p>
+              {delivery.last_error && (
+                <p className="mt-1 text-xs text-red-600">
+                  {delivery.last_error}
+                </p>
+              )}
+              <details className="mt-1 text-xs">
+                <summary className="cursor-pointer text-gray-500">
+                  Payload
+                </summary>
+                <pre className="mt-1 overflow-x-auto rounded-md bg-gray-50 p-2 dark:bg-gray-900">
+                  {JSON.stringify(delivery.payload, null, 2)}
+                </pre>
+              </details>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function WebhooksPage() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const isAdmin = user?.role === 'admin';
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [actionError, setActionError] = React.useState<Error | null>(null);
+  const [pingResult, setPingResult] = React.useState<string | null>(null);
+
+  const { webhooks, isLoading, error, refreshWebhooks } = useWebhooks();
+  const { updateWebhook, isUpdating } = useUpdateWebhook();
+  const { deleteWebhook, isDeleting } = useDeleteWebhook();
+  const { pingWebhook, isPinging } = usePingWebhook();
+
+  if (isUserLoading) {
+    return <PageLoadingFallback text="Loading webhooks..." />;
+  }
+
+  if (!user || !isAdmin) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="Webhooks are only available to admins"
+          variant="info"
+          title="Admin Access Required"
+        />
+      </div>
+    );
+  }
+
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    setPingResult(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err as Error);
+    }
+  };
+
+  const handlePing = (subscription: WebhookSubscription) =>
+    run(async () => {
+      const delivery = await pingWebhook(subscription.id);
+      setSelectedId(subscription.id);
+      setPingResult(
+        delivery.status === 'delivered'
+          ? `${subscription.name} responded with HTTP ${delivery.response_status}`
+          : `Ping to ${subscription.name} failed: ${delivery.last_error}`
+      );
+    });
+
+  const handleDelete = (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete the webhook for ${subscription.name}?`)) {
+      return;
+    }
+    run(async () => {
+      await deleteWebhook(subscription.id);
+      if (selectedId === subscription.id) setSelectedId(null);
+    });
+  };
+
+  const selected = webhooks.find(webhook => webhook.id === selectedId);
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 px-4 py-12">
+      <div>
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          Partners are sent claim events as signed JSON. Each request has a{' '}
+          <code>{WEBHOOK_SIGNATURE_HEADER}</code> header: the HMAC-SHA256 of the
+          timestamp header, a period and the body, keyed with the webhook&apos;s
+          secret.
+        </p>
+      </div>
+
+      {actionError && (
+        <ErrorAlert
+          error={actionError}
+          variant="destructive"
+          size="sm"
+          dismissible
+          onDismiss={() => setActionError(null)}
+        />
+      )}
+      {pingResult && (
+        <ErrorAlert
+          error={pingResult}
+          variant="info"
+          title="Test ping sent"
+          dismissible
+          onDismiss={() => setPingResult(null)}
+        />
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-6">
+          <Card className="p-4">
+            <h2 className="mb-4 text-lg font-semibold">
+              Subscriptions ({webhooks.length})
+            </h2>
+            {isLoading ? (
+              <TableLoadingFallback rows={3} columns={3} />
+            ) : error ? (
+              <ErrorAlert
+                error={error}
+                title="Failed to load webhooks"
+                showRetry
+                onRetry={refreshWebhooks}
+                category="server"
+              />
+            ) : webhooks.length === 0 ? (
+              <p className="py-8 text-center text-gray-500">No webhooks yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {webhooks.map(webhook => (
+                  <li
+                    key={webhook.id}
+                    className={`space-y-2 rounded-lg border p-3 ${
+                      selectedId === webhook.id ? 'border-primary' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{webhook.name}</span>
+                      <Badge variant={webhook.active ? 'success' : 'secondary'}>
+                        {webhook.active ? 'Active' : 'Paused'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm break-all text-gray-600 dark:text-gray-400">
+                      {webhook.url}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {webhook.events.map(getEventLabel).join(', ')}
+                    </p>
+                    <details className="text-xs">
+                      <summary className="cursor-pointer text-gray-500">
+                        Signing secret
+                      </summary>
+                      <code className="mt-1 block break-all">
+                        {webhook.secret}
+                      </code>
+                    </details>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setSelectedId(webhook.id)}
+                      >
+                        Deliveries
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isPinging}
+                        onClick={() => handlePing(webhook)}
+                      >
+                        Send Test Ping
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isUpdating}
+                        onClick={() =>
+                          run(() =>
+                            updateWebhook(webhook.id, {
+                              active: !webhook.active,
+                            })
+                          )
+                        }
+                      >
+                        {webhook.active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={isDeleting}
+                        onClick={() => handleDelete(webhook)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+
+          <Card className="p-4">
+            <WebhookForm adminId={user.id} />
+          </Card>
+        </div>
+
+        {selected ? (
+          <WebhookDeliveries key={selected.id} subscription={selected} />
+        ) : (
+          <Card className="p-4 text-center text-gray-500">
+            Select a webhook to view its deliveries.
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
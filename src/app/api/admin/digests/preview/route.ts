@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { previewWeeklyDigest } from '@/lib/weekly-digest';
+
+/**
+ * GET handler - Preview a user's weekly digest without sending it
+ * (admins). Query: `userId`, optional `at` (the run date, default now) and
+ * `format=html` to return the rendered email instead of JSON.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireRole(request, ['admin']);
+    if (response) return response;
+
+    const { searchParams } = request.nextUrl;
+    const userId = searchParams.get('userId');
+    const at = searchParams.get('at');
+    const now = at ? new Date(at) : new Date();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId is required', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    if (Number.isNaN(now.getTime())) {
+      return NextResponse.json(
+        { error: 'at must be a date', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewWeeklyDigest(userId, now);
+
+    if (!preview) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (searchParams.get('format') === 'html') {
+      return new NextResponse(
+        preview.email?.html ?? '<p>Nothing to report this week.</p>',
+        { headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+      );
+    }
+
+    return NextResponse.json({
+      digest: preview.digest,
+      email: preview.email,
+    });
+  } catch (error) {
+    console.error('Weekly digest preview error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
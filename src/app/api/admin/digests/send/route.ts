@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronOrAdmin } from '@/lib/api-auth';
+import { sendWeeklyDigests } from '@/lib/weekly-digest';
+
+/**
+ * POST handler - Send last week's digests to users who turned on
+ * weeklyDigest. Called every Monday morning by the scheduler with
+ * CRON_SECRET, or by an admin; repeated runs in the same week skip users
+ * who already have their digest.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await requireCronOrAdmin(request);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const result = await sendWeeklyDigests();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Weekly digest error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { createServerClient } from '@/lib/supabase';
+import { documentHelpers } from '@/lib/database-helpers';
+import { getMalwareScanner, scanClaimDocument } from '@/lib/malware-scanner';
+
+/**
+ * POST handler - Rescan a quarantined document (admins and moderators).
+ * Used after a failed scan or once a scanner has been configured.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const { documentId } = await params;
+
+    const { response } = await requireRole(request, ['admin', 'moderator']);
+    if (response) return response;
+
+    const serverClient = createServerClient();
+
+    const scanner = getMalwareScanner();
+    if (!scanner) {
+      return NextResponse.json(
+        { error: 'No malware scanner is configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: document } = await serverClient
+      .from('claim_documents')
+      .select('*')
+      .eq('id', documentId)
+      .single();
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const scanned = await scanClaimDocument(
+      document,
+      () => documentHelpers.download(document),
+      scanner
+    );
+
+    return NextResponse.json({ document: scanned });
+  } catch (error) {
+    console.error('Document rescan error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronOrAdmin } from '@/lib/api-auth';
+import { dispatchPendingEmails } from '@/lib/email';
+
+/**
+ * POST handler - Send queued transactional email and retry failed
+ * deliveries that are due. Called every few minutes by the scheduler with
+ * CRON_SECRET, or by an admin.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await requireCronOrAdmin(request);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const emails = await dispatchPendingEmails();
+
+    return NextResponse.json({
+      processed: emails.length,
+      sent: emails.filter(email => email.status === 'sent').length,
+      failed: emails.filter(email => email.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Email dispatch error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronOrAdmin } from '@/lib/api-auth';
+import { runJobWorker } from '@/lib/jobs';
+
+/**
+ * How long a run keeps claiming jobs, leaving headroom under the
+ * function timeout for the jobs it has already claimed
+ */
+const WORK_SECONDS = 45;
+
+/**
+ * POST handler - Enqueue scheduled jobs and run the jobs that are due.
+ * Called every minute by the scheduler with CRON_SECRET, or by an admin.
+ * Not needed when a long-running worker is started with JOB_WORKER.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await requireCronOrAdmin(request);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const result = await runJobWorker(
+      new Date(Date.now() + WORK_SECONDS * 1000)
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Job worker error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { leadHelpers } from '@/lib/database-helpers';
+import { LeadError } from '@/lib/leads';
+import { notifyUser } from '@/lib/notification-dispatcher';
+import { leadConversionSchema } from '@/lib/validations';
+
+/**
+ * POST handler - Convert a lead into a veteran account and claim (admins
+ * and moderators). Veterans without an account are invited by email. When
+ * an account already uses the lead's email this responds 409
+ * ACCOUNT_EXISTS with its `userId`; send that back as `linkToUserId` once
+ * staff confirm it is the veteran's.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leadId: string }> }
+) {
+  try {
+    const { leadId } = await params;
+
+    const { user, response } = await requireRole(request, [
+      'admin',
+      'moderator',
+    ]);
+    if (response) return response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validationResult = leadConversionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await leadHelpers.convert(
+      leadId,
+      user.id,
+      validationResult.data
+    );
+
+    // The conversion stands even if the notification cannot be delivered
+    try {
+      await notifyUser(result.user.id, {
+        category: 'claim_update',
+        title: `Case ${result.claim.claim_number} opened`,
+        body: 'We have opened a case from your inquiry. You can follow its progress from your dashboard.',
+        link: '/dashboard',
+        claimId: result.claim.id,
+      });
+    } catch (notifyError) {
+      console.error('Lead conversion notification error:', notifyError);
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof LeadError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: error.code,
+          ...(error.userId && { userId: error.userId }),
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('Lead conversion error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
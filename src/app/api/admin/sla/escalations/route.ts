@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronOrAdmin } from '@/lib/api-auth';
+import { slaHelpers } from '@/lib/database-helpers';
+
+/**
+ * POST handler - Raise SLA escalations for at-risk and overdue cases.
+ * Called hourly by the scheduler with CRON_SECRET, or by an admin.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await requireCronOrAdmin(request);
+    if (authResponse) {
+      return authResponse;
+    }
+
+    const escalations = await slaHelpers.runEscalations();
+
+    return NextResponse.json({ escalations, raised: escalations.length });
+  } catch (error) {
+    console.error('SLA escalation error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { webhookHelpers } from '@/lib/database-helpers';
+import { pingWebhook } from '@/lib/webhook-delivery';
+
+/**
+ * POST handler - Send a signed test ping to a webhook subscription
+ * (admins). Responds with the logged delivery, delivered or not.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { webhookId } = await params;
+
+    const { response } = await requireRole(request, ['admin']);
+    if (response) return response;
+
+    const subscription = await webhookHelpers.getSubscription(webhookId);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const delivery = await pingWebhook(subscription);
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('Webhook ping error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
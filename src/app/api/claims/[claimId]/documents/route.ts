@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/api-auth';
+import { createServerClient } from '@/lib/supabase';
+import { DatabaseError, documentHelpers } from '@/lib/database-helpers';
+import { claimDocumentUploadSchema } from '@/lib/validations';
+import { scanClaimDocument } from '@/lib/malware-scanner';
+import { enqueueJob } from '@/lib/jobs';
+import { apiRateLimit, createRateLimitResponse } from '@/lib/rate-limit';
+
+/**
+ * POST handler - Upload a medical record to a claim's document vault.
+ * Expects multipart form data with `file`, `category` and optional
+ * `description`, and a Supabase access token in the Authorization header.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> }
+) {
+  try {
+    const rateLimitResult = await apiRateLimit(request);
+    const rateLimitResponse = createRateLimitResponse(
+      rateLimitResult,
+      'Too many uploads. Please try again later.'
+    );
+
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const { claimId } = await params;
+
+    const { user, response } = await authenticateRequest(request);
+    if (response) return response;
+
+    const serverClient = createServerClient();
+
+    // Only the claim owner and staff may add documents
+    const [{ data: claim }, { data: profile }] = await Promise.all([
+      serverClient.from('claims').select('user_id').eq('id', claimId).single(),
+      serverClient.from('users').select('role').eq('id', user.id).single(),
+    ]);
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 });
+    }
+
+    const isStaff = profile?.role === 'admin' || profile?.role === 'moderator';
+    if (claim.user_id !== user.id && !isStaff) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Please select a valid file' },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = claimDocumentUploadSchema.safeParse({
+      category: formData.get('category') ?? undefined,
+      description: formData.get('description') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const uploaded = await documentHelpers.upload(
+      claimId,
+      user.id,
+      file,
+      validationResult.data
+    );
+
+    // The document stays quarantined until the scan passes
+    const document = await scanClaimDocument(
+      uploaded,
+      new Uint8Array(await file.arrayBuffer())
+    );
+
+    // Scanner errors are retried in the background
+    if (document.scan_status === 'failed') {
+      try {
+        await enqueueJob('document.scan', { documentId: document.id });
+      } catch (error) {
+        console.error('Failed to enqueue document rescan:', error);
+      }
+    }
+
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DatabaseError && error.code === 'INVALID_FILE') {
+      return NextResponse.json(
+        { error: 'Invalid file', details: error.details },
+        { status: 400 }
+      );
+    }
+
+    console.error('Document upload error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { createServerClient } from '@/lib/supabase';
+import {
+  nexusLetterRequestSchema,
+  physicianOpinionSchema,
+} from '@/lib/validations';
+import { buildNexusLetter } from '@/lib/nexus-letter';
+import {
+  findUnresolvedMergeFields,
+  instantiateTemplate,
+} from '@/lib/letter-drafts';
+import { renderNexusLetterPdf } from '@/lib/nexus-letter-pdf';
+import { canTakeCases, toPhysicianCredentials } from '@/lib/providers';
+
+/**
+ * POST handler - Render a nexus letter PDF for a claim (admins, moderators
+ * and the provider assigned to it). Expects JSON with either an `opinion`
+ * or the `templateId` of a letter template to fill in, and from staff the
+ * signing physician's `physician` credentials; providers sign with their
+ * verified profile and a current license. Responds with the PDF as an
+ * attachment.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> }
+) {
+  try {
+    const { claimId } = await params;
+
+    const { user, role, response } = await requireRole(request, [
+      'admin',
+      'moderator',
+      'provider',
+    ]);
+    if (response) return response;
+
+    const serverClient = createServerClient();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validationResult = nexusLetterRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: claim } = await serverClient
+      .from('claims')
+      .select(
+        'claim_number, condition, claim_type, title, user_id, assigned_to'
+      )
+      .eq('id', claimId)
+      .single();
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 });
+    }
+
+    // Providers only write letters for the cases assigned to them
+    if (role === 'provider' && claim.assigned_to !== user.id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Never trust a provider's credentials from the request; a pending or
+    // suspended provider, or one without a current license, can't sign
+    let physician = validationResult.data.physician;
+
+    if (role === 'provider') {
+      const { data: profile } = await serverClient
+        .from('provider_profiles')
+        .select(
+          '*, licenses:provider_licenses(*), user:users!provider_profiles_user_id_fkey(full_name, email)'
+        )
+        .eq('user_id', user.id)
+        .single();
+
+      const credentials =
+        profile?.user && canTakeCases(profile, profile.licenses)
+          ? toPhysicianCredentials(profile.user, profile, profile.licenses)
+          : null;
+
+      if (!credentials) {
+        return NextResponse.json(
+          {
+            error:
+              'Letters can only be signed by a verified provider with a current license',
+          },
+          { status: 403 }
+        );
+      }
+
+      physician = credentials;
+    } else if (!physician) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [
+            {
+              field: 'physician',
+              message: 'Physician credentials are required',
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: veteran } = await serverClient
+      .from('users')
+      .select('full_name, email, phone')
+      .eq('id', claim.user_id)
+      .single();
+
+    if (!veteran) {
+      return NextResponse.json(
+        { error: 'Veteran profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    let opinion = validationResult.data.opinion;
+
+    if (!opinion) {
+      const { data: template } = await serverClient
+        .from('letter_templates')
+        .select('content')
+        .eq('id', validationResult.data.templateId!)
+        .eq('is_active', true)
+        .single();
+
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Letter template not found' },
+          { status: 404 }
+        );
+      }
+
+      // Templates may leave text for the physician to write, so the filled
+      // template must still be a complete opinion
+      const content = instantiateTemplate(template, {
+        claim,
+        veteran,
+        date: now,
+      });
+      const unresolved = findUnresolvedMergeFields(content);
+      const opinionResult = physicianOpinionSchema.safeParse(content);
+
+      if (unresolved.length > 0 || !opinionResult.success) {
+        return NextResponse.json(
+          {
+            error: 'The template cannot be rendered as it is',
+            details: [
+              ...unresolved.map(key => ({
+                field: 'templateId',
+                message: `No value on file for {{${key}}}`,
+              })),
+              ...(opinionResult.error?.issues.map(err => ({
+                field: `opinion.${err.path.join('.')}`,
+                message: err.message,
+              })) ?? []),
+            ],
+          },
+          { status: 400 }
+        );
+      }
+
+      opinion = opinionResult.data;
+    }
+
+    const letter = buildNexusLetter({
+      claim,
+      veteran,
+      physician,
+      opinion,
+      date: now,
+    });
+    const pdf = renderNexusLetterPdf(letter, { createdAt: now });
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="nexus-letter-${claim.claim_number}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Letter rendering error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/api-auth';
+import type { DocumentUploadSession } from '@/lib/supabase';
+import {
+  DatabaseError,
+  documentHelpers,
+  uploadSessionHelpers,
+} from '@/lib/database-helpers';
+import { scanClaimDocument } from '@/lib/malware-scanner';
+import { enqueueJob } from '@/lib/jobs';
+import {
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_LENGTH_HEADER,
+  UPLOAD_OFFSET_HEADER,
+  isChunkLengthAllowed,
+  parseUploadOffset,
+} from '@/lib/resumable-upload';
+
+type RouteContext = {
+  params: Promise<{ claimId: string; uploadId: string }>;
+};
+
+/**
+ * Resolve the caller's in-progress upload session, or the error response
+ * to return. Only the user who started an upload may continue it.
+ */
+async function getUploadSession(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<
+  | { session: DocumentUploadSession; response?: never }
+  | { session?: never; response: NextResponse }
+> {
+  const { claimId, uploadId } = await params;
+
+  const { user, response } = await authenticateRequest(request);
+  if (response) return { response };
+
+  const session = await uploadSessionHelpers.getById(uploadId);
+
+  if (
+    !session ||
+    session.claim_id !== claimId ||
+    session.created_by !== user.id
+  ) {
+    return {
+      response: NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (session.completed_at) {
+    return {
+      response: NextResponse.json(
+        { error: 'Upload already completed', documentId: session.document_id },
+        { status: 409 }
+      ),
+    };
+  }
+
+  if (new Date(session.expires_at) < new Date()) {
+    await uploadSessionHelpers.abort(session);
+    return {
+      response: NextResponse.json(
+        { error: 'Upload expired. Please start again.' },
+        { status: 410 }
+      ),
+    };
+  }
+
+  return { session };
+}
+
+const offsetHeaders = (session: DocumentUploadSession) => ({
+  [UPLOAD_OFFSET_HEADER]: String(session.received_bytes),
+  [UPLOAD_LENGTH_HEADER]: String(session.size_bytes),
+  'Cache-Control': 'no-store',
+});
+
+/**
+ * HEAD handler - Report how many bytes of an upload have been received,
+ * so an interrupted client knows where to resume
+ */
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  try {
+    const { session, response } = await getUploadSession(request, context);
+    if (response) {
+      return new NextResponse(null, { status: response.status });
+    }
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: offsetHeaders(session),
+    });
+  } catch (error) {
+    console.error('Upload status error:', error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
+
+/**
+ * PATCH handler - Append the next chunk. The Upload-Offset header must
+ * match the bytes received so far. The final chunk triggers reassembly,
+ * inspection and a malware scan, and returns the stored document.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { session, response } = await getUploadSession(request, context);
+    if (response) return response;
+
+    const offset = parseUploadOffset(request.headers.get(UPLOAD_OFFSET_HEADER));
+    if (offset === null) {
+      return NextResponse.json(
+        { error: `Missing or invalid ${UPLOAD_OFFSET_HEADER} header` },
+        { status: 400 }
+      );
+    }
+
+    // Refuse oversized bodies before reading them into memory
+    if (!isChunkLengthAllowed(request.headers.get('content-length'))) {
+      return NextResponse.json(
+        {
+          error: `Chunks must be sent with a Content-Length of at most ${UPLOAD_CHUNK_SIZE} bytes`,
+        },
+        { status: 413 }
+      );
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer());
+    const updated = await uploadSessionHelpers.appendChunk(
+      session,
+      offset,
+      chunk
+    );
+
+    if (updated.received_bytes < updated.size_bytes) {
+      return NextResponse.json(
+        { offset: updated.received_bytes },
+        { status: 200, headers: offsetHeaders(updated) }
+      );
+    }
+
+    const stored = await uploadSessionHelpers.complete(updated);
+
+    // The document stays quarantined until the scan passes. It is read
+    // back from storage so the scanner streams it too
+    const document = await scanClaimDocument(stored, () =>
+      documentHelpers.download(stored)
+    );
+
+    // Scanner errors are retried in the background
+    if (document.scan_status === 'failed') {
+      try {
+        await enqueueJob('document.scan', { documentId: document.id });
+      } catch (error) {
+        console.error('Failed to enqueue document rescan:', error);
+      }
+    }
+
+    return NextResponse.json(
+      { offset: updated.received_bytes, document },
+      { status: 201, headers: offsetHeaders(updated) }
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      if (error.code === 'OFFSET_MISMATCH') {
+        return NextResponse.json(
+          { error: 'Upload offset mismatch', offset: error.details?.offset },
+          {
+            status: 409,
+            headers: {
+              [UPLOAD_OFFSET_HEADER]: String(error.details?.offset ?? 0),
+            },
+          }
+        );
+      }
+
+      if (error.code === 'INVALID_CHUNK') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      if (error.code === 'INVALID_FILE') {
+        return NextResponse.json(
+          { error: 'Invalid file', details: error.details },
+          { status: 400 }
+        );
+      }
+    }
+
+    console.error('Upload chunk error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler - Cancel an upload and discard its chunks
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { session, response } = await getUploadSession(request, context);
+    if (response) return response;
+
+    await uploadSessionHelpers.abort(session);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Upload cancel error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/api-auth';
+import { createServerClient } from '@/lib/supabase';
+import { uploadSessionHelpers } from '@/lib/database-helpers';
+import { claimDocumentUploadSessionSchema } from '@/lib/validations';
+import { validateClaimDocument } from '@/lib/claim-documents';
+import {
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_LENGTH_HEADER,
+  UPLOAD_OFFSET_HEADER,
+} from '@/lib/resumable-upload';
+import { apiRateLimit, createRateLimitResponse } from '@/lib/rate-limit';
+
+/**
+ * POST handler - Start a resumable upload of a large claim document.
+ * Expects JSON with `fileName`, `mimeType`, `size`, `category` and
+ * optional `description`; chunks are then sent to
+ * /api/claims/[claimId]/uploads/[uploadId].
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ claimId: string }> }
+) {
+  try {
+    const rateLimitResult = await apiRateLimit(request);
+    const rateLimitResponse = createRateLimitResponse(
+      rateLimitResult,
+      'Too many uploads. Please try again later.'
+    );
+
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const { claimId } = await params;
+
+    const { user, response } = await authenticateRequest(request);
+    if (response) return response;
+
+    const serverClient = createServerClient();
+
+    // Only the claim owner and staff may add documents
+    const [{ data: claim }, { data: profile }] = await Promise.all([
+      serverClient.from('claims').select('user_id').eq('id', claimId).single(),
+      serverClient.from('users').select('role').eq('id', user.id).single(),
+    ]);
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 });
+    }
+
+    const isStaff = profile?.role === 'admin' || profile?.role === 'moderator';
+    if (claim.user_id !== user.id && !isStaff) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+
+    const validationResult = claimDocumentUploadSessionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues.map(err => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reject unsupported types before any bytes are sent; the contents are
+    // inspected once the upload is reassembled
+    const { fileName, mimeType, size, category } = validationResult.data;
+    const precheck = validateClaimDocument(
+      { name: fileName, type: mimeType, size } as File,
+      category
+    );
+
+    if (!precheck.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid file', details: precheck.issues },
+        { status: 400 }
+      );
+    }
+
+    const session = await uploadSessionHelpers.create(
+      claimId,
+      user.id,
+      validationResult.data
+    );
+
+    return NextResponse.json(
+      {
+        upload: {
+          id: session.id,
+          offset: session.received_bytes,
+          size: session.size_bytes,
+          chunkSize: UPLOAD_CHUNK_SIZE,
+          expiresAt: session.expires_at,
+        },
+      },
+      {
+        status: 201,
+        headers: {
+          Location: `/api/claims/${claimId}/uploads/${session.id}`,
+          [UPLOAD_OFFSET_HEADER]: String(session.received_bytes),
+          [UPLOAD_LENGTH_HEADER]: String(session.size_bytes),
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Upload session error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'An unexpected error occurred. Please try again later.',
+        code: 'INTERNAL_ERROR',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle unsupported methods
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
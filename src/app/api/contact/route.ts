@@ -1,28 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { contactRateLimit, createRateLimitResponse } from '@/lib/rate-limit';
-
-// Input validation schema
-const contactSchema = z.object({
-  name: z
-    .string()
-    .min(2, 'Name must be at least 2 characters')
-    .max(100, 'Name must be less than 100 characters')
-    .regex(/^[a-zA-Z\s'-]+$/, 'Name contains invalid characters'),
-  email: z
-    .string()
-    .email('Please enter a valid email address')
-    .max(255, 'Email must be less than 255 characters'),
-  subject: z
-    .string()
-    .min(5, 'Subject must be at least 5 characters')
-    .max(200, 'Subject must be less than 200 characters'),
-  message: z
-    .string()
-    .min(10, 'Message must be at least 10 characters')
-    .max(2000, 'Message must be less than 2000 characters'),
-  honeypot: z.string().optional(), // Bot detection
-});
+import { nexusContactFormSchema } from '@/lib/validations';
+import { leadHelpers } from '@/lib/database-helpers';
+import { sendEmail } from '@/lib/email';
 
 export async function POST(request: NextRequest) {
   try {
@@ -50,7 +30,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate input
-    const validationResult = contactSchema.safeParse(body);
+    const validationResult = nexusContactFormSchema.safeParse(body);
 
     if (!validationResult.success) {
       return NextResponse.json(
@@ -65,16 +45,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { name, email, subject, message } = validationResult.data;
+    const submission = validationResult.data;
 
     // Additional security checks
     const suspiciousPatterns = [
       /\b(script|javascript|vbscript|onload|onerror)\b/i,
       /<[^>]*>/g, // HTML tags
-      /\b(exec|eval|system|cmd)\b/i,
+      // Not "system": conditions like "nervous system disorder" are common
+      /\b(exec|eval|cmd)\b/i,
     ];
 
-    const allText = `${name} ${email} ${subject} ${message}`;
+    const allText = [
+      submission.firstName,
+      submission.lastName,
+      submission.email,
+      submission.otherService,
+      submission.condition,
+      submission.message,
+    ].join(' ');
     const isSuspicious = suspiciousPatterns.some(pattern =>
       pattern.test(allText)
     );
@@ -87,35 +75,37 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize input (remove potential XSS)
-    const sanitizedData = {
-      name: name.trim().replace(/[<>]/g, ''),
-      email: email.trim().toLowerCase(),
-      subject: subject.trim().replace(/[<>]/g, ''),
-      message: message.trim().replace(/[<>]/g, ''),
-    };
-
-    // Here you would typically:
-    // 1. Save to database
-    // 2. Send email notification
-    // 3. Send confirmation email to user
-
-    // For demo purposes, we'll just log the data
-    console.log('Contact form submission:', {
-      ...sanitizedData,
-      timestamp: new Date().toISOString(),
-      ip:
-        request.headers.get('x-forwarded-for') ||
-        request.headers.get('x-real-ip') ||
-        'unknown',
-      userAgent: request.headers.get('user-agent') || 'unknown',
+    const strip = (value?: string) => value?.replace(/[<>]/g, '');
+    const lead = await leadHelpers.create({
+      ...submission,
+      firstName: strip(submission.firstName)!,
+      lastName: strip(submission.lastName)!,
+      otherService: strip(submission.otherService),
+      condition: strip(submission.condition),
+      message: strip(submission.message),
     });
 
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // The inquiry is saved; a failed acknowledgment is retried by the
+    // email dispatcher and must not fail the submission
+    try {
+      await sendEmail(
+        'lead_acknowledgment',
+        lead.email,
+        {
+          name: lead.first_name,
+          claim_type: lead.claim_type,
+          urgency: lead.urgency,
+        },
+        { leadId: lead.id }
+      );
+    } catch (emailError) {
+      console.error('Lead acknowledgment email error:', emailError);
+    }
 
     return NextResponse.json(
       {
         success: true,
+        leadId: lead.id,
         message: 'Thank you for your message. We will get back to you soon.',
       },
       {
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import type { Metadata } from 'next';
+import Link from 'next/link';
 import { 
   PhoneIcon,
   EnvelopeIcon,
@@ -9,7 +10,15 @@ import {
   ClockIcon
 } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui/Button';
+import { ConditionAutocomplete } from '@/components/forms';
+import { useConditionCatalog } from '@/hooks';
 import { nexusContactFormSchema, type NexusContactFormData } from '@/lib/validations';
+import {
+  SERVICE_OPTIONS,
+  OTHER_SERVICE_LABEL,
+  CASE_URGENCY_LABELS,
+  CASE_URGENCIES,
+} from '@/lib/claim-types';
 
 // Note: In a real app, you'd handle metadata differently for client components
 // This would typically be done in a layout or parent server component
@@ -41,14 +50,7 @@ const contactInfo = [
   },
 ];
 
-const services = [
-  'Comprehensive Nexus Letter',
-  'Nexus Letter Consultation',
-  'Expedited Service',
-  'Letter Review & Revision',
-  'Independent Medical Examination (IME)',
-  'Other (please specify)',
-];
+const services = SERVICE_OPTIONS.map(option => option.label);
 
 interface FormErrors {
   firstName?: string;
@@ -79,6 +81,7 @@ export default function ContactPage() {
   const [submitted, setSubmitted] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const { conditions } = useConditionCatalog();
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -98,13 +101,16 @@ export default function ContactPage() {
 
   const validateForm = (): boolean => {
     try {
-      nexusContactFormSchema.parse(formData);
+      nexusContactFormSchema.parse({
+        ...formData,
+        phone: formData.phone || undefined,
+      });
       setErrors({});
       return true;
     } catch (error: any) {
       const fieldErrors: FormErrors = {};
-      if (error.errors) {
-        error.errors.forEach((err: any) => {
+      if (error.issues) {
+        error.issues.forEach((err: any) => {
           const field = err.path[0] as keyof FormErrors;
           fieldErrors[field] = err.message;
         });
@@ -125,14 +131,24 @@ export default function ContactPage() {
     setIsSubmitting(true);
     
     try {
-      // Simulate form submission
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Simulate occasional errors for demonstration
-      if (Math.random() < 0.1) {
-        throw new Error('Network error occurred. Please try again.');
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          phone: formData.phone || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(
+          payload?.details?.[0]?.message ||
+            payload?.error ||
+            'Network error occurred. Please try again.'
+        );
       }
-      
+
       setSubmitted(true);
     } catch (error: any) {
       setSubmitError(error.message || 'An error occurred while submitting the form. Please try again.');
@@ -197,6 +213,13 @@ export default function ContactPage() {
               <p className="mt-4 text-lg text-muted-foreground">
                 Fill out the form below and we'll contact you within 72 hours to discuss your case.
               </p>
+              <p className="mt-2 text-sm text-muted-foreground">
+                Ready to open a case?{' '}
+                <Link href="/intake" className="text-primary hover:underline">
+                  Start your veteran intake
+                </Link>{' '}
+                and pick up where you left off at any time.
+              </p>
 
               {submitError && (
                 <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
@@ -286,6 +309,9 @@ export default function ContactPage() {
                       onChange={handleInputChange}
                       className="mt-2 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                     />
+                    {errors.phone && (
+                      <p className="mt-1 text-sm text-red-600">{errors.phone}</p>
+                    )}
                   </div>
                 </div>
 
@@ -317,7 +343,7 @@ export default function ContactPage() {
                   )}
                 </div>
 
-                {formData.service === 'Other (please specify)' && (
+                {formData.service === OTHER_SERVICE_LABEL && (
                   <div>
                     <label htmlFor="otherService" className="block text-sm font-medium text-foreground">
                       Please specify the service you need *
@@ -345,12 +371,12 @@ export default function ContactPage() {
                   <label htmlFor="condition" className="block text-sm font-medium text-foreground">
                     Medical Condition/Disability
                   </label>
-                  <input
-                    type="text"
+                  <ConditionAutocomplete
                     name="condition"
                     id="condition"
-                    value={formData.condition}
-                    onChange={handleInputChange}
+                    conditions={conditions}
+                    value={formData.condition ?? ''}
+                    onChange={condition => setFormData(prev => ({ ...prev, condition }))}
                     placeholder="e.g., PTSD, Hearing Loss, Back Injury"
                     className="mt-2 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                   />
@@ -367,9 +393,11 @@ export default function ContactPage() {
                     onChange={handleInputChange}
                     className="mt-2 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                   >
-                    <option value="standard">Standard (7-10 business days)</option>
-                    <option value="expedited">Expedited (3-5 business days)</option>
-                    <option value="urgent">Urgent (As soon as possible)</option>
+                    {CASE_URGENCIES.map((urgency) => (
+                      <option key={urgency} value={urgency}>
+                        {CASE_URGENCY_LABELS[urgency]}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
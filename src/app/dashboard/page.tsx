@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useUser, useUserClaims, useEvidenceChecklist } from '@/hooks';
+import { CLAIM_STATUS_LABELS, RESOLVED_STATUSES } from '@/lib/claim-workflow';
+import { CLAIM_TYPE_LABELS } from '@/lib/claim-types';
+import {
+  ErrorAlert,
+  PageLoadingFallback,
+  TableLoadingFallback,
+} from '@/components/feedback';
+import { EvidenceChecklist } from '@/components/claims';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import type { Claim } from '@/lib/supabase';
+
+// =================================
+// CASE CARD
+// =================================
+
+const CaseEvidence: React.FC<{ claimId: string }> = ({ claimId }) => {
+  const { items, isLoading, error } = useEvidenceChecklist(claimId);
+
+  if (isLoading || error || items.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold">Documents to Gather</h3>
+      <p className="mt-1 mb-3 text-xs text-gray-500">
+        Uploaded documents are checked off once they pass our security scan.
+      </p>
+      <EvidenceChecklist items={items} />
+    </div>
+  );
+};
+
+const CaseCard: React.FC<{ claim: Claim }> = ({ claim }) => {
+  const status = claim.status ?? 'intake';
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="font-semibold">{claim.title}</h2>
+        <Badge variant="secondary">{CLAIM_STATUS_LABELS[status]}</Badge>
+      </div>
+      <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+        {CLAIM_TYPE_LABELS[claim.claim_type]} &middot; #{claim.claim_number}
+      </p>
+      {!RESOLVED_STATUSES.includes(status) && (
+        <CaseEvidence claimId={claim.id} />
+      )}
+    </Card>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function DashboardPage() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const { claims, isLoading, error, refreshClaims } = useUserClaims(user?.id);
+
+  if (isUserLoading) {
+    return <PageLoadingFallback text="Loading your cases..." />;
+  }
+
+  if (!user) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="Sign in to follow your cases and the documents they need."
+          variant="info"
+          title="Sign In Required"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-12">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">My Cases</h1>
+        <Link href="/intake">
+          <Button variant="outline" size="sm">
+            Start a New Case
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <TableLoadingFallback rows={3} columns={2} />
+      ) : error ? (
+        <ErrorAlert
+          error={error}
+          title="Failed to load your cases"
+          showRetry
+          onRetry={refreshClaims}
+          category="server"
+        />
+      ) : claims.length === 0 ? (
+        <p className="py-8 text-center text-gray-500">
+          You don&apos;t have any cases yet.
+        </p>
+      ) : (
+        claims.map(claim => <CaseCard key={claim.id} claim={claim} />)
+      )}
+    </div>
+  );
+}
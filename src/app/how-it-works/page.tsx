@@ -75,7 +75,7 @@ const steps = [
     description: 'Final quality assurance review before secure delivery of your completed nexus letter.',
     icon: CheckCircleIcon,
     details: [
-      'Quality assurance review',
+      'Independent review by a second credentialed clinician',
       'Final formatting check',
       'Secure delivery via email',
       'Hard copy mailing option'
@@ -0,0 +1,920 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useFieldArray } from 'react-hook-form';
+import {
+  useUser,
+  useIntakeDraft,
+  useSaveIntakeDraft,
+  useCompleteIntake,
+  useMultiStepForm,
+  useConditionCatalog,
+  useServiceHistory,
+  FormErrorDisplay,
+} from '@/hooks';
+import {
+  EVIDENCE_TYPES,
+  EVIDENCE_TYPE_LABELS,
+  INTAKE_STEPS,
+  SERVICE_BRANCHES,
+  SERVICE_BRANCH_LABELS,
+  VA_RATINGS,
+  type IntakeDraftData,
+} from '@/lib/intake';
+import {
+  CASE_URGENCIES,
+  CASE_URGENCY_LABELS,
+  SERVICE_OPTIONS,
+} from '@/lib/claim-types';
+import {
+  INTAKE_STEP_SCHEMAS,
+  veteranIntakeSchema,
+  type VeteranIntakeData,
+} from '@/lib/validations';
+import {
+  createCompensationEstimate,
+  formatDollars,
+  parseCompensationParams,
+  type CompensationEstimate,
+} from '@/lib/compensation';
+import { findCondition, getSecondaryConditions } from '@/lib/conditions';
+import {
+  EXPOSURE_PROGRAM_INFO,
+  MAX_DEPLOYMENTS,
+  SERVICE_LOCATIONS,
+  SERVICE_LOCATION_LABELS,
+  assessPresumptiveEligibility,
+  toExposureDeployments,
+} from '@/lib/presumptive';
+import { serviceHistoryToIntake } from '@/lib/service-history';
+import { ErrorAlert, PageLoadingFallback } from '@/components/feedback';
+import { ConditionAutocomplete } from '@/components/forms';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import type { Claim, IntakeDraft, ServicePeriod } from '@/lib/supabase';
+
+/** Answers are saved this long after the veteran stops typing */
+const AUTOSAVE_DELAY_MS = 1500;
+
+const STEPS = INTAKE_STEPS.map(step => ({
+  ...step,
+  schema: INTAKE_STEP_SCHEMAS[step.key],
+}));
+
+const DEFAULT_VALUES: Partial<VeteranIntakeData> = {
+  phone: '',
+  serviceEnd: '',
+  deployments: [],
+  conditions: [{ name: '', description: '' }],
+  hasVaRating: false,
+  evidence: [],
+  urgency: 'standard',
+  consentToContact: false,
+  authorizesRecordReview: false,
+  signature: '',
+};
+
+const inputClassName =
+  'mt-2 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const Field: React.FC<{
+  id: string;
+  label: string;
+  error?: string | undefined;
+  children: React.ReactNode;
+}> = ({ id, label, error, children }) => (
+  <div>
+    <label htmlFor={id} className="text-foreground block text-sm font-medium">
+      {label}
+    </label>
+    {children}
+    {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+  </div>
+);
+
+// =================================
+// WIZARD
+// =================================
+
+const IntakeWizard: React.FC<{
+  userId: string;
+  draft: IntakeDraft | null;
+  serviceHistory: ServicePeriod[];
+  estimate?: CompensationEstimate | undefined;
+  onComplete: (claim: Claim) => void;
+}> = ({ userId, draft, serviceHistory, estimate, onComplete }) => {
+  const { saveDraft, isSaving, lastSavedAt } = useSaveIntakeDraft();
+  const { completeIntake, isCompleting } = useCompleteIntake();
+  const { conditions: conditionCatalog } = useConditionCatalog();
+  const [autosaveError, setAutosaveError] = React.useState<string | null>(null);
+  const draftIdRef = React.useRef(draft?.id);
+
+  const form = useMultiStepForm<VeteranIntakeData>(STEPS, {
+    defaultValues: {
+      ...DEFAULT_VALUES,
+      // The profile's service history stands in until the veteran edits it
+      ...serviceHistoryToIntake(serviceHistory),
+      ...(draft?.data as Partial<VeteranIntakeData> | undefined),
+      ...(estimate && { compensationEstimate: estimate }),
+    },
+    onSubmit: async data => {
+      const claim = await completeIntake(
+        userId,
+        veteranIntakeSchema.parse(data),
+        draftIdRef.current
+      );
+      onComplete(claim);
+    },
+  });
+  const { register, control, formState, currentStep, currentStepConfig } = form;
+  const { errors } = formState;
+  const conditions = useFieldArray({ control, name: 'conditions' });
+  const deployments = useFieldArray({ control, name: 'deployments' });
+
+  const persist = React.useCallback(
+    async (data: IntakeDraftData, step: number) => {
+      try {
+        const saved = await saveDraft(userId, {
+          ...(draftIdRef.current && { draftId: draftIdRef.current }),
+          data,
+          currentStep: step,
+        });
+        draftIdRef.current = saved.id;
+        setAutosaveError(null);
+      } catch {
+        setAutosaveError(
+          'Your answers could not be saved. Keep this page open and try again shortly.'
+        );
+      }
+    },
+    [userId, saveDraft]
+  );
+
+  // Resume where the veteran left off, once
+  const resumedRef = React.useRef(false);
+  const { goToStep, getValues, watch } = form;
+  React.useEffect(() => {
+    if (resumedRef.current) return;
+    resumedRef.current = true;
+
+    if (draft && draft.current_step > 0) {
+      goToStep(Math.min(draft.current_step, STEPS.length - 1));
+    }
+    // Save an estimate brought from the estimator straight away
+    if (estimate) {
+      persist(getValues() as IntakeDraftData, draft?.current_step ?? 0);
+    }
+  }, [draft, estimate, goToStep, getValues, persist]);
+
+  // Autosave answers as they change
+  React.useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const subscription = watch(values => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(
+        () => persist(values as IntakeDraftData, currentStep),
+        AUTOSAVE_DELAY_MS
+      );
+    });
+
+    return () => {
+      clearTimeout(timeoutId);
+      subscription.unsubscribe();
+    };
+  }, [watch, persist, currentStep]);
+
+  const handleNext = async () => {
+    if (await form.nextStep()) {
+      persist(form.getValues() as IntakeDraftData, currentStep + 1);
+    }
+  };
+
+  const compensationEstimate = form.watch('compensationEstimate');
+  const claimedConditions = form.watch('conditions') ?? [];
+  const servedDeployments = form.watch('deployments') ?? [];
+
+  const presumptiveConditions = assessPresumptiveEligibility(
+    toExposureDeployments(servedDeployments),
+    claimedConditions.map(claimed => claimed.name).filter(Boolean),
+    conditionCatalog
+  ).conditions.flatMap(assessment =>
+    assessment.basis === 'presumptive' ? [assessment] : []
+  );
+
+  // Catalog conditions often claimed secondary to those already added
+  const secondarySuggestions = claimedConditions
+    .flatMap(claimed => {
+      const condition = claimed.conditionId
+        ? conditionCatalog.find(entry => entry.id === claimed.conditionId)
+        : undefined;
+      return condition
+        ? getSecondaryConditions(condition, conditionCatalog)
+        : [];
+    })
+    .filter(
+      (suggestion, index, suggestions) =>
+        suggestions.indexOf(suggestion) === index &&
+        !claimedConditions.some(
+          claimed =>
+            claimed.conditionId === suggestion.id ||
+            findCondition([suggestion], claimed.name)
+        )
+    );
+
+  const renderStep = () => {
+    switch (currentStepConfig?.key) {
+      case 'personal':
+        return (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <Field
+              id="firstName"
+              label="First Name *"
+              error={errors.firstName?.message}
+            >
+              <input
+                id="firstName"
+                className={inputClassName}
+                {...register('firstName')}
+              />
+            </Field>
+            <Field
+              id="lastName"
+              label="Last Name *"
+              error={errors.lastName?.message}
+            >
+              <input
+                id="lastName"
+                className={inputClassName}
+                {...register('lastName')}
+              />
+            </Field>
+            <Field
+              id="email"
+              label="Email Address *"
+              error={errors.email?.message}
+            >
+              <input
+                id="email"
+                type="email"
+                className={inputClassName}
+                {...register('email')}
+              />
+            </Field>
+            <Field
+              id="phone"
+              label="Phone Number"
+              error={errors.phone?.message}
+            >
+              <input
+                id="phone"
+                type="tel"
+                className={inputClassName}
+                {...register('phone')}
+              />
+            </Field>
+            <Field
+              id="state"
+              label="State of Residence *"
+              error={errors.state?.message}
+            >
+              <input
+                id="state"
+                maxLength={2}
+                placeholder="e.g., CA"
+                className={inputClassName}
+                {...register('state', {
+                  setValueAs: (value: string) => value.toUpperCase(),
+                })}
+              />
+            </Field>
+          </div>
+        );
+
+      case 'service':
+        return (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <p className="text-sm text-gray-500 sm:col-span-2">
+              {serviceHistory.length > 0
+                ? 'Filled in from your service history. '
+                : 'Save your service history to fill this in next time. '}
+              <Link href="/settings" className="text-primary underline">
+                Manage service history
+              </Link>
+            </p>
+            <Field
+              id="branch"
+              label="Branch of Service *"
+              error={errors.branch?.message}
+            >
+              <select
+                id="branch"
+                className={inputClassName}
+                {...register('branch')}
+              >
+                <option value="">Select a branch</option>
+                {SERVICE_BRANCHES.map(branch => (
+                  <option key={branch} value={branch}>
+                    {SERVICE_BRANCH_LABELS[branch]}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <div />
+            <Field
+              id="serviceStart"
+              label="Service Start Date *"
+              error={errors.serviceStart?.message}
+            >
+              <input
+                id="serviceStart"
+                type="date"
+                className={inputClassName}
+                {...register('serviceStart')}
+              />
+            </Field>
+            <Field
+              id="serviceEnd"
+              label="Service End Date (blank if still serving)"
+              error={errors.serviceEnd?.message}
+            >
+              <input
+                id="serviceEnd"
+                type="date"
+                className={inputClassName}
+                {...register('serviceEnd')}
+              />
+            </Field>
+
+            <div className="space-y-3 sm:col-span-2">
+              <div>
+                <h3 className="text-foreground text-sm font-medium">
+                  Deployments and Duty Stations
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Add the places you deployed or were stationed. If one may have
+                  exposed you to burn pits, Agent Orange, contaminated water or
+                  radiation, pick its exposure area: some conditions are
+                  presumed service connected for these.
+                </p>
+              </div>
+              {deployments.fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="grid grid-cols-1 gap-3 rounded-lg border p-3 sm:grid-cols-2"
+                >
+                  <Field
+                    id={`deployments.${index}.location`}
+                    label="Location"
+                    error={errors.deployments?.[index]?.location?.message}
+                  >
+                    <input
+                      id={`deployments.${index}.location`}
+                      type="text"
+                      placeholder="e.g., Germany"
+                      className={inputClassName}
+                      {...register(`deployments.${index}.location`)}
+                    />
+                  </Field>
+                  <Field
+                    id={`deployments.${index}.exposure`}
+                    label="Exposure area"
+                    error={errors.deployments?.[index]?.exposure?.message}
+                  >
+                    <select
+                      id={`deployments.${index}.exposure`}
+                      className={inputClassName}
+                      {...register(`deployments.${index}.exposure`)}
+                    >
+                      <option value="">None of these</option>
+                      {SERVICE_LOCATIONS.map(location => (
+                        <option key={location} value={location}>
+                          {SERVICE_LOCATION_LABELS[location]}
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field
+                    id={`deployments.${index}.start`}
+                    label="Arrived"
+                    error={errors.deployments?.[index]?.start?.message}
+                  >
+                    <input
+                      id={`deployments.${index}.start`}
+                      type="date"
+                      className={inputClassName}
+                      {...register(`deployments.${index}.start`)}
+                    />
+                  </Field>
+                  <Field
+                    id={`deployments.${index}.end`}
+                    label="Left (blank if still there)"
+                    error={errors.deployments?.[index]?.end?.message}
+                  >
+                    <input
+                      id={`deployments.${index}.end`}
+                      type="date"
+                      className={inputClassName}
+                      {...register(`deployments.${index}.end`)}
+                    />
+                  </Field>
+                  <div className="sm:col-span-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deployments.remove(index)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {deployments.fields.length < MAX_DEPLOYMENTS && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    deployments.append({
+                      location: '',
+                      exposure: '',
+                      start: '',
+                      end: '',
+                    })
+                  }
+                >
+                  Add Deployment
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+
+      case 'conditions':
+        return (
+          <div className="space-y-4">
+            {conditions.fields.map((field, index) => (
+              <div key={field.id} className="rounded-lg border p-4">
+                <Field
+                  id={`conditions.${index}.name`}
+                  label={`Condition ${index + 1} *`}
+                  error={errors.conditions?.[index]?.name?.message}
+                >
+                  <ConditionAutocomplete
+                    id={`conditions.${index}.name`}
+                    placeholder="e.g., PTSD, Tinnitus, Lower back strain"
+                    className={inputClassName}
+                    conditions={conditionCatalog}
+                    value={claimedConditions[index]?.name ?? ''}
+                    onChange={value => {
+                      form.setValue(`conditions.${index}.name`, value, {
+                        shouldDirty: true,
+                        shouldValidate: formState.isSubmitted,
+                      });
+                      form.setValue(
+                        `conditions.${index}.conditionId`,
+                        undefined
+                      );
+                    }}
+                    onSelect={condition =>
+                      form.setValue(
+                        `conditions.${index}.conditionId`,
+                        condition.id
+                      )
+                    }
+                  />
+                </Field>
+                <div className="mt-4">
+                  <Field
+                    id={`conditions.${index}.description`}
+                    label="How is it connected to your service?"
+                  >
+                    <textarea
+                      id={`conditions.${index}.description`}
+                      rows={3}
+                      className={inputClassName}
+                      {...register(`conditions.${index}.description`)}
+                    />
+                  </Field>
+                </div>
+                {conditions.fields.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => conditions.remove(index)}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            ))}
+            {presumptiveConditions.length > 0 && (
+              <div className="rounded-lg border p-3 text-sm">
+                <p className="font-medium">
+                  VA may presume these are service connected
+                </p>
+                <ul className="mt-1 space-y-1 text-gray-600 dark:text-gray-400">
+                  {presumptiveConditions.map(assessment => (
+                    <li key={assessment.condition}>
+                      {assessment.condition}:{' '}
+                      {EXPOSURE_PROGRAM_INFO[assessment.program].label}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-gray-500">
+                  We&apos;ll confirm whether you need a nexus letter for them.
+                </p>
+              </div>
+            )}
+            {errors.conditions?.message && (
+              <p className="text-sm text-red-600">
+                {errors.conditions.message}
+              </p>
+            )}
+            {conditions.fields.length < 10 && (
+              <>
+                {secondarySuggestions.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Often claimed secondary to your conditions:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {secondarySuggestions.map(suggestion => (
+                        <Button
+                          key={suggestion.id}
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          onClick={() =>
+                            conditions.append({
+                              name: suggestion.name,
+                              conditionId: suggestion.id,
+                              description: '',
+                            })
+                          }
+                        >
+                          + {suggestion.name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    conditions.append({ name: '', description: '' })
+                  }
+                >
+                  Add Another Condition
+                </Button>
+              </>
+            )}
+          </div>
+        );
+
+      case 'rating':
+        return (
+          <div className="space-y-6">
+            {compensationEstimate && (
+              <p className="rounded-lg border p-3 text-sm">
+                Your compensation estimate of{' '}
+                {formatDollars(compensationEstimate.monthlyAmount)} a month at{' '}
+                {compensationEstimate.rating}% will be saved with your case.{' '}
+                <Link
+                  href="/tools/compensation-estimator"
+                  className="text-primary underline"
+                >
+                  Make a new estimate
+                </Link>
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" {...register('hasVaRating')} />I have a VA
+              disability rating
+            </label>
+            {form.watch('hasVaRating') && (
+              <Field
+                id="currentRating"
+                label="Combined Rating *"
+                error={errors.currentRating?.message}
+              >
+                <select
+                  id="currentRating"
+                  className={inputClassName}
+                  {...register('currentRating', {
+                    setValueAs: (value: string | number) =>
+                      value === '' || value === undefined
+                        ? undefined
+                        : Number(value),
+                  })}
+                >
+                  <option value="">Select your combined rating</option>
+                  {VA_RATINGS.map(rating => (
+                    <option key={rating} value={rating}>
+                      {rating}%
+                    </option>
+                  ))}
+                </select>
+              </Field>
+            )}
+          </div>
+        );
+
+      case 'evidence':
+        return (
+          <div className="space-y-6">
+            <fieldset className="space-y-2">
+              <legend className="text-foreground text-sm font-medium">
+                Which of these do you already have?
+              </legend>
+              {EVIDENCE_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    value={type}
+                    {...register('evidence')}
+                  />
+                  {EVIDENCE_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </fieldset>
+            <Field
+              id="evidenceNotes"
+              label="Anything else we should know about your records?"
+              error={errors.evidenceNotes?.message}
+            >
+              <textarea
+                id="evidenceNotes"
+                rows={4}
+                className={inputClassName}
+                {...register('evidenceNotes')}
+              />
+            </Field>
+          </div>
+        );
+
+      case 'selection':
+        return (
+          <div className="space-y-6">
+            <Field
+              id="claimType"
+              label="Service Needed *"
+              error={errors.claimType?.message}
+            >
+              <select
+                id="claimType"
+                className={inputClassName}
+                {...register('claimType')}
+              >
+                <option value="">Select a service</option>
+                {SERVICE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            {form.watch('claimType') === 'other' && (
+              <Field
+                id="otherService"
+                label="Please specify the service you need *"
+                error={errors.otherService?.message}
+              >
+                <input
+                  id="otherService"
+                  className={inputClassName}
+                  {...register('otherService')}
+                />
+              </Field>
+            )}
+            <Field id="urgency" label="Timeline">
+              <select
+                id="urgency"
+                className={inputClassName}
+                {...register('urgency')}
+              >
+                {CASE_URGENCIES.map(urgency => (
+                  <option key={urgency} value={urgency}>
+                    {CASE_URGENCY_LABELS[urgency]}
+                  </option>
+                ))}
+              </select>
+            </Field>
+          </div>
+        );
+
+      case 'consent':
+        return (
+          <div className="space-y-4">
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                {...register('consentToContact')}
+              />
+              I agree to be contacted by email or phone about my case.
+            </label>
+            {errors.consentToContact && (
+              <p className="text-sm text-red-600">
+                {errors.consentToContact.message}
+              </p>
+            )}
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-1"
+                {...register('authorizesRecordReview')}
+              />
+              I authorize the reviewing physician to review the medical and
+              service records I provide for the purpose of preparing my nexus
+              letter.
+            </label>
+            {errors.authorizesRecordReview && (
+              <p className="text-sm text-red-600">
+                {errors.authorizesRecordReview.message}
+              </p>
+            )}
+            <Field
+              id="signature"
+              label="Signature (type your full name) *"
+              error={errors.signature?.message}
+            >
+              <input
+                id="signature"
+                className={inputClassName}
+                {...register('signature')}
+              />
+            </Field>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-6">
+        <div className="text-muted-foreground flex items-center justify-between text-sm">
+          <span>
+            Step {currentStep + 1} of {STEPS.length}
+          </span>
+          <span>
+            {isSaving
+              ? 'Saving...'
+              : lastSavedAt
+                ? `Saved at ${lastSavedAt.toLocaleTimeString()}`
+                : draft
+                  ? 'Draft restored'
+                  : null}
+          </span>
+        </div>
+        <div className="bg-muted mt-2 h-2 rounded-full">
+          <div
+            className="bg-primary h-2 rounded-full transition-all"
+            style={{ width: `${form.progress}%` }}
+          />
+        </div>
+        <h2 className="mt-4 text-2xl font-semibold">
+          {currentStepConfig?.title}
+        </h2>
+      </div>
+
+      {autosaveError && (
+        <ErrorAlert
+          className="mb-4"
+          error={autosaveError}
+          variant="warning"
+          size="sm"
+        />
+      )}
+      <FormErrorDisplay error={form.submitError} onDismiss={form.clearError} />
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          if (form.isLastStep) {
+            form.submitForm();
+          } else {
+            handleNext();
+          }
+        }}
+        className="space-y-6"
+      >
+        {renderStep()}
+
+        <div className="flex justify-between pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={form.isFirstStep}
+            onClick={form.prevStep}
+          >
+            Back
+          </Button>
+          <Button
+            type="submit"
+            isLoading={form.isSubmitting || isCompleting}
+            loadingText="Submitting..."
+          >
+            {form.isLastStep ? 'Submit Intake' : 'Continue'}
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+const IntakeContent: React.FC = () => {
+  const searchParams = useSearchParams();
+  const { user, isLoading: isUserLoading } = useUser();
+  const { draft, isLoading: isDraftLoading, error } = useIntakeDraft(user?.id);
+  const { periods: serviceHistory, isLoading: isServiceHistoryLoading } =
+    useServiceHistory(user?.id);
+  const [claim, setClaim] = React.useState<Claim | null>(null);
+
+  const estimate = React.useMemo(() => {
+    const input = parseCompensationParams(searchParams);
+    try {
+      return input ? createCompensationEstimate(input) : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [searchParams]);
+
+  if (isUserLoading || isDraftLoading || isServiceHistoryLoading) {
+    return <PageLoadingFallback text="Loading your intake..." />;
+  }
+
+  if (!user) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="Sign in to start your intake. Your answers are saved as you go so you can finish later."
+          variant="info"
+          title="Sign In Required"
+        />
+      </div>
+    );
+  }
+
+  if (claim) {
+    return (
+      <div className="mx-auto max-w-2xl px-4 py-24 text-center">
+        <h1 className="text-4xl font-bold tracking-tight">Intake Received</h1>
+        <p className="text-muted-foreground mt-6 text-lg">
+          Your case {claim.claim_number} has been opened. A member of our team
+          will review your intake and contact you within 72 hours.
+        </p>
+        <p className="text-muted-foreground mt-4">
+          Follow your case and see which documents it still needs from your{' '}
+          <Link href="/dashboard" className="text-primary underline">
+            dashboard
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-12">
+      <div>
+        <h1 className="text-3xl font-bold">Veteran Intake</h1>
+        <p className="text-muted-foreground mt-2">
+          Tell us about your service and the conditions you are claiming. Your
+          answers are saved as you go.
+        </p>
+      </div>
+
+      {error ? (
+        <ErrorAlert error={error} title="Failed to load your saved intake" />
+      ) : (
+        <IntakeWizard
+          userId={user.id}
+          draft={draft}
+          serviceHistory={serviceHistory}
+          estimate={estimate}
+          onComplete={setClaim}
+        />
+      )}
+    </div>
+  );
+};
+
+export default function IntakePage() {
+  return (
+    <Suspense fallback={<PageLoadingFallback text="Loading your intake..." />}>
+      <IntakeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import React from 'react';
+import { useUser, useProviderProfile, useAssignedCases } from '@/hooks';
+import {
+  PROVIDER_VERIFICATION_STATUS_LABELS,
+  canTakeCases,
+  formatLicenseExpiry,
+  getLicenseExpiryWarnings,
+  isProvider,
+} from '@/lib/providers';
+import { CLAIM_STATUS_LABELS } from '@/lib/claim-workflow';
+import { CLAIM_TYPE_LABELS, CASE_URGENCY_LABELS } from '@/lib/claim-types';
+import { SLA_STATE_LABELS, getSlaStatus } from '@/lib/case-sla';
+import { PRESUMPTIVE_FLAG_LABELS } from '@/lib/presumptive';
+import {
+  ErrorAlert,
+  PageLoadingFallback,
+  TableLoadingFallback,
+} from '@/components/feedback';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import type { ProviderWithLicenses } from '@/lib/database-helpers';
+
+// =================================
+// CREDENTIALS SECTION
+// =================================
+
+const CredentialsSection: React.FC<{ profile: ProviderWithLicenses }> = ({
+  profile,
+}) => {
+  const warnings = getLicenseExpiryWarnings(profile.licenses);
+  const status = profile.verification_status;
+
+  return (
+    <Card className="p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Credentials</h2>
+        <Badge
+          variant={
+            status === 'verified'
+              ? 'success'
+              : status === 'pending'
+                ? 'warning'
+                : 'destructive'
+          }
+        >
+          {PROVIDER_VERIFICATION_STATUS_LABELS[status]}
+        </Badge>
+      </div>
+
+      {profile.verification_notes && status !== 'verified' && (
+        <ErrorAlert
+          className="mb-4"
+          error={profile.verification_notes}
+          variant={status === 'pending' ? 'info' : 'destructive'}
+          title="Verification notes"
+        />
+      )}
+
+      {warnings.map(warning => (
+        <ErrorAlert
+          key={warning.license.id}
+          className="mb-2"
+          error={formatLicenseExpiry(warning)}
+          variant={warning.status === 'expired' ? 'destructive' : 'warning'}
+          title="License renewal"
+        />
+      ))}
+
+      <div className="space-y-2 text-sm">
+        <p>
+          <span className="font-medium">Credentials:</span>{' '}
+          {profile.credentials}
+        </p>
+        {profile.npi && (
+          <p>
+            <span className="font-medium">NPI:</span> {profile.npi}
+          </p>
+        )}
+        <p>
+          <span className="font-medium">Specialties:</span>{' '}
+          {profile.specialties.join(', ')}
+        </p>
+        {profile.board_certifications.length > 0 && (
+          <p>
+            <span className="font-medium">Board certifications:</span>{' '}
+            {profile.board_certifications.join(', ')}
+          </p>
+        )}
+        <p>
+          <span className="font-medium">New cases:</span>{' '}
+          {profile.accepting_cases
+            ? `Accepting (up to ${profile.max_open_cases} open)`
+            : 'Paused'}
+        </p>
+        <p>
+          <span className="font-medium">Licenses:</span>{' '}
+          {profile.licenses.length === 0
+            ? 'None on file'
+            : profile.licenses
+                .map(
+                  license =>
+                    `${license.state} ${license.license_number} (expires ${license.expires_on})`
+                )
+                .join('; ')}
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+// =================================
+// ASSIGNED CASES SECTION
+// =================================
+
+const AssignedCasesSection: React.FC<{ providerId: string }> = ({
+  providerId,
+}) => {
+  const { claims, total, isLoading, error, refreshCases } =
+    useAssignedCases(providerId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold">Assigned Cases</h2>
+        <TableLoadingFallback rows={5} columns={4} />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorAlert
+        error={error}
+        title="Failed to load assigned cases"
+        showRetry
+        onRetry={refreshCases}
+        category="server"
+      />
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <h2 className="mb-4 text-lg font-semibold">Assigned Cases ({total})</h2>
+
+      {claims.length === 0 ? (
+        <div className="py-8 text-center text-gray-500">
+          <p>No cases are assigned to you right now.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {claims.map(claim => {
+            const sla = getSlaStatus(claim);
+            return (
+              <div key={claim.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">{claim.title}</h3>
+                  <Badge variant="secondary">
+                    {CLAIM_STATUS_LABELS[claim.status ?? 'intake']}
+                  </Badge>
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {CLAIM_TYPE_LABELS[claim.claim_type]}
+                  {claim.condition && ` · ${claim.condition}`}
+                </p>
+                {claim.presumptive_flag && (
+                  <Badge variant="outline" className="mt-2">
+                    {PRESUMPTIVE_FLAG_LABELS[claim.presumptive_flag]}
+                  </Badge>
+                )}
+                <div className="mt-2 flex items-center justify-between">
+                  <span className="text-xs text-gray-500">
+                    {CASE_URGENCY_LABELS[claim.urgency ?? 'standard']}
+                    {sla &&
+                      ` · Due ${sla.dueDate} (${SLA_STATE_LABELS[sla.state]})`}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    #{claim.claim_number}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function ProviderPortalPage() {
+  const { user, isLoading: isUserLoading } = useUser();
+  const {
+    profile,
+    licenses,
+    isLoading: isProfileLoading,
+    error,
+    refreshProfile,
+  } = useProviderProfile(isProvider(user?.role) ? user!.id : undefined);
+
+  if (isUserLoading || isProfileLoading) {
+    return <PageLoadingFallback text="Loading provider portal..." />;
+  }
+
+  if (!user || !isProvider(user.role)) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="The provider portal is only available to medical providers"
+          variant="info"
+          title="Provider Access Required"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-12">
+      <h1 className="text-3xl font-bold">Provider Portal</h1>
+
+      {error ? (
+        <ErrorAlert
+          error={error}
+          title="Failed to load your credentials"
+          showRetry
+          onRetry={refreshProfile}
+        />
+      ) : !profile ? (
+        <ErrorAlert
+          error="Add your credentials and state licenses so an administrator can verify your profile"
+          variant="info"
+          title="Complete your provider profile"
+        />
+      ) : (
+        <CredentialsSection profile={profile} />
+      )}
+
+      {!canTakeCases(profile ?? null, licenses) && (
+        <ErrorAlert
+          error="New cases are assigned once your profile is verified and you hold a current license"
+          variant="info"
+          title="Not accepting new cases"
+        />
+      )}
+
+      <AssignedCasesSection providerId={user.id} />
+    </div>
+  );
+}
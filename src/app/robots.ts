@@ -5,7 +5,7 @@ export default function robots(): MetadataRoute.Robots {
     rules: {
       userAgent: '*',
       allow: '/',
-      disallow: ['/api/', '/admin/', '/dashboard/'],
+      disallow: ['/api/', '/admin/', '/dashboard/', '/provider/', '/intake/', '/settings/'],
     },
     sitemap: 'https://thebestnexusletters.com/sitemap.xml',
   }
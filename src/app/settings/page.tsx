@@ -0,0 +1,586 @@
+'use client';
+
+import React from 'react';
+import { useFieldArray } from 'react-hook-form';
+import { PlusIcon } from '@heroicons/react/24/outline';
+import {
+  useForm,
+  useNotificationSettings,
+  useUser,
+  useServiceHistory,
+  useSaveServicePeriod,
+  useDeleteServicePeriod,
+} from '@/hooks';
+import {
+  notificationSettingsSchema,
+  servicePeriodSchema,
+  type NotificationSettingsData,
+  type ServicePeriodData,
+} from '@/lib/validations';
+import { SERVICE_BRANCHES, SERVICE_BRANCH_LABELS } from '@/lib/intake';
+import {
+  DISCHARGE_CHARACTERIZATIONS,
+  DISCHARGE_CHARACTERIZATION_LABELS,
+  MAX_SERVICE_PERIODS,
+  OCCUPATION_LABELS,
+  SERVICE_COMPONENTS,
+  SERVICE_COMPONENT_LABELS,
+  parseDeployments,
+  servicePeriodToFormData,
+} from '@/lib/service-history';
+import {
+  MAX_DEPLOYMENTS,
+  SERVICE_LOCATIONS,
+  SERVICE_LOCATION_LABELS,
+} from '@/lib/presumptive';
+import type { ServicePeriod } from '@/lib/supabase';
+import { ErrorAlert, PageLoadingFallback } from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+// =================================
+// NOTIFICATION SETTINGS
+// =================================
+
+interface SettingOption {
+  name: keyof NotificationSettingsData;
+  label: string;
+  description: string;
+}
+
+const NOTIFICATION_OPTIONS: SettingOption[] = [
+  {
+    name: 'claimUpdates',
+    label: 'Case updates',
+    description: 'Status changes, record requests and letter delivery.',
+  },
+  {
+    name: 'systemAnnouncements',
+    label: 'Announcements',
+    description: 'Service changes and scheduled maintenance.',
+  },
+  {
+    name: 'weeklyDigest',
+    label: 'Weekly digest',
+    description: 'A weekly summary of activity on your cases.',
+  },
+  {
+    name: 'marketingEmails',
+    label: 'News and offers',
+    description: 'Occasional news about our services.',
+  },
+];
+
+const CHANNEL_OPTIONS: SettingOption[] = [
+  {
+    name: 'emailNotifications',
+    label: 'Email',
+    description:
+      'Also send the notifications above to your email address. They always appear in the notification center.',
+  },
+];
+
+const NotificationSettingsForm: React.FC<{
+  settings: NotificationSettingsData;
+  onSave: (settings: NotificationSettingsData) => Promise<unknown>;
+}> = ({ settings, onSave }) => {
+  const [saved, setSaved] = React.useState(false);
+
+  const form = useForm<NotificationSettingsData>({
+    schema: notificationSettingsSchema,
+    defaultValues: settings,
+    onSubmit: async data => {
+      await onSave(data);
+      setSaved(true);
+    },
+  });
+
+  const renderOption = (option: SettingOption) => (
+    <label key={option.name} className="flex items-start gap-3 py-2">
+      <input
+        type="checkbox"
+        {...form.register(option.name, { onChange: () => setSaved(false) })}
+        className="mt-1 h-4 w-4 rounded border-gray-300"
+      />
+      <span>
+        <span className="block text-sm font-medium">{option.label}</span>
+        <span className="block text-sm text-gray-600 dark:text-gray-400">
+          {option.description}
+        </span>
+      </span>
+    </label>
+  );
+
+  return (
+    <form onSubmit={form.handleSubmit(form.submit)} className="space-y-6">
+      {form.submitError && (
+        <ErrorAlert
+          error={form.submitError}
+          variant="destructive"
+          dismissible
+          onDismiss={form.clearError}
+        />
+      )}
+
+      <fieldset>
+        <legend className="mb-2 text-lg font-semibold">
+          What to notify me about
+        </legend>
+        {NOTIFICATION_OPTIONS.map(renderOption)}
+      </fieldset>
+
+      <fieldset>
+        <legend className="mb-2 text-lg font-semibold">How to notify me</legend>
+        {CHANNEL_OPTIONS.map(renderOption)}
+      </fieldset>
+
+      <div className="flex items-center gap-4">
+        <Button type="submit" disabled={form.isSubmitting}>
+          {form.isSubmitting ? 'Saving...' : 'Save Settings'}
+        </Button>
+        {saved && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            Settings saved.
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
+
+// =================================
+// SERVICE HISTORY
+// =================================
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const NEW_PERIOD_VALUES: Partial<ServicePeriodData> = {
+  component: 'active',
+  separationDate: '',
+  dischargeCharacterization: '',
+  occupation: '',
+  deployments: [],
+};
+
+const Field: React.FC<{
+  id: string;
+  label: string;
+  error?: string | undefined;
+  children: React.ReactNode;
+}> = ({ id, label, error, children }) => (
+  <div>
+    <label htmlFor={id} className="block text-sm font-medium">
+      {label}
+    </label>
+    {children}
+    {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+  </div>
+);
+
+const ServicePeriodForm: React.FC<{
+  period?: ServicePeriod | undefined;
+  onSave: (data: ServicePeriodData) => Promise<unknown>;
+  onCancel: () => void;
+}> = ({ period, onSave, onCancel }) => {
+  const form = useForm<ServicePeriodData>({
+    schema: servicePeriodSchema,
+    defaultValues: period ? servicePeriodToFormData(period) : NEW_PERIOD_VALUES,
+    onSubmit: async data => {
+      await onSave(data);
+    },
+  });
+  const { register, control, formState } = form;
+  const { errors } = formState;
+  const deployments = useFieldArray({ control, name: 'deployments' });
+  const branch = form.watch('branch');
+
+  return (
+    <form
+      onSubmit={form.handleSubmit(form.submit)}
+      className="space-y-4 rounded-lg border p-4"
+    >
+      {form.submitError && (
+        <ErrorAlert
+          error={form.submitError}
+          variant="destructive"
+          dismissible
+          onDismiss={form.clearError}
+        />
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <Field id="branch" label="Branch *" error={errors.branch?.message}>
+          <select
+            id="branch"
+            className={inputClassName}
+            {...register('branch')}
+          >
+            <option value="">Select a branch</option>
+            {SERVICE_BRANCHES.map(value => (
+              <option key={value} value={value}>
+                {SERVICE_BRANCH_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field
+          id="component"
+          label="Component *"
+          error={errors.component?.message}
+        >
+          <select
+            id="component"
+            className={inputClassName}
+            {...register('component')}
+          >
+            {SERVICE_COMPONENTS.map(value => (
+              <option key={value} value={value}>
+                {SERVICE_COMPONENT_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field
+          id="entryDate"
+          label="Entry Date *"
+          error={errors.entryDate?.message}
+        >
+          <input
+            id="entryDate"
+            type="date"
+            className={inputClassName}
+            {...register('entryDate')}
+          />
+        </Field>
+        <Field
+          id="separationDate"
+          label="Separation Date (blank if still serving)"
+          error={errors.separationDate?.message}
+        >
+          <input
+            id="separationDate"
+            type="date"
+            className={inputClassName}
+            {...register('separationDate')}
+          />
+        </Field>
+        <Field
+          id="dischargeCharacterization"
+          label="Characterization of Discharge"
+          error={errors.dischargeCharacterization?.message}
+        >
+          <select
+            id="dischargeCharacterization"
+            className={inputClassName}
+            {...register('dischargeCharacterization')}
+          >
+            <option value="">Not yet separated</option>
+            {DISCHARGE_CHARACTERIZATIONS.map(value => (
+              <option key={value} value={value}>
+                {DISCHARGE_CHARACTERIZATION_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field
+          id="occupation"
+          label={branch ? OCCUPATION_LABELS[branch] : 'MOS, Rating or AFSC'}
+          error={errors.occupation?.message}
+        >
+          <input
+            id="occupation"
+            type="text"
+            placeholder="e.g., 11B Infantryman"
+            className={inputClassName}
+            {...register('occupation')}
+          />
+        </Field>
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium">
+          Deployments and Duty Stations
+        </legend>
+        {deployments.fields.map((field, index) => (
+          <div
+            key={field.id}
+            className="grid grid-cols-1 items-end gap-3 sm:grid-cols-5"
+          >
+            <Field
+              id={`deployments.${index}.location`}
+              label="Location"
+              error={errors.deployments?.[index]?.location?.message}
+            >
+              <input
+                id={`deployments.${index}.location`}
+                type="text"
+                placeholder="e.g., Germany"
+                className={inputClassName}
+                {...register(`deployments.${index}.location`)}
+              />
+            </Field>
+            <Field
+              id={`deployments.${index}.exposure`}
+              label="Exposure Area"
+              error={errors.deployments?.[index]?.exposure?.message}
+            >
+              <select
+                id={`deployments.${index}.exposure`}
+                className={inputClassName}
+                {...register(`deployments.${index}.exposure`)}
+              >
+                <option value="">None of these</option>
+                {SERVICE_LOCATIONS.map(location => (
+                  <option key={location} value={location}>
+                    {SERVICE_LOCATION_LABELS[location]}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field
+              id={`deployments.${index}.start`}
+              label="Arrived"
+              error={errors.deployments?.[index]?.start?.message}
+            >
+              <input
+                id={`deployments.${index}.start`}
+                type="date"
+                className={inputClassName}
+                {...register(`deployments.${index}.start`)}
+              />
+            </Field>
+            <Field
+              id={`deployments.${index}.end`}
+              label="Left"
+              error={errors.deployments?.[index]?.end?.message}
+            >
+              <input
+                id={`deployments.${index}.end`}
+                type="date"
+                className={inputClassName}
+                {...register(`deployments.${index}.end`)}
+              />
+            </Field>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => deployments.remove(index)}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        {deployments.fields.length < MAX_DEPLOYMENTS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              deployments.append({
+                location: '',
+                exposure: '',
+                start: '',
+                end: '',
+              })
+            }
+          >
+            <PlusIcon className="mr-1 h-4 w-4" />
+            Add Deployment
+          </Button>
+        )}
+      </fieldset>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={form.isSubmitting}>
+          {form.isSubmitting ? 'Saving...' : 'Save Period of Service'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const ServicePeriodSummary: React.FC<{ period: ServicePeriod }> = ({
+  period,
+}) => {
+  const deployments = parseDeployments(period.deployments);
+
+  return (
+    <div>
+      <p className="font-medium">
+        {SERVICE_BRANCH_LABELS[period.branch]} &middot;{' '}
+        {SERVICE_COMPONENT_LABELS[period.component]}
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {period.entry_date} to {period.separation_date ?? 'present'}
+        {period.discharge_characterization &&
+          ` · ${DISCHARGE_CHARACTERIZATION_LABELS[period.discharge_characterization]}`}
+        {period.occupation &&
+          ` · ${OCCUPATION_LABELS[period.branch]} ${period.occupation}`}
+      </p>
+      {deployments.length > 0 && (
+        <p className="text-sm text-gray-500">
+          Deployed to{' '}
+          {deployments.map(deployment => deployment.location).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ServiceHistorySection: React.FC<{ userId: string }> = ({ userId }) => {
+  const { periods, isLoading, error } = useServiceHistory(userId);
+  const { saveServicePeriod } = useSaveServicePeriod();
+  const { deleteServicePeriod, isDeleting } = useDeleteServicePeriod();
+  // ID of the period being edited, or 'new' while adding one
+  const [editing, setEditing] = React.useState<string | null>(null);
+  const [deleteError, setDeleteError] = React.useState<Error | null>(null);
+
+  const handleDelete = async (periodId: string) => {
+    setDeleteError(null);
+    try {
+      await deleteServicePeriod(periodId);
+    } catch (error) {
+      setDeleteError(error as Error);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Service History</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Your periods of service and deployments fill in your intake and the
+          presumptive condition checker.
+        </p>
+      </div>
+
+      {error && (
+        <ErrorAlert error={error} title="Failed to load service history" />
+      )}
+      {deleteError && (
+        <ErrorAlert
+          error={deleteError}
+          variant="destructive"
+          dismissible
+          onDismiss={() => setDeleteError(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading service history...</p>
+      ) : (
+        <ul className="space-y-3">
+          {periods.map(period =>
+            editing === period.id ? (
+              <li key={period.id}>
+                <ServicePeriodForm
+                  period={period}
+                  onSave={async data => {
+                    await saveServicePeriod(userId, data, period.id);
+                    setEditing(null);
+                  }}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            ) : (
+              <li
+                key={period.id}
+                className="flex items-start justify-between gap-4 rounded-lg border p-3"
+              >
+                <ServicePeriodSummary period={period} />
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing(period.id)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isDeleting}
+                    onClick={() => handleDelete(period.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+
+      {editing === 'new' ? (
+        <ServicePeriodForm
+          onSave={async data => {
+            await saveServicePeriod(userId, data);
+            setEditing(null);
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        !isLoading &&
+        periods.length < MAX_SERVICE_PERIODS && (
+          <Button variant="outline" onClick={() => setEditing('new')}>
+            <PlusIcon className="mr-1 h-4 w-4" />
+            Add Period of Service
+          </Button>
+        )
+      )}
+    </section>
+  );
+};
+
+// =================================
+// SETTINGS PAGE
+// =================================
+
+export default function SettingsPage() {
+  const { user } = useUser();
+  const { settings, isLoading, error, saveSettings } =
+    useNotificationSettings();
+
+  if (isLoading) {
+    return <PageLoadingFallback text="Loading settings..." />;
+  }
+
+  if (error) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert error={error} title="Failed to load settings" />
+      </div>
+    );
+  }
+
+  if (!user || !settings) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <ErrorAlert
+          error="Sign in to manage your service history and notification settings"
+          variant="info"
+          title="Sign In Required"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 px-4 py-12">
+      <h1 className="text-3xl font-bold">Settings</h1>
+
+      <Card className="p-6">
+        <ServiceHistorySection userId={user.id} />
+      </Card>
+
+      <Card className="p-6">
+        <NotificationSettingsForm settings={settings} onSave={saveSettings} />
+      </Card>
+    </div>
+  );
+}
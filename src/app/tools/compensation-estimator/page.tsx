@@ -0,0 +1,351 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  COMPENSATION_RATE_TABLES,
+  MIN_RATING_FOR_DEPENDENTS,
+  NO_DEPENDENTS,
+  calculateBackPay,
+  calculateMonthlyCompensation,
+  describeDependents,
+  formatDollars,
+  parseCompensationParams,
+  serializeCompensationParams,
+  type CompensationInput,
+  type Dependents,
+} from '@/lib/compensation';
+import { VA_RATINGS } from '@/lib/intake';
+import { ErrorAlert, PageLoadingFallback } from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const DEFAULT_INPUT: CompensationInput = {
+  rating: 10,
+  dependents: NO_DEPENDENTS,
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+// =================================
+// ESTIMATOR
+// =================================
+
+const CompensationEstimator: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [input, setInput] = React.useState<CompensationInput>(
+    () => parseCompensationParams(searchParams) ?? DEFAULT_INPUT
+  );
+  const { rating, dependents } = input;
+  const query = serializeCompensationParams(input);
+
+  const estimate = React.useMemo(() => {
+    try {
+      return {
+        monthly: calculateMonthlyCompensation(rating, dependents),
+        backPay: input.effectiveDate
+          ? calculateBackPay(rating, dependents, input.effectiveDate)
+          : null,
+        error: null,
+      };
+    } catch (error) {
+      return { monthly: null, backPay: null, error: error as Error };
+    }
+  }, [rating, dependents, input.effectiveDate]);
+
+  // Keep the URL in step so the estimate can be shared
+  const update = (next: CompensationInput) => {
+    setInput(next);
+    router.replace(`${pathname}?${serializeCompensationParams(next)}`, {
+      scroll: false,
+    });
+  };
+
+  const updateDependents = (changes: Partial<Dependents>) =>
+    update({ ...input, dependents: { ...dependents, ...changes } });
+
+  const hasDependents = rating >= MIN_RATING_FOR_DEPENDENTS;
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <Card className="space-y-4 p-6">
+        <h2 className="text-lg font-semibold">Your Rating and Dependents</h2>
+
+        <div>
+          <label htmlFor="rating" className="block text-sm font-medium">
+            Combined rating
+          </label>
+          <select
+            id="rating"
+            className={inputClassName}
+            value={rating}
+            onChange={event =>
+              update({ ...input, rating: Number(event.target.value) })
+            }
+          >
+            {VA_RATINGS.map(value => (
+              <option key={value} value={value}>
+                {value}%
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Not sure?{' '}
+            <Link
+              href="/tools/rating-calculator"
+              className="text-primary underline"
+            >
+              Work out your combined rating
+            </Link>
+          </p>
+        </div>
+
+        <fieldset className="space-y-3" disabled={!hasDependents}>
+          <legend className="text-sm font-medium">Dependents</legend>
+          {!hasDependents && (
+            <p className="text-xs text-gray-500">
+              VA pays for dependents at {MIN_RATING_FOR_DEPENDENTS}% and above.
+            </p>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={dependents.spouse}
+              onChange={event =>
+                updateDependents({
+                  spouse: event.target.checked,
+                  spouseAidAndAttendance:
+                    event.target.checked && dependents.spouseAidAndAttendance,
+                })
+              }
+            />
+            Spouse
+          </label>
+          {dependents.spouse && (
+            <label className="flex items-center gap-2 pl-6 text-sm">
+              <input
+                type="checkbox"
+                checked={dependents.spouseAidAndAttendance}
+                onChange={event =>
+                  updateDependents({
+                    spouseAidAndAttendance: event.target.checked,
+                  })
+                }
+              />
+              Spouse needs aid and attendance
+            </label>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="children" className="block text-sm">
+                Children under 18
+              </label>
+              <input
+                id="children"
+                type="number"
+                min={0}
+                max={20}
+                className={inputClassName}
+                value={dependents.childrenUnder18}
+                onChange={event =>
+                  updateDependents({
+                    childrenUnder18: Math.max(0, Number(event.target.value)),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label htmlFor="schoolChildren" className="block text-sm">
+                In school, 18-23
+              </label>
+              <input
+                id="schoolChildren"
+                type="number"
+                min={0}
+                max={20}
+                className={inputClassName}
+                value={dependents.schoolChildren}
+                onChange={event =>
+                  updateDependents({
+                    schoolChildren: Math.max(0, Number(event.target.value)),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <label htmlFor="parents" className="block text-sm">
+                Dependent parents
+              </label>
+              <select
+                id="parents"
+                className={inputClassName}
+                value={dependents.parents}
+                onChange={event =>
+                  updateDependents({ parents: Number(event.target.value) })
+                }
+              >
+                {[0, 1, 2].map(count => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </fieldset>
+
+        <div>
+          <label htmlFor="effectiveDate" className="block text-sm font-medium">
+            Effective date (optional, for back pay)
+          </label>
+          <input
+            id="effectiveDate"
+            type="date"
+            min={COMPENSATION_RATE_TABLES[0]?.effectiveDate}
+            className={inputClassName}
+            value={input.effectiveDate ?? ''}
+            onChange={event =>
+              update({
+                rating,
+                dependents,
+                ...(event.target.value && {
+                  effectiveDate: event.target.value,
+                }),
+              })
+            }
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Usually the date VA received your claim or intent to file.
+          </p>
+        </div>
+      </Card>
+
+      <Card className="space-y-4 p-6">
+        {estimate.error ? (
+          <ErrorAlert
+            error={estimate.error}
+            variant="warning"
+            title="Unable to estimate"
+          />
+        ) : (
+          estimate.monthly && (
+            <>
+              <div className="text-center">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Estimated monthly compensation
+                </p>
+                <p className="text-primary text-5xl font-bold">
+                  {formatDollars(estimate.monthly.total)}
+                </p>
+                <p className="mt-1 text-sm text-gray-500">
+                  {rating}%, {describeDependents(dependents).toLowerCase()}, at{' '}
+                  {estimate.monthly.rateYear} rates
+                </p>
+              </div>
+
+              {estimate.monthly.dependents > 0 && (
+                <dl className="grid grid-cols-2 gap-1 text-sm">
+                  <dt>Veteran alone</dt>
+                  <dd className="text-right">
+                    {formatDollars(estimate.monthly.base)}
+                  </dd>
+                  <dt>Dependents</dt>
+                  <dd className="text-right">
+                    {formatDollars(estimate.monthly.dependents)}
+                  </dd>
+                </dl>
+              )}
+
+              {estimate.backPay && (
+                <div className="space-y-2">
+                  <h3 className="font-medium">
+                    Estimated back pay: {formatDollars(estimate.backPay.total)}
+                  </h3>
+                  {estimate.backPay.periods.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Payments would start{' '}
+                      {formatMonth(estimate.backPay.paymentStart.slice(0, 7))}.
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-left text-gray-500">
+                        <tr>
+                          <th className="font-normal">Months</th>
+                          <th className="text-right font-normal">Monthly</th>
+                          <th className="text-right font-normal">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {estimate.backPay.periods.map(period => (
+                          <tr key={period.from}>
+                            <td>
+                              {formatMonth(period.from)}
+                              {period.to !== period.from &&
+                                ` - ${formatMonth(period.to)}`}{' '}
+                              ({period.months})
+                            </td>
+                            <td className="text-right">
+                              {formatDollars(period.monthlyAmount)}
+                            </td>
+                            <td className="text-right">
+                              {formatDollars(period.total)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+
+              <Link href={`/intake?${query}`} className="block">
+                <Button className="w-full">
+                  Start a Case with This Estimate
+                </Button>
+              </Link>
+            </>
+          )
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function CompensationEstimatorPage() {
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-12">
+      <div>
+        <h1 className="text-3xl font-bold">VA Compensation Estimator</h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">
+          Estimate your monthly VA disability compensation from your combined
+          rating and dependents, and the back pay owed from your effective date
+          at each year&apos;s rates.
+        </p>
+      </div>
+
+      <Suspense fallback={<PageLoadingFallback text="Loading estimator..." />}>
+        <CompensationEstimator />
+      </Suspense>
+
+      <p className="text-sm text-gray-500">
+        This is an estimate for planning only. VA decides your rating, effective
+        date and the dependents it pays for.
+      </p>
+    </div>
+  );
+}
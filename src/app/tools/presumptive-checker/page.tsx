@@ -0,0 +1,398 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useConditionCatalog, useServiceHistory, useUser } from '@/hooks';
+import {
+  EXPOSURE_PROGRAM_INFO,
+  MAX_CHECKED_CONDITIONS,
+  MAX_DEPLOYMENTS,
+  PRESUMPTIVE_FLAG_LABELS,
+  SERVICE_LOCATIONS,
+  SERVICE_LOCATION_LABELS,
+  assessPresumptiveEligibility,
+  parsePresumptiveParams,
+  serializePresumptiveParams,
+  toExposureDeployments,
+  type ConditionAssessment,
+  type Deployment,
+  type PresumptiveCheckInput,
+  type ServiceLocation,
+} from '@/lib/presumptive';
+import { getServiceHistoryDeployments } from '@/lib/service-history';
+import { PageLoadingFallback } from '@/components/feedback';
+import { ConditionAutocomplete } from '@/components/forms';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const NEW_DEPLOYMENT: Deployment = { location: 'iraq', start: '' };
+
+const describeAssessment = (assessment: ConditionAssessment) => {
+  switch (assessment.basis) {
+    case 'presumptive':
+      return `Presumptive under ${EXPOSURE_PROGRAM_INFO[assessment.program].label} (${assessment.presumptive.name})`;
+    case 'secondary':
+      return `Often secondary to ${assessment.secondaryTo}; a secondary service connection letter may fit best`;
+    case 'direct':
+      return 'Not presumptive; a nexus letter is likely needed';
+  }
+};
+
+// =================================
+// CHECKER
+// =================================
+
+const PresumptiveChecker: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { conditions: catalog } = useConditionCatalog();
+  const { user } = useUser();
+  const { periods } = useServiceHistory(user?.id);
+  const [input, setInput] = React.useState<PresumptiveCheckInput>(() =>
+    parsePresumptiveParams(searchParams)
+  );
+  const [conditionText, setConditionText] = React.useState('');
+  const [copied, setCopied] = React.useState(false);
+  const { deployments, conditions } = input;
+
+  // Deployments still being filled in are left out until they have a start
+  const assessment = React.useMemo(
+    () =>
+      assessPresumptiveEligibility(
+        deployments.filter(deployment => deployment.start),
+        conditions,
+        catalog
+      ),
+    [deployments, conditions, catalog]
+  );
+
+  // Keep the URL in step so the check can be shared
+  const update = (next: PresumptiveCheckInput) => {
+    setInput(next);
+    setCopied(false);
+    const query = serializePresumptiveParams({
+      ...next,
+      deployments: next.deployments.filter(deployment => deployment.start),
+    });
+    router.replace(query ? `${pathname}?${query}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const updateDeployment = (index: number, changes: Partial<Deployment>) =>
+    update({
+      ...input,
+      deployments: deployments.map((deployment, i) =>
+        i === index ? { ...deployment, ...changes } : deployment
+      ),
+    });
+
+  const addCondition = (name: string) => {
+    const condition = name.trim();
+    setConditionText('');
+    if (!condition || conditions.includes(condition)) return;
+    update({ ...input, conditions: [...conditions, condition] });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <div className="space-y-6">
+        <Card className="space-y-4 p-6">
+          <h2 className="text-lg font-semibold">Where You Served</h2>
+
+          {deployments.length === 0 ? (
+            <p className="py-4 text-center text-gray-500">
+              Add each deployment or duty station and the dates you were there.
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {deployments.map((deployment, index) => (
+                <li key={index} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <label
+                        htmlFor={`location-${index}`}
+                        className="block text-sm font-medium"
+                      >
+                        Location
+                      </label>
+                      <select
+                        id={`location-${index}`}
+                        className={inputClassName}
+                        value={deployment.location}
+                        onChange={event =>
+                          updateDeployment(index, {
+                            location: event.target.value as ServiceLocation,
+                          })
+                        }
+                      >
+                        {SERVICE_LOCATIONS.map(location => (
+                          <option key={location} value={location}>
+                            {SERVICE_LOCATION_LABELS[location]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove deployment ${index + 1}`}
+                      onClick={() =>
+                        update({
+                          ...input,
+                          deployments: deployments.filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label
+                        htmlFor={`start-${index}`}
+                        className="block text-sm"
+                      >
+                        Arrived
+                      </label>
+                      <input
+                        id={`start-${index}`}
+                        type="date"
+                        className={inputClassName}
+                        value={deployment.start}
+                        onChange={event =>
+                          updateDeployment(index, { start: event.target.value })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`end-${index}`} className="block text-sm">
+                        Left (blank if still there)
+                      </label>
+                      <input
+                        id={`end-${index}`}
+                        type="date"
+                        className={inputClassName}
+                        value={deployment.end ?? ''}
+                        onChange={event =>
+                          updateDeployment(index, { end: event.target.value })
+                        }
+                      />
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={deployments.length >= MAX_DEPLOYMENTS}
+              onClick={() =>
+                update({
+                  ...input,
+                  deployments: [...deployments, NEW_DEPLOYMENT],
+                })
+              }
+            >
+              <PlusIcon className="mr-1 h-4 w-4" />
+              Add Deployment
+            </Button>
+            {periods.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  update({
+                    ...input,
+                    deployments: toExposureDeployments(
+                      getServiceHistoryDeployments(periods)
+                    ),
+                  })
+                }
+              >
+                Use My Service History
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        <Card className="space-y-4 p-6">
+          <h2 className="text-lg font-semibold">Your Conditions</h2>
+
+          {conditions.length > 0 && (
+            <ul className="space-y-2">
+              {conditions.map(condition => (
+                <li
+                  key={condition}
+                  className="flex items-center justify-between text-sm"
+                >
+                  {condition}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${condition}`}
+                    onClick={() =>
+                      update({
+                        ...input,
+                        conditions: conditions.filter(
+                          other => other !== condition
+                        ),
+                      })
+                    }
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {conditions.length < MAX_CHECKED_CONDITIONS && (
+            <form
+              className="flex items-end gap-2"
+              onSubmit={event => {
+                event.preventDefault();
+                addCondition(conditionText);
+              }}
+            >
+              <div className="flex-1">
+                <label htmlFor="condition" className="block text-sm">
+                  Condition
+                </label>
+                <ConditionAutocomplete
+                  id="condition"
+                  placeholder="e.g., Asthma, Diabetes, Hypertension"
+                  className={inputClassName}
+                  conditions={catalog}
+                  value={conditionText}
+                  onChange={setConditionText}
+                  onSelect={condition => addCondition(condition.name)}
+                />
+              </div>
+              <Button type="submit" variant="outline">
+                Add
+              </Button>
+            </form>
+          )}
+        </Card>
+      </div>
+
+      <Card className="space-y-4 p-6">
+        <h2 className="text-lg font-semibold">Results</h2>
+
+        {assessment.exposures.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            None of the service you&apos;ve added qualifies for a presumptive
+            exposure program yet.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {assessment.exposures.map(exposure => (
+              <li key={exposure.program} className="rounded-lg border p-3">
+                <p className="font-medium">
+                  {EXPOSURE_PROGRAM_INFO[exposure.program].label}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {exposure.days} qualifying days in{' '}
+                  {exposure.locations
+                    .map(location => SERVICE_LOCATION_LABELS[location])
+                    .join(', ')}{' '}
+                  &middot; {EXPOSURE_PROGRAM_INFO[exposure.program].regulation}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {assessment.conditions.length > 0 && (
+          <ul className="space-y-2 text-sm">
+            {assessment.conditions.map(result => (
+              <li key={result.condition}>
+                <p className="font-medium">{result.condition}</p>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {describeAssessment(result)}
+                </p>
+                {result.basis === 'presumptive' && result.presumptive.note && (
+                  <p className="text-xs text-gray-500">
+                    {result.presumptive.note}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {assessment.flag && (
+          <p className="border-primary rounded-lg border p-3 text-sm font-medium">
+            {PRESUMPTIVE_FLAG_LABELS[assessment.flag]}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={deployments.length === 0 && conditions.length === 0}
+            onClick={handleCopy}
+          >
+            {copied ? 'Link Copied' : 'Copy Link to This Check'}
+          </Button>
+          <Link href="/intake">
+            <Button variant="outline" size="sm">
+              Start Your Case
+            </Button>
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function PresumptiveCheckerPage() {
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-12">
+      <div>
+        <h1 className="text-3xl font-bold">Presumptive Condition Checker</h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">
+          VA presumes some conditions were caused by service in certain places
+          and times, including burn pit and Gulf War exposure under the PACT
+          Act, Agent Orange, Camp Lejeune water and radiation. A presumptive
+          condition doesn&apos;t need a nexus letter. Check yours here.
+        </p>
+      </div>
+
+      <Suspense fallback={<PageLoadingFallback text="Loading checker..." />}>
+        <PresumptiveChecker />
+      </Suspense>
+
+      <p className="text-sm text-gray-500">
+        This is a screening tool, not a decision. VA confirms your service
+        records and may apply limits on when a condition appeared.
+      </p>
+    </div>
+  );
+}
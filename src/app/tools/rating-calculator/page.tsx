@@ -0,0 +1,252 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  EXTREMITIES,
+  EXTREMITY_LABELS,
+  RATINGS_PARAM,
+  calculateCombinedRating,
+  parseDisabilities,
+  serializeDisabilities,
+  type Extremity,
+  type RatedDisability,
+} from '@/lib/rating-calculator';
+import { VA_RATINGS } from '@/lib/intake';
+import { PageLoadingFallback } from '@/components/feedback';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+
+const inputClassName =
+  'block w-full rounded-md border border-border bg-background px-3 py-2 text-foreground shadow-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+// =================================
+// CALCULATOR
+// =================================
+
+const RatingCalculator: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [disabilities, setDisabilities] = React.useState<RatedDisability[]>(
+    () => parseDisabilities(searchParams.get(RATINGS_PARAM))
+  );
+  const [copied, setCopied] = React.useState(false);
+
+  const result = React.useMemo(
+    () => calculateCombinedRating(disabilities),
+    [disabilities]
+  );
+
+  // Keep the URL in step so the calculation can be shared
+  const update = (next: RatedDisability[]) => {
+    setDisabilities(next);
+    setCopied(false);
+    const value = serializeDisabilities(next);
+    router.replace(
+      value
+        ? `${pathname}?${RATINGS_PARAM}=${encodeURIComponent(value)}`
+        : pathname,
+      { scroll: false }
+    );
+  };
+
+  const updateAt = (index: number, changes: Partial<RatedDisability>) =>
+    update(
+      disabilities.map((disability, i) =>
+        i === index ? { ...disability, ...changes } : disability
+      )
+    );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <Card className="space-y-4 p-6">
+        <h2 className="text-lg font-semibold">Your Disabilities</h2>
+
+        {disabilities.length === 0 ? (
+          <p className="py-4 text-center text-gray-500">
+            Add each service-connected disability and its rating.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {disabilities.map((disability, index) => (
+              <li key={index} className="flex items-end gap-2">
+                <div className="w-28">
+                  <label
+                    htmlFor={`rating-${index}`}
+                    className="block text-sm font-medium"
+                  >
+                    Rating
+                  </label>
+                  <select
+                    id={`rating-${index}`}
+                    className={inputClassName}
+                    value={disability.rating}
+                    onChange={event =>
+                      updateAt(index, { rating: Number(event.target.value) })
+                    }
+                  >
+                    {VA_RATINGS.map(rating => (
+                      <option key={rating} value={rating}>
+                        {rating}%
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <label
+                    htmlFor={`extremity-${index}`}
+                    className="block text-sm font-medium"
+                  >
+                    Affects
+                  </label>
+                  <select
+                    id={`extremity-${index}`}
+                    className={inputClassName}
+                    value={disability.extremity ?? ''}
+                    onChange={event =>
+                      updateAt(index, {
+                        extremity: (event.target.value ||
+                          null) as Extremity | null,
+                      })
+                    }
+                  >
+                    <option value="">Not an arm or leg</option>
+                    {EXTREMITIES.map(extremity => (
+                      <option key={extremity} value={extremity}>
+                        {EXTREMITY_LABELS[extremity]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove disability ${index + 1}`}
+                  onClick={() =>
+                    update(disabilities.filter((_, i) => i !== index))
+                  }
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update([...disabilities, { rating: 10 }])}
+        >
+          <PlusIcon className="mr-1 h-4 w-4" />
+          Add Disability
+        </Button>
+      </Card>
+
+      <Card className="space-y-4 p-6">
+        <div className="text-center">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Combined rating
+          </p>
+          <p className="text-primary text-6xl font-bold">
+            {result.combinedRating}%
+          </p>
+          <p className="mt-1 text-sm text-gray-500">
+            Combined value {result.combinedValue}%, rounded to the nearest 10
+          </p>
+        </div>
+
+        {result.bilateral && (
+          <div className="rounded-lg border p-3 text-sm">
+            <p className="font-medium">Bilateral factor</p>
+            <p className="mt-1 text-gray-600 dark:text-gray-400">
+              {result.bilateral.ratings.map(rating => `${rating}%`).join(', ')}{' '}
+              combine to {result.bilateral.combinedValue}%, plus 10% (
+              {result.bilateral.factor.toFixed(1)}) gives{' '}
+              {result.bilateral.value}%.
+            </p>
+          </div>
+        )}
+
+        {result.steps.length > 0 && (
+          <ol className="space-y-1 text-sm">
+            {result.steps.map((step, index) => (
+              <li key={index} className="flex justify-between">
+                <span>
+                  {index === 0 ? 'Start with' : 'Combine'} {step.rating}%
+                  {step.bilateral && ' (bilateral)'}
+                </span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {step.combinedValue}%
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={disabilities.length === 0}
+            onClick={handleCopy}
+          >
+            {copied ? 'Link Copied' : 'Copy Link to This Calculation'}
+          </Button>
+          <Link
+            href={`/tools/compensation-estimator?rating=${result.combinedRating}`}
+          >
+            <Button variant="outline" size="sm">
+              Estimate Monthly Compensation
+            </Button>
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+// =================================
+// PAGE
+// =================================
+
+export default function RatingCalculatorPage() {
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-12">
+      <div>
+        <h1 className="text-3xl font-bold">VA Combined Rating Calculator</h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">
+          VA doesn&apos;t add ratings together. Each disability is applied to
+          what the ones before it leave, following the combined ratings table in
+          38 CFR 4.25, and disabilities of both arms or both legs get the
+          bilateral factor.
+        </p>
+      </div>
+
+      <Suspense fallback={<PageLoadingFallback text="Loading calculator..." />}>
+        <RatingCalculator />
+      </Suspense>
+
+      <p className="text-sm text-gray-500">
+        This is an estimate for planning only; VA decides your rating. Thinking
+        about a new service connection?{' '}
+        <Link href="/intake" className="text-primary underline">
+          Start your case
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { forwardRef } from 'react';
+import { CheckCircleIcon } from '@heroicons/react/24/solid';
+import { cn } from '@/lib/component-utils';
+import { BaseComponentProps } from '@/types/component';
+import type { EvidenceChecklistItem } from '@/lib/conditions';
+
+export interface EvidenceChecklistProps extends BaseComponentProps<HTMLDivElement> {
+  /** Checklist items, from useEvidenceChecklist */
+  items: readonly EvidenceChecklistItem[];
+}
+
+/**
+ * Evidence a case's conditions need, marking which items still have no
+ * document uploaded
+ */
+export const EvidenceChecklist = forwardRef<
+  HTMLDivElement,
+  EvidenceChecklistProps
+>(
+  (
+    {
+      className,
+      items,
+      'aria-label': ariaLabel,
+      'data-testid': testId,
+      ...props
+    },
+    ref
+  ) => {
+    const missing = items.filter(item => !item.complete).length;
+
+    return (
+      <div
+        className={cn('space-y-3', className)}
+        aria-label={ariaLabel || 'Evidence checklist'}
+        data-testid={testId || 'evidence-checklist'}
+        ref={ref}
+        {...props}
+      >
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {missing === 0
+            ? 'Every document your conditions need has been uploaded.'
+            : `${missing} of ${items.length} documents still missing`}
+        </p>
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={item.key} className="flex items-start gap-3 text-sm">
+              {item.complete ? (
+                <CheckCircleIcon
+                  className="mt-0.5 h-5 w-5 shrink-0 text-green-600"
+                  aria-hidden="true"
+                />
+              ) : (
+                <span
+                  className="mt-0.5 h-5 w-5 shrink-0 rounded-full border-2 border-gray-300"
+                  aria-hidden="true"
+                />
+              )}
+              <div>
+                <p className={cn(item.complete && 'text-gray-500')}>
+                  {item.label}
+                  <span className="sr-only">
+                    {item.complete ? ' (uploaded)' : ' (missing)'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  For {item.conditions.join(', ')}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+);
+
+EvidenceChecklist.displayName = 'EvidenceChecklist';
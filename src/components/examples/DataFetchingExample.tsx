@@ -9,6 +9,8 @@ import {
   claimSubmissionSchema,
   type ClaimSubmissionData,
 } from '@/lib/validations';
+import { SERVICE_OPTIONS, claimSubmissionToInsert } from '@/lib/claim-types';
+import { CLAIM_STATUS_LABELS } from '@/lib/claim-workflow';
 import {
   LoadingSpinner,
   ErrorAlert,
@@ -135,16 +137,18 @@ const UserClaimsSection: React.FC = () => {
                 <h4 className="font-medium">{claim.title}</h4>
                 <span
                   className={`rounded px-2 py-1 text-xs font-medium ${
-                    claim.status === 'approved'
+                    claim.status === 'delivered' || claim.status === 'closed'
                       ? 'bg-green-100 text-green-800'
-                      : claim.status === 'rejected'
+                      : claim.status === 'cancelled'
                         ? 'bg-red-100 text-red-800'
-                        : claim.status === 'under_review'
-                          ? 'bg-blue-100 text-blue-800'
-                          : 'bg-yellow-100 text-yellow-800'
+                        : claim.status === 'on_hold'
+                          ? 'bg-gray-100 text-gray-800'
+                          : claim.status === 'intake'
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-blue-100 text-blue-800'
                   }`}
                 >
-                  {claim.status.replace('_', ' ')}
+                  {CLAIM_STATUS_LABELS[claim.status ?? 'intake']}
                 </span>
               </div>
               <p className="mt-1 line-clamp-2 text-sm text-gray-600 dark:text-gray-400">
@@ -178,11 +182,10 @@ const ClaimSubmissionForm: React.FC = () => {
     schema: claimSubmissionSchema,
     resetOnSuccess: true,
     onSubmit: async data => {
-      await submitClaim({
-        ...data,
-        claim_type: data.claimType, // Map claimType to claim_type
-        user_id: 'current-user-id', // This would be from auth context
-      });
+      await submitClaim(
+        // User ID would come from auth context
+        claimSubmissionToInsert('current-user-id', data)
+      );
 
       // Refresh claims list after successful submission
       refreshClaims();
@@ -243,17 +246,17 @@ const ClaimSubmissionForm: React.FC = () => {
 
         {/* Claim Type Field */}
         <div>
-          <label className="mb-1 block text-sm font-medium">Claim Type *</label>
+          <label className="mb-1 block text-sm font-medium">Service *</label>
           <select
             {...form.register('claimType')}
             className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
           >
-            <option value="">Select claim type</option>
-            <option value="complaint">Complaint</option>
-            <option value="request">Request</option>
-            <option value="suggestion">Suggestion</option>
-            <option value="bug_report">Bug Report</option>
-            <option value="other">Other</option>
+            <option value="">Select a service</option>
+            {SERVICE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
           </select>
           {form.formState.errors.claimType && (
             <p className="mt-1 text-sm text-red-600">
@@ -276,17 +279,17 @@ const ClaimSubmissionForm: React.FC = () => {
           </select>
         </div>
 
-        {/* Category Field */}
+        {/* Condition Field */}
         <div>
-          <label className="mb-1 block text-sm font-medium">Category *</label>
+          <label className="mb-1 block text-sm font-medium">Condition *</label>
           <input
-            {...form.register('category')}
+            {...form.register('condition')}
             className="w-full rounded-md border border-gray-300 px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-            placeholder="e.g., Account, Billing, Technical"
+            placeholder="e.g., PTSD, Hearing Loss, Back Injury"
           />
-          {form.formState.errors.category && (
+          {form.formState.errors.condition && (
             <p className="mt-1 text-sm text-red-600">
-              {form.formState.errors.category.message}
+              {form.formState.errors.condition.message}
             </p>
           )}
         </div>
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { forwardRef } from 'react';
+import { cn } from '@/lib/component-utils';
+import {
+  BODY_SYSTEM_LABELS,
+  formatDiagnosticCode,
+  searchConditions,
+} from '@/lib/conditions';
+import type { Condition } from '@/lib/supabase';
+
+export interface ConditionAutocompleteProps extends Omit<
+  React.InputHTMLAttributes<HTMLInputElement>,
+  'value' | 'onChange' | 'onSelect'
+> {
+  /** Catalog to suggest from, from useConditionCatalog */
+  conditions: readonly Condition[];
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when a catalog condition is picked from the suggestions */
+  onSelect?: (condition: Condition) => void;
+}
+
+/**
+ * Condition text input that suggests catalog conditions by name, alias or
+ * diagnostic code. Free text is still accepted for conditions the catalog
+ * doesn't cover.
+ */
+export const ConditionAutocomplete = forwardRef<
+  HTMLInputElement,
+  ConditionAutocompleteProps
+>(
+  (
+    { conditions, value, onChange, onSelect, onBlur, onKeyDown, ...props },
+    ref
+  ) => {
+    const listId = React.useId();
+    const [isOpen, setIsOpen] = React.useState(false);
+    const [activeIndex, setActiveIndex] = React.useState(-1);
+
+    const suggestions = React.useMemo(
+      () => searchConditions(conditions, value),
+      [conditions, value]
+    );
+    const showSuggestions = isOpen && suggestions.length > 0;
+
+    const select = (condition: Condition) => {
+      onChange(condition.name);
+      onSelect?.(condition);
+      setIsOpen(false);
+      setActiveIndex(-1);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(event);
+      if (event.defaultPrevented || suggestions.length === 0) return;
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setIsOpen(true);
+          setActiveIndex(index => (index + 1) % suggestions.length);
+          break;
+        case 'ArrowUp':
+          event.preventDefault();
+          setIsOpen(true);
+          setActiveIndex(index =>
+            index <= 0 ? suggestions.length - 1 : index - 1
+          );
+          break;
+        case 'Enter': {
+          const suggestion = showSuggestions && suggestions[activeIndex];
+          if (suggestion) {
+            event.preventDefault();
+            select(suggestion);
+          }
+          break;
+        }
+        case 'Escape':
+          setIsOpen(false);
+          setActiveIndex(-1);
+          break;
+      }
+    };
+
+    return (
+      <div className="relative">
+        <input
+          type="text"
+          role="combobox"
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-activedescendant={
+            showSuggestions && activeIndex >= 0
+              ? `${listId}-${activeIndex}`
+              : undefined
+          }
+          value={value}
+          onChange={event => {
+            onChange(event.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={event => {
+            setIsOpen(false);
+            onBlur?.(event);
+          }}
+          onKeyDown={handleKeyDown}
+          ref={ref}
+          {...props}
+        />
+        {showSuggestions && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="border-border bg-background absolute z-10 mt-1 max-h-72 w-full overflow-auto rounded-md border py-1 shadow-lg"
+          >
+            {suggestions.map((condition, index) => (
+              <li
+                key={condition.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  'cursor-pointer px-3 py-2 text-sm',
+                  index === activeIndex && 'bg-primary/10'
+                )}
+                // Keep focus in the input so blur doesn't close the list first
+                onMouseDown={event => event.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(condition)}
+              >
+                <span className="text-foreground block">{condition.name}</span>
+                <span className="block text-xs text-gray-500">
+                  {formatDiagnosticCode(condition.diagnostic_code)} &middot;{' '}
+                  {BODY_SYSTEM_LABELS[condition.body_system]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+ConditionAutocomplete.displayName = 'ConditionAutocomplete';
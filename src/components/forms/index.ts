@@ -1,2 +1 @@
-// Form components will be added here
-// Examples: Input, Select, Checkbox, Radio, TextArea, etc.
+export * from './ConditionAutocomplete';
@@ -10,7 +10,7 @@ export * from './layout';
 
 // Forms
 // Note: Form components (inputs, textareas, checkboxes) can be added as needed
-// export * from './forms';
+export * from './forms';
 
 // Icons
 // Note: Custom icon components can be added as needed, currently using Lucide React
@@ -19,5 +19,11 @@ export * from './layout';
 // Feedback Components
 export * from './feedback';
 
+// Claim Components
+export * from './claims';
+
+// Letter Components
+export * from './letters';
+
 // Providers
 export * from './providers';
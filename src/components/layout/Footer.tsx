@@ -7,6 +7,7 @@ const navigation = {
     { name: 'Home', href: '/' },
     { name: 'Services', href: '/services' },
     { name: 'How It Works', href: '/how-it-works' },
+    { name: 'Rating Calculator', href: '/tools/rating-calculator' },
     { name: 'Contact', href: '/contact' },
   ],
   social: [
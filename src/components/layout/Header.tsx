@@ -11,6 +11,7 @@ import {
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { NotificationBell } from './NotificationBell';
 
 const navigation = [
   { name: 'Home', href: '/' },
@@ -95,6 +96,7 @@ export default function Header() {
         {/* Desktop user menu & theme toggle */}
         <div className="hidden lg:flex lg:flex-1 lg:items-center lg:justify-end lg:gap-x-4">
           <ThemeToggle />
+          <NotificationBell />
 
           {/* User menu */}
           <Menu as="div" className="relative ml-3">
@@ -0,0 +1,156 @@
+'use client';
+
+import { Fragment } from 'react';
+import { Menu, Transition } from '@headlessui/react';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { useRouter } from 'next/navigation';
+import {
+  useUser,
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useNotificationsSubscription,
+} from '@/hooks';
+import type { Notification } from '@/lib/supabase';
+
+/**
+ * Header bell with the signed-in user's recent notifications. The unread
+ * count updates live.
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const { user } = useUser();
+  const { notifications, unreadCount } = useNotifications(user?.id);
+  const { markRead } = useMarkNotificationRead();
+  const { markAllRead, isMarking } = useMarkAllNotificationsRead();
+
+  useNotificationsSubscription(user?.id);
+
+  if (!user) return null;
+
+  const handleOpen = async (notification: Notification) => {
+    try {
+      if (!notification.read_at) {
+        await markRead(notification.id);
+      }
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead(user.id);
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <Menu as="div" className="relative">
+      <Menu.Button className="text-muted-foreground hover:text-foreground focus:ring-primary focus:ring-offset-background relative rounded-full p-1 focus:ring-2 focus:ring-offset-2 focus:outline-none">
+        <span className="sr-only">
+          {unreadCount > 0
+            ? `Notifications, ${unreadCount} unread`
+            : 'Notifications'}
+        </span>
+        <BellIcon className="h-6 w-6" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span
+            className="bg-primary text-primary-foreground absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-xs font-semibold"
+            aria-hidden="true"
+          >
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="bg-card ring-border absolute right-0 z-10 mt-2 w-80 origin-top-right rounded-md shadow-lg ring-1 focus:outline-none">
+          <div className="border-border flex items-center justify-between border-b px-4 py-2">
+            <span className="text-card-foreground text-sm font-semibold">
+              Notifications
+            </span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="text-primary text-xs font-medium hover:underline disabled:opacity-50"
+                onClick={handleMarkAllRead}
+                disabled={isMarking}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+              You have no notifications yet.
+            </p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto py-1">
+              {notifications.map(notification => (
+                <Menu.Item key={notification.id}>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      className={`${
+                        active
+                          ? 'bg-accent text-accent-foreground'
+                          : 'text-card-foreground'
+                      } block w-full px-4 py-2 text-left text-sm`}
+                      onClick={() => handleOpen(notification)}
+                    >
+                      <span className="flex items-start gap-2">
+                        <span
+                          className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                            notification.read_at
+                              ? 'bg-transparent'
+                              : 'bg-primary'
+                          }`}
+                          aria-hidden="true"
+                        />
+                        <span>
+                          <span
+                            className={`block ${
+                              notification.read_at ? '' : 'font-semibold'
+                            }`}
+                          >
+                            {notification.title}
+                          </span>
+                          <span className="text-muted-foreground block">
+                            {notification.body}
+                          </span>
+                          {notification.created_at && (
+                            <span className="text-muted-foreground block text-xs">
+                              {new Date(
+                                notification.created_at
+                              ).toLocaleString()}
+                            </span>
+                          )}
+                        </span>
+                      </span>
+                    </button>
+                  )}
+                </Menu.Item>
+              ))}
+            </div>
+          )}
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  );
+}
+
+export default NotificationBell;
@@ -17,6 +17,11 @@ vi.mock('@/components/ui/theme-toggle', () => ({
   ThemeToggle: () => <div data-testid="theme-toggle">ThemeToggle</div>,
 }));
 
+// Mock NotificationBell component
+vi.mock('../NotificationBell', () => ({
+  NotificationBell: () => <div data-testid="notification-bell">Notifications</div>,
+}));
+
 const wrapper = ({ children }: { children: React.ReactNode }) => (
   <ThemeProvider>{children}</ThemeProvider>
 );
@@ -1,5 +1,6 @@
 export { default as Header } from './Header';
 export { default as Footer } from './Footer';
+export { NotificationBell } from './NotificationBell';
 
 // Layout components will be added here
 // Examples: Header, Footer, Sidebar, Container, Grid, etc.
@@ -0,0 +1,132 @@
+import React, { forwardRef } from 'react';
+import { cn } from '@/lib/component-utils';
+import { BaseComponentProps } from '@/types/component';
+import type { NexusLetter } from '@/lib/nexus-letter';
+
+export interface NexusLetterPreviewProps extends BaseComponentProps<HTMLElement> {
+  /** Letter content, from buildNexusLetter */
+  letter: NexusLetter;
+}
+
+/**
+ * On-screen preview of a nexus letter, laid out like the PDF that
+ * renderNexusLetterPdf produces
+ */
+export const NexusLetterPreview = forwardRef<
+  HTMLElement,
+  NexusLetterPreviewProps
+>(
+  (
+    {
+      className,
+      letter,
+      'aria-label': ariaLabel,
+      'data-testid': testId,
+      ...props
+    },
+    ref
+  ) => {
+    return (
+      <article
+        className={cn(
+          'mx-auto max-w-[8.5in] bg-white px-16 py-12 font-serif text-[11pt] leading-relaxed text-slate-900 shadow-md',
+          className
+        )}
+        aria-label={ariaLabel || letter.title}
+        data-testid={testId || 'nexus-letter-preview'}
+        ref={ref}
+        {...props}
+      >
+        {/* Letterhead */}
+        <header className="mb-6 border-b border-slate-900 pb-2 text-center">
+          <h1 className="text-lg font-bold">
+            {letter.letterhead.organization}
+          </h1>
+          {letter.letterhead.addressLines.map(line => (
+            <p key={line} className="text-xs">
+              {line}
+            </p>
+          ))}
+          {letter.letterhead.contactLine && (
+            <p className="text-xs">{letter.letterhead.contactLine}</p>
+          )}
+        </header>
+
+        <p className="mb-3">{letter.date}</p>
+
+        <address className="mb-3 not-italic">
+          {letter.recipientLines.map(line => (
+            <span key={line} className="block">
+              {line}
+            </span>
+          ))}
+        </address>
+
+        <dl className="mb-4 grid grid-cols-[6rem_1fr]">
+          {letter.reference.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="font-bold">{label}:</dt>
+              <dd>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        <p className="mb-3">{letter.salutation}</p>
+        <p className="mb-3">{letter.introduction}</p>
+
+        {letter.recordsReviewed.length > 0 && (
+          <section className="mb-3">
+            <h2 className="font-bold">Records Reviewed</h2>
+            <ul className="list-disc pl-6">
+              {letter.recordsReviewed.map(record => (
+                <li key={record}>{record}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="mb-3">
+          <h2 className="font-bold">Medical Opinion</h2>
+          <p className="font-bold">{letter.opinion}</p>
+        </section>
+
+        {letter.rationale.length > 0 && (
+          <section className="mb-3">
+            <h2 className="font-bold">Rationale</h2>
+            {letter.rationale.map((paragraph, index) => (
+              <p key={index} className="mb-2">
+                {paragraph}
+              </p>
+            ))}
+          </section>
+        )}
+
+        {letter.citations.length > 0 && (
+          <section className="mb-3">
+            <h2 className="font-bold">Medical Literature Cited</h2>
+            <ol className="list-decimal pl-6">
+              {letter.citations.map(citation => (
+                <li key={citation}>{citation}</li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        <p className="mb-3">{letter.closing}</p>
+
+        {/* Signature block */}
+        <footer className="break-inside-avoid">
+          <p>{letter.signOff}</p>
+          <div className="mt-10 w-64 border-t border-slate-900 pt-1">
+            <p className="font-bold">{letter.signature.name}</p>
+            {letter.signature.lines.map(line => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        </footer>
+      </article>
+    );
+  }
+);
+
+NexusLetterPreview.displayName = 'NexusLetterPreview';
@@ -0,0 +1,82 @@
+import React from 'react';
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { NexusLetterPreview } from '../NexusLetterPreview';
+import { buildNexusLetter, type NexusLetterInput } from '@/lib/nexus-letter';
+import { renderNexusLetterPdf } from '@/lib/nexus-letter-pdf';
+
+const input: NexusLetterInput = {
+  claim: { claim_number: 'NX-2026-000123', condition: 'Tinnitus' },
+  veteran: { full_name: 'John Q. Veteran', email: 'john@example.com' },
+  physician: {
+    fullName: 'Jane Smith',
+    credentials: 'MD',
+    specialty: 'Otolaryngology',
+    licenseNumber: 'A123456',
+    licenseState: 'TX',
+    npi: '1234567890',
+    boardCertification: 'ABOto',
+  },
+  opinion: {
+    likelihood: 'at_least_as_likely_as_not',
+    relationship: 'direct',
+    serviceConnection: 'hazardous noise exposure during active duty service',
+    recordsReviewed: [
+      'Service treatment records (1998-2006)',
+      'DD-214 listing MOS 13B, Cannon Crewmember',
+      'VA audiology examination dated March 3, 2025',
+    ],
+    rationale: [
+      'The veteran served as a cannon crewmember with documented exposure to artillery fire without consistent hearing protection.',
+      'Acoustic trauma is a well-established cause of tinnitus, and the veteran reports onset during service with continuous symptoms since.',
+    ],
+    citations: [
+      {
+        authors: 'Yankaskas K',
+        title:
+          'Prelude: noise-induced tinnitus and hearing loss in the military',
+        source: 'Hear Res',
+        year: 2013,
+      },
+    ],
+  },
+  date: new Date('2026-10-19T12:00:00Z'),
+};
+
+const decodePdf = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('Nexus Letter Snapshots', () => {
+  it('should match letter preview snapshot', () => {
+    const { container } = render(
+      <NexusLetterPreview letter={buildNexusLetter(input)} />
+    );
+    expect(container.firstChild).toMatchSnapshot();
+  });
+
+  it('should match letter PDF snapshot', () => {
+    const pdf = decodePdf(renderNexusLetterPdf(buildNexusLetter(input)));
+    expect(pdf).toMatchSnapshot();
+  });
+
+  it('should paginate long letters and keep the signature block together', () => {
+    const letter = buildNexusLetter({
+      ...input,
+      opinion: {
+        ...input.opinion,
+        rationale: Array(20).fill(input.opinion.rationale.join(' ')),
+      },
+    });
+    const pdf = decodePdf(renderNexusLetterPdf(letter));
+    const pages = pdf.split('stream\n').slice(1);
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+    expect(pageCount).toBeGreaterThan(2);
+    expect(pdf).toContain(`(Page 1 of ${pageCount}) Tj`);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+
+    const signaturePage = pages.find(page => page.includes('(Respectfully,)'));
+    expect(signaturePage).toContain('(Jane Smith, MD) Tj');
+    expect(signaturePage).toContain('(NPI: 1234567890) Tj');
+  });
+});
@@ -1,5 +1,14 @@
 import React from 'react';
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  afterAll,
+  vi,
+} from 'vitest';
 import { render, renderHook, waitFor, act } from '@testing-library/react';
 import { SWRConfig } from 'swr';
 import { setupServer } from 'msw/node';
@@ -10,6 +19,7 @@ import {
   useUserClaims,
   useClaims,
   useClaimStats,
+  useClaimStatusHistory,
   useSubmitClaim,
   useUpdateClaim,
   useUpdateClaimStatus,
@@ -18,13 +28,18 @@ import {
   useClaimSubscription,
   useUserClaimsSubscription,
 } from '../use-claims';
+import {
+  ClaimWorkflowError,
+  emptyClaimStats,
+  summarizeClaimStatuses,
+} from '@/lib/claim-workflow';
 
 // Mock Supabase
 vi.mock('@/lib/supabase', () => ({
   supabase: {
     channel: vi.fn(() => ({
       on: vi.fn(() => ({
-        subscribe: vi.fn(),
+        subscribe: vi.fn(() => ({ unsubscribe: vi.fn() })),
       })),
     })),
   },
@@ -38,6 +53,7 @@ vi.mock('@/lib/database-helpers', () => ({
     getUserClaims: vi.fn(),
     list: vi.fn(),
     getStats: vi.fn(),
+    getStatusHistory: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
     updateStatus: vi.fn(),
@@ -53,8 +69,11 @@ vi.mock('@/lib/database-helpers', () => ({
 // Setup MSW server
 const server = setupServer();
 
-beforeEach(() => {
+beforeAll(() => {
   server.listen();
+});
+
+beforeEach(() => {
   // Clear all mocks
   vi.clearAllMocks();
 });
@@ -63,6 +82,10 @@ afterEach(() => {
   server.resetHandlers();
 });
 
+afterAll(() => {
+  server.close();
+});
+
 // Test wrapper with SWR config
 const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <SWRConfig value={{ 
@@ -82,7 +105,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'Test Claim',
         description: 'Test description',
-        status: 'pending' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -123,8 +146,8 @@ describe('Claims Hooks', () => {
       expect(result.current.error).toBeTruthy();
     });
 
-    it('should not fetch when claimId is not provided', () => {
-      const { claimHelpers } = require('@/lib/database-helpers');
+    it('should not fetch when claimId is not provided', async () => {
+      const { claimHelpers } = await import('@/lib/database-helpers');
       
       const { result } = renderHook(() => useClaim(undefined), {
         wrapper: TestWrapper,
@@ -143,7 +166,7 @@ describe('Claims Hooks', () => {
         claim_number: 'CLM-2024-001',
         title: 'Test Claim',
         description: 'Test description',
-        status: 'pending' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -163,8 +186,8 @@ describe('Claims Hooks', () => {
       expect(claimHelpers.getByClaimNumber).toHaveBeenCalledWith('CLM-2024-001');
     });
 
-    it('should handle null claim number', () => {
-      const { claimHelpers } = require('@/lib/database-helpers');
+    it('should handle null claim number', async () => {
+      const { claimHelpers } = await import('@/lib/database-helpers');
       
       const { result } = renderHook(() => useClaimByNumber(undefined), {
         wrapper: TestWrapper,
@@ -184,7 +207,7 @@ describe('Claims Hooks', () => {
             user_id: 'user-123',
             title: 'Claim 1',
             description: 'Description 1',
-            status: 'pending' as const,
+            status: 'intake' as const,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
           },
@@ -193,7 +216,7 @@ describe('Claims Hooks', () => {
             user_id: 'user-123',
             title: 'Claim 2',
             description: 'Description 2',
-            status: 'approved' as const,
+            status: 'delivered' as const,
             created_at: '2024-01-02T00:00:00Z',
             updated_at: '2024-01-02T00:00:00Z',
           },
@@ -221,8 +244,8 @@ describe('Claims Hooks', () => {
       });
     });
 
-    it('should return empty array for no user ID', () => {
-      const { claimHelpers } = require('@/lib/database-helpers');
+    it('should return empty array for no user ID', async () => {
+      const { claimHelpers } = await import('@/lib/database-helpers');
       
       const { result } = renderHook(() => useUserClaims(undefined), {
         wrapper: TestWrapper,
@@ -244,7 +267,7 @@ describe('Claims Hooks', () => {
             user_id: 'user-1',
             title: 'Claim 1',
             description: 'Description 1',
-            status: 'pending' as const,
+            status: 'intake' as const,
             created_at: '2024-01-01T00:00:00Z',
             updated_at: '2024-01-01T00:00:00Z',
           },
@@ -255,7 +278,7 @@ describe('Claims Hooks', () => {
       const { claimHelpers } = await import('@/lib/database-helpers');
       vi.mocked(claimHelpers.list).mockResolvedValue(mockResponse);
 
-      const { result } = renderHook(() => useClaims({ status: 'pending' }), {
+      const { result } = renderHook(() => useClaims({ status: 'intake' }), {
         wrapper: TestWrapper,
       });
 
@@ -265,19 +288,20 @@ describe('Claims Hooks', () => {
 
       expect(result.current.claims).toEqual(mockResponse.claims);
       expect(result.current.total).toBe(1);
-      expect(claimHelpers.list).toHaveBeenCalledWith({ status: 'pending' });
+      expect(claimHelpers.list).toHaveBeenCalledWith({ status: 'intake' });
     });
   });
 
   describe('useClaimStats', () => {
     it('should fetch claim statistics successfully', async () => {
-      const mockStats = {
-        total: 100,
-        pending: 25,
-        approved: 50,
-        rejected: 15,
-        underReview: 10,
-      };
+      const mockStats = summarizeClaimStatuses([
+        'intake',
+        'drafting',
+        'on_hold',
+        'delivered',
+        'closed',
+        'cancelled',
+      ]);
 
       const { claimHelpers } = await import('@/lib/database-helpers');
       vi.mocked(claimHelpers.getStats).mockResolvedValue(mockStats);
@@ -306,13 +330,38 @@ describe('Claims Hooks', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      expect(result.current.stats).toEqual({
-        total: 0,
-        pending: 0,
-        approved: 0,
-        rejected: 0,
-        underReview: 0,
+      expect(result.current.stats).toEqual(emptyClaimStats());
+    });
+  });
+
+  describe('useClaimStatusHistory', () => {
+    it('should fetch status history for a claim', async () => {
+      const mockHistory = [
+        {
+          id: 'history-1',
+          claim_id: 'claim-123',
+          from_status: 'intake' as const,
+          to_status: 'on_hold' as const,
+          reason: 'Waiting on service treatment records',
+          changed_by: 'admin-123',
+          activity_log_id: 'activity-1',
+          created_at: '2024-01-02T00:00:00Z',
+        },
+      ];
+
+      const { claimHelpers } = await import('@/lib/database-helpers');
+      vi.mocked(claimHelpers.getStatusHistory).mockResolvedValue(mockHistory);
+
+      const { result } = renderHook(() => useClaimStatusHistory('claim-123'), {
+        wrapper: TestWrapper,
+      });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
       });
+
+      expect(result.current.history).toEqual(mockHistory);
+      expect(claimHelpers.getStatusHistory).toHaveBeenCalledWith('claim-123');
     });
   });
 
@@ -323,7 +372,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'New Claim',
         description: 'New claim description',
-        status: 'pending' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -341,8 +390,8 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'New Claim',
         description: 'New claim description',
-        claim_type: 'complaint' as const,
-        status: 'pending' as const,
+        claim_type: 'comprehensive_letter' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -370,8 +419,8 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'New Claim',
         description: 'New claim description',
-        claim_type: 'complaint' as const,
-        status: 'pending' as const,
+        claim_type: 'comprehensive_letter' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -393,7 +442,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'Updated Claim',
         description: 'Updated description',
-        status: 'under_review' as const,
+        status: 'physician_review' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-02T00:00:00Z',
       };
@@ -445,7 +494,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'Test Claim',
         description: 'Test description',
-        status: 'approved' as const,
+        status: 'on_hold' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-02T00:00:00Z',
       };
@@ -457,13 +506,42 @@ describe('Claims Hooks', () => {
         wrapper: TestWrapper,
       });
 
+      const options = {
+        reason: 'Waiting on service treatment records',
+        assignedTo: 'admin-123',
+      };
+
       let updatedClaim;
       await act(async () => {
-        updatedClaim = await result.current.updateStatus('claim-123', 'approved', 'admin-123');
+        updatedClaim = await result.current.updateStatus('claim-123', 'on_hold', options);
       });
 
       expect(updatedClaim).toEqual(mockUpdatedClaim);
-      expect(claimHelpers.updateStatus).toHaveBeenCalledWith('claim-123', 'approved', 'admin-123');
+      expect(claimHelpers.updateStatus).toHaveBeenCalledWith('claim-123', 'on_hold', options);
+    });
+
+    it('should surface rejected transitions', async () => {
+      const { claimHelpers } = await import('@/lib/database-helpers');
+      vi.mocked(claimHelpers.updateStatus).mockRejectedValue(
+        new ClaimWorkflowError(
+          'Cannot move claim from Intake to Delivered',
+          'INVALID_TRANSITION',
+          'intake',
+          'delivered'
+        )
+      );
+
+      const { result } = renderHook(() => useUpdateClaimStatus(), {
+        wrapper: TestWrapper,
+      });
+
+      await expect(
+        act(async () => {
+          await result.current.updateStatus('claim-123', 'delivered');
+        })
+      ).rejects.toThrow('Cannot move claim from Intake to Delivered');
+
+      expect(result.current.isUpdating).toBe(false);
     });
   });
 
@@ -505,7 +583,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'Updated Claim',
         description: 'Updated description',
-        status: 'approved' as const,
+        status: 'delivered' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-02T00:00:00Z',
       };
@@ -517,7 +595,7 @@ describe('Claims Hooks', () => {
         wrapper: TestWrapper,
       });
 
-      const updates = { status: 'approved' as const };
+      const updates = { status: 'delivered' as const };
       const claimIds = ['claim-1', 'claim-2', 'claim-3'];
 
       await act(async () => {
@@ -542,7 +620,7 @@ describe('Claims Hooks', () => {
 
       await expect(
         act(async () => {
-          await result.current.bulkUpdate(['claim-1'], { status: 'approved' });
+          await result.current.bulkUpdate(['claim-1'], { status: 'delivered' });
         })
       ).rejects.toThrow('Bulk update failed');
 
@@ -552,15 +630,17 @@ describe('Claims Hooks', () => {
 
   describe('Real-time subscriptions', () => {
     describe('useClaimSubscription', () => {
-      it('should set up subscription for claim changes', () => {
+      it('should set up subscription for claim changes', async () => {
         const mockChannel = {
           on: vi.fn(() => ({
-            subscribe: vi.fn(),
+            subscribe: vi.fn(() => ({ unsubscribe: vi.fn() })),
           })),
         };
 
-        const { supabase } = require('@/lib/supabase');
-        vi.mocked(supabase.channel).mockReturnValue(mockChannel);
+        const { supabase } = await import('@/lib/supabase');
+        vi.mocked(supabase.channel).mockReturnValue(
+          mockChannel as unknown as ReturnType<typeof supabase.channel>
+        );
 
         renderHook(() => useClaimSubscription('claim-123'), {
           wrapper: TestWrapper,
@@ -579,8 +659,8 @@ describe('Claims Hooks', () => {
         );
       });
 
-      it('should not set up subscription without claim ID', () => {
-        const { supabase } = require('@/lib/supabase');
+      it('should not set up subscription without claim ID', async () => {
+        const { supabase } = await import('@/lib/supabase');
 
         renderHook(() => useClaimSubscription(undefined), {
           wrapper: TestWrapper,
@@ -591,15 +671,17 @@ describe('Claims Hooks', () => {
     });
 
     describe('useUserClaimsSubscription', () => {
-      it('should set up subscription for user claims changes', () => {
+      it('should set up subscription for user claims changes', async () => {
         const mockChannel = {
           on: vi.fn(() => ({
-            subscribe: vi.fn(),
+            subscribe: vi.fn(() => ({ unsubscribe: vi.fn() })),
           })),
         };
 
-        const { supabase } = require('@/lib/supabase');
-        vi.mocked(supabase.channel).mockReturnValue(mockChannel);
+        const { supabase } = await import('@/lib/supabase');
+        vi.mocked(supabase.channel).mockReturnValue(
+          mockChannel as unknown as ReturnType<typeof supabase.channel>
+        );
 
         renderHook(() => useUserClaimsSubscription('user-123'), {
           wrapper: TestWrapper,
@@ -618,8 +700,8 @@ describe('Claims Hooks', () => {
         );
       });
 
-      it('should not set up subscription without user ID', () => {
-        const { supabase } = require('@/lib/supabase');
+      it('should not set up subscription without user ID', async () => {
+        const { supabase } = await import('@/lib/supabase');
 
         renderHook(() => useUserClaimsSubscription(undefined), {
           wrapper: TestWrapper,
@@ -674,7 +756,7 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'New Claim',
         description: 'New claim description',
-        status: 'pending' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -690,8 +772,8 @@ describe('Claims Hooks', () => {
         user_id: 'user-123',
         title: 'New Claim',
         description: 'New claim description',
-        claim_type: 'complaint' as const,
-        status: 'pending' as const,
+        claim_type: 'comprehensive_letter' as const,
+        status: 'intake' as const,
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
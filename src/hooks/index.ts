@@ -5,4 +5,17 @@
 export { useTheme } from './use-theme';
 export * from './use-user';
 export * from './use-claims';
+export * from './use-claim-comments';
+export * from './use-claim-documents';
+export * from './use-conditions';
+export * from './use-letter-drafts';
+export * from './use-qa-reviews';
+export * from './use-providers';
+export * from './use-sla-escalations';
+export * from './use-intake';
+export * from './use-service-history';
+export * from './use-leads';
+export * from './use-notifications';
+export * from './use-jobs';
+export * from './use-webhooks';
 export * from './use-form';
@@ -0,0 +1,133 @@
+/**
+ * Claim comment SWR hooks with live thread updates
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import { commentHelpers } from '@/lib/database-helpers';
+import type { ClaimComment } from '@/lib/supabase';
+import type { ClaimCommentData } from '@/lib/validations';
+import { DatabaseError } from '@/lib/database-helpers';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchClaimComments = async (
+  claimId: string,
+  includeInternal: boolean
+): Promise<ClaimComment[]> => {
+  if (!claimId) return [];
+  return await commentHelpers.listForClaim(claimId, { includeInternal });
+};
+
+// Matches every cached thread for a claim (with and without internal notes)
+const isClaimCommentsKey = (claimId: string) => (key: unknown) =>
+  Array.isArray(key) && key[0] === 'claim-comments' && key[1] === claimId;
+
+// =================================
+// COMMENT HOOKS
+// =================================
+
+/**
+ * Get a claim's comment thread.
+ * Staff views pass `includeInternal` to also load internal notes.
+ */
+export function useClaimComments(
+  claimId?: string,
+  options: { includeInternal?: boolean } = {}
+) {
+  const includeInternal = options.includeInternal ?? false;
+
+  const {
+    data: comments,
+    error,
+    isLoading,
+    mutate: mutateComments,
+  } = useSWR<ClaimComment[], Error>(
+    claimId ? ['claim-comments', claimId, includeInternal] : null,
+    () => fetchClaimComments(claimId!, includeInternal),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    comments: comments || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshComments: () => mutateComments(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Add a comment or internal note to a claim
+ */
+export function useAddComment() {
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const addComment = async (
+    claimId: string,
+    authorId: string,
+    comment: ClaimCommentData
+  ): Promise<ClaimComment> => {
+    setIsSubmitting(true);
+    try {
+      const newComment = await commentHelpers.add(claimId, authorId, comment);
+
+      // Invalidate every cached view of this thread
+      mutate(isClaimCommentsKey(claimId));
+
+      return newComment;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return {
+    addComment,
+    isSubmitting,
+  };
+}
+
+// =================================
+// REAL-TIME SUBSCRIPTIONS
+// =================================
+
+/**
+ * Subscribe to comment changes on a claim
+ */
+export function useClaimCommentsSubscription(claimId?: string) {
+  React.useEffect(() => {
+    if (!claimId) return;
+
+    const subscription = supabase
+      .channel(`claim-comments-${claimId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'claim_comments',
+          filter: `claim_id=eq.${claimId}`,
+        },
+        () => {
+          mutate(isClaimCommentsKey(claimId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [claimId]);
+}
@@ -0,0 +1,511 @@
+/**
+ * Claim document vault hooks: listing, uploads with progress (chunked and
+ * resumable for large files) and short-lived download links
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import { documentHelpers } from '@/lib/database-helpers';
+import type {
+  ClaimDocument,
+  DocumentCategory,
+  DocumentScanStatus,
+} from '@/lib/supabase';
+import type { ClaimDocumentUploadData } from '@/lib/validations';
+import { DatabaseError } from '@/lib/database-helpers';
+import {
+  CHUNK_CONTENT_TYPE,
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_OFFSET_HEADER,
+  expectedChunkLength,
+  getUploadFingerprint,
+  parseUploadOffset,
+  resumableUploadStore,
+} from '@/lib/resumable-upload';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchClaimDocuments = async (
+  claimId: string,
+  category?: DocumentCategory
+): Promise<ClaimDocument[]> => {
+  if (!claimId) return [];
+  return await documentHelpers.listForClaim(
+    claimId,
+    category ? { category } : {}
+  );
+};
+
+const fetchQuarantinedDocuments = async (options: {
+  page?: number;
+  limit?: number;
+  scanStatus?: DocumentScanStatus;
+}) => {
+  return await documentHelpers.listQuarantined(options);
+};
+
+const isClaimDocumentsKey = (claimId: string) => (key: unknown) =>
+  Array.isArray(key) && key[0] === 'claim-documents' && key[1] === claimId;
+
+// =================================
+// UPLOAD
+// =================================
+
+const getAccessToken = async (): Promise<string> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new DatabaseError('You must be signed in to upload documents', '401');
+  }
+
+  return session.access_token;
+};
+
+// JSON bodies returned by the document and upload routes
+type UploadRoutePayload =
+  | { document: ClaimDocument; offset?: number }
+  | {
+      upload: {
+        id: string;
+        offset: number;
+        size: number;
+        chunkSize: number;
+        expiresAt: string;
+      };
+    }
+  | { offset: number }
+  | { error: string; code?: string; details?: unknown };
+
+const parsePayload = (responseText: string): UploadRoutePayload | null => {
+  try {
+    return JSON.parse(responseText) as UploadRoutePayload;
+  } catch {
+    return null;
+  }
+};
+
+const payloadDocument = (payload: UploadRoutePayload | null) =>
+  payload && 'document' in payload ? payload.document : null;
+
+// Error message and details from a failed request, if the route sent them
+const payloadError = (payload: UploadRoutePayload | null) =>
+  payload && 'error' in payload ? payload : null;
+
+/**
+ * Upload a file to a claim's vault through the server-side validation
+ * route, reporting progress as a percentage. Files larger than one chunk
+ * go through the resumable upload protocol.
+ */
+export async function uploadClaimDocument(
+  claimId: string,
+  file: File,
+  details: Partial<ClaimDocumentUploadData> = {},
+  onProgress?: (percent: number) => void
+): Promise<ClaimDocument> {
+  if (file.size > UPLOAD_CHUNK_SIZE) {
+    return uploadClaimDocumentResumable(claimId, file, details, onProgress);
+  }
+
+  const accessToken = await getAccessToken();
+
+  const body = new FormData();
+  body.append('file', file);
+  if (details.category) body.append('category', details.category);
+  if (details.description) body.append('description', details.description);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `/api/claims/${claimId}/documents`);
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      const payload = parsePayload(xhr.responseText);
+      const document = payloadDocument(payload);
+
+      if (xhr.status === 201 && document) {
+        resolve(document);
+        return;
+      }
+
+      const failure = payloadError(payload);
+      reject(
+        new DatabaseError(
+          failure?.error || 'Failed to upload document',
+          String(xhr.status),
+          failure?.details
+        )
+      );
+    };
+
+    xhr.onerror = () => {
+      reject(new DatabaseError('Network error while uploading document'));
+    };
+
+    xhr.send(body);
+  });
+}
+
+// =================================
+// RESUMABLE UPLOAD
+// =================================
+
+const MAX_CHUNK_RETRIES = 3;
+
+const uploadUrl = (claimId: string, uploadId: string) =>
+  `/api/claims/${claimId}/uploads/${uploadId}`;
+
+/**
+ * Bytes the server has received for an upload, or null if the upload no
+ * longer exists (expired, completed or cancelled)
+ */
+const fetchUploadOffset = async (
+  url: string,
+  accessToken: string
+): Promise<number | null> => {
+  const response = await fetch(url, {
+    method: 'HEAD',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) return null;
+  return parseUploadOffset(response.headers.get(UPLOAD_OFFSET_HEADER));
+};
+
+const startUpload = async (
+  claimId: string,
+  file: File,
+  details: Partial<ClaimDocumentUploadData>,
+  accessToken: string
+): Promise<string> => {
+  const response = await fetch(`/api/claims/${claimId}/uploads`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+      ...details,
+    }),
+  });
+  const payload = parsePayload(await response.text());
+
+  if (response.status !== 201 || !payload || !('upload' in payload)) {
+    const failure = payloadError(payload);
+    throw new DatabaseError(
+      failure?.error || 'Failed to start upload',
+      String(response.status),
+      failure?.details
+    );
+  }
+
+  return payload.upload.id;
+};
+
+const sendChunk = (
+  url: string,
+  accessToken: string,
+  offset: number,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void
+): Promise<{
+  status: number;
+  payload: UploadRoutePayload | null;
+  offset: number | null;
+}> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('Content-Type', CHUNK_CONTENT_TYPE);
+    xhr.setRequestHeader(UPLOAD_OFFSET_HEADER, String(offset));
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onChunkProgress(event.loaded);
+    };
+
+    xhr.onload = () => {
+      resolve({
+        status: xhr.status,
+        payload: parsePayload(xhr.responseText),
+        offset: parseUploadOffset(xhr.getResponseHeader(UPLOAD_OFFSET_HEADER)),
+      });
+    };
+
+    xhr.onerror = () => {
+      reject(new DatabaseError('Network error while uploading document'));
+    };
+
+    xhr.send(chunk);
+  });
+
+/**
+ * Upload a large file in chunks. Progress is reported per chunk; network
+ * and server errors are retried from the server's offset, and calling
+ * again with the same file (e.g. after a reload) resumes the upload.
+ */
+export async function uploadClaimDocumentResumable(
+  claimId: string,
+  file: File,
+  details: Partial<ClaimDocumentUploadData> = {},
+  onProgress?: (percent: number) => void
+): Promise<ClaimDocument> {
+  const fingerprint = getUploadFingerprint(claimId, file);
+  let accessToken = await getAccessToken();
+  let uploadId = resumableUploadStore.get(fingerprint);
+  let offset = uploadId
+    ? await fetchUploadOffset(uploadUrl(claimId, uploadId), accessToken)
+    : null;
+
+  if (!uploadId || offset === null) {
+    uploadId = await startUpload(claimId, file, details, accessToken);
+    offset = 0;
+    resumableUploadStore.set(fingerprint, uploadId);
+  }
+
+  const url = uploadUrl(claimId, uploadId);
+  let failures = 0;
+
+  for (;;) {
+    const start = offset;
+    const chunk = file.slice(
+      start,
+      start + expectedChunkLength(file.size, start)
+    );
+
+    // Refreshed per chunk: large uploads can outlive an access token
+    accessToken = await getAccessToken();
+
+    let result: Awaited<ReturnType<typeof sendChunk>> | null = null;
+    try {
+      result = await sendChunk(url, accessToken, start, chunk, loaded => {
+        onProgress?.(Math.round(((start + loaded) / file.size) * 100));
+      });
+    } catch (error) {
+      if (++failures > MAX_CHUNK_RETRIES) throw error;
+    }
+
+    const document = result && payloadDocument(result.payload);
+    if (result?.status === 201 && document) {
+      resumableUploadStore.remove(fingerprint);
+      onProgress?.(100);
+      return document;
+    }
+
+    // 200: chunk stored; 409: offset out of sync, continue from the
+    // server's offset
+    if (
+      result &&
+      (result.status === 200 || result.status === 409) &&
+      result.offset !== null
+    ) {
+      offset = result.offset;
+      if (result.status === 200) failures = 0;
+      continue;
+    }
+
+    const failure = result && payloadError(result.payload);
+
+    if (result && result.status < 500) {
+      resumableUploadStore.remove(fingerprint);
+      throw new DatabaseError(
+        failure?.error || 'Failed to upload document',
+        String(result.status),
+        failure?.details
+      );
+    }
+
+    if (result && ++failures > MAX_CHUNK_RETRIES) {
+      throw new DatabaseError(
+        failure?.error || 'Failed to upload document',
+        String(result.status)
+      );
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** failures));
+
+    const serverOffset = await fetchUploadOffset(url, accessToken);
+    if (serverOffset === null) {
+      resumableUploadStore.remove(fingerprint);
+      throw new DatabaseError('Upload expired. Please start again.', '410');
+    }
+    offset = serverOffset;
+  }
+}
+
+// =================================
+// DOCUMENT HOOKS
+// =================================
+
+/**
+ * Get documents attached to a claim
+ */
+export function useClaimDocuments(
+  claimId?: string,
+  options: { category?: DocumentCategory } = {}
+) {
+  const { category } = options;
+
+  const {
+    data: documents,
+    error,
+    isLoading,
+    mutate: mutateDocuments,
+  } = useSWR<ClaimDocument[], Error>(
+    claimId ? ['claim-documents', claimId, category ?? 'all'] : null,
+    () => fetchClaimDocuments(claimId!, category),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    documents: documents || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshDocuments: () => mutateDocuments(),
+  };
+}
+
+/**
+ * Get documents held in malware quarantine (admin only)
+ */
+export function useQuarantinedDocuments(
+  options: {
+    page?: number;
+    limit?: number;
+    scanStatus?: DocumentScanStatus;
+  } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateQuarantine,
+  } = useSWR(
+    ['claim-documents', 'quarantine', options],
+    () => fetchQuarantinedDocuments(options),
+    {
+      revalidateOnFocus: true,
+      refreshInterval: 60000, // Pick up scan results as they land
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    documents: data?.documents || [],
+    total: data?.total || 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshQuarantine: () => mutateQuarantine(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Upload documents to a claim with per-file progress
+ */
+export function useUploadClaimDocument() {
+  const [isUploading, setIsUploading] = React.useState(false);
+  const [uploadProgress, setUploadProgress] = React.useState<
+    Record<string, number>
+  >({});
+
+  const uploadDocument = async (
+    claimId: string,
+    file: File,
+    details: Partial<ClaimDocumentUploadData> = {}
+  ): Promise<ClaimDocument> => {
+    setIsUploading(true);
+    try {
+      const document = await uploadClaimDocument(
+        claimId,
+        file,
+        details,
+        percent => {
+          setUploadProgress(prev => ({ ...prev, [file.name]: percent }));
+        }
+      );
+
+      mutate(isClaimDocumentsKey(claimId));
+
+      return document;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return {
+    uploadDocument,
+    uploadProgress,
+    isUploading,
+  };
+}
+
+/**
+ * Get a short-lived download link for a document
+ */
+export function useDocumentDownload() {
+  const [isGenerating, setIsGenerating] = React.useState(false);
+
+  const getDownloadUrl = async (documentId: string): Promise<string> => {
+    setIsGenerating(true);
+    try {
+      return await documentHelpers.getSignedUrl(documentId);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return {
+    getDownloadUrl,
+    isGenerating,
+  };
+}
+
+/**
+ * Delete a document from a claim's vault
+ */
+export function useDeleteClaimDocument() {
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const deleteDocument = async (
+    claimId: string,
+    documentId: string
+  ): Promise<void> => {
+    setIsDeleting(true);
+    try {
+      await documentHelpers.delete(documentId);
+      mutate(isClaimDocumentsKey(claimId));
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return {
+    deleteDocument,
+    isDeleting,
+  };
+}
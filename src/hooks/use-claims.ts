@@ -5,8 +5,19 @@
 import React from 'react';
 import useSWR, { mutate } from 'swr';
 import { supabase } from '@/lib/supabase';
-import { claimHelpers } from '@/lib/database-helpers';
-import type { Claim, ClaimInsert, ClaimUpdate, ClaimStatus, ClaimType } from '@/lib/supabase';
+import { claimHelpers, assignmentHelpers } from '@/lib/database-helpers';
+import type { StatusChangeOptions } from '@/lib/database-helpers';
+import { emptyClaimStats, type ClaimStats } from '@/lib/claim-workflow';
+import type { ClaimAssignmentData } from '@/lib/validations';
+import type {
+  Claim,
+  ClaimStatusHistory,
+  ClaimInsert,
+  ClaimUpdate,
+  ClaimStatus,
+  ClaimType,
+  CaseUrgency,
+} from '@/lib/supabase';
 import { DatabaseError } from '@/lib/database-helpers';
 
 // =================================
@@ -38,6 +49,7 @@ const fetchClaims = async (options: {
   limit?: number;
   status?: ClaimStatus;
   claimType?: ClaimType;
+  urgency?: CaseUrgency;
   assignedTo?: string;
   search?: string;
 }) => {
@@ -48,6 +60,11 @@ const fetchClaimStats = async () => {
   return await claimHelpers.getStats();
 };
 
+const fetchClaimStatusHistory = async (claimId: string) => {
+  if (!claimId) return [];
+  return await claimHelpers.getStatusHistory(claimId);
+};
+
 // =================================
 // CLAIM HOOKS
 // =================================
@@ -72,9 +89,9 @@ export function useClaim(claimId?: string) {
   );
 
   return {
-    claim,
+    claim: claim ?? null,
     isLoading,
-    error: error as DatabaseError | null,
+    error: (error ?? null) as DatabaseError | null,
     refreshClaim: () => mutateClaim(),
   };
 }
@@ -98,9 +115,36 @@ export function useClaimByNumber(claimNumber?: string) {
   );
 
   return {
-    claim,
+    claim: claim ?? null,
+    isLoading,
+    error: (error ?? null) as DatabaseError | null,
+  };
+}
+
+/**
+ * Get a claim's status transition history
+ */
+export function useClaimStatusHistory(claimId?: string) {
+  const {
+    data: history,
+    error,
+    isLoading,
+    mutate: mutateHistory,
+  } = useSWR<ClaimStatusHistory[], Error>(
+    claimId ? ['claim', claimId, 'history'] : null,
+    () => fetchClaimStatusHistory(claimId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    history: history || [],
     isLoading,
     error: error as DatabaseError | null,
+    refreshHistory: () => mutateHistory(),
   };
 }
 
@@ -145,6 +189,7 @@ export function useClaims(options: {
   limit?: number;
   status?: ClaimStatus;
   claimType?: ClaimType;
+  urgency?: CaseUrgency;
   assignedTo?: string;
   search?: string;
 } = {}) {
@@ -181,13 +226,7 @@ export function useClaimStats() {
     error,
     isLoading,
     mutate: mutateStats,
-  } = useSWR<{
-    total: number;
-    pending: number;
-    approved: number;
-    rejected: number;
-    underReview: number;
-  }, Error>(
+  } = useSWR<ClaimStats, Error>(
     ['claims', 'stats'],
     fetchClaimStats,
     {
@@ -198,13 +237,7 @@ export function useClaimStats() {
   );
 
   return {
-    stats: stats ?? {
-      total: 0,
-      pending: 0,
-      approved: 0,
-      rejected: 0,
-      underReview: 0,
-    },
+    stats: stats ?? emptyClaimStats(),
     isLoading,
     error: error as DatabaseError | null,
     refreshStats: () => mutateStats(),
@@ -283,7 +316,7 @@ export function useUpdateClaim() {
 }
 
 /**
- * Update claim status
+ * Move a claim through the workflow (see lib/claim-workflow)
  */
 export function useUpdateClaimStatus() {
   const [isUpdating, setIsUpdating] = React.useState(false);
@@ -291,19 +324,22 @@ export function useUpdateClaimStatus() {
   const updateStatus = async (
     claimId: string,
     status: ClaimStatus,
-    assignedTo?: string
+    options: StatusChangeOptions = {}
   ): Promise<Claim> => {
     setIsUpdating(true);
     try {
-      const updatedClaim = await claimHelpers.updateStatus(claimId, status, assignedTo);
+      const updatedClaim = await claimHelpers.updateStatus(claimId, status, options);
       
       // Update caches optimistically
       await mutate(['claim', claimId], updatedClaim, false);
       
-      // Invalidate related caches
+      // Invalidate related caches (lists, stats and this claim's history)
       mutate(key => {
         if (!Array.isArray(key)) return false;
-        return key[0] === 'claims' || (key[0] === 'claims' && key[1] === 'stats');
+        return (
+          key[0] === 'claims' ||
+          (key[0] === 'claim' && key[1] === claimId && key[2] === 'history')
+        );
       });
       
       return updatedClaim;
@@ -322,6 +358,47 @@ export function useUpdateClaimStatus() {
   };
 }
 
+/**
+ * Assign a claim with the assignment engine or by manual override
+ * (see lib/case-assignment)
+ */
+export function useAssignClaim() {
+  const [isAssigning, setIsAssigning] = React.useState(false);
+
+  const run = async (
+    claimId: string,
+    action: () => Promise<Claim>
+  ): Promise<Claim> => {
+    setIsAssigning(true);
+    try {
+      const updatedClaim = await action();
+
+      await mutate(['claim', claimId], updatedClaim, false);
+
+      // Assignment changes caseloads across lists and provider workload
+      mutate(key => {
+        if (!Array.isArray(key)) return false;
+        return key[0] === 'claims' || key[0] === 'providers';
+      });
+
+      return updatedClaim;
+    } catch (error) {
+      mutate(['claim', claimId]);
+      throw error;
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return {
+    autoAssign: (claimId: string) =>
+      run(claimId, () => assignmentHelpers.autoAssign(claimId)),
+    assignManually: (claimId: string, assignment: ClaimAssignmentData) =>
+      run(claimId, () => assignmentHelpers.assign(claimId, assignment)),
+    isAssigning,
+  };
+}
+
 /**
  * Delete claim (admin only)
  */
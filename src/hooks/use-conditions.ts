@@ -0,0 +1,106 @@
+/**
+ * Condition catalog SWR hooks: the catalog behind the condition
+ * autocomplete, and the evidence checklist built from a case's conditions
+ */
+
+import React from 'react';
+import useSWR from 'swr';
+import { conditionHelpers, DatabaseError } from '@/lib/database-helpers';
+import { buildEvidenceChecklist } from '@/lib/conditions';
+import type { Condition } from '@/lib/supabase';
+import { useClaimDocuments } from './use-claim-documents';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchConditionCatalog = async (): Promise<Condition[]> => {
+  return await conditionHelpers.list();
+};
+
+const fetchClaimConditions = async (claimId: string): Promise<Condition[]> => {
+  if (!claimId) return [];
+  return await conditionHelpers.listForClaim(claimId);
+};
+
+// =================================
+// CONDITION HOOKS
+// =================================
+
+/**
+ * Get the active condition catalog. It rarely changes, so it is fetched
+ * once per session.
+ */
+export function useConditionCatalog() {
+  const {
+    data: conditions,
+    error,
+    isLoading,
+  } = useSWR<Condition[], Error>(['conditions'], fetchConditionCatalog, {
+    revalidateOnFocus: false,
+    revalidateIfStale: false,
+    errorRetryCount: 2,
+  });
+
+  return {
+    conditions: conditions || [],
+    isLoading,
+    error: error as DatabaseError | null,
+  };
+}
+
+/**
+ * Get the catalog conditions claimed on a case
+ */
+export function useClaimConditions(claimId?: string) {
+  const {
+    data: conditions,
+    error,
+    isLoading,
+    mutate: mutateConditions,
+  } = useSWR<Condition[], Error>(
+    claimId ? ['claim', claimId, 'conditions'] : null,
+    () => fetchClaimConditions(claimId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    conditions: conditions || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshConditions: () => mutateConditions(),
+  };
+}
+
+/**
+ * Get a case's evidence checklist: what its conditions need and which
+ * items still have no document uploaded
+ */
+export function useEvidenceChecklist(claimId?: string) {
+  const {
+    conditions,
+    isLoading: conditionsLoading,
+    error: conditionsError,
+  } = useClaimConditions(claimId);
+  const {
+    documents,
+    isLoading: documentsLoading,
+    error: documentsError,
+  } = useClaimDocuments(claimId);
+
+  const items = React.useMemo(
+    () => buildEvidenceChecklist(conditions, documents),
+    [conditions, documents]
+  );
+
+  return {
+    items,
+    missing: items.filter(item => !item.complete),
+    isLoading: conditionsLoading || documentsLoading,
+    error: conditionsError || documentsError,
+  };
+}
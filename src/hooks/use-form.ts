@@ -13,6 +13,9 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ErrorAlert } from '@/components/feedback/ErrorAlert';
 import { DatabaseError } from '@/lib/database-helpers';
+import { DOCUMENT_CATEGORY_SIZE_LIMITS } from '@/lib/claim-documents';
+import { formatFileSize } from '@/lib/file-security';
+import type { DocumentCategory } from '@/lib/supabase';
 
 // =================================
 // ENHANCED FORM HOOK
@@ -337,18 +340,30 @@ export function useMultiStepForm<T extends Record<string, any>>(
 }
 
 /**
- * Hook for forms with file uploads
+ * Hook for forms with file uploads.
+ * `uploadFile` performs the actual upload (e.g. `uploadClaimDocument` for
+ * the claim document vault) and resolves with the stored file's reference.
+ * Progress it reports, per chunk for large files, lands in `uploadProgress`.
+ * Passing a document `category` applies that category's size limit.
  */
 export function useFileUploadForm<T extends FieldValues>(
   options: UseFormOptions<T> & {
     maxFiles?: number;
     maxFileSize?: number; // in bytes
+    category?: DocumentCategory;
     acceptedFileTypes?: string[];
+    uploadFile: (
+      file: File,
+      onProgress: (percent: number) => void
+    ) => Promise<string>;
   }
 ) {
   const {
     maxFiles = 10,
-    maxFileSize = 10 * 1024 * 1024,
+    category,
+    maxFileSize = category
+      ? DOCUMENT_CATEGORY_SIZE_LIMITS[category]
+      : 10 * 1024 * 1024,
     acceptedFileTypes = [],
   } = options;
   const [uploadProgress, setUploadProgress] = React.useState<
@@ -368,7 +383,7 @@ export function useFileUploadForm<T extends FieldValues>(
     files.forEach(file => {
       if (file.size > maxFileSize) {
         errors.push(
-          `File ${file.name} is too large (max ${maxFileSize / 1024 / 1024}MB)`
+          `File ${file.name} is too large (max ${formatFileSize(maxFileSize)})`
         );
       }
 
@@ -384,22 +399,11 @@ export function useFileUploadForm<T extends FieldValues>(
   };
 
   const uploadFile = async (file: File): Promise<string> => {
-    // Mock upload with progress
-    return new Promise((resolve, reject) => {
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 20;
-        setUploadProgress(prev => ({
-          ...prev,
-          [file.name]: Math.min(progress, 100),
-        }));
-
-        if (progress >= 100) {
-          clearInterval(interval);
-          // Return mock URL - in real app, this would be the actual uploaded file URL
-          resolve(`https://example.com/uploads/${file.name}`);
-        }
-      }, 200);
+    return options.uploadFile(file, percent => {
+      setUploadProgress(prev => ({
+        ...prev,
+        [file.name]: Math.min(percent, 100),
+      }));
     });
   };
 
@@ -0,0 +1,147 @@
+/**
+ * Veteran intake SWR hooks with draft autosave
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { intakeHelpers, DatabaseError } from '@/lib/database-helpers';
+import type { IntakeDraftData, IntakeSubmission } from '@/lib/intake';
+import type { Claim, IntakeDraft } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchOpenDraft = async (userId: string): Promise<IntakeDraft | null> => {
+  if (!userId) return null;
+  return await intakeHelpers.getOpenDraft(userId);
+};
+
+// =================================
+// DRAFT HOOKS
+// =================================
+
+/**
+ * Get the intake the veteran left off on, if any
+ */
+export function useIntakeDraft(userId?: string) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateDraft,
+  } = useSWR<IntakeDraft | null, Error>(
+    userId ? ['intake-draft', userId] : null,
+    () => fetchOpenDraft(userId!),
+    {
+      // Autosave keeps the cache current; refetching would reset the form
+      revalidateOnFocus: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    draft: data ?? null,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshDraft: () => mutateDraft(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Save intake answers as the veteran goes
+ */
+export function useSaveIntakeDraft() {
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [lastSavedAt, setLastSavedAt] = React.useState<Date | null>(null);
+
+  // Stable so the wizard's autosave doesn't resubscribe on every render
+  const saveDraft = React.useCallback(
+    async (
+      userId: string,
+      draft: { draftId?: string; data: IntakeDraftData; currentStep: number }
+    ): Promise<IntakeDraft> => {
+      setIsSaving(true);
+      try {
+        const saved = await intakeHelpers.saveDraft(userId, draft);
+        await mutate(['intake-draft', userId], saved, false);
+        setLastSavedAt(new Date());
+        return saved;
+      } catch (error) {
+        throw error;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    []
+  );
+
+  return {
+    saveDraft,
+    isSaving,
+    lastSavedAt,
+  };
+}
+
+/**
+ * Submit a completed intake, opening a claim
+ */
+export function useCompleteIntake() {
+  const [isCompleting, setIsCompleting] = React.useState(false);
+
+  const completeIntake = async (
+    userId: string,
+    intake: IntakeSubmission,
+    draftId?: string
+  ): Promise<Claim> => {
+    setIsCompleting(true);
+    try {
+      const claim = await intakeHelpers.complete(userId, intake, draftId);
+
+      await mutate(['intake-draft', userId], null, false);
+      mutate(key => {
+        if (!Array.isArray(key)) return false;
+        return key[0] === 'claims' || key[0] === 'claim';
+      });
+
+      return claim;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  return {
+    completeIntake,
+    isCompleting,
+  };
+}
+
+/**
+ * Throw away an intake in progress
+ */
+export function useDiscardIntakeDraft() {
+  const [isDiscarding, setIsDiscarding] = React.useState(false);
+
+  const discardDraft = async (draft: IntakeDraft): Promise<void> => {
+    setIsDiscarding(true);
+    try {
+      await intakeHelpers.discardDraft(draft.id);
+      await mutate(['intake-draft', draft.user_id], null, false);
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsDiscarding(false);
+    }
+  };
+
+  return {
+    discardDraft,
+    isDiscarding,
+  };
+}
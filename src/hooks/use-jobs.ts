@@ -0,0 +1,122 @@
+/**
+ * Background job SWR hooks for the admin jobs page
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { jobHelpers, DatabaseError } from '@/lib/database-helpers';
+import type { Job, JobStatus } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchJobs = async (options: {
+  page?: number;
+  limit?: number;
+  status?: JobStatus;
+  type?: string;
+}) => {
+  return await jobHelpers.list(options);
+};
+
+const fetchJobStatusCounts = async () => {
+  return await jobHelpers.getStatusCounts();
+};
+
+const isJobsKey = (key: unknown) => Array.isArray(key) && key[0] === 'jobs';
+
+// =================================
+// JOB HOOKS
+// =================================
+
+/**
+ * Get queued, running, completed or dead jobs
+ */
+export function useJobs(
+  options: {
+    page?: number;
+    limit?: number;
+    status?: JobStatus;
+    type?: string;
+  } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateJobs,
+  } = useSWR<{ jobs: Job[]; total: number }, Error>(
+    ['jobs', options],
+    () => fetchJobs(options),
+    {
+      revalidateOnFocus: true,
+      refreshInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    jobs: data?.jobs ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshJobs: () => mutateJobs(),
+  };
+}
+
+/**
+ * Number of jobs in each status
+ */
+export function useJobStatusCounts() {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateCounts,
+  } = useSWR<Record<JobStatus, number>, Error>(
+    ['jobs', 'counts'],
+    fetchJobStatusCounts,
+    {
+      revalidateOnFocus: true,
+      refreshInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    counts: data ?? null,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshCounts: () => mutateCounts(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Put a dead job back in the queue
+ */
+export function useRetryJob() {
+  const [isRetrying, setIsRetrying] = React.useState(false);
+
+  const retryJob = async (jobId: string): Promise<Job> => {
+    setIsRetrying(true);
+    try {
+      const job = await jobHelpers.retry(jobId);
+      mutate(isJobsKey);
+      return job;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return {
+    retryJob,
+    isRetrying,
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Lead inbox SWR hooks with real-time updates
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import {
+  leadHelpers,
+  DatabaseError,
+  type LeadConversionResult,
+  type LeadNoteWithAuthor,
+  type LeadWithAssignee,
+} from '@/lib/database-helpers';
+import type { Lead, LeadNote, LeadStatus } from '@/lib/supabase';
+import type { LeadConversionData } from '@/lib/validations';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchLeads = async (options: {
+  page?: number;
+  limit?: number;
+  status?: LeadStatus;
+  assignedTo?: string;
+}) => {
+  return await leadHelpers.list(options);
+};
+
+const fetchLead = async (leadId: string) => {
+  if (!leadId) return null;
+  return await leadHelpers.getById(leadId);
+};
+
+const fetchLeadNotes = async (
+  leadId: string
+): Promise<LeadNoteWithAuthor[]> => {
+  if (!leadId) return [];
+  return await leadHelpers.getNotes(leadId);
+};
+
+const isLeadsKey = (key: unknown) =>
+  Array.isArray(key) && (key[0] === 'leads' || key[0] === 'lead');
+
+// =================================
+// LEAD HOOKS
+// =================================
+
+/**
+ * Get the lead inbox, optionally filtered by status or assignee
+ */
+export function useLeads(
+  options: {
+    page?: number;
+    limit?: number;
+    status?: LeadStatus;
+    assignedTo?: string;
+  } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateLeads,
+  } = useSWR<{ leads: LeadWithAssignee[]; total: number }, Error>(
+    ['leads', options],
+    () => fetchLeads(options),
+    {
+      revalidateOnFocus: true,
+      dedupingInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    leads: data?.leads ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshLeads: () => mutateLeads(),
+  };
+}
+
+/**
+ * Get a single lead with its notes
+ */
+export function useLead(leadId?: string) {
+  const {
+    data: lead,
+    error,
+    isLoading,
+    mutate: mutateLead,
+  } = useSWR<LeadWithAssignee | null, Error>(
+    leadId ? ['lead', leadId] : null,
+    () => fetchLead(leadId!),
+    {
+      revalidateOnFocus: true,
+      errorRetryCount: 2,
+    }
+  );
+
+  const {
+    data: notes,
+    error: notesError,
+    isLoading: isNotesLoading,
+    mutate: mutateNotes,
+  } = useSWR<LeadNoteWithAuthor[], Error>(
+    leadId ? ['lead', leadId, 'notes'] : null,
+    () => fetchLeadNotes(leadId!),
+    {
+      revalidateOnFocus: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    lead: lead ?? null,
+    notes: notes ?? [],
+    isLoading: isLoading || isNotesLoading,
+    error: (error || notesError) as DatabaseError | null,
+    refreshLead: () => {
+      mutateLead();
+      mutateNotes();
+    },
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Mark a lead contacted, spam or back to new
+ */
+export function useUpdateLeadStatus() {
+  const [isUpdating, setIsUpdating] = React.useState(false);
+
+  const updateStatus = async (
+    lead: Lead,
+    status: LeadStatus
+  ): Promise<Lead> => {
+    setIsUpdating(true);
+    try {
+      const updated = await leadHelpers.updateStatus(lead, status);
+      mutate(isLeadsKey);
+      return updated;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    updateStatus,
+    isUpdating,
+  };
+}
+
+/**
+ * Assign a lead to a staff member; null unassigns
+ */
+export function useAssignLead() {
+  const [isAssigning, setIsAssigning] = React.useState(false);
+
+  const assignLead = async (
+    leadId: string,
+    assigneeId: string | null
+  ): Promise<Lead> => {
+    setIsAssigning(true);
+    try {
+      const updated = await leadHelpers.assign(leadId, assigneeId);
+      mutate(isLeadsKey);
+      return updated;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return {
+    assignLead,
+    isAssigning,
+  };
+}
+
+/**
+ * Add a staff note to a lead
+ */
+export function useAddLeadNote() {
+  const [isAdding, setIsAdding] = React.useState(false);
+
+  const addNote = async (
+    leadId: string,
+    authorId: string,
+    content: string
+  ): Promise<LeadNote> => {
+    setIsAdding(true);
+    try {
+      const note = await leadHelpers.addNote(leadId, authorId, content);
+      mutate(['lead', leadId, 'notes']);
+      return note;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return {
+    addNote,
+    isAdding,
+  };
+}
+
+/**
+ * Convert a lead into a veteran account and claim. Fails with code
+ * ACCOUNT_EXISTS, and the account's `userId` in `details`, until staff
+ * confirm an existing account with the lead's email via `linkToUserId`.
+ */
+export function useConvertLead() {
+  const [isConverting, setIsConverting] = React.useState(false);
+
+  const convertLead = async (
+    leadId: string,
+    options: LeadConversionData = {}
+  ): Promise<LeadConversionResult> => {
+    setIsConverting(true);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new DatabaseError(
+          'You must be signed in to convert leads',
+          '401'
+        );
+      }
+
+      const response = await fetch(`/api/admin/leads/${leadId}/convert`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (response.status !== 201) {
+        throw new DatabaseError(
+          payload?.error || 'Failed to convert lead',
+          payload?.code || String(response.status),
+          payload
+        );
+      }
+
+      mutate(isLeadsKey);
+      mutate(key => {
+        if (!Array.isArray(key)) return false;
+        return key[0] === 'claims' || key[0] === 'claim';
+      });
+
+      return payload as LeadConversionResult;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return {
+    convertLead,
+    isConverting,
+  };
+}
+
+// =================================
+// REAL-TIME SUBSCRIPTIONS
+// =================================
+
+/**
+ * Refresh the inbox as inquiries arrive or are worked
+ */
+export function useLeadsSubscription(enabled: boolean = true) {
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = supabase
+      .channel('leads')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'leads',
+        },
+        () => {
+          mutate(isLeadsKey);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [enabled]);
+}
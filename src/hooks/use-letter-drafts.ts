@@ -0,0 +1,323 @@
+/**
+ * Letter template and draft SWR hooks with caching and error handling
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import {
+  letterDraftHelpers,
+  letterTemplateHelpers,
+  DatabaseError,
+} from '@/lib/database-helpers';
+import type { LetterDraftWithContent } from '@/lib/database-helpers';
+import {
+  BLANK_LETTER_CONTENT,
+  diffLetterDraftVersions,
+  type LetterDraftContent,
+  type LetterDraftDiff,
+} from '@/lib/letter-drafts';
+import type {
+  LetterDraftCreateData,
+  LetterDraftSaveData,
+} from '@/lib/validations';
+import type {
+  LetterDraft,
+  LetterDraftVersion,
+  LetterTemplate,
+} from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchLetterTemplates = async (options: {
+  condition?: string;
+  includeInactive?: boolean;
+}) => {
+  return await letterTemplateHelpers.list(options);
+};
+
+const fetchLetterDrafts = async (claimId: string): Promise<LetterDraft[]> => {
+  if (!claimId) return [];
+  return await letterDraftHelpers.listForClaim(claimId);
+};
+
+const fetchLetterDraft = async (
+  draftId: string
+): Promise<LetterDraftWithContent | null> => {
+  if (!draftId) return null;
+  return await letterDraftHelpers.getWithContent(draftId);
+};
+
+const fetchDraftVersions = async (
+  draftId: string
+): Promise<LetterDraftVersion[]> => {
+  if (!draftId) return [];
+  return await letterDraftHelpers.getVersions(draftId);
+};
+
+const fetchDraftDiff = async (
+  draftId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<LetterDraftDiff | null> => {
+  const [from, to] = await Promise.all([
+    letterDraftHelpers.getVersion(draftId, fromVersion),
+    letterDraftHelpers.getVersion(draftId, toVersion),
+  ]);
+  if (!from || !to) return null;
+  return diffLetterDraftVersions(from, to);
+};
+
+// Drafts belong to a claim, so their keys sit under the claim's key
+const invalidateClaimDrafts = (claimId: string) =>
+  mutate(key => {
+    if (!Array.isArray(key)) return false;
+    return key[0] === 'claim' && key[1] === claimId && key[2] === 'drafts';
+  });
+
+// =================================
+// TEMPLATE HOOKS
+// =================================
+
+/**
+ * Get letter templates, optionally for one condition
+ */
+export function useLetterTemplates(
+  options: { condition?: string; includeInactive?: boolean } = {}
+) {
+  const {
+    data: templates,
+    error,
+    isLoading,
+    mutate: mutateTemplates,
+  } = useSWR<LetterTemplate[], Error>(
+    ['letter-templates', options],
+    () => fetchLetterTemplates(options),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // 5 minutes
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    templates: templates || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshTemplates: () => mutateTemplates(),
+  };
+}
+
+// =================================
+// DRAFT HOOKS
+// =================================
+
+/**
+ * Get a claim's letter drafts
+ */
+export function useLetterDrafts(claimId?: string) {
+  const {
+    data: drafts,
+    error,
+    isLoading,
+    mutate: mutateDrafts,
+  } = useSWR<LetterDraft[], Error>(
+    claimId ? ['claim', claimId, 'drafts'] : null,
+    () => fetchLetterDrafts(claimId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    drafts: drafts || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshDrafts: () => mutateDrafts(),
+  };
+}
+
+/**
+ * Get a draft with the content of its current version
+ */
+export function useLetterDraft(draftId?: string) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateDraft,
+  } = useSWR<LetterDraftWithContent | null, Error>(
+    draftId ? ['letter-draft', draftId] : null,
+    () => fetchLetterDraft(draftId!),
+    {
+      // A stale draft would make the next save fail with VERSION_CONFLICT
+      revalidateOnFocus: true,
+      dedupingInterval: 10000, // 10 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    draft: data?.draft ?? null,
+    version: data?.version ?? null,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshDraft: () => mutateDraft(),
+  };
+}
+
+/**
+ * Get a draft's version history, newest first
+ */
+export function useDraftVersions(draftId?: string) {
+  const {
+    data: versions,
+    error,
+    isLoading,
+    mutate: mutateVersions,
+  } = useSWR<LetterDraftVersion[], Error>(
+    draftId ? ['letter-draft', draftId, 'versions'] : null,
+    () => fetchDraftVersions(draftId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    versions: versions || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshVersions: () => mutateVersions(),
+  };
+}
+
+/**
+ * Compare two versions of a draft. Versions never change once saved, so
+ * the result is cached for the session.
+ */
+export function useDraftDiff(
+  draftId?: string,
+  fromVersion?: number,
+  toVersion?: number
+) {
+  const {
+    data: diff,
+    error,
+    isLoading,
+  } = useSWR<LetterDraftDiff | null, Error>(
+    draftId && fromVersion !== undefined && toVersion !== undefined
+      ? ['letter-draft', draftId, 'diff', fromVersion, toVersion]
+      : null,
+    () => fetchDraftDiff(draftId!, fromVersion!, toVersion!),
+    {
+      revalidateOnFocus: false,
+      revalidateIfStale: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    diff: diff ?? null,
+    isLoading,
+    error: error as DatabaseError | null,
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Start a draft for a claim, from a template when `templateId` is given
+ */
+export function useCreateLetterDraft() {
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const createDraft = async (
+    claimId: string,
+    createdBy: string,
+    details: LetterDraftCreateData,
+    content: LetterDraftContent = BLANK_LETTER_CONTENT
+  ): Promise<LetterDraftWithContent> => {
+    setIsCreating(true);
+    try {
+      const { templateId } = details;
+      const created = templateId
+        ? await letterDraftHelpers.createFromTemplate(claimId, createdBy, {
+            ...details,
+            templateId,
+          })
+        : await letterDraftHelpers.create(claimId, createdBy, details, content);
+
+      await mutate(['letter-draft', created.draft.id], created, false);
+      invalidateClaimDrafts(claimId);
+
+      return created;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return {
+    createDraft,
+    isCreating,
+  };
+}
+
+/**
+ * Save a draft as a new version
+ */
+export function useSaveLetterDraft() {
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const saveDraft = async (
+    draft: LetterDraft,
+    details: LetterDraftSaveData
+  ): Promise<LetterDraftVersion> => {
+    setIsSaving(true);
+    try {
+      const version = await letterDraftHelpers.save(draft.id, details);
+
+      // Update caches optimistically
+      await mutate(
+        ['letter-draft', draft.id],
+        {
+          draft: { ...draft, current_version: version.version },
+          version,
+        },
+        false
+      );
+
+      // Invalidate the history and the claim's draft list
+      mutate(key => {
+        if (!Array.isArray(key)) return false;
+        return (
+          key[0] === 'letter-draft' &&
+          key[1] === draft.id &&
+          key[2] === 'versions'
+        );
+      });
+      invalidateClaimDrafts(draft.claim_id);
+
+      return version;
+    } catch (error) {
+      // Revalidate on error, picking up a newer version after a conflict
+      mutate(['letter-draft', draft.id]);
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    saveDraft,
+    isSaving,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Notification center SWR hooks with real-time updates
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import { notificationHelpers, DatabaseError } from '@/lib/database-helpers';
+import { getNotificationSettings } from '@/lib/notifications';
+import type { NotificationSettingsData } from '@/lib/validations';
+import type { Notification, User } from '@/lib/supabase';
+import { useUser } from './use-user';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchNotifications = async (
+  userId: string,
+  limit: number
+): Promise<{ notifications: Notification[]; unreadCount: number }> => {
+  const [notifications, unreadCount] = await Promise.all([
+    notificationHelpers.list(userId, { limit }),
+    notificationHelpers.getUnreadCount(userId),
+  ]);
+
+  return { notifications, unreadCount };
+};
+
+const isNotificationsKey = (key: unknown) =>
+  Array.isArray(key) && key[0] === 'notifications';
+
+// =================================
+// NOTIFICATION HOOKS
+// =================================
+
+/**
+ * Get a user's recent notifications and unread count
+ */
+export function useNotifications(
+  userId?: string,
+  options: { limit?: number } = {}
+) {
+  const { limit = 10 } = options;
+
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateNotifications,
+  } = useSWR<{ notifications: Notification[]; unreadCount: number }, Error>(
+    userId ? ['notifications', userId, limit] : null,
+    () => fetchNotifications(userId!, limit),
+    {
+      revalidateOnFocus: true,
+      dedupingInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unreadCount ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshNotifications: () => mutateNotifications(),
+  };
+}
+
+/**
+ * The current user's notification settings, with defaults for anything
+ * not yet saved
+ */
+export function useNotificationSettings() {
+  const { user, isLoading, error } = useUser();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const saveSettings = async (
+    settings: NotificationSettingsData
+  ): Promise<User> => {
+    if (!user) {
+      throw new DatabaseError(
+        'You must be signed in to change notification settings',
+        '401'
+      );
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await notificationHelpers.updateSettings(user, settings);
+      mutate(['user', 'current'], updated, false);
+      return updated;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    settings: user ? getNotificationSettings(user.preferences) : null,
+    isLoading,
+    error,
+    saveSettings,
+    isSaving,
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Mark one notification read
+ */
+export function useMarkNotificationRead() {
+  const [isMarking, setIsMarking] = React.useState(false);
+
+  const markRead = async (notificationId: string): Promise<Notification> => {
+    setIsMarking(true);
+    try {
+      const notification = await notificationHelpers.markRead(notificationId);
+      mutate(isNotificationsKey);
+      return notification;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  return {
+    markRead,
+    isMarking,
+  };
+}
+
+/**
+ * Mark all of a user's notifications read
+ */
+export function useMarkAllNotificationsRead() {
+  const [isMarking, setIsMarking] = React.useState(false);
+
+  const markAllRead = async (userId: string): Promise<number> => {
+    setIsMarking(true);
+    try {
+      const count = await notificationHelpers.markAllRead(userId);
+      mutate(isNotificationsKey);
+      return count;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  return {
+    markAllRead,
+    isMarking,
+  };
+}
+
+// =================================
+// REAL-TIME SUBSCRIPTIONS
+// =================================
+
+/**
+ * Refresh the bell as notifications arrive or are read elsewhere
+ */
+export function useNotificationsSubscription(userId?: string) {
+  React.useEffect(() => {
+    if (!userId) return;
+
+    const subscription = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          mutate(isNotificationsKey);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId]);
+}
@@ -0,0 +1,317 @@
+/**
+ * Medical provider SWR hooks with caching and error handling
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import {
+  providerHelpers,
+  claimHelpers,
+  DatabaseError,
+  type ProviderWithLicenses,
+} from '@/lib/database-helpers';
+import { LICENSE_EXPIRY_WARNING_DAYS } from '@/lib/providers';
+import type {
+  ProviderAvailabilityData,
+  ProviderLicenseData,
+  ProviderProfileData,
+  ProviderVerificationData,
+} from '@/lib/validations';
+import type {
+  Claim,
+  ClaimStatus,
+  ProviderLicense,
+  ProviderProfile,
+  ProviderVerificationStatus,
+} from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchProviderProfile = async (
+  userId: string
+): Promise<ProviderWithLicenses | null> => {
+  if (!userId) return null;
+  return await providerHelpers.getProfile(userId);
+};
+
+const fetchProviders = async (options: {
+  page?: number;
+  limit?: number;
+  status?: ProviderVerificationStatus;
+}) => {
+  return await providerHelpers.list(options);
+};
+
+const fetchExpiringLicenses = async (withinDays: number) => {
+  return await providerHelpers.listExpiringLicenses(withinDays);
+};
+
+const fetchAssignedCases = async (
+  providerId: string,
+  options: { page?: number; limit?: number; status?: ClaimStatus }
+) => {
+  if (!providerId) return { claims: [], total: 0 };
+  return await claimHelpers.list({ ...options, assignedTo: providerId });
+};
+
+// Credential changes affect the provider's own profile and every admin list
+const invalidateProviderCaches = (userId: string) =>
+  mutate(key => {
+    if (!Array.isArray(key)) return false;
+    return (
+      key[0] === 'providers' || (key[0] === 'provider' && key[1] === userId)
+    );
+  });
+
+// =================================
+// PROVIDER HOOKS
+// =================================
+
+/**
+ * Get a provider's profile with their licenses
+ */
+export function useProviderProfile(userId?: string) {
+  const {
+    data: profile,
+    error,
+    isLoading,
+    mutate: mutateProfile,
+  } = useSWR<ProviderWithLicenses | null, Error>(
+    userId ? ['provider', userId] : null,
+    () => fetchProviderProfile(userId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // 5 minutes
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    profile,
+    licenses: profile?.licenses ?? [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshProfile: () => mutateProfile(),
+  };
+}
+
+/**
+ * Get the cases assigned to a provider
+ */
+export function useAssignedCases(
+  providerId?: string,
+  options: { page?: number; limit?: number; status?: ClaimStatus } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateCases,
+  } = useSWR<{ claims: Claim[]; total: number }, Error>(
+    providerId ? ['claims', 'assigned', providerId, options] : null,
+    () => fetchAssignedCases(providerId!, options),
+    {
+      revalidateOnFocus: true,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    claims: data?.claims ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshCases: () => mutateCases(),
+  };
+}
+
+/**
+ * Get providers (admin view), optionally by verification status
+ */
+export function useProviders(
+  options: {
+    page?: number;
+    limit?: number;
+    status?: ProviderVerificationStatus;
+  } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateProviders,
+  } = useSWR<{ providers: ProviderWithLicenses[]; total: number }, Error>(
+    ['providers', 'list', options],
+    () => fetchProviders(options),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    providers: data?.providers ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshProviders: () => mutateProviders(),
+  };
+}
+
+/**
+ * Get licenses that have expired or expire soon (admin view)
+ */
+export function useExpiringLicenses(
+  withinDays: number = LICENSE_EXPIRY_WARNING_DAYS
+) {
+  const {
+    data: licenses,
+    error,
+    isLoading,
+    mutate: mutateLicenses,
+  } = useSWR<ProviderLicense[], Error>(
+    ['providers', 'expiring-licenses', withinDays],
+    () => fetchExpiringLicenses(withinDays),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // 5 minutes
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    licenses: licenses || [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshLicenses: () => mutateLicenses(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Create or update a provider's profile
+ */
+export function useSaveProviderProfile() {
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const saveProfile = async (
+    userId: string,
+    data: ProviderProfileData
+  ): Promise<ProviderProfile> => {
+    setIsSaving(true);
+    try {
+      const profile = await providerHelpers.saveProfile(userId, data);
+      invalidateProviderCaches(userId);
+      return profile;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    saveProfile,
+    isSaving,
+  };
+}
+
+/**
+ * Add, renew and remove a provider's state licenses
+ */
+export function useProviderLicenses(providerId?: string) {
+  const [isUpdating, setIsUpdating] = React.useState(false);
+
+  const run = async <T>(action: () => Promise<T>): Promise<T> => {
+    if (!providerId) {
+      throw new DatabaseError('Provider not specified');
+    }
+
+    setIsUpdating(true);
+    try {
+      const result = await action();
+      invalidateProviderCaches(providerId);
+      return result;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    addLicense: (license: ProviderLicenseData) =>
+      run(() => providerHelpers.addLicense(providerId!, license)),
+    renewLicense: (licenseId: string, expiresOn: string) =>
+      run(() => providerHelpers.renewLicense(licenseId, expiresOn)),
+    removeLicense: (licenseId: string) =>
+      run(() => providerHelpers.removeLicense(licenseId)),
+    isUpdating,
+  };
+}
+
+/**
+ * Approve, reject or suspend a provider (admin only)
+ */
+export function useVerifyProvider() {
+  const [isVerifying, setIsVerifying] = React.useState(false);
+
+  const verifyProvider = async (
+    userId: string,
+    decision: ProviderVerificationData
+  ): Promise<ProviderProfile> => {
+    setIsVerifying(true);
+    try {
+      const profile = await providerHelpers.verify(userId, decision);
+      invalidateProviderCaches(userId);
+      return profile;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return {
+    verifyProvider,
+    isVerifying,
+  };
+}
+
+/**
+ * Take a provider off new cases (reassigning their open ones) or back on
+ */
+export function useProviderAvailability() {
+  const [isUpdating, setIsUpdating] = React.useState(false);
+
+  const setAvailability = async (
+    userId: string,
+    availability: ProviderAvailabilityData
+  ): Promise<ProviderProfile> => {
+    setIsUpdating(true);
+    try {
+      const profile = await providerHelpers.setAvailability(
+        userId,
+        availability
+      );
+      invalidateProviderCaches(userId);
+      return profile;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    setAvailability,
+    isUpdating,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Quality review SWR hooks with caching and error handling
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { qaReviewHelpers, DatabaseError } from '@/lib/database-helpers';
+import type { QaReviewDecisionData } from '@/lib/validations';
+import type { QaReview } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchClaimReviews = async (claimId: string): Promise<QaReview[]> => {
+  if (!claimId) return [];
+  return await qaReviewHelpers.listForClaim(claimId);
+};
+
+const fetchClaimApproval = async (claimId: string): Promise<boolean> => {
+  if (!claimId) return false;
+  return await qaReviewHelpers.hasApproval(claimId);
+};
+
+const fetchReviewQueue = async (options: { page?: number; limit?: number }) => {
+  return await qaReviewHelpers.listPending(options);
+};
+
+// A decision changes the claim's status, its history and the queue
+const invalidateReviewCaches = (claimId: string) =>
+  mutate(key => {
+    if (!Array.isArray(key)) return false;
+    return (
+      key[0] === 'claims' ||
+      key[0] === 'qa-reviews' ||
+      (key[0] === 'claim' && key[1] === claimId)
+    );
+  });
+
+// =================================
+// REVIEW HOOKS
+// =================================
+
+/**
+ * Get a claim's review rounds, latest first, and whether its current
+ * letter is approved for delivery
+ */
+export function useClaimReviews(claimId?: string) {
+  const {
+    data: reviews,
+    error,
+    isLoading,
+    mutate: mutateReviews,
+  } = useSWR<QaReview[], Error>(
+    claimId ? ['claim', claimId, 'reviews'] : null,
+    () => fetchClaimReviews(claimId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  const { data: isApproved, mutate: mutateApproval } = useSWR<boolean, Error>(
+    claimId ? ['claim', claimId, 'approval'] : null,
+    () => fetchClaimApproval(claimId!),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // 1 minute
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    reviews: reviews || [],
+    latestReview: reviews?.[0] ?? null,
+    isApproved: isApproved ?? false,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshReviews: () => Promise.all([mutateReviews(), mutateApproval()]),
+  };
+}
+
+/**
+ * Get reviews awaiting a decision (reviewer queue)
+ */
+export function useReviewQueue(
+  options: { page?: number; limit?: number } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateQueue,
+  } = useSWR<{ reviews: QaReview[]; total: number }, Error>(
+    ['qa-reviews', 'pending', options],
+    () => fetchReviewQueue(options),
+    {
+      revalidateOnFocus: true,
+      dedupingInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    reviews: data?.reviews ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshQueue: () => mutateQueue(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Submit a letter draft for quality review
+ */
+export function useSubmitForReview() {
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const submitForReview = async (
+    claimId: string,
+    draftId: string
+  ): Promise<QaReview> => {
+    setIsSubmitting(true);
+    try {
+      const review = await qaReviewHelpers.submit(claimId, draftId);
+      invalidateReviewCaches(claimId);
+      return review;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return {
+    submitForReview,
+    isSubmitting,
+  };
+}
+
+/**
+ * Approve a letter or request changes
+ */
+export function useCompleteReview() {
+  const [isCompleting, setIsCompleting] = React.useState(false);
+
+  const completeReview = async (
+    review: Pick<QaReview, 'id' | 'claim_id'>,
+    decision: QaReviewDecisionData
+  ): Promise<QaReview> => {
+    setIsCompleting(true);
+    try {
+      const completed = await qaReviewHelpers.complete(review.id, decision);
+      invalidateReviewCaches(review.claim_id);
+      return completed;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  return {
+    completeReview,
+    isCompleting,
+  };
+}
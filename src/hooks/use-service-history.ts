@@ -0,0 +1,107 @@
+/**
+ * Service history SWR hooks for the veteran's profile
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { serviceHistoryHelpers, DatabaseError } from '@/lib/database-helpers';
+import type { ServicePeriodData } from '@/lib/validations';
+import type { ServicePeriod } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchServicePeriods = async (userId: string) => {
+  return await serviceHistoryHelpers.list(userId);
+};
+
+const isServiceHistoryKey = (key: unknown) =>
+  Array.isArray(key) && key[0] === 'service-history';
+
+// =================================
+// SERVICE HISTORY HOOKS
+// =================================
+
+/**
+ * Get a veteran's periods of service
+ */
+export function useServiceHistory(userId?: string) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutatePeriods,
+  } = useSWR<ServicePeriod[], Error>(
+    userId ? ['service-history', userId] : null,
+    () => fetchServicePeriods(userId!),
+    {
+      revalidateOnFocus: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    periods: data ?? [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshServiceHistory: () => mutatePeriods(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Add or edit a period of service
+ */
+export function useSaveServicePeriod() {
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const saveServicePeriod = async (
+    userId: string,
+    period: ServicePeriodData,
+    periodId?: string
+  ): Promise<ServicePeriod> => {
+    setIsSaving(true);
+    try {
+      const saved = await serviceHistoryHelpers.save(userId, period, periodId);
+      mutate(isServiceHistoryKey);
+      return saved;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    saveServicePeriod,
+    isSaving,
+  };
+}
+
+/**
+ * Remove a period of service
+ */
+export function useDeleteServicePeriod() {
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const deleteServicePeriod = async (periodId: string): Promise<void> => {
+    setIsDeleting(true);
+    try {
+      await serviceHistoryHelpers.delete(periodId);
+      mutate(isServiceHistoryKey);
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return {
+    deleteServicePeriod,
+    isDeleting,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * SLA escalation SWR hooks with caching and real-time updates
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import {
+  slaHelpers,
+  DatabaseError,
+  type SlaEscalationWithClaim,
+} from '@/lib/database-helpers';
+import type { ClaimSlaEscalation } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchOpenEscalations = async (options: {
+  page?: number;
+  limit?: number;
+}) => {
+  return await slaHelpers.listOpen(options);
+};
+
+const isEscalationsKey = (key: unknown) =>
+  Array.isArray(key) && key[0] === 'sla-escalations';
+
+// =================================
+// ESCALATION HOOKS
+// =================================
+
+/**
+ * Get unacknowledged SLA escalations (admin inbox)
+ */
+export function useSlaEscalations(
+  options: { page?: number; limit?: number } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateEscalations,
+  } = useSWR<{ escalations: SlaEscalationWithClaim[]; total: number }, Error>(
+    ['sla-escalations', 'open', options],
+    () => fetchOpenEscalations(options),
+    {
+      revalidateOnFocus: true,
+      dedupingInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    escalations: data?.escalations ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshEscalations: () => mutateEscalations(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Mark an escalation as handled
+ */
+export function useAcknowledgeEscalation() {
+  const [isAcknowledging, setIsAcknowledging] = React.useState(false);
+
+  const acknowledge = async (
+    escalationId: string,
+    userId: string
+  ): Promise<ClaimSlaEscalation> => {
+    setIsAcknowledging(true);
+    try {
+      const escalation = await slaHelpers.acknowledge(escalationId, userId);
+      mutate(isEscalationsKey);
+      return escalation;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsAcknowledging(false);
+    }
+  };
+
+  return {
+    acknowledge,
+    isAcknowledging,
+  };
+}
+
+// =================================
+// REAL-TIME SUBSCRIPTIONS
+// =================================
+
+/**
+ * Refresh the escalation inbox as escalations are raised or acknowledged
+ */
+export function useSlaEscalationsSubscription(enabled: boolean = true) {
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = supabase
+      .channel('claim-sla-escalations')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'claim_sla_escalations',
+        },
+        () => {
+          mutate(isEscalationsKey);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [enabled]);
+}
@@ -48,7 +48,7 @@ const fetchUsers = async (options: {
   page?: number;
   limit?: number;
   search?: string;
-  role?: 'user' | 'admin' | 'moderator';
+  role?: 'user' | 'admin' | 'moderator' | 'reviewer' | 'provider';
 }) => {
   return await userHelpers.list(options);
 };
@@ -159,7 +159,7 @@ export function useUsers(
     page?: number;
     limit?: number;
     search?: string;
-    role?: 'user' | 'admin' | 'moderator';
+    role?: 'user' | 'admin' | 'moderator' | 'reviewer' | 'provider';
   } = {}
 ) {
   const {
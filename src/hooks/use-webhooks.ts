@@ -0,0 +1,222 @@
+/**
+ * Webhook subscription SWR hooks for the admin webhooks page
+ */
+
+import React from 'react';
+import useSWR, { mutate } from 'swr';
+import { supabase } from '@/lib/supabase';
+import { webhookHelpers, DatabaseError } from '@/lib/database-helpers';
+import type { WebhookSubscriptionData } from '@/lib/validations';
+import type { WebhookDelivery, WebhookSubscription } from '@/lib/supabase';
+
+// =================================
+// FETCHER FUNCTIONS
+// =================================
+
+const fetchWebhooks = async () => {
+  return await webhookHelpers.list();
+};
+
+const fetchWebhookDeliveries = async (
+  subscriptionId: string,
+  options: { page?: number; limit?: number }
+) => {
+  return await webhookHelpers.listDeliveries(subscriptionId, options);
+};
+
+const isWebhooksKey = (key: unknown) =>
+  Array.isArray(key) && key[0] === 'webhooks';
+
+// =================================
+// WEBHOOK HOOKS
+// =================================
+
+/**
+ * Get every webhook subscription
+ */
+export function useWebhooks() {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateWebhooks,
+  } = useSWR<WebhookSubscription[], Error>(['webhooks'], fetchWebhooks, {
+    revalidateOnFocus: true,
+    errorRetryCount: 2,
+  });
+
+  return {
+    webhooks: data ?? [],
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshWebhooks: () => mutateWebhooks(),
+  };
+}
+
+/**
+ * Get a subscription's delivery attempts log
+ */
+export function useWebhookDeliveries(
+  subscriptionId?: string,
+  options: { page?: number; limit?: number } = {}
+) {
+  const {
+    data,
+    error,
+    isLoading,
+    mutate: mutateDeliveries,
+  } = useSWR<{ deliveries: WebhookDelivery[]; total: number }, Error>(
+    subscriptionId ? ['webhooks', subscriptionId, 'deliveries', options] : null,
+    () => fetchWebhookDeliveries(subscriptionId!, options),
+    {
+      revalidateOnFocus: true,
+      refreshInterval: 30000, // 30 seconds
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    deliveries: data?.deliveries ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    error: error as DatabaseError | null,
+    refreshDeliveries: () => mutateDeliveries(),
+  };
+}
+
+// =================================
+// MUTATION HOOKS
+// =================================
+
+/**
+ * Add a webhook subscription
+ */
+export function useCreateWebhook() {
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const createWebhook = async (
+    subscription: WebhookSubscriptionData,
+    createdBy: string
+  ): Promise<WebhookSubscription> => {
+    setIsCreating(true);
+    try {
+      const created = await webhookHelpers.create(subscription, createdBy);
+      mutate(isWebhooksKey);
+      return created;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return {
+    createWebhook,
+    isCreating,
+  };
+}
+
+/**
+ * Edit, pause or resume a webhook subscription
+ */
+export function useUpdateWebhook() {
+  const [isUpdating, setIsUpdating] = React.useState(false);
+
+  const updateWebhook = async (
+    subscriptionId: string,
+    changes: Partial<WebhookSubscriptionData>
+  ): Promise<WebhookSubscription> => {
+    setIsUpdating(true);
+    try {
+      const updated = await webhookHelpers.update(subscriptionId, changes);
+      mutate(isWebhooksKey);
+      return updated;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return {
+    updateWebhook,
+    isUpdating,
+  };
+}
+
+/**
+ * Remove a webhook subscription
+ */
+export function useDeleteWebhook() {
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const deleteWebhook = async (subscriptionId: string): Promise<void> => {
+    setIsDeleting(true);
+    try {
+      await webhookHelpers.delete(subscriptionId);
+      mutate(isWebhooksKey);
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return {
+    deleteWebhook,
+    isDeleting,
+  };
+}
+
+/**
+ * Send a test ping to a webhook subscription
+ */
+export function usePingWebhook() {
+  const [isPinging, setIsPinging] = React.useState(false);
+
+  const pingWebhook = async (
+    subscriptionId: string
+  ): Promise<WebhookDelivery> => {
+    setIsPinging(true);
+    try {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new DatabaseError(
+          'You must be signed in to ping webhooks',
+          '401'
+        );
+      }
+
+      const response = await fetch(
+        `/api/admin/webhooks/${subscriptionId}/ping`,
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        }
+      );
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new DatabaseError(
+          payload?.error || 'Failed to ping webhook',
+          payload?.code || String(response.status)
+        );
+      }
+
+      mutate(isWebhooksKey);
+      return payload.delivery as WebhookDelivery;
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsPinging(false);
+    }
+  };
+
+  return {
+    pingWebhook,
+    isPinging,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Next.js server startup hook. Starts an in-process background job worker
+ * when JOB_WORKER is set; serverless deployments call
+ * /api/admin/jobs/work on a schedule instead.
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.JOB_WORKER === 'true'
+  ) {
+    const { startJobWorker } = await import('./lib/jobs');
+    void startJobWorker();
+  }
+}
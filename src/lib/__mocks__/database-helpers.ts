@@ -2,6 +2,8 @@
  * Mock database helpers for testing
  */
 
+import { emptyClaimStats } from '../claim-workflow';
+
 // Mock user helpers
 export const userHelpers = {
   async getById(userId: string) {
@@ -34,7 +36,7 @@ export const claimHelpers = {
       claim_number: 'CLM-001',
       title: 'Test Claim',
       description: 'Test claim description',
-      status: 'pending',
+      status: 'intake',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -45,7 +47,7 @@ export const claimHelpers = {
       claim_number: claimNumber,
       title: 'Test Claim',
       description: 'Test claim description',
-      status: 'pending',
+      status: 'intake',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -62,14 +64,11 @@ export const claimHelpers = {
       total: 0,
     };
   },
+  async getStatusHistory() {
+    return [];
+  },
   async getStats() {
-    return {
-      total: 0,
-      pending: 0,
-      approved: 0,
-      rejected: 0,
-      underReview: 0,
-    };
+    return emptyClaimStats();
   },
 };
 
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { isCronSecret, requireCronOrAdmin, requireRole } from '../api-auth';
+
+const createMockRequest = (authorization?: string): NextRequest =>
+  ({
+    headers: {
+      get: (key: string) =>
+        key === 'authorization' ? (authorization ?? null) : null,
+    },
+  }) as unknown as NextRequest;
+
+describe('API Authentication', () => {
+  describe('isCronSecret', () => {
+    it('should only accept the configured secret', () => {
+      expect(isCronSecret('cron-secret', 'cron-secret')).toBe(true);
+      expect(isCronSecret('cron-secreT', 'cron-secret')).toBe(false);
+      expect(isCronSecret('cron', 'cron-secret')).toBe(false);
+    });
+
+    it('should reject everything when no secret is configured', () => {
+      expect(isCronSecret('', undefined)).toBe(false);
+      expect(isCronSecret('', '')).toBe(false);
+    });
+  });
+
+  describe('requireCronOrAdmin', () => {
+    it('should let the scheduler through with CRON_SECRET', async () => {
+      process.env.CRON_SECRET = 'cron-secret';
+
+      try {
+        expect(
+          await requireCronOrAdmin(createMockRequest('Bearer cron-secret'))
+        ).toBeNull();
+      } finally {
+        delete process.env.CRON_SECRET;
+      }
+    });
+
+    it('should refuse requests without a bearer token', async () => {
+      const response = await requireCronOrAdmin(createMockRequest('Basic abc'));
+
+      expect(response?.status).toBe(401);
+    });
+  });
+
+  describe('requireRole', () => {
+    it('should refuse requests without a bearer token', async () => {
+      const { response } = await requireRole(createMockRequest(), ['admin']);
+
+      expect(response?.status).toBe(401);
+    });
+  });
+});
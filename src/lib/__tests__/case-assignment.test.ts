@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CaseAssignmentError,
+  getConditionSpecialties,
+  getIneligibility,
+  pickProvider,
+  rankProviders,
+  type ProviderCandidate,
+} from '../case-assignment';
+import { claimAssignmentSchema } from '../validations';
+
+const today = new Date('2026-10-19T12:00:00Z');
+
+const candidate = (
+  userId: string,
+  overrides: Partial<ProviderCandidate> = {}
+): ProviderCandidate => ({
+  userId,
+  specialties: ['Internal Medicine'],
+  verificationStatus: 'verified',
+  acceptingCases: true,
+  maxOpenCases: 10,
+  licenses: [{ state: 'TX', license_number: 'Q1', expires_on: '2027-12-31' }],
+  openCases: 2,
+  avgTurnaroundDays: 7,
+  ...overrides,
+});
+
+describe('Case Assignment', () => {
+  describe('specialty matching', () => {
+    it('should suggest specialties from the condition text', () => {
+      expect(getConditionSpecialties('Chronic PTSD')).toEqual([
+        'psychiatry',
+        'psychology',
+      ]);
+      expect(getConditionSpecialties('Bilateral tinnitus')).toContain(
+        'audiology'
+      );
+      expect(getConditionSpecialties('Unlisted condition')).toEqual([]);
+      expect(getConditionSpecialties(null)).toEqual([]);
+    });
+  });
+
+  describe('eligibility', () => {
+    it('should skip providers who cannot take a new case', () => {
+      expect(getIneligibility(candidate('a'), { today })).toBeNull();
+      expect(
+        getIneligibility(candidate('a', { verificationStatus: 'suspended' }))
+      ).toBe('not_verified');
+      expect(getIneligibility(candidate('a', { acceptingCases: false }))).toBe(
+        'not_accepting'
+      );
+      expect(
+        getIneligibility(
+          candidate('a', {
+            licenses: [
+              { state: 'TX', license_number: 'Q1', expires_on: '2026-10-18' },
+            ],
+          }),
+          { today }
+        )
+      ).toBe('no_current_license');
+      expect(getIneligibility(candidate('a', { openCases: 10 }))).toBe(
+        'at_capacity'
+      );
+      expect(getIneligibility(candidate('a'), { exclude: ['a'] })).toBe(
+        'excluded'
+      );
+    });
+  });
+
+  describe('ranking', () => {
+    it('should prefer a specialty match over a lighter caseload', () => {
+      const ranked = rankProviders(
+        { condition: 'PTSD' },
+        [
+          candidate('generalist', { openCases: 0 }),
+          candidate('psychiatrist', {
+            specialties: ['Psychiatry'],
+            openCases: 6,
+          }),
+        ],
+        { today }
+      );
+
+      expect(ranked.map(entry => entry.candidate.userId)).toEqual([
+        'psychiatrist',
+        'generalist',
+      ]);
+      expect(ranked[0]!.specialtyMatch).toBe(true);
+    });
+
+    it('should balance caseload and turnaround between equal fits', () => {
+      const ranked = rankProviders(
+        { condition: 'Lower back strain' },
+        [
+          candidate('busy', { openCases: 8 }),
+          candidate('slow', { openCases: 2, avgTurnaroundDays: 14 }),
+          candidate('fast', { openCases: 2, avgTurnaroundDays: 3 }),
+        ],
+        { today }
+      );
+
+      expect(ranked.map(entry => entry.candidate.userId)).toEqual([
+        'fast',
+        'slow',
+        'busy',
+      ]);
+    });
+
+    it('should throw when nobody can take the case', () => {
+      expect(() =>
+        pickProvider({ id: 'claim-1', condition: 'PTSD' }, [
+          candidate('away', { acceptingCases: false }),
+        ])
+      ).toThrow(CaseAssignmentError);
+    });
+  });
+
+  describe('manual override', () => {
+    it('should require a reason', () => {
+      expect(
+        claimAssignmentSchema.safeParse({ assigneeId: null, reason: '' })
+          .success
+      ).toBe(false);
+      expect(
+        claimAssignmentSchema.safeParse({
+          assigneeId: '9b2f0c1e-4d3a-4f6b-8a7c-2e1d0f9a8b7c',
+          reason: 'Veteran requested the same physician as last time',
+        }).success
+      ).toBe(true);
+    });
+  });
+});
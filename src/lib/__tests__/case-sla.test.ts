@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addBusinessDays,
+  businessDaysBetween,
+  getFederalHolidays,
+  isBusinessDay,
+} from '../business-days';
+import {
+  computeDueDate,
+  extendDueDate,
+  getSlaStatus,
+  isEscalationLevel,
+} from '../case-sla';
+
+const openClaim = {
+  status: 'physician_review' as const,
+  due_date: '2026-11-02',
+  resolved_at: null,
+  urgency: 'standard' as const,
+  claim_type: 'comprehensive_letter' as const,
+};
+
+describe('Case SLA', () => {
+  describe('business calendar', () => {
+    it('should observe federal holidays', () => {
+      const holidays = getFederalHolidays(2026).map(holiday => holiday.date);
+
+      expect(holidays).toContain('2026-11-26'); // Thanksgiving
+      expect(holidays).toContain('2026-07-03'); // July 4th on a Saturday
+      expect(getFederalHolidays(2027).map(holiday => holiday.date)).toContain(
+        '2027-12-31' // New Year's Day 2028 on a Saturday
+      );
+      expect(isBusinessDay('2026-11-26')).toBe(false);
+      expect(isBusinessDay('2026-10-24')).toBe(false);
+      expect(isBusinessDay('2026-10-19')).toBe(true);
+    });
+
+    it('should skip weekends and holidays when adding days', () => {
+      expect(addBusinessDays('2026-10-23', 1)).toBe('2026-10-26');
+      expect(addBusinessDays('2026-11-25', 1)).toBe('2026-11-27');
+      expect(addBusinessDays('2026-10-24', 0)).toBe('2026-10-26');
+      expect(addBusinessDays('2026-10-26', -1)).toBe('2026-10-23');
+      expect(businessDaysBetween('2026-10-23', '2026-10-26')).toBe(1);
+      expect(businessDaysBetween('2026-10-26', '2026-10-23')).toBe(-1);
+    });
+  });
+
+  describe('due dates', () => {
+    const submittedAt = '2026-10-19T14:00:00Z';
+
+    it('should set the due date from the service tier', () => {
+      expect(computeDueDate(submittedAt, 'standard')).toBe('2026-11-02');
+      expect(computeDueDate(submittedAt, 'expedited')).toBe('2026-10-26');
+      expect(computeDueDate(submittedAt, null, 'expedited')).toBe('2026-10-26');
+      expect(computeDueDate(submittedAt, 'urgent')).toBe('2026-10-21');
+    });
+
+    it('should count submissions in Eastern time', () => {
+      // Monday 1am UTC is still Sunday evening in New York
+      expect(computeDueDate('2026-10-19T01:00:00Z', 'expedited')).toBe(
+        '2026-10-23'
+      );
+    });
+
+    it('should extend the due date by business days on hold', () => {
+      expect(
+        extendDueDate(
+          '2026-11-02',
+          '2026-10-22T15:00:00Z',
+          '2026-10-27T15:00:00Z'
+        )
+      ).toBe('2026-11-05');
+      expect(
+        extendDueDate(
+          '2026-11-02',
+          '2026-10-22T15:00:00Z',
+          '2026-10-22T20:00:00Z'
+        )
+      ).toBe('2026-11-02');
+    });
+  });
+
+  describe('status', () => {
+    it('should track open cases against the due date', () => {
+      expect(
+        getSlaStatus(openClaim, new Date('2026-10-20T15:00:00Z'))
+      ).toMatchObject({ state: 'on_track', remainingBusinessDays: 9 });
+      expect(
+        getSlaStatus(openClaim, new Date('2026-10-29T15:00:00Z'))
+      ).toMatchObject({ state: 'at_risk', remainingBusinessDays: 2 });
+      expect(
+        getSlaStatus(openClaim, new Date('2026-11-02T23:00:00Z'))?.state
+      ).toBe('at_risk');
+      expect(
+        getSlaStatus(openClaim, new Date('2026-11-04T15:00:00Z'))
+      ).toMatchObject({ state: 'breached', remainingBusinessDays: -2 });
+    });
+
+    it('should pause on hold and settle once resolved', () => {
+      const now = new Date('2026-11-10T15:00:00Z');
+
+      expect(
+        getSlaStatus({ ...openClaim, status: 'on_hold' }, now)?.state
+      ).toBe('paused');
+      expect(
+        getSlaStatus(
+          {
+            ...openClaim,
+            status: 'delivered',
+            resolved_at: '2026-10-30T18:00:00Z',
+          },
+          now
+        )?.state
+      ).toBe('met');
+      expect(
+        getSlaStatus(
+          {
+            ...openClaim,
+            status: 'delivered',
+            resolved_at: '2026-11-03T18:00:00Z',
+          },
+          now
+        )?.state
+      ).toBe('missed');
+      expect(getSlaStatus({ ...openClaim, status: 'cancelled' }, now)).toBe(
+        null
+      );
+      expect(getSlaStatus({ ...openClaim, due_date: null }, now)).toBe(null);
+    });
+
+    it('should escalate at-risk and breached cases only', () => {
+      expect(isEscalationLevel('at_risk')).toBe(true);
+      expect(isEscalationLevel('breached')).toBe(true);
+      expect(isEscalationLevel('paused')).toBe(false);
+    });
+  });
+});
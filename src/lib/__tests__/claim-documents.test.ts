@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_CATEGORY_LABELS,
+  DOCUMENT_CATEGORY_SIZE_LIMITS,
+  buildDocumentPath,
+  validateClaimDocument,
+} from '../claim-documents';
+import {
+  claimDocumentUploadSchema,
+  claimDocumentUploadSessionSchema,
+} from '../validations';
+
+const createFile = (name: string, type: string, size = 1024) =>
+  new File(['x'.repeat(size)], name, { type });
+
+describe('Claim Documents', () => {
+  describe('categories', () => {
+    it('should label every document category', () => {
+      DOCUMENT_CATEGORIES.forEach(category => {
+        expect(DOCUMENT_CATEGORY_LABELS[category]).toBeTruthy();
+      });
+      expect(DOCUMENT_CATEGORY_LABELS.dd214).toBe('DD-214');
+    });
+
+    it('should default uploads to the "other" category', () => {
+      expect(claimDocumentUploadSchema.parse({})).toEqual({ category: 'other' });
+    });
+
+    it('should reject unknown categories', () => {
+      const result = claimDocumentUploadSchema.safeParse({
+        category: 'tax_return',
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('buildDocumentPath', () => {
+    it('should place documents in the claim folder', () => {
+      expect(
+        buildDocumentPath('claim-123', 'doc-456', 'My DD214 scan.pdf')
+      ).toBe('claim-123/doc-456-My_DD214_scan.pdf');
+    });
+
+    it('should strip path traversal from file names', () => {
+      const path = buildDocumentPath('claim-123', 'doc-456', '../../etc/passwd');
+
+      expect(path.startsWith('claim-123/doc-456-')).toBe(true);
+      expect(path).not.toContain('..');
+      expect(path.split('/')).toHaveLength(2);
+    });
+  });
+
+  describe('validateClaimDocument', () => {
+    it('should accept PDF medical records', () => {
+      const result = validateClaimDocument(
+        createFile('str.pdf', 'application/pdf')
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject executables and non-document types', () => {
+      expect(
+        validateClaimDocument(
+          createFile('records.exe', 'application/x-msdownload')
+        ).isValid
+      ).toBe(false);
+      expect(
+        validateClaimDocument(createFile('photo.png', 'image/png')).isValid
+      ).toBe(false);
+    });
+
+    it("should reject files over the category's size limit", () => {
+      const result = validateClaimDocument(
+        createFile('dd214.pdf', 'application/pdf', 11 * 1024 * 1024),
+        'dd214'
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('exceeds maximum allowed size');
+    });
+
+    it('should allow larger files for bulky record categories', () => {
+      const result = validateClaimDocument(
+        createFile('c-file.pdf', 'application/pdf', 11 * 1024 * 1024),
+        'c_file'
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('size limits', () => {
+    it('should set a limit for every category', () => {
+      DOCUMENT_CATEGORIES.forEach(category => {
+        expect(DOCUMENT_CATEGORY_SIZE_LIMITS[category]).toBeGreaterThan(0);
+      });
+      expect(DOCUMENT_CATEGORY_SIZE_LIMITS.c_file).toBeGreaterThan(
+        DOCUMENT_CATEGORY_SIZE_LIMITS.dd214
+      );
+    });
+
+    it('should check upload sessions against the category limit', () => {
+      const session = {
+        fileName: 'c-file.pdf',
+        mimeType: 'application/pdf',
+        size: 300 * 1024 * 1024,
+      };
+
+      expect(
+        claimDocumentUploadSessionSchema.safeParse({
+          ...session,
+          category: 'c_file',
+        }).success
+      ).toBe(true);
+      expect(
+        claimDocumentUploadSessionSchema.safeParse({
+          ...session,
+          category: 'private_records',
+        }).success
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLAIM_TYPES,
+  CLAIM_TYPE_LABELS,
+  SERVICE_OPTIONS,
+  claimTypeFromServiceLabel,
+  claimSubmissionToInsert,
+  isClaimType,
+} from '../claim-types';
+import { claimSubmissionSchema, nexusContactFormSchema } from '../validations';
+
+describe('Claim Types', () => {
+  describe('service options', () => {
+    it('should offer a labelled option for every claim type', () => {
+      expect(SERVICE_OPTIONS.map(option => option.value).sort()).toEqual(
+        [...CLAIM_TYPES].sort()
+      );
+      SERVICE_OPTIONS.forEach(option => {
+        expect(option.label).toBe(CLAIM_TYPE_LABELS[option.value]);
+      });
+    });
+
+    it('should resolve contact form labels to claim types', () => {
+      expect(claimTypeFromServiceLabel('Comprehensive Nexus Letter')).toBe(
+        'comprehensive_letter'
+      );
+      expect(
+        claimTypeFromServiceLabel('Independent Medical Examination (IME)')
+      ).toBe('ime');
+      expect(claimTypeFromServiceLabel('Other (please specify)')).toBe('other');
+      expect(claimTypeFromServiceLabel('Extended Warranty')).toBeNull();
+    });
+
+    it('should accept every offered service in the contact form schema', () => {
+      SERVICE_OPTIONS.forEach(option => {
+        const result = nexusContactFormSchema.safeParse({
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          service: option.label,
+          otherService: 'Records summary',
+        });
+
+        expect(result.success).toBe(true);
+      });
+    });
+
+    it('should narrow strings to claim types', () => {
+      expect(isClaimType('expedited')).toBe(true);
+      expect(isClaimType('warranty')).toBe(false);
+    });
+  });
+
+  describe('claimSubmissionToInsert', () => {
+    it('should map validated submission data onto a claims row', () => {
+      const submission = claimSubmissionSchema.parse({
+        title: 'Tinnitus nexus letter',
+        description: 'Ringing in both ears since artillery training in 2004.',
+        claimType: 'comprehensive_letter',
+        condition: 'Tinnitus',
+        urgency: 'expedited',
+        priority: 'high',
+      });
+
+      expect(claimSubmissionToInsert('user-123', submission)).toEqual({
+        user_id: 'user-123',
+        title: 'Tinnitus nexus letter',
+        description: 'Ringing in both ears since artillery training in 2004.',
+        claim_type: 'comprehensive_letter',
+        condition: 'Tinnitus',
+        urgency: 'expedited',
+        priority: 3,
+        metadata: {},
+      });
+    });
+
+    it('should keep the requested service for "other" claims', () => {
+      const submission = claimSubmissionSchema.parse({
+        title: 'Records summary',
+        description: 'Need a chronological summary of my treatment records.',
+        claimType: 'other',
+        otherService: 'Records summary',
+        condition: 'Lumbar strain',
+      });
+
+      const row = claimSubmissionToInsert('user-123', submission);
+
+      expect(row.claim_type).toBe('other');
+      expect(row.urgency).toBe('standard');
+      expect(row.priority).toBe(2);
+      expect(row.metadata).toEqual({ other_service: 'Records summary' });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLAIM_STATUSES,
+  CLAIM_TRANSITIONS,
+  TERMINAL_STATUSES,
+  ClaimWorkflowError,
+  assertTransition,
+  canTransition,
+  getAvailableTransitions,
+  requiresReason,
+  summarizeClaimStatuses,
+} from '../claim-workflow';
+
+describe('Claim Workflow', () => {
+  describe('transition table', () => {
+    it('should define transitions for every status', () => {
+      expect(Object.keys(CLAIM_TRANSITIONS).sort()).toEqual(
+        [...CLAIM_STATUSES].sort()
+      );
+    });
+
+    it('should follow the happy path from intake to closed', () => {
+      const path = [
+        'intake',
+        'records_requested',
+        'records_received',
+        'physician_review',
+        'drafting',
+        'qa_review',
+        'delivered',
+        'closed',
+      ] as const;
+
+      path.slice(1).forEach((to, index) => {
+        const from = path[index]!;
+        expect(canTransition(from, to)).toBe(true);
+        expect(requiresReason(from, to)).toBe(false);
+      });
+    });
+
+    it('should not allow leaving terminal statuses', () => {
+      TERMINAL_STATUSES.forEach(status => {
+        expect(getAvailableTransitions(status)).toEqual([]);
+      });
+    });
+
+    it('should reject skipping workflow steps', () => {
+      expect(canTransition('intake', 'delivered')).toBe(false);
+      expect(canTransition('drafting', 'delivered')).toBe(false);
+      expect(canTransition('records_requested', 'drafting')).toBe(false);
+    });
+
+    it('should require a reason for holds, cancellations and rework', () => {
+      expect(requiresReason('drafting', 'on_hold')).toBe(true);
+      expect(requiresReason('intake', 'cancelled')).toBe(true);
+      expect(requiresReason('qa_review', 'drafting')).toBe(true);
+      expect(requiresReason('on_hold', 'drafting')).toBe(false);
+    });
+
+    it('should only resume a hold to the status it was held from', () => {
+      expect(canTransition('on_hold', 'intake', 'intake')).toBe(true);
+      expect(canTransition('on_hold', 'drafting', 'intake')).toBe(false);
+      expect(canTransition('on_hold', 'qa_review', 'intake')).toBe(false);
+      expect(canTransition('on_hold', 'drafting')).toBe(false);
+      expect(getAvailableTransitions('on_hold', 'records_received')).toEqual([
+        'records_received',
+        'cancelled',
+      ]);
+      expect(() =>
+        assertTransition('on_hold', 'drafting', undefined, 'intake')
+      ).toThrow('Cannot move claim from On Hold to Drafting');
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should allow legal moves', () => {
+      expect(() => assertTransition('intake', 'records_requested')).not.toThrow();
+      expect(() =>
+        assertTransition('drafting', 'on_hold', 'Awaiting veteran statement')
+      ).not.toThrow();
+    });
+
+    it('should treat a missing status as intake', () => {
+      expect(() => assertTransition(null, 'physician_review')).not.toThrow();
+    });
+
+    it('should throw for illegal moves', () => {
+      expect(() => assertTransition('intake', 'delivered')).toThrow(
+        ClaimWorkflowError
+      );
+
+      try {
+        assertTransition('closed', 'drafting');
+      } catch (error) {
+        expect((error as ClaimWorkflowError).code).toBe('INVALID_TRANSITION');
+        expect((error as ClaimWorkflowError).message).toBe(
+          'Cannot move claim from Closed to Drafting'
+        );
+      }
+    });
+
+    it('should throw when a required reason is missing or blank', () => {
+      expect(() => assertTransition('qa_review', 'drafting')).toThrow(
+        'A reason is required'
+      );
+
+      try {
+        assertTransition('drafting', 'cancelled', '   ');
+      } catch (error) {
+        expect((error as ClaimWorkflowError).code).toBe('REASON_REQUIRED');
+      }
+    });
+  });
+
+  describe('summarizeClaimStatuses', () => {
+    it('should tally statuses into dashboard groups', () => {
+      const stats = summarizeClaimStatuses([
+        'intake',
+        null,
+        'drafting',
+        'on_hold',
+        'delivered',
+        'closed',
+        'cancelled',
+      ]);
+
+      expect(stats).toMatchObject({
+        total: 7,
+        open: 3,
+        onHold: 1,
+        delivered: 1,
+        closed: 1,
+        cancelled: 1,
+      });
+      expect(stats.byStatus.intake).toBe(2);
+      expect(stats.byStatus.qa_review).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompensationError,
+  NO_DEPENDENTS,
+  calculateBackPay,
+  calculateMonthlyCompensation,
+  createCompensationEstimate,
+  describeDependents,
+  getRateTable,
+  parseCompensationParams,
+  serializeCompensationParams,
+} from '../compensation';
+
+const withSpouse = { ...NO_DEPENDENTS, spouse: true };
+
+describe('Compensation', () => {
+  describe('getRateTable', () => {
+    it('should switch tables on December 1', () => {
+      expect(getRateTable(new Date('2024-11-30T12:00:00Z')).year).toBe(2024);
+      expect(getRateTable(new Date('2024-12-01T00:00:00Z')).year).toBe(2025);
+    });
+
+    it('should throw before the oldest table', () => {
+      expect(() => getRateTable(new Date('2015-06-01T00:00:00Z'))).toThrow(
+        CompensationError
+      );
+    });
+  });
+
+  describe('calculateMonthlyCompensation', () => {
+    const day = new Date('2024-06-01T00:00:00Z');
+
+    it('should pay the veteran-alone rate', () => {
+      expect(calculateMonthlyCompensation(70, NO_DEPENDENTS, day)).toEqual({
+        rateYear: 2024,
+        base: 1716.28,
+        dependents: 0,
+        total: 1716.28,
+      });
+      expect(calculateMonthlyCompensation(0, NO_DEPENDENTS, day).total).toBe(0);
+    });
+
+    it('should add dependents at 30% and above', () => {
+      expect(calculateMonthlyCompensation(30, withSpouse, day).total).toBe(
+        586.31
+      );
+      expect(calculateMonthlyCompensation(100, withSpouse, day).total).toBe(
+        3946.25
+      );
+      expect(calculateMonthlyCompensation(20, withSpouse, day).total).toBe(
+        338.49
+      );
+    });
+
+    it('should pay a proportionate share for each dependent', () => {
+      const family = {
+        spouse: true,
+        spouseAidAndAttendance: true,
+        childrenUnder18: 2,
+        schoolChildren: 1,
+        parents: 1,
+      };
+
+      // 50% of each 2024 amount at 100%, rounded down to whole dollars
+      expect(calculateMonthlyCompensation(50, family, day)).toMatchObject({
+        base: 1075.16,
+        dependents: 104 + 95 + 69 + 51 + 167 + 83,
+      });
+    });
+
+    it('should reject ratings VA does not assign', () => {
+      expect(() => calculateMonthlyCompensation(45)).toThrow(CompensationError);
+    });
+  });
+
+  describe('calculateBackPay', () => {
+    it('should pay from the month after the effective date across COLAs', () => {
+      const backPay = calculateBackPay(
+        30,
+        NO_DEPENDENTS,
+        '2024-10-15',
+        new Date('2025-02-10T00:00:00Z')
+      );
+
+      expect(backPay).toEqual({
+        paymentStart: '2024-11-01',
+        months: 4,
+        periods: [
+          {
+            rateYear: 2024,
+            from: '2024-11',
+            to: '2024-11',
+            months: 1,
+            monthlyAmount: 524.31,
+            total: 524.31,
+          },
+          {
+            rateYear: 2025,
+            from: '2024-12',
+            to: '2025-02',
+            months: 3,
+            monthlyAmount: 537.42,
+            total: 1612.26,
+          },
+        ],
+        total: 2136.57,
+      });
+    });
+
+    it('should owe nothing before payments start', () => {
+      expect(
+        calculateBackPay(
+          50,
+          withSpouse,
+          '2025-03-10',
+          new Date('2025-03-20T00:00:00Z')
+        )
+      ).toMatchObject({ paymentStart: '2025-04-01', months: 0, total: 0 });
+    });
+
+    it('should reject invalid and unsupported dates', () => {
+      expect(() => calculateBackPay(30, NO_DEPENDENTS, '2025-13-01')).toThrow(
+        expect.objectContaining({ code: 'INVALID_DATE' })
+      );
+      expect(() => calculateBackPay(30, NO_DEPENDENTS, '2012-01-01')).toThrow(
+        expect.objectContaining({ code: 'RATES_UNAVAILABLE' })
+      );
+    });
+  });
+
+  describe('estimates', () => {
+    it('should round-trip estimator inputs through the query string', () => {
+      const input = {
+        rating: 70,
+        dependents: { ...withSpouse, childrenUnder18: 2, parents: 1 },
+        effectiveDate: '2024-10-15',
+      };
+      const query = serializeCompensationParams(input);
+
+      expect(query).toBe(
+        'rating=70&spouse=1&children=2&parents=1&effective=2024-10-15'
+      );
+      expect(parseCompensationParams(new URLSearchParams(query))).toEqual(
+        input
+      );
+      expect(
+        parseCompensationParams(new URLSearchParams('rating=35'))
+      ).toBeNull();
+    });
+
+    it('should estimate monthly compensation and back pay', () => {
+      const estimate = createCompensationEstimate(
+        {
+          rating: 30,
+          dependents: NO_DEPENDENTS,
+          effectiveDate: '2024-10-15',
+        },
+        new Date('2025-02-10T00:00:00Z')
+      );
+
+      expect(estimate).toMatchObject({
+        rateYear: 2025,
+        monthlyAmount: 537.42,
+        backPay: 2136.57,
+      });
+    });
+
+    it('should describe dependents', () => {
+      expect(describeDependents(NO_DEPENDENTS)).toBe('No dependents');
+      expect(
+        describeDependents({
+          ...withSpouse,
+          childrenUnder18: 1,
+          schoolChildren: 2,
+        })
+      ).toBe('Spouse, 1 child under 18, 2 children in school');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEvidenceChecklist,
+  getSecondaryConditions,
+  searchConditions,
+} from '../conditions';
+import type { Condition } from '../supabase';
+
+const condition = (
+  name: string,
+  fields: Partial<Condition> = {}
+): Condition => ({
+  id: name,
+  name,
+  diagnostic_code: '0000',
+  body_system: 'musculoskeletal',
+  aliases: [],
+  secondary_conditions: [],
+  required_evidence: [],
+  active: true,
+  created_at: null,
+  updated_at: null,
+  ...fields,
+});
+
+const catalog = [
+  condition('Tinnitus', {
+    diagnostic_code: '6260',
+    body_system: 'ear',
+    aliases: ['Ringing in ears'],
+    required_evidence: ['service_record', 'in_service_event'],
+  }),
+  condition('Post-traumatic stress disorder (PTSD)', {
+    diagnostic_code: '9411',
+    body_system: 'mental',
+    aliases: ['PTSD'],
+    secondary_conditions: ['Obstructive sleep apnea', 'Hypertension'],
+    required_evidence: ['service_record', 'stressor', 'current_diagnosis'],
+  }),
+  condition('Obstructive sleep apnea', {
+    diagnostic_code: '6847',
+    body_system: 'respiratory',
+    aliases: ['Sleep apnea'],
+  }),
+  condition('Lumbosacral strain', {
+    diagnostic_code: '5237',
+    aliases: ['Lower back pain'],
+  }),
+  condition('Cervical strain', { diagnostic_code: '5237', active: false }),
+];
+
+const names = (conditions: Condition[]) =>
+  conditions.map(condition => condition.name);
+
+describe('Conditions', () => {
+  describe('searchConditions', () => {
+    it('should match names, aliases and diagnostic codes', () => {
+      expect(names(searchConditions(catalog, 'tinn'))).toEqual(['Tinnitus']);
+      expect(names(searchConditions(catalog, 'ptsd'))).toEqual([
+        'Post-traumatic stress disorder (PTSD)',
+      ]);
+      expect(names(searchConditions(catalog, 'back pain'))).toEqual([
+        'Lumbosacral strain',
+      ]);
+      expect(names(searchConditions(catalog, '6847'))).toEqual([
+        'Obstructive sleep apnea',
+      ]);
+    });
+
+    it('should rank name matches ahead of alias matches', () => {
+      expect(names(searchConditions(catalog, 's'))).toEqual([
+        'Lumbosacral strain',
+        'Obstructive sleep apnea',
+        'Post-traumatic stress disorder (PTSD)',
+        'Tinnitus',
+      ]);
+    });
+
+    it('should skip inactive conditions and empty searches', () => {
+      expect(searchConditions(catalog, '5237')).toHaveLength(1);
+      expect(searchConditions(catalog, '  ')).toEqual([]);
+      expect(searchConditions(catalog, 's', 2)).toHaveLength(2);
+    });
+  });
+
+  it('should resolve secondary conditions in the catalog', () => {
+    expect(names(getSecondaryConditions(catalog[1]!, catalog))).toEqual([
+      'Obstructive sleep apnea',
+    ]);
+  });
+
+  describe('buildEvidenceChecklist', () => {
+    const claimed = [catalog[0]!, catalog[1]!];
+
+    it('should list each evidence item once with the conditions needing it', () => {
+      const checklist = buildEvidenceChecklist(claimed, []);
+
+      expect(checklist.map(item => item.key)).toEqual([
+        'service_record',
+        'in_service_event',
+        'stressor',
+        'current_diagnosis',
+      ]);
+      expect(checklist[0]).toMatchObject({
+        conditions: ['Tinnitus', 'Post-traumatic stress disorder (PTSD)'],
+        documentCount: 0,
+        complete: false,
+      });
+    });
+
+    it('should mark items covered by uploaded documents', () => {
+      const checklist = buildEvidenceChecklist(claimed, [
+        { category: 'dd214', scan_status: 'clean' },
+        { category: 'private_records', scan_status: 'clean' },
+        { category: 'private_records', scan_status: 'clean' },
+      ]);
+
+      expect(
+        checklist.filter(item => !item.complete).map(item => item.key)
+      ).toEqual(['in_service_event', 'stressor']);
+      expect(
+        checklist.find(item => item.key === 'current_diagnosis')
+      ).toMatchObject({ documentCount: 2, complete: true });
+    });
+
+    it('should not count documents still in quarantine', () => {
+      const checklist = buildEvidenceChecklist(claimed, [
+        { category: 'dd214', scan_status: 'pending' },
+        { category: 'private_records', scan_status: 'infected' },
+        { category: 'private_records', scan_status: 'too_large' },
+      ]);
+
+      expect(checklist.every(item => !item.complete)).toBe(true);
+    });
+
+    it('should ignore evidence keys it does not know', () => {
+      expect(
+        buildEvidenceChecklist(
+          [condition('Scars', { required_evidence: ['photos'] })],
+          []
+        )
+      ).toEqual([]);
+    });
+  });
+});
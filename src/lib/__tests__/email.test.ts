@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  MAX_EMAIL_ATTEMPTS,
+  dispatchPendingEmails,
+  getAttemptUpdate,
+  getNextAttemptAt,
+  sendEmail,
+} from '../email';
+import { renderEmail } from '../email-templates';
+import { emailHelpers } from '../database-helpers';
+import type { MailTransport } from '../mailer';
+import type { EmailLogEntry } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  emailHelpers: {
+    enqueue: vi.fn(),
+    getDue: vi.fn(),
+    lease: vi.fn(),
+    recordAttempt: vi.fn(),
+  },
+}));
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const createEntry = (overrides: Partial<EmailLogEntry> = {}): EmailLogEntry =>
+  ({
+    id: 'email-1',
+    template: 'records_requested',
+    to_email: 'veteran@example.com',
+    data: {
+      name: 'Maria Lopez',
+      claim_number: 'NX-2026-0001',
+      condition: 'Tinnitus',
+      from_status: 'intake',
+      to_status: 'records_requested',
+      reason: null,
+    },
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now.toISOString(),
+    ...overrides,
+  }) as EmailLogEntry;
+
+const createTransport = (
+  send: MailTransport['send'] = async () => ({ messageId: 'msg-1' })
+): MailTransport => ({ name: 'test', send: vi.fn(send) });
+
+describe('Transactional Email', () => {
+  beforeEach(() => {
+    vi.mocked(emailHelpers.enqueue).mockReset();
+    vi.mocked(emailHelpers.getDue).mockReset();
+    vi.mocked(emailHelpers.lease).mockReset();
+    vi.mocked(emailHelpers.recordAttempt).mockReset();
+    vi.mocked(emailHelpers.recordAttempt).mockImplementation(
+      async (id, update) =>
+        ({ ...createEntry({ id }), ...update }) as EmailLogEntry
+    );
+  });
+
+  describe('renderEmail', () => {
+    it('should render HTML and text from the same content', async () => {
+      const email = await renderEmail(
+        'records_requested',
+        createEntry().data as never,
+        'https://app.example.com/'
+      );
+
+      expect(email.subject).toBe('Records needed for case NX-2026-0001');
+      expect(email.html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(email.html).toContain('href="https://app.example.com/dashboard"');
+      expect(email.text).toContain('Hi Maria Lopez,');
+      expect(email.text).toContain(
+        'Upload Records: https://app.example.com/dashboard'
+      );
+    });
+
+    it('should escape template variables in HTML', async () => {
+      const email = await renderEmail('lead_acknowledgment', {
+        name: '<b>Maria</b>',
+        claim_type: 'ime',
+        urgency: 'standard',
+      });
+
+      expect(email.html).toContain('&lt;b&gt;Maria&lt;/b&gt;');
+      expect(email.html).not.toContain('<b>Maria</b>');
+    });
+  });
+
+  describe('retries', () => {
+    it('should back off and give up after the last attempt', () => {
+      expect(getNextAttemptAt(1, now)).toEqual(
+        new Date('2026-10-19T12:01:00Z')
+      );
+      expect(getNextAttemptAt(MAX_EMAIL_ATTEMPTS - 1, now)).toEqual(
+        new Date('2026-10-19T14:00:00Z')
+      );
+      expect(getNextAttemptAt(MAX_EMAIL_ATTEMPTS, now)).toBeNull();
+    });
+
+    it('should mark a message failed once attempts run out', () => {
+      const failure = {
+        sent: false,
+        error: 'timeout',
+        transport: 'smtp',
+      } as const;
+
+      expect(getAttemptUpdate({ attempts: 0 }, failure, now)).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        last_error: 'timeout',
+      });
+      expect(
+        getAttemptUpdate({ attempts: MAX_EMAIL_ATTEMPTS - 1 }, failure, now)
+      ).toMatchObject({
+        status: 'failed',
+        attempts: MAX_EMAIL_ATTEMPTS,
+        next_attempt_at: null,
+      });
+    });
+  });
+
+  describe('sendEmail', () => {
+    it('should queue the message and send it straight away', async () => {
+      vi.mocked(emailHelpers.enqueue).mockImplementation(async entry =>
+        createEntry(entry as Partial<EmailLogEntry>)
+      );
+      const transport = createTransport();
+
+      const result = await sendEmail(
+        'lead_acknowledgment',
+        'veteran@example.com',
+        { name: 'Maria', claim_type: 'ime', urgency: 'standard' },
+        { leadId: 'lead-1' },
+        transport
+      );
+
+      expect(emailHelpers.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          template: 'lead_acknowledgment',
+          lead_id: 'lead-1',
+        })
+      );
+      expect(transport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'veteran@example.com',
+          subject: 'We received your inquiry',
+        })
+      );
+      expect(result).toMatchObject({ status: 'sent', message_id: 'msg-1' });
+    });
+
+    it('should leave the message queued when delivery fails', async () => {
+      vi.mocked(emailHelpers.enqueue).mockResolvedValue(createEntry());
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await sendEmail(
+        'records_requested',
+        'veteran@example.com',
+        createEntry().data as never,
+        {},
+        createTransport(async () => {
+          throw new Error('Connection refused');
+        })
+      );
+
+      expect(result).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        last_error: 'Connection refused',
+      });
+      warn.mockRestore();
+    });
+  });
+
+  describe('dispatchPendingEmails', () => {
+    it('should skip messages another dispatcher has taken', async () => {
+      vi.mocked(emailHelpers.getDue).mockResolvedValue([
+        createEntry({ id: 'email-1' }),
+        createEntry({ id: 'email-2' }),
+      ]);
+      vi.mocked(emailHelpers.lease).mockImplementation(async entry =>
+        entry.id === 'email-1' ? entry : null
+      );
+      const transport = createTransport();
+
+      const results = await dispatchPendingEmails(transport, 50, now);
+
+      expect(results.map(entry => entry.id)).toEqual(['email-1']);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing without a transport', async () => {
+      expect(await dispatchPendingEmails(null)).toEqual([]);
+      expect(emailHelpers.getDue).not.toHaveBeenCalled();
+    });
+  });
+});
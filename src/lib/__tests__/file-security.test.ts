@@ -0,0 +1,260 @@
+import { deflateSync } from 'node:zlib';
+import { describe, it, expect } from 'vitest';
+import {
+  DOCUMENT_UPLOAD_CONFIG,
+  IMAGE_UPLOAD_CONFIG,
+  createPdfActiveContentScanner,
+  detectFileSignature,
+  findPdfActiveContent,
+  inspectFile,
+  stripImageMetadata,
+  validateFile,
+} from '../file-security';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(
+    parts.flatMap(part =>
+      typeof part === 'string'
+        ? Array.from(part, char => char.charCodeAt(0))
+        : part
+    )
+  );
+
+const createFile = (content: Uint8Array<ArrayBuffer>, name: string, type: string) =>
+  new File([content], name, { type });
+
+const PDF = bytes('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF');
+
+// PDF whose objects are packed into a Flate-compressed object stream
+const objectStreamPdf = (objects: string, trailer = '') => {
+  const compressed = deflateSync(Buffer.from(objects, 'latin1'));
+
+  return bytes(
+    '%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode ',
+    `/Length ${compressed.length} >>\nstream\n`,
+    Array.from(compressed),
+    `\nendstream\nendobj\n${trailer}\n%%EOF`
+  );
+};
+
+// Minimal JPEG: SOI, APP0 (JFIF), APP1 (Exif with GPS), SOS, data, EOI
+const JPEG_WITH_EXIF = bytes(
+  [0xff, 0xd8],
+  [0xff, 0xe0, 0x00, 0x07],
+  'JFIF\0',
+  [0xff, 0xe1, 0x00, 0x0c],
+  'Exif\0\0GPS!',
+  [0xff, 0xda, 0x00, 0x02, 0x12, 0x34],
+  [0xff, 0xd9]
+);
+
+const pngChunk = (type: string, data: string) =>
+  bytes([0, 0, 0, data.length], type, data, [0, 0, 0, 0]);
+
+const PNG_WITH_TEXT = new Uint8Array([
+  ...bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  ...pngChunk('IHDR', 'header-bytes!'),
+  ...pngChunk('tEXt', 'GPS=38.8,-77.0'),
+  ...pngChunk('IDAT', 'pixels'),
+  ...pngChunk('IEND', ''),
+]);
+
+describe('File Security', () => {
+  describe('validateFile', () => {
+    it('should no longer accept SVG images', () => {
+      const result = validateFile(
+        createFile(
+          bytes('<svg onload="alert(1)"/>'),
+          'logo.svg',
+          'image/svg+xml'
+        ),
+        IMAGE_UPLOAD_CONFIG
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues.map(issue => issue.code)).toContain(
+        'MIME_NOT_ALLOWED'
+      );
+    });
+
+    it('should report structured issues alongside messages', () => {
+      const result = validateFile(
+        createFile(new Uint8Array(), 'empty.pdf', 'application/pdf'),
+        DOCUMENT_UPLOAD_CONFIG
+      );
+
+      expect(result.issues).toEqual([
+        { code: 'EMPTY_FILE', message: 'File is empty' },
+      ]);
+      expect(result.errors).toEqual(['File is empty']);
+    });
+  });
+
+  describe('detectFileSignature', () => {
+    it('should identify common formats from their magic bytes', () => {
+      expect(detectFileSignature(PDF)).toBe('pdf');
+      expect(detectFileSignature(JPEG_WITH_EXIF)).toBe('jpeg');
+      expect(detectFileSignature(PNG_WITH_TEXT)).toBe('png');
+      expect(detectFileSignature(bytes('PK', [0x03, 0x04]))).toBe('zip');
+      expect(detectFileSignature(bytes('Treatment notes\n'))).toBe('text');
+    });
+
+    it('should flag executables', () => {
+      expect(detectFileSignature(bytes('MZ', [0x90, 0x00]))).toBe('executable');
+      expect(detectFileSignature(bytes([0x7f], 'ELF'))).toBe('executable');
+      expect(detectFileSignature(bytes('#!/bin/sh\n'))).toBe('executable');
+    });
+  });
+
+  describe('findPdfActiveContent', () => {
+    it('should find JavaScript, launch and open actions', async () => {
+      const pdf = bytes(
+        '%PDF-1.7\n<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>\n',
+        '<< /S /Launch /F (cmd.exe) >>'
+      );
+
+      expect(await findPdfActiveContent(pdf)).toEqual({
+        markers: ['/JavaScript', '/JS', '/Launch', '/OpenAction'],
+        inspected: true,
+      });
+    });
+
+    it('should decode hex-escaped names', async () => {
+      const report = await findPdfActiveContent(
+        bytes('%PDF-1.4 /J#61vaScript')
+      );
+
+      expect(report.markers).toEqual(['/JavaScript']);
+    });
+
+    it('should allow open actions that only set the initial view', async () => {
+      const report = await findPdfActiveContent(
+        bytes('%PDF-1.7\n<< /Type /Catalog /OpenAction [3 0 R /Fit] >>')
+      );
+
+      expect(report.markers).toEqual([]);
+    });
+
+    it('should inflate compressed object streams', async () => {
+      const report = await findPdfActiveContent(
+        objectStreamPdf('<< /S /JavaScript /JS (app.alert(1)) >>')
+      );
+
+      expect(report).toEqual({
+        markers: ['/JavaScript', '/JS'],
+        inspected: true,
+      });
+    });
+
+    it('should pass clean PDFs', async () => {
+      expect(await findPdfActiveContent(PDF)).toEqual({
+        markers: [],
+        inspected: true,
+      });
+      expect(
+        await findPdfActiveContent(objectStreamPdf('<< /Type /Page >>'))
+      ).toEqual({ markers: [], inspected: true });
+    });
+
+    it('should report object streams it cannot inflate', async () => {
+      const report = await findPdfActiveContent(
+        bytes(
+          '%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /Filter /FlateDecode >>\nstream\n',
+          'not deflate data',
+          '\nendstream\nendobj\n'
+        )
+      );
+
+      expect(report.inspected).toBe(false);
+    });
+
+    it('should find markers split across writes', async () => {
+      const pdf = objectStreamPdf(
+        '<< /S /Launch /F (cmd.exe) >>',
+        '/J#61vaScript'
+      );
+      const scanner = createPdfActiveContentScanner();
+      for (let i = 0; i < pdf.length; i += 3) {
+        await scanner.write(pdf.subarray(i, i + 3));
+      }
+
+      expect(await scanner.end()).toEqual({
+        markers: ['/JavaScript', '/Launch'],
+        inspected: true,
+      });
+    });
+  });
+
+  describe('stripImageMetadata', () => {
+    it('should remove EXIF segments from JPEGs', () => {
+      const stripped = stripImageMetadata(JPEG_WITH_EXIF);
+      const text = String.fromCharCode(...stripped);
+
+      expect(text).not.toContain('Exif');
+      expect(text).toContain('JFIF');
+      expect(stripped.slice(-2)).toEqual(new Uint8Array([0xff, 0xd9]));
+    });
+
+    it('should remove text chunks from PNGs', () => {
+      const text = String.fromCharCode(...stripImageMetadata(PNG_WITH_TEXT));
+
+      expect(text).not.toContain('GPS');
+      expect(text).toContain('IDAT');
+      expect(text).toContain('IEND');
+    });
+  });
+
+  describe('inspectFile', () => {
+    it('should reject an executable renamed to PDF', async () => {
+      const result = await inspectFile(
+        createFile(
+          bytes('MZ', [0x90, 0x00, 0x03]),
+          'dd214.pdf',
+          'application/pdf'
+        ),
+        DOCUMENT_UPLOAD_CONFIG
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.signature).toBe('executable');
+      expect(result.issues.map(issue => issue.code)).toEqual([
+        'EXECUTABLE_CONTENT',
+      ]);
+    });
+
+    it('should reject content that does not match the declared type', async () => {
+      const result = await inspectFile(
+        createFile(PNG_WITH_TEXT, 'records.pdf', 'application/pdf'),
+        DOCUMENT_UPLOAD_CONFIG
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues[0]?.code).toBe('SIGNATURE_MISMATCH');
+    });
+
+    it('should reject PDFs with embedded JavaScript', async () => {
+      const result = await inspectFile(
+        createFile(
+          bytes('%PDF-1.7\n<< /OpenAction << /S /JavaScript >> >>'),
+          'str.pdf',
+          'application/pdf'
+        ),
+        DOCUMENT_UPLOAD_CONFIG
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues[0]?.code).toBe('PDF_ACTIVE_CONTENT');
+    });
+
+    it('should return sanitized bytes for clean images', async () => {
+      const result = await inspectFile(
+        createFile(JPEG_WITH_EXIF, 'scan.jpg', 'image/jpeg'),
+        IMAGE_UPLOAD_CONFIG
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.sanitized).toBeDefined();
+      expect(String.fromCharCode(...result.sanitized!)).not.toContain('Exif');
+    });
+  });
+});
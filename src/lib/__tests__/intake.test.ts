@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { intakeToClaimInsert } from '../intake';
+import {
+  intakeRatingSchema,
+  intakeServiceHistorySchema,
+  intakeServiceSelectionSchema,
+  veteranIntakeSchema,
+} from '../validations';
+
+const completedIntake = {
+  firstName: 'Maria',
+  lastName: 'Lopez',
+  email: 'maria@example.com',
+  phone: '',
+  state: 'TX',
+  branch: 'army',
+  serviceStart: '2004-06-01',
+  serviceEnd: '2012-05-31',
+  conditions: [
+    { name: 'Tinnitus', description: 'Artillery noise exposure' },
+    { name: 'Lumbar strain' },
+  ],
+  hasVaRating: true,
+  currentRating: 30,
+  evidence: ['service_treatment_records', 'diagnosis'],
+  claimType: 'comprehensive_letter',
+  urgency: 'expedited',
+  consentToContact: true,
+  authorizesRecordReview: true,
+  signature: 'Maria Lopez',
+};
+
+describe('Veteran Intake', () => {
+  describe('step validation', () => {
+    it('should require service to end after it starts', () => {
+      expect(
+        intakeServiceHistorySchema.safeParse({
+          branch: 'navy',
+          serviceStart: '2010-01-01',
+          serviceEnd: '',
+        }).success
+      ).toBe(true);
+      expect(
+        intakeServiceHistorySchema.safeParse({
+          branch: 'navy',
+          serviceStart: '2010-01-01',
+          serviceEnd: '2009-12-31',
+        }).success
+      ).toBe(false);
+    });
+
+    it('should require a combined rating only when the veteran has one', () => {
+      expect(intakeRatingSchema.safeParse({ hasVaRating: false }).success).toBe(
+        true
+      );
+      expect(intakeRatingSchema.safeParse({ hasVaRating: true }).success).toBe(
+        false
+      );
+      expect(
+        intakeRatingSchema.safeParse({ hasVaRating: true, currentRating: 35 })
+          .success
+      ).toBe(false);
+    });
+
+    it('should require a description for other services', () => {
+      expect(
+        intakeServiceSelectionSchema.safeParse({ claimType: 'other' }).success
+      ).toBe(false);
+      expect(
+        intakeServiceSelectionSchema.safeParse({
+          claimType: 'other',
+          otherService: 'Records review',
+        }).success
+      ).toBe(true);
+    });
+
+    it('should require consent before submission', () => {
+      expect(veteranIntakeSchema.safeParse(completedIntake).success).toBe(true);
+      expect(
+        veteranIntakeSchema.safeParse({
+          ...completedIntake,
+          authorizesRecordReview: false,
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('conversion', () => {
+    it('should open a claim carrying the intake details', () => {
+      const intake = veteranIntakeSchema.parse(completedIntake);
+      const insert = intakeToClaimInsert('user-1', intake);
+
+      expect(insert).toMatchObject({
+        user_id: 'user-1',
+        claim_type: 'comprehensive_letter',
+        urgency: 'expedited',
+        priority: 3,
+        condition: 'Tinnitus, Lumbar strain',
+        title: 'Comprehensive Nexus Letter: Tinnitus, Lumbar strain',
+      });
+      expect(insert.description).toContain(
+        'Tinnitus: Artillery noise exposure'
+      );
+      expect(insert.metadata).toMatchObject({
+        intake: {
+          branch: 'army',
+          service_end: '2012-05-31',
+          current_rating: 30,
+          evidence: ['service_treatment_records', 'diagnosis'],
+        },
+      });
+      expect(
+        (insert.metadata as { intake: Record<string, unknown> }).intake
+      ).not.toHaveProperty('phone');
+    });
+
+    it('should flag cases whose conditions are presumptive', () => {
+      const intake = veteranIntakeSchema.parse({
+        ...completedIntake,
+        deployments: [
+          {
+            location: 'Balad, Iraq',
+            exposure: 'iraq',
+            start: '2005-01-01',
+            end: '2005-12-31',
+          },
+          { location: 'Germany', start: '2006-01-01', end: '2007-12-31' },
+        ],
+        conditions: [{ name: 'Chronic sinusitis' }],
+      });
+      const insert = intakeToClaimInsert('user-1', intake);
+
+      expect(insert.presumptive_flag).toBe('nexus_unnecessary');
+      expect(insert.metadata).toMatchObject({
+        intake: {
+          deployments: [
+            {
+              location: 'Balad, Iraq',
+              exposure: 'iraq',
+              start: '2005-01-01',
+              end: '2005-12-31',
+            },
+            {
+              location: 'Germany',
+              exposure: null,
+              start: '2006-01-01',
+              end: '2007-12-31',
+            },
+          ],
+          presumptive: {
+            exposures: [
+              { program: 'burn_pits', days: 365 },
+              { program: 'gulf_war', days: 365 },
+            ],
+            conditions: [
+              {
+                condition: 'Chronic sinusitis',
+                basis: 'presumptive',
+                program: 'burn_pits',
+                presumptive_condition: 'Chronic sinusitis',
+              },
+            ],
+          },
+        },
+      });
+      expect(
+        intakeToClaimInsert(
+          'user-1',
+          veteranIntakeSchema.parse(completedIntake)
+        ).presumptive_flag
+      ).toBeNull();
+    });
+
+    it('should keep a compensation estimate with the case', () => {
+      const intake = veteranIntakeSchema.parse({
+        ...completedIntake,
+        compensationEstimate: {
+          rating: 70,
+          dependents: {
+            spouse: true,
+            spouseAidAndAttendance: false,
+            childrenUnder18: 1,
+            schoolChildren: 0,
+            parents: 0,
+          },
+          rateYear: 2026,
+          monthlyAmount: 2057.45,
+        },
+      });
+      const insert = intakeToClaimInsert('user-1', intake);
+
+      expect(insert.metadata).toMatchObject({
+        intake: {
+          compensation_estimate: {
+            rating: 70,
+            monthly_amount: 2057.45,
+            back_pay: null,
+            dependents: { spouse: true, children_under_18: 1 },
+          },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  JobError,
+  enqueueDueSchedules,
+  getFailureUpdate,
+  getPreviousCronTime,
+  getRetryDelaySeconds,
+  parseCron,
+  runWorker,
+  type JobHandler,
+} from '../job-queue';
+import { jobHelpers } from '../database-helpers';
+import type { Job, JobUpdate } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  jobHelpers: {
+    enqueue: vi.fn(),
+    claim: vi.fn(),
+    complete: vi.fn(),
+    fail: vi.fn(),
+  },
+}));
+
+// Monday, Oct 19 2026
+const now = new Date('2026-10-19T14:07:30Z');
+
+const createJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  type: 'email.dispatch',
+  payload: {},
+  status: 'running',
+  priority: 0,
+  run_at: '2026-10-19T14:00:00Z',
+  attempts: 1,
+  max_attempts: 5,
+  unique_key: null,
+  locked_by: 'worker-1',
+  locked_until: '2026-10-19T14:12:30Z',
+  last_error: null,
+  result: null,
+  completed_at: null,
+  created_at: '2026-10-19T14:00:00Z',
+  updated_at: '2026-10-19T14:00:00Z',
+  ...overrides,
+});
+
+describe('Job Queue', () => {
+  describe('getFailureUpdate', () => {
+    it('should back off exponentially up to an hour', () => {
+      expect([1, 2, 3, 4, 8, 20].map(getRetryDelaySeconds)).toEqual([
+        30, 60, 120, 240, 3600, 3600,
+      ]);
+    });
+
+    it('should retry a failed job later', () => {
+      expect(
+        getFailureUpdate(createJob({ attempts: 2 }), new Error('Timeout'), now)
+      ).toEqual({
+        status: 'pending',
+        run_at: '2026-10-19T14:08:30.000Z',
+        locked_by: null,
+        locked_until: null,
+        last_error: 'Timeout',
+      });
+    });
+
+    it('should dead-letter a job that has run out of attempts', () => {
+      expect(
+        getFailureUpdate(createJob({ attempts: 5 }), new Error('Timeout'), now)
+      ).toMatchObject({ status: 'dead', last_error: 'Timeout' });
+    });
+
+    it('should not retry job errors', () => {
+      expect(
+        getFailureUpdate(
+          createJob(),
+          new JobError('Bad payload', 'INVALID_PAYLOAD'),
+          now
+        )
+      ).toMatchObject({ status: 'dead' });
+    });
+  });
+
+  describe('cron schedules', () => {
+    it('should parse lists, ranges and steps', () => {
+      const cron = parseCron('*/15 9-17 * * 1-5,7');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect(cron.hours.size).toBe(9);
+      expect([...cron.weekdays].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(() => parseCron('61 * * * *')).toThrow(JobError);
+      expect(() => parseCron('* * * *')).toThrow(JobError);
+    });
+
+    it('should find the latest tick at or before now', () => {
+      const tick = (cron: string) =>
+        getPreviousCronTime(cron, now)?.toISOString();
+
+      expect(tick('* * * * *')).toBe('2026-10-19T14:07:00.000Z');
+      expect(tick('0 * * * *')).toBe('2026-10-19T14:00:00.000Z');
+      expect(tick('0 13 * * 1')).toBe('2026-10-19T13:00:00.000Z');
+      expect(tick('0 15 * * 1')).toBe('2026-10-12T15:00:00.000Z');
+      expect(tick('0 2 * * 0')).toBe('2026-10-18T02:00:00.000Z');
+      // Either the 1st of the month or a Friday
+      expect(tick('0 0 1 * 5')).toBe('2026-10-16T00:00:00.000Z');
+      expect(getPreviousCronTime('0 0 30 2 *', now)).toBeNull();
+    });
+
+    it('should enqueue each tick once', async () => {
+      vi.mocked(jobHelpers.enqueue).mockReset();
+      vi.mocked(jobHelpers.enqueue)
+        .mockResolvedValueOnce(createJob({ status: 'pending' }))
+        .mockResolvedValueOnce(null);
+
+      const jobs = await enqueueDueSchedules(
+        [
+          { type: 'email.dispatch', cron: '* * * * *' },
+          { type: 'digest.weekly', cron: '0 13 * * 1' },
+        ],
+        now
+      );
+
+      expect(jobs).toHaveLength(1);
+      expect(jobHelpers.enqueue).toHaveBeenCalledWith({
+        type: 'digest.weekly',
+        payload: {},
+        run_at: '2026-10-19T13:00:00.000Z',
+        unique_key: 'schedule:digest.weekly@2026-10-19T13:00:00.000Z',
+      });
+    });
+  });
+
+  describe('runWorker', () => {
+    beforeEach(() => {
+      vi.mocked(jobHelpers.claim).mockReset();
+      vi.mocked(jobHelpers.complete).mockReset();
+      vi.mocked(jobHelpers.fail).mockReset();
+      vi.mocked(jobHelpers.complete).mockImplementation(async (id, _, result) =>
+        createJob({ id, status: 'completed', result })
+      );
+      vi.mocked(jobHelpers.fail).mockImplementation(
+        async (id, _, update: JobUpdate) =>
+          createJob({ id, status: update.status ?? 'pending' })
+      );
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should run due jobs until the queue is empty', async () => {
+      vi.mocked(jobHelpers.claim)
+        .mockResolvedValueOnce([
+          createJob({ id: 'job-1' }),
+          createJob({ id: 'job-2', type: 'document.scan' }),
+          createJob({ id: 'job-3', type: 'unknown' }),
+        ])
+        .mockResolvedValueOnce([]);
+
+      const handlers: Record<string, JobHandler> = {
+        'email.dispatch': vi.fn().mockResolvedValue({ sent: 2 }),
+        'document.scan': vi.fn().mockRejectedValue(new Error('clamd down')),
+      };
+
+      const result = await runWorker({ handlers, workerId: 'worker-1' });
+
+      expect(result).toEqual({
+        scheduled: 0,
+        processed: 3,
+        completed: 1,
+        retried: 1,
+        dead: 1,
+      });
+      expect(jobHelpers.complete).toHaveBeenCalledWith('job-1', 'worker-1', {
+        sent: 2,
+      });
+      expect(jobHelpers.fail).toHaveBeenCalledWith(
+        'job-2',
+        'worker-1',
+        expect.objectContaining({ status: 'pending', last_error: 'clamd down' })
+      );
+      expect(jobHelpers.fail).toHaveBeenCalledWith(
+        'job-3',
+        'worker-1',
+        expect.objectContaining({ status: 'dead' })
+      );
+    });
+
+    it('should stop claiming jobs after the deadline', async () => {
+      const result = await runWorker({
+        handlers: {},
+        deadline: new Date(Date.now() - 1000),
+      });
+
+      expect(result.processed).toBe(0);
+      expect(jobHelpers.claim).not.toHaveBeenCalled();
+    });
+  });
+});
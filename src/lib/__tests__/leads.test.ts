@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LeadError,
+  assertAccountLinkable,
+  assertLeadTransition,
+  canConvertLead,
+  contactSubmissionToLead,
+  leadToClaimInsert,
+} from '../leads';
+import { leadStatusUpdateSchema } from '../validations';
+import type { Lead } from '../supabase';
+
+const lead: Lead = {
+  id: 'lead-1',
+  first_name: 'James',
+  last_name: 'Carter',
+  email: 'james@example.com',
+  phone: null,
+  claim_type: 'ime',
+  other_service: null,
+  condition: null,
+  message: null,
+  urgency: 'urgent',
+  status: 'contacted',
+  assigned_to: null,
+  contacted_at: '2026-10-01T12:00:00Z',
+  converted_user_id: null,
+  converted_claim_id: null,
+  converted_at: null,
+  created_at: '2026-10-01T10:00:00Z',
+  updated_at: '2026-10-01T12:00:00Z',
+};
+
+describe('Leads', () => {
+  describe('contactSubmissionToLead', () => {
+    it('should map the service label to a claim type', () => {
+      const insert = contactSubmissionToLead({
+        firstName: ' James ',
+        lastName: 'Carter',
+        email: 'James@Example.com',
+        phone: '',
+        service: 'Independent Medical Examination (IME)',
+        condition: 'PTSD',
+        urgency: 'standard',
+      });
+
+      expect(insert).toMatchObject({
+        first_name: 'James',
+        email: 'james@example.com',
+        phone: null,
+        claim_type: 'ime',
+        condition: 'PTSD',
+        message: null,
+      });
+    });
+
+    it('should fall back to other for unknown services', () => {
+      const insert = contactSubmissionToLead({
+        firstName: 'James',
+        lastName: 'Carter',
+        email: 'james@example.com',
+        service: 'Something else',
+        urgency: 'standard',
+      });
+
+      expect(insert.claim_type).toBe('other');
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should reject hand-set conversions and changes after conversion', () => {
+      expect(() => assertLeadTransition(lead, 'spam')).not.toThrow();
+      expect(() => assertLeadTransition(lead, 'converted')).toThrow(LeadError);
+      expect(() =>
+        assertLeadTransition({ ...lead, status: 'converted' }, 'new')
+      ).toThrow(LeadError);
+    });
+
+    it('should only link to an existing veteran account staff confirmed', () => {
+      const veteran = { id: 'user-1', role: 'user' as const };
+
+      expect(() => assertAccountLinkable(lead, null)).not.toThrow();
+      expect(() =>
+        assertAccountLinkable(lead, veteran, 'user-1')
+      ).not.toThrow();
+      expect(() => assertAccountLinkable(lead, veteran)).toThrow(
+        expect.objectContaining({ code: 'ACCOUNT_EXISTS', userId: 'user-1' })
+      );
+      expect(() => assertAccountLinkable(lead, veteran, 'user-2')).toThrow(
+        expect.objectContaining({ code: 'ACCOUNT_EXISTS' })
+      );
+      expect(() =>
+        assertAccountLinkable(lead, { id: 'user-1', role: 'admin' }, 'user-1')
+      ).toThrow(expect.objectContaining({ code: 'ACCOUNT_NOT_VETERAN' }));
+      expect(() => assertAccountLinkable(lead, null, 'user-1')).toThrow(
+        LeadError
+      );
+    });
+
+    it('should only convert leads that are new or contacted', () => {
+      expect(canConvertLead(lead)).toBe(true);
+      expect(canConvertLead({ status: 'spam' })).toBe(false);
+      expect(canConvertLead({ status: 'converted' })).toBe(false);
+    });
+
+    it('should not accept converted as a status update', () => {
+      expect(
+        leadStatusUpdateSchema.safeParse({ status: 'contacted' }).success
+      ).toBe(true);
+      expect(
+        leadStatusUpdateSchema.safeParse({ status: 'converted' }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('leadToClaimInsert', () => {
+    it('should open a claim linked back to the lead', () => {
+      const insert = leadToClaimInsert('user-1', lead);
+
+      expect(insert).toMatchObject({
+        user_id: 'user-1',
+        claim_type: 'ime',
+        urgency: 'urgent',
+        condition: 'To be confirmed',
+        title: 'Independent Medical Examination (IME): To be confirmed',
+      });
+      expect(insert.metadata).toMatchObject({ lead_id: 'lead-1' });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMergeFields,
+  diffLetterContent,
+  diffText,
+  findUnresolvedMergeFields,
+  instantiateTemplate,
+  type LetterDraftContent,
+  type MergeContext,
+} from '../letter-drafts';
+
+const context: MergeContext = {
+  veteran: {
+    full_name: 'John Q. Veteran',
+    email: 'john@example.com',
+    phone: null,
+  },
+  claim: {
+    claim_number: 'NX-2026-000123',
+    condition: 'Tinnitus',
+    claim_type: 'comprehensive_letter',
+    title: 'Tinnitus nexus letter',
+  },
+  date: new Date('2026-10-19T12:00:00Z'),
+};
+
+const content: LetterDraftContent = {
+  condition: 'tinnitus',
+  likelihood: 'at_least_as_likely_as_not',
+  relationship: 'direct',
+  serviceConnection: 'hazardous noise exposure during military service',
+  recordsReviewed: ['Service treatment records'],
+  rationale: ['The veteran reports ringing in the ears since service.'],
+  citations: [],
+};
+
+describe('Letter Drafts', () => {
+  describe('merge fields', () => {
+    it('should fill fields from the veteran and claim', () => {
+      expect(
+        applyMergeFields(
+          'Mr. {{ veteran.last_name }} ({{claim.claim_number}}), {{today}}',
+          context
+        )
+      ).toBe('Mr. Veteran (NX-2026-000123), October 19, 2026');
+    });
+
+    it('should leave unknown and empty fields in place', () => {
+      expect(
+        applyMergeFields('Call {{veteran.phone}} re {{claim.unknown}}', context)
+      ).toBe('Call {{veteran.phone}} re {{claim.unknown}}');
+    });
+
+    it('should fill a template and report what is left', () => {
+      const draft = instantiateTemplate(
+        {
+          content: {
+            likelihood: 'at_least_as_likely_as_not',
+            relationship: 'direct',
+            serviceConnection: 'hazardous noise exposure',
+            recordsReviewed: [],
+            rationale: [
+              '{{veteran.first_name}} served as a cannon crewmember.',
+              'Contact: {{veteran.phone}}',
+            ],
+            citations: [],
+          },
+        },
+        context
+      );
+
+      expect(draft.rationale[0]).toBe('John served as a cannon crewmember.');
+      expect(findUnresolvedMergeFields(draft)).toEqual(['veteran.phone']);
+    });
+  });
+
+  describe('diffText', () => {
+    it('should mark changed words', () => {
+      expect(
+        diffText('caused by noise exposure', 'caused by blast noise exposure')
+      ).toEqual([
+        { op: 'equal', text: 'caused by ' },
+        { op: 'insert', text: 'blast ' },
+        { op: 'equal', text: 'noise exposure' },
+      ]);
+    });
+
+    it('should reproduce both texts from the segments', () => {
+      const before = 'It is at least as likely as not related to service.';
+      const after = 'It is more likely than not directly related to service.';
+      const segments = diffText(before, after);
+
+      const join = (op: 'insert' | 'delete') =>
+        segments
+          .filter(segment => segment.op === 'equal' || segment.op === op)
+          .map(segment => segment.text)
+          .join('');
+
+      expect(join('delete')).toBe(before);
+      expect(join('insert')).toBe(after);
+    });
+  });
+
+  describe('diffLetterContent', () => {
+    it('should list only the fields that changed', () => {
+      const changes = diffLetterContent(content, {
+        ...content,
+        likelihood: 'more_likely_than_not',
+        rationale: [...content.rationale, 'Acoustic trauma causes tinnitus.'],
+      });
+
+      expect(changes.map(change => change.field)).toEqual([
+        'likelihood',
+        'rationale',
+      ]);
+      expect(changes[1]!.segments.at(-1)).toEqual({
+        op: 'insert',
+        text: '\n\nAcoustic trauma causes tinnitus.',
+      });
+    });
+  });
+});
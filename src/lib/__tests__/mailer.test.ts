@@ -0,0 +1,252 @@
+import net from 'node:net';
+import { describe, it, expect } from 'vitest';
+import {
+  MailerError,
+  buildMimeMessage,
+  createSmtpTransport,
+  extractAddress,
+  getMailTransport,
+  parseSmtpReplies,
+  type MailMessage,
+} from '../mailer';
+
+const message: MailMessage = {
+  from: 'The Best Nexus Letters <no-reply@example.com>',
+  to: 'veteran@example.com',
+  subject: 'Your nexus letter is ready',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+};
+
+/**
+ * Minimal SMTP catcher in the spirit of MailHog: accepts every message
+ * unless `rejectRecipient` is set. With `offerStartTls` it advertises
+ * STARTTLS but never completes the handshake
+ */
+async function startSmtpServer(
+  options: { rejectRecipient?: boolean; offerStartTls?: boolean } = {}
+) {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let stalled = false;
+
+    socket.write('220 localhost ESMTP test\r\n');
+    socket.on('data', chunk => {
+      if (stalled) return;
+      buffer += chunk.toString('utf8');
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        data = buffer.slice(0, end + 2);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 OK: queued\r\n');
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        if (line.startsWith('EHLO')) {
+          socket.write(
+            options.offerStartTls
+              ? '250-localhost\r\n250-STARTTLS\r\n250 8BITMIME\r\n'
+              : '250-localhost\r\n250-PIPELINING\r\n250 8BITMIME\r\n'
+          );
+        } else if (line === 'STARTTLS') {
+          stalled = true;
+          socket.write('220 Ready to start TLS\r\n');
+          return;
+        } else if (line.startsWith('RCPT') && options.rejectRecipient) {
+          socket.write('550 No such user\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return { server, port, commands, getData: () => data };
+}
+
+describe('Mailer', () => {
+  describe('extractAddress', () => {
+    it('should strip display names', () => {
+      expect(extractAddress(message.from)).toBe('no-reply@example.com');
+      expect(extractAddress(' veteran@example.com ')).toBe(
+        'veteran@example.com'
+      );
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should include text and HTML alternatives', () => {
+      const mime = buildMimeMessage(message, {
+        messageId: 'abc@example.com',
+        boundary: 'BOUNDARY',
+        date: new Date('2026-10-19T12:00:00Z'),
+      });
+
+      expect(mime).toContain('Subject: Your nexus letter is ready\r\n');
+      expect(mime).toContain('Message-ID: <abc@example.com>\r\n');
+      expect(mime).toContain('Date: Mon, 19 Oct 2026 12:00:00 GMT\r\n');
+      expect(mime).toContain(
+        'Content-Type: multipart/alternative; boundary="BOUNDARY"'
+      );
+      expect(mime).toContain(Buffer.from('Hello').toString('base64'));
+      expect(mime).toContain(Buffer.from('<p>Hello</p>').toString('base64'));
+      expect(mime.endsWith('--BOUNDARY--\r\n')).toBe(true);
+    });
+
+    it('should not allow header injection through the subject', () => {
+      const mime = buildMimeMessage(
+        { ...message, subject: 'Hello\r\nBcc: attacker@example.com' },
+        { messageId: 'abc@example.com' }
+      );
+
+      expect(mime).not.toContain('\r\nBcc:');
+    });
+
+    it('should encode non-ASCII subjects', () => {
+      const mime = buildMimeMessage(
+        { ...message, subject: 'Révision prête' },
+        { messageId: 'abc@example.com' }
+      );
+
+      expect(mime).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Révision prête').toString('base64')}?=`
+      );
+    });
+  });
+
+  describe('parseSmtpReplies', () => {
+    it('should join multiline replies and keep partial output', () => {
+      expect(
+        parseSmtpReplies('250-localhost\r\n250 STARTTLS\r\n354 Go')
+      ).toEqual({
+        replies: [{ code: 250, lines: ['localhost', 'STARTTLS'] }],
+        rest: '354 Go',
+      });
+    });
+  });
+
+  describe('createSmtpTransport', () => {
+    it('should deliver a message to the SMTP server', async () => {
+      const { server, port, commands, getData } = await startSmtpServer();
+
+      try {
+        const result = await createSmtpTransport({
+          host: '127.0.0.1',
+          port,
+        }).send(message);
+
+        expect(result.messageId).toMatch(/@example\.com$/);
+        expect(commands).toEqual([
+          'EHLO localhost',
+          'MAIL FROM:<no-reply@example.com>',
+          'RCPT TO:<veteran@example.com>',
+          'DATA',
+          'QUIT',
+        ]);
+        expect(getData()).toContain(`Message-ID: <${result.messageId}>`);
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should reject when the server refuses the recipient', async () => {
+      const { server, port } = await startSmtpServer({
+        rejectRecipient: true,
+      });
+
+      try {
+        const error = await createSmtpTransport({ host: '127.0.0.1', port })
+          .send(message)
+          .catch(caught => caught);
+
+        expect(error).toBeInstanceOf(MailerError);
+        expect(error).toMatchObject({ code: 'REJECTED', replyCode: 550 });
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should not send credentials without TLS', async () => {
+      const { server, port, commands } = await startSmtpServer();
+
+      try {
+        await expect(
+          createSmtpTransport({
+            host: '127.0.0.1',
+            port,
+            user: 'mailer',
+            password: 'secret',
+          }).send(message)
+        ).rejects.toMatchObject({ code: 'TLS_REQUIRED' });
+        expect(commands).toEqual(['EHLO localhost']);
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should time out during a stalled STARTTLS handshake', async () => {
+      const { server, port } = await startSmtpServer({ offerStartTls: true });
+
+      try {
+        await expect(
+          createSmtpTransport({
+            host: '127.0.0.1',
+            port,
+            timeoutMs: 100,
+          }).send(message)
+        ).rejects.toMatchObject({ code: 'TIMEOUT' });
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should fail when the server is unreachable', async () => {
+      const server = net.createServer();
+      await new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const { port } = server.address() as net.AddressInfo;
+      await new Promise(resolve => server.close(resolve));
+
+      await expect(
+        createSmtpTransport({ host: '127.0.0.1', port }).send(message)
+      ).rejects.toMatchObject({ code: 'CONNECTION_FAILED' });
+    });
+  });
+
+  describe('getMailTransport', () => {
+    it('should use SMTP when it is configured', () => {
+      expect(
+        getMailTransport({ NODE_ENV: 'production', SMTP_HOST: 'smtp' })?.name
+      ).toBe('smtp');
+    });
+
+    it('should fall back to logging outside production', () => {
+      expect(getMailTransport({ NODE_ENV: 'development' })?.name).toBe('log');
+    });
+
+    it('should not send in production without SMTP', () => {
+      expect(getMailTransport({ NODE_ENV: 'production' })).toBeNull();
+    });
+  });
+});
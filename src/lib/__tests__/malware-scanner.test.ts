@@ -0,0 +1,279 @@
+import net from 'node:net';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  EICAR_TEST_STRING,
+  createClamdScanner,
+  createEicarScanner,
+  getMalwareScanner,
+  parseClamdResponse,
+  scanClaimDocument,
+} from '../malware-scanner';
+import { DOCUMENT_CATEGORY_SIZE_LIMITS } from '../claim-documents';
+import { documentHelpers } from '../database-helpers';
+import type { ClaimDocument } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  documentHelpers: {
+    recordScanResult: vi.fn(),
+  },
+}));
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const createDocument = (): ClaimDocument =>
+  ({
+    id: 'doc-1',
+    claim_id: 'claim-1',
+    scan_status: 'pending',
+    size_bytes: 1024,
+  }) as ClaimDocument;
+
+async function* pieces(...parts: string[]) {
+  for (const part of parts) yield encode(part);
+}
+
+// Fake clamd that collects the stream and replies once it ends
+async function startClamd(reply = 'stream: OK\0') {
+  const received = { bytes: 0, data: Buffer.alloc(0) };
+  const server = net.createServer(socket => {
+    socket.on('data', data => {
+      received.bytes += data.length;
+      received.data = Buffer.concat([received.data.subarray(-64), data]);
+      // Stream ends with a zero-length chunk
+      if (received.data.subarray(-4).readUInt32BE() === 0) {
+        socket.end(reply);
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  return { server, port, received };
+}
+
+describe('Malware Scanner', () => {
+  describe('createEicarScanner', () => {
+    it('should flag content containing the EICAR test string', async () => {
+      const result = await createEicarScanner().scan(
+        encode(`header ${EICAR_TEST_STRING} trailer`)
+      );
+
+      expect(result).toEqual({
+        verdict: 'infected',
+        scanner: 'eicar',
+        signature: 'Eicar-Test-Signature',
+      });
+    });
+
+    it('should pass ordinary content', async () => {
+      const result = await createEicarScanner().scan(encode('%PDF-1.7 ...'));
+      expect(result).toEqual({ verdict: 'clean', scanner: 'eicar' });
+    });
+
+    it('should find the test string across streamed pieces', async () => {
+      const result = await createEicarScanner().scan(
+        pieces(
+          'header ',
+          EICAR_TEST_STRING.slice(0, 20),
+          EICAR_TEST_STRING.slice(20)
+        )
+      );
+
+      expect(result.verdict).toBe('infected');
+    });
+  });
+
+  describe('parseClamdResponse', () => {
+    it('should parse clean, infected and error replies', () => {
+      expect(parseClamdResponse('stream: OK\0').verdict).toBe('clean');
+      expect(
+        parseClamdResponse('stream: Win.Test.EICAR_HDB-1 FOUND\0')
+      ).toEqual({
+        verdict: 'infected',
+        scanner: 'clamd',
+        signature: 'Win.Test.EICAR_HDB-1',
+      });
+      expect(parseClamdResponse('UNKNOWN COMMAND\0')).toEqual({
+        verdict: 'failed',
+        scanner: 'clamd',
+        error: 'UNKNOWN COMMAND',
+      });
+    });
+
+    it('should report streams over the size limit as too large', () => {
+      expect(
+        parseClamdResponse('INSTREAM size limit exceeded. ERROR\0')
+      ).toEqual({
+        verdict: 'too_large',
+        scanner: 'clamd',
+        error: 'INSTREAM size limit exceeded. ERROR',
+      });
+    });
+  });
+
+  describe('createClamdScanner', () => {
+    it('should stream content to clamd and parse the verdict', async () => {
+      let received = Buffer.alloc(0);
+      const server = net.createServer(socket => {
+        socket.on('data', data => {
+          received = Buffer.concat([received, data]);
+          // Stream ends with a zero-length chunk
+          if (received.subarray(-4).readUInt32BE() === 0) {
+            socket.end('stream: OK\0');
+          }
+        });
+      });
+      await new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const { port } = server.address() as net.AddressInfo;
+
+      try {
+        const result = await createClamdScanner({
+          host: '127.0.0.1',
+          port,
+        }).scan(encode('hello'));
+
+        expect(result).toEqual({ verdict: 'clean', scanner: 'clamd' });
+        expect(received.subarray(0, 10).toString()).toBe('zINSTREAM\0');
+        expect(received.readUInt32BE(10)).toBe(5);
+        expect(received.subarray(14, 19).toString()).toBe('hello');
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should stream large content in pieces', async () => {
+      const { server, port, received } = await startClamd();
+      const piece = new Uint8Array(1024 * 1024).fill(1);
+      async function* content() {
+        for (let i = 0; i < 8; i++) yield piece;
+      }
+
+      try {
+        const result = await createClamdScanner({
+          host: '127.0.0.1',
+          port,
+        }).scan(content());
+
+        expect(result).toEqual({ verdict: 'clean', scanner: 'clamd' });
+        // Command, 128 length-prefixed 64KB chunks and the terminator
+        expect(received.bytes).toBe(10 + 128 * (4 + 64 * 1024) + 4);
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should stop streaming past the size limit', async () => {
+      const { server, port } = await startClamd();
+
+      try {
+        const result = await createClamdScanner({
+          host: '127.0.0.1',
+          port,
+          maxBytes: 8,
+        }).scan(pieces('hello', 'world'));
+
+        expect(result.verdict).toBe('too_large');
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should report a failed scan when clamd is unreachable', async () => {
+      const result = await createClamdScanner({
+        socketPath: '/nonexistent/clamd.ctl',
+      }).scan(encode('hello'));
+
+      expect(result.verdict).toBe('failed');
+      expect(result.error).toBeTruthy();
+    });
+  });
+
+  describe('getMalwareScanner', () => {
+    it('should prefer clamd when it is configured', () => {
+      expect(
+        getMalwareScanner({ NODE_ENV: 'production', CLAMD_HOST: 'clamav' })
+          ?.name
+      ).toBe('clamd');
+    });
+
+    it('should accept the largest document any category allows', () => {
+      const scanner = getMalwareScanner({ CLAMD_HOST: 'clamav' });
+
+      Object.values(DOCUMENT_CATEGORY_SIZE_LIMITS).forEach(limit => {
+        expect(scanner?.maxBytes).toBeGreaterThanOrEqual(limit);
+      });
+    });
+
+    it('should fall back to the EICAR scanner outside production', () => {
+      expect(getMalwareScanner({ NODE_ENV: 'development' })?.name).toBe(
+        'eicar'
+      );
+    });
+
+    it('should not scan in production without clamd', () => {
+      expect(getMalwareScanner({ NODE_ENV: 'production' })).toBeNull();
+    });
+  });
+
+  describe('scanClaimDocument', () => {
+    beforeEach(() => {
+      vi.mocked(documentHelpers.recordScanResult).mockReset();
+    });
+
+    it('should record the scan verdict', async () => {
+      const document = createDocument();
+      vi.mocked(documentHelpers.recordScanResult).mockResolvedValue({
+        ...document,
+        scan_status: 'infected',
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await scanClaimDocument(
+        document,
+        encode(EICAR_TEST_STRING),
+        createEicarScanner()
+      );
+
+      expect(result.scan_status).toBe('infected');
+      expect(documentHelpers.recordScanResult).toHaveBeenCalledWith('doc-1', {
+        verdict: 'infected',
+        scanner: 'eicar',
+        signature: 'Eicar-Test-Signature',
+      });
+      warn.mockRestore();
+    });
+
+    it('should mark documents over the scan limit without reading them', async () => {
+      const document = createDocument();
+      const content = vi.fn(() => encode('hello'));
+      vi.mocked(documentHelpers.recordScanResult).mockResolvedValue({
+        ...document,
+        scan_status: 'too_large',
+      });
+
+      const result = await scanClaimDocument(document, content, {
+        ...createEicarScanner(),
+        maxBytes: 512,
+      });
+
+      expect(result.scan_status).toBe('too_large');
+      expect(content).not.toHaveBeenCalled();
+      expect(documentHelpers.recordScanResult).toHaveBeenCalledWith('doc-1', {
+        verdict: 'too_large',
+        scanner: 'eicar',
+        error: 'Content exceeds the 512 byte scan limit',
+      });
+    });
+
+    it('should leave the document quarantined without a scanner', async () => {
+      const document = createDocument();
+
+      const result = await scanClaimDocument(document, encode('hello'), null);
+
+      expect(result).toBe(document);
+      expect(documentHelpers.recordScanResult).not.toHaveBeenCalled();
+    });
+  });
+});
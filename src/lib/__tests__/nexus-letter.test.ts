@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNexusLetter,
+  formatCitation,
+  type NexusLetterInput,
+} from '../nexus-letter';
+import { renderNexusLetterPdf } from '../nexus-letter-pdf';
+import { measureText, toWinAnsi, wrapText } from '../pdf-writer';
+import { nexusLetterRequestSchema } from '../validations';
+
+const input: NexusLetterInput = {
+  claim: { claim_number: 'NX-2026-000200', condition: 'Sleep apnea' },
+  veteran: { full_name: 'Maria Lopez', email: 'maria@example.com' },
+  physician: {
+    fullName: 'Alan Grant',
+    credentials: 'DO',
+    specialty: 'Sleep Medicine',
+    licenseNumber: 'B98765',
+    licenseState: 'CA',
+  },
+  opinion: {
+    likelihood: 'at_least_as_likely_as_not',
+    relationship: 'secondary',
+    serviceConnection: "the veteran's service-connected PTSD",
+    recordsReviewed: [],
+    rationale: ['PTSD is associated with an increased risk of sleep apnea.'],
+    citations: [],
+  },
+  date: new Date('2026-10-19T12:00:00Z'),
+};
+
+const decodePdf = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('Nexus Letter', () => {
+  describe('buildNexusLetter', () => {
+    it('should state the opinion in VA likelihood language', () => {
+      const letter = buildNexusLetter(input);
+
+      expect(letter.opinion).toBe(
+        "It is my medical opinion that Maria Lopez's Sleep apnea is at least as likely as not (50 percent or greater probability) proximately due to or the result of the veteran's service-connected PTSD."
+      );
+    });
+
+    it('should prefer the condition named in the opinion', () => {
+      const letter = buildNexusLetter({
+        ...input,
+        opinion: { ...input.opinion, condition: 'Obstructive sleep apnea' },
+      });
+
+      expect(letter.reference).toContainEqual({
+        label: 'Condition',
+        value: 'Obstructive sleep apnea',
+      });
+    });
+
+    it('should build the signature block from the credentials', () => {
+      const { signature } = buildNexusLetter(input);
+
+      expect(signature.name).toBe('Alan Grant, DO');
+      expect(signature.lines).toEqual([
+        'Sleep Medicine',
+        'License: CA B98765',
+        'Date: October 19, 2026',
+      ]);
+    });
+  });
+
+  describe('formatCitation', () => {
+    it('should join citation parts into sentences', () => {
+      expect(
+        formatCitation({
+          authors: 'Smith J, Doe A',
+          title: 'Sleep apnea in veterans with PTSD?',
+          source: 'J Clin Sleep Med',
+          year: 2020,
+        })
+      ).toBe(
+        'Smith J, Doe A. Sleep apnea in veterans with PTSD? J Clin Sleep Med. 2020.'
+      );
+    });
+  });
+
+  describe('request validation', () => {
+    it('should require a rationale', () => {
+      const result = nexusLetterRequestSchema.safeParse({
+        physician: input.physician,
+        opinion: { ...input.opinion, rationale: [] },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should take either an opinion or a template', () => {
+      const templateId = '3f0c7a52-8d4e-4b8a-9a57-5b0e6f1c2d3e';
+
+      expect(
+        nexusLetterRequestSchema.safeParse({
+          physician: input.physician,
+          templateId,
+        }).success
+      ).toBe(true);
+      expect(
+        nexusLetterRequestSchema.safeParse({ physician: input.physician })
+          .success
+      ).toBe(false);
+      expect(
+        nexusLetterRequestSchema.safeParse({
+          physician: input.physician,
+          opinion: input.opinion,
+          templateId,
+        }).success
+      ).toBe(false);
+    });
+
+    it('should not require credentials, which providers get from their profile', () => {
+      expect(
+        nexusLetterRequestSchema.safeParse({ opinion: input.opinion }).success
+      ).toBe(true);
+    });
+  });
+
+  describe('PDF output', () => {
+    it('should write a cross-reference table that points at each object', () => {
+      const pdf = decodePdf(renderNexusLetterPdf(buildNexusLetter(input)));
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      const offsets = pdf
+        .slice(startxref)
+        .split('\n')
+        .filter(line => line.endsWith(' 00000 n '))
+        .map(line => Number(line.slice(0, 10)));
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+      });
+    });
+
+    it('should be reproducible', () => {
+      const letter = buildNexusLetter(input);
+      expect(renderNexusLetterPdf(letter)).toEqual(
+        renderNexusLetterPdf(letter)
+      );
+    });
+  });
+
+  describe('text layout', () => {
+    it('should replace characters the standard fonts cannot encode', () => {
+      expect(toWinAnsi('“Veteran’s” — claim')).toBe('"Veteran\'s" -- claim');
+      expect(toWinAnsi('38 CFR § 3.310 ✓')).toBe('38 CFR § 3.310 ?');
+    });
+
+    it('should wrap lines to the available width', () => {
+      const text = 'at least as likely as not '.repeat(10).trim();
+      const lines = wrapText(text, 'regular', 11, 200);
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line =>
+        expect(measureText(line, 'regular', 11)).toBeLessThanOrEqual(200)
+      );
+      expect(lines.join(' ')).toBe(text);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getNotificationChannels,
+  getNotificationSettings,
+  withNotificationSettings,
+} from '../notifications';
+import { notifyUser } from '../notification-dispatcher';
+import { notificationHelpers } from '../database-helpers';
+import { sendEmail } from '../email';
+import { notificationSettingsSchema } from '../validations';
+import type { Notification } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  notificationHelpers: {
+    getRecipient: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('../email', () => ({
+  sendEmail: vi.fn(),
+}));
+
+const defaults = notificationSettingsSchema.parse({});
+
+describe('Notifications', () => {
+  describe('getNotificationSettings', () => {
+    it('should use the schema defaults when nothing is saved', () => {
+      expect(getNotificationSettings(null)).toEqual(defaults);
+      expect(getNotificationSettings({ theme: 'dark' })).toEqual(defaults);
+    });
+
+    it('should merge saved settings over the defaults', () => {
+      expect(
+        getNotificationSettings({
+          notifications: { emailNotifications: false },
+        })
+      ).toEqual({ ...defaults, emailNotifications: false });
+    });
+
+    it('should fall back to the defaults for malformed settings', () => {
+      expect(
+        getNotificationSettings({ notifications: { claimUpdates: 'yes' } })
+      ).toEqual(defaults);
+    });
+  });
+
+  describe('withNotificationSettings', () => {
+    it('should keep other preferences', () => {
+      const settings = { ...defaults, weeklyDigest: true };
+
+      expect(withNotificationSettings({ theme: 'dark' }, settings)).toEqual({
+        theme: 'dark',
+        notifications: settings,
+      });
+    });
+  });
+
+  describe('getNotificationChannels', () => {
+    it('should deliver in-app and by email by default', () => {
+      expect(getNotificationChannels('claim_update', defaults)).toEqual([
+        'in_app',
+        'email',
+      ]);
+    });
+
+    it('should skip email when email notifications are off', () => {
+      expect(
+        getNotificationChannels('claim_update', {
+          ...defaults,
+          emailNotifications: false,
+        })
+      ).toEqual(['in_app']);
+    });
+
+    it('should deliver nothing for a category the user switched off', () => {
+      expect(getNotificationChannels('marketing', defaults)).toEqual([]);
+      expect(
+        getNotificationChannels('system_announcement', {
+          ...defaults,
+          systemAnnouncements: false,
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('notifyUser', () => {
+    beforeEach(() => {
+      vi.mocked(notificationHelpers.getRecipient).mockReset();
+      vi.mocked(notificationHelpers.create).mockReset();
+      vi.mocked(sendEmail).mockReset();
+      vi.mocked(notificationHelpers.create).mockImplementation(
+        async insert => ({ id: 'notification-1', ...insert }) as Notification
+      );
+    });
+
+    const input = {
+      category: 'claim_update' as const,
+      title: 'Case NX-2026-0001 opened',
+      body: 'We have opened a case from your inquiry.',
+      link: '/dashboard',
+      claimId: 'claim-1',
+      email: {
+        template: 'lead_acknowledgment' as const,
+        data: {
+          name: 'Maria',
+          claim_type: 'ime' as const,
+          urgency: 'standard' as const,
+        },
+      },
+    };
+
+    it('should respect the user channel choices', async () => {
+      vi.mocked(notificationHelpers.getRecipient).mockResolvedValue({
+        id: 'user-1',
+        email: 'veteran@example.com',
+        full_name: 'Maria Lopez',
+        preferences: { notifications: { emailNotifications: false } },
+      });
+
+      const result = await notifyUser('user-1', input);
+
+      expect(result.channels).toEqual(['in_app']);
+      expect(notificationHelpers.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          category: 'claim_update',
+          claim_id: 'claim-1',
+        })
+      );
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('should send the email when the user allows it', async () => {
+      vi.mocked(notificationHelpers.getRecipient).mockResolvedValue({
+        id: 'user-1',
+        email: 'veteran@example.com',
+        full_name: 'Maria Lopez',
+        preferences: null,
+      });
+
+      await notifyUser('user-1', input);
+
+      expect(sendEmail).toHaveBeenCalledWith(
+        'lead_acknowledgment',
+        'veteran@example.com',
+        input.email.data,
+        { userId: 'user-1', claimId: 'claim-1' }
+      );
+    });
+
+    it('should do nothing for a category the user switched off', async () => {
+      vi.mocked(notificationHelpers.getRecipient).mockResolvedValue({
+        id: 'user-1',
+        email: 'veteran@example.com',
+        full_name: 'Maria Lopez',
+        preferences: { notifications: { claimUpdates: false } },
+      });
+
+      const result = await notifyUser('user-1', input);
+
+      expect(result).toEqual({ channels: [], notification: null, email: null });
+      expect(notificationHelpers.create).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessPresumptiveEligibility,
+  findPresumptiveCondition,
+  getQualifyingExposures,
+  parsePresumptiveParams,
+  serializePresumptiveParams,
+} from '../presumptive';
+
+const today = new Date('2026-10-19T12:00:00Z');
+
+const iraq = {
+  location: 'iraq',
+  start: '2004-03-01',
+  end: '2005-02-28',
+} as const;
+
+const catalog = [
+  {
+    name: 'Diabetes mellitus type II',
+    secondary_conditions: ['Hypertension', 'Erectile dysfunction'],
+  },
+  {
+    name: 'Asthma',
+    secondary_conditions: ['Gastroesophageal reflux disease (GERD)'],
+  },
+];
+
+describe('Presumptive Eligibility', () => {
+  describe('getQualifyingExposures', () => {
+    it('should qualify deployments inside a program window', () => {
+      expect(getQualifyingExposures([iraq], today)).toEqual([
+        { program: 'burn_pits', days: 365, locations: ['iraq'] },
+        { program: 'gulf_war', days: 365, locations: ['iraq'] },
+      ]);
+    });
+
+    it('should count only the days inside the window', () => {
+      expect(
+        getQualifyingExposures(
+          [{ location: 'vietnam', start: '1975-05-01', end: '1975-12-31' }],
+          today
+        )
+      ).toEqual([{ program: 'agent_orange', days: 7, locations: ['vietnam'] }]);
+      expect(
+        getQualifyingExposures(
+          [{ location: 'vietnam', start: '1976-01-01', end: '1977-01-01' }],
+          today
+        )
+      ).toEqual([]);
+    });
+
+    it('should require 30 days at Camp Lejeune', () => {
+      const stay = (end: string) => [
+        { location: 'camp_lejeune' as const, start: '1987-12-01', end },
+      ];
+
+      expect(getQualifyingExposures(stay('1987-12-29'), today)).toEqual([]);
+      expect(getQualifyingExposures(stay('1987-12-30'), today)).toEqual([
+        { program: 'camp_lejeune', days: 30, locations: ['camp_lejeune'] },
+      ]);
+    });
+
+    it('should count overlapping deployments once', () => {
+      const stay = {
+        location: 'camp_lejeune' as const,
+        start: '1987-12-01',
+        end: '1987-12-20',
+      };
+
+      expect(getQualifyingExposures([stay, stay], today)).toEqual([]);
+      expect(
+        getQualifyingExposures(
+          [stay, { ...stay, start: '1987-12-11', end: '1987-12-30' }],
+          today
+        )
+      ).toEqual([
+        { program: 'camp_lejeune', days: 30, locations: ['camp_lejeune'] },
+      ]);
+    });
+
+    it('should run an ongoing deployment through today', () => {
+      expect(
+        getQualifyingExposures(
+          [{ location: 'djibouti', start: '2026-10-10' }],
+          today
+        )
+      ).toEqual([{ program: 'burn_pits', days: 10, locations: ['djibouti'] }]);
+    });
+  });
+
+  describe('findPresumptiveCondition', () => {
+    it('should match claimed conditions to presumptive ones', () => {
+      expect(
+        findPresumptiveCondition('burn_pits', 'Chronic sinusitis')?.name
+      ).toBe('Chronic sinusitis');
+      expect(
+        findPresumptiveCondition('agent_orange', 'High blood pressure')?.name
+      ).toBe('Hypertension');
+      expect(
+        findPresumptiveCondition('agent_orange', 'Tinnitus')
+      ).toBeUndefined();
+    });
+
+    it('should tell Hodgkin and non-Hodgkin lymphoma apart', () => {
+      expect(
+        findPresumptiveCondition('agent_orange', "Non-Hodgkin's lymphoma")?.name
+      ).toBe("Non-Hodgkin's lymphoma");
+      expect(
+        findPresumptiveCondition('radiation', "Hodgkin's lymphoma")
+      ).toBeUndefined();
+      expect(
+        findPresumptiveCondition('radiation', 'Non-Hodgkin lymphoma')?.name
+      ).toBe('Lymphomas other than Hodgkin disease');
+    });
+
+    it('should match terms only at the start of a word', () => {
+      expect(findPresumptiveCondition('gulf_war', 'IBS')?.name).toBe(
+        'Functional gastrointestinal disorders'
+      );
+      expect(
+        findPresumptiveCondition('gulf_war', 'Ribs fracture')
+      ).toBeUndefined();
+    });
+  });
+
+  describe('assessPresumptiveEligibility', () => {
+    it('should flag cases where every condition is presumptive', () => {
+      const assessment = assessPresumptiveEligibility(
+        [iraq],
+        ['Asthma', 'Chronic sinusitis'],
+        catalog,
+        today
+      );
+
+      expect(assessment.flag).toBe('nexus_unnecessary');
+      expect(assessment.conditions[0]).toMatchObject({
+        condition: 'Asthma',
+        basis: 'presumptive',
+        program: 'burn_pits',
+      });
+    });
+
+    it('should recommend a secondary letter for conditions of a presumptive one', () => {
+      const assessment = assessPresumptiveEligibility(
+        [{ location: 'vietnam', start: '1968-02-01', end: '1969-01-31' }],
+        ['Diabetes mellitus type II', 'Erectile dysfunction', 'Tinnitus'],
+        catalog,
+        today
+      );
+
+      expect(assessment.conditions.map(({ basis }) => basis)).toEqual([
+        'presumptive',
+        'secondary',
+        'direct',
+      ]);
+      expect(assessment.conditions[1]).toMatchObject({
+        secondaryTo: 'Diabetes mellitus type II',
+      });
+      expect(assessment.flag).toBe('secondary_letter');
+    });
+
+    it('should not flag cases without a qualifying exposure', () => {
+      expect(
+        assessPresumptiveEligibility([], ['Asthma'], catalog, today)
+      ).toEqual({
+        exposures: [],
+        conditions: [{ condition: 'Asthma', basis: 'direct' }],
+        flag: null,
+      });
+    });
+  });
+
+  it('should round-trip checker inputs through the query string', () => {
+    const input = {
+      deployments: [iraq, { location: 'kuwait' as const, start: '2010-01-05' }],
+      conditions: ['Asthma', "Parkinson's disease"],
+    };
+    const query = serializePresumptiveParams(input);
+
+    expect(parsePresumptiveParams(new URLSearchParams(query))).toEqual(input);
+    expect(
+      parsePresumptiveParams(
+        new URLSearchParams('deployment=atlantis:2004-01-01&condition=%20')
+      )
+    ).toEqual({ deployments: [], conditions: [] });
+  });
+});
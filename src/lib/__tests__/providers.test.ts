@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canTakeCases,
+  formatLicenseExpiry,
+  getLicenseExpiry,
+  getLicenseExpiryWarnings,
+  isProvider,
+  toPhysicianCredentials,
+} from '../providers';
+import {
+  providerLicenseSchema,
+  providerVerificationSchema,
+} from '../validations';
+
+const today = new Date('2026-10-19T15:00:00Z');
+
+const license = (state: string, expiresOn: string) => ({
+  state,
+  license_number: `${state}-1001`,
+  expires_on: expiresOn,
+});
+
+describe('Medical Providers', () => {
+  it('should recognise the provider role', () => {
+    expect(isProvider('provider')).toBe(true);
+    expect(isProvider('reviewer')).toBe(false);
+    expect(isProvider(undefined)).toBe(false);
+  });
+
+  describe('license expiry', () => {
+    it('should treat a license as valid through its expiry date', () => {
+      expect(
+        getLicenseExpiry(license('TX', '2026-10-19'), today)
+      ).toMatchObject({ status: 'expiring', daysRemaining: 0 });
+      expect(getLicenseExpiry(license('TX', '2026-10-18'), today).status).toBe(
+        'expired'
+      );
+      expect(getLicenseExpiry(license('TX', '2027-01-01'), today).status).toBe(
+        'current'
+      );
+    });
+
+    it('should list expired and expiring licenses soonest first', () => {
+      const warnings = getLicenseExpiryWarnings(
+        [
+          license('CA', '2026-12-01'),
+          license('TX', '2028-01-01'),
+          license('FL', '2026-09-30'),
+        ],
+        today
+      );
+
+      expect(warnings.map(warning => warning.license.state)).toEqual([
+        'FL',
+        'CA',
+      ]);
+      expect(formatLicenseExpiry(warnings[0]!)).toBe(
+        'FL license FL-1001 expired on 2026-09-30'
+      );
+      expect(formatLicenseExpiry(warnings[1]!)).toBe(
+        'CA license CA-1001 expires in 43 days'
+      );
+    });
+  });
+
+  describe('case eligibility', () => {
+    it('should require verification and a current license', () => {
+      const current = [license('TX', '2027-06-30')];
+      const lapsed = [license('TX', '2026-01-31')];
+
+      expect(
+        canTakeCases({ verification_status: 'verified' }, current, today)
+      ).toBe(true);
+      expect(
+        canTakeCases({ verification_status: 'verified' }, lapsed, today)
+      ).toBe(false);
+      expect(
+        canTakeCases({ verification_status: 'pending' }, current, today)
+      ).toBe(false);
+      expect(canTakeCases(null, current, today)).toBe(false);
+    });
+  });
+
+  describe('letter credentials', () => {
+    const user = { full_name: 'Dana Reyes', email: 'dana@example.com' };
+    const profile = {
+      credentials: 'MD',
+      npi: '1234567890',
+      specialties: ['Internal Medicine'],
+      board_certifications: [],
+    };
+
+    it('should use the current license that expires last', () => {
+      const credentials = toPhysicianCredentials(
+        user,
+        profile,
+        [
+          license('CA', '2027-03-01'),
+          license('TX', '2028-03-01'),
+          license('NY', '2026-01-01'),
+        ],
+        { today }
+      );
+
+      expect(credentials).toEqual({
+        fullName: 'Dana Reyes',
+        credentials: 'MD',
+        specialty: 'Internal Medicine',
+        licenseNumber: 'TX-1001',
+        licenseState: 'TX',
+        npi: '1234567890',
+      });
+    });
+
+    it('should return null without a current license in the state', () => {
+      expect(
+        toPhysicianCredentials(user, profile, [license('NY', '2026-01-01')], {
+          today,
+        })
+      ).toBeNull();
+      expect(
+        toPhysicianCredentials(user, profile, [license('CA', '2027-03-01')], {
+          state: 'TX',
+          today,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('validation', () => {
+    it('should require a two-letter state and a real date', () => {
+      expect(
+        providerLicenseSchema.safeParse({
+          state: 'TX',
+          licenseNumber: 'Q1234',
+          expiresOn: '2027-06-30',
+        }).success
+      ).toBe(true);
+      expect(
+        providerLicenseSchema.safeParse({
+          state: 'Texas',
+          licenseNumber: 'Q1234',
+          expiresOn: '06/30/2027',
+        }).success
+      ).toBe(false);
+    });
+
+    it('should require a reason to reject or suspend', () => {
+      expect(
+        providerVerificationSchema.safeParse({ status: 'verified' }).success
+      ).toBe(true);
+      expect(
+        providerVerificationSchema.safeParse({ status: 'suspended' }).success
+      ).toBe(false);
+      expect(
+        providerVerificationSchema.safeParse({
+          status: 'rejected',
+          notes: 'License number does not match the state board record.',
+        }).success
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QA_CHECKLIST,
+  canDecideReview,
+  getMissingChecklistItems,
+  isQaReviewer,
+} from '../qa-review';
+import { requiresApproval } from '../claim-workflow';
+import { qaReviewDecisionSchema } from '../validations';
+
+const allConfirmed = Object.fromEntries(
+  QA_CHECKLIST.map(item => [item.key, true])
+);
+
+describe('Quality Review', () => {
+  describe('reviewers', () => {
+    it('should only let reviewers sign off letters', () => {
+      expect(isQaReviewer('reviewer')).toBe(true);
+      expect(isQaReviewer('admin')).toBe(false);
+      expect(isQaReviewer('moderator')).toBe(false);
+      expect(isQaReviewer(null)).toBe(false);
+    });
+
+    it('should not let reviewers decide on their own letters', () => {
+      const reviewer = { id: 'reviewer-1', role: 'reviewer' as const };
+      const review = { status: 'pending' as const, submitted_by: 'staff-1' };
+
+      expect(canDecideReview(reviewer, review, 'staff-2')).toBe(true);
+      expect(canDecideReview(reviewer, review, 'reviewer-1')).toBe(false);
+      expect(
+        canDecideReview(reviewer, { ...review, submitted_by: 'reviewer-1' })
+      ).toBe(false);
+      expect(canDecideReview(reviewer, { ...review, status: 'approved' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('checklist', () => {
+    it('should list required items that are not confirmed', () => {
+      expect(
+        getMissingChecklistItems({ ...allConfirmed, citations_verified: false })
+      ).toEqual([]);
+      expect(
+        getMissingChecklistItems({ ...allConfirmed, no_placeholders: false })
+      ).toEqual([expect.objectContaining({ key: 'no_placeholders' })]);
+    });
+  });
+
+  describe('decision validation', () => {
+    it('should require the full checklist and credentials to approve', () => {
+      const result = qaReviewDecisionSchema.safeParse({
+        decision: 'approved',
+        checklist: { veteran_identity: true },
+      });
+
+      expect(result.success).toBe(false);
+      const paths = result.error!.issues.map(issue => issue.path.join('.'));
+      expect(paths).toContain('checklist.likelihood_language');
+      expect(paths).toContain('reviewerCredentials');
+      expect(paths).not.toContain('checklist.citations_verified');
+    });
+
+    it('should accept a complete approval', () => {
+      const result = qaReviewDecisionSchema.safeParse({
+        decision: 'approved',
+        checklist: allConfirmed,
+        reviewerCredentials: 'MD, Board Certified Internal Medicine',
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should require comments when requesting changes', () => {
+      expect(
+        qaReviewDecisionSchema.safeParse({ decision: 'changes_requested' })
+          .success
+      ).toBe(false);
+      expect(
+        qaReviewDecisionSchema.safeParse({
+          decision: 'changes_requested',
+          comments: 'Cite the audiology exam in the rationale.',
+        }).success
+      ).toBe(true);
+    });
+  });
+
+  describe('delivery gate', () => {
+    it('should require approval only to deliver from quality review', () => {
+      expect(requiresApproval('qa_review', 'delivered')).toBe(true);
+      expect(requiresApproval('qa_review', 'drafting')).toBe(false);
+      expect(requiresApproval('delivered', 'closed')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RatingCalculatorError,
+  calculateCombinedRating,
+  combineRatings,
+  combineTwoRatings,
+  getBilateralDisabilities,
+  getBilateralFactor,
+  parseDisabilities,
+  roundToNearestTen,
+  serializeDisabilities,
+} from '../rating-calculator';
+
+/**
+ * 38 CFR 4.25 Table I. Rows are the combined value so far, columns the
+ * next rating from 10 to 90.
+ */
+const COMBINED_RATINGS_TABLE: Record<number, number[]> = {
+  10: [19, 28, 37, 46, 55, 64, 73, 82, 91],
+  11: [20, 29, 38, 47, 56, 64, 73, 82, 91],
+  12: [21, 30, 38, 47, 56, 65, 74, 82, 91],
+  13: [22, 30, 39, 48, 57, 65, 74, 83, 91],
+  14: [23, 31, 40, 48, 57, 66, 74, 83, 91],
+  15: [24, 32, 41, 49, 58, 66, 75, 83, 92],
+  16: [24, 33, 41, 50, 58, 66, 75, 83, 92],
+  17: [25, 34, 42, 50, 59, 67, 75, 83, 92],
+  18: [26, 34, 43, 51, 59, 67, 75, 84, 92],
+  19: [27, 35, 43, 51, 60, 68, 76, 84, 92],
+  20: [28, 36, 44, 52, 60, 68, 76, 84, 92],
+  21: [29, 37, 45, 53, 61, 68, 76, 84, 92],
+  22: [30, 38, 45, 53, 61, 69, 77, 84, 92],
+  23: [31, 38, 46, 54, 62, 69, 77, 85, 92],
+  24: [32, 39, 47, 54, 62, 70, 77, 85, 92],
+  25: [33, 40, 48, 55, 63, 70, 78, 85, 93],
+  26: [33, 41, 48, 56, 63, 70, 78, 85, 93],
+  27: [34, 42, 49, 56, 64, 71, 78, 85, 93],
+  28: [35, 42, 50, 57, 64, 71, 78, 86, 93],
+  29: [36, 43, 50, 57, 65, 72, 79, 86, 93],
+  30: [37, 44, 51, 58, 65, 72, 79, 86, 93],
+  31: [38, 45, 52, 59, 66, 72, 79, 86, 93],
+  32: [39, 46, 52, 59, 66, 73, 80, 86, 93],
+  33: [40, 46, 53, 60, 67, 73, 80, 87, 93],
+  34: [41, 47, 54, 60, 67, 74, 80, 87, 93],
+  35: [42, 48, 55, 61, 68, 74, 81, 87, 94],
+  36: [42, 49, 55, 62, 68, 74, 81, 87, 94],
+  37: [43, 50, 56, 62, 69, 75, 81, 87, 94],
+  38: [44, 50, 57, 63, 69, 75, 81, 88, 94],
+  39: [45, 51, 57, 63, 70, 76, 82, 88, 94],
+  40: [46, 52, 58, 64, 70, 76, 82, 88, 94],
+  41: [47, 53, 59, 65, 71, 76, 82, 88, 94],
+  42: [48, 54, 59, 65, 71, 77, 83, 88, 94],
+  43: [49, 54, 60, 66, 72, 77, 83, 89, 94],
+  44: [50, 55, 61, 66, 72, 78, 83, 89, 94],
+  45: [51, 56, 62, 67, 73, 78, 84, 89, 95],
+  46: [51, 57, 62, 68, 73, 78, 84, 89, 95],
+  47: [52, 58, 63, 68, 74, 79, 84, 89, 95],
+  48: [53, 58, 64, 69, 74, 79, 84, 90, 95],
+  49: [54, 59, 64, 69, 75, 80, 85, 90, 95],
+  50: [55, 60, 65, 70, 75, 80, 85, 90, 95],
+  51: [56, 61, 66, 71, 76, 80, 85, 90, 95],
+  52: [57, 62, 66, 71, 76, 81, 86, 90, 95],
+  53: [58, 62, 67, 72, 77, 81, 86, 91, 95],
+  54: [59, 63, 68, 72, 77, 82, 86, 91, 95],
+  55: [60, 64, 69, 73, 78, 82, 87, 91, 96],
+  56: [60, 65, 69, 74, 78, 82, 87, 91, 96],
+  57: [61, 66, 70, 74, 79, 83, 87, 91, 96],
+  58: [62, 66, 71, 75, 79, 83, 87, 92, 96],
+  59: [63, 67, 71, 75, 80, 84, 88, 92, 96],
+  60: [64, 68, 72, 76, 80, 84, 88, 92, 96],
+  61: [65, 69, 73, 77, 81, 84, 88, 92, 96],
+  62: [66, 70, 73, 77, 81, 85, 89, 92, 96],
+  63: [67, 70, 74, 78, 82, 85, 89, 93, 96],
+  64: [68, 71, 75, 78, 82, 86, 89, 93, 96],
+  65: [69, 72, 76, 79, 83, 86, 90, 93, 97],
+  66: [69, 73, 76, 80, 83, 86, 90, 93, 97],
+  67: [70, 74, 77, 80, 84, 87, 90, 93, 97],
+  68: [71, 74, 78, 81, 84, 87, 90, 94, 97],
+  69: [72, 75, 78, 81, 85, 88, 91, 94, 97],
+  70: [73, 76, 79, 82, 85, 88, 91, 94, 97],
+  71: [74, 77, 80, 83, 86, 88, 91, 94, 97],
+  72: [75, 78, 80, 83, 86, 89, 92, 94, 97],
+  73: [76, 78, 81, 84, 87, 89, 92, 95, 97],
+  74: [77, 79, 82, 84, 87, 90, 92, 95, 97],
+  75: [78, 80, 83, 85, 88, 90, 93, 95, 98],
+  76: [78, 81, 83, 86, 88, 90, 93, 95, 98],
+  77: [79, 82, 84, 86, 89, 91, 93, 95, 98],
+  78: [80, 82, 85, 87, 89, 91, 93, 96, 98],
+  79: [81, 83, 85, 87, 90, 92, 94, 96, 98],
+  80: [82, 84, 86, 88, 90, 92, 94, 96, 98],
+  81: [83, 85, 87, 89, 91, 92, 94, 96, 98],
+  82: [84, 86, 87, 89, 91, 93, 95, 96, 98],
+  83: [85, 86, 88, 90, 92, 93, 95, 97, 98],
+  84: [86, 87, 89, 90, 92, 94, 95, 97, 98],
+  85: [87, 88, 90, 91, 93, 94, 96, 97, 99],
+  86: [87, 89, 90, 92, 93, 94, 96, 97, 99],
+  87: [88, 90, 91, 92, 94, 95, 96, 97, 99],
+  88: [89, 90, 92, 93, 94, 95, 96, 98, 99],
+  89: [90, 91, 92, 93, 95, 96, 97, 98, 99],
+  90: [91, 92, 93, 94, 95, 96, 97, 98, 99],
+  91: [92, 93, 94, 95, 96, 96, 97, 98, 99],
+  92: [93, 94, 94, 95, 96, 97, 98, 98, 99],
+  93: [94, 94, 95, 96, 97, 97, 98, 99, 99],
+  94: [95, 95, 96, 96, 97, 98, 98, 99, 99],
+};
+
+describe('Rating Calculator', () => {
+  describe('combineTwoRatings', () => {
+    it('should match every entry of the combined ratings table', () => {
+      for (const [row, values] of Object.entries(COMBINED_RATINGS_TABLE)) {
+        values.forEach((expected, index) => {
+          expect(combineTwoRatings(Number(row), (index + 1) * 10)).toBe(
+            expected
+          );
+        });
+      }
+    });
+
+    it('should leave 100 and 0 unchanged', () => {
+      expect(combineTwoRatings(100, 50)).toBe(100);
+      expect(combineTwoRatings(0, 30)).toBe(30);
+      expect(combineTwoRatings(45, 0)).toBe(45);
+    });
+  });
+
+  describe('combineRatings', () => {
+    it('should combine from the most severe rating down', () => {
+      // The worked example in 38 CFR 4.25(a)
+      expect(combineRatings([20, 60, 40])).toBe(81);
+      expect(combineRatings([50, 30])).toBe(65);
+      expect(combineRatings([10, 10, 10])).toBe(27);
+    });
+
+    it('should ignore 0 percent ratings', () => {
+      expect(combineRatings([])).toBe(0);
+      expect(combineRatings([0, 0])).toBe(0);
+      expect(combineRatings([0, 40])).toBe(40);
+    });
+  });
+
+  describe('roundToNearestTen', () => {
+    it('should round values ending in 5 up', () => {
+      expect(roundToNearestTen(44)).toBe(40);
+      expect(roundToNearestTen(45)).toBe(50);
+      expect(roundToNearestTen(94)).toBe(90);
+      expect(roundToNearestTen(95)).toBe(100);
+      expect(roundToNearestTen(4)).toBe(0);
+    });
+  });
+
+  describe('bilateral factor', () => {
+    it('should only apply to both arms or both legs', () => {
+      const disabilities = [
+        { rating: 20, extremity: 'left_arm' as const },
+        { rating: 10, extremity: 'right_arm' as const },
+        { rating: 10, extremity: 'left_leg' as const },
+        { rating: 30 },
+      ];
+
+      expect(getBilateralDisabilities(disabilities)).toEqual(
+        disabilities.slice(0, 2)
+      );
+      expect(
+        getBilateralDisabilities([
+          { rating: 20, extremity: 'left_leg' },
+          { rating: 0, extremity: 'right_leg' },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should combine all four limbs when both pairs are affected', () => {
+      expect(
+        getBilateralFactor([
+          { rating: 10, extremity: 'left_arm' },
+          { rating: 10, extremity: 'right_arm' },
+          { rating: 20, extremity: 'left_leg' },
+          { rating: 10, extremity: 'right_leg' },
+        ])
+      ).toEqual({
+        ratings: [10, 10, 20, 10],
+        combinedValue: 42,
+        factor: 4.2,
+        value: 46,
+      });
+    });
+
+    it('should add 10 percent of the combined bilateral value', () => {
+      const result = calculateCombinedRating([
+        { rating: 30, extremity: 'left_leg' },
+        { rating: 10, extremity: 'right_leg' },
+        { rating: 20 },
+      ]);
+
+      expect(result.bilateral).toEqual({
+        ratings: [30, 10],
+        combinedValue: 37,
+        factor: 3.7,
+        value: 41,
+      });
+      expect(result.steps).toEqual([
+        { rating: 41, bilateral: true, combinedValue: 41 },
+        { rating: 20, bilateral: false, combinedValue: 53 },
+      ]);
+      expect(result.combinedRating).toBe(50);
+    });
+
+    it('should order the bilateral value by severity', () => {
+      const result = calculateCombinedRating([
+        { rating: 10, extremity: 'left_arm' },
+        { rating: 10, extremity: 'right_arm' },
+        { rating: 70 },
+      ]);
+
+      expect(result.steps.map(step => step.rating)).toEqual([70, 21]);
+      expect(result.combinedValue).toBe(76);
+      expect(result.combinedRating).toBe(80);
+    });
+  });
+
+  describe('calculateCombinedRating', () => {
+    it('should round the combined value to the nearest 10', () => {
+      expect(
+        calculateCombinedRating([{ rating: 50 }, { rating: 30 }])
+      ).toMatchObject({
+        bilateral: null,
+        combinedValue: 65,
+        combinedRating: 70,
+      });
+      expect(calculateCombinedRating([]).combinedRating).toBe(0);
+      expect(
+        calculateCombinedRating([{ rating: 100 }, { rating: 40 }])
+          .combinedRating
+      ).toBe(100);
+    });
+
+    it('should reject ratings VA does not assign', () => {
+      expect(() => calculateCombinedRating([{ rating: 35 }])).toThrow(
+        RatingCalculatorError
+      );
+    });
+  });
+
+  describe('URL state', () => {
+    it('should round-trip disabilities through a shared link', () => {
+      const disabilities = [
+        { rating: 50 },
+        { rating: 30, extremity: 'left_arm' as const },
+        { rating: 20, extremity: 'right_arm' as const },
+        { rating: 10, extremity: 'right_leg' as const },
+      ];
+      const value = serializeDisabilities(disabilities);
+
+      expect(value).toBe('50,30la,20ra,10rl');
+      expect(parseDisabilities(value)).toEqual(disabilities);
+    });
+
+    it('should skip invalid entries', () => {
+      expect(parseDisabilities('40, 35,110,20xx,abc,,10LL')).toEqual([
+        { rating: 40 },
+        { rating: 10, extremity: 'left_leg' },
+      ]);
+      expect(parseDisabilities(null)).toEqual([]);
+      expect(parseDisabilities('10,'.repeat(50))).toHaveLength(30);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UPLOAD_CHUNK_SIZE,
+  buildChunkPath,
+  expectedChunkLength,
+  getUploadFingerprint,
+  isChunkLengthAllowed,
+  parseUploadOffset,
+  resumableUploadStore,
+} from '../resumable-upload';
+
+const createStore = () => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: (key: string) => {
+      values.delete(key);
+    },
+  };
+};
+
+describe('Resumable Uploads', () => {
+  describe('expectedChunkLength', () => {
+    it('should use full chunks until the last one', () => {
+      const size = UPLOAD_CHUNK_SIZE * 2 + 100;
+
+      expect(expectedChunkLength(size, 0)).toBe(UPLOAD_CHUNK_SIZE);
+      expect(expectedChunkLength(size, UPLOAD_CHUNK_SIZE)).toBe(
+        UPLOAD_CHUNK_SIZE
+      );
+      expect(expectedChunkLength(size, UPLOAD_CHUNK_SIZE * 2)).toBe(100);
+      expect(expectedChunkLength(size, size)).toBe(0);
+    });
+  });
+
+  describe('buildChunkPath', () => {
+    it('should zero-pad offsets so chunks list in upload order', () => {
+      const paths = [UPLOAD_CHUNK_SIZE * 3, 0, UPLOAD_CHUNK_SIZE].map(offset =>
+        buildChunkPath('session-1', offset)
+      );
+
+      expect(paths[1]).toBe('session-1/000000000000');
+      expect([...paths].sort()).toEqual([paths[1], paths[2], paths[0]]);
+    });
+  });
+
+  describe('isChunkLengthAllowed', () => {
+    it('should require a declared length of at most one chunk', () => {
+      expect(isChunkLengthAllowed(String(UPLOAD_CHUNK_SIZE))).toBe(true);
+      expect(isChunkLengthAllowed('1024')).toBe(true);
+      expect(isChunkLengthAllowed(String(UPLOAD_CHUNK_SIZE + 1))).toBe(false);
+      expect(isChunkLengthAllowed(null)).toBe(false);
+      expect(isChunkLengthAllowed('lots')).toBe(false);
+    });
+  });
+
+  describe('parseUploadOffset', () => {
+    it('should accept non-negative integers only', () => {
+      expect(parseUploadOffset('4194304')).toBe(4194304);
+      expect(parseUploadOffset('0')).toBe(0);
+      expect(parseUploadOffset(null)).toBeNull();
+      expect(parseUploadOffset('-1')).toBeNull();
+      expect(parseUploadOffset('12abc')).toBeNull();
+    });
+  });
+
+  describe('resumableUploadStore', () => {
+    it('should remember upload sessions per claim and file', () => {
+      const store = createStore();
+      const file = new File(['records'], 'str.pdf', {
+        type: 'application/pdf',
+        lastModified: 1700000000000,
+      });
+      const fingerprint = getUploadFingerprint('claim-1', file);
+
+      expect(fingerprint).not.toBe(getUploadFingerprint('claim-2', file));
+
+      resumableUploadStore.set(fingerprint, 'session-1', store);
+      expect(resumableUploadStore.get(fingerprint, store)).toBe('session-1');
+
+      resumableUploadStore.remove(fingerprint, store);
+      expect(resumableUploadStore.get(fingerprint, store)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDeployments,
+  servicePeriodDataToRow,
+  servicePeriodToFormData,
+  serviceHistoryToIntake,
+} from '../service-history';
+import { servicePeriodSchema } from '../validations';
+import type { ServicePeriod } from '../supabase';
+
+const period = (overrides: Partial<ServicePeriod> = {}): ServicePeriod => ({
+  id: 'period-1',
+  user_id: 'user-1',
+  branch: 'army',
+  component: 'active',
+  entry_date: '2002-06-01',
+  separation_date: '2008-05-31',
+  discharge_characterization: 'honorable',
+  occupation: '11B',
+  deployments: [
+    {
+      location: 'Camp Victory, Iraq',
+      exposure: 'iraq',
+      start: '2004-03-01',
+      end: '2005-02-28',
+    },
+  ],
+  created_at: null,
+  updated_at: null,
+  ...overrides,
+});
+
+describe('Service History', () => {
+  describe('validation', () => {
+    const valid = servicePeriodToFormData(period());
+
+    it('should accept a complete period of service', () => {
+      expect(servicePeriodSchema.safeParse(valid).success).toBe(true);
+    });
+
+    it('should require separation before a discharge is recorded', () => {
+      const result = servicePeriodSchema.safeParse({
+        ...valid,
+        separationDate: '',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual(['separationDate']);
+    });
+
+    it('should keep deployments within the period', () => {
+      const result = servicePeriodSchema.safeParse({
+        ...valid,
+        deployments: [
+          { location: 'Kuwait', start: '2001-01-01', end: '2001-06-01' },
+          { location: 'Iraq', start: '2007-10-01', end: '' },
+        ],
+      });
+
+      expect(result.error?.issues.map(issue => issue.path)).toEqual([
+        ['deployments', 0, 'start'],
+        ['deployments', 1, 'end'],
+      ]);
+    });
+
+    it('should accept places outside the exposure areas', () => {
+      const result = servicePeriodSchema.safeParse({
+        ...valid,
+        deployments: [
+          {
+            location: 'Camp Humphreys, Korea',
+            exposure: '',
+            start: '2006-01-01',
+            end: '2006-12-31',
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('conversion', () => {
+    it('should round-trip a period through the form', () => {
+      const row = servicePeriodDataToRow(servicePeriodToFormData(period()));
+
+      expect(row).toEqual({
+        branch: 'army',
+        component: 'active',
+        entry_date: '2002-06-01',
+        separation_date: '2008-05-31',
+        discharge_characterization: 'honorable',
+        occupation: '11B',
+        deployments: [
+          {
+            location: 'Camp Victory, Iraq',
+            exposure: 'iraq',
+            start: '2004-03-01',
+            end: '2005-02-28',
+          },
+        ],
+      });
+    });
+
+    it('should drop stored deployments that no longer parse', () => {
+      expect(
+        parseDeployments([
+          { location: 'Ramstein, Germany', start: '2004-01-01' },
+          {
+            location: 'Camp Lemonnier',
+            exposure: 'djibouti',
+            start: '2010-01-01',
+            end: null,
+          },
+          { location: 'Atlantis', exposure: 'atlantis', start: '2011-01-01' },
+          { location: '', start: '2012-01-01' },
+          'iraq',
+        ])
+      ).toEqual([
+        { location: 'Ramstein, Germany', start: '2004-01-01' },
+        {
+          location: 'Camp Lemonnier',
+          exposure: 'djibouti',
+          start: '2010-01-01',
+        },
+        { location: 'Atlantis', start: '2011-01-01' },
+      ]);
+    });
+
+    it('should prefill intake from every period of service', () => {
+      const history = [
+        period({
+          id: 'period-2',
+          branch: 'air_force',
+          component: 'national_guard',
+          entry_date: '2010-01-01',
+          separation_date: null,
+          discharge_characterization: null,
+          deployments: [{ location: 'Al Udeid', start: '2012-05-01' }],
+        }),
+        period(),
+      ];
+
+      expect(serviceHistoryToIntake(history)).toEqual({
+        branch: 'air_force',
+        serviceStart: '2002-06-01',
+        serviceEnd: '',
+        deployments: [
+          {
+            location: 'Camp Victory, Iraq',
+            exposure: 'iraq',
+            start: '2004-03-01',
+            end: '2005-02-28',
+          },
+          { location: 'Al Udeid', start: '2012-05-01' },
+        ],
+      });
+      expect(serviceHistoryToIntake([])).toEqual({});
+    });
+  });
+});
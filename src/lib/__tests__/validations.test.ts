@@ -275,9 +275,9 @@ describe('Validation Schemas', () => {
         const validData = {
           title: 'Test Claim Title',
           description: 'This is a detailed description of the claim that meets the minimum length requirement.',
-          claimType: 'complaint' as const,
+          claimType: 'comprehensive_letter' as const,
+          condition: 'Tinnitus',
           priority: 'medium' as const,
-          category: 'General',
           contactPreference: 'email' as const,
         };
 
@@ -288,8 +288,8 @@ describe('Validation Schemas', () => {
         const invalidData = {
           title: 'Too short', // Less than 5 characters
           description: 'Too short desc', // Less than 20 characters
-          claimType: 'complaint' as const,
-          category: 'General',
+          claimType: 'comprehensive_letter' as const,
+          condition: 'Tinnitus',
         };
 
         expect(() => claimSubmissionSchema.parse(invalidData)).toThrow();
@@ -299,8 +299,9 @@ describe('Validation Schemas', () => {
         const validData = {
           title: 'Test Claim Title',
           description: 'This is a detailed description of the claim that meets the minimum length requirement.',
-          claimType: 'bug_report' as const,
-          category: 'Technical',
+          claimType: 'review_revision' as const,
+          condition: 'Sleep apnea secondary to PTSD',
+          urgency: 'expedited' as const,
           relatedUrl: 'https://example.com',
           expectedResolution: 'Please fix this issue',
           attachments: [
@@ -316,12 +317,37 @@ describe('Validation Schemas', () => {
         expect(() => claimSubmissionSchema.parse(validData)).not.toThrow();
       });
 
+      it('should reject claim types outside the nexus service list', () => {
+        const invalidData = {
+          title: 'Test Claim Title',
+          description: 'This is a detailed description of the claim that meets the minimum length requirement.',
+          claimType: 'warranty',
+          condition: 'Tinnitus',
+        };
+
+        expect(() => claimSubmissionSchema.parse(invalidData)).toThrow();
+      });
+
+      it('should require a service description for "other" claims', () => {
+        const baseData = {
+          title: 'Test Claim Title',
+          description: 'This is a detailed description of the claim that meets the minimum length requirement.',
+          claimType: 'other' as const,
+          condition: 'Tinnitus',
+        };
+
+        expect(() => claimSubmissionSchema.parse(baseData)).toThrow();
+        expect(() =>
+          claimSubmissionSchema.parse({ ...baseData, otherService: 'Records summary' })
+        ).not.toThrow();
+      });
+
       it('should reject too many attachments', () => {
         const invalidData = {
           title: 'Test Claim Title',
           description: 'This is a detailed description of the claim.',
-          claimType: 'complaint' as const,
-          category: 'General',
+          claimType: 'comprehensive_letter' as const,
+          condition: 'Tinnitus',
           attachments: Array(11).fill({
             name: 'file.pdf',
             size: 1000,
@@ -452,6 +478,18 @@ describe('Validation Schemas', () => {
         expect(() => nexusContactFormSchema.parse(invalidData)).toThrow();
       });
 
+      it('should reject services that are not offered', () => {
+        const invalidData = {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          service: 'Extended Warranty',
+          urgency: 'standard' as const,
+        };
+
+        expect(() => nexusContactFormSchema.parse(invalidData)).toThrow();
+      });
+
       it('should validate all urgency options', () => {
         const urgencyOptions = ['standard', 'expedited', 'urgent'] as const;
         
@@ -754,7 +792,7 @@ describe('Validation Schemas', () => {
         title: 'Valid Title',
         description: 'Valid description that meets length requirements.',
         claimType: 'invalid_type', // Not in enum
-        category: 'General',
+        condition: 'Tinnitus',
       };
 
       expect(() => claimSubmissionSchema.parse(invalidClaimType)).toThrow();
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  createWebhookSecret,
+  getSignedContent,
+  getWebhookAttemptUpdate,
+} from '../webhooks';
+import {
+  dispatchPendingWebhooks,
+  pingWebhook,
+  sendWebhook,
+  signWebhook,
+} from '../webhook-delivery';
+import { validateHMAC } from '../discourse';
+import { webhookHelpers } from '../database-helpers';
+import { webhookSubscriptionSchema } from '../validations';
+import type { WebhookDelivery, WebhookSubscription } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  webhookHelpers: {
+    getDueDeliveries: vi.fn(),
+    leaseDelivery: vi.fn(),
+    createDelivery: vi.fn(),
+    recordAttempt: vi.fn(),
+  },
+}));
+
+const now = new Date('2026-10-19T14:00:00Z');
+
+const subscription: WebhookSubscription = {
+  id: 'webhook-1',
+  name: 'Veterans Legal Clinic',
+  url: 'https://partner.example.org/webhooks',
+  secret: 'whsec_test',
+  events: ['claim_submitted', 'status_changed'],
+  active: true,
+  created_by: 'admin-1',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+};
+
+const createDelivery = (
+  overrides: Partial<WebhookDelivery> = {}
+): WebhookDelivery => ({
+  id: 'delivery-1',
+  subscription_id: 'webhook-1',
+  event: 'status_changed',
+  activity_log_id: 'activity-1',
+  payload: {
+    id: 'activity-1',
+    event: 'status_changed',
+    claim_id: 'claim-1',
+    claim_status: 'records_requested',
+  },
+  status: 'pending',
+  attempts: 0,
+  next_attempt_at: '2026-10-19T13:59:00Z',
+  response_status: null,
+  response_body: null,
+  last_error: null,
+  delivered_at: null,
+  created_at: '2026-10-19T13:59:00Z',
+  updated_at: '2026-10-19T13:59:00Z',
+  ...overrides,
+});
+
+const mockFetch = (status: number, body: string = 'ok') =>
+  vi
+    .spyOn(globalThis, 'fetch')
+    .mockResolvedValue(new Response(body, { status }));
+
+describe('Webhooks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('signWebhook', () => {
+    it('should sign the timestamp and body with the subscription secret', () => {
+      const body = JSON.stringify({ event: 'ping' });
+      const signature = signWebhook('whsec_test', 1792418400, body);
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(
+        validateHMAC(
+          getSignedContent(1792418400, body),
+          signature.slice('sha256='.length),
+          'whsec_test'
+        )
+      ).toBe(true);
+    });
+
+    it('should create distinct secrets', () => {
+      const secret = createWebhookSecret();
+
+      expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(createWebhookSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('getWebhookAttemptUpdate', () => {
+    it('should record a delivered attempt', () => {
+      expect(
+        getWebhookAttemptUpdate(
+          createDelivery(),
+          { delivered: true, status: 204, body: '' },
+          now
+        )
+      ).toEqual({
+        attempts: 1,
+        response_status: 204,
+        response_body: '',
+        status: 'delivered',
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: '2026-10-19T14:00:00.000Z',
+      });
+    });
+
+    it('should retry with backoff, then give up', () => {
+      const failure = {
+        delivered: false,
+        status: 503,
+        error: 'Endpoint responded with 503',
+      } as const;
+
+      expect(
+        getWebhookAttemptUpdate(createDelivery({ attempts: 1 }), failure, now)
+      ).toMatchObject({
+        status: 'pending',
+        attempts: 2,
+        next_attempt_at: '2026-10-19T14:05:00.000Z',
+      });
+      expect(
+        getWebhookAttemptUpdate(
+          createDelivery({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 }),
+          failure,
+          now
+        )
+      ).toMatchObject({ status: 'failed', next_attempt_at: null });
+    });
+  });
+
+  describe('sendWebhook', () => {
+    it('should POST the signed payload', async () => {
+      const fetch = mockFetch(200);
+
+      const result = await sendWebhook(subscription, createDelivery(), now);
+
+      expect(result).toEqual({ delivered: true, status: 200, body: 'ok' });
+      const [url, init] = fetch.mock.calls[0]!;
+      const headers = init?.headers as Record<string, string>;
+      expect(url).toBe('https://partner.example.org/webhooks');
+      expect(headers['X-Webhook-Event']).toBe('status_changed');
+      expect(headers['X-Webhook-Timestamp']).toBe('1792418400');
+      expect(headers['X-Webhook-Signature']).toBe(
+        signWebhook('whsec_test', 1792418400, init?.body as string)
+      );
+    });
+
+    it('should treat error responses and network errors as failures', async () => {
+      mockFetch(500, 'boom');
+      expect(
+        await sendWebhook(subscription, createDelivery(), now)
+      ).toMatchObject({ delivered: false, status: 500, body: 'boom' });
+
+      vi.spyOn(globalThis, 'fetch').mockRejectedValue(
+        new Error('getaddrinfo ENOTFOUND')
+      );
+      expect(
+        await sendWebhook(subscription, createDelivery(), now)
+      ).toMatchObject({
+        delivered: false,
+        status: null,
+        error: 'getaddrinfo ENOTFOUND',
+      });
+    });
+  });
+
+  describe('dispatchPendingWebhooks', () => {
+    beforeEach(() => {
+      vi.mocked(webhookHelpers.getDueDeliveries).mockReset();
+      vi.mocked(webhookHelpers.leaseDelivery).mockReset();
+      vi.mocked(webhookHelpers.recordAttempt).mockReset();
+      vi.mocked(webhookHelpers.leaseDelivery).mockImplementation(
+        async delivery => delivery
+      );
+      vi.mocked(webhookHelpers.recordAttempt).mockImplementation(
+        async (id, update) => createDelivery({ id, ...update })
+      );
+    });
+
+    it('should send due deliveries to active subscriptions', async () => {
+      vi.mocked(webhookHelpers.getDueDeliveries).mockResolvedValue([
+        { ...createDelivery(), subscription },
+        {
+          ...createDelivery({ id: 'delivery-2' }),
+          subscription: { ...subscription, active: false },
+        },
+      ]);
+      const fetch = mockFetch(200);
+
+      const results = await dispatchPendingWebhooks(50, now);
+
+      expect(results).toHaveLength(1);
+      expect(results[0]?.status).toBe('delivered');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip deliveries another dispatcher leased', async () => {
+      vi.mocked(webhookHelpers.getDueDeliveries).mockResolvedValue([
+        { ...createDelivery(), subscription },
+      ]);
+      vi.mocked(webhookHelpers.leaseDelivery).mockResolvedValue(null);
+      const fetch = mockFetch(200);
+
+      expect(await dispatchPendingWebhooks(50, now)).toEqual([]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pingWebhook', () => {
+    it('should log a failed ping without retrying it', async () => {
+      vi.mocked(webhookHelpers.createDelivery).mockImplementation(
+        async delivery =>
+          createDelivery({
+            ...delivery,
+            id: delivery.id!,
+            activity_log_id: null,
+          })
+      );
+      vi.mocked(webhookHelpers.recordAttempt).mockImplementation(
+        async (id, update) => createDelivery({ id, ...update })
+      );
+      mockFetch(404, 'not found');
+
+      const delivery = await pingWebhook(subscription, now);
+
+      expect(webhookHelpers.createDelivery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'ping',
+          subscription_id: 'webhook-1',
+        })
+      );
+      expect(delivery).toMatchObject({
+        status: 'failed',
+        response_status: 404,
+        next_attempt_at: null,
+      });
+    });
+  });
+
+  describe('webhookSubscriptionSchema', () => {
+    it('should require an HTTPS endpoint and at least one event', () => {
+      const valid = {
+        name: 'Veterans Legal Clinic',
+        url: 'https://partner.example.org/webhooks',
+        events: ['status_changed'],
+      };
+
+      expect(webhookSubscriptionSchema.safeParse(valid).success).toBe(true);
+      expect(
+        webhookSubscriptionSchema.safeParse({
+          ...valid,
+          url: 'http://partner.example.org/webhooks',
+        }).success
+      ).toBe(false);
+      expect(
+        webhookSubscriptionSchema.safeParse({ ...valid, events: [] }).success
+      ).toBe(false);
+      expect(
+        webhookSubscriptionSchema.safeParse({ ...valid, events: ['login'] })
+          .success
+      ).toBe(false);
+    });
+  });
+});
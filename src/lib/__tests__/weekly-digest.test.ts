@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  compileDigest,
+  formatDigestPeriod,
+  getDigestPeriod,
+  sendWeeklyDigests,
+  summarizeDigest,
+  type DigestActivity,
+  type DigestClaim,
+  type DigestRecipient,
+  type DigestStatusChange,
+} from '../weekly-digest';
+import { digestHelpers } from '../database-helpers';
+import { notifyUser } from '../notification-dispatcher';
+import { renderEmail } from '../email-templates';
+import type { WeeklyDigestRecord } from '../supabase';
+
+vi.mock('../database-helpers', () => ({
+  digestHelpers: {
+    getRecipients: vi.fn(),
+    getRecipient: vi.fn(),
+    getActivity: vi.fn(),
+    record: vi.fn(),
+  },
+}));
+
+vi.mock('../notification-dispatcher', () => ({
+  notifyUser: vi.fn(),
+}));
+
+// Monday, Oct 19 2026, 10:00 Eastern
+const now = new Date('2026-10-19T14:00:00Z');
+
+const createClaim = (overrides: Partial<DigestClaim> = {}): DigestClaim => ({
+  id: 'claim-1',
+  claim_number: 'NX-2026-0001',
+  title: 'Tinnitus nexus letter',
+  status: 'physician_review',
+  due_date: '2026-10-30',
+  resolved_at: null,
+  urgency: 'standard',
+  claim_type: 'comprehensive_letter',
+  user_id: 'veteran-1',
+  assigned_to: 'provider-1',
+  ...overrides,
+});
+
+const createChange = (
+  createdAt: string,
+  overrides: Partial<DigestStatusChange> = {}
+): DigestStatusChange => ({
+  claim_id: 'claim-1',
+  from_status: 'intake',
+  to_status: 'records_requested',
+  created_at: createdAt,
+  claim: {
+    claim_number: 'NX-2026-0001',
+    title: 'Tinnitus nexus letter',
+    user_id: 'veteran-1',
+    assigned_to: 'provider-1',
+  },
+  ...overrides,
+});
+
+const createRecipient = (
+  overrides: Partial<DigestRecipient> = {}
+): DigestRecipient => ({
+  id: 'veteran-1',
+  email: 'veteran@example.com',
+  full_name: 'Maria Lopez',
+  role: 'user',
+  preferences: { notifications: { weeklyDigest: true } },
+  ...overrides,
+});
+
+const activity: DigestActivity = {
+  openClaims: [
+    createClaim({ status: 'records_requested' }),
+    createClaim({
+      id: 'claim-2',
+      claim_number: 'NX-2026-0002',
+      title: 'Sleep apnea nexus letter',
+      due_date: '2026-10-23',
+      user_id: 'veteran-2',
+    }),
+    createClaim({
+      id: 'claim-3',
+      claim_number: 'NX-2026-0003',
+      title: 'Knee IME',
+      due_date: '2026-10-14',
+      user_id: 'veteran-2',
+      assigned_to: 'provider-2',
+    }),
+  ],
+  statusChanges: [
+    // Sunday Oct 11, 23:00 Eastern: the week before
+    createChange('2026-10-12T03:00:00Z', { to_status: 'intake' }),
+    createChange('2026-10-14T15:00:00Z'),
+    // Monday Oct 19: this week
+    createChange('2026-10-19T13:00:00Z', { to_status: 'records_received' }),
+  ],
+};
+
+describe('Weekly Digest', () => {
+  describe('getDigestPeriod', () => {
+    it('should cover the last full week in the business time zone', () => {
+      const period = getDigestPeriod(now);
+
+      expect(period).toEqual({ start: '2026-10-12', end: '2026-10-19' });
+      expect(formatDigestPeriod(period)).toBe('Oct 12 – Oct 18');
+    });
+
+    it('should give every run in the same week the same period', () => {
+      // Sunday Oct 25, 22:00 Eastern
+      expect(getDigestPeriod(new Date('2026-10-26T02:00:00Z'))).toEqual(
+        getDigestPeriod(now)
+      );
+      // Sunday Oct 18, 22:00 Eastern
+      expect(getDigestPeriod(new Date('2026-10-19T02:00:00Z'))).toEqual({
+        start: '2026-10-05',
+        end: '2026-10-12',
+      });
+    });
+  });
+
+  describe('compileDigest', () => {
+    it('should summarize a veteran case activity for the week', () => {
+      const digest = compileDigest(createRecipient(), activity, now);
+
+      expect(digest.sections.map(section => section.kind)).toEqual([
+        'status_changes',
+        'document_requests',
+      ]);
+      expect(digest.sections[0]?.items).toEqual([
+        {
+          claim_number: 'NX-2026-0001',
+          title: 'Tinnitus nexus letter',
+          detail: 'Moved to Records Requested on Oct 14',
+        },
+      ]);
+      expect(summarizeDigest(digest)).toBe(
+        '1 status change, 1 records request'
+      );
+    });
+
+    it('should only show veterans the statuses they are notified about', () => {
+      const internal = {
+        ...activity,
+        statusChanges: [
+          createChange('2026-10-14T15:00:00Z', { to_status: 'drafting' }),
+          createChange('2026-10-15T15:00:00Z', { to_status: 'qa_review' }),
+        ],
+      };
+
+      expect(
+        compileDigest(createRecipient(), internal, now).sections.map(
+          section => section.kind
+        )
+      ).toEqual(['document_requests']);
+      expect(
+        compileDigest(
+          createRecipient({ id: 'provider-1', role: 'provider' }),
+          internal,
+          now
+        ).sections[0]?.items
+      ).toHaveLength(2);
+    });
+
+    it('should list upcoming due dates on cases assigned to staff', () => {
+      const digest = compileDigest(
+        createRecipient({ id: 'provider-1', role: 'provider' }),
+        activity,
+        now
+      );
+      const upcoming = digest.sections.find(
+        section => section.kind === 'upcoming_due_dates'
+      );
+
+      expect(upcoming?.items).toEqual([
+        {
+          claim_number: 'NX-2026-0002',
+          title: 'Sleep apnea nexus letter',
+          detail: 'Due Oct 23 (On Track)',
+        },
+      ]);
+      expect(
+        digest.sections.some(section => section.kind === 'sla_breaches')
+      ).toBe(false);
+    });
+
+    it('should list overdue cases for admins only', () => {
+      const digest = compileDigest(
+        createRecipient({ id: 'admin-1', role: 'admin' }),
+        activity,
+        now
+      );
+
+      expect(digest.sections).toEqual([
+        {
+          kind: 'sla_breaches',
+          title: 'Overdue cases',
+          items: [
+            {
+              claim_number: 'NX-2026-0003',
+              title: 'Knee IME',
+              detail: 'Due Oct 14, 3 business days overdue',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should have nothing to report for an unrelated user', () => {
+      expect(
+        compileDigest(createRecipient({ id: 'veteran-3' }), activity, now)
+          .sections
+      ).toEqual([]);
+    });
+  });
+
+  describe('renderEmail', () => {
+    it('should list each section in the digest email', async () => {
+      const digest = compileDigest(createRecipient(), activity, now);
+      const email = await renderEmail('weekly_digest', {
+        name: 'Maria Lopez',
+        period_label: formatDigestPeriod(digest.period),
+        sections: digest.sections,
+      });
+
+      expect(email.subject).toBe('Your weekly summary for Oct 12 – Oct 18');
+      expect(email.html).toContain('<h2');
+      expect(email.text).toContain(
+        'Case status changes\n- NX-2026-0001 (Tinnitus nexus letter): Moved to Records Requested on Oct 14'
+      );
+    });
+  });
+
+  describe('sendWeeklyDigests', () => {
+    beforeEach(() => {
+      vi.mocked(digestHelpers.getRecipients).mockReset();
+      vi.mocked(digestHelpers.getActivity).mockReset();
+      vi.mocked(digestHelpers.record).mockReset();
+      vi.mocked(notifyUser).mockReset();
+      vi.mocked(digestHelpers.getActivity).mockResolvedValue(activity);
+      vi.mocked(digestHelpers.record).mockImplementation(
+        async userId => ({ id: `digest-${userId}` }) as WeeklyDigestRecord
+      );
+    });
+
+    it('should send digests with something to report', async () => {
+      vi.mocked(digestHelpers.getRecipients).mockResolvedValue([
+        createRecipient(),
+        createRecipient({ id: 'veteran-3' }),
+      ]);
+
+      const result = await sendWeeklyDigests(now);
+
+      expect(digestHelpers.getActivity).toHaveBeenCalledWith({
+        start: '2026-10-12',
+        end: '2026-10-19',
+      });
+      expect(result).toMatchObject({
+        recipients: 2,
+        sent: 1,
+        skipped: 1,
+        failed: 0,
+      });
+      expect(notifyUser).toHaveBeenCalledWith(
+        'veteran-1',
+        expect.objectContaining({
+          category: 'weekly_digest',
+          title: 'Your weekly summary for Oct 12 – Oct 18',
+          body: '1 status change, 1 records request',
+          email: expect.objectContaining({ template: 'weekly_digest' }),
+        })
+      );
+    });
+
+    it('should not send a digest twice in the same week', async () => {
+      vi.mocked(digestHelpers.getRecipients).mockResolvedValue([
+        createRecipient(),
+      ]);
+      vi.mocked(digestHelpers.record).mockResolvedValue(null);
+
+      const result = await sendWeeklyDigests(now);
+
+      expect(result).toMatchObject({ sent: 0, skipped: 1 });
+      expect(notifyUser).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when one digest fails', async () => {
+      vi.mocked(digestHelpers.getRecipients).mockResolvedValue([
+        createRecipient(),
+        createRecipient({ id: 'admin-1', role: 'admin' }),
+      ]);
+      vi.mocked(notifyUser).mockRejectedValueOnce(new Error('SMTP down'));
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await sendWeeklyDigests(now);
+
+      expect(result).toMatchObject({ sent: 1, failed: 1 });
+      expect(notifyUser).toHaveBeenCalledTimes(2);
+      error.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * API Authentication
+ * Bearer token checks for API routes. Callers send their Supabase access
+ * token; the scheduler sends CRON_SECRET to the routes it calls.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { createServerClient, type UserRole } from './supabase';
+
+export type RequestAuth =
+  | { user: AuthUser; response?: never }
+  | { user?: never; response: NextResponse };
+
+export type RoleAuth =
+  | { user: AuthUser; role: UserRole; response?: never }
+  | { user?: never; role?: never; response: NextResponse };
+
+const unauthorized = () =>
+  NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+const forbidden = () =>
+  NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+const getBearerToken = (request: NextRequest) => {
+  const authHeader = request.headers.get('authorization');
+  return authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+};
+
+async function getTokenUser(token: string): Promise<RequestAuth> {
+  const {
+    data: { user },
+    error,
+  } = await createServerClient().auth.getUser(token);
+
+  return error || !user ? { response: unauthorized() } : { user };
+}
+
+async function getRole(userId: string): Promise<UserRole | null> {
+  const { data: profile } = await createServerClient()
+    .from('users')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  return profile?.role ?? null;
+}
+
+async function requireTokenRole(
+  token: string,
+  roles: readonly UserRole[]
+): Promise<RoleAuth> {
+  const { user, response } = await getTokenUser(token);
+  if (response) return { response };
+
+  const role = await getRole(user.id);
+  if (!role || !roles.includes(role)) return { response: forbidden() };
+
+  return { user, role };
+}
+
+/**
+ * The signed-in caller, or a 401 response to return
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<RequestAuth> {
+  const token = getBearerToken(request);
+  if (!token) return { response: unauthorized() };
+
+  return getTokenUser(token);
+}
+
+/**
+ * The signed-in caller and their role, or the 401 or 403 response to
+ * return when they don't have one of `roles`
+ */
+export async function requireRole(
+  request: NextRequest,
+  roles: readonly UserRole[]
+): Promise<RoleAuth> {
+  const token = getBearerToken(request);
+  if (!token) return { response: unauthorized() };
+
+  return requireTokenRole(token, roles);
+}
+
+/**
+ * Whether `token` is CRON_SECRET. Both are hashed first so the comparison
+ * takes the same time whatever their lengths.
+ */
+export function isCronSecret(
+  token: string,
+  secret: string | undefined = process.env.CRON_SECRET
+): boolean {
+  if (!secret) return false;
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * Let the scheduler through with CRON_SECRET, otherwise require an admin.
+ * Returns the response to send when the request is refused, or null.
+ */
+export async function requireCronOrAdmin(
+  request: NextRequest
+): Promise<NextResponse | null> {
+  const token = getBearerToken(request);
+  if (!token) return unauthorized();
+  if (isCronSecret(token)) return null;
+
+  const { response } = await requireTokenRole(token, ['admin']);
+  return response ?? null;
+}
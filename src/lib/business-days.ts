@@ -0,0 +1,180 @@
+/**
+ * Business Days
+ * Weekday calendar with US federal holidays, used for turnaround promises.
+ * Dates are `YYYY-MM-DD` strings in the business time zone. The database
+ * has the same calendar (20261019121100_case_sla.sql) for holds.
+ */
+
+/** Turnaround is counted on Eastern business days */
+export const BUSINESS_TIME_ZONE = 'America/New_York';
+
+// =================================
+// DATE STRINGS
+// =================================
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = parseDate(date);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * The date `days` calendar days after `date` (before it when negative)
+ */
+export function addCalendarDays(date: string, days: number): string {
+  return shiftDate(date, days);
+}
+
+/**
+ * Calendar date of an instant in the business time zone
+ */
+export function toBusinessDate(instant: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: BUSINESS_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+// =================================
+// FEDERAL HOLIDAYS
+// =================================
+
+export interface Holiday {
+  /** Observed date */
+  date: string;
+  name: string;
+}
+
+/** The nth weekday (0 = Sunday) of a month; n = -1 for the last one */
+function nthWeekday(
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return formatDate(
+      year,
+      month,
+      1 + ((weekday - first + 7) % 7) + (n - 1) * 7
+    );
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return formatDate(year, month, lastDay.getUTCDate() - offset);
+}
+
+/** Fixed-date holidays falling on a weekend are observed Friday or Monday */
+function observed(date: string): string {
+  const weekday = parseDate(date).getUTCDay();
+  if (weekday === 6) return shiftDate(date, -1);
+  if (weekday === 0) return shiftDate(date, 1);
+  return date;
+}
+
+/**
+ * Observed federal holidays in a year (5 U.S.C. 6103)
+ */
+export function getFederalHolidays(year: number): Holiday[] {
+  const holidays = [
+    { date: observed(formatDate(year, 1, 1)), name: "New Year's Day" },
+    { date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+    { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+    { date: observed(formatDate(year, 6, 19)), name: 'Juneteenth' },
+    { date: observed(formatDate(year, 7, 4)), name: 'Independence Day' },
+    { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 10, 1, 2), name: 'Columbus Day' },
+    { date: observed(formatDate(year, 11, 11)), name: 'Veterans Day' },
+    { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+    { date: observed(formatDate(year, 12, 25)), name: 'Christmas Day' },
+  ];
+
+  // New Year's Day on a Saturday is observed on December 31 of this year
+  const nextNewYear = observed(formatDate(year + 1, 1, 1));
+  if (nextNewYear.startsWith(String(year))) {
+    holidays.push({ date: nextNewYear, name: "New Year's Day" });
+  }
+
+  return holidays.filter(holiday => holiday.date.startsWith(String(year)));
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function isFederalHoliday(date: string): boolean {
+  const year = Number(date.slice(0, 4));
+  let holidays = holidayCache.get(year);
+
+  if (!holidays) {
+    holidays = new Set(getFederalHolidays(year).map(holiday => holiday.date));
+    holidayCache.set(year, holidays);
+  }
+
+  return holidays.has(date.slice(0, 10));
+}
+
+// =================================
+// BUSINESS DAY ARITHMETIC
+// =================================
+
+export function isBusinessDay(date: string): boolean {
+  const weekday = parseDate(date).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !isFederalHoliday(date);
+}
+
+/**
+ * The date `days` business days after `date` (before it when negative).
+ * Zero days rolls a non-business day forward to the next business day.
+ */
+export function addBusinessDays(date: string, days: number): string {
+  const step = days < 0 ? -1 : 1;
+  let current = date.slice(0, 10);
+  let remaining = Math.abs(days);
+
+  if (remaining === 0) {
+    while (!isBusinessDay(current)) current = shiftDate(current, 1);
+    return current;
+  }
+
+  while (remaining > 0) {
+    current = shiftDate(current, step);
+    if (isBusinessDay(current)) remaining--;
+  }
+
+  return current;
+}
+
+/**
+ * Business days after `from` up to and including `to`; negative when `to`
+ * is earlier
+ */
+export function businessDaysBetween(from: string, to: string): number {
+  const start = from.slice(0, 10);
+  const end = to.slice(0, 10);
+  if (end < start) return -businessDaysBetween(end, start);
+
+  let current = start;
+  let count = 0;
+
+  while (current < end) {
+    current = shiftDate(current, 1);
+    if (isBusinessDay(current)) count++;
+  }
+
+  return count;
+}
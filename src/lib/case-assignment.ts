@@ -0,0 +1,219 @@
+/**
+ * Case Assignment
+ * Picks the provider for a case from specialty fit to the claimed
+ * condition, licensure, open caseload and turnaround history. Eligibility
+ * mirrors the `assign_claim` RPC; ranking only happens here
+ */
+
+import { hasCurrentLicense } from './providers';
+import type { Claim, ProviderLicense, ProviderProfile } from './supabase';
+
+// =================================
+// SPECIALTY MATCHING
+// =================================
+
+/**
+ * Specialties suited to common claimed conditions. Matching is by keyword
+ * against the condition text and by substring against the specialties a
+ * provider lists on their profile.
+ */
+export const CONDITION_SPECIALTIES: readonly {
+  keywords: readonly string[];
+  specialties: readonly string[];
+}[] = [
+  {
+    keywords: ['ptsd', 'anxiety', 'depress', 'bipolar', 'mental', 'insomnia'],
+    specialties: ['psychiatry', 'psychology'],
+  },
+  {
+    keywords: ['tinnitus', 'hearing', 'vertigo', 'sinus', 'rhinitis'],
+    specialties: ['audiology', 'otolaryngology'],
+  },
+  {
+    keywords: ['back', 'spine', 'knee', 'shoulder', 'hip', 'ankle', 'neck'],
+    specialties: ['orthopedic', 'physical medicine', 'sports medicine'],
+  },
+  {
+    keywords: ['sleep apnea', 'asthma', 'copd', 'respiratory', 'lung'],
+    specialties: ['pulmonology', 'sleep medicine'],
+  },
+  {
+    keywords: ['migraine', 'headache', 'tbi', 'brain injury', 'neuropathy'],
+    specialties: ['neurology'],
+  },
+  {
+    keywords: ['hypertension', 'heart', 'cardiac', 'ischemic'],
+    specialties: ['cardiology'],
+  },
+  {
+    keywords: ['gerd', 'irritable bowel', 'reflux', 'gastro'],
+    specialties: ['gastroenterology'],
+  },
+  {
+    keywords: ['cancer', 'lymphoma', 'leukemia', 'tumor'],
+    specialties: ['oncology'],
+  },
+];
+
+/**
+ * Specialties suggested for a condition, or none when it is not recognised
+ */
+export function getConditionSpecialties(
+  condition: string | null | undefined
+): string[] {
+  if (!condition) return [];
+  const text = condition.toLowerCase();
+
+  return [
+    ...new Set(
+      CONDITION_SPECIALTIES.filter(entry =>
+        entry.keywords.some(keyword => text.includes(keyword))
+      ).flatMap(entry => entry.specialties)
+    ),
+  ];
+}
+
+export function matchesSpecialty(
+  providerSpecialties: string[],
+  suggested: string[]
+): boolean {
+  return providerSpecialties.some(specialty => {
+    const name = specialty.toLowerCase();
+    return suggested.some(candidate => name.includes(candidate));
+  });
+}
+
+// =================================
+// CANDIDATES
+// =================================
+
+export interface ProviderCandidate {
+  userId: string;
+  specialties: ProviderProfile['specialties'];
+  verificationStatus: ProviderProfile['verification_status'];
+  acceptingCases: boolean;
+  maxOpenCases: number;
+  licenses: Pick<ProviderLicense, 'state' | 'license_number' | 'expires_on'>[];
+  openCases: number;
+  /** Average days from assignment to delivery; null without history */
+  avgTurnaroundDays: number | null;
+}
+
+export type AssignmentIneligibility =
+  | 'not_verified'
+  | 'not_accepting'
+  | 'no_current_license'
+  | 'at_capacity'
+  | 'excluded';
+
+/**
+ * Why a provider cannot be given a new case, or null if they can
+ */
+export function getIneligibility(
+  candidate: ProviderCandidate,
+  options: { exclude?: string[]; today?: Date } = {}
+): AssignmentIneligibility | null {
+  if (options.exclude?.includes(candidate.userId)) return 'excluded';
+  if (candidate.verificationStatus !== 'verified') return 'not_verified';
+  if (!candidate.acceptingCases) return 'not_accepting';
+  if (!hasCurrentLicense(candidate.licenses, options.today)) {
+    return 'no_current_license';
+  }
+  if (candidate.openCases >= candidate.maxOpenCases) return 'at_capacity';
+  return null;
+}
+
+// =================================
+// RANKING
+// =================================
+
+export const ASSIGNMENT_WEIGHTS = {
+  specialty: 50,
+  caseload: 30,
+  turnaround: 20,
+} as const;
+
+/** Turnaround at or beyond this many days earns no turnaround points */
+export const TURNAROUND_BASELINE_DAYS = 14;
+
+export interface RankedProvider {
+  candidate: ProviderCandidate;
+  score: number;
+  specialtyMatch: boolean;
+}
+
+type AssignableClaim = Pick<Claim, 'condition'>;
+
+export function scoreCandidate(
+  claim: AssignableClaim,
+  candidate: ProviderCandidate
+): RankedProvider {
+  const suggested = getConditionSpecialties(claim.condition);
+  const specialtyMatch =
+    suggested.length > 0 && matchesSpecialty(candidate.specialties, suggested);
+
+  const load = Math.min(candidate.openCases / candidate.maxOpenCases, 1);
+  const turnaround =
+    candidate.avgTurnaroundDays === null
+      ? 0.5 // No history yet: neither rewarded nor penalised
+      : Math.max(0, 1 - candidate.avgTurnaroundDays / TURNAROUND_BASELINE_DAYS);
+
+  const score =
+    (specialtyMatch ? ASSIGNMENT_WEIGHTS.specialty : 0) +
+    ASSIGNMENT_WEIGHTS.caseload * (1 - load) +
+    ASSIGNMENT_WEIGHTS.turnaround * turnaround;
+
+  return { candidate, score, specialtyMatch };
+}
+
+/**
+ * Eligible providers for a claim, best first. Ties go to the provider with
+ * fewer open cases.
+ */
+export function rankProviders(
+  claim: AssignableClaim,
+  candidates: ProviderCandidate[],
+  options: { exclude?: string[]; today?: Date } = {}
+): RankedProvider[] {
+  return candidates
+    .filter(candidate => getIneligibility(candidate, options) === null)
+    .map(candidate => scoreCandidate(claim, candidate))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.candidate.openCases - b.candidate.openCases ||
+        a.candidate.userId.localeCompare(b.candidate.userId)
+    );
+}
+
+export class CaseAssignmentError extends Error {
+  constructor(
+    message: string,
+    public code: 'NO_ELIGIBLE_PROVIDER',
+    public claimId?: string
+  ) {
+    super(message);
+    this.name = 'CaseAssignmentError';
+  }
+}
+
+/**
+ * The best provider for a claim; throws if nobody can take it
+ */
+export function pickProvider(
+  claim: AssignableClaim & Pick<Claim, 'id'>,
+  candidates: ProviderCandidate[],
+  options: { exclude?: string[]; today?: Date } = {}
+): RankedProvider {
+  const [best] = rankProviders(claim, candidates, options);
+
+  if (!best) {
+    throw new CaseAssignmentError(
+      'No verified provider with a current license and open capacity is available',
+      'NO_ELIGIBLE_PROVIDER',
+      claim.id
+    );
+  }
+
+  return best;
+}
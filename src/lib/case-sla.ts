@@ -0,0 +1,157 @@
+/**
+ * Case SLAs
+ * Turnaround promised per service tier (see CASE_URGENCY_LABELS and
+ * /services), due dates on the business-day calendar, and the at-risk and
+ * breached states that escalate a case to admins
+ */
+
+import {
+  addBusinessDays,
+  businessDaysBetween,
+  toBusinessDate,
+} from './business-days';
+import { RESOLVED_STATUSES } from './claim-workflow';
+import { Constants } from './database.types';
+import type {
+  CaseUrgency,
+  Claim,
+  ClaimType,
+  SlaEscalationLevel,
+} from './supabase';
+
+// =================================
+// SERVICE TIERS
+// =================================
+
+export interface SlaTier {
+  /** Business days from submission to delivery */
+  businessDays: number;
+  /** Remaining business days at which the case is flagged at risk */
+  atRiskBusinessDays: number;
+}
+
+/**
+ * Due dates use the top of each promised range: 7-10 business days for
+ * standard cases, 3-5 for expedited
+ */
+export const SLA_TIERS: Record<CaseUrgency, SlaTier> = {
+  standard: { businessDays: 10, atRiskBusinessDays: 2 },
+  expedited: { businessDays: 5, atRiskBusinessDays: 1 },
+  urgent: { businessDays: 2, atRiskBusinessDays: 1 },
+};
+
+/**
+ * The tier a case is held to. Ordering the Expedited Service upgrades a
+ * standard case to the expedited tier.
+ */
+export function getSlaTier(
+  urgency: CaseUrgency | null | undefined,
+  claimType?: ClaimType | null
+): CaseUrgency {
+  const tier = urgency ?? 'standard';
+  return claimType === 'expedited' && tier === 'standard' ? 'expedited' : tier;
+}
+
+/**
+ * Due date (`YYYY-MM-DD`) for a case submitted at `submittedAt`
+ */
+export function computeDueDate(
+  submittedAt: Date | string,
+  urgency: CaseUrgency | null | undefined,
+  claimType?: ClaimType | null
+): string {
+  const submitted = toBusinessDate(new Date(submittedAt));
+  const { businessDays } = SLA_TIERS[getSlaTier(urgency, claimType)];
+  return addBusinessDays(submitted, businessDays);
+}
+
+/**
+ * Push a due date back by the business days a case spent on hold. The
+ * database does this when a hold ends (extend_due_date_after_hold).
+ */
+export function extendDueDate(
+  dueDate: string,
+  heldFrom: Date | string,
+  heldUntil: Date | string = new Date()
+): string {
+  const held = businessDaysBetween(
+    toBusinessDate(new Date(heldFrom)),
+    toBusinessDate(new Date(heldUntil))
+  );
+  return held > 0 ? addBusinessDays(dueDate, held) : dueDate.slice(0, 10);
+}
+
+// =================================
+// SLA STATE
+// =================================
+
+export type SlaState =
+  'on_track' | 'at_risk' | 'breached' | 'paused' | 'met' | 'missed';
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  on_track: 'On Track',
+  at_risk: 'At Risk',
+  breached: 'Overdue',
+  paused: 'Paused (On Hold)',
+  met: 'Delivered On Time',
+  missed: 'Delivered Late',
+};
+
+/** States that escalate a case to admins */
+export const SLA_ESCALATION_LEVELS =
+  Constants.public.Enums.sla_escalation_level;
+
+export interface SlaStatus {
+  state: SlaState;
+  dueDate: string;
+  /** Business days left; negative once overdue */
+  remainingBusinessDays: number;
+}
+
+type SlaClaim = Pick<
+  Claim,
+  'status' | 'due_date' | 'resolved_at' | 'urgency' | 'claim_type'
+>;
+
+/**
+ * Where a case stands against its due date, or null when it has none or
+ * was cancelled. A case is due by the end of its due date.
+ */
+export function getSlaStatus(
+  claim: SlaClaim,
+  now: Date = new Date()
+): SlaStatus | null {
+  if (!claim.due_date || claim.status === 'cancelled') return null;
+
+  const dueDate = claim.due_date.slice(0, 10);
+  const isResolved = !!claim.status && RESOLVED_STATUSES.includes(claim.status);
+  const asOf = toBusinessDate(
+    isResolved && claim.resolved_at ? new Date(claim.resolved_at) : now
+  );
+  const remainingBusinessDays =
+    asOf > dueDate
+      ? -Math.max(businessDaysBetween(dueDate, asOf), 1)
+      : businessDaysBetween(asOf, dueDate);
+
+  let state: SlaState;
+  if (isResolved) {
+    state = asOf > dueDate ? 'missed' : 'met';
+  } else if (claim.status === 'on_hold') {
+    state = 'paused';
+  } else if (asOf > dueDate) {
+    state = 'breached';
+  } else {
+    const { atRiskBusinessDays } =
+      SLA_TIERS[getSlaTier(claim.urgency, claim.claim_type)];
+    state =
+      remainingBusinessDays <= atRiskBusinessDays ? 'at_risk' : 'on_track';
+  }
+
+  return { state, dueDate, remainingBusinessDays };
+}
+
+export function isEscalationLevel(
+  state: SlaState
+): state is SlaEscalationLevel {
+  return (SLA_ESCALATION_LEVELS as readonly SlaState[]).includes(state);
+}
@@ -0,0 +1,135 @@
+/**
+ * Claim Document Vault
+ * Categories, storage layout and validation rules for medical records
+ * attached to claims
+ */
+
+import { Constants } from './database.types';
+import type { DocumentCategory } from './supabase';
+import {
+  DOCUMENT_UPLOAD_CONFIG,
+  createFileInspector,
+  inspectFile,
+  sanitizeFileName,
+  validateFile,
+  type FileInspectionResult,
+  type FileInspector,
+  type FileValidationConfig,
+  type FileValidationResult,
+} from './file-security';
+
+// =================================
+// CATEGORIES
+// =================================
+
+export const DOCUMENT_CATEGORIES = Constants.public.Enums.document_category;
+
+export const DOCUMENT_CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  dd214: 'DD-214',
+  service_treatment_records: 'Service Treatment Records (STRs)',
+  va_treatment_records: 'VA Treatment Records',
+  private_records: 'Private Medical Records',
+  c_file: 'C-File',
+  other: 'Other',
+};
+
+// =================================
+// SIZE LIMITS
+// =================================
+
+const MB = 1024 * 1024;
+
+/**
+ * Maximum upload size per category. C-files and treatment records run to
+ * hundreds of pages, so they get far more room than a DD-214. The largest
+ * value must match the claim-documents bucket's file_size_limit.
+ */
+export const DOCUMENT_CATEGORY_SIZE_LIMITS: Record<DocumentCategory, number> = {
+  dd214: 10 * MB,
+  service_treatment_records: 250 * MB,
+  va_treatment_records: 250 * MB,
+  private_records: 100 * MB,
+  c_file: 500 * MB,
+  other: 25 * MB,
+};
+
+/**
+ * Largest document the vault accepts, in any category. The malware
+ * scanner must accept this much, or large records could never be cleared.
+ */
+export const MAX_DOCUMENT_SIZE = Math.max(
+  ...Object.values(DOCUMENT_CATEGORY_SIZE_LIMITS)
+);
+
+/**
+ * Upload configuration for a document category
+ */
+export function getDocumentUploadConfig(
+  category: DocumentCategory = 'other'
+): FileValidationConfig {
+  return {
+    ...DOCUMENT_UPLOAD_CONFIG,
+    maxSize: DOCUMENT_CATEGORY_SIZE_LIMITS[category],
+  };
+}
+
+// =================================
+// STORAGE
+// =================================
+
+export const CLAIM_DOCUMENTS_BUCKET = 'claim-documents';
+
+/**
+ * Lifetime of signed download URLs, in seconds
+ */
+export const SIGNED_URL_EXPIRY_SECONDS = 5 * 60;
+
+/**
+ * Storage object path for a document. The leading claim ID folder is what
+ * the storage RLS policies check access against.
+ */
+export function buildDocumentPath(
+  claimId: string,
+  documentId: string,
+  fileName: string
+): string {
+  const safeName =
+    sanitizeFileName(fileName).replace(/\s+/g, '_') || 'document';
+  return `${claimId}/${documentId}-${safeName}`;
+}
+
+// =================================
+// VALIDATION
+// =================================
+
+/**
+ * Validate an uploaded medical record against the document upload rules.
+ * Cheap pre-check for the browser; the server runs inspectClaimDocument.
+ */
+export function validateClaimDocument(
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  category?: DocumentCategory
+): FileValidationResult {
+  return validateFile(file, getDocumentUploadConfig(category));
+}
+
+/**
+ * Inspect a medical record's contents before it is stored
+ */
+export function inspectClaimDocument(
+  file: File,
+  category?: DocumentCategory
+): Promise<FileInspectionResult> {
+  return inspectFile(file, getDocumentUploadConfig(category));
+}
+
+/**
+ * Inspect a medical record whose contents arrive in pieces, such as a
+ * reassembled resumable upload
+ */
+export function createClaimDocumentInspector(
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  category?: DocumentCategory
+): FileInspector {
+  return createFileInspector(file, getDocumentUploadConfig(category));
+}
@@ -0,0 +1,110 @@
+/**
+ * Nexus Letter Case Domain
+ * Single source of truth for the services a case can be opened for, shared
+ * by the marketing pages, validation schemas and database helpers
+ */
+
+import { Constants } from './database.types';
+import type { CaseUrgency, ClaimInsert, ClaimType } from './supabase';
+
+// =================================
+// SERVICE TYPES
+// =================================
+
+export const CLAIM_TYPES = Constants.public.Enums.claim_type;
+export const CASE_URGENCIES = Constants.public.Enums.case_urgency;
+
+/**
+ * Display label for each service, as listed on /services and /contact
+ */
+export const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+  comprehensive_letter: 'Comprehensive Nexus Letter',
+  consultation: 'Nexus Letter Consultation',
+  expedited: 'Expedited Service',
+  review_revision: 'Letter Review & Revision',
+  ime: 'Independent Medical Examination (IME)',
+  other: 'Other (please specify)',
+};
+
+/**
+ * Service options in the order they are offered to veterans
+ */
+export const SERVICE_OPTIONS = (
+  Object.keys(CLAIM_TYPE_LABELS) as ClaimType[]
+).map(value => ({ value, label: CLAIM_TYPE_LABELS[value] }));
+
+export const OTHER_SERVICE_LABEL = CLAIM_TYPE_LABELS.other;
+
+export const CASE_URGENCY_LABELS: Record<CaseUrgency, string> = {
+  standard: 'Standard (7-10 business days)',
+  expedited: 'Expedited (3-5 business days)',
+  urgent: 'Urgent (As soon as possible)',
+};
+
+/**
+ * Resolve a service label (as submitted by the contact form) to its claim type
+ */
+export function claimTypeFromServiceLabel(label: string): ClaimType | null {
+  const match = SERVICE_OPTIONS.find(option => option.label === label);
+  return match ? match.value : null;
+}
+
+export function isClaimType(value: string): value is ClaimType {
+  return (CLAIM_TYPES as readonly string[]).includes(value);
+}
+
+// =================================
+// PRIORITY MAPPING
+// =================================
+
+export const CLAIM_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export type ClaimPriority = (typeof CLAIM_PRIORITIES)[number];
+
+/**
+ * Priority labels map onto the 1-5 `claims.priority` column
+ */
+export const CLAIM_PRIORITY_VALUES: Record<ClaimPriority, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  urgent: 5,
+};
+
+// =================================
+// SUBMISSION MAPPING
+// =================================
+
+export interface ClaimSubmissionInput {
+  title: string;
+  description: string;
+  claimType: ClaimType;
+  condition: string;
+  urgency: CaseUrgency;
+  priority: ClaimPriority;
+  otherService?: string | undefined;
+}
+
+/**
+ * Map validated submission data onto a `claims` insert row
+ */
+export function claimSubmissionToInsert(
+  userId: string,
+  submission: ClaimSubmissionInput
+): ClaimInsert {
+  const metadata: Record<string, string> = {};
+
+  if (submission.claimType === 'other' && submission.otherService) {
+    metadata.other_service = submission.otherService;
+  }
+
+  return {
+    user_id: userId,
+    title: submission.title,
+    description: submission.description,
+    claim_type: submission.claimType,
+    condition: submission.condition,
+    urgency: submission.urgency,
+    priority: CLAIM_PRIORITY_VALUES[submission.priority],
+    metadata,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Claim Workflow
+ * Case lifecycle state machine shared by the UI, database helpers and the
+ * `claim_status_transitions` table (keep the two transition lists in sync)
+ */
+
+import { Constants } from './database.types';
+import type { ClaimStatus } from './supabase';
+
+// =================================
+// STATUSES
+// =================================
+
+export const CLAIM_STATUSES = Constants.public.Enums.claim_status;
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  intake: 'Intake',
+  records_requested: 'Records Requested',
+  records_received: 'Records Received',
+  physician_review: 'Physician Review',
+  drafting: 'Drafting',
+  qa_review: 'Quality Review',
+  delivered: 'Delivered',
+  closed: 'Closed',
+  on_hold: 'On Hold',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Statuses that end the case; no further transitions are allowed
+ */
+export const TERMINAL_STATUSES: readonly ClaimStatus[] = ['closed', 'cancelled'];
+
+/**
+ * Statuses that mark the case as resolved (sets `claims.resolved_at`)
+ */
+export const RESOLVED_STATUSES: readonly ClaimStatus[] = [
+  'delivered',
+  'closed',
+  'cancelled',
+];
+
+// =================================
+// TRANSITION TABLE
+// =================================
+
+export interface ClaimTransitionRule {
+  to: ClaimStatus;
+  requiresReason?: boolean;
+  /** The claim's letter must have passed quality review (see lib/qa-review) */
+  requiresApproval?: boolean;
+  /** Only allowed back to the status the case was held from */
+  resumesHold?: boolean;
+}
+
+const hold: ClaimTransitionRule = { to: 'on_hold', requiresReason: true };
+const cancel: ClaimTransitionRule = { to: 'cancelled', requiresReason: true };
+const resume = (to: ClaimStatus): ClaimTransitionRule => ({
+  to,
+  resumesHold: true,
+});
+
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimTransitionRule[]> = {
+  intake: [{ to: 'records_requested' }, { to: 'physician_review' }, hold, cancel],
+  records_requested: [{ to: 'records_received' }, hold, cancel],
+  records_received: [
+    { to: 'physician_review' },
+    { to: 'records_requested', requiresReason: true },
+    hold,
+    cancel,
+  ],
+  physician_review: [
+    { to: 'drafting' },
+    { to: 'records_requested', requiresReason: true },
+    hold,
+    cancel,
+  ],
+  drafting: [{ to: 'qa_review' }, hold, cancel],
+  qa_review: [
+    { to: 'delivered', requiresApproval: true },
+    { to: 'drafting', requiresReason: true },
+    hold,
+  ],
+  delivered: [{ to: 'closed' }, { to: 'drafting', requiresReason: true }],
+  closed: [],
+  on_hold: [
+    resume('intake'),
+    resume('records_requested'),
+    resume('records_received'),
+    resume('physician_review'),
+    resume('drafting'),
+    resume('qa_review'),
+    cancel,
+  ],
+  cancelled: [],
+};
+
+// =================================
+// TRANSITION CHECKS
+// =================================
+
+export class ClaimWorkflowError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_TRANSITION' | 'REASON_REQUIRED' | 'APPROVAL_REQUIRED',
+    public from?: ClaimStatus | null,
+    public to?: ClaimStatus
+  ) {
+    super(message);
+    this.name = 'ClaimWorkflowError';
+  }
+}
+
+/**
+ * Get the transition rule for a move, or null if the move is not allowed.
+ * `heldFrom` is the status a claim on hold was held from
+ * (`claims.held_from_status`); it may only resume to that status.
+ */
+export function getTransitionRule(
+  from: ClaimStatus,
+  to: ClaimStatus,
+  heldFrom?: ClaimStatus | null
+): ClaimTransitionRule | null {
+  const rule = CLAIM_TRANSITIONS[from].find(candidate => candidate.to === to);
+  if (!rule || (rule.resumesHold && rule.to !== heldFrom)) return null;
+  return rule;
+}
+
+export function canTransition(
+  from: ClaimStatus,
+  to: ClaimStatus,
+  heldFrom?: ClaimStatus | null
+): boolean {
+  return getTransitionRule(from, to, heldFrom) !== null;
+}
+
+export function requiresReason(from: ClaimStatus, to: ClaimStatus): boolean {
+  return getTransitionRule(from, to)?.requiresReason ?? false;
+}
+
+export function requiresApproval(from: ClaimStatus, to: ClaimStatus): boolean {
+  return getTransitionRule(from, to)?.requiresApproval ?? false;
+}
+
+/**
+ * Statuses reachable from the given status
+ */
+export function getAvailableTransitions(
+  from: ClaimStatus,
+  heldFrom?: ClaimStatus | null
+): ClaimStatus[] {
+  return CLAIM_TRANSITIONS[from]
+    .filter(rule => !rule.resumesHold || rule.to === heldFrom)
+    .map(rule => rule.to);
+}
+
+/**
+ * Throw if the move is illegal or is missing a required reason
+ */
+export function assertTransition(
+  from: ClaimStatus | null,
+  to: ClaimStatus,
+  reason?: string,
+  heldFrom?: ClaimStatus | null
+): void {
+  const current = from ?? 'intake';
+  const rule = getTransitionRule(current, to, heldFrom);
+
+  if (!rule) {
+    throw new ClaimWorkflowError(
+      `Cannot move claim from ${CLAIM_STATUS_LABELS[current]} to ${CLAIM_STATUS_LABELS[to]}`,
+      'INVALID_TRANSITION',
+      from,
+      to
+    );
+  }
+
+  if (rule.requiresReason && (!reason || reason.trim() === '')) {
+    throw new ClaimWorkflowError(
+      `A reason is required to move claim from ${CLAIM_STATUS_LABELS[current]} to ${CLAIM_STATUS_LABELS[to]}`,
+      'REASON_REQUIRED',
+      from,
+      to
+    );
+  }
+}
+
+// =================================
+// STATISTICS
+// =================================
+
+export interface ClaimStats {
+  total: number;
+  open: number;
+  onHold: number;
+  delivered: number;
+  closed: number;
+  cancelled: number;
+  byStatus: Record<ClaimStatus, number>;
+}
+
+export function emptyClaimStats(): ClaimStats {
+  return {
+    total: 0,
+    open: 0,
+    onHold: 0,
+    delivered: 0,
+    closed: 0,
+    cancelled: 0,
+    byStatus: Object.fromEntries(
+      CLAIM_STATUSES.map(status => [status, 0])
+    ) as Record<ClaimStatus, number>,
+  };
+}
+
+/**
+ * Tally claim statuses into dashboard statistics
+ */
+export function summarizeClaimStatuses(
+  statuses: Array<ClaimStatus | null>
+): ClaimStats {
+  const stats = emptyClaimStats();
+
+  statuses.forEach(rawStatus => {
+    const status = rawStatus ?? 'intake';
+    stats.total++;
+    stats.byStatus[status]++;
+
+    switch (status) {
+      case 'on_hold':
+        stats.onHold++;
+        break;
+      case 'delivered':
+        stats.delivered++;
+        break;
+      case 'closed':
+        stats.closed++;
+        break;
+      case 'cancelled':
+        stats.cancelled++;
+        break;
+      default:
+        stats.open++;
+    }
+  });
+
+  return stats;
+}
@@ -0,0 +1,590 @@
+/**
+ * Compensation
+ * Estimated monthly VA disability compensation and back pay. Rates come
+ * from VA's published tables, which change every December 1 with the
+ * cost-of-living adjustment (COLA). Add a table here each year.
+ */
+
+import { isValidRating } from './rating-calculator';
+
+// =================================
+// RATE TABLES
+// =================================
+
+export interface DependentRates {
+  spouse: number;
+  /** First child under 18 */
+  child: number;
+  /** Each further child under 18 */
+  additionalChild: number;
+  /** Each child aged 18 to 23 in school */
+  schoolChild: number;
+  /** Each dependent parent */
+  parent: number;
+  /** Added when the spouse needs aid and attendance */
+  spouseAidAndAttendance: number;
+}
+
+export interface CompensationRateTable {
+  /** Calendar year the rates are mostly paid in */
+  year: number;
+  /** Date the rates took effect (YYYY-MM-DD) */
+  effectiveDate: string;
+  /** Cost-of-living increase over the previous table, in percent */
+  cola: number;
+  /** Monthly rate for a veteran alone, by combined rating */
+  rates: Record<number, number>;
+  /**
+   * Monthly amounts added for dependents at 100%. Lower ratings get a
+   * proportionate share (38 U.S.C. 1115).
+   */
+  dependents: DependentRates;
+}
+
+/**
+ * VA compensation rate tables, oldest first
+ */
+export const COMPENSATION_RATE_TABLES: readonly CompensationRateTable[] = [
+  {
+    year: 2020,
+    effectiveDate: '2019-12-01',
+    cola: 1.6,
+    rates: {
+      10: 142.29,
+      20: 281.27,
+      30: 435.69,
+      40: 627.61,
+      50: 893.43,
+      60: 1131.68,
+      70: 1426.17,
+      80: 1657.8,
+      90: 1862.96,
+      100: 3106.04,
+    },
+    dependents: {
+      spouse: 173.18,
+      child: 115.81,
+      additionalChild: 86.05,
+      schoolChild: 277.96,
+      parent: 138.98,
+      spouseAidAndAttendance: 158.84,
+    },
+  },
+  {
+    year: 2021,
+    effectiveDate: '2020-12-01',
+    cola: 1.3,
+    rates: {
+      10: 144.14,
+      20: 284.93,
+      30: 441.35,
+      40: 635.77,
+      50: 905.04,
+      60: 1146.39,
+      70: 1444.71,
+      80: 1679.35,
+      90: 1887.18,
+      100: 3146.42,
+    },
+    dependents: {
+      spouse: 175.43,
+      child: 117.32,
+      additionalChild: 87.17,
+      schoolChild: 281.57,
+      parent: 140.79,
+      spouseAidAndAttendance: 160.9,
+    },
+  },
+  {
+    year: 2022,
+    effectiveDate: '2021-12-01',
+    cola: 5.9,
+    rates: {
+      10: 152.64,
+      20: 301.74,
+      30: 467.39,
+      40: 673.28,
+      50: 958.44,
+      60: 1214.03,
+      70: 1529.95,
+      80: 1778.43,
+      90: 1998.52,
+      100: 3332.06,
+    },
+    dependents: {
+      spouse: 185.78,
+      child: 124.24,
+      additionalChild: 92.31,
+      schoolChild: 298.18,
+      parent: 149.1,
+      spouseAidAndAttendance: 170.39,
+    },
+  },
+  {
+    year: 2023,
+    effectiveDate: '2022-12-01',
+    cola: 8.7,
+    rates: {
+      10: 165.92,
+      20: 327.99,
+      30: 508.05,
+      40: 731.86,
+      50: 1041.82,
+      60: 1319.65,
+      70: 1663.06,
+      80: 1933.15,
+      90: 2172.39,
+      100: 3621.95,
+    },
+    dependents: {
+      spouse: 201.94,
+      child: 135.05,
+      additionalChild: 100.34,
+      schoolChild: 324.12,
+      parent: 162.07,
+      spouseAidAndAttendance: 185.21,
+    },
+  },
+  {
+    year: 2024,
+    effectiveDate: '2023-12-01',
+    cola: 3.2,
+    rates: {
+      10: 171.23,
+      20: 338.49,
+      30: 524.31,
+      40: 755.28,
+      50: 1075.16,
+      60: 1361.88,
+      70: 1716.28,
+      80: 1995.01,
+      90: 2241.91,
+      100: 3737.85,
+    },
+    dependents: {
+      spouse: 208.4,
+      child: 139.37,
+      additionalChild: 103.55,
+      schoolChild: 334.49,
+      parent: 167.26,
+      spouseAidAndAttendance: 191.14,
+    },
+  },
+  {
+    year: 2025,
+    effectiveDate: '2024-12-01',
+    cola: 2.5,
+    rates: {
+      10: 175.51,
+      20: 346.95,
+      30: 537.42,
+      40: 774.16,
+      50: 1102.04,
+      60: 1395.93,
+      70: 1759.19,
+      80: 2044.89,
+      90: 2297.96,
+      100: 3831.3,
+    },
+    dependents: {
+      spouse: 213.61,
+      child: 142.85,
+      additionalChild: 106.14,
+      schoolChild: 342.85,
+      parent: 171.44,
+      spouseAidAndAttendance: 195.92,
+    },
+  },
+  {
+    year: 2026,
+    effectiveDate: '2025-12-01',
+    cola: 2.8,
+    rates: {
+      10: 180.42,
+      20: 356.66,
+      30: 552.47,
+      40: 795.84,
+      50: 1132.9,
+      60: 1435.02,
+      70: 1808.45,
+      80: 2102.15,
+      90: 2362.3,
+      100: 3938.58,
+    },
+    dependents: {
+      spouse: 219.59,
+      child: 146.85,
+      additionalChild: 109.11,
+      schoolChild: 352.45,
+      parent: 176.24,
+      spouseAidAndAttendance: 201.41,
+    },
+  },
+];
+
+/**
+ * Dependents are only paid for at 30% and above
+ */
+export const MIN_RATING_FOR_DEPENDENTS = 30;
+
+export class CompensationError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_RATING' | 'INVALID_DATE' | 'RATES_UNAVAILABLE'
+  ) {
+    super(message);
+    this.name = 'CompensationError';
+  }
+}
+
+/**
+ * Rate table in effect on `date`
+ */
+export function getRateTable(date: Date = new Date()): CompensationRateTable {
+  const day = toDateString(date);
+  const table = COMPENSATION_RATE_TABLES.findLast(
+    candidate => candidate.effectiveDate <= day
+  );
+
+  if (!table) {
+    throw new CompensationError(
+      `No compensation rates before ${COMPENSATION_RATE_TABLES[0]?.effectiveDate}`,
+      'RATES_UNAVAILABLE'
+    );
+  }
+
+  return table;
+}
+
+// =================================
+// MONTHLY COMPENSATION
+// =================================
+
+export interface Dependents {
+  spouse: boolean;
+  spouseAidAndAttendance: boolean;
+  childrenUnder18: number;
+  schoolChildren: number;
+  /** Dependent parents, 0 to 2 */
+  parents: number;
+}
+
+export const NO_DEPENDENTS: Dependents = {
+  spouse: false,
+  spouseAidAndAttendance: false,
+  childrenUnder18: 0,
+  schoolChildren: 0,
+  parents: 0,
+};
+
+export interface MonthlyCompensation {
+  rateYear: number;
+  /** Rate for the veteran alone */
+  base: number;
+  /** Added for dependents */
+  dependents: number;
+  total: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Monthly dependent allowance in cents. At 30-90% VA pays the rating's
+ * share of the 100% amount, rounded down to a whole dollar.
+ */
+function getDependentCents(
+  rating: number,
+  dependents: Dependents,
+  rates: DependentRates
+): number {
+  if (rating < MIN_RATING_FOR_DEPENDENTS) return 0;
+
+  const share = (amount: number) =>
+    rating === 100
+      ? toCents(amount)
+      : Math.floor((toCents(amount) * rating) / 10000) * 100;
+  const children = Math.max(0, dependents.childrenUnder18);
+  let cents = 0;
+
+  if (dependents.spouse) {
+    cents += share(rates.spouse);
+    if (dependents.spouseAidAndAttendance) {
+      cents += share(rates.spouseAidAndAttendance);
+    }
+  }
+  if (children > 0) {
+    cents += share(rates.child) + (children - 1) * share(rates.additionalChild);
+  }
+  cents += Math.max(0, dependents.schoolChildren) * share(rates.schoolChild);
+  cents += Math.min(2, Math.max(0, dependents.parents)) * share(rates.parent);
+
+  return cents;
+}
+
+/**
+ * Estimated monthly compensation for a combined rating on `date`
+ */
+export function calculateMonthlyCompensation(
+  rating: number,
+  dependents: Dependents = NO_DEPENDENTS,
+  date: Date = new Date()
+): MonthlyCompensation {
+  if (!isValidRating(rating)) {
+    throw new CompensationError(
+      `${rating} is not a VA combined rating`,
+      'INVALID_RATING'
+    );
+  }
+
+  const table = getRateTable(date);
+  const baseCents = rating === 0 ? 0 : toCents(table.rates[rating] ?? 0);
+  const dependentCents = getDependentCents(
+    rating,
+    dependents,
+    table.dependents
+  );
+
+  return {
+    rateYear: table.year,
+    base: baseCents / 100,
+    dependents: dependentCents / 100,
+    total: (baseCents + dependentCents) / 100,
+  };
+}
+
+// =================================
+// BACK PAY
+// =================================
+
+export interface BackPayPeriod {
+  rateYear: number;
+  /** First and last months paid at this rate (YYYY-MM) */
+  from: string;
+  to: string;
+  months: number;
+  monthlyAmount: number;
+  total: number;
+}
+
+export interface BackPayEstimate {
+  /** Payments start the month after the effective date (38 CFR 3.31) */
+  paymentStart: string;
+  months: number;
+  periods: BackPayPeriod[];
+  total: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a YYYY-MM-DD date as midnight UTC
+ */
+export function parseDate(value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime())) {
+    throw new CompensationError(`Invalid date: ${value}`, 'INVALID_DATE');
+  }
+
+  return date;
+}
+
+/**
+ * Compensation owed from an effective date, month by month, at the rates
+ * in effect each month. Counts every month that has started by `through`.
+ */
+export function calculateBackPay(
+  rating: number,
+  dependents: Dependents,
+  effectiveDate: string,
+  through: Date = new Date()
+): BackPayEstimate {
+  const effective = parseDate(effectiveDate);
+  const month = new Date(
+    Date.UTC(effective.getUTCFullYear(), effective.getUTCMonth() + 1, 1)
+  );
+  const paymentStart = toDateString(month);
+  const periods: BackPayPeriod[] = [];
+  let totalCents = 0;
+
+  while (month <= through) {
+    const { rateYear, total } = calculateMonthlyCompensation(
+      rating,
+      dependents,
+      month
+    );
+    const key = toDateString(month).slice(0, 7);
+    const period = periods.at(-1);
+
+    if (period?.rateYear === rateYear) {
+      period.to = key;
+      period.months += 1;
+      period.total = (toCents(period.total) + toCents(total)) / 100;
+    } else {
+      periods.push({
+        rateYear,
+        from: key,
+        to: key,
+        months: 1,
+        monthlyAmount: total,
+        total,
+      });
+    }
+
+    totalCents += toCents(total);
+    month.setUTCMonth(month.getUTCMonth() + 1);
+  }
+
+  return {
+    paymentStart,
+    months: periods.reduce((sum, period) => sum + period.months, 0),
+    periods,
+    total: totalCents / 100,
+  };
+}
+
+// =================================
+// ESTIMATES
+// =================================
+
+export interface CompensationInput {
+  rating: number;
+  dependents: Dependents;
+  /** Effective date of the award (YYYY-MM-DD), for back pay */
+  effectiveDate?: string | undefined;
+}
+
+/**
+ * Estimate saved with an intake so the case team can see it
+ */
+export interface CompensationEstimate extends CompensationInput {
+  rateYear: number;
+  monthlyAmount: number;
+  backPay?: number | undefined;
+}
+
+export function createCompensationEstimate(
+  input: CompensationInput,
+  now: Date = new Date()
+): CompensationEstimate {
+  const monthly = calculateMonthlyCompensation(
+    input.rating,
+    input.dependents,
+    now
+  );
+
+  return {
+    ...input,
+    rateYear: monthly.rateYear,
+    monthlyAmount: monthly.total,
+    ...(input.effectiveDate && {
+      backPay: calculateBackPay(
+        input.rating,
+        input.dependents,
+        input.effectiveDate,
+        now
+      ).total,
+    }),
+  };
+}
+
+const dollars = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+});
+
+export function formatDollars(amount: number): string {
+  return dollars.format(amount);
+}
+
+/**
+ * Short description of a veteran's dependents, e.g. "Spouse, 2 children"
+ */
+export function describeDependents(dependents: Dependents): string {
+  const parts: string[] = [];
+  const children = (count: number) =>
+    `${count} ${count === 1 ? 'child' : 'children'}`;
+
+  if (dependents.spouse) {
+    parts.push(
+      dependents.spouseAidAndAttendance
+        ? 'Spouse (aid and attendance)'
+        : 'Spouse'
+    );
+  }
+  if (dependents.childrenUnder18 > 0) {
+    parts.push(`${children(dependents.childrenUnder18)} under 18`);
+  }
+  if (dependents.schoolChildren > 0) {
+    parts.push(`${children(dependents.schoolChildren)} in school`);
+  }
+  if (dependents.parents > 0) {
+    parts.push(
+      `${dependents.parents} ${dependents.parents === 1 ? 'parent' : 'parents'}`
+    );
+  }
+
+  return parts.length > 0 ? parts.join(', ') : 'No dependents';
+}
+
+// =================================
+// URL STATE
+// =================================
+
+const readCount = (params: URLSearchParams, key: string, max: number) => {
+  const value = Number(params.get(key));
+  return Number.isInteger(value) ? Math.min(max, Math.max(0, value)) : 0;
+};
+
+/**
+ * Read estimator inputs from the query string, so an estimate can be
+ * shared or carried into the intake wizard. Returns null without a valid
+ * rating.
+ */
+export function parseCompensationParams(
+  params: URLSearchParams
+): CompensationInput | null {
+  const rating = Number(params.get('rating'));
+  if (!params.has('rating') || !isValidRating(rating)) return null;
+
+  const spouse = params.get('spouse') === '1';
+  const effectiveDate = params.get('effective');
+  const input: CompensationInput = {
+    rating,
+    dependents: {
+      spouse,
+      spouseAidAndAttendance: spouse && params.get('aa') === '1',
+      childrenUnder18: readCount(params, 'children', 20),
+      schoolChildren: readCount(params, 'school', 20),
+      parents: readCount(params, 'parents', 2),
+    },
+  };
+
+  if (effectiveDate && /^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+    input.effectiveDate = effectiveDate;
+  }
+
+  return input;
+}
+
+export function serializeCompensationParams(input: CompensationInput): string {
+  const { dependents } = input;
+  const params = new URLSearchParams({ rating: String(input.rating) });
+
+  if (dependents.spouse) params.set('spouse', '1');
+  if (dependents.spouse && dependents.spouseAidAndAttendance) {
+    params.set('aa', '1');
+  }
+  if (dependents.childrenUnder18 > 0) {
+    params.set('children', String(dependents.childrenUnder18));
+  }
+  if (dependents.schoolChildren > 0) {
+    params.set('school', String(dependents.schoolChildren));
+  }
+  if (dependents.parents > 0) params.set('parents', String(dependents.parents));
+  if (input.effectiveDate) params.set('effective', input.effectiveDate);
+
+  return params.toString();
+}
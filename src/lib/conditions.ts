@@ -0,0 +1,238 @@
+/**
+ * Condition Catalog
+ * Commonly claimed conditions, their VA diagnostic codes and the evidence
+ * a claim for each needs. The catalog lives in the `conditions` table;
+ * the evidence items its rows refer to are defined here.
+ */
+
+import { Constants } from './database.types';
+import type {
+  BodySystem,
+  ClaimDocument,
+  Condition,
+  DocumentCategory,
+} from './supabase';
+
+// =================================
+// BODY SYSTEMS
+// =================================
+
+export const BODY_SYSTEMS = Constants.public.Enums.body_system;
+
+/** Body systems of the 38 CFR Part 4 rating schedule */
+export const BODY_SYSTEM_LABELS: Record<BodySystem, string> = {
+  musculoskeletal: 'Musculoskeletal',
+  eye: 'Eye',
+  ear: 'Ear',
+  infectious: 'Infectious Diseases',
+  respiratory: 'Respiratory',
+  cardiovascular: 'Cardiovascular',
+  digestive: 'Digestive',
+  genitourinary: 'Genitourinary',
+  gynecological: 'Gynecological',
+  hemic_lymphatic: 'Hemic and Lymphatic',
+  skin: 'Skin',
+  endocrine: 'Endocrine',
+  neurological: 'Neurological',
+  mental: 'Mental Disorders',
+  dental: 'Dental and Oral',
+};
+
+export function formatDiagnosticCode(code: string): string {
+  return `DC ${code}`;
+}
+
+// =================================
+// EVIDENCE
+// =================================
+
+export interface ConditionEvidence {
+  label: string;
+  /** Uploading a document in any of these categories covers the item */
+  categories: readonly DocumentCategory[];
+}
+
+/**
+ * Evidence items referred to by `conditions.required_evidence`
+ */
+export const CONDITION_EVIDENCE = {
+  service_record: {
+    label: 'DD-214 showing dates of service and duties',
+    categories: ['dd214'],
+  },
+  in_service_event: {
+    label:
+      'Service treatment records showing the in-service injury, illness or exposure',
+    categories: ['service_treatment_records', 'c_file'],
+  },
+  stressor: {
+    label: 'Statement or records corroborating the in-service stressor',
+    categories: ['service_treatment_records', 'c_file', 'other'],
+  },
+  current_diagnosis: {
+    label: 'Current diagnosis from a VA or private provider',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  primary_condition: {
+    label: 'VA decision or records for the condition it is secondary to',
+    categories: ['c_file', 'va_treatment_records', 'other'],
+  },
+  audiogram: {
+    label: 'Recent audiogram with speech recognition scores',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  imaging: {
+    label: 'X-ray or MRI of the affected area',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  sleep_study: {
+    label: 'Sleep study confirming the diagnosis',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  blood_pressure: {
+    label: 'Blood pressure readings taken over time',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  pulmonary_function_test: {
+    label: 'Pulmonary function test results',
+    categories: ['va_treatment_records', 'private_records'],
+  },
+  headache_log: {
+    label: 'Headache log showing how often attacks are prostrating',
+    categories: ['private_records', 'other'],
+  },
+} as const satisfies Record<string, ConditionEvidence>;
+
+export type ConditionEvidenceKey = keyof typeof CONDITION_EVIDENCE;
+
+export function isConditionEvidenceKey(
+  key: string
+): key is ConditionEvidenceKey {
+  return Object.hasOwn(CONDITION_EVIDENCE, key);
+}
+
+export interface EvidenceChecklistItem extends ConditionEvidence {
+  key: ConditionEvidenceKey;
+  /** Names of the claimed conditions that need this item */
+  conditions: string[];
+  /** Documents on the case that cover the item */
+  documentCount: number;
+  complete: boolean;
+}
+
+/**
+ * Evidence checklist for a case: every item its conditions need, with
+ * whether a document covering it is on file. Items shared by several
+ * conditions appear once. Only documents that passed their malware scan
+ * count; quarantined ones are still waiting or were rejected.
+ */
+export function buildEvidenceChecklist(
+  conditions: readonly Pick<Condition, 'name' | 'required_evidence'>[],
+  documents: readonly Pick<ClaimDocument, 'category' | 'scan_status'>[]
+): EvidenceChecklistItem[] {
+  const items = new Map<ConditionEvidenceKey, EvidenceChecklistItem>();
+  const cleared = documents.filter(
+    document => document.scan_status === 'clean'
+  );
+
+  for (const condition of conditions) {
+    for (const key of condition.required_evidence) {
+      if (!isConditionEvidenceKey(key)) continue;
+
+      const item = items.get(key);
+      if (item) {
+        item.conditions.push(condition.name);
+        continue;
+      }
+
+      const evidence: ConditionEvidence = CONDITION_EVIDENCE[key];
+      const documentCount = cleared.filter(document =>
+        evidence.categories.includes(document.category)
+      ).length;
+      items.set(key, {
+        key,
+        ...evidence,
+        conditions: [condition.name],
+        documentCount,
+        complete: documentCount > 0,
+      });
+    }
+  }
+
+  return [...items.values()];
+}
+
+// =================================
+// SEARCH
+// =================================
+
+/** Most suggestions the autocomplete shows */
+export const MAX_CONDITION_SUGGESTIONS = 8;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * How well a condition matches a search, lower is better, or null when it
+ * doesn't match. Names beat aliases, and prefixes beat substrings.
+ */
+function getMatchRank(condition: Condition, query: string): number | null {
+  const name = normalize(condition.name);
+  const aliases = condition.aliases.map(normalize);
+
+  if (condition.diagnostic_code === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (name.split(/[\s(]+/).some(word => word.startsWith(query))) return 2;
+  if (aliases.some(alias => alias.startsWith(query))) return 3;
+  if (name.includes(query)) return 4;
+  if (aliases.some(alias => alias.includes(query))) return 5;
+  return null;
+}
+
+/**
+ * Catalog conditions matching what the veteran has typed, by name, alias
+ * or diagnostic code
+ */
+export function searchConditions(
+  catalog: readonly Condition[],
+  query: string,
+  limit: number = MAX_CONDITION_SUGGESTIONS
+): Condition[] {
+  const search = normalize(query);
+  if (!search) return [];
+
+  return catalog
+    .flatMap(condition => {
+      const rank = condition.active ? getMatchRank(condition, search) : null;
+      return rank === null ? [] : [{ condition, rank }];
+    })
+    .sort(
+      (a, b) =>
+        a.rank - b.rank || a.condition.name.localeCompare(b.condition.name)
+    )
+    .slice(0, limit)
+    .map(({ condition }) => condition);
+}
+
+/**
+ * Catalog entry with exactly this name, ignoring case
+ */
+export function findCondition<T extends Pick<Condition, 'name'>>(
+  catalog: readonly T[],
+  name: string
+): T | undefined {
+  const search = normalize(name);
+  return catalog.find(condition => normalize(condition.name) === search);
+}
+
+/**
+ * Catalog conditions often claimed secondary to `condition`
+ */
+export function getSecondaryConditions(
+  condition: Pick<Condition, 'secondary_conditions'>,
+  catalog: readonly Condition[]
+): Condition[] {
+  return condition.secondary_conditions.flatMap(name => {
+    const secondary = findCondition(catalog, name);
+    return secondary ? [secondary] : [];
+  });
+}
@@ -4,10 +4,45 @@
  */
 
 import { supabase, createServerClient } from './supabase';
+import { Constants, type Json } from './database.types';
 import type {
   User,
   Claim,
   ActivityLog,
+  ClaimStatusHistory,
+  ClaimComment,
+  ClaimDocument,
+  Condition,
+  DocumentUploadSession,
+  ServicePeriod,
+  LetterTemplate,
+  LetterDraft,
+  LetterDraftVersion,
+  LetterTemplateUpdate,
+  QaReview,
+  ProviderProfile,
+  ProviderLicense,
+  ProviderVerificationStatus,
+  ProviderWorkload,
+  ClaimSlaEscalation,
+  IntakeDraft,
+  Lead,
+  LeadNote,
+  LeadStatus,
+  EmailLogEntry,
+  EmailLogInsert,
+  EmailLogUpdate,
+  Notification,
+  NotificationInsert,
+  WeeklyDigestRecord,
+  Job,
+  JobInsert,
+  JobStatus,
+  JobUpdate,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryInsert,
+  WebhookDeliveryUpdate,
   UserInsert,
   UserUpdate,
   ClaimInsert,
@@ -16,8 +51,96 @@ import type {
   UserRole,
   ClaimStatus,
   ClaimType,
+  CaseUrgency,
+  DocumentCategory,
+  DocumentScanStatus,
   ActivityType,
 } from './supabase';
+import {
+  claimSubmissionToInsert,
+  type ClaimSubmissionInput,
+} from './claim-types';
+import type {
+  ClaimCommentData,
+  ClaimDocumentUploadData,
+  ClaimDocumentUploadSessionData,
+  LetterDraftCreateData,
+  LetterDraftSaveData,
+  LetterTemplateData,
+  QaReviewDecisionData,
+  ProviderProfileData,
+  ProviderLicenseData,
+  ProviderVerificationData,
+  ProviderAvailabilityData,
+  ClaimAssignmentData,
+  NexusContactFormData,
+  LeadConversionData,
+  NotificationSettingsData,
+  ServicePeriodData,
+  WebhookSubscriptionData,
+} from './validations';
+import {
+  CLAIM_STATUS_LABELS,
+  RESOLVED_STATUSES,
+  ClaimWorkflowError,
+  assertTransition,
+  requiresApproval,
+  summarizeClaimStatuses,
+  type ClaimStats,
+} from './claim-workflow';
+import {
+  CLAIM_DOCUMENTS_BUCKET,
+  SIGNED_URL_EXPIRY_SECONDS,
+  buildDocumentPath,
+  createClaimDocumentInspector,
+  inspectClaimDocument,
+  validateClaimDocument,
+} from './claim-documents';
+import { sanitizeFileName } from './file-security';
+import type { ScanResult } from './malware-scanner';
+import {
+  CLAIM_DOCUMENT_UPLOADS_BUCKET,
+  buildChunkPath,
+  expectedChunkLength,
+} from './resumable-upload';
+import { LICENSE_EXPIRY_WARNING_DAYS } from './providers';
+import {
+  computeDueDate,
+  getSlaStatus,
+  isEscalationLevel,
+} from './case-sla';
+import {
+  CaseAssignmentError,
+  pickProvider,
+  type ProviderCandidate,
+} from './case-assignment';
+import {
+  instantiateTemplate,
+  type LetterDraftContent,
+} from './letter-drafts';
+import {
+  LeadError,
+  assertAccountLinkable,
+  assertLeadTransition,
+  canConvertLead,
+  contactSubmissionToLead,
+  getLeadName,
+  leadToClaimInsert,
+} from './leads';
+import { withNotificationSettings } from './notifications';
+import type {
+  DigestActivity,
+  DigestPeriod,
+  DigestRecipient,
+  WeeklyDigest,
+} from './weekly-digest';
+import { createWebhookSecret } from './webhooks';
+import {
+  intakeToClaimInsert,
+  type IntakeDraftData,
+  type IntakeSubmission,
+} from './intake';
+import { servicePeriodDataToRow } from './service-history';
 
 // Error types
 export class DatabaseError extends Error {
@@ -206,6 +329,23 @@ export const userHelpers = {
 // CLAIM OPERATIONS
 // =================================
 
+export interface StatusChangeOptions {
+  reason?: string;
+  assignedTo?: string;
+}
+
+/** Claims are due on the business-day calendar for their service tier */
+const withDueDate = (claimData: ClaimInsert): ClaimInsert => ({
+  ...claimData,
+  due_date:
+    claimData.due_date ??
+    computeDueDate(
+      claimData.created_at ?? new Date(),
+      claimData.urgency,
+      claimData.claim_type
+    ),
+});
+
 export const claimHelpers = {
   /**
    * Get claim by ID
@@ -252,12 +392,13 @@ export const claimHelpers = {
   },
 
   /**
-   * Create a new claim
+   * Create a new claim, due on the business-day calendar for its service
+   * tier unless a due date is given
    */
   async create(claimData: ClaimInsert): Promise<Claim> {
     const { data, error } = await supabase
       .from('claims')
-      .insert(claimData)
+      .insert(withDueDate(claimData))
       .select()
       .single();
 
@@ -272,6 +413,16 @@ export const claimHelpers = {
     return data;
   },
 
+  /**
+   * Create a claim from validated submission data (see claimSubmissionSchema)
+   */
+  async createFromSubmission(
+    userId: string,
+    submission: ClaimSubmissionInput
+  ): Promise<Claim> {
+    return this.create(claimSubmissionToInsert(userId, submission));
+  },
+
   /**
    * Update claim
    */
@@ -356,6 +507,7 @@ export const claimHelpers = {
       limit?: number;
       status?: ClaimStatus;
       claimType?: ClaimType;
+      urgency?: CaseUrgency;
       assignedTo?: string;
       search?: string;
     } = {}
@@ -365,6 +517,7 @@ export const claimHelpers = {
       limit = 20,
       status,
       claimType,
+      urgency,
       assignedTo,
       search,
     } = options;
@@ -381,13 +534,17 @@ export const claimHelpers = {
       query = query.eq('claim_type', claimType);
     }
 
+    if (urgency) {
+      query = query.eq('urgency', urgency);
+    }
+
     if (assignedTo) {
       query = query.eq('assigned_to', assignedTo);
     }
 
     if (search) {
       query = query.or(
-        `title.ilike.%${search}%,claim_number.ilike.%${search}%,description.ilike.%${search}%`
+        `title.ilike.%${search}%,claim_number.ilike.%${search}%,condition.ilike.%${search}%,description.ilike.%${search}%`
       );
     }
 
@@ -413,32 +570,48 @@ export const claimHelpers = {
   },
 
   /**
-   * Update claim status
+   * Move a claim to a new workflow status.
+   * Illegal moves, missing reasons and deliveries without a quality review
+   * approval are rejected before hitting the database; the
+   * `transition_claim_status` RPC re-checks them server side, and pushes
+   * the due date back by any time spent on hold.
    */
   async updateStatus(
     claimId: string,
     status: ClaimStatus,
-    assignedTo?: string
+    options: StatusChangeOptions = {}
   ): Promise<Claim> {
-    const updates: ClaimUpdate = {
-      status,
-      updated_at: new Date().toISOString(),
-    };
+    const claim = await claimHelpers.getById(claimId);
 
-    if (assignedTo) {
-      updates.assigned_to = assignedTo;
+    if (!claim) {
+      throw new DatabaseError(`Claim not found: ${claimId}`, 'PGRST116');
     }
 
-    if (status === 'approved' || status === 'rejected') {
-      updates.resolved_at = new Date().toISOString();
+    assertTransition(
+      claim.status,
+      status,
+      options.reason,
+      claim.held_from_status
+    );
+
+    if (
+      requiresApproval(claim.status ?? 'intake', status) &&
+      !(await qaReviewHelpers.hasApproval(claimId))
+    ) {
+      throw new ClaimWorkflowError(
+        `The letter must pass quality review before the claim can move to ${CLAIM_STATUS_LABELS[status]}`,
+        'APPROVAL_REQUIRED',
+        claim.status,
+        status
+      );
     }
 
-    const { data, error } = await supabase
-      .from('claims')
-      .update(updates)
-      .eq('id', claimId)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('transition_claim_status', {
+      p_claim_id: claimId,
+      p_to_status: status,
+      ...(options.reason && { p_reason: options.reason }),
+      ...(options.assignedTo && { p_assigned_to: options.assignedTo }),
+    });
 
     if (error) {
       throw new DatabaseError(
@@ -448,19 +621,44 @@ export const claimHelpers = {
       );
     }
 
+    // Cases reaching a physician without an assignee go to the engine;
+    // if nobody is available the case waits for staff to assign it
+    if (status === 'physician_review' && !data.assigned_to) {
+      try {
+        return await assignmentHelpers.autoAssign(claimId);
+      } catch (assignError) {
+        if (!(assignError instanceof CaseAssignmentError)) throw assignError;
+      }
+    }
+
     return data;
   },
 
+  /**
+   * Get the status transition history for a claim, oldest first
+   */
+  async getStatusHistory(claimId: string): Promise<ClaimStatusHistory[]> {
+    const { data, error } = await supabase
+      .from('claim_status_history')
+      .select('*')
+      .eq('claim_id', claimId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get claim status history: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
   /**
    * Get claims statistics
    */
-  async getStats(): Promise<{
-    total: number;
-    pending: number;
-    approved: number;
-    rejected: number;
-    underReview: number;
-  }> {
+  async getStats(): Promise<ClaimStats> {
     const { data, error } = await supabase.from('claims').select('status');
 
     if (error) {
@@ -471,32 +669,3487 @@ export const claimHelpers = {
       );
     }
 
-    const stats = {
-      total: data.length,
-      pending: 0,
-      approved: 0,
-      rejected: 0,
-      underReview: 0,
-    };
+    return summarizeClaimStatuses(data.map(claim => claim.status));
+  },
+};
 
-    data.forEach(claim => {
-      switch (claim.status) {
-        case 'pending':
-          stats.pending++;
-          break;
-        case 'approved':
-          stats.approved++;
-          break;
-        case 'rejected':
-          stats.rejected++;
-          break;
-        case 'under_review':
-          stats.underReview++;
-          break;
-      }
+// =================================
+// CLAIM COMMENT OPERATIONS
+// =================================
+
+export const commentHelpers = {
+  /**
+   * Get a claim's comment thread, oldest first.
+   * Internal notes are only returned when requested (and RLS allows it).
+   */
+  async listForClaim(
+    claimId: string,
+    options: { includeInternal?: boolean } = {}
+  ): Promise<ClaimComment[]> {
+    let query = supabase
+      .from('claim_comments')
+      .select('*')
+      .eq('claim_id', claimId);
+
+    if (!options.includeInternal) {
+      query = query.eq('is_internal', false);
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: true,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get claim comments: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Add a comment or internal note to a claim
+   */
+  async add(
+    claimId: string,
+    authorId: string,
+    comment: ClaimCommentData
+  ): Promise<ClaimComment> {
+    const { data, error } = await supabase
+      .from('claim_comments')
+      .insert({
+        claim_id: claimId,
+        author_id: authorId,
+        content: comment.content,
+        is_internal: comment.isInternal,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to add comment: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Edit a comment's content
+   */
+  async update(commentId: string, content: string): Promise<ClaimComment> {
+    const { data, error } = await supabase
+      .from('claim_comments')
+      .update({ content, updated_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update comment: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Delete a comment (staff only)
+   */
+  async delete(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('claim_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete comment: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+};
+
+// =================================
+// CLAIM DOCUMENT OPERATIONS
+// =================================
+
+// Record a file already in the vault, removing it again if that fails
+async function saveDocumentRecord(
+  documentId: string,
+  storagePath: string,
+  claimId: string,
+  uploadedBy: string,
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  details: ClaimDocumentUploadData
+): Promise<ClaimDocument> {
+  const serverClient = createServerClient();
+
+  const { data, error } = await serverClient
+    .from('claim_documents')
+    .insert({
+      id: documentId,
+      claim_id: claimId,
+      uploaded_by: uploadedBy,
+      category: details.category,
+      description: details.description || null,
+      file_name: sanitizeFileName(file.name),
+      storage_path: storagePath,
+      mime_type: file.type,
+      size_bytes: file.size,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave orphaned files in the bucket
+    await serverClient.storage
+      .from(CLAIM_DOCUMENTS_BUCKET)
+      .remove([storagePath]);
+
+    throw new DatabaseError(
+      `Failed to save document: ${error.message}`,
+      error.code,
+      error
+    );
+  }
+
+  return data;
+}
+
+async function* readStream(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const documentHelpers = {
+  /**
+   * Get documents attached to a claim, newest first
+   */
+  async listForClaim(
+    claimId: string,
+    options: { category?: DocumentCategory } = {}
+  ): Promise<ClaimDocument[]> {
+    let query = supabase
+      .from('claim_documents')
+      .select('*')
+      .eq('claim_id', claimId);
+
+    if (options.category) {
+      query = query.eq('category', options.category);
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get claim documents: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get document by ID
+   */
+  async getById(documentId: string): Promise<ClaimDocument | null> {
+    const { data, error } = await supabase
+      .from('claim_documents')
+      .select('*')
+      .eq('id', documentId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get document: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Get a document for rescanning, whoever uploaded it
+   */
+  async getForScan(documentId: string): Promise<ClaimDocument | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('claim_documents')
+      .select('*')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get document: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Inspect and store a document in the private vault. Callers must have
+   * already checked the uploader can access the claim.
+   */
+  async upload(
+    claimId: string,
+    uploadedBy: string,
+    file: File,
+    details: ClaimDocumentUploadData
+  ): Promise<ClaimDocument> {
+    const inspection = await inspectClaimDocument(file, details.category);
+
+    if (!inspection.isValid) {
+      throw new DatabaseError(
+        `Invalid document: ${inspection.errors.join(', ')}`,
+        'INVALID_FILE',
+        inspection.issues
+      );
+    }
+
+    const serverClient = createServerClient();
+    const documentId = crypto.randomUUID();
+    const storagePath = buildDocumentPath(claimId, documentId, file.name);
+
+    const { error: uploadError } = await serverClient.storage
+      .from(CLAIM_DOCUMENTS_BUCKET)
+      .upload(storagePath, inspection.sanitized ?? file, {
+        contentType: file.type,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new DatabaseError(
+        `Failed to upload document: ${uploadError.message}`,
+        'STORAGE_ERROR',
+        uploadError
+      );
+    }
+
+    return saveDocumentRecord(
+      documentId,
+      storagePath,
+      claimId,
+      uploadedBy,
+      file,
+      details
+    );
+  },
+
+  /**
+   * Inspect and store a document whose contents are read a piece at a
+   * time, such as a reassembled resumable upload. Pieces are inspected as
+   * they stream into storage, so the file is never held in memory; if
+   * inspection fails the stored file is removed again.
+   */
+  async uploadStream(
+    claimId: string,
+    uploadedBy: string,
+    file: Pick<File, 'name' | 'size' | 'type'>,
+    details: ClaimDocumentUploadData,
+    content: AsyncIterable<Uint8Array>
+  ): Promise<ClaimDocument> {
+    // Reject on the declared name, type and size before reading anything
+    const validation = validateClaimDocument(file, details.category);
+    if (!validation.isValid) {
+      throw new DatabaseError(
+        `Invalid document: ${validation.errors.join(', ')}`,
+        'INVALID_FILE',
+        validation.issues
+      );
+    }
+
+    const serverClient = createServerClient();
+    const bucket = serverClient.storage.from(CLAIM_DOCUMENTS_BUCKET);
+    const documentId = crypto.randomUUID();
+    const storagePath = buildDocumentPath(claimId, documentId, file.name);
+    const inspector = createClaimDocumentInspector(file, details.category);
+    const pieces = content[Symbol.asyncIterator]();
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await pieces.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        await inspector.write(value);
+        controller.enqueue(value);
+      },
+      async cancel() {
+        await pieces.return?.();
+      },
     });
 
-    return stats;
+    const { error: uploadError } = await bucket.upload(storagePath, body, {
+      contentType: file.type,
+      upsert: false,
+      duplex: 'half',
+    });
+
+    if (uploadError) {
+      throw new DatabaseError(
+        `Failed to upload document: ${uploadError.message}`,
+        'STORAGE_ERROR',
+        uploadError
+      );
+    }
+
+    const inspection = await inspector.finish();
+
+    if (!inspection.isValid) {
+      await bucket.remove([storagePath]);
+      throw new DatabaseError(
+        `Invalid document: ${inspection.errors.join(', ')}`,
+        'INVALID_FILE',
+        inspection.issues
+      );
+    }
+
+    // Images are small enough to keep; store them without their metadata
+    if (inspection.sanitized) {
+      const { error: sanitizeError } = await bucket.upload(
+        storagePath,
+        inspection.sanitized,
+        { contentType: file.type, upsert: true }
+      );
+
+      if (sanitizeError) {
+        await bucket.remove([storagePath]);
+        throw new DatabaseError(
+          `Failed to upload document: ${sanitizeError.message}`,
+          'STORAGE_ERROR',
+          sanitizeError
+        );
+      }
+    }
+
+    return saveDocumentRecord(
+      documentId,
+      storagePath,
+      claimId,
+      uploadedBy,
+      file,
+      details
+    );
+  },
+
+  /**
+   * Create a short-lived download URL for a document
+   */
+  async getSignedUrl(
+    documentId: string,
+    expiresIn: number = SIGNED_URL_EXPIRY_SECONDS
+  ): Promise<string> {
+    const document = await documentHelpers.getById(documentId);
+
+    if (!document) {
+      throw new DatabaseError(`Document not found: ${documentId}`, 'PGRST116');
+    }
+
+    if (document.scan_status !== 'clean') {
+      throw new DatabaseError(
+        'Document is quarantined until it passes a malware scan',
+        'QUARANTINED',
+        { scanStatus: document.scan_status }
+      );
+    }
+
+    const { data, error } = await supabase.storage
+      .from(CLAIM_DOCUMENTS_BUCKET)
+      .createSignedUrl(document.storage_path, expiresIn, {
+        download: document.file_name,
+      });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create download link: ${error.message}`,
+        'STORAGE_ERROR',
+        error
+      );
+    }
+
+    return data.signedUrl;
+  },
+
+  /**
+   * Stream a stored document's contents for a rescan
+   */
+  async download(
+    document: ClaimDocument
+  ): Promise<AsyncIterable<Uint8Array>> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient.storage
+      .from(CLAIM_DOCUMENTS_BUCKET)
+      .download(document.storage_path)
+      .asStream();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to download document: ${error.message}`,
+        'STORAGE_ERROR',
+        error
+      );
+    }
+
+    return readStream(data);
+  },
+
+  /**
+   * Store a malware scan verdict, releasing or keeping the document in
+   * quarantine
+   */
+  async recordScanResult(
+    documentId: string,
+    result: ScanResult
+  ): Promise<ClaimDocument> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('claim_documents')
+      .update({
+        scan_status: result.verdict,
+        scan_signature: result.signature ?? null,
+        scanner: result.scanner,
+        scanned_at: new Date().toISOString(),
+      })
+      .eq('id', documentId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to record scan result: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * List documents held in quarantine (admin only), oldest first
+   */
+  async listQuarantined(
+    options: { page?: number; limit?: number; scanStatus?: DocumentScanStatus } = {}
+  ): Promise<{ documents: ClaimDocument[]; total: number }> {
+    const { page = 1, limit = 50, scanStatus } = options;
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('claim_documents')
+      .select('*', { count: 'exact' });
+
+    query = scanStatus
+      ? query.eq('scan_status', scanStatus)
+      : query.neq('scan_status', 'clean');
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to list quarantined documents: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      documents: data || [],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Delete a document and its stored file
+   */
+  async delete(documentId: string): Promise<void> {
+    const document = await documentHelpers.getById(documentId);
+
+    if (!document) return;
+
+    const { error: storageError } = await supabase.storage
+      .from(CLAIM_DOCUMENTS_BUCKET)
+      .remove([document.storage_path]);
+
+    if (storageError) {
+      throw new DatabaseError(
+        `Failed to delete document file: ${storageError.message}`,
+        'STORAGE_ERROR',
+        storageError
+      );
+    }
+
+    const { error } = await supabase
+      .from('claim_documents')
+      .delete()
+      .eq('id', documentId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete document: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+};
+
+// =================================
+// RESUMABLE UPLOAD OPERATIONS
+// =================================
+
+// Read a completed session's staged chunks back in order
+async function* readStagedChunks(session: DocumentUploadSession) {
+  const bucket = createServerClient().storage.from(
+    CLAIM_DOCUMENT_UPLOADS_BUCKET
+  );
+
+  for (
+    let offset = 0;
+    offset < session.size_bytes;
+    offset += expectedChunkLength(session.size_bytes, offset)
+  ) {
+    const { data, error } = await bucket.download(
+      buildChunkPath(session.id, offset)
+    );
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to read chunk: ${error.message}`,
+        'STORAGE_ERROR',
+        error
+      );
+    }
+
+    yield new Uint8Array(await data.arrayBuffer());
+  }
+}
+
+/**
+ * Chunked upload sessions for large documents. All operations use the
+ * service role; the upload routes check the caller owns the session.
+ */
+export const uploadSessionHelpers = {
+  /**
+   * Start an upload session for a claim document
+   */
+  async create(
+    claimId: string,
+    createdBy: string,
+    details: ClaimDocumentUploadSessionData
+  ): Promise<DocumentUploadSession> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('document_upload_sessions')
+      .insert({
+        claim_id: claimId,
+        created_by: createdBy,
+        category: details.category,
+        description: details.description || null,
+        file_name: sanitizeFileName(details.fileName),
+        mime_type: details.mimeType,
+        size_bytes: details.size,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to start upload: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Get upload session by ID
+   */
+  async getById(sessionId: string): Promise<DocumentUploadSession | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('document_upload_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get upload: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Stage the chunk at `offset` and advance the session. The offset must
+   * equal the bytes received so far; a mismatch (e.g. a chunk resent
+   * after a lost response) throws OFFSET_MISMATCH so the client can
+   * resync.
+   */
+  async appendChunk(
+    session: DocumentUploadSession,
+    offset: number,
+    chunk: Uint8Array
+  ): Promise<DocumentUploadSession> {
+    if (offset !== session.received_bytes) {
+      throw new DatabaseError('Upload offset mismatch', 'OFFSET_MISMATCH', {
+        offset: session.received_bytes,
+      });
+    }
+
+    const expectedLength = expectedChunkLength(session.size_bytes, offset);
+    if (chunk.length !== expectedLength) {
+      throw new DatabaseError(
+        `Chunk must be ${expectedLength} bytes, got ${chunk.length}`,
+        'INVALID_CHUNK'
+      );
+    }
+
+    const serverClient = createServerClient();
+
+    const { error: uploadError } = await serverClient.storage
+      .from(CLAIM_DOCUMENT_UPLOADS_BUCKET)
+      .upload(buildChunkPath(session.id, offset), chunk, {
+        contentType: 'application/octet-stream',
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new DatabaseError(
+        `Failed to store chunk: ${uploadError.message}`,
+        'STORAGE_ERROR',
+        uploadError
+      );
+    }
+
+    // Only advance from the offset we checked, in case a concurrent
+    // request for the same chunk got there first
+    const { data, error } = await serverClient
+      .from('document_upload_sessions')
+      .update({ received_bytes: offset + chunk.length })
+      .eq('id', session.id)
+      .eq('received_bytes', offset)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update upload: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    if (!data) {
+      const current = await uploadSessionHelpers.getById(session.id);
+      throw new DatabaseError('Upload offset mismatch', 'OFFSET_MISMATCH', {
+        offset: current?.received_bytes ?? 0,
+      });
+    }
+
+    return data;
+  },
+
+  /**
+   * Reassemble a fully received upload and store it as a claim document.
+   * Chunks are read back one at a time, so memory use stays at one chunk
+   * whatever the file size. If reassembly or inspection fails the session
+   * is discarded and the client has to start over.
+   */
+  async complete(session: DocumentUploadSession): Promise<ClaimDocument> {
+    if (session.received_bytes !== session.size_bytes) {
+      throw new DatabaseError('Upload is incomplete', 'UPLOAD_INCOMPLETE', {
+        offset: session.received_bytes,
+      });
+    }
+
+    const serverClient = createServerClient();
+    let document: ClaimDocument;
+
+    try {
+      document = await documentHelpers.uploadStream(
+        session.claim_id,
+        session.created_by,
+        {
+          name: session.file_name,
+          size: session.size_bytes,
+          type: session.mime_type,
+        },
+        {
+          category: session.category,
+          ...(session.description && { description: session.description }),
+        },
+        readStagedChunks(session)
+      );
+    } catch (error) {
+      await uploadSessionHelpers.abort(session).catch(() => {});
+      throw error;
+    }
+
+    await serverClient
+      .from('document_upload_sessions')
+      .update({
+        document_id: document.id,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', session.id);
+
+    // Don't turn a stored document into a failed upload over cleanup
+    await uploadSessionHelpers
+      .removeChunks(session)
+      .catch(error => console.error('Failed to remove upload chunks:', error));
+
+    return document;
+  },
+
+  /**
+   * Cancel an upload, discarding any staged chunks
+   */
+  async abort(session: DocumentUploadSession): Promise<void> {
+    await uploadSessionHelpers.removeChunks(session);
+
+    const serverClient = createServerClient();
+    const { error } = await serverClient
+      .from('document_upload_sessions')
+      .delete()
+      .eq('id', session.id);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to cancel upload: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+
+  /**
+   * Discard uploads that expired before they were finished, with their
+   * staged chunks. Works through the oldest `limit`; the next run picks up
+   * the rest. Returns how many were discarded.
+   */
+  async abortExpired(
+    now: Date = new Date(),
+    limit: number = 100
+  ): Promise<number> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('document_upload_sessions')
+      .select('*')
+      .is('completed_at', null)
+      .lt('expires_at', now.toISOString())
+      .order('expires_at')
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get expired uploads: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    for (const session of data || []) {
+      await uploadSessionHelpers.abort(session);
+    }
+
+    return data?.length ?? 0;
+  },
+
+  /**
+   * Remove a session's staged chunks from storage
+   */
+  async removeChunks(session: DocumentUploadSession): Promise<void> {
+    const paths: string[] = [];
+    for (
+      let offset = 0;
+      offset < session.received_bytes;
+      offset += expectedChunkLength(session.size_bytes, offset)
+    ) {
+      paths.push(buildChunkPath(session.id, offset));
+    }
+
+    if (paths.length === 0) return;
+
+    const serverClient = createServerClient();
+    const { error } = await serverClient.storage
+      .from(CLAIM_DOCUMENT_UPLOADS_BUCKET)
+      .remove(paths);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to remove upload chunks: ${error.message}`,
+        'STORAGE_ERROR',
+        error
+      );
+    }
+  },
+};
+
+// =================================
+// LETTER TEMPLATE OPERATIONS
+// =================================
+
+export const letterTemplateHelpers = {
+  /**
+   * List templates, optionally for one condition
+   */
+  async list(
+    options: { condition?: string; includeInactive?: boolean } = {}
+  ): Promise<LetterTemplate[]> {
+    let query = supabase
+      .from('letter_templates')
+      .select('*')
+      .order('condition')
+      .order('name');
+
+    if (!options.includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    if (options.condition) {
+      query = query.ilike('condition', `%${options.condition}%`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get letter templates: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get template by ID
+   */
+  async getById(templateId: string): Promise<LetterTemplate | null> {
+    const { data, error } = await supabase
+      .from('letter_templates')
+      .select('*')
+      .eq('id', templateId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get letter template: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Create a template from validated data (see letterTemplateSchema)
+   */
+  async create(
+    createdBy: string,
+    template: LetterTemplateData
+  ): Promise<LetterTemplate> {
+    const { data, error } = await supabase
+      .from('letter_templates')
+      .insert({
+        slug: template.slug,
+        name: template.name,
+        condition: template.condition,
+        relationship: template.relationship,
+        description: template.description || null,
+        content: template.content,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create letter template: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Update a template. Drafts already started from it are not affected.
+   */
+  async update(
+    templateId: string,
+    updates: LetterTemplateUpdate
+  ): Promise<LetterTemplate> {
+    const { data, error } = await supabase
+      .from('letter_templates')
+      .update(updates)
+      .eq('id', templateId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update letter template: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// LETTER DRAFT OPERATIONS
+// =================================
+
+export interface LetterDraftWithContent {
+  draft: LetterDraft;
+  version: LetterDraftVersion;
+}
+
+export const letterDraftHelpers = {
+  /**
+   * Get a claim's drafts, most recently edited first
+   */
+  async listForClaim(claimId: string): Promise<LetterDraft[]> {
+    const { data, error } = await supabase
+      .from('letter_drafts')
+      .select('*')
+      .eq('claim_id', claimId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get letter drafts: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get draft by ID
+   */
+  async getById(draftId: string): Promise<LetterDraft | null> {
+    const { data, error } = await supabase
+      .from('letter_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get letter draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Get a draft together with its current version
+   */
+  async getWithContent(
+    draftId: string
+  ): Promise<LetterDraftWithContent | null> {
+    const draft = await this.getById(draftId);
+    if (!draft) return null;
+
+    const version = await this.getVersion(draftId, draft.current_version);
+    if (!version) {
+      throw new DatabaseError(
+        'Letter draft has no saved content',
+        'MISSING_VERSION',
+        { draftId, version: draft.current_version }
+      );
+    }
+
+    return { draft, version };
+  },
+
+  /**
+   * Start a draft with the given content as version 1
+   */
+  async create(
+    claimId: string,
+    createdBy: string,
+    details: LetterDraftCreateData,
+    content: LetterDraftContent
+  ): Promise<LetterDraftWithContent> {
+    const { data: draft, error } = await supabase
+      .from('letter_drafts')
+      .insert({
+        claim_id: claimId,
+        template_id: details.templateId || null,
+        title: details.title,
+        created_by: createdBy,
+        updated_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create letter draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    try {
+      const version = await this.save(draft.id, {
+        content,
+        changeSummary: 'Draft created',
+        expectedVersion: 0,
+      });
+      return { draft: { ...draft, current_version: version.version }, version };
+    } catch (saveError) {
+      // Don't leave a draft with no content behind
+      await supabase.from('letter_drafts').delete().eq('id', draft.id);
+      throw saveError;
+    }
+  },
+
+  /**
+   * Start a draft from a template, filling its merge fields from the
+   * claim and the veteran's profile
+   */
+  async createFromTemplate(
+    claimId: string,
+    createdBy: string,
+    details: LetterDraftCreateData & { templateId: string }
+  ): Promise<LetterDraftWithContent> {
+    const [template, claim] = await Promise.all([
+      letterTemplateHelpers.getById(details.templateId),
+      claimHelpers.getById(claimId),
+    ]);
+
+    if (!template) {
+      throw new DatabaseError('Letter template not found', 'NOT_FOUND', {
+        templateId: details.templateId,
+      });
+    }
+    if (!claim) {
+      throw new DatabaseError('Claim not found', 'NOT_FOUND', { claimId });
+    }
+
+    const veteran = await userHelpers.getById(claim.user_id);
+    if (!veteran) {
+      throw new DatabaseError('Veteran profile not found', 'NOT_FOUND', {
+        userId: claim.user_id,
+      });
+    }
+
+    const content = instantiateTemplate(template, { claim, veteran });
+    return this.create(claimId, createdBy, details, content);
+  },
+
+  /**
+   * Save the draft's content as a new version. Throws VERSION_CONFLICT when
+   * `expectedVersion` is given and someone else has saved since.
+   */
+  async save(
+    draftId: string,
+    details: LetterDraftSaveData
+  ): Promise<LetterDraftVersion> {
+    const { data, error } = await supabase.rpc('save_letter_draft', {
+      p_draft_id: draftId,
+      p_content: details.content,
+      ...(details.changeSummary && { p_change_summary: details.changeSummary }),
+      ...(details.expectedVersion !== undefined && {
+        p_expected_version: details.expectedVersion,
+      }),
+    });
+
+    if (error) {
+      // serialization_failure, raised by the stale version check
+      if (error.code === '40001') {
+        throw new DatabaseError(
+          'This draft was changed by someone else. Reload it to see their changes.',
+          'VERSION_CONFLICT',
+          error
+        );
+      }
+      throw new DatabaseError(
+        `Failed to save letter draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Get a draft's version history, newest first
+   */
+  async getVersions(draftId: string): Promise<LetterDraftVersion[]> {
+    const { data, error } = await supabase
+      .from('letter_draft_versions')
+      .select('*')
+      .eq('draft_id', draftId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get draft versions: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get one version of a draft
+   */
+  async getVersion(
+    draftId: string,
+    version: number
+  ): Promise<LetterDraftVersion | null> {
+    const { data, error } = await supabase
+      .from('letter_draft_versions')
+      .select('*')
+      .eq('draft_id', draftId)
+      .eq('version', version)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get draft version: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// QUALITY REVIEW OPERATIONS
+// =================================
+
+export const qaReviewHelpers = {
+  /**
+   * Get a claim's review rounds, latest first
+   */
+  async listForClaim(claimId: string): Promise<QaReview[]> {
+    const { data, error } = await supabase
+      .from('qa_reviews')
+      .select('*')
+      .eq('claim_id', claimId)
+      .order('round', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get quality reviews: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get reviews awaiting a decision, oldest submission first
+   */
+  async listPending(
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ reviews: QaReview[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await supabase
+      .from('qa_reviews')
+      .select('*', { count: 'exact' })
+      .eq('status', 'pending')
+      .order('submitted_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get review queue: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      reviews: data || [],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Whether the claim's current letter has been approved
+   */
+  async hasApproval(claimId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('has_qa_approval', {
+      p_claim_id: claimId,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to check quality review: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Submit a letter draft for review; moves the claim to qa_review
+   */
+  async submit(claimId: string, draftId: string): Promise<QaReview> {
+    const { data, error } = await supabase.rpc('submit_for_qa_review', {
+      p_claim_id: claimId,
+      p_draft_id: draftId,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to submit for review: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Record a reviewer's decision (see qaReviewDecisionSchema). Requesting
+   * changes moves the claim back to drafting.
+   */
+  async complete(
+    reviewId: string,
+    decision: QaReviewDecisionData
+  ): Promise<QaReview> {
+    const { data, error } = await supabase.rpc('complete_qa_review', {
+      p_review_id: reviewId,
+      p_decision: decision.decision,
+      p_checklist: decision.checklist,
+      ...(decision.comments && { p_comments: decision.comments }),
+      ...(decision.reviewerCredentials && {
+        p_reviewer_credentials: decision.reviewerCredentials,
+      }),
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to complete review: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// PROVIDER OPERATIONS
+// =================================
+
+export interface ProviderWithLicenses extends ProviderProfile {
+  licenses: ProviderLicense[];
+  user: Pick<User, 'full_name' | 'email'> | null;
+}
+
+const PROVIDER_SELECT =
+  '*, licenses:provider_licenses(*), user:users!provider_profiles_user_id_fkey(full_name, email)';
+
+export const providerHelpers = {
+  /**
+   * Get a provider's profile with their licenses
+   */
+  async getProfile(userId: string): Promise<ProviderWithLicenses | null> {
+    const { data, error } = await supabase
+      .from('provider_profiles')
+      .select(PROVIDER_SELECT)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get provider profile: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data as ProviderWithLicenses;
+  },
+
+  /**
+   * Create or update a provider's profile. Changing credentials sends the
+   * profile back for verification (enforced by the database).
+   */
+  async saveProfile(
+    userId: string,
+    profile: ProviderProfileData
+  ): Promise<ProviderProfile> {
+    const { data, error } = await supabase
+      .from('provider_profiles')
+      .upsert({
+        user_id: userId,
+        credentials: profile.credentials,
+        npi: profile.npi || null,
+        specialties: profile.specialties,
+        board_certifications: profile.boardCertifications,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to save provider profile: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Add a state license to a provider's profile
+   */
+  async addLicense(
+    providerId: string,
+    license: ProviderLicenseData
+  ): Promise<ProviderLicense> {
+    const { data, error } = await supabase
+      .from('provider_licenses')
+      .insert({
+        provider_id: providerId,
+        state: license.state,
+        license_number: license.licenseNumber,
+        expires_on: license.expiresOn,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to add license: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Record a renewed license's new expiry date
+   */
+  async renewLicense(
+    licenseId: string,
+    expiresOn: string
+  ): Promise<ProviderLicense> {
+    const { data, error } = await supabase
+      .from('provider_licenses')
+      .update({ expires_on: expiresOn })
+      .eq('id', licenseId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to renew license: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Remove a license
+   */
+  async removeLicense(licenseId: string): Promise<void> {
+    const { error } = await supabase
+      .from('provider_licenses')
+      .delete()
+      .eq('id', licenseId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to remove license: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+
+  /**
+   * List providers (admin view), optionally by verification status
+   */
+  async list(
+    options: {
+      page?: number;
+      limit?: number;
+      status?: ProviderVerificationStatus;
+    } = {}
+  ): Promise<{ providers: ProviderWithLicenses[]; total: number }> {
+    const { page = 1, limit = 20, status } = options;
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('provider_profiles')
+      .select(PROVIDER_SELECT, { count: 'exact' });
+
+    if (status) {
+      query = query.eq('verification_status', status);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to list providers: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      providers: (data || []) as ProviderWithLicenses[],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Approve, reject or suspend a provider (admin only)
+   */
+  async verify(
+    userId: string,
+    decision: ProviderVerificationData
+  ): Promise<ProviderProfile> {
+    const { data, error } = await supabase.rpc('verify_provider', {
+      p_user_id: userId,
+      p_status: decision.status,
+      ...(decision.notes && { p_notes: decision.notes }),
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update provider verification: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    if (decision.status === 'suspended') {
+      await assignmentHelpers.reassignFromProvider(
+        userId,
+        'Provider suspended'
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Set whether a provider takes new cases and how many they can hold.
+   * Going unavailable hands their open cases to other providers.
+   */
+  async setAvailability(
+    userId: string,
+    availability: ProviderAvailabilityData
+  ): Promise<ProviderProfile> {
+    const { data, error } = await supabase
+      .from('provider_profiles')
+      .update({
+        accepting_cases: availability.acceptingCases,
+        ...(availability.maxOpenCases && {
+          max_open_cases: availability.maxOpenCases,
+        }),
+      })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update provider availability: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    if (!availability.acceptingCases) {
+      await assignmentHelpers.reassignFromProvider(
+        userId,
+        'Provider unavailable'
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Licenses that have expired or expire within the warning window,
+   * soonest first (admin view)
+   */
+  async listExpiringLicenses(
+    withinDays: number = LICENSE_EXPIRY_WARNING_DAYS
+  ): Promise<ProviderLicense[]> {
+    const cutoff = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+
+    const { data, error } = await supabase
+      .from('provider_licenses')
+      .select('*')
+      .lte('expires_on', cutoff)
+      .order('expires_on', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get expiring licenses: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+};
+
+// =================================
+// CASE ASSIGNMENT OPERATIONS
+// =================================
+
+export interface ReassignmentResult {
+  reassigned: Claim[];
+  /** Cases left for staff to assign because no provider could take them */
+  unassigned: Claim[];
+}
+
+export const assignmentHelpers = {
+  /**
+   * Verified providers with their licenses, availability and workload
+   */
+  async getCandidates(): Promise<ProviderCandidate[]> {
+    const [profiles, workload] = await Promise.all([
+      supabase
+        .from('provider_profiles')
+        .select(
+          'user_id, specialties, verification_status, accepting_cases, max_open_cases, licenses:provider_licenses(state, license_number, expires_on)'
+        )
+        .eq('verification_status', 'verified'),
+      supabase.from('provider_workload').select('*'),
+    ]);
+
+    const error = profiles.error || workload.error;
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get provider workload: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    const workloadByProvider = new Map<string, ProviderWorkload>(
+      (workload.data || []).map(row => [row.user_id!, row])
+    );
+
+    return (profiles.data || []).map(profile => {
+      const load = workloadByProvider.get(profile.user_id);
+      return {
+        userId: profile.user_id,
+        specialties: profile.specialties,
+        verificationStatus: profile.verification_status,
+        acceptingCases: profile.accepting_cases,
+        maxOpenCases: profile.max_open_cases,
+        licenses: profile.licenses,
+        openCases: load?.open_cases ?? 0,
+        avgTurnaroundDays: load?.avg_turnaround_days ?? null,
+      };
+    });
+  },
+
+  /**
+   * Assign a claim to the best available provider
+   */
+  async autoAssign(
+    claimId: string,
+    options: {
+      exclude?: string[];
+      reason?: string;
+      candidates?: ProviderCandidate[];
+    } = {}
+  ): Promise<Claim> {
+    const claim = await claimHelpers.getById(claimId);
+
+    if (!claim) {
+      throw new DatabaseError(`Claim not found: ${claimId}`, 'PGRST116');
+    }
+
+    const candidates =
+      options.candidates ?? (await assignmentHelpers.getCandidates());
+    const { candidate } = pickProvider(claim, candidates, {
+      ...(options.exclude && { exclude: options.exclude }),
+    });
+
+    const assigned = await assignmentHelpers.assignTo(
+      claimId,
+      candidate.userId,
+      options.reason,
+      'automatic'
+    );
+
+    // Keep later picks in the same batch balanced
+    candidate.openCases += 1;
+
+    return assigned;
+  },
+
+  /**
+   * Manually override the engine's choice, or unassign with a null assignee
+   */
+  async assign(
+    claimId: string,
+    assignment: ClaimAssignmentData
+  ): Promise<Claim> {
+    return assignmentHelpers.assignTo(
+      claimId,
+      assignment.assigneeId,
+      assignment.reason,
+      'manual'
+    );
+  },
+
+  async assignTo(
+    claimId: string,
+    assigneeId: string | null,
+    reason: string | undefined,
+    method: 'automatic' | 'manual'
+  ): Promise<Claim> {
+    const { data, error } = await supabase.rpc('assign_claim', {
+      p_claim_id: claimId,
+      p_method: method,
+      ...(assigneeId && { p_assignee: assigneeId }),
+      ...(reason && { p_reason: reason }),
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to assign claim: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Move a provider's open cases to other providers, unassigning any that
+   * nobody can take
+   */
+  async reassignFromProvider(
+    providerId: string,
+    reason: string
+  ): Promise<ReassignmentResult> {
+    const { data: claims, error } = await supabase
+      .from('claims')
+      .select('*')
+      .eq('assigned_to', providerId)
+      .not('status', 'in', `(${RESOLVED_STATUSES.join(',')})`)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get provider cases: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    const result: ReassignmentResult = { reassigned: [], unassigned: [] };
+    if (!claims?.length) return result;
+
+    const candidates = await assignmentHelpers.getCandidates();
+
+    for (const claim of claims) {
+      try {
+        result.reassigned.push(
+          await assignmentHelpers.autoAssign(claim.id, {
+            exclude: [providerId],
+            reason,
+            candidates,
+          })
+        );
+      } catch (assignError) {
+        if (!(assignError instanceof CaseAssignmentError)) throw assignError;
+        result.unassigned.push(
+          await assignmentHelpers.assignTo(
+            claim.id,
+            null,
+            `${reason}; no other provider available`,
+            'automatic'
+          )
+        );
+      }
+    }
+
+    return result;
+  },
+};
+
+// =================================
+// SLA ESCALATION OPERATIONS
+// =================================
+
+export interface SlaEscalationWithClaim extends ClaimSlaEscalation {
+  claim: Pick<
+    Claim,
+    'id' | 'claim_number' | 'title' | 'status' | 'urgency' | 'assigned_to'
+  > | null;
+}
+
+export const slaHelpers = {
+  /**
+   * Raise escalations for open cases that are at risk or past their due
+   * date. Each level is raised once per due date. Returns the escalations
+   * raised by this run.
+   */
+  async runEscalations(now: Date = new Date()): Promise<ClaimSlaEscalation[]> {
+    const serverClient = createServerClient();
+
+    const { data: claims, error } = await serverClient
+      .from('claims')
+      .select('id, status, due_date, resolved_at, urgency, claim_type')
+      .not('due_date', 'is', null)
+      .not('status', 'in', `(${[...RESOLVED_STATUSES, 'on_hold'].join(',')})`);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get open claims: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    const escalations = (claims || []).flatMap(claim => {
+      const sla = getSlaStatus(claim, now);
+      return sla && isEscalationLevel(sla.state)
+        ? [
+            {
+              claim_id: claim.id,
+              level: sla.state,
+              due_date: sla.dueDate,
+              remaining_business_days: sla.remainingBusinessDays,
+            },
+          ]
+        : [];
+    });
+
+    if (escalations.length === 0) return [];
+
+    const { data, error: insertError } = await serverClient
+      .from('claim_sla_escalations')
+      .upsert(escalations, {
+        onConflict: 'claim_id,level,due_date',
+        ignoreDuplicates: true,
+      })
+      .select();
+
+    if (insertError) {
+      throw new DatabaseError(
+        `Failed to raise SLA escalations: ${insertError.message}`,
+        insertError.code,
+        insertError
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Escalations no admin has acknowledged yet, newest first
+   */
+  async listOpen(
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ escalations: SlaEscalationWithClaim[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await supabase
+      .from('claim_sla_escalations')
+      .select(
+        '*, claim:claims(id, claim_number, title, status, urgency, assigned_to)',
+        { count: 'exact' }
+      )
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get SLA escalations: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      escalations: (data || []) as SlaEscalationWithClaim[],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Mark an escalation as handled
+   */
+  async acknowledge(
+    escalationId: string,
+    userId: string
+  ): Promise<ClaimSlaEscalation> {
+    const { data, error } = await supabase
+      .from('claim_sla_escalations')
+      .update({
+        acknowledged_by: userId,
+        acknowledged_at: new Date().toISOString(),
+      })
+      .eq('id', escalationId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to acknowledge SLA escalation: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// INTAKE OPERATIONS
+// =================================
+
+export const intakeHelpers = {
+  /**
+   * Get the veteran's intake in progress, if any
+   */
+  async getOpenDraft(userId: string): Promise<IntakeDraft | null> {
+    const { data, error } = await supabase
+      .from('intake_drafts')
+      .select('*')
+      .eq('user_id', userId)
+      .is('completed_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get intake draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Autosave intake answers. Starts the veteran's draft on first save.
+   */
+  async saveDraft(
+    userId: string,
+    draft: { draftId?: string; data: IntakeDraftData; currentStep: number }
+  ): Promise<IntakeDraft> {
+    const values = {
+      data: draft.data as Json,
+      current_step: draft.currentStep,
+    };
+
+    const { data, error } = draft.draftId
+      ? await supabase
+          .from('intake_drafts')
+          .update(values)
+          .eq('id', draft.draftId)
+          .is('completed_at', null)
+          .select()
+          .single()
+      : await supabase
+          .from('intake_drafts')
+          .insert({ ...values, user_id: userId })
+          .select()
+          .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to save intake draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Turn a completed intake into a claim and close out its draft. The claim,
+   * its conditions and the draft are saved together or not at all
+   */
+  async complete(
+    userId: string,
+    intake: IntakeSubmission,
+    draftId?: string
+  ): Promise<Claim> {
+    // The catalog's secondary relationships inform the presumptive flag
+    const catalog = await conditionHelpers.list();
+    const conditionIds = intake.conditions.flatMap(condition =>
+      condition.conditionId ? [condition.conditionId] : []
+    );
+
+    const { data: claim, error } = await supabase.rpc('complete_intake', {
+      p_claim: withDueDate(intakeToClaimInsert(userId, intake, catalog)),
+      p_condition_ids: conditionIds,
+      ...(draftId && {
+        p_draft_id: draftId,
+        p_data: intake as unknown as Json,
+      }),
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to complete intake: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return claim;
+  },
+
+  /**
+   * Discard an intake in progress to start over
+   */
+  async discardDraft(draftId: string): Promise<void> {
+    const { error } = await supabase
+      .from('intake_drafts')
+      .delete()
+      .eq('id', draftId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to discard intake draft: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+};
+
+// =================================
+// LEAD OPERATIONS
+// =================================
+
+export interface LeadWithAssignee extends Lead {
+  assignee: Pick<User, 'id' | 'full_name' | 'email'> | null;
+}
+
+export interface LeadNoteWithAuthor extends LeadNote {
+  author: Pick<User, 'id' | 'full_name'> | null;
+}
+
+export interface LeadConversionResult {
+  lead: Lead;
+  user: User;
+  claim: Claim;
+  /** Whether a new account was created and the veteran invited to it */
+  invited: boolean;
+}
+
+const LEAD_SELECT =
+  '*, assignee:users!leads_assigned_to_fkey(id, full_name, email)';
+
+export const leadHelpers = {
+  /**
+   * Store a contact page submission. Written with the service role, as
+   * the contact form is public and leads are only readable by staff.
+   */
+  async create(submission: NexusContactFormData): Promise<Lead> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('leads')
+      .insert(contactSubmissionToLead(submission))
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to save inquiry: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Lead inbox, newest first
+   */
+  async list(
+    options: {
+      page?: number;
+      limit?: number;
+      status?: LeadStatus;
+      assignedTo?: string;
+    } = {}
+  ): Promise<{ leads: LeadWithAssignee[]; total: number }> {
+    const { page = 1, limit = 20, status, assignedTo } = options;
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('leads')
+      .select(LEAD_SELECT, { count: 'exact' });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    if (assignedTo) {
+      query = query.eq('assigned_to', assignedTo);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get leads: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      leads: (data || []) as LeadWithAssignee[],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Get a lead by ID
+   */
+  async getById(leadId: string): Promise<LeadWithAssignee | null> {
+    const { data, error } = await supabase
+      .from('leads')
+      .select(LEAD_SELECT)
+      .eq('id', leadId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      throw new DatabaseError(
+        `Failed to get lead: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data as LeadWithAssignee;
+  },
+
+  /**
+   * Mark a lead contacted, spam or back to new
+   */
+  async updateStatus(lead: Lead, status: LeadStatus): Promise<Lead> {
+    assertLeadTransition(lead, status);
+
+    const { data, error } = await supabase
+      .from('leads')
+      .update({ status })
+      .eq('id', lead.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update lead status: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Assign a lead to a staff member; null unassigns
+   */
+  async assign(leadId: string, assigneeId: string | null): Promise<Lead> {
+    const { data, error } = await supabase
+      .from('leads')
+      .update({ assigned_to: assigneeId })
+      .eq('id', leadId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to assign lead: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Get a lead's notes, oldest first
+   */
+  async getNotes(leadId: string): Promise<LeadNoteWithAuthor[]> {
+    const { data, error } = await supabase
+      .from('lead_notes')
+      .select('*, author:users!lead_notes_author_id_fkey(id, full_name)')
+      .eq('lead_id', leadId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get lead notes: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return (data || []) as LeadNoteWithAuthor[];
+  },
+
+  /**
+   * Add a staff note to a lead
+   */
+  async addNote(
+    leadId: string,
+    authorId: string,
+    content: string
+  ): Promise<LeadNote> {
+    const { data, error } = await supabase
+      .from('lead_notes')
+      .insert({ lead_id: leadId, author_id: authorId, content })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to add lead note: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Convert a lead into a veteran account with an open claim. A veteran
+   * without an account is invited by email. An existing veteran account
+   * with the lead's email is only used once staff confirm it by passing its
+   * id as `linkToUserId`; until then this throws ACCOUNT_EXISTS.
+   */
+  async convert(
+    leadId: string,
+    convertedBy: string,
+    options: LeadConversionData = {}
+  ): Promise<LeadConversionResult> {
+    const serverClient = createServerClient();
+
+    const { data: lead, error: leadError } = await serverClient
+      .from('leads')
+      .select('*')
+      .eq('id', leadId)
+      .single();
+
+    if (leadError || !lead) {
+      throw new DatabaseError(
+        `Failed to get lead: ${leadError?.message ?? 'not found'}`,
+        leadError?.code,
+        leadError
+      );
+    }
+
+    if (!canConvertLead(lead)) {
+      throw new LeadError(
+        lead.status === 'converted'
+          ? 'This lead has already been converted'
+          : 'Restore this lead before converting it',
+        'NOT_CONVERTIBLE',
+        lead.id
+      );
+    }
+
+    const { data: existingUser, error: userError } = await serverClient
+      .from('users')
+      .select('*')
+      .eq('email', lead.email)
+      .maybeSingle();
+
+    if (userError) {
+      throw new DatabaseError(
+        `Failed to look up user: ${userError.message}`,
+        userError.code,
+        userError
+      );
+    }
+
+    assertAccountLinkable(lead, existingUser, options.linkToUserId);
+
+    let user = existingUser;
+    let invitedUserId: string | null = null;
+
+    // Remove an account invited for this conversion if the conversion
+    // fails, so the lead can be converted again
+    const discardInvite = async () => {
+      if (!invitedUserId) return;
+      await serverClient.from('users').delete().eq('id', invitedUserId);
+      const { error } =
+        await serverClient.auth.admin.deleteUser(invitedUserId);
+      if (error) {
+        console.error('Failed to remove invited user:', invitedUserId, error);
+      }
+    };
+
+    if (!user) {
+      const { data: invite, error: inviteError } =
+        await serverClient.auth.admin.inviteUserByEmail(lead.email, {
+          data: { full_name: getLeadName(lead) },
+        });
+
+      if (inviteError || !invite.user) {
+        throw new DatabaseError(
+          `Failed to invite veteran: ${inviteError?.message ?? 'no user returned'}`,
+          inviteError?.code,
+          inviteError
+        );
+      }
+
+      invitedUserId = invite.user.id;
+
+      const { data: created, error: createError } = await serverClient
+        .from('users')
+        .insert({
+          id: invite.user.id,
+          email: lead.email,
+          full_name: getLeadName(lead),
+          phone: lead.phone,
+          role: 'user',
+        })
+        .select()
+        .single();
+
+      if (createError) {
+        await discardInvite();
+        throw new DatabaseError(
+          `Failed to create user: ${createError.message}`,
+          createError.code,
+          createError
+        );
+      }
+
+      user = created;
+    }
+
+    // The lead may have been converted since it was checked above; the
+    // function locks it and fails rather than opening a second claim
+    const { data: claim, error: claimError } = await serverClient.rpc(
+      'convert_lead',
+      {
+        p_lead_id: lead.id,
+        p_user_id: user.id,
+        p_claim: withDueDate(leadToClaimInsert(user.id, lead)),
+        p_converted_by: convertedBy,
+      }
+    );
+
+    if (claimError) {
+      await discardInvite();
+
+      if (claimError.code === '23514') {
+        throw new LeadError(
+          'This lead has already been converted',
+          'NOT_CONVERTIBLE',
+          lead.id
+        );
+      }
+
+      throw new DatabaseError(
+        `Failed to convert lead: ${claimError.message}`,
+        claimError.code,
+        claimError
+      );
+    }
+
+    const { data: converted, error: convertError } = await serverClient
+      .from('leads')
+      .select('*')
+      .eq('id', lead.id)
+      .single();
+
+    if (convertError) {
+      throw new DatabaseError(
+        `Failed to get converted lead: ${convertError.message}`,
+        convertError.code,
+        convertError
+      );
+    }
+
+    return { lead: converted, user, claim, invited: !existingUser };
+  },
+};
+
+// =================================
+// EMAIL OPERATIONS
+// =================================
+
+/**
+ * Transactional email outbox (see lib/email), written with the service
+ * role
+ */
+export const emailHelpers = {
+  /**
+   * Queue a message for delivery
+   */
+  async enqueue(entry: EmailLogInsert): Promise<EmailLogEntry> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('email_log')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to queue email: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Pending messages whose next attempt is due, oldest first
+   */
+  async getDue(
+    limit: number = 50,
+    now: Date = new Date()
+  ): Promise<EmailLogEntry[]> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('email_log')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get due emails: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Take a due message for sending by pushing its next attempt back to
+   * `until`. Returns null when another dispatcher got there first.
+   */
+  async lease(
+    entry: EmailLogEntry,
+    until: Date
+  ): Promise<EmailLogEntry | null> {
+    const serverClient = createServerClient();
+
+    let query = serverClient
+      .from('email_log')
+      .update({ next_attempt_at: until.toISOString() })
+      .eq('id', entry.id)
+      .eq('status', 'pending');
+
+    query = entry.next_attempt_at
+      ? query.eq('next_attempt_at', entry.next_attempt_at)
+      : query.is('next_attempt_at', null);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to lease email: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(
+    emailId: string,
+    update: EmailLogUpdate
+  ): Promise<EmailLogEntry> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('email_log')
+      .update(update)
+      .eq('id', emailId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to record email attempt: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// NOTIFICATION OPERATIONS
+// =================================
+
+export type NotificationRecipient = Pick<
+  User,
+  'id' | 'email' | 'full_name' | 'preferences'
+>;
+
+export const notificationHelpers = {
+  /**
+   * A user's notifications, newest first
+   */
+  async list(
+    userId: string,
+    options: { limit?: number; unreadOnly?: boolean } = {}
+  ): Promise<Notification[]> {
+    const { limit = 20, unreadOnly = false } = options;
+
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get notifications: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Number of unread notifications, for the header bell
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to count unread notifications: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return count || 0;
+  },
+
+  /**
+   * Mark one notification read
+   */
+  async markRead(notificationId: string): Promise<Notification> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to mark notification read: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Mark all of a user's unread notifications read. Returns how many
+   * were updated.
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to mark notifications read: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data?.length ?? 0;
+  },
+
+  /**
+   * Save a user's notification settings into `users.preferences`
+   */
+  async updateSettings(
+    user: Pick<User, 'id' | 'preferences'>,
+    settings: NotificationSettingsData
+  ): Promise<User> {
+    return userHelpers.update(user.id, {
+      preferences: withNotificationSettings(user.preferences, settings),
+    });
+  },
+
+  /**
+   * Contact details and settings for a notification recipient
+   */
+  async getRecipient(userId: string): Promise<NotificationRecipient | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('users')
+      .select('id, email, full_name, preferences')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get notification recipient: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Add a notification to a user's notification center. Use notifyUser
+   * (lib/notification-dispatcher) to honour their settings.
+   */
+  async create(notification: NotificationInsert): Promise<Notification> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('notifications')
+      .insert(notification)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create notification: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// WEEKLY DIGEST OPERATIONS
+// =================================
+
+/**
+ * Data for weekly digests (see lib/weekly-digest), which cover every user
+ * and case
+ */
+export const digestHelpers = {
+  /**
+   * Users who turned on weeklyDigest
+   */
+  async getRecipients(): Promise<DigestRecipient[]> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('users')
+      .select('id, email, full_name, role, preferences')
+      .eq('preferences->notifications->>weeklyDigest', 'true');
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get digest recipients: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * A single user, whatever their settings (for previews)
+   */
+  async getRecipient(userId: string): Promise<DigestRecipient | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('users')
+      .select('id, email, full_name, role, preferences')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get digest recipient: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Open cases and the status changes since the period began. Business
+   * dates start a few hours after UTC midnight, so this loads slightly
+   * more than the period; compileDigest keeps exactly the period.
+   */
+  async getActivity(period: DigestPeriod): Promise<DigestActivity> {
+    const serverClient = createServerClient();
+
+    const [claimsResult, historyResult] = await Promise.all([
+      serverClient
+        .from('claims')
+        .select(
+          'id, claim_number, title, status, due_date, resolved_at, urgency, claim_type, user_id, assigned_to'
+        )
+        .not('status', 'in', `(${RESOLVED_STATUSES.join(',')})`),
+      serverClient
+        .from('claim_status_history')
+        .select(
+          'claim_id, from_status, to_status, created_at, claim:claims(claim_number, title, user_id, assigned_to)'
+        )
+        .gte('created_at', period.start)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    const error = claimsResult.error ?? historyResult.error;
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get digest activity: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      openClaims: claimsResult.data || [],
+      statusChanges: historyResult.data || [],
+    };
+  },
+
+  /**
+   * Record a user's digest for its period. Returns null when they already
+   * have one.
+   */
+  async record(
+    userId: string,
+    digest: WeeklyDigest
+  ): Promise<WeeklyDigestRecord | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('weekly_digests')
+      .upsert(
+        {
+          user_id: userId,
+          period_start: digest.period.start,
+          period_end: digest.period.end,
+          sections: digest.sections as unknown as Json,
+        },
+        { onConflict: 'user_id,period_start', ignoreDuplicates: true }
+      )
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to record weekly digest: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// JOB OPERATIONS
+// =================================
+
+/**
+ * Background job queue (see lib/job-queue). Workers enqueue, claim and
+ * record jobs with the service role; admins inspect and retry dead jobs.
+ */
+export const jobHelpers = {
+  /**
+   * Enqueue a job. Returns null when a job with the same unique_key
+   * already exists.
+   */
+  async enqueue(job: JobInsert): Promise<Job | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = job.unique_key
+      ? await serverClient
+          .from('jobs')
+          .upsert(job, { onConflict: 'unique_key', ignoreDuplicates: true })
+          .select()
+          .maybeSingle()
+      : await serverClient.from('jobs').insert(job).select().single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to enqueue job: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Claim up to `limit` due jobs for a worker
+   */
+  async claim(
+    workerId: string,
+    limit: number,
+    lockSeconds: number
+  ): Promise<Job[]> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient.rpc('claim_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lock_seconds: lockSeconds,
+    });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to claim jobs: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Mark a job completed. Returns null when the worker no longer holds it.
+   */
+  async complete(
+    jobId: string,
+    workerId: string,
+    result: Json
+  ): Promise<Job | null> {
+    return this.release(jobId, workerId, {
+      status: 'completed',
+      result,
+      completed_at: new Date().toISOString(),
+      locked_by: null,
+      locked_until: null,
+      last_error: null,
+    });
+  },
+
+  /**
+   * Record a failed run (see getFailureUpdate). Returns null when the
+   * worker no longer holds the job.
+   */
+  async fail(
+    jobId: string,
+    workerId: string,
+    update: JobUpdate
+  ): Promise<Job | null> {
+    return this.release(jobId, workerId, update);
+  },
+
+  /**
+   * Update a running job, provided `workerId` still holds it
+   */
+  async release(
+    jobId: string,
+    workerId: string,
+    update: JobUpdate
+  ): Promise<Job | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('jobs')
+      .update(update)
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('locked_by', workerId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update job: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Delete completed jobs finished before `before`
+   */
+  async deleteCompleted(before: Date): Promise<number> {
+    const serverClient = createServerClient();
+
+    const { count, error } = await serverClient
+      .from('jobs')
+      .delete({ count: 'exact' })
+      .eq('status', 'completed')
+      .lt('completed_at', before.toISOString());
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete completed jobs: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return count || 0;
+  },
+
+  /**
+   * Jobs page (admin only), most recently updated first
+   */
+  async list(
+    options: {
+      page?: number;
+      limit?: number;
+      status?: JobStatus;
+      type?: string;
+    } = {}
+  ): Promise<{ jobs: Job[]; total: number }> {
+    const { page = 1, limit = 20, status, type } = options;
+    const offset = (page - 1) * limit;
+
+    let query = supabase.from('jobs').select('*', { count: 'exact' });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    const { data, error, count } = await query
+      .order('updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get jobs: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      jobs: data || [],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Number of jobs in each status (admin only)
+   */
+  async getStatusCounts(): Promise<Record<JobStatus, number>> {
+    const statuses = Constants.public.Enums.job_status;
+
+    const results = await Promise.all(
+      statuses.map(status =>
+        supabase
+          .from('jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('status', status)
+      )
+    );
+
+    const failed = results.find(result => result.error)?.error;
+    if (failed) {
+      throw new DatabaseError(
+        `Failed to count jobs: ${failed.message}`,
+        failed.code,
+        failed
+      );
+    }
+
+    return Object.fromEntries(
+      statuses.map((status, index) => [status, results[index]?.count || 0])
+    ) as Record<JobStatus, number>;
+  },
+
+  /**
+   * Put a dead job back in the queue with fresh attempts (admin only)
+   */
+  async retry(jobId: string): Promise<Job> {
+    const { data, error } = await supabase
+      .from('jobs')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        run_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('status', 'dead')
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new DatabaseError(
+          'Only failed jobs can be retried',
+          'NOT_RETRYABLE'
+        );
+      }
+      throw new DatabaseError(
+        `Failed to retry job: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// WEBHOOK OPERATIONS
+// =================================
+
+export interface DueWebhookDelivery extends WebhookDelivery {
+  subscription: Pick<WebhookSubscription, 'url' | 'secret' | 'active'> | null;
+}
+
+/**
+ * Webhook subscriptions (admin only) and their deliveries (see
+ * lib/webhook-delivery). Deliveries are queued by the database and sent
+ * with the service role.
+ */
+export const webhookHelpers = {
+  /**
+   * All subscriptions, oldest first
+   */
+  async list(): Promise<WebhookSubscription[]> {
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get webhooks: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Add a subscription with a new signing secret
+   */
+  async create(
+    subscription: WebhookSubscriptionData,
+    createdBy: string
+  ): Promise<WebhookSubscription> {
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .insert({
+        ...subscription,
+        secret: createWebhookSecret(),
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create webhook: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Change a subscription's endpoint or events, or pause it
+   */
+  async update(
+    subscriptionId: string,
+    changes: Partial<WebhookSubscriptionData>
+  ): Promise<WebhookSubscription> {
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .update(changes)
+      .eq('id', subscriptionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update webhook: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Remove a subscription and its delivery log
+   */
+  async delete(subscriptionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('webhook_subscriptions')
+      .delete()
+      .eq('id', subscriptionId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete webhook: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+  },
+
+  /**
+   * A subscription's delivery attempts log, newest first
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' })
+      .eq('subscription_id', subscriptionId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get webhook deliveries: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return {
+      deliveries: data || [],
+      total: count || 0,
+    };
+  },
+
+  /**
+   * Get a subscription with its secret
+   */
+  async getSubscription(
+    subscriptionId: string
+  ): Promise<WebhookSubscription | null> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('id', subscriptionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get webhook: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first (server
+   * only). Deliveries for paused subscriptions wait where they are, so
+   * they can't fill the batch and hold up everyone else's.
+   */
+  async getDueDeliveries(
+    limit: number = 50,
+    now: Date = new Date()
+  ): Promise<DueWebhookDelivery[]> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('webhook_deliveries')
+      .select(
+        '*, subscription:webhook_subscriptions!inner(url, secret, active)'
+      )
+      .eq('subscription.active', true)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get due webhook deliveries: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Take a due delivery for sending by pushing its next attempt back to
+   * `until`. Returns null when another dispatcher got there first.
+   */
+  async leaseDelivery(
+    delivery: WebhookDelivery,
+    until: Date
+  ): Promise<WebhookDelivery | null> {
+    const serverClient = createServerClient();
+
+    let query = serverClient
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: until.toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'pending');
+
+    query = delivery.next_attempt_at
+      ? query.eq('next_attempt_at', delivery.next_attempt_at)
+      : query.is('next_attempt_at', null);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to lease webhook delivery: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Log a delivery that is sent straight away, e.g. a test ping (server
+   * only)
+   */
+  async createDelivery(
+    delivery: WebhookDeliveryInsert
+  ): Promise<WebhookDelivery> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('webhook_deliveries')
+      .insert(delivery)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to log webhook delivery: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  async recordAttempt(
+    deliveryId: string,
+    update: WebhookDeliveryUpdate
+  ): Promise<WebhookDelivery> {
+    const serverClient = createServerClient();
+
+    const { data, error } = await serverClient
+      .from('webhook_deliveries')
+      .update(update)
+      .eq('id', deliveryId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to record webhook attempt: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+};
+
+// =================================
+// CONDITION OPERATIONS
+// =================================
+
+export const conditionHelpers = {
+  /**
+   * Get the active condition catalog, by name
+   */
+  async list(): Promise<Condition[]> {
+    const { data, error } = await supabase
+      .from('conditions')
+      .select('*')
+      .eq('active', true)
+      .order('name');
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get conditions: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Get the catalog conditions claimed on a case
+   */
+  async listForClaim(claimId: string): Promise<Condition[]> {
+    const { data, error } = await supabase
+      .from('claim_conditions')
+      .select('condition:conditions(*)')
+      .eq('claim_id', claimId)
+      .order('created_at');
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get claim conditions: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return (data || []).flatMap(row => (row.condition ? [row.condition] : []));
+  },
+};
+
+// =================================
+// SERVICE HISTORY OPERATIONS
+// =================================
+
+export const serviceHistoryHelpers = {
+  /**
+   * Get a veteran's periods of service, earliest first
+   */
+  async list(userId: string): Promise<ServicePeriod[]> {
+    const { data, error } = await supabase
+      .from('service_periods')
+      .select('*')
+      .eq('user_id', userId)
+      .order('entry_date');
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get service history: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Add a period of service, or update one when an ID is given
+   */
+  async save(
+    userId: string,
+    period: ServicePeriodData,
+    periodId?: string
+  ): Promise<ServicePeriod> {
+    const values = servicePeriodDataToRow(period);
+
+    const { data, error } = periodId
+      ? await supabase
+          .from('service_periods')
+          .update(values)
+          .eq('id', periodId)
+          .select()
+          .single()
+      : await supabase
+          .from('service_periods')
+          .insert({ ...values, user_id: userId })
+          .select()
+          .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to save service period: ${error.message}`,
+        error.code,
+        error
+      );
+    }
+
+    return data;
+  },
+
+  async delete(periodId: string): Promise<void> {
+    const { error } = await supabase
+      .from('service_periods')
+      .delete()
+      .eq('id', periodId);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete service period: ${error.message}`,
+        error.code,
+        error
+      );
+    }
   },
 };
 
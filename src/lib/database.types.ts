@@ -84,77 +84,1265 @@ export type Database = {
           },
         ]
       }
+      claim_comments: {
+        Row: {
+          author_id: string | null
+          claim_id: string
+          content: string
+          created_at: string | null
+          id: string
+          is_internal: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          claim_id: string
+          content: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          claim_id?: string
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_internal?: boolean
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claim_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_comments_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_conditions: {
+        Row: {
+          claim_id: string
+          condition_id: string
+          created_at: string | null
+        }
+        Insert: {
+          claim_id: string
+          condition_id: string
+          created_at?: string | null
+        }
+        Update: {
+          claim_id?: string
+          condition_id?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claim_conditions_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_conditions_condition_id_fkey"
+            columns: ["condition_id"]
+            isOneToOne: false
+            referencedRelation: "conditions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_documents: {
+        Row: {
+          category: Database["public"]["Enums"]["document_category"]
+          claim_id: string
+          created_at: string | null
+          description: string | null
+          file_name: string
+          id: string
+          mime_type: string
+          scan_signature: string | null
+          scan_status: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at: string | null
+          scanner: string | null
+          size_bytes: number
+          storage_path: string
+          updated_at: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["document_category"]
+          claim_id: string
+          created_at?: string | null
+          description?: string | null
+          file_name: string
+          id?: string
+          mime_type: string
+          scan_signature?: string | null
+          scan_status?: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at?: string | null
+          scanner?: string | null
+          size_bytes: number
+          storage_path: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["document_category"]
+          claim_id?: string
+          created_at?: string | null
+          description?: string | null
+          file_name?: string
+          id?: string
+          mime_type?: string
+          scan_signature?: string | null
+          scan_status?: Database["public"]["Enums"]["document_scan_status"]
+          scanned_at?: string | null
+          scanner?: string | null
+          size_bytes?: number
+          storage_path?: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claim_documents_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_documents_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_sla_escalations: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          claim_id: string
+          created_at: string | null
+          due_date: string
+          id: string
+          level: Database["public"]["Enums"]["sla_escalation_level"]
+          remaining_business_days: number
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          claim_id: string
+          created_at?: string | null
+          due_date: string
+          id?: string
+          level: Database["public"]["Enums"]["sla_escalation_level"]
+          remaining_business_days: number
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          claim_id?: string
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          level?: Database["public"]["Enums"]["sla_escalation_level"]
+          remaining_business_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claim_sla_escalations_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_sla_escalations_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_status_history: {
+        Row: {
+          activity_log_id: string | null
+          changed_by: string | null
+          claim_id: string
+          created_at: string | null
+          from_status: Database["public"]["Enums"]["claim_status"] | null
+          id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["claim_status"]
+        }
+        Insert: {
+          activity_log_id?: string | null
+          changed_by?: string | null
+          claim_id: string
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["claim_status"] | null
+          id?: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["claim_status"]
+        }
+        Update: {
+          activity_log_id?: string | null
+          changed_by?: string | null
+          claim_id?: string
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["claim_status"] | null
+          id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["claim_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claim_status_history_activity_log_id_fkey"
+            columns: ["activity_log_id"]
+            isOneToOne: false
+            referencedRelation: "activity_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claim_status_history_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claim_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["claim_status"]
+          requires_reason: boolean
+          to_status: Database["public"]["Enums"]["claim_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["claim_status"]
+          requires_reason?: boolean
+          to_status: Database["public"]["Enums"]["claim_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["claim_status"]
+          requires_reason?: boolean
+          to_status?: Database["public"]["Enums"]["claim_status"]
+        }
+        Relationships: []
+      }
       claims: {
         Row: {
           amount: number | null
+          assigned_at: string | null
           assigned_to: string | null
           attachments: Json | null
           claim_number: string
           claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
           created_at: string | null
           currency: string | null
           description: string | null
           due_date: string | null
+          held_from_status: Database["public"]["Enums"]["claim_status"] | null
           id: string
           metadata: Json | null
+          presumptive_flag: Database["public"]["Enums"]["presumptive_flag"] | null
           priority: number | null
           resolved_at: string | null
           status: Database["public"]["Enums"]["claim_status"] | null
           tags: string[] | null
           title: string
           updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"] | null
           user_id: string
         }
         Insert: {
           amount?: number | null
+          assigned_at?: string | null
           assigned_to?: string | null
           attachments?: Json | null
           claim_number?: string
           claim_type: Database["public"]["Enums"]["claim_type"]
+          condition?: string | null
           created_at?: string | null
           currency?: string | null
           description?: string | null
           due_date?: string | null
+          held_from_status?: Database["public"]["Enums"]["claim_status"] | null
           id?: string
           metadata?: Json | null
+          presumptive_flag?: Database["public"]["Enums"]["presumptive_flag"] | null
           priority?: number | null
           resolved_at?: string | null
           status?: Database["public"]["Enums"]["claim_status"] | null
           tags?: string[] | null
           title: string
           updated_at?: string | null
+          urgency?: Database["public"]["Enums"]["case_urgency"] | null
           user_id: string
         }
         Update: {
           amount?: number | null
+          assigned_at?: string | null
           assigned_to?: string | null
           attachments?: Json | null
           claim_number?: string
           claim_type?: Database["public"]["Enums"]["claim_type"]
+          condition?: string | null
+          created_at?: string | null
+          currency?: string | null
+          description?: string | null
+          due_date?: string | null
+          held_from_status?: Database["public"]["Enums"]["claim_status"] | null
+          id?: string
+          metadata?: Json | null
+          presumptive_flag?: Database["public"]["Enums"]["presumptive_flag"] | null
+          priority?: number | null
+          resolved_at?: string | null
+          status?: Database["public"]["Enums"]["claim_status"] | null
+          tags?: string[] | null
+          title?: string
+          updated_at?: string | null
+          urgency?: Database["public"]["Enums"]["case_urgency"] | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claims_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "claims_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conditions: {
+        Row: {
+          active: boolean
+          aliases: string[]
+          body_system: Database["public"]["Enums"]["body_system"]
+          created_at: string | null
+          diagnostic_code: string
+          id: string
+          name: string
+          required_evidence: string[]
+          secondary_conditions: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          aliases?: string[]
+          body_system: Database["public"]["Enums"]["body_system"]
+          created_at?: string | null
+          diagnostic_code: string
+          id?: string
+          name: string
+          required_evidence?: string[]
+          secondary_conditions?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          aliases?: string[]
+          body_system?: Database["public"]["Enums"]["body_system"]
+          created_at?: string | null
+          diagnostic_code?: string
+          id?: string
+          name?: string
+          required_evidence?: string[]
+          secondary_conditions?: string[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      document_upload_sessions: {
+        Row: {
+          category: Database["public"]["Enums"]["document_category"]
+          claim_id: string
+          completed_at: string | null
+          created_at: string | null
+          created_by: string
+          description: string | null
+          document_id: string | null
+          expires_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          received_bytes: number
+          size_bytes: number
+          updated_at: string | null
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["document_category"]
+          claim_id: string
+          completed_at?: string | null
+          created_at?: string | null
+          created_by: string
+          description?: string | null
+          document_id?: string | null
+          expires_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          received_bytes?: number
+          size_bytes: number
+          updated_at?: string | null
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["document_category"]
+          claim_id?: string
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string
+          description?: string | null
+          document_id?: string | null
+          expires_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          received_bytes?: number
+          size_bytes?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_upload_sessions_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_upload_sessions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_upload_sessions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "claim_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_log: {
+        Row: {
+          attempts: number
+          claim_id: string | null
+          created_at: string | null
+          data: Json
+          id: string
+          last_error: string | null
+          lead_id: string | null
+          message_id: string | null
+          next_attempt_at: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["email_status"]
+          subject: string | null
+          template: Database["public"]["Enums"]["email_template"]
+          to_email: string
+          transport: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          claim_id?: string | null
+          created_at?: string | null
+          data?: Json
+          id?: string
+          last_error?: string | null
+          lead_id?: string | null
+          message_id?: string | null
+          next_attempt_at?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          subject?: string | null
+          template: Database["public"]["Enums"]["email_template"]
+          to_email: string
+          transport?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          claim_id?: string | null
+          created_at?: string | null
+          data?: Json
+          id?: string
+          last_error?: string | null
+          lead_id?: string | null
+          message_id?: string | null
+          next_attempt_at?: string | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["email_status"]
+          subject?: string | null
+          template?: Database["public"]["Enums"]["email_template"]
+          to_email?: string
+          transport?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_log_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_log_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      intake_drafts: {
+        Row: {
+          claim_id: string | null
+          completed_at: string | null
+          created_at: string | null
+          current_step: number
+          data: Json
+          id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          claim_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          current_step?: number
+          data?: Json
+          id?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          claim_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          current_step?: number
+          data?: Json
+          id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "intake_drafts_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "intake_drafts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          priority: number
+          result: Json | null
+          run_at: string
+          status: Database["public"]["Enums"]["job_status"]
+          type: string
+          unique_key: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          priority?: number
+          result?: Json | null
+          run_at?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          type: string
+          unique_key?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          priority?: number
+          result?: Json | null
+          run_at?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          type?: string
+          unique_key?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      lead_notes: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string | null
+          id: string
+          lead_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          content: string
+          created_at?: string | null
+          id?: string
+          lead_id: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string | null
+          id?: string
+          lead_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_notes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          assigned_to: string | null
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
+          contacted_at: string | null
+          converted_at: string | null
+          converted_claim_id: string | null
+          converted_user_id: string | null
+          created_at: string | null
+          email: string
+          first_name: string
+          id: string
+          last_name: string
+          message: string | null
+          other_service: string | null
+          phone: string | null
+          status: Database["public"]["Enums"]["lead_status"]
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"]
+        }
+        Insert: {
+          assigned_to?: string | null
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition?: string | null
+          contacted_at?: string | null
+          converted_at?: string | null
+          converted_claim_id?: string | null
+          converted_user_id?: string | null
+          created_at?: string | null
+          email: string
+          first_name: string
+          id?: string
+          last_name: string
+          message?: string | null
+          other_service?: string | null
+          phone?: string | null
+          status?: Database["public"]["Enums"]["lead_status"]
+          updated_at?: string | null
+          urgency?: Database["public"]["Enums"]["case_urgency"]
+        }
+        Update: {
+          assigned_to?: string | null
+          claim_type?: Database["public"]["Enums"]["claim_type"]
+          condition?: string | null
+          contacted_at?: string | null
+          converted_at?: string | null
+          converted_claim_id?: string | null
+          converted_user_id?: string | null
+          created_at?: string | null
+          email?: string
+          first_name?: string
+          id?: string
+          last_name?: string
+          message?: string | null
+          other_service?: string | null
+          phone?: string | null
+          status?: Database["public"]["Enums"]["lead_status"]
+          updated_at?: string | null
+          urgency?: Database["public"]["Enums"]["case_urgency"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leads_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_converted_claim_id_fkey"
+            columns: ["converted_claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_converted_user_id_fkey"
+            columns: ["converted_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_draft_versions: {
+        Row: {
+          change_summary: string | null
+          content: Json
+          created_at: string | null
+          created_by: string | null
+          draft_id: string
+          id: string
+          version: number
+        }
+        Insert: {
+          change_summary?: string | null
+          content: Json
+          created_at?: string | null
+          created_by?: string | null
+          draft_id: string
+          id?: string
+          version: number
+        }
+        Update: {
+          change_summary?: string | null
+          content?: Json
+          created_at?: string | null
+          created_by?: string | null
+          draft_id?: string
+          id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_draft_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_draft_versions_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "letter_drafts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_drafts: {
+        Row: {
+          claim_id: string
+          created_at: string | null
+          created_by: string | null
+          current_version: number
+          id: string
+          template_id: string | null
+          title: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          claim_id: string
+          created_at?: string | null
+          created_by?: string | null
+          current_version?: number
+          id?: string
+          template_id?: string | null
+          title: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          claim_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          current_version?: number
+          id?: string
+          template_id?: string | null
+          title?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_drafts_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_drafts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_drafts_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "letter_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_drafts_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_templates: {
+        Row: {
+          condition: string
+          content: Json
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          relationship: Database["public"]["Enums"]["service_relationship"]
+          slug: string
+          updated_at: string | null
+        }
+        Insert: {
+          condition: string
+          content: Json
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          relationship?: Database["public"]["Enums"]["service_relationship"]
+          slug: string
+          updated_at?: string | null
+        }
+        Update: {
+          condition?: string
+          content?: Json
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          relationship?: Database["public"]["Enums"]["service_relationship"]
+          slug?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          category: Database["public"]["Enums"]["notification_category"]
+          claim_id: string | null
+          created_at: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          category: Database["public"]["Enums"]["notification_category"]
+          claim_id?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          category?: Database["public"]["Enums"]["notification_category"]
+          claim_id?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_licenses: {
+        Row: {
+          created_at: string | null
+          expires_on: string
+          id: string
+          license_number: string
+          provider_id: string
+          state: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expires_on: string
+          id?: string
+          license_number: string
+          provider_id: string
+          state: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expires_on?: string
+          id?: string
+          license_number?: string
+          provider_id?: string
+          state?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_licenses_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "provider_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      provider_profiles: {
+        Row: {
+          accepting_cases: boolean
+          board_certifications: string[]
+          created_at: string | null
+          credentials: string
+          max_open_cases: number
+          npi: string | null
+          specialties: string[]
+          updated_at: string | null
+          user_id: string
+          verification_notes: string | null
+          verification_status: Database["public"]["Enums"]["provider_verification_status"]
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          accepting_cases?: boolean
+          board_certifications?: string[]
+          created_at?: string | null
+          credentials: string
+          max_open_cases?: number
+          npi?: string | null
+          specialties?: string[]
+          updated_at?: string | null
+          user_id: string
+          verification_notes?: string | null
+          verification_status?: Database["public"]["Enums"]["provider_verification_status"]
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          accepting_cases?: boolean
+          board_certifications?: string[]
+          created_at?: string | null
+          credentials?: string
+          max_open_cases?: number
+          npi?: string | null
+          specialties?: string[]
+          updated_at?: string | null
+          user_id?: string
+          verification_notes?: string | null
+          verification_status?: Database["public"]["Enums"]["provider_verification_status"]
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "provider_profiles_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qa_checklist_items: {
+        Row: {
+          is_required: boolean
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          is_required?: boolean
+          key: string
+          label: string
+          sort_order: number
+        }
+        Update: {
+          is_required?: boolean
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      qa_reviews: {
+        Row: {
+          activity_log_id: string | null
+          checklist: Json
+          claim_id: string
+          comments: string | null
+          created_at: string | null
+          draft_id: string
+          draft_version: number
+          id: string
+          reviewed_at: string | null
+          reviewer_credentials: string | null
+          reviewer_id: string | null
+          round: number
+          status: Database["public"]["Enums"]["qa_review_status"]
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          activity_log_id?: string | null
+          checklist?: Json
+          claim_id: string
+          comments?: string | null
+          created_at?: string | null
+          draft_id: string
+          draft_version: number
+          id?: string
+          reviewed_at?: string | null
+          reviewer_credentials?: string | null
+          reviewer_id?: string | null
+          round: number
+          status?: Database["public"]["Enums"]["qa_review_status"]
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          activity_log_id?: string | null
+          checklist?: Json
+          claim_id?: string
+          comments?: string | null
+          created_at?: string | null
+          draft_id?: string
+          draft_version?: number
+          id?: string
+          reviewed_at?: string | null
+          reviewer_credentials?: string | null
+          reviewer_id?: string | null
+          round?: number
+          status?: Database["public"]["Enums"]["qa_review_status"]
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qa_reviews_activity_log_id_fkey"
+            columns: ["activity_log_id"]
+            isOneToOne: false
+            referencedRelation: "activity_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qa_reviews_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qa_reviews_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "letter_drafts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qa_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qa_reviews_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_periods: {
+        Row: {
+          branch: Database["public"]["Enums"]["service_branch"]
+          component: Database["public"]["Enums"]["service_component"]
+          created_at: string | null
+          deployments: Json
+          discharge_characterization:
+            | Database["public"]["Enums"]["discharge_characterization"]
+            | null
+          entry_date: string
+          id: string
+          occupation: string | null
+          separation_date: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          branch: Database["public"]["Enums"]["service_branch"]
+          component?: Database["public"]["Enums"]["service_component"]
+          created_at?: string | null
+          deployments?: Json
+          discharge_characterization?:
+            | Database["public"]["Enums"]["discharge_characterization"]
+            | null
+          entry_date: string
+          id?: string
+          occupation?: string | null
+          separation_date?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          branch?: Database["public"]["Enums"]["service_branch"]
+          component?: Database["public"]["Enums"]["service_component"]
           created_at?: string | null
-          currency?: string | null
-          description?: string | null
-          due_date?: string | null
+          deployments?: Json
+          discharge_characterization?:
+            | Database["public"]["Enums"]["discharge_characterization"]
+            | null
+          entry_date?: string
           id?: string
-          metadata?: Json | null
-          priority?: number | null
-          resolved_at?: string | null
-          status?: Database["public"]["Enums"]["claim_status"] | null
-          tags?: string[] | null
-          title?: string
+          occupation?: string | null
+          separation_date?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "claims_assigned_to_fkey"
-            columns: ["assigned_to"]
-            isOneToOne: false
-            referencedRelation: "users"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "claims_user_id_fkey"
+            foreignKeyName: "service_periods_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "users"
@@ -255,11 +1443,320 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          activity_log_id: string | null
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: Database["public"]["Enums"]["webhook_delivery_status"]
+          subscription_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          activity_log_id?: string | null
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          event: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          subscription_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          activity_log_id?: string | null
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+          subscription_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_activity_log_id_fkey"
+            columns: ["activity_log_id"]
+            isOneToOne: false
+            referencedRelation: "activity_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_subscriptions: {
+        Row: {
+          active: boolean
+          created_at: string | null
+          created_by: string | null
+          events: Database["public"]["Enums"]["activity_type"][]
+          id: string
+          name: string
+          secret: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string | null
+          created_by?: string | null
+          events: Database["public"]["Enums"]["activity_type"][]
+          id?: string
+          name: string
+          secret: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string | null
+          created_by?: string | null
+          events?: Database["public"]["Enums"]["activity_type"][]
+          id?: string
+          name?: string
+          secret?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_subscriptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weekly_digests: {
+        Row: {
+          created_at: string | null
+          id: string
+          period_end: string
+          period_start: string
+          sections: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          sections?: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          sections?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weekly_digests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      provider_workload: {
+        Row: {
+          avg_turnaround_days: number | null
+          completed_cases: number | null
+          open_cases: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      assign_claim: {
+        Args: {
+          p_assignee?: string
+          p_claim_id: string
+          p_method?: string
+          p_reason?: string
+        }
+        Returns: {
+          amount: number | null
+          assigned_at: string | null
+          assigned_to: string | null
+          attachments: Json | null
+          claim_number: string
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          due_date: string | null
+          held_from_status: Database["public"]["Enums"]["claim_status"] | null
+          id: string
+          metadata: Json | null
+          presumptive_flag: Database["public"]["Enums"]["presumptive_flag"] | null
+          priority: number | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["claim_status"] | null
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"] | null
+          user_id: string
+        }
+      }
+      can_access_claim_folder: {
+        Args: { object_name: string }
+        Returns: boolean
+      }
+      claim_jobs: {
+        Args: {
+          p_limit?: number
+          p_lock_seconds?: number
+          p_types?: string[]
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          priority: number
+          result: Json | null
+          run_at: string
+          status: Database["public"]["Enums"]["job_status"]
+          type: string
+          unique_key: string | null
+          updated_at: string | null
+        }[]
+      }
+      complete_intake: {
+        Args: {
+          p_claim: Json
+          p_condition_ids?: string[]
+          p_data?: Json
+          p_draft_id?: string
+        }
+        Returns: {
+          amount: number | null
+          assigned_at: string | null
+          assigned_to: string | null
+          attachments: Json | null
+          claim_number: string
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          due_date: string | null
+          held_from_status: Database["public"]["Enums"]["claim_status"] | null
+          id: string
+          metadata: Json | null
+          presumptive_flag: Database["public"]["Enums"]["presumptive_flag"] | null
+          priority: number | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["claim_status"] | null
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"] | null
+          user_id: string
+        }
+      }
+      complete_qa_review: {
+        Args: {
+          p_checklist?: Json
+          p_comments?: string
+          p_decision: Database["public"]["Enums"]["qa_review_status"]
+          p_review_id: string
+          p_reviewer_credentials?: string
+        }
+        Returns: {
+          activity_log_id: string | null
+          checklist: Json
+          claim_id: string
+          comments: string | null
+          created_at: string | null
+          draft_id: string
+          draft_version: number
+          id: string
+          reviewed_at: string | null
+          reviewer_credentials: string | null
+          reviewer_id: string | null
+          round: number
+          status: Database["public"]["Enums"]["qa_review_status"]
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string | null
+        }
+      }
+      convert_lead: {
+        Args: {
+          p_claim: Json
+          p_converted_by: string
+          p_lead_id: string
+          p_user_id: string
+        }
+        Returns: {
+          amount: number | null
+          assigned_at: string | null
+          assigned_to: string | null
+          attachments: Json | null
+          claim_number: string
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          due_date: string | null
+          held_from_status: Database["public"]["Enums"]["claim_status"] | null
+          id: string
+          metadata: Json | null
+          presumptive_flag: Database["public"]["Enums"]["presumptive_flag"] | null
+          priority: number | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["claim_status"] | null
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"] | null
+          user_id: string
+        }
+      }
       generate_claim_number: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -282,6 +1779,10 @@ export type Database = {
           username: string | null
         }
       }
+      has_qa_approval: {
+        Args: { p_claim_id: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -290,6 +1791,18 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_assigned_provider: {
+        Args: { p_claim_id: string }
+        Returns: boolean
+      }
+      is_provider: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_qa_reviewer: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       log_activity: {
         Args: {
           p_activity_type: Database["public"]["Enums"]["activity_type"]
@@ -301,6 +1814,99 @@ export type Database = {
         }
         Returns: string
       }
+      save_letter_draft: {
+        Args: {
+          p_change_summary?: string
+          p_content: Json
+          p_draft_id: string
+          p_expected_version?: number
+        }
+        Returns: {
+          change_summary: string | null
+          content: Json
+          created_at: string | null
+          created_by: string | null
+          draft_id: string
+          id: string
+          version: number
+        }
+      }
+      submit_for_qa_review: {
+        Args: { p_claim_id: string; p_draft_id: string }
+        Returns: {
+          activity_log_id: string | null
+          checklist: Json
+          claim_id: string
+          comments: string | null
+          created_at: string | null
+          draft_id: string
+          draft_version: number
+          id: string
+          reviewed_at: string | null
+          reviewer_credentials: string | null
+          reviewer_id: string | null
+          round: number
+          status: Database["public"]["Enums"]["qa_review_status"]
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string | null
+        }
+      }
+      transition_claim_status: {
+        Args: {
+          p_assigned_to?: string
+          p_claim_id: string
+          p_reason?: string
+          p_to_status: Database["public"]["Enums"]["claim_status"]
+        }
+        Returns: {
+          amount: number | null
+          assigned_at: string | null
+          assigned_to: string | null
+          attachments: Json | null
+          claim_number: string
+          claim_type: Database["public"]["Enums"]["claim_type"]
+          condition: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          due_date: string | null
+          held_from_status: Database["public"]["Enums"]["claim_status"] | null
+          id: string
+          metadata: Json | null
+          presumptive_flag: Database["public"]["Enums"]["presumptive_flag"] | null
+          priority: number | null
+          resolved_at: string | null
+          status: Database["public"]["Enums"]["claim_status"] | null
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+          urgency: Database["public"]["Enums"]["case_urgency"] | null
+          user_id: string
+        }
+      }
+      verify_provider: {
+        Args: {
+          p_notes?: string
+          p_status: Database["public"]["Enums"]["provider_verification_status"]
+          p_user_id: string
+        }
+        Returns: {
+          accepting_cases: boolean
+          board_certifications: string[]
+          created_at: string | null
+          credentials: string
+          max_open_cases: number
+          npi: string | null
+          specialties: string[]
+          updated_at: string | null
+          user_id: string
+          verification_notes: string | null
+          verification_status: Database["public"]["Enums"]["provider_verification_status"]
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
     }
     Enums: {
       activity_type:
@@ -318,15 +1924,108 @@ export type Database = {
         | "status_changed"
         | "assignment_changed"
         | "other"
-      claim_status: "pending" | "approved" | "rejected" | "under_review"
+        | "qa_submitted"
+        | "qa_approved"
+        | "qa_changes_requested"
+        | "sla_escalated"
+      body_system:
+        | "musculoskeletal"
+        | "eye"
+        | "ear"
+        | "infectious"
+        | "respiratory"
+        | "cardiovascular"
+        | "digestive"
+        | "genitourinary"
+        | "gynecological"
+        | "hemic_lymphatic"
+        | "skin"
+        | "endocrine"
+        | "neurological"
+        | "mental"
+        | "dental"
+      case_urgency: "standard" | "expedited" | "urgent"
+      claim_status:
+        | "intake"
+        | "records_requested"
+        | "records_received"
+        | "physician_review"
+        | "drafting"
+        | "qa_review"
+        | "delivered"
+        | "closed"
+        | "on_hold"
+        | "cancelled"
       claim_type:
-        | "insurance"
-        | "warranty"
-        | "return"
-        | "refund"
-        | "compensation"
+        | "consultation"
+        | "comprehensive_letter"
+        | "ime"
+        | "review_revision"
+        | "expedited"
+        | "other"
+      discharge_characterization:
+        | "honorable"
+        | "general"
+        | "other_than_honorable"
+        | "bad_conduct"
+        | "dishonorable"
+        | "uncharacterized"
+      document_category:
+        | "dd214"
+        | "service_treatment_records"
+        | "va_treatment_records"
+        | "private_records"
+        | "c_file"
         | "other"
-      user_role: "admin" | "moderator" | "user" | "guest"
+      document_scan_status:
+        | "pending"
+        | "clean"
+        | "infected"
+        | "failed"
+        | "too_large"
+      email_status: "pending" | "sent" | "failed"
+      email_template:
+        | "lead_acknowledgment"
+        | "status_changed"
+        | "records_requested"
+        | "letter_delivered"
+        | "weekly_digest"
+      job_status: "pending" | "running" | "completed" | "dead"
+      lead_status: "new" | "contacted" | "converted" | "spam"
+      notification_category:
+        | "claim_update"
+        | "system_announcement"
+        | "marketing"
+        | "weekly_digest"
+      presumptive_flag: "nexus_unnecessary" | "secondary_letter"
+      provider_verification_status:
+        | "pending"
+        | "verified"
+        | "rejected"
+        | "suspended"
+      qa_review_status:
+        | "pending"
+        | "approved"
+        | "changes_requested"
+        | "withdrawn"
+      service_branch:
+        | "army"
+        | "navy"
+        | "air_force"
+        | "marine_corps"
+        | "coast_guard"
+        | "space_force"
+      service_component: "active" | "reserve" | "national_guard"
+      service_relationship: "direct" | "secondary" | "aggravation"
+      sla_escalation_level: "at_risk" | "breached"
+      user_role:
+        | "admin"
+        | "moderator"
+        | "user"
+        | "guest"
+        | "reviewer"
+        | "provider"
+      webhook_delivery_status: "pending" | "delivered" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -472,17 +2171,121 @@ export const Constants = {
         "status_changed",
         "assignment_changed",
         "other",
+        "qa_submitted",
+        "qa_approved",
+        "qa_changes_requested",
+        "sla_escalated",
+      ],
+      body_system: [
+        "musculoskeletal",
+        "eye",
+        "ear",
+        "infectious",
+        "respiratory",
+        "cardiovascular",
+        "digestive",
+        "genitourinary",
+        "gynecological",
+        "hemic_lymphatic",
+        "skin",
+        "endocrine",
+        "neurological",
+        "mental",
+        "dental",
+      ],
+      case_urgency: ["standard", "expedited", "urgent"],
+      claim_status: [
+        "intake",
+        "records_requested",
+        "records_received",
+        "physician_review",
+        "drafting",
+        "qa_review",
+        "delivered",
+        "closed",
+        "on_hold",
+        "cancelled",
       ],
-      claim_status: ["pending", "approved", "rejected", "under_review"],
       claim_type: [
-        "insurance",
-        "warranty",
-        "return",
-        "refund",
-        "compensation",
+        "consultation",
+        "comprehensive_letter",
+        "ime",
+        "review_revision",
+        "expedited",
+        "other",
+      ],
+      discharge_characterization: [
+        "honorable",
+        "general",
+        "other_than_honorable",
+        "bad_conduct",
+        "dishonorable",
+        "uncharacterized",
+      ],
+      document_category: [
+        "dd214",
+        "service_treatment_records",
+        "va_treatment_records",
+        "private_records",
+        "c_file",
         "other",
       ],
-      user_role: ["admin", "moderator", "user", "guest"],
+      document_scan_status: [
+        "pending",
+        "clean",
+        "infected",
+        "failed",
+        "too_large",
+      ],
+      email_status: ["pending", "sent", "failed"],
+      email_template: [
+        "lead_acknowledgment",
+        "status_changed",
+        "records_requested",
+        "letter_delivered",
+        "weekly_digest",
+      ],
+      job_status: ["pending", "running", "completed", "dead"],
+      lead_status: ["new", "contacted", "converted", "spam"],
+      notification_category: [
+        "claim_update",
+        "system_announcement",
+        "marketing",
+        "weekly_digest",
+      ],
+      presumptive_flag: ["nexus_unnecessary", "secondary_letter"],
+      provider_verification_status: [
+        "pending",
+        "verified",
+        "rejected",
+        "suspended",
+      ],
+      qa_review_status: [
+        "pending",
+        "approved",
+        "changes_requested",
+        "withdrawn",
+      ],
+      service_branch: [
+        "army",
+        "navy",
+        "air_force",
+        "marine_corps",
+        "coast_guard",
+        "space_force",
+      ],
+      service_component: ["active", "reserve", "national_guard"],
+      service_relationship: ["direct", "secondary", "aggravation"],
+      sla_escalation_level: ["at_risk", "breached"],
+      user_role: [
+        "admin",
+        "moderator",
+        "user",
+        "guest",
+        "reviewer",
+        "provider",
+      ],
+      webhook_delivery_status: ["pending", "delivered", "failed"],
     },
   },
 } as const
@@ -0,0 +1,329 @@
+/**
+ * Email Templates
+ * Content for each transactional email, rendered to HTML with React and
+ * to plain text from the same content so the two parts always agree
+ */
+
+import React from 'react';
+import { CLAIM_TYPE_LABELS } from './claim-types';
+import { CLAIM_STATUS_LABELS } from './claim-workflow';
+import type {
+  CaseUrgency,
+  ClaimStatus,
+  ClaimType,
+  EmailTemplate,
+} from './supabase';
+import type { DigestSection } from './weekly-digest';
+
+// =================================
+// TEMPLATE DATA
+// =================================
+
+/**
+ * Claim details queued by the `notify_claim_status_change` trigger
+ */
+export interface ClaimEmailData {
+  name: string | null;
+  claim_number: string;
+  condition: string | null;
+  from_status: ClaimStatus | null;
+  to_status: ClaimStatus;
+  reason: string | null;
+}
+
+/**
+ * Variables stored in `email_log.data` for each template
+ */
+export interface EmailTemplateData {
+  lead_acknowledgment: {
+    name: string;
+    claim_type: ClaimType;
+    urgency: CaseUrgency;
+  };
+  status_changed: ClaimEmailData;
+  records_requested: ClaimEmailData;
+  letter_delivered: ClaimEmailData;
+  weekly_digest: {
+    name: string | null;
+    /** e.g. "Oct 12 – Oct 18" */
+    period_label: string;
+    sections: DigestSection[];
+  };
+}
+
+export interface EmailContent {
+  subject: string;
+  /** Inbox preview line */
+  preview: string;
+  heading: string;
+  paragraphs: string[];
+  /** Headed lists shown after the paragraphs */
+  lists?: { heading: string; items: string[] }[];
+  action?: { label: string; url: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const DEFAULT_APP_URL = 'https://thebestnexusletters.com';
+
+const SIGNATURE = 'The Best Nexus Letters team';
+
+const FOOTER =
+  'You are receiving this email because you contacted The Best Nexus Letters or have an open case with us.';
+
+// =================================
+// CONTENT
+// =================================
+
+const greeting = (name: string | null) => (name ? `Hi ${name},` : 'Hello,');
+
+const STATUS_MESSAGES: Partial<Record<ClaimStatus, string>> = {
+  records_received:
+    'We have received your records and are preparing them for physician review.',
+  physician_review:
+    'A licensed physician is now reviewing your records and service history.',
+  on_hold: 'Work on your case is paused for now.',
+  cancelled: 'Your case has been cancelled.',
+};
+
+const TEMPLATE_CONTENT: {
+  [T in EmailTemplate]: (
+    data: EmailTemplateData[T],
+    appUrl: string
+  ) => EmailContent;
+} = {
+  lead_acknowledgment: (data, appUrl) => ({
+    subject: 'We received your inquiry',
+    preview: 'Thank you for contacting The Best Nexus Letters.',
+    heading: 'Thank you for reaching out',
+    paragraphs: [
+      greeting(data.name),
+      `Thank you for your interest in our ${CLAIM_TYPE_LABELS[data.claim_type]} service. A member of our team will review your inquiry and get back to you soon.`,
+      'If you are ready to get started, you can complete your intake online now. It only takes a few minutes and you can save your progress as you go.',
+      SIGNATURE,
+    ],
+    action: { label: 'Start Your Intake', url: `${appUrl}/intake` },
+  }),
+
+  status_changed: (data, appUrl) => ({
+    subject: `Update on your case ${data.claim_number}`,
+    preview: `Your case is now ${CLAIM_STATUS_LABELS[data.to_status]}.`,
+    heading: `Your case is now ${CLAIM_STATUS_LABELS[data.to_status]}`,
+    paragraphs: [
+      greeting(data.name),
+      STATUS_MESSAGES[data.to_status] ??
+        `The status of case ${data.claim_number} has changed.`,
+      ...(data.reason ? [`Note from our team: ${data.reason}`] : []),
+      SIGNATURE,
+    ],
+    action: { label: 'View Your Case', url: `${appUrl}/dashboard` },
+  }),
+
+  records_requested: (data, appUrl) => ({
+    subject: `Records needed for case ${data.claim_number}`,
+    preview: 'We need your records to continue with your case.',
+    heading: 'We need your records',
+    paragraphs: [
+      greeting(data.name),
+      `To continue with case ${data.claim_number}${data.condition ? ` (${data.condition})` : ''}, our team needs your medical and service records, such as your DD-214, service treatment records and any VA or private treatment records.`,
+      ...(data.reason ? [`Note from our team: ${data.reason}`] : []),
+      'You can upload them securely from your dashboard.',
+      SIGNATURE,
+    ],
+    action: { label: 'Upload Records', url: `${appUrl}/dashboard` },
+  }),
+
+  letter_delivered: (data, appUrl) => ({
+    subject: `Your nexus letter is ready (case ${data.claim_number})`,
+    preview: 'Your nexus letter has passed quality review.',
+    heading: 'Your nexus letter is ready',
+    paragraphs: [
+      greeting(data.name),
+      `Your nexus letter${data.condition ? ` for ${data.condition}` : ''} has passed our quality review and is ready to download.`,
+      'Include it with your VA claim submission. If you have any questions about your letter, reply to this email or contact us through the website.',
+      SIGNATURE,
+    ],
+    action: { label: 'Download Your Letter', url: `${appUrl}/dashboard` },
+  }),
+
+  weekly_digest: (data, appUrl) => ({
+    subject: `Your weekly summary for ${data.period_label}`,
+    preview: `What happened on your cases ${data.period_label}.`,
+    heading: 'Your weekly summary',
+    paragraphs: [
+      greeting(data.name),
+      `Here is what happened on your cases ${data.period_label}.`,
+    ],
+    lists: data.sections.map(section => ({
+      heading: section.title,
+      items: section.items.map(
+        item => `${item.claim_number} (${item.title}): ${item.detail}`
+      ),
+    })),
+    action: { label: 'Open Your Dashboard', url: `${appUrl}/dashboard` },
+  }),
+};
+
+export function getEmailContent<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  appUrl: string = DEFAULT_APP_URL
+): EmailContent {
+  return TEMPLATE_CONTENT[template](data, appUrl.replace(/\/$/, ''));
+}
+
+// =================================
+// RENDERING
+// =================================
+
+// Inline styles: most mail clients ignore stylesheets
+const styles = {
+  body: {
+    margin: 0,
+    padding: 0,
+    backgroundColor: '#f1f5f9',
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    color: '#0f172a',
+  },
+  preview: { display: 'none', maxHeight: 0, overflow: 'hidden' },
+  container: {
+    maxWidth: '600px',
+    margin: '24px auto',
+    backgroundColor: '#ffffff',
+    borderRadius: '8px',
+  },
+  header: {
+    padding: '20px 32px',
+    backgroundColor: '#1e3a5f',
+    color: '#ffffff',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    borderRadius: '8px 8px 0 0',
+  },
+  content: { padding: '32px', fontSize: '16px', lineHeight: '24px' },
+  heading: { margin: '0 0 16px', fontSize: '22px' },
+  paragraph: { margin: '0 0 16px' },
+  listHeading: { margin: '0 0 8px', fontSize: '16px' },
+  list: { margin: '0 0 16px', paddingLeft: '20px' },
+  button: {
+    display: 'inline-block',
+    padding: '12px 24px',
+    backgroundColor: '#b91c1c',
+    color: '#ffffff',
+    borderRadius: '6px',
+    fontWeight: 'bold',
+    textDecoration: 'none',
+  },
+  footer: {
+    padding: '16px 32px 24px',
+    fontSize: '12px',
+    lineHeight: '18px',
+    color: '#64748b',
+  },
+} satisfies Record<string, React.CSSProperties>;
+
+export const EmailLayout: React.FC<{ content: EmailContent }> = ({
+  content,
+}) => (
+  <html lang="en">
+    {/* A standalone email document, not a Next.js page */}
+    {/* eslint-disable-next-line @next/next/no-head-element */}
+    <head>
+      <meta charSet="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <title>{content.subject}</title>
+    </head>
+    <body style={styles.body}>
+      <div style={styles.preview}>{content.preview}</div>
+      <table role="presentation" width="100%" cellPadding={0} cellSpacing={0}>
+        <tbody>
+          <tr>
+            <td>
+              <table
+                role="presentation"
+                width="100%"
+                cellPadding={0}
+                cellSpacing={0}
+                style={styles.container}
+              >
+                <tbody>
+                  <tr>
+                    <td style={styles.header}>The Best Nexus Letters</td>
+                  </tr>
+                  <tr>
+                    <td style={styles.content}>
+                      <h1 style={styles.heading}>{content.heading}</h1>
+                      {content.paragraphs.map(paragraph => (
+                        <p key={paragraph} style={styles.paragraph}>
+                          {paragraph}
+                        </p>
+                      ))}
+                      {content.lists?.map(list => (
+                        <React.Fragment key={list.heading}>
+                          <h2 style={styles.listHeading}>{list.heading}</h2>
+                          <ul style={styles.list}>
+                            {list.items.map(item => (
+                              <li key={item}>{item}</li>
+                            ))}
+                          </ul>
+                        </React.Fragment>
+                      ))}
+                      {content.action && (
+                        <p style={styles.paragraph}>
+                          <a href={content.action.url} style={styles.button}>
+                            {content.action.label}
+                          </a>
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style={styles.footer}>{FOOTER}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </body>
+  </html>
+);
+
+export function renderEmailText(content: EmailContent): string {
+  return [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.lists ?? []).map(list =>
+      [list.heading, ...list.items.map(item => `- ${item}`)].join('\n')
+    ),
+    ...(content.action
+      ? [`${content.action.label}: ${content.action.url}`]
+      : []),
+    `--\n${FOOTER}`,
+  ].join('\n\n');
+}
+
+/**
+ * Render a template to its subject, HTML and plain-text parts
+ */
+export async function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: EmailTemplateData[T],
+  appUrl?: string
+): Promise<RenderedEmail> {
+  // Loaded on demand: Next.js rejects static react-dom/server imports in
+  // server modules
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const content = getEmailContent(template, data, appUrl);
+
+  return {
+    subject: content.subject,
+    html: `<!DOCTYPE html>${renderToStaticMarkup(<EmailLayout content={content} />)}`,
+    text: renderEmailText(content),
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Transactional Email
+ * Outbox dispatcher. Messages are queued in `email_log` (by the app or by
+ * the claim status trigger), rendered at send time and retried with
+ * backoff until they are sent or run out of attempts.
+ */
+
+import { Constants, type Json } from './database.types';
+import { emailHelpers } from './database-helpers';
+import { renderEmail, type EmailTemplateData } from './email-templates';
+import { getMailFrom, getMailTransport, type MailTransport } from './mailer';
+import type { EmailLogEntry, EmailLogUpdate, EmailTemplate } from './supabase';
+
+export const EMAIL_TEMPLATES = Constants.public.Enums.email_template;
+
+// =================================
+// RETRIES
+// =================================
+
+/**
+ * Minutes to wait before each retry; a message that fails once more after
+ * the last delay is marked failed
+ */
+export const EMAIL_RETRY_DELAYS_MINUTES = [1, 5, 30, 120] as const;
+
+export const MAX_EMAIL_ATTEMPTS = EMAIL_RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * How long a dispatcher holds a message while sending it
+ */
+const SEND_LEASE_MINUTES = 5;
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
+
+/**
+ * When to try again after `attempts` failed attempts, or null to give up
+ */
+export function getNextAttemptAt(
+  attempts: number,
+  now: Date = new Date()
+): Date | null {
+  const delay = EMAIL_RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : addMinutes(now, delay);
+}
+
+export type DeliveryResult =
+  | { sent: true; subject: string; messageId: string; transport: string }
+  | { sent: false; error: string; transport: string };
+
+/**
+ * The `email_log` update recording a delivery attempt
+ */
+export function getAttemptUpdate(
+  entry: Pick<EmailLogEntry, 'attempts'>,
+  result: DeliveryResult,
+  now: Date = new Date()
+): EmailLogUpdate {
+  const attempts = entry.attempts + 1;
+
+  if (result.sent) {
+    return {
+      status: 'sent',
+      attempts,
+      subject: result.subject,
+      message_id: result.messageId,
+      transport: result.transport,
+      last_error: null,
+      next_attempt_at: null,
+      sent_at: now.toISOString(),
+    };
+  }
+
+  const nextAttemptAt = getNextAttemptAt(attempts, now);
+
+  return {
+    status: nextAttemptAt ? 'pending' : 'failed',
+    attempts,
+    transport: result.transport,
+    last_error: result.error.slice(0, 1000),
+    next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+  };
+}
+
+// =================================
+// DELIVERY
+// =================================
+
+/**
+ * Render and send one queued message, recording the attempt
+ */
+export async function deliverEmail(
+  entry: EmailLogEntry,
+  transport: MailTransport,
+  now: Date = new Date()
+): Promise<EmailLogEntry> {
+  let result: DeliveryResult;
+
+  try {
+    const rendered = await renderEmail(
+      entry.template,
+      entry.data as unknown as EmailTemplateData[typeof entry.template],
+      process.env.NEXT_PUBLIC_APP_URL
+    );
+    const { messageId } = await transport.send({
+      from: getMailFrom(),
+      to: entry.to_email,
+      ...rendered,
+    });
+    result = {
+      sent: true,
+      subject: rendered.subject,
+      messageId,
+      transport: transport.name,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn('Email delivery failed:', {
+      emailId: entry.id,
+      template: entry.template,
+      attempt: entry.attempts + 1,
+      error: message,
+    });
+    result = { sent: false, error: message, transport: transport.name };
+  }
+
+  return emailHelpers.recordAttempt(
+    entry.id,
+    getAttemptUpdate(entry, result, now)
+  );
+}
+
+/**
+ * Queue a message and try to send it straight away. If the first attempt
+ * fails (or no transport is configured) the message stays queued for the
+ * dispatcher.
+ */
+export async function sendEmail<T extends EmailTemplate>(
+  template: T,
+  to: string,
+  data: EmailTemplateData[T],
+  related: { userId?: string; claimId?: string; leadId?: string } = {},
+  transport: MailTransport | null = getMailTransport()
+): Promise<EmailLogEntry> {
+  const now = new Date();
+  const entry = await emailHelpers.enqueue({
+    template,
+    to_email: to,
+    data: data as unknown as Json,
+    ...(related.userId && { user_id: related.userId }),
+    ...(related.claimId && { claim_id: related.claimId }),
+    ...(related.leadId && { lead_id: related.leadId }),
+    // Held so a concurrent dispatcher run does not send it as well
+    ...(transport && {
+      next_attempt_at: addMinutes(now, SEND_LEASE_MINUTES).toISOString(),
+    }),
+  });
+
+  return transport ? deliverEmail(entry, transport, now) : entry;
+}
+
+/**
+ * Send every queued message that is due. Returns the updated log entries.
+ */
+export async function dispatchPendingEmails(
+  transport: MailTransport | null = getMailTransport(),
+  limit: number = 50,
+  now: Date = new Date()
+): Promise<EmailLogEntry[]> {
+  if (!transport) return [];
+
+  const due = await emailHelpers.getDue(limit, now);
+  const results: EmailLogEntry[] = [];
+
+  // One at a time: SMTP servers throttle bursts of connections
+  for (const entry of due) {
+    const leased = await emailHelpers.lease(
+      entry,
+      addMinutes(now, SEND_LEASE_MINUTES)
+    );
+    if (!leased) continue;
+
+    results.push(await deliverEmail(leased, transport, now));
+  }
+
+  return results;
+}
@@ -50,6 +50,10 @@ const envSchema = z.object({
   // Email service
   EMAIL_API_KEY: z.string().optional(),
   EMAIL_FROM: z.string().email().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().regex(/^\d+$/).optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).optional(),
+  SMTP_USER: z.string().optional(),
 
   // AWS S3
   AWS_ACCESS_KEY_ID: z.string().optional(),
@@ -57,6 +61,18 @@ const envSchema = z.object({
   AWS_REGION: z.string().optional(),
   AWS_S3_BUCKET: z.string().optional(),
 
+  // Malware scanning (ClamAV daemon)
+  CLAMD_SOCKET: z.string().optional(),
+  CLAMD_HOST: z.string().optional(),
+  CLAMD_PORT: z.string().regex(/^\d+$/).optional(),
+  // Match clamd's StreamMaxLength; at least the largest document (500MB)
+  CLAMD_MAX_STREAM_BYTES: z.string().regex(/^\d+$/).optional(),
+
+  // Scheduled jobs (sent as a bearer token by the scheduler)
+  CRON_SECRET: z.string().min(16).optional(),
+  // Run a background job worker inside the Next.js server process
+  JOB_WORKER: z.enum(['true', 'false']).optional(),
+
   // Discourse integration
   DISCOURSE_BASE_URL: z.string().url().optional(),
   DISCOURSE_SSO_SECRET: z.string().optional(),
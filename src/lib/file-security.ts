@@ -8,7 +8,7 @@ const ALLOWED_MIME_TYPES = {
     'image/png',
     'image/gif',
     'image/webp',
-    'image/svg+xml',
+    // SVG is deliberately excluded: it can carry inline script
   ],
   document: [
     'application/pdf',
@@ -76,9 +76,27 @@ export interface FileValidationConfig {
   blockedExtensions?: string[];
 }
 
+export type FileValidationCode =
+  | 'BLOCKED_EXTENSION'
+  | 'EXTENSION_NOT_ALLOWED'
+  | 'MIME_NOT_ALLOWED'
+  | 'MIME_EXTENSION_MISMATCH'
+  | 'FILE_TOO_LARGE'
+  | 'EMPTY_FILE'
+  | 'EXECUTABLE_CONTENT'
+  | 'SIGNATURE_MISMATCH'
+  | 'PDF_ACTIVE_CONTENT'
+  | 'PDF_UNINSPECTABLE';
+
+export interface FileValidationIssue {
+  code: FileValidationCode;
+  message: string;
+}
+
 export interface FileValidationResult {
   isValid: boolean;
   errors: string[];
+  issues: FileValidationIssue[];
   file?: {
     name: string;
     size: number;
@@ -88,10 +106,15 @@ export interface FileValidationResult {
 }
 
 export function validateFile(
-  file: File,
+  file: Pick<File, 'name' | 'size' | 'type'>,
   config: FileValidationConfig = {}
 ): FileValidationResult {
   const errors: string[] = [];
+  const issues: FileValidationIssue[] = [];
+  const addIssue = (code: FileValidationCode, message: string) => {
+    issues.push({ code, message });
+    errors.push(message);
+  };
 
   const {
     allowedTypes = ['image', 'document'],
@@ -110,12 +133,14 @@ export function validateFile(
 
   // Check for dangerous extensions first
   if (blockedExtensions.includes(fileExtension)) {
-    errors.push(
+    addIssue(
+      'BLOCKED_EXTENSION',
       `File type '${fileExtension}' is not allowed for security reasons`
     );
     return {
       isValid: false,
       errors,
+      issues,
       file: {
         name: file.name,
         size: fileSize,
@@ -127,7 +152,10 @@ export function validateFile(
 
   // Validate file extension
   if (allowedExtensions && !allowedExtensions.includes(fileExtension)) {
-    errors.push(`File extension '${fileExtension}' is not allowed`);
+    addIssue(
+      'EXTENSION_NOT_ALLOWED',
+      `File extension '${fileExtension}' is not allowed`
+    );
   }
 
   // Validate MIME type
@@ -135,30 +163,35 @@ export function validateFile(
     type => ALLOWED_MIME_TYPES[type]
   );
   if (!allowedMimeTypes.includes(fileMimeType as any)) {
-    errors.push(`File type '${fileMimeType}' is not allowed`);
+    addIssue('MIME_NOT_ALLOWED', `File type '${fileMimeType}' is not allowed`);
   }
 
   // Check MIME type matches extension
   const expectedMimeType = EXTENSION_TO_MIME[fileExtension];
   if (expectedMimeType && expectedMimeType !== fileMimeType) {
-    errors.push('File extension and MIME type do not match');
+    addIssue(
+      'MIME_EXTENSION_MISMATCH',
+      'File extension and MIME type do not match'
+    );
   }
 
   // Validate file size
   if (fileSize > maxSize) {
-    errors.push(
+    addIssue(
+      'FILE_TOO_LARGE',
       `File size ${formatFileSize(fileSize)} exceeds maximum allowed size of ${formatFileSize(maxSize)}`
     );
   }
 
   // Check if file is empty
   if (fileSize === 0) {
-    errors.push('File is empty');
+    addIssue('EMPTY_FILE', 'File is empty');
   }
 
   return {
     isValid: errors.length === 0,
     errors,
+    issues,
     file: {
       name: file.name,
       size: fileSize,
@@ -277,3 +310,616 @@ export const AVATAR_UPLOAD_CONFIG: FileValidationConfig = {
   maxWidth: 512,
   maxHeight: 512,
 };
+
+// Content inspection (server side)
+//
+// validateFile only checks what the client claims about a file. The
+// functions below look at the bytes themselves: file signatures ("magic
+// bytes"), active content in PDFs and metadata embedded in images.
+
+export type FileSignature =
+  | 'pdf'
+  | 'jpeg'
+  | 'png'
+  | 'gif'
+  | 'webp'
+  | 'ole' // Legacy Office (.doc)
+  | 'zip' // OOXML (.docx)
+  | 'mp4'
+  | 'webm'
+  | 'mp3'
+  | 'wav'
+  | 'ogg'
+  | 'executable'
+  | 'text'
+  | 'unknown';
+
+// Signature each allowed MIME type must have
+const MIME_TO_SIGNATURE: Record<string, FileSignature> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'application/msword': 'ole',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    'zip',
+  'text/plain': 'text',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+// PDF name objects that run code or other programs when the file is opened
+const PDF_ACTIVE_CONTENT_MARKERS = [
+  '/JavaScript',
+  '/JS',
+  '/Launch',
+  '/OpenAction',
+];
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Identify a file from its leading bytes
+ */
+export function detectFileSignature(bytes: Uint8Array): FileSignature {
+  // Windows PE, ELF, Mach-O (32/64-bit, both byte orders) and scripts
+  if (
+    startsWith(bytes, ascii('MZ')) ||
+    startsWith(bytes, [0x7f, 0x45, 0x4c, 0x46]) ||
+    startsWith(bytes, [0xfe, 0xed, 0xfa, 0xce]) ||
+    startsWith(bytes, [0xfe, 0xed, 0xfa, 0xcf]) ||
+    startsWith(bytes, [0xce, 0xfa, 0xed, 0xfe]) ||
+    startsWith(bytes, [0xcf, 0xfa, 0xed, 0xfe]) ||
+    startsWith(bytes, [0xca, 0xfe, 0xba, 0xbe]) ||
+    startsWith(bytes, ascii('#!'))
+  ) {
+    return 'executable';
+  }
+
+  if (startsWith(bytes, ascii('%PDF-'))) return 'pdf';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png';
+  }
+  if (
+    startsWith(bytes, ascii('GIF87a')) ||
+    startsWith(bytes, ascii('GIF89a'))
+  ) {
+    return 'gif';
+  }
+  if (startsWith(bytes, ascii('RIFF'))) {
+    if (startsWith(bytes, ascii('WEBP'), 8)) return 'webp';
+    if (startsWith(bytes, ascii('WAVE'), 8)) return 'wav';
+  }
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return 'ole';
+  }
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'zip';
+  if (startsWith(bytes, ascii('ftyp'), 4)) return 'mp4';
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return 'webm';
+  if (startsWith(bytes, ascii('OggS'))) return 'ogg';
+  if (
+    startsWith(bytes, ascii('ID3')) ||
+    (bytes[0] === 0xff && ((bytes[1] ?? 0) & 0xe0) === 0xe0)
+  ) {
+    return 'mp3';
+  }
+
+  return isPlainText(bytes) ? 'text' : 'unknown';
+}
+
+// Plain text has no signature; accept it when the sample has no control bytes
+function isPlainText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.length === 0) return false;
+
+  return sample.every(
+    byte =>
+      byte >= 0x20 ||
+      byte === 0x09 ||
+      byte === 0x0a ||
+      byte === 0x0c ||
+      byte === 0x0d
+  );
+}
+
+// PDFs are read in bounded pieces so a large file never becomes one string
+const PDF_SCAN_PIECE_SIZE = 1024 * 1024;
+// Names longer than this can't be markers; the PDF spec caps them at 127 bytes
+const PDF_NAME_MAX_LENGTH = 256;
+// How far back from a stream keyword to look for the stream's dictionary
+const PDF_DICTIONARY_LOOKBEHIND = 4096;
+// Compressed object streams are buffered, then inflated up to a limit
+const PDF_OBJECT_STREAM_MAX_BYTES = 16 * 1024 * 1024;
+const PDF_OBJECT_STREAM_MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+const PDF_NAME = /\/[^\s/<>[\]()%{}]*/g;
+
+const decodePdfName = (name: string) =>
+  name.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+
+// One character per byte, so offsets in the text are offsets in the bytes
+const latin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+export interface PdfActiveContentReport {
+  /** Active-content names found, in PDF_ACTIVE_CONTENT_MARKERS order */
+  markers: string[];
+  /** False when a compressed object stream could not be inflated and checked */
+  inspected: boolean;
+}
+
+export interface PdfActiveContentScanner {
+  /** Feed the next piece of the PDF, in order */
+  write(chunk: Uint8Array): Promise<void>;
+  end(): Promise<PdfActiveContentReport>;
+}
+
+// Matches names across calls, holding back a name cut off at the end of a piece
+function createPdfNameScanner(found: Set<string>) {
+  let carry = '';
+
+  return (text: string, final = false) => {
+    const input = carry + text;
+    carry = '';
+
+    for (const match of input.matchAll(PDF_NAME)) {
+      const end = match.index + match[0].length;
+      const name = decodePdfName(match[0]);
+      // A destination array only sets the opening view; anything else runs
+      const value =
+        name === '/OpenAction' ? /^\s*(\S?)/.exec(input.slice(end))![1] : '';
+
+      if (
+        !final &&
+        (end === input.length || (value === '' && name === '/OpenAction'))
+      ) {
+        const rest = input.slice(match.index);
+        if (rest.length <= PDF_NAME_MAX_LENGTH) carry = rest;
+        break;
+      }
+
+      if (
+        name === '/OpenAction'
+          ? value !== '['
+          : PDF_ACTIVE_CONTENT_MARKERS.includes(name)
+      ) {
+        found.add(name);
+      }
+    }
+  };
+}
+
+async function inflatePdfStream(
+  data: Uint8Array<ArrayBuffer>,
+  onText: (text: string) => void
+): Promise<boolean> {
+  const reader = new ReadableStream<Uint8Array<ArrayBuffer>>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  })
+    .pipeThrough(new DecompressionStream('deflate'))
+    .getReader();
+  let inflated = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return true;
+
+      inflated += value.length;
+      if (inflated > PDF_OBJECT_STREAM_MAX_INFLATED_BYTES) {
+        await reader.cancel();
+        return false;
+      }
+      onText(latin1(value));
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Incrementally find active-content markers (JavaScript, launch actions and
+ * open actions) in a PDF. Name objects may hex-escape characters
+ * (/J#61vaScript), so names are decoded before matching. Objects packed into
+ * compressed object streams (/Type /ObjStm) are inflated and scanned too.
+ */
+export function createPdfActiveContentScanner(): PdfActiveContentScanner {
+  const found = new Set<string>();
+  const scanNames = createPdfNameScanner(found);
+  let inspected = true;
+  // Raw text not yet searched for stream keywords, and what came before it
+  let text = '';
+  let context = '';
+  // Compressed object stream being collected, if any
+  let objectStream: string[] | null = null;
+  let objectStreamLength = 0;
+
+  const consume = (length: number) => {
+    context = (context + text.slice(0, length)).slice(
+      -PDF_DICTIONARY_LOOKBEHIND
+    );
+    text = text.slice(length);
+  };
+
+  // Object streams hold indirect objects, so only their dictionaries matter
+  const isCompressedObjectStream = (dictionary: string) => {
+    const header = dictionary.slice(dictionary.lastIndexOf('obj') + 1);
+    const decoded = header.replace(PDF_NAME, decodePdfName);
+    if (!/\/Type\s*\/ObjStm(?![^\s/<>[\]()%{}])/.test(decoded)) return false;
+
+    const filter = /\/Filter\s*(\[[^\]]*\]|\/[^\s/<>[\]()%{}]+)/.exec(decoded);
+    if (!filter) return false; // Uncompressed; its names are scanned as they are
+
+    const filters = filter[1]!.match(PDF_NAME) ?? [];
+    if (
+      filters.length === 1 &&
+      (filters[0] === '/FlateDecode' || filters[0] === '/Fl') &&
+      !decoded.includes('/DecodeParms')
+    ) {
+      return true;
+    }
+
+    // Other filters and predictors aren't decoded here, so fail closed
+    inspected = false;
+    return false;
+  };
+
+  const inflateObjectStream = async () => {
+    const data = objectStream!.join('').replace(/(\r\n|\r|\n)$/, '');
+    objectStream = null;
+    objectStreamLength = 0;
+
+    const scanInflated = createPdfNameScanner(found);
+    const inflated = await inflatePdfStream(
+      Uint8Array.from(data, char => char.charCodeAt(0)),
+      scanInflated
+    );
+    scanInflated('', true);
+    if (!inflated) inspected = false;
+  };
+
+  const process = async (final: boolean) => {
+    for (;;) {
+      if (objectStream) {
+        const end = text.indexOf('endstream');
+        const length =
+          end !== -1 ? end : final ? text.length : Math.max(0, text.length - 8);
+
+        objectStream.push(text.slice(0, length));
+        objectStreamLength += length;
+        consume(length);
+
+        if (objectStreamLength > PDF_OBJECT_STREAM_MAX_BYTES) {
+          inspected = false;
+          objectStream = null;
+        } else if (end !== -1 || final) {
+          await inflateObjectStream();
+        }
+        if (end === -1) return;
+        continue;
+      }
+
+      const keyword = /stream(\r\n|\r|\n)/g;
+      let match: RegExpExecArray | null;
+      while ((match = keyword.exec(text))) {
+        const previous =
+          match.index > 0 ? text[match.index - 1]! : context.slice(-1);
+        const cutOff = match[1] === '\r' && keyword.lastIndex === text.length;
+        if (!/[A-Za-z]/.test(previous) && !(cutOff && !final)) break;
+      }
+
+      if (!match) {
+        // Keep enough back for a stream keyword split across pieces
+        const length = final ? text.length : Math.max(0, text.length - 16);
+        scanNames(text.slice(0, length), final);
+        consume(length);
+        return;
+      }
+
+      const dictionary = (context + text.slice(0, match.index)).slice(
+        -PDF_DICTIONARY_LOOKBEHIND
+      );
+      scanNames(text.slice(0, match.index), true);
+      consume(keyword.lastIndex);
+      if (isCompressedObjectStream(dictionary)) objectStream = [];
+    }
+  };
+
+  return {
+    async write(chunk) {
+      for (let i = 0; i < chunk.length; i += PDF_SCAN_PIECE_SIZE) {
+        text += latin1(chunk.subarray(i, i + PDF_SCAN_PIECE_SIZE));
+        await process(false);
+      }
+    },
+    async end() {
+      await process(true);
+      return {
+        markers: PDF_ACTIVE_CONTENT_MARKERS.filter(marker => found.has(marker)),
+        inspected,
+      };
+    },
+  };
+}
+
+/**
+ * Find active-content markers in a PDF that is already in memory
+ */
+export async function findPdfActiveContent(
+  bytes: Uint8Array
+): Promise<PdfActiveContentReport> {
+  const scanner = createPdfActiveContentScanner();
+  await scanner.write(bytes);
+  return scanner.end();
+}
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0)
+  );
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
+
+// JPEG: drop APP1 (EXIF/XMP), APP13 (IPTC) and comment segments
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]!;
+
+    // Start of scan: the rest is image data
+    if (marker === 0xda) break;
+
+    const length = (bytes[offset + 2]! << 8) | bytes[offset + 3]!;
+    const end = offset + 2 + length;
+
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) {
+      parts.push(bytes.subarray(offset, end));
+    }
+
+    offset = end;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concatBytes(parts);
+}
+
+// PNG: drop eXIf and textual metadata chunks
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const metadataChunks = ['eXIf', 'tEXt', 'zTXt', 'iTXt'];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+
+    if (!metadataChunks.includes(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+
+    offset = end;
+  }
+
+  return concatBytes(parts);
+}
+
+// WebP: drop EXIF/XMP chunks and clear their VP8X flags
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.slice(0, 12)];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+
+    if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      chunk[8] = chunk[8]! & ~0x0c; // EXIF (0x08) and XMP (0x04) flags
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(bytes.subarray(offset, end));
+    }
+
+    offset = end;
+  }
+
+  const output = concatBytes(parts);
+  new DataView(output.buffer).setUint32(4, output.length - 8, true);
+  return output;
+}
+
+/**
+ * Remove EXIF/GPS and other embedded metadata from JPEG, PNG and WebP images.
+ * Other formats are returned unchanged.
+ */
+export function stripImageMetadata(
+  bytes: Uint8Array,
+  signature: FileSignature = detectFileSignature(bytes)
+): Uint8Array {
+  switch (signature) {
+    case 'jpeg':
+      return stripJpegMetadata(bytes);
+    case 'png':
+      return stripPngMetadata(bytes);
+    case 'webp':
+      return stripWebpMetadata(bytes);
+    default:
+      return bytes;
+  }
+}
+
+export interface FileInspectionResult extends FileValidationResult {
+  signature: FileSignature;
+  /** Image contents with metadata removed; store this instead when present */
+  sanitized?: Uint8Array;
+}
+
+export interface FileInspector {
+  /** Feed the next piece of the file, in order */
+  write(chunk: Uint8Array): Promise<void>;
+  finish(): Promise<FileInspectionResult>;
+}
+
+// Enough leading bytes to identify any signature, including plain text
+const SIGNATURE_SAMPLE_SIZE = 8192;
+// Files are read in pieces of this size by inspectFile
+const INSPECTION_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const IMAGE_SIGNATURES: FileSignature[] = ['jpeg', 'png', 'webp'];
+
+async function readFileBytes(file: Blob): Promise<Uint8Array> {
+  if (typeof file.arrayBuffer === 'function') {
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  // jsdom and older browsers lack Blob.arrayBuffer
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Full server-side inspection of a file fed in as it arrives: the
+ * declared-metadata checks from validateFile, then signature, active-content
+ * and metadata handling based on the file's actual bytes. Only images are
+ * held in memory, for metadata stripping, and only once validateFile has
+ * accepted them, so the config's maxSize bounds what is kept.
+ */
+export function createFileInspector(
+  file: Pick<File, 'name' | 'size' | 'type'>,
+  config: FileValidationConfig = {}
+): FileInspector {
+  const result = validateFile(file, config);
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  let signature: FileSignature | null = null;
+  let pdf: PdfActiveContentScanner | null = null;
+  let image: Uint8Array[] | null = null;
+
+  const consume = async (chunk: Uint8Array) => {
+    await pdf?.write(chunk);
+    image?.push(chunk);
+  };
+
+  const start = async () => {
+    const detected = detectFileSignature(concatBytes(head));
+    signature = detected;
+    if (detected === 'pdf') pdf = createPdfActiveContentScanner();
+    if (result.isValid && IMAGE_SIGNATURES.includes(detected)) image = [];
+
+    for (const chunk of head.splice(0)) await consume(chunk);
+    return detected;
+  };
+
+  return {
+    async write(chunk) {
+      if (signature) return consume(chunk);
+
+      head.push(chunk);
+      headLength += chunk.length;
+      if (headLength >= SIGNATURE_SAMPLE_SIZE) await start();
+    },
+
+    async finish() {
+      const detected = signature ?? (await start());
+      const issues = [...result.issues];
+
+      if (detected === 'executable') {
+        issues.push({
+          code: 'EXECUTABLE_CONTENT',
+          message: 'File contains executable content',
+        });
+      } else {
+        const expected = MIME_TO_SIGNATURE[file.type.toLowerCase()];
+        if (expected && detected !== expected) {
+          issues.push({
+            code: 'SIGNATURE_MISMATCH',
+            message: `File content does not match its declared type '${file.type}'`,
+          });
+        }
+      }
+
+      if (pdf) {
+        const report = await pdf.end();
+        if (report.markers.length > 0) {
+          issues.push({
+            code: 'PDF_ACTIVE_CONTENT',
+            message: `PDF contains active content (${report.markers.join(', ')})`,
+          });
+        }
+        if (!report.inspected) {
+          issues.push({
+            code: 'PDF_UNINSPECTABLE',
+            message:
+              'PDF contains compressed content that could not be checked',
+          });
+        }
+      }
+
+      const isValid = issues.length === 0;
+
+      return {
+        ...result,
+        isValid,
+        errors: issues.map(issue => issue.message),
+        issues,
+        signature: detected,
+        ...(isValid &&
+          image && {
+            sanitized: stripImageMetadata(concatBytes(image), detected),
+          }),
+      };
+    },
+  };
+}
+
+/**
+ * Inspect a whole file, reading it a piece at a time
+ */
+export async function inspectFile(
+  file: File,
+  config: FileValidationConfig = {}
+): Promise<FileInspectionResult> {
+  const inspector = createFileInspector(file, config);
+
+  for (let offset = 0; offset < file.size; offset += INSPECTION_CHUNK_SIZE) {
+    await inspector.write(
+      await readFileBytes(file.slice(offset, offset + INSPECTION_CHUNK_SIZE))
+    );
+  }
+
+  return inspector.finish();
+}
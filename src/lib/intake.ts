@@ -0,0 +1,247 @@
+/**
+ * Veteran Intake
+ * Steps of the intake wizard, the answers it collects, and how a completed
+ * intake becomes a case. Step schemas live in validations.ts
+ */
+
+import {
+  CLAIM_TYPE_LABELS,
+  claimSubmissionToInsert,
+  type ClaimPriority,
+} from './claim-types';
+import { Constants, type Json } from './database.types';
+import type { CompensationEstimate } from './compensation';
+import {
+  assessPresumptiveEligibility,
+  toExposureDeployments,
+  type ServiceDeployment,
+} from './presumptive';
+import type {
+  CaseUrgency,
+  ClaimInsert,
+  ClaimType,
+  Condition,
+} from './supabase';
+
+// =================================
+// STEPS
+// =================================
+
+export const INTAKE_STEPS = [
+  { key: 'personal', title: 'Personal Information' },
+  { key: 'service', title: 'Military Service' },
+  { key: 'conditions', title: 'Conditions Claimed' },
+  { key: 'rating', title: 'Current VA Rating' },
+  { key: 'evidence', title: 'Evidence on Hand' },
+  { key: 'selection', title: 'Service Selection' },
+  { key: 'consent', title: 'Consent' },
+] as const;
+
+export type IntakeStepKey = (typeof INTAKE_STEPS)[number]['key'];
+
+// =================================
+// ANSWERS
+// =================================
+
+export const SERVICE_BRANCHES = Constants.public.Enums.service_branch;
+export type ServiceBranch = (typeof SERVICE_BRANCHES)[number];
+
+export const SERVICE_BRANCH_LABELS: Record<ServiceBranch, string> = {
+  army: 'Army',
+  navy: 'Navy',
+  air_force: 'Air Force',
+  marine_corps: 'Marine Corps',
+  coast_guard: 'Coast Guard',
+  space_force: 'Space Force',
+};
+
+/** VA combined ratings are rounded to the nearest 10% */
+export const VA_RATINGS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100] as const;
+
+export const EVIDENCE_TYPES = [
+  'service_treatment_records',
+  'va_medical_records',
+  'private_medical_records',
+  'diagnosis',
+  'buddy_statements',
+  'va_decision_letter',
+  'c_file',
+] as const;
+export type EvidenceType = (typeof EVIDENCE_TYPES)[number];
+
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  service_treatment_records: 'Service treatment records (STRs)',
+  va_medical_records: 'VA medical records',
+  private_medical_records: 'Private medical records',
+  diagnosis: 'Current diagnosis from a provider',
+  buddy_statements: 'Buddy or lay statements',
+  va_decision_letter: 'VA decision letter',
+  c_file: 'Claims file (C-file)',
+};
+
+export interface IntakeCondition {
+  name: string;
+  /** Catalog entry picked from the autocomplete, if any */
+  conditionId?: string | undefined;
+  description?: string | undefined;
+}
+
+/**
+ * A completed intake, as validated by veteranIntakeSchema
+ */
+export interface IntakeSubmission {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | undefined;
+  state: string;
+  branch: ServiceBranch;
+  serviceStart: string;
+  serviceEnd?: string | undefined;
+  deployments?: ServiceDeployment[] | undefined;
+  conditions: IntakeCondition[];
+  hasVaRating: boolean;
+  currentRating?: number | undefined;
+  evidence: EvidenceType[];
+  evidenceNotes?: string | undefined;
+  claimType: ClaimType;
+  otherService?: string | undefined;
+  urgency: CaseUrgency;
+  /** Typed full name signing the consent step */
+  signature: string;
+  /** Attached when the veteran started from the compensation estimator */
+  compensationEstimate?: CompensationEstimate | undefined;
+}
+
+/** Intakes that stop partway are saved with whatever has been answered */
+export type IntakeDraftData = Partial<IntakeSubmission> & {
+  [key: string]: unknown;
+};
+
+// =================================
+// CONVERSION
+// =================================
+
+/** Faster service tiers are triaged ahead of standard cases */
+const URGENCY_PRIORITIES: Record<CaseUrgency, ClaimPriority> = {
+  standard: 'medium',
+  expedited: 'high',
+  urgent: 'urgent',
+};
+
+function describeIntake(intake: IntakeSubmission): string {
+  const lines = intake.conditions.map(condition =>
+    condition.description
+      ? `${condition.name}: ${condition.description}`
+      : condition.name
+  );
+
+  if (intake.evidenceNotes) {
+    lines.push('', `Evidence notes: ${intake.evidenceNotes}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Map a completed intake onto a `claims` insert row. Service history, rating,
+ * evidence on hand and any compensation estimate are kept in
+ * `metadata.intake` for the reviewing physician. Deployments are checked
+ * for presumptive eligibility, using the condition catalog's secondary
+ * relationships, to set the case's presumptive flag.
+ */
+export function intakeToClaimInsert(
+  userId: string,
+  intake: IntakeSubmission,
+  catalog: readonly Pick<Condition, 'name' | 'secondary_conditions'>[] = []
+): ClaimInsert {
+  const conditions = intake.conditions.map(condition => condition.name);
+  const insert = claimSubmissionToInsert(userId, {
+    title:
+      `${CLAIM_TYPE_LABELS[intake.claimType]}: ${conditions.join(', ')}`.slice(
+        0,
+        200
+      ),
+    description: describeIntake(intake),
+    claimType: intake.claimType,
+    condition: conditions.join(', ').slice(0, 200),
+    urgency: intake.urgency,
+    priority: URGENCY_PRIORITIES[intake.urgency],
+    otherService: intake.otherService,
+  });
+
+  const details: Record<string, Json> = {
+    name: `${intake.firstName} ${intake.lastName}`,
+    email: intake.email,
+    state: intake.state,
+    branch: intake.branch,
+    service_start: intake.serviceStart,
+    conditions,
+    current_rating: intake.hasVaRating ? (intake.currentRating ?? null) : null,
+    evidence: intake.evidence,
+    signature: intake.signature,
+  };
+
+  if (intake.phone) details.phone = intake.phone;
+  if (intake.serviceEnd) details.service_end = intake.serviceEnd;
+
+  const deployments = intake.deployments ?? [];
+  const presumptive = assessPresumptiveEligibility(
+    toExposureDeployments(deployments),
+    conditions,
+    catalog
+  );
+  if (deployments.length > 0) {
+    details.deployments = deployments.map(deployment => ({
+      location: deployment.location,
+      exposure: deployment.exposure || null,
+      start: deployment.start,
+      end: deployment.end || null,
+    }));
+  }
+  if (presumptive.exposures.length > 0) {
+    details.presumptive = {
+      exposures: presumptive.exposures.map(exposure => ({
+        program: exposure.program,
+        days: exposure.days,
+      })),
+      conditions: presumptive.conditions.map(assessment => ({
+        condition: assessment.condition,
+        basis: assessment.basis,
+        ...(assessment.basis === 'presumptive' && {
+          program: assessment.program,
+          presumptive_condition: assessment.presumptive.name,
+        }),
+        ...(assessment.basis === 'secondary' && {
+          secondary_to: assessment.secondaryTo,
+        }),
+      })),
+    };
+  }
+  if (intake.compensationEstimate) {
+    const { dependents, ...estimate } = intake.compensationEstimate;
+    details.compensation_estimate = {
+      rating: estimate.rating,
+      monthly_amount: estimate.monthlyAmount,
+      rate_year: estimate.rateYear,
+      effective_date: estimate.effectiveDate ?? null,
+      back_pay: estimate.backPay ?? null,
+      dependents: {
+        spouse: dependents.spouse,
+        spouse_aid_and_attendance: dependents.spouseAidAndAttendance,
+        children_under_18: dependents.childrenUnder18,
+        school_children: dependents.schoolChildren,
+        parents: dependents.parents,
+      },
+    };
+  }
+
+  return {
+    ...insert,
+    presumptive_flag: presumptive.flag,
+    metadata: {
+      ...(insert.metadata as Record<string, Json>),
+      intake: details,
+    },
+  };
+}
@@ -0,0 +1,383 @@
+/**
+ * Job Queue
+ * Background jobs stored in the `jobs` table. Workers claim due jobs (the
+ * claim_jobs function skips rows other workers hold), run the handler for
+ * each job type and record the outcome: completed, retried with backoff,
+ * or dead-lettered once attempts run out. Cron schedules enqueue one job
+ * per tick. Job types and their handlers live in lib/jobs.
+ */
+
+import { Constants, type Json } from './database.types';
+import { jobHelpers } from './database-helpers';
+import type { Job, JobStatus, JobUpdate } from './supabase';
+
+export const JOB_STATUSES = Constants.public.Enums.job_status;
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  pending: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  dead: 'Dead Letter',
+};
+
+export type JobHandler = (payload: Json, job: Job) => Promise<Json | void>;
+
+export interface JobSchedule {
+  type: string;
+  /** Five-field cron expression, evaluated in UTC */
+  cron: string;
+  payload?: Json;
+}
+
+export class JobError extends Error {
+  constructor(
+    message: string,
+    public code: 'UNKNOWN_TYPE' | 'INVALID_PAYLOAD' | 'INVALID_SCHEDULE'
+  ) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+// =================================
+// RETRIES
+// =================================
+
+export const JOB_RETRY_BASE_SECONDS = 30;
+export const JOB_RETRY_MAX_SECONDS = 60 * 60;
+
+/**
+ * How long a worker holds a job before another may take it over
+ */
+export const JOB_LOCK_SECONDS = 5 * 60;
+
+/**
+ * Seconds before retrying a job that has failed `attempts` times: 30s,
+ * 1m, 2m, 4m... capped at an hour
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(
+    JOB_RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0),
+    JOB_RETRY_MAX_SECONDS
+  );
+}
+
+/**
+ * The update recording a failed run: a retry with backoff, or the dead
+ * letter once attempts run out. JobErrors are never retried.
+ */
+export function getFailureUpdate(
+  job: Pick<Job, 'attempts' | 'max_attempts'>,
+  error: unknown,
+  now: Date = new Date()
+): JobUpdate {
+  const failure: JobUpdate = {
+    locked_by: null,
+    locked_until: null,
+    last_error: error instanceof Error ? error.message : String(error),
+  };
+
+  if (error instanceof JobError || job.attempts >= job.max_attempts) {
+    return { ...failure, status: 'dead' };
+  }
+
+  return {
+    ...failure,
+    status: 'pending',
+    run_at: new Date(
+      now.getTime() + getRetryDelaySeconds(job.attempts) * 1000
+    ).toISOString(),
+  };
+}
+
+// =================================
+// CRON SCHEDULES
+// =================================
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day of month / day of week were restricted (not `*`) */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron field "${field}"`);
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : Number(from);
+    const end = range === '*' ? max : to ? Number(to) : step ? max : start;
+    const increment = step ? Number(step) : 1;
+
+    if (start < min || end > max || start > end || increment < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day month weekday).
+ * Supports `*`, numbers, ranges, lists and steps; Sunday is 0 or 7.
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new JobError(
+      `Invalid cron expression "${expression}"`,
+      'INVALID_SCHEDULE'
+    );
+  }
+
+  const [minute, hour, day, month, weekday] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+
+  try {
+    const weekdays = parseCronField(weekday, 0, 7);
+    if (weekdays.delete(7)) weekdays.add(0);
+
+    return {
+      minutes: parseCronField(minute, 0, 59),
+      hours: parseCronField(hour, 0, 23),
+      days: parseCronField(day, 1, 31),
+      months: parseCronField(month, 1, 12),
+      weekdays,
+      daysRestricted: day !== '*',
+      weekdaysRestricted: weekday !== '*',
+    };
+  } catch (error) {
+    throw new JobError(
+      `Invalid cron expression "${expression}": ${(error as Error).message}`,
+      'INVALID_SCHEDULE'
+    );
+  }
+}
+
+function matchesCronDay(cron: CronFields, time: Date): boolean {
+  if (!cron.months.has(time.getUTCMonth() + 1)) return false;
+
+  const day = cron.days.has(time.getUTCDate());
+  const weekday = cron.weekdays.has(time.getUTCDay());
+
+  // As in cron: when both are restricted, either may match
+  if (cron.daysRestricted && cron.weekdaysRestricted) return day || weekday;
+  return day && weekday;
+}
+
+/**
+ * The most recent tick of a schedule at or before `now`, or null when
+ * there has been none in the past year
+ */
+export function getPreviousCronTime(
+  expression: string,
+  now: Date = new Date()
+): Date | null {
+  const cron = parseCron(expression);
+  const time = new Date(now);
+  time.setUTCSeconds(0, 0);
+  const earliest = now.getTime() - 366 * 24 * 60 * 60 * 1000;
+
+  while (time.getTime() >= earliest) {
+    if (!matchesCronDay(cron, time)) {
+      // Last minute of the previous day
+      time.setUTCHours(0, -1, 0, 0);
+    } else if (!cron.hours.has(time.getUTCHours())) {
+      // Last minute of the previous hour
+      time.setUTCMinutes(-1, 0, 0);
+    } else if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() - 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Enqueue the latest tick of each schedule. Each tick is enqueued once
+ * however many workers run, and a tick missed while no worker was running
+ * is run late, once.
+ */
+export async function enqueueDueSchedules(
+  schedules: JobSchedule[],
+  now: Date = new Date()
+): Promise<Job[]> {
+  const jobs: Job[] = [];
+
+  for (const schedule of schedules) {
+    const tick = getPreviousCronTime(schedule.cron, now);
+    if (!tick) continue;
+
+    const job = await jobHelpers.enqueue({
+      type: schedule.type,
+      payload: schedule.payload ?? {},
+      run_at: tick.toISOString(),
+      unique_key: `schedule:${schedule.type}@${tick.toISOString()}`,
+    });
+
+    if (job) jobs.push(job);
+  }
+
+  return jobs;
+}
+
+// =================================
+// WORKER
+// =================================
+
+export function createWorkerId(): string {
+  return `worker-${crypto.randomUUID()}`;
+}
+
+/**
+ * Run a claimed job and record the outcome. Returns the job as recorded,
+ * or as claimed if another worker has since taken it over.
+ */
+export async function runJob(
+  job: Job,
+  handlers: Record<string, JobHandler>,
+  workerId: string
+): Promise<Job> {
+  try {
+    const handler = handlers[job.type];
+    if (!handler) {
+      throw new JobError(`No handler for job type ${job.type}`, 'UNKNOWN_TYPE');
+    }
+
+    const result = await handler(job.payload, job);
+    return (await jobHelpers.complete(job.id, workerId, result ?? null)) ?? job;
+  } catch (error) {
+    console.warn(`Job ${job.type} (${job.id}) failed:`, error);
+    return (
+      (await jobHelpers.fail(job.id, workerId, getFailureUpdate(job, error))) ??
+      job
+    );
+  }
+}
+
+export interface WorkerOptions {
+  handlers: Record<string, JobHandler>;
+  /** Schedules to enqueue before claiming jobs */
+  schedules?: JobSchedule[];
+  workerId?: string;
+  /** Jobs claimed at a time */
+  batchSize?: number;
+  /** Stop claiming jobs after this time */
+  deadline?: Date;
+}
+
+export interface WorkerRunResult {
+  scheduled: number;
+  processed: number;
+  completed: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Enqueue due schedules, then work through due jobs until none are left or
+ * the deadline passes
+ */
+export async function runWorker(
+  options: WorkerOptions
+): Promise<WorkerRunResult> {
+  const {
+    handlers,
+    schedules = [],
+    workerId = createWorkerId(),
+    batchSize = 5,
+    deadline,
+  } = options;
+
+  const scheduled = await enqueueDueSchedules(schedules);
+  const result: WorkerRunResult = {
+    scheduled: scheduled.length,
+    processed: 0,
+    completed: 0,
+    retried: 0,
+    dead: 0,
+  };
+
+  while (!deadline || Date.now() < deadline.getTime()) {
+    const jobs = await jobHelpers.claim(workerId, batchSize, JOB_LOCK_SECONDS);
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      const finished = await runJob(job, handlers, workerId);
+
+      result.processed++;
+      if (finished.status === 'completed') result.completed++;
+      else if (finished.status === 'dead') result.dead++;
+      else if (finished.status === 'pending') result.retried++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Poll for jobs until `signal` aborts, for a long-running worker process.
+ * Schedules are checked once a minute.
+ */
+export async function startWorker(
+  options: Omit<WorkerOptions, 'deadline'> & {
+    pollIntervalMs?: number;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const {
+    pollIntervalMs = 5000,
+    signal,
+    schedules,
+    workerId = createWorkerId(),
+    ...workerOptions
+  } = options;
+  let scheduledMinute = -1;
+
+  while (!signal?.aborted) {
+    const minute = Math.floor(Date.now() / 60000);
+
+    try {
+      await runWorker({
+        ...workerOptions,
+        workerId,
+        ...(schedules && minute !== scheduledMinute && { schedules }),
+      });
+      scheduledMinute = minute;
+    } catch (error) {
+      console.error('Job worker error:', error);
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, pollIntervalMs);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Jobs
+ * The app's background job types, their handlers and schedules (see
+ * lib/job-queue for the queue itself). Workers run from
+ * /api/admin/jobs/work on a scheduler, or in-process when JOB_WORKER is
+ * set (see instrumentation.ts).
+ */
+
+import { z } from 'zod';
+import {
+  documentHelpers,
+  jobHelpers,
+  slaHelpers,
+  uploadSessionHelpers,
+} from './database-helpers';
+import type { Json } from './database.types';
+import { dispatchPendingEmails } from './email';
+import {
+  JobError,
+  runWorker,
+  startWorker,
+  type JobHandler,
+  type JobSchedule,
+  type WorkerRunResult,
+} from './job-queue';
+import { getMalwareScanner, scanClaimDocument } from './malware-scanner';
+import { dispatchPendingWebhooks } from './webhook-delivery';
+import { sendWeeklyDigests } from './weekly-digest';
+import type { Job } from './supabase';
+
+// =================================
+// JOB TYPES
+// =================================
+
+export interface JobPayloads {
+  'email.dispatch': Record<string, never>;
+  'webhooks.dispatch': Record<string, never>;
+  'sla.escalations': Record<string, never>;
+  'digest.weekly': Record<string, never>;
+  'document.scan': { documentId: string };
+  'sitemap.regenerate': Record<string, never>;
+  'jobs.cleanup': Record<string, never>;
+  'uploads.cleanup': Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * How long completed jobs are kept
+ */
+export const COMPLETED_JOB_RETENTION_DAYS = 7;
+
+const documentScanSchema = z.object({ documentId: z.string().uuid() });
+
+function parsePayload<T>(schema: z.ZodType<T>, payload: Json): T {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new JobError(
+      `Invalid job payload: ${result.error.issues[0]?.message}`,
+      'INVALID_PAYLOAD'
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Trigger a production deployment, which rebuilds the sitemap (as
+ * scripts/regenerate-sitemap.js does). Skipped when Vercel is not
+ * configured.
+ */
+async function regenerateSitemap(): Promise<Json> {
+  const { VERCEL_TOKEN, VERCEL_PROJECT_ID, VERCEL_ORG_ID } = process.env;
+
+  if (!VERCEL_TOKEN || !VERCEL_PROJECT_ID || !VERCEL_ORG_ID) {
+    return { skipped: 'Vercel is not configured' };
+  }
+
+  const response = await fetch(
+    `https://api.vercel.com/v13/deployments?teamId=${VERCEL_ORG_ID}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${VERCEL_TOKEN}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        name: 'thebestnexusletters',
+        project: VERCEL_PROJECT_ID,
+        target: 'production',
+        gitSource: { type: 'github', repoId: VERCEL_PROJECT_ID },
+        build: {
+          env: { NEXT_PUBLIC_SITEMAP_REGENERATED: new Date().toISOString() },
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Vercel deployment failed: ${response.status} ${await response.text()}`
+    );
+  }
+
+  const deployment = (await response.json()) as { id?: string; url?: string };
+  return { deploymentId: deployment.id ?? null, url: deployment.url ?? null };
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  async 'email.dispatch'() {
+    const emails = await dispatchPendingEmails();
+    return {
+      sent: emails.filter(email => email.status === 'sent').length,
+      failed: emails.filter(email => email.status === 'failed').length,
+    };
+  },
+
+  async 'webhooks.dispatch'() {
+    const deliveries = await dispatchPendingWebhooks();
+    return {
+      delivered: deliveries.filter(delivery => delivery.status === 'delivered')
+        .length,
+      failed: deliveries.filter(delivery => delivery.status !== 'delivered')
+        .length,
+    };
+  },
+
+  async 'sla.escalations'() {
+    const escalations = await slaHelpers.runEscalations();
+    return { escalated: escalations.length };
+  },
+
+  async 'digest.weekly'() {
+    const { period, ...result } = await sendWeeklyDigests();
+    return { period: { ...period }, ...result };
+  },
+
+  async 'document.scan'(payload) {
+    const { documentId } = parsePayload(documentScanSchema, payload);
+
+    const document = await documentHelpers.getForScan(documentId);
+    if (!document) {
+      throw new JobError(`Document ${documentId} not found`, 'INVALID_PAYLOAD');
+    }
+
+    // A scanner may be configured later; retry until attempts run out
+    const scanner = getMalwareScanner();
+    if (!scanner) throw new Error('No malware scanner is configured');
+
+    // Files over a scanner configured below the document limit come back
+    // too_large, not failed, so they are not retried
+    const scanned = await scanClaimDocument(
+      document,
+      () => documentHelpers.download(document),
+      scanner
+    );
+
+    if (scanned.scan_status === 'failed') {
+      throw new Error('Malware scan failed');
+    }
+
+    return { scanStatus: scanned.scan_status };
+  },
+
+  'sitemap.regenerate': regenerateSitemap,
+
+  async 'jobs.cleanup'() {
+    const before = new Date(
+      Date.now() - COMPLETED_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    return { deleted: await jobHelpers.deleteCompleted(before) };
+  },
+
+  // Abandoned chunked uploads would otherwise stay in storage until
+  // someone tried to resume them
+  async 'uploads.cleanup'() {
+    return { aborted: await uploadSessionHelpers.abortExpired() };
+  },
+};
+
+/**
+ * Recurring jobs; cron expressions are in UTC
+ */
+export const JOB_SCHEDULES: JobSchedule[] = [
+  { type: 'email.dispatch', cron: '* * * * *' },
+  { type: 'webhooks.dispatch', cron: '* * * * *' },
+  { type: 'sla.escalations', cron: '0 * * * *' },
+  // Monday morning in the business time zone
+  { type: 'digest.weekly', cron: '0 13 * * 1' },
+  { type: 'sitemap.regenerate', cron: '0 2 * * 0' },
+  { type: 'jobs.cleanup', cron: '30 3 * * *' },
+  { type: 'uploads.cleanup', cron: '15 * * * *' },
+];
+
+// =================================
+// ENQUEUEING AND WORKERS
+// =================================
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  /** Higher runs first */
+  priority?: number;
+  maxAttempts?: number;
+  /** Enqueueing the same key again is a no-op */
+  uniqueKey?: string;
+}
+
+/**
+ * Enqueue a job. Returns null when `uniqueKey` is already queued.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<Job | null> {
+  return jobHelpers.enqueue({
+    type,
+    payload,
+    ...(options.runAt && { run_at: options.runAt.toISOString() }),
+    ...(options.priority !== undefined && { priority: options.priority }),
+    ...(options.maxAttempts !== undefined && {
+      max_attempts: options.maxAttempts,
+    }),
+    ...(options.uniqueKey && { unique_key: options.uniqueKey }),
+  });
+}
+
+/**
+ * Enqueue due schedules and run jobs until none are due or the deadline
+ * passes
+ */
+export function runJobWorker(deadline?: Date): Promise<WorkerRunResult> {
+  return runWorker({
+    handlers: JOB_HANDLERS,
+    schedules: JOB_SCHEDULES,
+    ...(deadline && { deadline }),
+  });
+}
+
+/**
+ * Run a worker in this process until `signal` aborts
+ */
+export function startJobWorker(signal?: AbortSignal): Promise<void> {
+  return startWorker({
+    handlers: JOB_HANDLERS,
+    schedules: JOB_SCHEDULES,
+    ...(signal && { signal }),
+  });
+}
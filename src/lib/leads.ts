@@ -0,0 +1,186 @@
+/**
+ * Leads
+ * Inquiries from the /contact page, worked by staff from the lead inbox
+ * until they are converted into a veteran account with an open case
+ */
+
+import {
+  CLAIM_TYPE_LABELS,
+  claimSubmissionToInsert,
+  claimTypeFromServiceLabel,
+} from './claim-types';
+import { Constants } from './database.types';
+import type {
+  CaseUrgency,
+  ClaimInsert,
+  Lead,
+  LeadInsert,
+  LeadStatus,
+  User,
+} from './supabase';
+
+// =================================
+// STATUSES
+// =================================
+
+export const LEAD_STATUSES = Constants.public.Enums.lead_status;
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  converted: 'Converted',
+  spam: 'Spam',
+};
+
+/**
+ * Statuses staff can set by hand. Converted is only reached by converting
+ * the lead, and is final.
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ['contacted', 'spam'],
+  contacted: ['new', 'spam'],
+  spam: ['new'],
+  converted: [],
+};
+
+export class LeadError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'INVALID_STATUS'
+      | 'NOT_CONVERTIBLE'
+      | 'ACCOUNT_EXISTS'
+      | 'ACCOUNT_NOT_VETERAN',
+    public leadId?: string,
+    /** The existing account staff are asked to confirm (ACCOUNT_EXISTS) */
+    public userId?: string
+  ) {
+    super(message);
+    this.name = 'LeadError';
+  }
+}
+
+export function assertLeadTransition(
+  lead: Pick<Lead, 'id' | 'status'>,
+  to: LeadStatus
+): void {
+  if (!LEAD_STATUS_TRANSITIONS[lead.status].includes(to)) {
+    throw new LeadError(
+      `A ${LEAD_STATUS_LABELS[lead.status].toLowerCase()} lead cannot be marked ${LEAD_STATUS_LABELS[to].toLowerCase()}`,
+      'INVALID_STATUS',
+      lead.id
+    );
+  }
+}
+
+/**
+ * Leads marked as spam must be restored before they can be converted
+ */
+export function canConvertLead(lead: Pick<Lead, 'status'>): boolean {
+  return lead.status === 'new' || lead.status === 'contacted';
+}
+
+/**
+ * Check that a converted lead's claim may go to the account already using
+ * its email. Anyone can type an email into the contact form, so staff must
+ * confirm the match (`linkToUserId`), and only veteran accounts hold claims.
+ */
+export function assertAccountLinkable(
+  lead: Pick<Lead, 'id' | 'email'>,
+  account: Pick<User, 'id' | 'role'> | null,
+  linkToUserId?: string | undefined
+): void {
+  if (!account) {
+    if (linkToUserId) {
+      throw new LeadError(
+        `No account uses ${lead.email} any more; convert the lead again to invite the veteran`,
+        'NOT_CONVERTIBLE',
+        lead.id
+      );
+    }
+    return;
+  }
+
+  if (account.role !== 'user') {
+    throw new LeadError(
+      `${lead.email} belongs to a staff or provider account, which cannot hold a claim`,
+      'ACCOUNT_NOT_VETERAN',
+      lead.id
+    );
+  }
+
+  if (linkToUserId !== account.id) {
+    throw new LeadError(
+      `An account already uses ${lead.email}. Confirm it belongs to this veteran before linking the claim to it.`,
+      'ACCOUNT_EXISTS',
+      lead.id,
+      account.id
+    );
+  }
+}
+
+// =================================
+// MAPPING
+// =================================
+
+export interface ContactSubmission {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | undefined;
+  service: string;
+  otherService?: string | undefined;
+  condition?: string | undefined;
+  message?: string | undefined;
+  urgency: CaseUrgency;
+}
+
+/**
+ * Map a validated contact form submission (see nexusContactFormSchema) onto
+ * a `leads` insert row
+ */
+export function contactSubmissionToLead(
+  submission: ContactSubmission
+): LeadInsert {
+  return {
+    first_name: submission.firstName.trim(),
+    last_name: submission.lastName.trim(),
+    email: submission.email.trim().toLowerCase(),
+    phone: submission.phone || null,
+    claim_type: claimTypeFromServiceLabel(submission.service) ?? 'other',
+    other_service: submission.otherService?.trim() || null,
+    condition: submission.condition?.trim() || null,
+    message: submission.message?.trim() || null,
+    urgency: submission.urgency,
+  };
+}
+
+export function getLeadName(lead: Pick<Lead, 'first_name' | 'last_name'>) {
+  return `${lead.first_name} ${lead.last_name}`;
+}
+
+/**
+ * The case opened when a lead is converted
+ */
+export function leadToClaimInsert(userId: string, lead: Lead): ClaimInsert {
+  const condition = lead.condition || 'To be confirmed';
+  const insert = claimSubmissionToInsert(userId, {
+    title: `${CLAIM_TYPE_LABELS[lead.claim_type]}: ${condition}`.slice(0, 200),
+    description:
+      lead.message ||
+      `Converted from a contact inquiry by ${getLeadName(lead)}`,
+    claimType: lead.claim_type,
+    condition,
+    urgency: lead.urgency,
+    priority: 'medium',
+    otherService: lead.other_service ?? undefined,
+  });
+
+  return {
+    ...insert,
+    metadata: {
+      ...(insert.metadata as Record<string, string>),
+      lead_id: lead.id,
+    },
+  };
+}
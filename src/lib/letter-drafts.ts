@@ -0,0 +1,369 @@
+/**
+ * Letter Templates and Drafts
+ * Fills template content from the veteran's and claim's records, and
+ * compares saved draft versions word by word
+ */
+
+import type { Json } from './database.types';
+import { CLAIM_TYPE_LABELS } from './claim-types';
+import {
+  OPINION_LIKELIHOOD_PHRASES,
+  SERVICE_RELATIONSHIP_PHRASES,
+  formatCitation,
+  formatLetterDate,
+  type PhysicianOpinion,
+} from './nexus-letter';
+import type {
+  Claim,
+  LetterDraftVersion,
+  LetterTemplate,
+  User,
+} from './supabase';
+import { letterDraftContentSchema } from './validations';
+
+/**
+ * Draft and template content: the physician's opinion, possibly incomplete
+ */
+export type LetterDraftContent = PhysicianOpinion;
+
+export const BLANK_LETTER_CONTENT: LetterDraftContent = {
+  likelihood: 'at_least_as_likely_as_not',
+  relationship: 'direct',
+  serviceConnection: '',
+  recordsReviewed: [],
+  rationale: [],
+  citations: [],
+};
+
+/**
+ * Validate content read from a JSONB column
+ */
+export function parseLetterContent(content: Json): LetterDraftContent {
+  return letterDraftContentSchema.parse(content);
+}
+
+// =================================
+// MERGE FIELDS
+// =================================
+
+export interface MergeContext {
+  veteran: Pick<User, 'full_name' | 'email' | 'phone'>;
+  claim: Pick<Claim, 'claim_number' | 'condition' | 'claim_type' | 'title'>;
+  date?: Date;
+}
+
+export interface MergeField {
+  /** Written in templates as {{key}} */
+  key: string;
+  label: string;
+  resolve: (context: MergeContext) => string | null | undefined;
+}
+
+const nameParts = (veteran: MergeContext['veteran']) =>
+  veteran.full_name?.trim().split(/\s+/) ?? [];
+
+export const MERGE_FIELDS: readonly MergeField[] = [
+  {
+    key: 'veteran.full_name',
+    label: "Veteran's full name",
+    resolve: ({ veteran }) => veteran.full_name,
+  },
+  {
+    key: 'veteran.first_name',
+    label: "Veteran's first name",
+    resolve: ({ veteran }) => nameParts(veteran)[0],
+  },
+  {
+    key: 'veteran.last_name',
+    label: "Veteran's last name",
+    resolve: ({ veteran }) => {
+      const parts = nameParts(veteran);
+      return parts.length > 1 ? parts[parts.length - 1] : undefined;
+    },
+  },
+  {
+    key: 'veteran.email',
+    label: "Veteran's email",
+    resolve: ({ veteran }) => veteran.email,
+  },
+  {
+    key: 'veteran.phone',
+    label: "Veteran's phone",
+    resolve: ({ veteran }) => veteran.phone,
+  },
+  {
+    key: 'claim.claim_number',
+    label: 'Case number',
+    resolve: ({ claim }) => claim.claim_number,
+  },
+  {
+    key: 'claim.condition',
+    label: 'Claimed condition',
+    resolve: ({ claim }) => claim.condition,
+  },
+  {
+    key: 'claim.title',
+    label: 'Case title',
+    resolve: ({ claim }) => claim.title,
+  },
+  {
+    key: 'claim.service',
+    label: 'Requested service',
+    resolve: ({ claim }) => CLAIM_TYPE_LABELS[claim.claim_type],
+  },
+  {
+    key: 'today',
+    label: "Today's date",
+    resolve: ({ date }) => formatLetterDate(date ?? new Date()),
+  },
+];
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+(?:\.[a-z_]+)?)\s*\}\}/g;
+
+/**
+ * Keys of the merge fields written in a piece of text
+ */
+export function findMergeFields(text: string): string[] {
+  return Array.from(text.matchAll(MERGE_FIELD_PATTERN), match => match[1]!);
+}
+
+/**
+ * Replace merge fields with values from the context. Unknown fields and
+ * fields with no value (e.g. a veteran with no phone on file) are left in
+ * place so the physician can see what still needs filling in.
+ */
+export function applyMergeFields(text: string, context: MergeContext): string {
+  return text.replace(MERGE_FIELD_PATTERN, (placeholder, key: string) => {
+    const field = MERGE_FIELDS.find(candidate => candidate.key === key);
+    const value = field?.resolve(context)?.trim();
+    return value ? value : placeholder;
+  });
+}
+
+const mapContentText = (
+  content: LetterDraftContent,
+  map: (text: string) => string
+): LetterDraftContent => ({
+  ...content,
+  ...(content.condition && { condition: map(content.condition) }),
+  serviceConnection: map(content.serviceConnection),
+  recordsReviewed: content.recordsReviewed.map(map),
+  rationale: content.rationale.map(map),
+});
+
+/**
+ * Fill the merge fields throughout a template or draft
+ */
+export function mergeLetterContent(
+  content: LetterDraftContent,
+  context: MergeContext
+): LetterDraftContent {
+  return mapContentText(content, text => applyMergeFields(text, context));
+}
+
+/**
+ * Content for a new draft started from a template
+ */
+export function instantiateTemplate(
+  template: Pick<LetterTemplate, 'content'>,
+  context: MergeContext
+): LetterDraftContent {
+  return mergeLetterContent(parseLetterContent(template.content), context);
+}
+
+/**
+ * Merge fields still present in a draft, without duplicates
+ */
+export function findUnresolvedMergeFields(
+  content: LetterDraftContent
+): string[] {
+  const keys = new Set<string>();
+  mapContentText(content, text => {
+    findMergeFields(text).forEach(key => keys.add(key));
+    return text;
+  });
+  return Array.from(keys);
+}
+
+// =================================
+// VERSION DIFFS
+// =================================
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (
+  segments: DiffSegment[],
+  op: DiffOperation,
+  text: string
+) => {
+  const last = segments[segments.length - 1];
+  if (last?.op === op) {
+    last.text += text;
+  } else if (text) {
+    segments.push({ op, text });
+  }
+};
+
+/**
+ * Word-level diff of two strings (longest common subsequence of words and
+ * whitespace runs). Joining the equal and delete segments gives `before`;
+ * joining the equal and insert segments gives `after`.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Unchanged leading and trailing words keep the table small for the
+  // usual edit of a sentence or two
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const lengths = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => lengths[i * (cols + 1) + j]!;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] =
+        a[start + i] === b[start + j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      pushSegment(segments, 'equal', a[start + i]!);
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || at(i + 1, j) >= at(i, j + 1))) {
+      pushSegment(segments, 'delete', a[start + i]!);
+      i++;
+    } else {
+      pushSegment(segments, 'insert', b[start + j]!);
+      j++;
+    }
+  }
+
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
+
+export interface LetterFieldChange {
+  field: keyof LetterDraftContent;
+  label: string;
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+export interface LetterDraftDiff {
+  fromVersion: number;
+  toVersion: number;
+  changes: LetterFieldChange[];
+}
+
+const DIFF_FIELDS: {
+  field: keyof LetterDraftContent;
+  label: string;
+  text: (content: LetterDraftContent) => string;
+}[] = [
+  {
+    field: 'condition',
+    label: 'Condition',
+    text: content => content.condition ?? '',
+  },
+  {
+    field: 'likelihood',
+    label: 'Likelihood',
+    text: content => OPINION_LIKELIHOOD_PHRASES[content.likelihood],
+  },
+  {
+    field: 'relationship',
+    label: 'Relationship',
+    text: content => SERVICE_RELATIONSHIP_PHRASES[content.relationship],
+  },
+  {
+    field: 'serviceConnection',
+    label: 'Related to',
+    text: content => content.serviceConnection,
+  },
+  {
+    field: 'recordsReviewed',
+    label: 'Records Reviewed',
+    text: content => content.recordsReviewed.join('\n'),
+  },
+  {
+    field: 'rationale',
+    label: 'Rationale',
+    text: content => content.rationale.join('\n\n'),
+  },
+  {
+    field: 'citations',
+    label: 'Medical Literature Cited',
+    text: content => content.citations.map(formatCitation).join('\n'),
+  },
+];
+
+/**
+ * Changes between two versions of a letter's content, field by field.
+ * Unchanged fields are left out.
+ */
+export function diffLetterContent(
+  before: LetterDraftContent,
+  after: LetterDraftContent
+): LetterFieldChange[] {
+  return DIFF_FIELDS.flatMap(({ field, label, text }) => {
+    const beforeText = text(before);
+    const afterText = text(after);
+    if (beforeText === afterText) return [];
+
+    return [
+      {
+        field,
+        label,
+        before: beforeText,
+        after: afterText,
+        segments: diffText(beforeText, afterText),
+      },
+    ];
+  });
+}
+
+/**
+ * Compare two saved versions of a draft
+ */
+export function diffLetterDraftVersions(
+  from: Pick<LetterDraftVersion, 'version' | 'content'>,
+  to: Pick<LetterDraftVersion, 'version' | 'content'>
+): LetterDraftDiff {
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes: diffLetterContent(
+      parseLetterContent(from.content),
+      parseLetterContent(to.content)
+    ),
+  };
+}
@@ -0,0 +1,408 @@
+/**
+ * Mailer
+ * Delivers the email outbox (lib/email) over SMTP. In development, point
+ * SMTP_HOST at a local catcher such as MailHog or smtp4dev
+ * (SMTP_HOST=localhost, SMTP_PORT=1025) to inspect outgoing mail.
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+
+export interface MailMessage {
+  /** Mailbox, e.g. `The Best Nexus Letters <no-reply@example.com>` */
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendResult {
+  messageId: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<SendResult>;
+}
+
+export class MailerError extends Error {
+  constructor(
+    message: string,
+    public code: 'CONNECTION_FAILED' | 'TIMEOUT' | 'REJECTED' | 'TLS_REQUIRED',
+    public replyCode?: number
+  ) {
+    super(message);
+    this.name = 'MailerError';
+  }
+}
+
+export const DEFAULT_MAIL_FROM = 'no-reply@thebestnexusletters.com';
+
+/**
+ * Sender mailbox for this environment; EMAIL_FROM is a bare address
+ */
+export function getMailFrom(
+  env: Record<string, string | undefined> = process.env
+): string {
+  return `The Best Nexus Letters <${env.EMAIL_FROM || DEFAULT_MAIL_FROM}>`;
+}
+
+// =================================
+// MIME
+// =================================
+
+/**
+ * Bare address from `Name <address>` or `address`
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1]! : mailbox).trim();
+}
+
+// Header values never carry line breaks (header injection); non-ASCII
+// values are sent as RFC 2047 encoded words
+const encodeHeader = (value: string) => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line)
+    ? line
+    : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+};
+
+const encodeBody = (content: string) =>
+  (
+    Buffer.from(content, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []
+  ).join('\r\n');
+
+/**
+ * Build a multipart/alternative message with text and HTML parts
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { messageId: string; date?: Date; boundary?: string }
+): string {
+  const boundary = options.boundary ?? `=_${randomUUID()}`;
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${options.messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// =================================
+// LOG STAND-IN
+// =================================
+
+/**
+ * Transport that only logs what would have been sent.
+ * For local development without an SMTP server.
+ */
+export function createLogTransport(): MailTransport {
+  return {
+    name: 'log',
+    async send(message) {
+      const messageId = `${randomUUID()}@localhost`;
+      console.info('Email not sent (no SMTP server configured):', {
+        to: message.to,
+        subject: message.subject,
+        messageId,
+      });
+      return { messageId };
+    },
+  };
+}
+
+// =================================
+// SMTP
+// =================================
+
+export interface SmtpTransportOptions {
+  host: string;
+  port?: number;
+  /**
+   * Implicit TLS (usually port 465); otherwise STARTTLS is used if offered.
+   * Credentials are only ever sent once the connection is encrypted
+   */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  /** Name announced in EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Split buffered server output into complete replies. `250-...` lines
+ * continue a multiline reply and `250 ...` ends it; anything after the
+ * last complete reply is returned as `rest`.
+ */
+export function parseSmtpReplies(buffer: string): {
+  replies: SmtpReply[];
+  rest: string;
+} {
+  const replies: SmtpReply[] = [];
+  let lines: string[] = [];
+  let start = 0;
+  let consumed = 0;
+  let end: number;
+
+  while ((end = buffer.indexOf('\r\n', start)) !== -1) {
+    const line = buffer.slice(start, end);
+    start = end + 2;
+    lines.push(line.slice(4));
+
+    if (line.charAt(3) !== '-') {
+      replies.push({ code: Number(line.slice(0, 3)), lines });
+      lines = [];
+      consumed = start;
+    }
+  }
+
+  return { replies, rest: buffer.slice(consumed) };
+}
+
+/**
+ * Request/reply session over a socket that can be upgraded with STARTTLS
+ */
+function createSmtpSession(socket: net.Socket, timeoutMs: number) {
+  let current = socket;
+  let buffer = '';
+  const replies: SmtpReply[] = [];
+  let waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  let failure: MailerError | null = null;
+  // Rejects a STARTTLS handshake still in progress
+  let upgrading: ((error: Error) => void) | null = null;
+
+  const flush = () => {
+    if (!waiting) return;
+
+    const next = replies.shift();
+    if (next) {
+      waiting.resolve(next);
+      waiting = null;
+    } else if (failure) {
+      waiting.reject(failure);
+      waiting = null;
+    }
+  };
+
+  const fail = (error: MailerError) => {
+    failure ??= error;
+    current.destroy();
+    upgrading?.(failure);
+    upgrading = null;
+    flush();
+  };
+
+  const onData = (chunk: Buffer) => {
+    const parsed = parseSmtpReplies(buffer + chunk.toString('utf8'));
+    buffer = parsed.rest;
+    replies.push(...parsed.replies);
+    flush();
+  };
+  const onError = (error: Error) =>
+    fail(new MailerError(error.message, 'CONNECTION_FAILED'));
+  const onClose = () =>
+    fail(new MailerError('SMTP connection closed', 'CONNECTION_FAILED'));
+  const onTimeout = () =>
+    fail(new MailerError('SMTP server timed out', 'TIMEOUT'));
+
+  const attach = (target: net.Socket) => {
+    current = target;
+    target.setTimeout(timeoutMs);
+    target.on('data', onData);
+    target.on('error', onError);
+    target.on('close', onClose);
+    target.on('timeout', onTimeout);
+  };
+
+  const detach = (target: net.Socket) => {
+    target.setTimeout(0);
+    target.off('data', onData);
+    target.off('error', onError);
+    target.off('close', onClose);
+    target.off('timeout', onTimeout);
+  };
+
+  const read = (...expected: number[]) =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      waiting = { resolve, reject };
+      flush();
+    }).then(reply => {
+      if (!expected.includes(reply.code)) {
+        throw new MailerError(
+          `SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`,
+          'REJECTED',
+          reply.code
+        );
+      }
+      return reply;
+    });
+
+  attach(socket);
+
+  return {
+    read,
+    command(line: string, ...expected: number[]) {
+      current.write(`${line}\r\n`);
+      return read(...expected);
+    },
+    startTls(servername: string) {
+      const plain = current;
+      detach(plain);
+      const secured = tls.connect({ socket: plain, servername });
+      attach(secured);
+
+      return new Promise<void>((resolve, reject) => {
+        if (failure) return reject(failure);
+        upgrading = reject;
+        secured.once('secureConnect', () => {
+          upgrading = null;
+          resolve();
+        });
+      });
+    },
+    close() {
+      detach(current);
+      current.destroy();
+    },
+  };
+}
+
+const supportsExtension = (ehlo: SmtpReply, extension: string) =>
+  ehlo.lines.some(line => line.toUpperCase().split(' ')[0] === extension);
+
+/**
+ * Transport that delivers each message over its own SMTP connection
+ */
+export function createSmtpTransport(
+  options: SmtpTransportOptions
+): MailTransport {
+  const {
+    host,
+    secure = false,
+    port = secure ? 465 : 587,
+    user,
+    password,
+    clientName = 'localhost',
+    timeoutMs = 30000,
+  } = options;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const from = extractAddress(message.from);
+      const messageId = `${randomUUID()}@${from.split('@')[1] ?? 'localhost'}`;
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.createConnection({ host, port });
+      const session = createSmtpSession(socket, timeoutMs);
+
+      try {
+        await session.read(220);
+        const ehlo = await session.command(`EHLO ${clientName}`, 250);
+        let encrypted = secure;
+
+        if (!secure && supportsExtension(ehlo, 'STARTTLS')) {
+          await session.command('STARTTLS', 220);
+          await session.startTls(host);
+          await session.command(`EHLO ${clientName}`, 250);
+          encrypted = true;
+        }
+
+        if (user && password) {
+          if (!encrypted) {
+            throw new MailerError(
+              'SMTP server does not offer STARTTLS; credentials are only sent over TLS',
+              'TLS_REQUIRED'
+            );
+          }
+
+          const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+            'base64'
+          );
+          await session.command(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        await session.command(`MAIL FROM:<${from}>`, 250);
+        await session.command(
+          `RCPT TO:<${extractAddress(message.to)}>`,
+          250,
+          251
+        );
+        await session.command('DATA', 354);
+
+        // Lines starting with a dot are escaped; a lone dot ends the data
+        const data = buildMimeMessage(message, { messageId }).replace(
+          /^\./gm,
+          '..'
+        );
+        await session.command(`${data}.`, 250);
+        await session.command('QUIT', 221).catch(() => undefined);
+
+        return { messageId };
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
+
+// =================================
+// CONFIGURATION
+// =================================
+
+/**
+ * SMTP when SMTP_HOST is set, with EMAIL_API_KEY as the password. Without
+ * it development only logs messages, and production has no transport so
+ * queued email stays in the outbox until SMTP is set up
+ */
+export function getMailTransport(
+  env: Record<string, string | undefined> = process.env
+): MailTransport | null {
+  if (env.SMTP_HOST) {
+    return createSmtpTransport({
+      host: env.SMTP_HOST,
+      secure: env.SMTP_SECURE === 'true',
+      ...(env.SMTP_PORT && { port: Number(env.SMTP_PORT) }),
+      ...(env.SMTP_USER && { user: env.SMTP_USER }),
+      ...(env.EMAIL_API_KEY && { password: env.EMAIL_API_KEY }),
+    });
+  }
+
+  if (env.NODE_ENV !== 'production') {
+    return createLogTransport();
+  }
+
+  return null;
+}
@@ -0,0 +1,306 @@
+/**
+ * Malware Scanning
+ * Scans uploaded documents with ClamAV (clamd) and records the verdict;
+ * documents stay quarantined until they are found clean.
+ */
+
+import net from 'node:net';
+import { once } from 'node:events';
+import { documentHelpers } from './database-helpers';
+import { MAX_DOCUMENT_SIZE } from './claim-documents';
+import type { ClaimDocument } from './supabase';
+
+export type ScanVerdict = 'clean' | 'infected' | 'failed' | 'too_large';
+
+export interface ScanResult {
+  verdict: ScanVerdict;
+  scanner: string;
+  /** Signature name reported for infected content */
+  signature?: string;
+  /** Scanner error for failed scans */
+  error?: string;
+}
+
+/** File contents, whole or as pieces read from storage */
+export type ScanContent = Uint8Array | AsyncIterable<Uint8Array>;
+
+export interface MalwareScanner {
+  readonly name: string;
+  /** Largest content the scanner accepts; bigger files are too_large */
+  readonly maxBytes?: number;
+  scan(content: ScanContent): Promise<ScanResult>;
+}
+
+const tooLarge = (scanner: string, maxBytes: number): ScanResult => ({
+  verdict: 'too_large',
+  scanner,
+  error: `Content exceeds the ${maxBytes} byte scan limit`,
+});
+
+async function* readContent(content: ScanContent) {
+  if (ArrayBuffer.isView(content)) {
+    yield content;
+  } else {
+    yield* content;
+  }
+}
+
+// =================================
+// EICAR STAND-IN
+// =================================
+
+// Industry-standard antivirus test string; harmless, but every scanner
+// reports it as infected
+export const EICAR_TEST_STRING =
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * In-process scanner that only detects the EICAR test string.
+ * For tests and local development where clamd is not running.
+ */
+export function createEicarScanner(): MalwareScanner {
+  const signature = new TextEncoder().encode(EICAR_TEST_STRING);
+
+  const contains = (content: Uint8Array) => {
+    outer: for (let i = 0; i <= content.length - signature.length; i++) {
+      for (let j = 0; j < signature.length; j++) {
+        if (content[i + j] !== signature[j]) continue outer;
+      }
+      return true;
+    }
+    return false;
+  };
+
+  return {
+    name: 'eicar',
+    async scan(content) {
+      // Carry the end of each piece over in case the string spans two
+      let tail = new Uint8Array(0);
+
+      for await (const chunk of readContent(content)) {
+        const window = new Uint8Array(tail.length + chunk.length);
+        window.set(tail);
+        window.set(chunk, tail.length);
+
+        if (contains(window)) {
+          return {
+            verdict: 'infected',
+            scanner: 'eicar',
+            signature: 'Eicar-Test-Signature',
+          };
+        }
+        tail = window.slice(-(signature.length - 1));
+      }
+
+      return { verdict: 'clean', scanner: 'eicar' };
+    },
+  };
+}
+
+// =================================
+// CLAMAV (CLAMD)
+// =================================
+
+export interface ClamdScannerOptions {
+  /** Unix socket path, e.g. /var/run/clamav/clamd.ctl (takes precedence) */
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+  /** Must not exceed clamd's StreamMaxLength, or clamd cuts the stream off */
+  maxBytes?: number;
+}
+
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+// Every document the vault accepts. clamd's StreamMaxLength (25MB by
+// default) must be raised to match; see .env.example
+export const CLAMD_DEFAULT_MAX_BYTES = MAX_DOCUMENT_SIZE;
+
+/**
+ * Parse a clamd INSTREAM reply, e.g. `stream: OK` or
+ * `stream: Win.Test.EICAR_HDB-1 FOUND`
+ */
+export function parseClamdResponse(response: string): ScanResult {
+  const reply = response.replace(/\0/g, '').trim();
+
+  if (reply.endsWith('OK')) {
+    return { verdict: 'clean', scanner: 'clamd' };
+  }
+
+  const found = reply.match(/^stream: (.+) FOUND$/);
+  if (found) {
+    return { verdict: 'infected', scanner: 'clamd', signature: found[1]! };
+  }
+
+  // StreamMaxLength was reached before the end of the stream
+  if (reply.startsWith('INSTREAM size limit exceeded')) {
+    return { verdict: 'too_large', scanner: 'clamd', error: reply };
+  }
+
+  return { verdict: 'failed', scanner: 'clamd', error: reply || 'Empty reply' };
+}
+
+/**
+ * Scanner backed by a ClamAV daemon using the INSTREAM command
+ */
+export function createClamdScanner(
+  options: ClamdScannerOptions = {}
+): MalwareScanner {
+  const {
+    socketPath,
+    host = '127.0.0.1',
+    port = 3310,
+    // Idle time allowed; clamd is silent while it scans a large file
+    timeoutMs = 120000,
+    maxBytes = CLAMD_DEFAULT_MAX_BYTES,
+  } = options;
+
+  return {
+    name: 'clamd',
+    maxBytes,
+    async scan(content) {
+      const socket = socketPath
+        ? net.createConnection({ path: socketPath })
+        : net.createConnection({ host, port });
+      const chunks: Buffer[] = [];
+
+      // Settles on clamd's reply, an error or a timeout, whichever is first
+      const reply = new Promise<ScanResult>(resolve => {
+        const failed = (error: string) =>
+          resolve({ verdict: 'failed', scanner: 'clamd', error });
+
+        socket.setTimeout(timeoutMs, () => failed('Scan timed out'));
+        socket.on('error', error =>
+          // clamd may reply and hang up while a write is still in flight
+          chunks.length > 0
+            ? resolve(
+                parseClamdResponse(Buffer.concat(chunks).toString('utf8'))
+              )
+            : failed(error.message)
+        );
+        socket.on('data', data => chunks.push(data));
+        socket.on('end', () =>
+          resolve(parseClamdResponse(Buffer.concat(chunks).toString('utf8')))
+        );
+        socket.on('close', () => failed('Connection closed'));
+      });
+
+      // Wait for the socket to flush before writing more, so large files
+      // are not buffered in memory
+      const write = async (data: Uint8Array) => {
+        if (!socket.write(data)) await once(socket, 'drain');
+      };
+
+      const send = async (): Promise<ScanResult | null> => {
+        await once(socket, 'connect');
+        await write(Buffer.from('zINSTREAM\0'));
+
+        let sent = 0;
+        for await (const piece of readContent(content)) {
+          sent += piece.length;
+          if (sent > maxBytes) return tooLarge('clamd', maxBytes);
+
+          for (
+            let offset = 0;
+            offset < piece.length;
+            offset += CLAMD_CHUNK_SIZE
+          ) {
+            const chunk = piece.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+            const size = Buffer.alloc(4);
+            size.writeUInt32BE(chunk.length);
+            await write(size);
+            await write(chunk);
+          }
+        }
+
+        // Zero-length chunk ends the stream
+        await write(Buffer.alloc(4));
+        return null;
+      };
+
+      try {
+        return await Promise.race([
+          reply,
+          send().then(
+            result => result ?? reply,
+            () => reply
+          ),
+        ]);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+// =================================
+// CONFIGURATION
+// =================================
+
+/**
+ * Scanner configured for this environment: clamd when CLAMD_SOCKET or
+ * CLAMD_HOST is set, the EICAR stand-in outside production, otherwise
+ * none (uploads then stay quarantined until an admin rescans them)
+ */
+export function getMalwareScanner(
+  env: Record<string, string | undefined> = process.env
+): MalwareScanner | null {
+  if (env.CLAMD_SOCKET || env.CLAMD_HOST) {
+    if (Number(env.CLAMD_MAX_STREAM_BYTES ?? Infinity) < MAX_DOCUMENT_SIZE) {
+      console.warn(
+        `CLAMD_MAX_STREAM_BYTES is below the ${MAX_DOCUMENT_SIZE} byte document limit; larger documents will stay quarantined as too_large`
+      );
+    }
+
+    return createClamdScanner({
+      ...(env.CLAMD_SOCKET && { socketPath: env.CLAMD_SOCKET }),
+      ...(env.CLAMD_HOST && { host: env.CLAMD_HOST }),
+      ...(env.CLAMD_PORT && { port: Number(env.CLAMD_PORT) }),
+      ...(env.CLAMD_MAX_STREAM_BYTES && {
+        maxBytes: Number(env.CLAMD_MAX_STREAM_BYTES),
+      }),
+    });
+  }
+
+  if (env.NODE_ENV !== 'production') {
+    return createEicarScanner();
+  }
+
+  return null;
+}
+
+// =================================
+// CLAIM DOCUMENTS
+// =================================
+
+/**
+ * Scan a stored claim document and record the verdict. Without a
+ * configured scanner the document is left in quarantine, as are documents
+ * larger than the scanner accepts (recorded as too_large, without reading
+ * their content).
+ */
+export async function scanClaimDocument(
+  document: ClaimDocument,
+  content: ScanContent | (() => ScanContent | Promise<ScanContent>),
+  scanner: MalwareScanner | null = getMalwareScanner()
+): Promise<ClaimDocument> {
+  if (!scanner) return document;
+
+  const result =
+    scanner.maxBytes !== undefined && document.size_bytes > scanner.maxBytes
+      ? tooLarge(scanner.name, scanner.maxBytes)
+      : await scanner.scan(
+          typeof content === 'function' ? await content() : content
+        );
+
+  if (result.verdict === 'infected') {
+    console.warn('Quarantined infected document:', {
+      documentId: document.id,
+      claimId: document.claim_id,
+      signature: result.signature,
+    });
+  }
+
+  return documentHelpers.recordScanResult(document.id, result);
+}
@@ -0,0 +1,238 @@
+/**
+ * Nexus Letter PDF Rendering
+ * Lays a NexusLetter out on US Letter pages: letterhead, reference block,
+ * opinion and rationale, citations, a signature block that is never split
+ * across pages, and a case identifier and page number on every page.
+ */
+
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  createPdfDocument,
+  measureText,
+  wrapText,
+  type PdfFont,
+  type PdfPage,
+} from './pdf-writer';
+import type { NexusLetter } from './nexus-letter';
+
+const MARGIN_X = 72;
+const MARGIN_TOP = 72;
+const MARGIN_BOTTOM = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN_BOTTOM;
+const FOOTER_BASELINE = PAGE_HEIGHT - 40;
+
+const BODY_SIZE = 11;
+const SMALL_SIZE = 9;
+const PARAGRAPH_SPACING = 8;
+const LIST_INDENT = 18;
+const REFERENCE_LABEL_WIDTH = 72;
+const SIGNATURE_SPACE = 40;
+
+const leading = (size: number) => Math.round(size * 1.4);
+
+export interface NexusLetterPdfOptions {
+  /** Recorded in the PDF metadata; omitted by default for reproducibility */
+  createdAt?: Date;
+}
+
+/**
+ * Render a letter to PDF bytes. Runs entirely in-process with no network
+ * or font files.
+ */
+export function renderNexusLetterPdf(
+  letter: NexusLetter,
+  options: NexusLetterPdfOptions = {}
+): Uint8Array {
+  const pdf = createPdfDocument({
+    title: letter.title,
+    author: letter.signature.name,
+    subject: 'Independent medical opinion',
+    creator: letter.letterhead.organization,
+    ...(options.createdAt && { createdAt: options.createdAt }),
+  });
+
+  const pages: PdfPage[] = [];
+  let page!: PdfPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = pdf.addPage();
+    pages.push(page);
+    y = MARGIN_TOP;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) newPage();
+  };
+
+  const drawLine = (
+    text: string,
+    font: PdfFont,
+    size: number,
+    x = MARGIN_X
+  ) => {
+    ensureSpace(leading(size));
+    page.text(x, y + size, text, font, size);
+    y += leading(size);
+  };
+
+  const drawCentered = (text: string, font: PdfFont, size: number) => {
+    drawLine(
+      text,
+      font,
+      size,
+      (PAGE_WIDTH - measureText(text, font, size)) / 2
+    );
+  };
+
+  const drawParagraph = (
+    text: string,
+    font: PdfFont = 'regular',
+    indent = 0
+  ) => {
+    wrapText(text, font, BODY_SIZE, CONTENT_WIDTH - indent).forEach(line =>
+      drawLine(line, font, BODY_SIZE, MARGIN_X + indent)
+    );
+    y += PARAGRAPH_SPACING;
+  };
+
+  const drawHeading = (text: string) => {
+    // Keep headings with at least two lines of what follows
+    ensureSpace(leading(BODY_SIZE) * 3);
+    drawLine(text, 'bold', BODY_SIZE);
+    y += 2;
+  };
+
+  const drawList = (items: string[], numbered: boolean) => {
+    items.forEach((item, index) => {
+      const marker = numbered ? `${index + 1}.` : '-';
+      const lines = wrapText(
+        item,
+        'regular',
+        BODY_SIZE,
+        CONTENT_WIDTH - LIST_INDENT
+      );
+
+      lines.forEach((line, lineIndex) => {
+        ensureSpace(leading(BODY_SIZE));
+        if (lineIndex === 0) {
+          page.text(MARGIN_X, y + BODY_SIZE, marker, 'regular', BODY_SIZE);
+        }
+        drawLine(line, 'regular', BODY_SIZE, MARGIN_X + LIST_INDENT);
+      });
+      y += 2;
+    });
+    y += PARAGRAPH_SPACING;
+  };
+
+  newPage();
+
+  // Letterhead
+  drawCentered(letter.letterhead.organization, 'bold', 16);
+  letter.letterhead.addressLines.forEach(line =>
+    drawCentered(line, 'regular', SMALL_SIZE)
+  );
+  if (letter.letterhead.contactLine) {
+    drawCentered(letter.letterhead.contactLine, 'regular', SMALL_SIZE);
+  }
+  y += 4;
+  page.line(MARGIN_X, y, PAGE_WIDTH - MARGIN_X, y, 1);
+  y += 20;
+
+  // Date, recipient and reference block
+  drawLine(letter.date, 'regular', BODY_SIZE);
+  y += PARAGRAPH_SPACING;
+  letter.recipientLines.forEach(line => drawLine(line, 'regular', BODY_SIZE));
+  y += PARAGRAPH_SPACING;
+
+  letter.reference.forEach(({ label, value }) => {
+    const lines = wrapText(
+      value,
+      'regular',
+      BODY_SIZE,
+      CONTENT_WIDTH - REFERENCE_LABEL_WIDTH
+    );
+    lines.forEach((line, index) => {
+      ensureSpace(leading(BODY_SIZE));
+      if (index === 0) {
+        page.text(MARGIN_X, y + BODY_SIZE, `${label}:`, 'bold', BODY_SIZE);
+      }
+      drawLine(line, 'regular', BODY_SIZE, MARGIN_X + REFERENCE_LABEL_WIDTH);
+    });
+  });
+  y += PARAGRAPH_SPACING;
+
+  // Body
+  drawParagraph(letter.salutation);
+  drawParagraph(letter.introduction);
+
+  if (letter.recordsReviewed.length > 0) {
+    drawHeading('Records Reviewed');
+    drawList(letter.recordsReviewed, false);
+  }
+
+  drawHeading('Medical Opinion');
+  drawParagraph(letter.opinion, 'bold');
+
+  if (letter.rationale.length > 0) {
+    drawHeading('Rationale');
+    letter.rationale.forEach(paragraph => drawParagraph(paragraph));
+  }
+
+  if (letter.citations.length > 0) {
+    drawHeading('Medical Literature Cited');
+    drawList(letter.citations, true);
+  }
+
+  // Closing and signature block, kept on one page so the signature never
+  // stands alone
+  const closingLines = wrapText(
+    letter.closing,
+    'regular',
+    BODY_SIZE,
+    CONTENT_WIDTH
+  );
+  ensureSpace(
+    leading(BODY_SIZE) *
+      (closingLines.length + letter.signature.lines.length + 2) +
+      PARAGRAPH_SPACING +
+      SIGNATURE_SPACE
+  );
+  drawParagraph(letter.closing);
+  drawLine(letter.signOff, 'regular', BODY_SIZE);
+  y += SIGNATURE_SPACE;
+  page.line(MARGIN_X, y, MARGIN_X + 220, y, 0.5);
+  y += 4;
+  drawLine(letter.signature.name, 'bold', BODY_SIZE);
+  letter.signature.lines.forEach(line => drawLine(line, 'regular', BODY_SIZE));
+
+  // Footers need the final page count
+  pages.forEach((footerPage, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    footerPage.line(
+      MARGIN_X,
+      FOOTER_BASELINE - 14,
+      PAGE_WIDTH - MARGIN_X,
+      FOOTER_BASELINE - 14,
+      0.5
+    );
+    footerPage.text(
+      MARGIN_X,
+      FOOTER_BASELINE,
+      letter.footer,
+      'regular',
+      SMALL_SIZE
+    );
+    footerPage.text(
+      PAGE_WIDTH - MARGIN_X - measureText(pageLabel, 'regular', SMALL_SIZE),
+      FOOTER_BASELINE,
+      pageLabel,
+      'regular',
+      SMALL_SIZE
+    );
+  });
+
+  return pdf.toBytes();
+}
@@ -0,0 +1,240 @@
+/**
+ * Nexus Letter Composition
+ * Turns a case, the physician's opinion and a layout into the content
+ * of a VA-ready nexus letter. Rendering (PDF or on-screen preview) works
+ * from the NexusLetter this module produces.
+ */
+
+import { Constants } from './database.types';
+import type { Claim, User } from './supabase';
+
+// =================================
+// OPINION LANGUAGE
+// =================================
+
+// Likelihood standards VA raters weigh; "at least as likely as not" is the
+// threshold for service connection under the benefit-of-the-doubt rule
+export const OPINION_LIKELIHOODS = [
+  'at_least_as_likely_as_not',
+  'more_likely_than_not',
+  'less_likely_than_not',
+] as const;
+export type OpinionLikelihood = (typeof OPINION_LIKELIHOODS)[number];
+
+export const OPINION_LIKELIHOOD_PHRASES: Record<OpinionLikelihood, string> = {
+  at_least_as_likely_as_not:
+    'at least as likely as not (50 percent or greater probability)',
+  more_likely_than_not:
+    'more likely than not (greater than 50 percent probability)',
+  less_likely_than_not:
+    'less likely than not (less than 50 percent probability)',
+};
+
+export const SERVICE_RELATIONSHIPS =
+  Constants.public.Enums.service_relationship;
+export type ServiceRelationship = (typeof SERVICE_RELATIONSHIPS)[number];
+
+export const SERVICE_RELATIONSHIP_PHRASES: Record<ServiceRelationship, string> =
+  {
+    direct: 'incurred in or caused by',
+    secondary: 'proximately due to or the result of',
+    aggravation: 'aggravated beyond its natural progression by',
+  };
+
+// =================================
+// INPUT TYPES
+// =================================
+
+export interface PhysicianCredentials {
+  fullName: string;
+  /** Post-nominal letters, e.g. "MD, FACP" */
+  credentials: string;
+  specialty: string;
+  licenseNumber: string;
+  licenseState: string;
+  npi?: string | undefined;
+  boardCertification?: string | undefined;
+}
+
+export interface LetterCitation {
+  authors?: string | undefined;
+  title: string;
+  source: string;
+  year?: number | undefined;
+  url?: string | undefined;
+}
+
+export interface PhysicianOpinion {
+  /** Condition being opined on; defaults to the claim's condition */
+  condition?: string | undefined;
+  likelihood: OpinionLikelihood;
+  relationship: ServiceRelationship;
+  /** What the condition is related to, e.g. "military noise exposure" */
+  serviceConnection: string;
+  recordsReviewed: string[];
+  rationale: string[];
+  citations: LetterCitation[];
+}
+
+export interface Letterhead {
+  organization: string;
+  addressLines: string[];
+  contactLine?: string | undefined;
+}
+
+/** Letterhead, addressing and sign-off placed around the opinion */
+export interface LetterLayout {
+  id: string;
+  name: string;
+  letterhead: Letterhead;
+  recipientLines: string[];
+  salutation: string;
+  /** Attestation closing the letter body */
+  closing: string;
+  signOff: string;
+}
+
+export interface NexusLetterInput {
+  claim: Pick<Claim, 'claim_number' | 'condition'>;
+  veteran: Pick<User, 'full_name' | 'email'>;
+  physician: PhysicianCredentials;
+  opinion: PhysicianOpinion;
+  layout?: LetterLayout;
+  date?: Date;
+}
+
+export const DEFAULT_LETTER_LAYOUT: LetterLayout = {
+  id: 'standard',
+  name: 'Standard Independent Medical Opinion',
+  letterhead: {
+    organization: 'The Best Nexus Letters',
+    addressLines: ['Independent Medical Opinions for Veterans'],
+    contactLine: 'thebestnexusletters.com',
+  },
+  recipientLines: [
+    'Department of Veterans Affairs',
+    'Evidence Intake Center',
+    'P.O. Box 4444',
+    'Janesville, WI 53547-4444',
+  ],
+  salutation: 'To Whom It May Concern:',
+  closing:
+    'I declare that the foregoing opinion is true and correct to the best of my knowledge and belief, and is based on my review of the records listed above and on my medical training and experience.',
+  signOff: 'Respectfully,',
+};
+
+// =================================
+// LETTER MODEL
+// =================================
+
+export interface NexusLetter {
+  title: string;
+  letterhead: Letterhead;
+  date: string;
+  recipientLines: string[];
+  reference: { label: string; value: string }[];
+  salutation: string;
+  introduction: string;
+  recordsReviewed: string[];
+  opinion: string;
+  rationale: string[];
+  citations: string[];
+  closing: string;
+  signOff: string;
+  signature: {
+    name: string;
+    lines: string[];
+  };
+  /** Identifies the veteran and case on every page */
+  footer: string;
+}
+
+export function formatLetterDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Format a citation in a compact AMA-like style
+ */
+export function formatCitation(citation: LetterCitation): string {
+  const parts = [
+    citation.authors,
+    citation.title,
+    citation.year ? `${citation.source}. ${citation.year}` : citation.source,
+    citation.url,
+  ].filter(Boolean);
+
+  return parts
+    .map(part => part!.trim())
+    .map(part => (/[.?!]$/.test(part) ? part : `${part}.`))
+    .join(' ');
+}
+
+/**
+ * Compose the letter's content
+ */
+export function buildNexusLetter(input: NexusLetterInput): NexusLetter {
+  const {
+    claim,
+    veteran,
+    physician,
+    opinion,
+    layout = DEFAULT_LETTER_LAYOUT,
+    date = new Date(),
+  } = input;
+
+  const veteranName = veteran.full_name || veteran.email;
+  const condition =
+    opinion.condition || claim.condition || 'the claimed condition';
+  const signatureName = `${physician.fullName}, ${physician.credentials}`;
+
+  const introduction =
+    `I am a physician licensed in ${physician.licenseState} ` +
+    `(license no. ${physician.licenseNumber}) specializing in ` +
+    `${physician.specialty}. I was asked to provide an independent medical ` +
+    `opinion on whether ${veteranName}'s ${condition} is related to ` +
+    `military service. I have no financial interest in the outcome of this claim.`;
+
+  const opinionStatement =
+    `It is my medical opinion that ${veteranName}'s ${condition} is ` +
+    `${OPINION_LIKELIHOOD_PHRASES[opinion.likelihood]} ` +
+    `${SERVICE_RELATIONSHIP_PHRASES[opinion.relationship]} ` +
+    `${opinion.serviceConnection}.`;
+
+  return {
+    title: `Nexus Letter - ${veteranName} - ${claim.claim_number}`,
+    letterhead: layout.letterhead,
+    date: formatLetterDate(date),
+    recipientLines: layout.recipientLines,
+    reference: [
+      { label: 'RE', value: `Independent Medical Opinion - ${veteranName}` },
+      { label: 'Case No.', value: claim.claim_number },
+      { label: 'Condition', value: condition },
+    ],
+    salutation: layout.salutation,
+    introduction,
+    recordsReviewed: opinion.recordsReviewed,
+    opinion: opinionStatement,
+    rationale: opinion.rationale,
+    citations: opinion.citations.map(formatCitation),
+    closing: layout.closing,
+    signOff: layout.signOff,
+    signature: {
+      name: signatureName,
+      lines: [
+        physician.boardCertification
+          ? `${physician.specialty} (${physician.boardCertification})`
+          : physician.specialty,
+        `License: ${physician.licenseState} ${physician.licenseNumber}`,
+        ...(physician.npi ? [`NPI: ${physician.npi}`] : []),
+        `Date: ${formatLetterDate(date)}`,
+      ],
+    },
+    footer: `${veteranName} - Case ${claim.claim_number}`,
+  };
+}
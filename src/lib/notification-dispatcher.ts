@@ -0,0 +1,84 @@
+/**
+ * Notification Dispatcher
+ * Delivers a notification on the channels each user has chosen (see
+ * getNotificationChannels in lib/notifications). In-app notifications are
+ * written with the service role and email goes through the outbox.
+ */
+
+import { notificationHelpers } from './database-helpers';
+import { sendEmail } from './email';
+import type { EmailTemplateData } from './email-templates';
+import {
+  getNotificationChannels,
+  getNotificationSettings,
+  type NotificationChannel,
+} from './notifications';
+import type {
+  EmailLogEntry,
+  EmailTemplate,
+  Notification,
+  NotificationCategory,
+} from './supabase';
+
+export interface NotificationInput<T extends EmailTemplate = EmailTemplate> {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  /** App path opened from the notification, e.g. /dashboard */
+  link?: string;
+  claimId?: string;
+  /** Sent as well when the user allows email */
+  email?: { template: T; data: EmailTemplateData[T] };
+}
+
+export interface NotificationDelivery {
+  channels: NotificationChannel[];
+  notification: Notification | null;
+  email: EmailLogEntry | null;
+}
+
+/**
+ * Notify a user on every channel their settings allow. Returns nothing
+ * delivered when the category is switched off or the user is gone.
+ */
+export async function notifyUser<T extends EmailTemplate>(
+  userId: string,
+  input: NotificationInput<T>
+): Promise<NotificationDelivery> {
+  const recipient = await notificationHelpers.getRecipient(userId);
+
+  if (!recipient) {
+    return { channels: [], notification: null, email: null };
+  }
+
+  const channels = getNotificationChannels(
+    input.category,
+    getNotificationSettings(recipient.preferences)
+  );
+
+  const notification = channels.includes('in_app')
+    ? await notificationHelpers.create({
+        user_id: userId,
+        category: input.category,
+        title: input.title,
+        body: input.body,
+        link: input.link ?? null,
+        claim_id: input.claimId ?? null,
+      })
+    : null;
+
+  const email =
+    channels.includes('email') && input.email
+      ? await sendEmail(
+          input.email.template,
+          recipient.email,
+          input.email.data,
+          {
+            userId,
+            ...(input.claimId && { claimId: input.claimId }),
+          }
+        )
+      : null;
+
+  return { channels, notification, email };
+}
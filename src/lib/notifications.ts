@@ -0,0 +1,119 @@
+/**
+ * Notifications
+ * Notification categories and the channel rules applied to each user's
+ * notification settings (stored in `users.preferences.notifications`). The
+ * `notify_claim_status_change` trigger applies the same rules in SQL; keep
+ * the two in sync.
+ */
+
+import { Constants, type Json } from './database.types';
+import {
+  notificationSettingsSchema,
+  type NotificationSettingsData,
+} from './validations';
+import type { ClaimStatus, NotificationCategory } from './supabase';
+
+export const NOTIFICATION_CATEGORIES =
+  Constants.public.Enums.notification_category;
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<
+  NotificationCategory,
+  string
+> = {
+  claim_update: 'Case Updates',
+  system_announcement: 'Announcements',
+  marketing: 'News & Offers',
+  weekly_digest: 'Weekly Digest',
+};
+
+/**
+ * The setting that switches each category on or off
+ */
+export const NOTIFICATION_CATEGORY_SETTINGS: Record<
+  NotificationCategory,
+  keyof NotificationSettingsData
+> = {
+  claim_update: 'claimUpdates',
+  system_announcement: 'systemAnnouncements',
+  marketing: 'marketingEmails',
+  weekly_digest: 'weeklyDigest',
+};
+
+export type NotificationChannel = 'in_app' | 'email';
+
+/**
+ * Statuses veterans hear about on their own claims. Internal steps
+ * (drafting, quality review, closing) are left out, as they are by
+ * `notify_claim_status_change`.
+ */
+export const VETERAN_VISIBLE_CLAIM_STATUSES = [
+  'records_requested',
+  'records_received',
+  'physician_review',
+  'delivered',
+  'on_hold',
+  'cancelled',
+] as const satisfies readonly ClaimStatus[];
+
+export function isVeteranVisibleStatus(status: ClaimStatus): boolean {
+  return (VETERAN_VISIBLE_CLAIM_STATUSES as readonly ClaimStatus[]).includes(
+    status
+  );
+}
+
+// =================================
+// SETTINGS
+// =================================
+
+const isRecord = (
+  value: Json | null | undefined
+): value is Record<string, Json> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A user's notification settings, with schema defaults for anything not
+ * yet saved
+ */
+export function getNotificationSettings(
+  preferences: Json | null | undefined
+): NotificationSettingsData {
+  const stored = isRecord(preferences) ? preferences.notifications : undefined;
+  const parsed = notificationSettingsSchema.safeParse(
+    isRecord(stored) ? stored : {}
+  );
+
+  return parsed.success ? parsed.data : notificationSettingsSchema.parse({});
+}
+
+/**
+ * `users.preferences` with the notification settings replaced; other
+ * preferences are kept
+ */
+export function withNotificationSettings(
+  preferences: Json | null | undefined,
+  settings: NotificationSettingsData
+): Json {
+  return {
+    ...(isRecord(preferences) ? preferences : {}),
+    notifications: settings,
+  };
+}
+
+// =================================
+// CHANNELS
+// =================================
+
+/**
+ * Channels a notification reaches: none when its category is switched
+ * off, otherwise the notification center plus email when the user allows
+ * email. Push and SMS settings are stored but those channels are not
+ * delivered yet.
+ */
+export function getNotificationChannels(
+  category: NotificationCategory,
+  settings: NotificationSettingsData
+): NotificationChannel[] {
+  if (!settings[NOTIFICATION_CATEGORY_SETTINGS[category]]) return [];
+
+  return settings.emailNotifications ? ['in_app', 'email'] : ['in_app'];
+}
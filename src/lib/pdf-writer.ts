@@ -0,0 +1,248 @@
+/**
+ * PDF Writer
+ * Minimal, dependency-free PDF 1.4 generator for server-rendered
+ * documents. Uses the standard Times fonts every PDF reader ships with,
+ * so nothing is embedded or fetched and output is byte-for-byte
+ * deterministic for the same input.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+// US Letter, in points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Times-Roman',
+  bold: 'Times-Bold',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+};
+
+// =================================
+// FONT METRICS
+// =================================
+
+// Glyph widths (1/1000 em) for WinAnsi codes 32-126, from the Adobe
+// Core 14 AFM files
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250,
+    278, 500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564,
+    564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611,
+    889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333,
+    278, 333, 469, 500, 333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278,
+    500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500,
+    444, 480, 200, 480, 541,
+  ],
+  bold: [
+    250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250,
+    278, 500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570,
+    570, 500, 930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667,
+    944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333,
+    278, 333, 581, 500, 333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333,
+    556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722, 500, 500,
+    444, 394, 220, 394, 520,
+  ],
+};
+
+// Width used for Latin-1 characters outside the table (accented letters,
+// section sign, etc.); close enough for line breaking
+const DEFAULT_WIDTH = 500;
+
+/**
+ * Replace typographic punctuation the standard fonts can't be relied on
+ * for, and anything outside Latin-1, with plain equivalents
+ */
+export function toWinAnsi(text: string): string {
+  return text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\u2013/g, '-')
+    .replace(/\u2014/g, '--')
+    .replace(/\u2022/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/\u00A0/g, ' ')
+    .replace(/[^\n\x20-\x7E\xA1-\xFF]/g, '?');
+}
+
+/**
+ * Width of a string in points
+ */
+export function measureText(text: string, font: PdfFont, size: number) {
+  let units = 0;
+
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    units +=
+      code >= 32 && code <= 126
+        ? ASCII_WIDTHS[font][code - 32]!
+        : DEFAULT_WIDTH;
+  }
+
+  return (units / 1000) * size;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`. Words longer than a
+ * line are left to overflow rather than split.
+ */
+export function wrapText(
+  text: string,
+  font: PdfFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (line && measureText(candidate, font, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// =================================
+// DOCUMENT
+// =================================
+
+export interface PdfPage {
+  /** Draw text with its baseline at (x, y); y is measured from the top */
+  text(x: number, y: number, text: string, font: PdfFont, size: number): void;
+  /** Draw a straight line; y is measured from the top */
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+  /** Recorded as the creation date; defaults to none for reproducibility */
+  createdAt?: Date;
+}
+
+const escapeString = (text: string) =>
+  toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const formatDate = (date: Date) =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/**
+ * Create an empty document. Add pages, draw on them, then call toBytes().
+ */
+export function createPdfDocument(info: PdfDocumentInfo = {}) {
+  const pages: string[][] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    pages.push(ops);
+
+    return {
+      text(x, y, text, font, size) {
+        ops.push(
+          `BT /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} Td (${escapeString(text)}) Tj ET`
+        );
+      },
+      line(x1, y1, x2, y2, width = 0.75) {
+        ops.push(
+          `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+        );
+      },
+    };
+  };
+
+  const toBytes = (): Uint8Array => {
+    const fonts = Object.keys(FONT_NAMES) as PdfFont[];
+    // Object numbers: 1 catalog, 2 page tree, 3 info, then fonts, then a
+    // page and content stream per page
+    const fontId = (index: number) => 4 + index;
+    const pageId = (index: number) => 4 + fonts.length + index * 2;
+    const objects: string[] = [];
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`
+    );
+
+    const infoEntries = [
+      info.title && `/Title (${escapeString(info.title)})`,
+      info.author && `/Author (${escapeString(info.author)})`,
+      info.subject && `/Subject (${escapeString(info.subject)})`,
+      info.creator && `/Creator (${escapeString(info.creator)})`,
+      '/Producer (The Best Nexus Letters)',
+      info.createdAt && `/CreationDate (${formatDate(info.createdAt)})`,
+    ].filter(Boolean);
+    objects.push(`<< ${infoEntries.join(' ')} >>`);
+
+    fonts.forEach(font => {
+      objects.push(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+      );
+    });
+
+    const fontResources = fonts
+      .map((font, i) => `/${FONT_RESOURCES[font]} ${fontId(i)} 0 R`)
+      .join(' ');
+
+    pages.forEach((ops, i) => {
+      const content = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageId(i) + 1} 0 R >>`
+      );
+      objects.push(
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Every character is a single Latin-1 byte, so string offsets are
+    // byte offsets
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+
+    objects.forEach((object, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes;
+  };
+
+  return {
+    addPage,
+    get pageCount() {
+      return pages.length;
+    },
+    toBytes,
+  };
+}
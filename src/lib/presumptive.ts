@@ -0,0 +1,809 @@
+/**
+ * Presumptive Eligibility
+ * Toxic exposure programs (PACT Act burn pits, Gulf War, Agent Orange,
+ * Camp Lejeune and ionizing radiation), the places and dates that qualify
+ * a veteran for each, and the conditions VA presumes were caused by the
+ * exposure. A presumptive condition needs no nexus opinion, so this
+ * decides which letter, if any, a case needs. Update the tables when VA
+ * adds presumptives.
+ */
+
+import { findCondition } from './conditions';
+import { Constants } from './database.types';
+import type { Condition, PresumptiveFlag } from './supabase';
+
+// =================================
+// PROGRAMS
+// =================================
+
+export const EXPOSURE_PROGRAMS = [
+  'burn_pits',
+  'gulf_war',
+  'agent_orange',
+  'camp_lejeune',
+  'radiation',
+] as const;
+export type ExposureProgram = (typeof EXPOSURE_PROGRAMS)[number];
+
+export interface ExposureProgramInfo {
+  label: string;
+  /** Regulation that sets out the presumption */
+  regulation: string;
+  /** Fewest days in a qualifying location, where the rule sets one */
+  minDays?: number;
+}
+
+export const EXPOSURE_PROGRAM_INFO: Record<
+  ExposureProgram,
+  ExposureProgramInfo
+> = {
+  burn_pits: {
+    label: 'Burn pits and other toxins (PACT Act)',
+    regulation: '38 CFR 3.320',
+  },
+  gulf_war: {
+    label: 'Gulf War illness',
+    regulation: '38 CFR 3.317',
+  },
+  agent_orange: {
+    label: 'Agent Orange',
+    regulation: '38 CFR 3.307(a)(6), 3.309(e)',
+  },
+  camp_lejeune: {
+    label: 'Camp Lejeune contaminated water',
+    regulation: '38 CFR 3.307(a)(7), 3.309(f)',
+    minDays: 30,
+  },
+  radiation: {
+    label: 'Ionizing radiation',
+    regulation: '38 CFR 3.309(d)',
+  },
+};
+
+// =================================
+// QUALIFYING LOCATIONS
+// =================================
+
+export const SERVICE_LOCATIONS = [
+  'afghanistan',
+  'bahrain',
+  'djibouti',
+  'egypt',
+  'iraq',
+  'israel',
+  'jordan',
+  'kuwait',
+  'lebanon',
+  'oman',
+  'qatar',
+  'saudi_arabia',
+  'somalia',
+  'syria',
+  'turkey',
+  'uae',
+  'uzbekistan',
+  'yemen',
+  'southwest_asia_waters',
+  'vietnam',
+  'thailand',
+  'laos',
+  'cambodia',
+  'guam',
+  'american_samoa',
+  'johnston_atoll',
+  'korean_dmz',
+  'camp_lejeune',
+  'hiroshima_nagasaki',
+  'nuclear_testing',
+  'enewetak',
+  'palomares',
+  'thule',
+] as const;
+export type ServiceLocation = (typeof SERVICE_LOCATIONS)[number];
+
+export const SERVICE_LOCATION_LABELS: Record<ServiceLocation, string> = {
+  afghanistan: 'Afghanistan',
+  bahrain: 'Bahrain',
+  djibouti: 'Djibouti',
+  egypt: 'Egypt',
+  iraq: 'Iraq',
+  israel: 'Israel',
+  jordan: 'Jordan',
+  kuwait: 'Kuwait',
+  lebanon: 'Lebanon',
+  oman: 'Oman',
+  qatar: 'Qatar',
+  saudi_arabia: 'Saudi Arabia',
+  somalia: 'Somalia',
+  syria: 'Syria',
+  turkey: 'Turkey',
+  uae: 'United Arab Emirates',
+  uzbekistan: 'Uzbekistan',
+  yemen: 'Yemen',
+  southwest_asia_waters:
+    'Persian Gulf, Red Sea, Arabian Sea, Gulf of Aden or Gulf of Oman',
+  vietnam: 'Vietnam, including inland and offshore waters',
+  thailand: 'Thailand (U.S. or Royal Thai base)',
+  laos: 'Laos',
+  cambodia: 'Cambodia (Mimot or Krek, Kampong Cham)',
+  guam: 'Guam',
+  american_samoa: 'American Samoa',
+  johnston_atoll: 'Johnston Atoll, or a ship that called there',
+  korean_dmz: 'Korean DMZ',
+  camp_lejeune: 'Camp Lejeune or MCAS New River',
+  hiroshima_nagasaki: 'Hiroshima or Nagasaki occupation',
+  nuclear_testing: 'Atmospheric nuclear test participation',
+  enewetak: 'Enewetak Atoll cleanup',
+  palomares: 'Palomares, Spain cleanup',
+  thule: 'Thule Air Base, Greenland cleanup',
+};
+
+export interface QualifyingPeriod {
+  program: ExposureProgram;
+  locations: readonly ServiceLocation[];
+  /** First qualifying day (YYYY-MM-DD) */
+  from: string;
+  /** Last qualifying day, or null while the presumption is open-ended */
+  to: string | null;
+}
+
+/**
+ * Where and when service qualifies for each program
+ */
+export const QUALIFYING_PERIODS: readonly QualifyingPeriod[] = [
+  {
+    program: 'burn_pits',
+    locations: [
+      'bahrain',
+      'iraq',
+      'kuwait',
+      'oman',
+      'qatar',
+      'saudi_arabia',
+      'somalia',
+      'uae',
+    ],
+    from: '1990-08-02',
+    to: null,
+  },
+  {
+    program: 'burn_pits',
+    locations: [
+      'afghanistan',
+      'djibouti',
+      'egypt',
+      'jordan',
+      'lebanon',
+      'syria',
+      'uzbekistan',
+      'yemen',
+    ],
+    from: '2001-09-11',
+    to: null,
+  },
+  {
+    program: 'gulf_war',
+    locations: [
+      'bahrain',
+      'iraq',
+      'kuwait',
+      'oman',
+      'qatar',
+      'saudi_arabia',
+      'uae',
+      'southwest_asia_waters',
+    ],
+    from: '1990-08-02',
+    to: null,
+  },
+  {
+    program: 'gulf_war',
+    locations: ['afghanistan', 'egypt', 'israel', 'jordan', 'syria', 'turkey'],
+    from: '2001-09-19',
+    to: null,
+  },
+  {
+    program: 'agent_orange',
+    locations: ['vietnam'],
+    from: '1962-01-09',
+    to: '1975-05-07',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['thailand'],
+    from: '1962-01-09',
+    to: '1976-06-30',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['laos'],
+    from: '1965-12-01',
+    to: '1969-09-30',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['cambodia'],
+    from: '1969-04-16',
+    to: '1969-04-30',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['guam', 'american_samoa'],
+    from: '1962-01-09',
+    to: '1980-07-31',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['johnston_atoll'],
+    from: '1972-01-01',
+    to: '1977-09-30',
+  },
+  {
+    program: 'agent_orange',
+    locations: ['korean_dmz'],
+    from: '1967-09-01',
+    to: '1971-08-31',
+  },
+  {
+    program: 'camp_lejeune',
+    locations: ['camp_lejeune'],
+    from: '1953-08-01',
+    to: '1987-12-31',
+  },
+  {
+    program: 'radiation',
+    locations: ['hiroshima_nagasaki'],
+    from: '1945-08-06',
+    to: '1946-07-01',
+  },
+  {
+    program: 'radiation',
+    locations: ['nuclear_testing'],
+    from: '1945-07-16',
+    to: '1962-12-31',
+  },
+  {
+    program: 'radiation',
+    locations: ['enewetak'],
+    from: '1977-01-01',
+    to: '1980-12-31',
+  },
+  {
+    program: 'radiation',
+    locations: ['palomares'],
+    from: '1966-01-17',
+    to: '1967-03-31',
+  },
+  {
+    program: 'radiation',
+    locations: ['thule'],
+    from: '1968-01-21',
+    to: '1968-09-25',
+  },
+];
+
+// =================================
+// PRESUMPTIVE CONDITIONS
+// =================================
+
+export interface PresumptiveCondition {
+  name: string;
+  /**
+   * Terms that identify the condition in what the veteran wrote. A term
+   * matches at the start of a word.
+   */
+  terms: readonly string[];
+  /** Terms that rule the presumption out, e.g. an excluded subtype */
+  excludes?: readonly string[];
+  /** Limits on the presumption a reviewer should check */
+  note?: string;
+}
+
+const ONSET_WITHIN_A_YEAR =
+  'Must have appeared to at least 10% within a year of last exposure';
+
+export const PRESUMPTIVE_CONDITIONS: Record<
+  ExposureProgram,
+  readonly PresumptiveCondition[]
+> = {
+  burn_pits: [
+    { name: 'Brain cancer', terms: ['brain cancer', 'glioblastoma'] },
+    {
+      name: 'Gastrointestinal cancer of any type',
+      terms: [
+        'gastrointestinal cancer',
+        'colon cancer',
+        'colorectal cancer',
+        'rectal cancer',
+        'esophageal cancer',
+        'stomach cancer',
+      ],
+    },
+    { name: 'Head or neck cancer', terms: ['head cancer', 'neck cancer'] },
+    { name: 'Kidney cancer', terms: ['kidney cancer', 'renal cancer'] },
+    {
+      name: 'Lymphoma or lymphatic cancer of any type',
+      terms: ['lymphoma', 'lymphatic cancer'],
+    },
+    { name: 'Melanoma', terms: ['melanoma'] },
+    { name: 'Pancreatic cancer', terms: ['pancreatic cancer'] },
+    {
+      name: 'Reproductive cancer of any type',
+      terms: [
+        'reproductive cancer',
+        'prostate cancer',
+        'testicular cancer',
+        'ovarian cancer',
+        'cervical cancer',
+        'uterine cancer',
+      ],
+    },
+    {
+      name: 'Respiratory cancer of any type',
+      terms: [
+        'respiratory cancer',
+        'lung cancer',
+        'laryngeal cancer',
+        'tracheal cancer',
+      ],
+    },
+    {
+      name: 'Asthma',
+      terms: ['asthma'],
+      note: 'Must have been diagnosed after service in a covered location',
+    },
+    {
+      name: 'Chronic bronchitis',
+      terms: ['chronic bronchitis'],
+    },
+    {
+      name: 'Chronic obstructive pulmonary disease (COPD)',
+      terms: ['copd', 'chronic obstructive pulmonary'],
+    },
+    { name: 'Chronic rhinitis', terms: ['rhinitis'] },
+    { name: 'Chronic sinusitis', terms: ['sinusitis'] },
+    {
+      name: 'Constrictive or obliterative bronchiolitis',
+      terms: ['bronchiolitis'],
+    },
+    { name: 'Emphysema', terms: ['emphysema'] },
+    { name: 'Granulomatous disease', terms: ['granulomatous'] },
+    { name: 'Interstitial lung disease', terms: ['interstitial lung'] },
+    { name: 'Pleuritis', terms: ['pleuritis', 'pleurisy'] },
+    { name: 'Pulmonary fibrosis', terms: ['pulmonary fibrosis'] },
+    { name: 'Sarcoidosis', terms: ['sarcoidosis'] },
+  ],
+  gulf_war: [
+    {
+      name: 'Chronic fatigue syndrome',
+      terms: ['chronic fatigue'],
+      note: 'Must have lasted 6 months or more',
+    },
+    {
+      name: 'Fibromyalgia',
+      terms: ['fibromyalgia'],
+      note: 'Must have lasted 6 months or more',
+    },
+    {
+      name: 'Functional gastrointestinal disorders',
+      terms: [
+        'irritable bowel',
+        'ibs',
+        'functional dyspepsia',
+        'functional gastrointestinal',
+      ],
+      note: 'Must have lasted 6 months or more',
+    },
+    {
+      name: 'Undiagnosed illness',
+      terms: ['undiagnosed illness', 'chronic multisymptom'],
+      note: 'Symptoms no diagnosis explains, lasting 6 months or more',
+    },
+    {
+      name: 'Infectious diseases',
+      terms: [
+        'brucellosis',
+        'campylobacter',
+        'q fever',
+        'malaria',
+        'tuberculosis',
+        'salmonella',
+        'shigella',
+        'leishmaniasis',
+        'west nile',
+      ],
+      note: 'Each disease must have appeared within a set time after service',
+    },
+  ],
+  agent_orange: [
+    { name: 'AL amyloidosis', terms: ['amyloidosis'] },
+    { name: 'Bladder cancer', terms: ['bladder cancer'] },
+    {
+      name: 'Chronic B-cell leukemias',
+      terms: ['b-cell leukemia', 'chronic lymphocytic', 'hairy cell'],
+    },
+    { name: 'Chloracne', terms: ['chloracne'], note: ONSET_WITHIN_A_YEAR },
+    { name: 'Diabetes mellitus type 2', terms: ['diabetes'] },
+    { name: 'Hypertension', terms: ['hypertension', 'high blood pressure'] },
+    { name: "Hodgkin's disease", terms: ['hodgkin'] },
+    { name: 'Hypothyroidism', terms: ['hypothyroidism'] },
+    {
+      name: 'Ischemic heart disease',
+      terms: ['ischemic heart', 'coronary artery'],
+    },
+    {
+      name: 'Monoclonal gammopathy of undetermined significance (MGUS)',
+      terms: ['mgus', 'monoclonal gammopathy'],
+    },
+    { name: 'Multiple myeloma', terms: ['multiple myeloma'] },
+    { name: "Non-Hodgkin's lymphoma", terms: ['nonhodgkin'] },
+    { name: "Parkinson's disease and parkinsonism", terms: ['parkinson'] },
+    {
+      name: 'Early-onset peripheral neuropathy',
+      terms: ['peripheral neuropathy'],
+      note: ONSET_WITHIN_A_YEAR,
+    },
+    {
+      name: 'Porphyria cutanea tarda',
+      terms: ['porphyria'],
+      note: ONSET_WITHIN_A_YEAR,
+    },
+    { name: 'Prostate cancer', terms: ['prostate cancer'] },
+    {
+      name: 'Respiratory cancers',
+      terms: [
+        'lung cancer',
+        'laryngeal cancer',
+        'larynx cancer',
+        'tracheal cancer',
+        'bronchus cancer',
+      ],
+    },
+    { name: 'Soft tissue sarcomas', terms: ['soft tissue sarcoma'] },
+  ],
+  camp_lejeune: [
+    {
+      name: 'Adult leukemia',
+      terms: ['leukemia'],
+    },
+    {
+      name: 'Aplastic anemia and other myelodysplastic syndromes',
+      terms: ['aplastic anemia', 'myelodysplastic'],
+    },
+    { name: 'Bladder cancer', terms: ['bladder cancer'] },
+    { name: 'Kidney cancer', terms: ['kidney cancer', 'renal cancer'] },
+    { name: 'Liver cancer', terms: ['liver cancer'] },
+    { name: 'Multiple myeloma', terms: ['multiple myeloma'] },
+    { name: "Non-Hodgkin's lymphoma", terms: ['nonhodgkin'] },
+    { name: "Parkinson's disease", terms: ['parkinson'] },
+  ],
+  radiation: [
+    {
+      name: 'Leukemia other than chronic lymphocytic leukemia',
+      terms: ['leukemia'],
+      excludes: ['chronic lymphocytic', 'cll'],
+    },
+    {
+      name: 'Lymphomas other than Hodgkin disease',
+      terms: ['lymphoma', 'nonhodgkin'],
+      excludes: ['hodgkin'],
+    },
+    { name: 'Multiple myeloma', terms: ['multiple myeloma'] },
+    {
+      name: 'Cancers of specified organs',
+      terms: [
+        'thyroid cancer',
+        'breast cancer',
+        'pharyngeal cancer',
+        'pharynx cancer',
+        'esophageal cancer',
+        'stomach cancer',
+        'small intestine cancer',
+        'pancreatic cancer',
+        'bile duct cancer',
+        'gallbladder cancer',
+        'salivary gland cancer',
+        'urinary tract cancer',
+        'bladder cancer',
+        'kidney cancer',
+        'brain cancer',
+        'bone cancer',
+        'lung cancer',
+        'colon cancer',
+        'ovarian cancer',
+        'liver cancer',
+        'bronchioloalveolar',
+      ],
+    },
+  ],
+};
+
+/**
+ * Lower-case, without apostrophes, and with "non-" prefixes joined up so
+ * that "Non-Hodgkin's lymphoma" doesn't read as Hodgkin's
+ */
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/\bnon[\s-]+/g, 'non')
+    .trim();
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, term: string) =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(normalize(term))}`).test(text);
+
+/**
+ * The program's presumptive condition that a claimed condition names, if
+ * any
+ */
+export function findPresumptiveCondition(
+  program: ExposureProgram,
+  condition: string
+): PresumptiveCondition | undefined {
+  const text = normalize(condition);
+
+  return PRESUMPTIVE_CONDITIONS[program].find(
+    presumptive =>
+      presumptive.terms.some(term => mentions(text, term)) &&
+      !presumptive.excludes?.some(term => mentions(text, term))
+  );
+}
+
+// =================================
+// ELIGIBILITY
+// =================================
+
+export interface Deployment {
+  location: ServiceLocation;
+  /** YYYY-MM-DD */
+  start: string;
+  /** YYYY-MM-DD, blank while still there */
+  end?: string | undefined;
+}
+
+/**
+ * A deployment or duty station as the veteran recorded it. The location is
+ * free text (e.g. Germany, or Korea outside the DMZ); `exposure` is the
+ * qualifying location it falls in, blank for most places.
+ */
+export interface ServiceDeployment {
+  location: string;
+  exposure?: ServiceLocation | '' | undefined;
+  /** YYYY-MM-DD */
+  start: string;
+  /** YYYY-MM-DD, blank while still there */
+  end?: string | undefined;
+}
+
+/**
+ * The recorded deployments that fall in a qualifying location
+ */
+export function toExposureDeployments(
+  deployments: readonly ServiceDeployment[]
+): Deployment[] {
+  return deployments.flatMap(({ exposure, start, end }) =>
+    exposure ? [{ location: exposure, start, end }] : []
+  );
+}
+
+export interface QualifyingExposure {
+  program: ExposureProgram;
+  /** Days served in the program's qualifying places and dates */
+  days: number;
+  locations: ServiceLocation[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string) => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+/**
+ * Days covered by a set of inclusive day ranges, counting overlaps once
+ */
+const countDays = (ranges: [start: number, end: number][]) => {
+  let days = 0;
+  let coveredTo = -Infinity;
+
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const from = Math.max(start, coveredTo + 1);
+    if (end >= from) days += end - from + 1;
+    coveredTo = Math.max(coveredTo, end);
+  }
+
+  return days;
+};
+
+/**
+ * Programs a veteran's deployments qualify them for. Overlapping
+ * deployments (e.g. the same tour entered twice) are only counted once.
+ */
+export function getQualifyingExposures(
+  deployments: readonly Deployment[],
+  today: Date = new Date()
+): QualifyingExposure[] {
+  const lastDay = toDay(today.toISOString().slice(0, 10));
+
+  return EXPOSURE_PROGRAMS.flatMap(program => {
+    const ranges: [number, number][] = [];
+    const locations = new Set<ServiceLocation>();
+
+    for (const period of QUALIFYING_PERIODS) {
+      if (period.program !== program) continue;
+
+      for (const deployment of deployments) {
+        if (!period.locations.includes(deployment.location)) continue;
+
+        const start = Math.max(toDay(deployment.start), toDay(period.from));
+        const end = Math.min(
+          deployment.end ? toDay(deployment.end) : lastDay,
+          period.to ? toDay(period.to) : lastDay
+        );
+        if (!(end >= start)) continue;
+
+        ranges.push([start, end]);
+        locations.add(deployment.location);
+      }
+    }
+
+    const days = countDays(ranges);
+    const minDays = EXPOSURE_PROGRAM_INFO[program].minDays ?? 1;
+    return days >= minDays
+      ? [{ program, days, locations: [...locations] }]
+      : [];
+  });
+}
+
+export type ConditionAssessment =
+  | {
+      condition: string;
+      basis: 'presumptive';
+      program: ExposureProgram;
+      presumptive: PresumptiveCondition;
+    }
+  | {
+      condition: string;
+      basis: 'secondary';
+      /** Presumptive condition on the case that it is often secondary to */
+      secondaryTo: string;
+    }
+  | { condition: string; basis: 'direct' };
+
+export interface PresumptiveAssessment {
+  exposures: QualifyingExposure[];
+  conditions: ConditionAssessment[];
+  flag: PresumptiveFlag | null;
+}
+
+/**
+ * Which claimed conditions are presumptive given where the veteran served,
+ * which are better argued as secondary to a presumptive one (using the
+ * catalog's secondary relationships), and which need a direct nexus
+ * opinion. The case is flagged when no direct nexus letter is needed.
+ */
+export function assessPresumptiveEligibility(
+  deployments: readonly Deployment[],
+  conditions: readonly string[],
+  catalog: readonly Pick<Condition, 'name' | 'secondary_conditions'>[] = [],
+  today: Date = new Date()
+): PresumptiveAssessment {
+  const exposures = getQualifyingExposures(deployments, today);
+
+  const presumptive = conditions.flatMap(condition =>
+    exposures
+      .flatMap(({ program }) => {
+        const match = findPresumptiveCondition(program, condition);
+        return match ? [{ condition, program, presumptive: match }] : [];
+      })
+      .slice(0, 1)
+  );
+
+  const assessments = conditions.map((condition): ConditionAssessment => {
+    const match = presumptive.find(entry => entry.condition === condition);
+    if (match) return { ...match, basis: 'presumptive' };
+
+    const primary = presumptive.find(({ condition: primaryName }) =>
+      findCondition(catalog, primaryName)?.secondary_conditions.some(
+        name => normalize(name) === normalize(condition)
+      )
+    );
+    return primary
+      ? { condition, basis: 'secondary', secondaryTo: primary.condition }
+      : { condition, basis: 'direct' };
+  });
+
+  return {
+    exposures,
+    conditions: assessments,
+    flag: getPresumptiveFlag(assessments),
+  };
+}
+
+function getPresumptiveFlag(
+  assessments: readonly ConditionAssessment[]
+): PresumptiveFlag | null {
+  if (assessments.length === 0) return null;
+  if (assessments.every(({ basis }) => basis === 'presumptive')) {
+    return 'nexus_unnecessary';
+  }
+  if (assessments.some(({ basis }) => basis === 'secondary')) {
+    return 'secondary_letter';
+  }
+  return null;
+}
+
+export const PRESUMPTIVE_FLAGS = Constants.public.Enums.presumptive_flag;
+
+export const PRESUMPTIVE_FLAG_LABELS: Record<PresumptiveFlag, string> = {
+  nexus_unnecessary: 'Presumptive: nexus letter may be unnecessary',
+  secondary_letter: 'Secondary service connection letter recommended',
+};
+
+// =================================
+// URL STATE
+// =================================
+
+export const MAX_DEPLOYMENTS = 20;
+export const MAX_CHECKED_CONDITIONS = 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isServiceLocation = (value: string): value is ServiceLocation =>
+  (SERVICE_LOCATIONS as readonly string[]).includes(value);
+
+export interface PresumptiveCheckInput {
+  deployments: Deployment[];
+  conditions: string[];
+}
+
+/**
+ * Read checker inputs from the query string, e.g.
+ * `deployment=iraq:2004-03-01:2005-02-28&condition=Asthma`. Entries that
+ * don't parse are skipped.
+ */
+export function parsePresumptiveParams(
+  params: URLSearchParams
+): PresumptiveCheckInput {
+  const deployments = params
+    .getAll('deployment')
+    .flatMap((value): Deployment[] => {
+      const [location = '', start = '', end] = value.split(':');
+      if (!isServiceLocation(location) || !DATE_PATTERN.test(start)) return [];
+      return [
+        end && DATE_PATTERN.test(end)
+          ? { location, start, end }
+          : { location, start },
+      ];
+    })
+    .slice(0, MAX_DEPLOYMENTS);
+
+  const conditions = params
+    .getAll('condition')
+    .map(condition => condition.trim().slice(0, 200))
+    .filter(Boolean)
+    .slice(0, MAX_CHECKED_CONDITIONS);
+
+  return { deployments, conditions };
+}
+
+export function serializePresumptiveParams(
+  input: PresumptiveCheckInput
+): string {
+  const params = new URLSearchParams();
+
+  for (const deployment of input.deployments) {
+    params.append(
+      'deployment',
+      [deployment.location, deployment.start, deployment.end]
+        .filter(Boolean)
+        .join(':')
+    );
+  }
+  for (const condition of input.conditions) {
+    if (condition.trim()) params.append('condition', condition.trim());
+  }
+
+  return params.toString();
+}
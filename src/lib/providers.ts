@@ -0,0 +1,185 @@
+/**
+ * Medical Providers
+ * Credential rules for the licensed physicians who write letters: license
+ * expiry warnings, whether a provider can take cases, and the credentials
+ * printed on their letters
+ */
+
+import { Constants } from './database.types';
+import type { PhysicianCredentials } from './nexus-letter';
+import type {
+  ProviderLicense,
+  ProviderProfile,
+  ProviderVerificationStatus,
+  User,
+  UserRole,
+} from './supabase';
+
+// =================================
+// ROLE AND VERIFICATION
+// =================================
+
+export function isProvider(role: UserRole | null | undefined): boolean {
+  return role === 'provider';
+}
+
+export const PROVIDER_VERIFICATION_STATUSES =
+  Constants.public.Enums.provider_verification_status;
+
+export const PROVIDER_VERIFICATION_STATUS_LABELS: Record<
+  ProviderVerificationStatus,
+  string
+> = {
+  pending: 'Pending Verification',
+  verified: 'Verified',
+  rejected: 'Rejected',
+  suspended: 'Suspended',
+};
+
+/**
+ * Verification decisions that must be explained to the provider
+ */
+export const PROVIDER_STATUSES_REQUIRING_NOTES: readonly ProviderVerificationStatus[] =
+  ['rejected', 'suspended'];
+
+// =================================
+// LICENSE EXPIRY
+// =================================
+
+/** How far ahead providers and admins are warned about expiring licenses */
+export const LICENSE_EXPIRY_WARNING_DAYS = 60;
+
+export type LicenseExpiryStatus = 'current' | 'expiring' | 'expired';
+
+type LicenseDetails = Pick<
+  ProviderLicense,
+  'state' | 'license_number' | 'expires_on'
+>;
+
+export interface LicenseExpiry<T extends LicenseDetails = ProviderLicense> {
+  license: T;
+  status: LicenseExpiryStatus;
+  /** Negative once expired */
+  daysRemaining: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from today until a DATE column value. A license is valid
+ * through its expiry date, matching `expires_on >= CURRENT_DATE` in SQL.
+ */
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const target = Date.parse(`${date}T00:00:00Z`);
+  const start = Date.UTC(
+    today.getUTCFullYear(),
+    today.getUTCMonth(),
+    today.getUTCDate()
+  );
+  return Math.round((target - start) / MS_PER_DAY);
+}
+
+export function getLicenseExpiry<T extends LicenseDetails>(
+  license: T,
+  today: Date = new Date(),
+  warningDays: number = LICENSE_EXPIRY_WARNING_DAYS
+): LicenseExpiry<T> {
+  const daysRemaining = daysUntil(license.expires_on, today);
+  const status: LicenseExpiryStatus =
+    daysRemaining < 0
+      ? 'expired'
+      : daysRemaining <= warningDays
+        ? 'expiring'
+        : 'current';
+
+  return { license, status, daysRemaining };
+}
+
+/**
+ * Licenses that have expired or will soon, soonest first
+ */
+export function getLicenseExpiryWarnings<T extends LicenseDetails>(
+  licenses: T[],
+  today: Date = new Date(),
+  warningDays: number = LICENSE_EXPIRY_WARNING_DAYS
+): LicenseExpiry<T>[] {
+  return licenses
+    .map(license => getLicenseExpiry(license, today, warningDays))
+    .filter(expiry => expiry.status !== 'current')
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+/**
+ * Warning text, e.g. "TX license A12345 expires in 30 days"
+ */
+export function formatLicenseExpiry(
+  expiry: LicenseExpiry<LicenseDetails>
+): string {
+  const { license, daysRemaining } = expiry;
+  const name = `${license.state} license ${license.license_number}`;
+
+  if (daysRemaining < 0) return `${name} expired on ${license.expires_on}`;
+  if (daysRemaining === 0) return `${name} expires today`;
+  return `${name} expires in ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`;
+}
+
+export function hasCurrentLicense(
+  licenses: LicenseDetails[],
+  today: Date = new Date()
+): boolean {
+  return licenses.some(license => daysUntil(license.expires_on, today) >= 0);
+}
+
+/**
+ * Whether a provider can be assigned cases: verified, with a license that
+ * has not expired
+ */
+export function canTakeCases(
+  profile: Pick<ProviderProfile, 'verification_status'> | null,
+  licenses: LicenseDetails[],
+  today: Date = new Date()
+): boolean {
+  return (
+    profile?.verification_status === 'verified' &&
+    hasCurrentLicense(licenses, today)
+  );
+}
+
+// =================================
+// LETTER CREDENTIALS
+// =================================
+
+/**
+ * Credentials to print on a nexus letter. Uses the license for `state` when
+ * given, otherwise the current license that expires last; null when the
+ * provider has no current license.
+ */
+export function toPhysicianCredentials(
+  user: Pick<User, 'full_name' | 'email'>,
+  profile: Pick<
+    ProviderProfile,
+    'credentials' | 'npi' | 'specialties' | 'board_certifications'
+  >,
+  licenses: LicenseDetails[],
+  options: { state?: string; today?: Date } = {}
+): PhysicianCredentials | null {
+  const { state, today = new Date() } = options;
+  const license = licenses
+    .filter(candidate => daysUntil(candidate.expires_on, today) >= 0)
+    .filter(candidate => !state || candidate.state === state)
+    .sort((a, b) => b.expires_on.localeCompare(a.expires_on))[0];
+
+  if (!license) return null;
+
+  return {
+    fullName: user.full_name || user.email,
+    credentials: profile.credentials,
+    specialty: profile.specialties.join(', '),
+    licenseNumber: license.license_number,
+    licenseState: license.state,
+    ...(profile.npi && { npi: profile.npi }),
+    ...(profile.board_certifications.length > 0 && {
+      boardCertification: profile.board_certifications.join(', '),
+    }),
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Quality Review
+ * Checklist and sign-off rules for the review a letter needs before its
+ * claim can be delivered. The checklist mirrors the `qa_checklist_items`
+ * table and the `complete_qa_review` RPC enforces the same rules
+ */
+
+import { Constants } from './database.types';
+import type { QaReview, QaReviewStatus, User, UserRole } from './supabase';
+
+// =================================
+// STATUSES AND ROLES
+// =================================
+
+export const QA_REVIEW_STATUSES = Constants.public.Enums.qa_review_status;
+
+export const QA_REVIEW_STATUS_LABELS: Record<QaReviewStatus, string> = {
+  pending: 'Awaiting Review',
+  approved: 'Approved',
+  changes_requested: 'Changes Requested',
+  withdrawn: 'Withdrawn',
+};
+
+export const QA_REVIEW_DECISIONS = ['approved', 'changes_requested'] as const;
+export type QaReviewDecision = (typeof QA_REVIEW_DECISIONS)[number];
+
+/**
+ * Roles allowed to sign off letters. Reviewers are credentialed clinicians
+ * and are deliberately separate from the admin and moderator roles that
+ * draft letters.
+ */
+export const QA_REVIEWER_ROLES: readonly UserRole[] = ['reviewer'];
+
+export function isQaReviewer(role: UserRole | null | undefined): boolean {
+  return !!role && QA_REVIEWER_ROLES.includes(role);
+}
+
+// =================================
+// CHECKLIST
+// =================================
+
+export interface QaChecklistItemDefinition {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export const QA_CHECKLIST = [
+  {
+    key: 'veteran_identity',
+    label: 'Veteran name and case number match the claim',
+    required: true,
+  },
+  {
+    key: 'condition_matches',
+    label: 'Condition matches the diagnosis in the records',
+    required: true,
+  },
+  {
+    key: 'likelihood_language',
+    label: 'Opinion is stated in VA likelihood language',
+    required: true,
+  },
+  {
+    key: 'records_reviewed',
+    label: 'Every record relied on is listed as reviewed',
+    required: true,
+  },
+  {
+    key: 'rationale_supported',
+    label: 'Rationale explains the medical reasoning from the records',
+    required: true,
+  },
+  {
+    key: 'citations_verified',
+    label: 'Cited literature is accurate and relevant',
+    required: false,
+  },
+  {
+    key: 'credentials_complete',
+    label: 'Physician credentials, license and signature block are complete',
+    required: true,
+  },
+  {
+    key: 'no_placeholders',
+    label: 'No unfilled merge fields or placeholder text remain',
+    required: true,
+  },
+] as const satisfies readonly QaChecklistItemDefinition[];
+
+export type QaChecklistKey = (typeof QA_CHECKLIST)[number]['key'];
+
+/** Reviewer's answers, keyed by checklist item */
+export type QaChecklist = Partial<Record<QaChecklistKey, boolean>>;
+
+/**
+ * Required items the reviewer has not confirmed
+ */
+export function getMissingChecklistItems(
+  checklist: Record<string, boolean | undefined>
+): QaChecklistItemDefinition[] {
+  return QA_CHECKLIST.filter(item => item.required && !checklist[item.key]);
+}
+
+// =================================
+// SIGN-OFF RULES
+// =================================
+
+/**
+ * Whether the user may decide this review: a reviewer, on a pending review
+ * of a letter they neither wrote nor submitted
+ */
+export function canDecideReview(
+  user: Pick<User, 'id' | 'role'>,
+  review: Pick<QaReview, 'status' | 'submitted_by'>,
+  authorId?: string | null
+): boolean {
+  return (
+    isQaReviewer(user.role) &&
+    review.status === 'pending' &&
+    user.id !== review.submitted_by &&
+    user.id !== authorId
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Rating Calculator
+ * VA "whole person" combined-ratings math (38 CFR 4.25 and 4.26). Each
+ * disability is applied to the efficiency left over by the ones before it,
+ * so ratings are combined, not added, and the result is rounded to the
+ * nearest 10 to give the combined rating VA pays on.
+ */
+
+import { VA_RATINGS } from './intake';
+
+// =================================
+// DISABILITIES
+// =================================
+
+/**
+ * Limbs that count towards the bilateral factor
+ */
+export const EXTREMITIES = [
+  'left_arm',
+  'right_arm',
+  'left_leg',
+  'right_leg',
+] as const;
+
+export type Extremity = (typeof EXTREMITIES)[number];
+
+export const EXTREMITY_LABELS: Record<Extremity, string> = {
+  left_arm: 'Left arm',
+  right_arm: 'Right arm',
+  left_leg: 'Left leg',
+  right_leg: 'Right leg',
+};
+
+export interface RatedDisability {
+  /** Schedular rating: 0 to 100 in steps of 10 */
+  rating: number;
+  /** Set when the disability affects an arm or leg */
+  extremity?: Extremity | null;
+}
+
+export class RatingCalculatorError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_RATING'
+  ) {
+    super(message);
+    this.name = 'RatingCalculatorError';
+  }
+}
+
+export function isValidRating(rating: number): boolean {
+  return (VA_RATINGS as readonly number[]).includes(rating);
+}
+
+// =================================
+// COMBINED RATINGS TABLE
+// =================================
+
+/**
+ * Combine a disability with the combined value of those already applied,
+ * as read from Table I: the rating takes its share of the remaining
+ * efficiency and the result is rounded half up to a whole number
+ */
+export function combineTwoRatings(value: number, rating: number): number {
+  return Math.round((100 * value + rating * (100 - value)) / 100);
+}
+
+/**
+ * Combined value of several ratings, applied from most to least severe.
+ * This is the unrounded "whole person" value, not the combined rating.
+ */
+export function combineRatings(ratings: readonly number[]): number {
+  return [...ratings]
+    .filter(rating => rating > 0)
+    .sort((a, b) => b - a)
+    .reduce((value, rating) => combineTwoRatings(value, rating), 0);
+}
+
+/**
+ * Combined values ending in 5 are rounded up (§4.25(a)): 45 becomes 50
+ */
+export function roundToNearestTen(value: number): number {
+  return Math.min(100, Math.round(value / 10) * 10);
+}
+
+// =================================
+// BILATERAL FACTOR
+// =================================
+
+/**
+ * Disabilities the bilateral factor applies to: those of both arms, or of
+ * both legs. When both pairs are affected, all four limbs are combined
+ * together.
+ */
+export function getBilateralDisabilities<T extends RatedDisability>(
+  disabilities: readonly T[]
+): T[] {
+  const affected = new Set(
+    disabilities
+      .filter(disability => disability.rating > 0 && disability.extremity)
+      .map(disability => disability.extremity)
+  );
+  const arms = affected.has('left_arm') && affected.has('right_arm');
+  const legs = affected.has('left_leg') && affected.has('right_leg');
+
+  return disabilities.filter(({ rating, extremity }) => {
+    if (rating === 0 || !extremity) return false;
+    return extremity.endsWith('_arm') ? arms : legs;
+  });
+}
+
+export interface BilateralFactor {
+  ratings: number[];
+  /** The bilateral ratings combined as usual */
+  combinedValue: number;
+  /** 10% of the combined value, added rather than combined */
+  factor: number;
+  /** Combined value plus the factor, rounded to a whole number */
+  value: number;
+}
+
+/**
+ * Apply the bilateral factor (§4.26), or null when no pair of limbs is
+ * affected
+ */
+export function getBilateralFactor(
+  disabilities: readonly RatedDisability[]
+): BilateralFactor | null {
+  const bilateral = getBilateralDisabilities(disabilities);
+  if (bilateral.length === 0) return null;
+
+  const ratings = bilateral.map(disability => disability.rating);
+  const combinedValue = combineRatings(ratings);
+
+  return {
+    ratings,
+    combinedValue,
+    factor: combinedValue / 10,
+    value: Math.min(100, Math.round((11 * combinedValue) / 10)),
+  };
+}
+
+// =================================
+// CALCULATION
+// =================================
+
+export interface CombinationStep {
+  /** Rating applied in this step; the bilateral value counts as one */
+  rating: number;
+  bilateral: boolean;
+  /** Combined value after this step */
+  combinedValue: number;
+}
+
+export interface CombinedRatingResult {
+  bilateral: BilateralFactor | null;
+  steps: CombinationStep[];
+  combinedValue: number;
+  /** Combined value rounded to the nearest 10 */
+  combinedRating: number;
+}
+
+/**
+ * Work out the combined rating for a veteran's service-connected
+ * disabilities. The bilateral factor is applied first, and its value is
+ * then ordered by severity with the remaining ratings.
+ */
+export function calculateCombinedRating(
+  disabilities: readonly RatedDisability[]
+): CombinedRatingResult {
+  const invalid = disabilities.find(({ rating }) => !isValidRating(rating));
+  if (invalid) {
+    throw new RatingCalculatorError(
+      `${invalid.rating} is not a VA disability rating`,
+      'INVALID_RATING'
+    );
+  }
+
+  const bilateral = getBilateralFactor(disabilities);
+  const bilateralSet = new Set<RatedDisability>(
+    getBilateralDisabilities(disabilities)
+  );
+  const entries = [
+    ...(bilateral ? [{ rating: bilateral.value, bilateral: true }] : []),
+    ...disabilities
+      .filter(disability => disability.rating > 0)
+      .filter(disability => !bilateralSet.has(disability))
+      .map(({ rating }) => ({ rating, bilateral: false })),
+  ].sort((a, b) => b.rating - a.rating);
+
+  const steps: CombinationStep[] = [];
+  let combinedValue = 0;
+  for (const entry of entries) {
+    combinedValue = combineTwoRatings(combinedValue, entry.rating);
+    steps.push({ ...entry, combinedValue });
+  }
+
+  return {
+    bilateral,
+    steps,
+    combinedValue,
+    combinedRating: roundToNearestTen(combinedValue),
+  };
+}
+
+// =================================
+// URL STATE
+// =================================
+
+/**
+ * Query parameter holding the calculator's disabilities
+ */
+export const RATINGS_PARAM = 'ratings';
+
+/**
+ * Most disabilities the calculator reads from a shared link
+ */
+export const MAX_RATED_DISABILITIES = 30;
+
+const EXTREMITY_CODES: Record<Extremity, string> = {
+  left_arm: 'la',
+  right_arm: 'ra',
+  left_leg: 'll',
+  right_leg: 'rl',
+};
+
+/**
+ * Compact form for sharing, e.g. `50,30la,30ra,10`
+ */
+export function serializeDisabilities(
+  disabilities: readonly RatedDisability[]
+): string {
+  return disabilities
+    .map(
+      ({ rating, extremity }) =>
+        `${rating}${extremity ? EXTREMITY_CODES[extremity] : ''}`
+    )
+    .join(',');
+}
+
+/**
+ * Read disabilities back from a shared link, skipping anything that isn't
+ * a valid rating
+ */
+export function parseDisabilities(
+  value: string | null | undefined
+): RatedDisability[] {
+  if (!value) return [];
+
+  const disabilities: RatedDisability[] = [];
+  for (const part of value.split(',')) {
+    const match = /^(\d{1,3})([a-z]{2})?$/.exec(part.trim().toLowerCase());
+    if (!match) continue;
+
+    const rating = Number(match[1]);
+    const extremity = EXTREMITIES.find(
+      limb => EXTREMITY_CODES[limb] === match[2]
+    );
+    if (!isValidRating(rating) || (match[2] && !extremity)) continue;
+
+    disabilities.push(extremity ? { rating, extremity } : { rating });
+    if (disabilities.length === MAX_RATED_DISABILITIES) break;
+  }
+
+  return disabilities;
+}
@@ -0,0 +1,93 @@
+/**
+ * Resumable Uploads
+ * Protocol constants and helpers shared by the chunked upload routes and
+ * the browser uploader. Modelled on tus: the client creates an upload
+ * session, then PATCHes fixed-size chunks at the session's current
+ * offset; HEAD reports the offset so an interrupted upload can pick up
+ * where it stopped.
+ */
+
+export const CLAIM_DOCUMENT_UPLOADS_BUCKET = 'claim-document-uploads';
+
+/**
+ * Size of every chunk except the last. Kept under common serverless
+ * request body limits; must match the claim-document-uploads bucket's
+ * file_size_limit.
+ */
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export const UPLOAD_OFFSET_HEADER = 'Upload-Offset';
+export const UPLOAD_LENGTH_HEADER = 'Upload-Length';
+export const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/**
+ * Length the chunk starting at `offset` must have
+ */
+export function expectedChunkLength(size: number, offset: number): number {
+  return Math.max(0, Math.min(UPLOAD_CHUNK_SIZE, size - offset));
+}
+
+/**
+ * Storage path of a staged chunk. Offsets are zero-padded so listing the
+ * session folder returns chunks in upload order.
+ */
+export function buildChunkPath(sessionId: string, offset: number): string {
+  return `${sessionId}/${String(offset).padStart(12, '0')}`;
+}
+
+/**
+ * Parse an Upload-Offset header; null if missing or malformed
+ */
+export function parseUploadOffset(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Whether a chunk's Content-Length header is present and no bigger than a
+ * chunk, so the body can be read into memory
+ */
+export function isChunkLengthAllowed(value: string | null): boolean {
+  const length = parseUploadOffset(value);
+  return length !== null && length <= UPLOAD_CHUNK_SIZE;
+}
+
+// =================================
+// RESUME STATE (BROWSER)
+// =================================
+
+/**
+ * Identifies a file being uploaded to a claim across page reloads
+ */
+export function getUploadFingerprint(claimId: string, file: File): string {
+  return [
+    'claim-upload',
+    claimId,
+    file.name,
+    file.size,
+    file.lastModified,
+  ].join(':');
+}
+
+type UploadStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const getDefaultStore = (): UploadStore | null =>
+  typeof window !== 'undefined' ? window.localStorage : null;
+
+/**
+ * Remembers which upload session belongs to which file, so a retry after
+ * a reload resumes instead of starting over
+ */
+export const resumableUploadStore = {
+  get(fingerprint: string, store = getDefaultStore()): string | null {
+    return store?.getItem(fingerprint) ?? null;
+  },
+
+  set(fingerprint: string, uploadId: string, store = getDefaultStore()) {
+    store?.setItem(fingerprint, uploadId);
+  },
+
+  remove(fingerprint: string, store = getDefaultStore()) {
+    store?.removeItem(fingerprint);
+  },
+};
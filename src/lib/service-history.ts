@@ -0,0 +1,178 @@
+/**
+ * Service History
+ * A veteran's periods of service as kept on their profile, and how they
+ * prefill intake and the presumptive eligibility checker. The form schema
+ * lives in validations.ts
+ */
+
+import { Constants, type Json } from './database.types';
+import type { IntakeSubmission, ServiceBranch } from './intake';
+import {
+  MAX_DEPLOYMENTS,
+  SERVICE_LOCATIONS,
+  type ServiceDeployment,
+} from './presumptive';
+import type {
+  DischargeCharacterization,
+  ServiceComponent,
+  ServicePeriod,
+  ServicePeriodInsert,
+} from './supabase';
+import type { ServicePeriodData } from './validations';
+
+// =================================
+// PERIODS OF SERVICE
+// =================================
+
+export const SERVICE_COMPONENTS = Constants.public.Enums.service_component;
+
+export const SERVICE_COMPONENT_LABELS: Record<ServiceComponent, string> = {
+  active: 'Active Duty',
+  reserve: 'Reserve',
+  national_guard: 'National Guard',
+};
+
+export const DISCHARGE_CHARACTERIZATIONS =
+  Constants.public.Enums.discharge_characterization;
+
+export const DISCHARGE_CHARACTERIZATION_LABELS: Record<
+  DischargeCharacterization,
+  string
+> = {
+  honorable: 'Honorable',
+  general: 'General (Under Honorable Conditions)',
+  other_than_honorable: 'Other Than Honorable',
+  bad_conduct: 'Bad Conduct',
+  dishonorable: 'Dishonorable',
+  uncharacterized: 'Uncharacterized (entry-level separation)',
+};
+
+/** What each branch calls a service member's job */
+export const OCCUPATION_LABELS: Record<ServiceBranch, string> = {
+  army: 'MOS',
+  navy: 'Rating',
+  air_force: 'AFSC',
+  marine_corps: 'MOS',
+  coast_guard: 'Rating',
+  space_force: 'SFSC',
+};
+
+export const MAX_SERVICE_PERIODS = 10;
+
+// =================================
+// CONVERSION
+// =================================
+
+const isDeploymentRecord = (
+  value: Json
+): value is {
+  location: string;
+  exposure?: Json;
+  start: string;
+  end?: string | null;
+} =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof value.location === 'string' &&
+  value.location.trim() !== '' &&
+  typeof value.start === 'string';
+
+/**
+ * Deployments stored on a service period. Entries without a location or
+ * start are dropped, as are exposure areas that are no longer known.
+ */
+export function parseDeployments(value: Json): ServiceDeployment[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(isDeploymentRecord).map(record => {
+    const exposure = SERVICE_LOCATIONS.find(key => key === record.exposure);
+    return {
+      location: record.location,
+      ...(exposure && { exposure }),
+      start: record.start,
+      ...(record.end && { end: record.end }),
+    };
+  });
+}
+
+export function servicePeriodToFormData(
+  period: ServicePeriod
+): ServicePeriodData {
+  return {
+    branch: period.branch,
+    component: period.component,
+    entryDate: period.entry_date,
+    separationDate: period.separation_date ?? '',
+    dischargeCharacterization: period.discharge_characterization ?? '',
+    occupation: period.occupation ?? '',
+    deployments: parseDeployments(period.deployments).map(deployment => ({
+      ...deployment,
+      exposure: deployment.exposure ?? '',
+      end: deployment.end ?? '',
+    })),
+  };
+}
+
+export function servicePeriodDataToRow(
+  data: ServicePeriodData
+): Omit<ServicePeriodInsert, 'user_id'> {
+  return {
+    branch: data.branch,
+    component: data.component,
+    entry_date: data.entryDate,
+    separation_date: data.separationDate || null,
+    discharge_characterization: data.dischargeCharacterization || null,
+    occupation: data.occupation?.trim() || null,
+    deployments: data.deployments.map(deployment => ({
+      location: deployment.location,
+      exposure: deployment.exposure || null,
+      start: deployment.start,
+      end: deployment.end || null,
+    })),
+  };
+}
+
+// =================================
+// PREFILL
+// =================================
+
+/**
+ * Every deployment across a veteran's service, earliest first
+ */
+export function getServiceHistoryDeployments(
+  periods: ServicePeriod[]
+): ServiceDeployment[] {
+  return periods
+    .flatMap(period => parseDeployments(period.deployments))
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .slice(0, MAX_DEPLOYMENTS);
+}
+
+/**
+ * Intake service answers from the profile: the most recent branch, the
+ * first entry date, the last separation date (blank if still serving)
+ * and every deployment
+ */
+export function serviceHistoryToIntake(
+  periods: ServicePeriod[]
+): Partial<IntakeSubmission> {
+  const sorted = [...periods].sort((a, b) =>
+    a.entry_date.localeCompare(b.entry_date)
+  );
+  const first = sorted[0];
+  const latest = sorted[sorted.length - 1];
+  if (!first || !latest) return {};
+
+  const stillServing = sorted.some(period => !period.separation_date);
+  const separations = sorted.flatMap(period =>
+    period.separation_date ? [period.separation_date] : []
+  );
+
+  return {
+    branch: latest.branch,
+    serviceStart: first.entry_date,
+    serviceEnd: stillServing ? '' : (separations.sort().pop() ?? ''),
+    deployments: getServiceHistoryDeployments(sorted),
+  };
+}
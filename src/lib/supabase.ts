@@ -2,8 +2,12 @@ import { createClient } from '@supabase/supabase-js';
 import type { Database } from './database.types';
 
 // Supabase client configuration with fallback for development
-const rawSupabaseUrl = process.env.BNSL_NEXT_PUBLIC_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-const rawAnonKey = process.env.BNSL_NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const rawSupabaseUrl =
+  process.env.BNSL_NEXT_PUBLIC_SUPABASE_URL ||
+  process.env.NEXT_PUBLIC_SUPABASE_URL;
+const rawAnonKey =
+  process.env.BNSL_NEXT_PUBLIC_SUPABASE_ANON_KEY ||
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
 // Handle placeholder values in development
 const supabaseUrl =
@@ -22,13 +26,32 @@ const supabaseAnonKey =
 // Only validate when actually running in production, not during build or in CI
 if (typeof window !== 'undefined' && process.env.NODE_ENV === 'production') {
   // Client-side production validation
-  if (!rawSupabaseUrl || !rawAnonKey || rawSupabaseUrl.includes('your-project-url') || rawAnonKey.includes('your-anon-key')) {
-    console.warn('⚠️ Missing or invalid Supabase environment variables in production. Some features may not work correctly.');
+  if (
+    !rawSupabaseUrl ||
+    !rawAnonKey ||
+    rawSupabaseUrl.includes('your-project-url') ||
+    rawAnonKey.includes('your-anon-key')
+  ) {
+    console.warn(
+      '⚠️ Missing or invalid Supabase environment variables in production. Some features may not work correctly.'
+    );
   }
-} else if (typeof window === 'undefined' && process.env.NODE_ENV === 'production' && !process.env.CI && !process.env.VERCEL_ENV) {
+} else if (
+  typeof window === 'undefined' &&
+  process.env.NODE_ENV === 'production' &&
+  !process.env.CI &&
+  !process.env.VERCEL_ENV
+) {
   // Server-side production validation (but not in CI or preview environments)
-  if (!rawSupabaseUrl || !rawAnonKey || rawSupabaseUrl.includes('your-project-url') || rawAnonKey.includes('your-anon-key')) {
-    console.warn('⚠️ Missing or invalid Supabase environment variables in production server.');
+  if (
+    !rawSupabaseUrl ||
+    !rawAnonKey ||
+    rawSupabaseUrl.includes('your-project-url') ||
+    rawAnonKey.includes('your-anon-key')
+  ) {
+    console.warn(
+      '⚠️ Missing or invalid Supabase environment variables in production server.'
+    );
   }
 }
 
@@ -53,7 +76,9 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
 
 // Server-side client for API routes (using service role key)
 export const createServerClient = () => {
-  const supabaseServiceKey = process.env.BNSL_SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const supabaseServiceKey =
+    process.env.BNSL_SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.SUPABASE_SERVICE_ROLE_KEY;
 
   if (!supabaseServiceKey) {
     throw new Error(
@@ -72,6 +97,8 @@ export const createServerClient = () => {
 // Types for better TypeScript support
 export type Tables<T extends keyof Database['public']['Tables']> =
   Database['public']['Tables'][T]['Row'];
+export type Views<T extends keyof Database['public']['Views']> =
+  Database['public']['Views'][T]['Row'];
 export type Enums<T extends keyof Database['public']['Enums']> =
   Database['public']['Enums'][T];
 
@@ -87,21 +114,74 @@ export type TablesUpdate<T extends keyof Database['public']['Tables']> =
 export type User = Tables<'users'>;
 export type Claim = Tables<'claims'>;
 export type ActivityLog = Tables<'activity_log'>;
+export type ClaimStatusHistory = Tables<'claim_status_history'>;
+export type ClaimComment = Tables<'claim_comments'>;
+export type ClaimDocument = Tables<'claim_documents'>;
+export type DocumentUploadSession = Tables<'document_upload_sessions'>;
+export type LetterTemplate = Tables<'letter_templates'>;
+export type LetterDraft = Tables<'letter_drafts'>;
+export type LetterDraftVersion = Tables<'letter_draft_versions'>;
+export type QaReview = Tables<'qa_reviews'>;
+export type QaChecklistItem = Tables<'qa_checklist_items'>;
+export type ProviderProfile = Tables<'provider_profiles'>;
+export type ProviderLicense = Tables<'provider_licenses'>;
+export type ProviderWorkload = Views<'provider_workload'>;
+export type ClaimSlaEscalation = Tables<'claim_sla_escalations'>;
+export type IntakeDraft = Tables<'intake_drafts'>;
+export type Lead = Tables<'leads'>;
+export type LeadNote = Tables<'lead_notes'>;
+export type EmailLogEntry = Tables<'email_log'>;
+export type Notification = Tables<'notifications'>;
+export type WeeklyDigestRecord = Tables<'weekly_digests'>;
+export type Job = Tables<'jobs'>;
+export type WebhookSubscription = Tables<'webhook_subscriptions'>;
+export type WebhookDelivery = Tables<'webhook_deliveries'>;
+export type Condition = Tables<'conditions'>;
+export type ClaimCondition = Tables<'claim_conditions'>;
+export type ServicePeriod = Tables<'service_periods'>;
 
 // Export enum types
 export type UserRole = Enums<'user_role'>;
 export type ClaimStatus = Enums<'claim_status'>;
 export type ClaimType = Enums<'claim_type'>;
+export type CaseUrgency = Enums<'case_urgency'>;
+export type DocumentCategory = Enums<'document_category'>;
+export type DocumentScanStatus = Enums<'document_scan_status'>;
+export type QaReviewStatus = Enums<'qa_review_status'>;
+export type ProviderVerificationStatus = Enums<'provider_verification_status'>;
+export type SlaEscalationLevel = Enums<'sla_escalation_level'>;
+export type LeadStatus = Enums<'lead_status'>;
+export type EmailTemplate = Enums<'email_template'>;
+export type EmailStatus = Enums<'email_status'>;
+export type NotificationCategory = Enums<'notification_category'>;
+export type JobStatus = Enums<'job_status'>;
+export type WebhookDeliveryStatus = Enums<'webhook_delivery_status'>;
+export type BodySystem = Enums<'body_system'>;
+export type PresumptiveFlag = Enums<'presumptive_flag'>;
+export type ServiceComponent = Enums<'service_component'>;
+export type DischargeCharacterization = Enums<'discharge_characterization'>;
 export type ActivityType = Enums<'activity_type'>;
 
 // Export insert types
 export type UserInsert = TablesInsert<'users'>;
 export type ClaimInsert = TablesInsert<'claims'>;
+export type LeadInsert = TablesInsert<'leads'>;
+export type EmailLogInsert = TablesInsert<'email_log'>;
+export type NotificationInsert = TablesInsert<'notifications'>;
+export type JobInsert = TablesInsert<'jobs'>;
+export type WebhookSubscriptionInsert = TablesInsert<'webhook_subscriptions'>;
+export type WebhookDeliveryInsert = TablesInsert<'webhook_deliveries'>;
+export type ServicePeriodInsert = TablesInsert<'service_periods'>;
 export type ActivityLogInsert = TablesInsert<'activity_log'>;
 
 // Export update types
 export type UserUpdate = TablesUpdate<'users'>;
 export type ClaimUpdate = TablesUpdate<'claims'>;
+export type LetterTemplateUpdate = TablesUpdate<'letter_templates'>;
+export type EmailLogUpdate = TablesUpdate<'email_log'>;
+export type JobUpdate = TablesUpdate<'jobs'>;
+export type WebhookSubscriptionUpdate = TablesUpdate<'webhook_subscriptions'>;
+export type WebhookDeliveryUpdate = TablesUpdate<'webhook_deliveries'>;
 
 // Re-export database helpers
 // export { userHelpers, claimHelpers, activityHelpers, testimonialsHelpers } from './database-helpers';
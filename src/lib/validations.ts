@@ -5,6 +5,36 @@
 
 import { z } from 'zod';
 import type { UserRole, ClaimStatus, ClaimType, ActivityType } from './supabase';
+import { Constants } from './database.types';
+import {
+  CLAIM_TYPES,
+  CASE_URGENCIES,
+  CLAIM_PRIORITIES,
+  SERVICE_OPTIONS,
+  OTHER_SERVICE_LABEL,
+} from './claim-types';
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_CATEGORY_SIZE_LIMITS,
+} from './claim-documents';
+import { formatFileSize } from './file-security';
+import { OPINION_LIKELIHOODS, SERVICE_RELATIONSHIPS } from './nexus-letter';
+import { QA_REVIEW_DECISIONS, getMissingChecklistItems } from './qa-review';
+import {
+  PROVIDER_STATUSES_REQUIRING_NOTES,
+  PROVIDER_VERIFICATION_STATUSES,
+} from './providers';
+import { LEAD_STATUSES } from './leads';
+import { WEBHOOK_EVENTS } from './webhooks';
+import { MAX_DEPLOYMENTS, SERVICE_LOCATIONS } from './presumptive';
+import { DISCHARGE_CHARACTERIZATIONS, SERVICE_COMPONENTS } from './service-history';
+import {
+  EVIDENCE_TYPES,
+  INTAKE_STEPS,
+  SERVICE_BRANCHES,
+  VA_RATINGS,
+  type IntakeStepKey,
+} from './intake';
 
 // =================================
 // COMMON VALIDATION SCHEMAS
@@ -110,12 +140,17 @@ export const claimSubmissionSchema = z.object({
     .string()
     .min(20, 'Description must be at least 20 characters')
     .max(5000, 'Description is too long'),
-  claimType: z.enum(['complaint', 'request', 'suggestion', 'bug_report', 'other'] as const),
-  priority: z.enum(['low', 'medium', 'high', 'urgent'] as const).default('medium'),
-  category: z
+  claimType: z.enum(CLAIM_TYPES),
+  otherService: z
+    .string()
+    .max(200, 'Service description is too long')
+    .optional(),
+  condition: z
     .string()
-    .min(1, 'Category is required')
-    .max(50, 'Category is too long'),
+    .min(1, 'Condition is required')
+    .max(200, 'Condition description is too long'),
+  urgency: z.enum(CASE_URGENCIES).default('standard'),
+  priority: z.enum(CLAIM_PRIORITIES).default('medium'),
   relatedUrl: z.string().url('Please enter a valid URL').optional().or(z.literal('')),
   attachments: z
     .array(z.object({
@@ -131,6 +166,15 @@ export const claimSubmissionSchema = z.object({
     .max(1000, 'Expected resolution is too long')
     .optional(),
   contactPreference: z.enum(['email', 'phone', 'both'] as const).default('email'),
+}).refine(data => {
+  // Cases opened for "other" must describe the service requested
+  if (data.claimType === 'other' && (!data.otherService || data.otherService.trim() === '')) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Please specify the service you need',
+  path: ['otherService'],
 });
 
 export const claimUpdateSchema = z.object({
@@ -144,12 +188,14 @@ export const claimUpdateSchema = z.object({
     .min(20, 'Description must be at least 20 characters')
     .max(5000, 'Description is too long')
     .optional(),
-  status: z.enum(['pending', 'under_review', 'approved', 'rejected'] as const).optional(),
-  priority: z.enum(['low', 'medium', 'high', 'urgent'] as const).optional(),
-  category: z
+  status: z.enum(Constants.public.Enums.claim_status).optional(),
+  claimType: z.enum(CLAIM_TYPES).optional(),
+  condition: z
     .string()
-    .max(50, 'Category is too long')
+    .max(200, 'Condition description is too long')
     .optional(),
+  urgency: z.enum(CASE_URGENCIES).optional(),
+  priority: z.enum(CLAIM_PRIORITIES).optional(),
   assignedTo: z.string().uuid('Invalid user ID').optional(),
   resolution: z
     .string()
@@ -165,6 +211,552 @@ export const claimCommentSchema = z.object({
   isInternal: z.boolean().default(false),
 });
 
+export const claimDocumentUploadSchema = z.object({
+  category: z.enum(DOCUMENT_CATEGORIES).default('other'),
+  description: z
+    .string()
+    .max(500, 'Description is too long')
+    .optional(),
+});
+
+// Starts a resumable upload; the chunks follow separately
+export const claimDocumentUploadSessionSchema = claimDocumentUploadSchema
+  .extend({
+    fileName: z.string().min(1, 'Filename is required').max(255),
+    mimeType: z.string().min(1, 'File type is required').max(100),
+    size: z.number().int().positive('File is empty'),
+  })
+  .superRefine((data, ctx) => {
+    const maxSize = DOCUMENT_CATEGORY_SIZE_LIMITS[data.category];
+    if (data.size > maxSize) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['size'],
+        message: `File size must be less than ${formatFileSize(maxSize)}`,
+      });
+    }
+  });
+
+// =================================
+// NEXUS LETTER VALIDATION SCHEMAS
+// =================================
+
+export const physicianCredentialsSchema = z.object({
+  fullName: z.string().min(2, 'Physician name is required').max(100),
+  credentials: z.string().min(2, 'Credentials are required').max(50),
+  specialty: z.string().min(2, 'Specialty is required').max(100),
+  licenseNumber: z.string().min(1, 'License number is required').max(50),
+  licenseState: z
+    .string()
+    .regex(/^[A-Z]{2}$/, 'Please enter a two-letter state code'),
+  npi: z
+    .string()
+    .regex(/^\d{10}$/, 'NPI must be 10 digits')
+    .optional(),
+  boardCertification: z.string().max(200).optional(),
+});
+
+export const letterCitationSchema = z.object({
+  authors: z.string().max(300).optional(),
+  title: z.string().min(1, 'Citation title is required').max(500),
+  source: z.string().min(1, 'Citation source is required').max(300),
+  year: z.number().int().min(1900).max(2100).optional(),
+  url: z.string().url('Please enter a valid URL').optional(),
+});
+
+export const physicianOpinionSchema = z.object({
+  condition: z.string().max(200).optional(),
+  likelihood: z.enum(OPINION_LIKELIHOODS),
+  relationship: z.enum(SERVICE_RELATIONSHIPS),
+  serviceConnection: z
+    .string()
+    .min(3, 'Describe what the condition is related to')
+    .max(300),
+  recordsReviewed: z.array(z.string().min(1).max(300)).max(50).default([]),
+  rationale: z
+    .array(z.string().min(1).max(5000))
+    .min(1, 'A medical rationale is required')
+    .max(20),
+  citations: z.array(letterCitationSchema).max(30).default([]),
+});
+
+// The opinion is either written out or filled in from a letter template
+export const nexusLetterRequestSchema = z
+  .object({
+    // Providers sign with the credentials on their verified profile
+    physician: physicianCredentialsSchema.optional(),
+    opinion: physicianOpinionSchema.optional(),
+    templateId: z.string().uuid('Invalid template').optional(),
+  })
+  .refine(data => !data.opinion !== !data.templateId, {
+    message: 'Provide either an opinion or a template',
+    path: ['opinion'],
+  });
+
+// Drafts are saved while still in progress, so text may be left blank
+export const letterDraftContentSchema = physicianOpinionSchema.extend({
+  serviceConnection: z.string().max(300),
+  rationale: z.array(z.string().min(1).max(5000)).max(20).default([]),
+});
+
+export const letterTemplateSchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes')
+    .max(100),
+  name: z.string().min(3, 'Template name is required').max(200),
+  condition: z.string().min(2, 'Condition is required').max(200),
+  relationship: z.enum(SERVICE_RELATIONSHIPS),
+  description: z.string().max(1000).optional(),
+  content: letterDraftContentSchema,
+});
+
+export const letterDraftCreateSchema = z.object({
+  title: z.string().min(3, 'Draft title is required').max(200),
+  templateId: z.string().uuid('Invalid template').optional(),
+});
+
+export const letterDraftSaveSchema = z.object({
+  content: letterDraftContentSchema,
+  changeSummary: z.string().max(500).optional(),
+  // Version the editor loaded; the save is rejected if it is out of date
+  expectedVersion: z.number().int().min(0).optional(),
+});
+
+// =================================
+// QUALITY REVIEW VALIDATION SCHEMAS
+// =================================
+
+export const qaReviewSubmitSchema = z.object({
+  draftId: z.string().uuid('Invalid letter draft'),
+});
+
+export const qaReviewDecisionSchema = z
+  .object({
+    decision: z.enum(QA_REVIEW_DECISIONS),
+    checklist: z.record(z.string(), z.boolean()).default({}),
+    comments: z.string().max(5000, 'Comments are too long').optional(),
+    reviewerCredentials: z
+      .string()
+      .max(200, 'Credentials are too long')
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.decision === 'changes_requested') {
+      if (!data.comments?.trim()) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['comments'],
+          message: 'Describe the changes needed',
+        });
+      }
+      return;
+    }
+
+    getMissingChecklistItems(data.checklist).forEach(item => {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['checklist', item.key],
+        message: `Confirm: ${item.label}`,
+      });
+    });
+
+    if (!data.reviewerCredentials?.trim()) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['reviewerCredentials'],
+        message: 'Enter your credentials to sign off the letter',
+      });
+    }
+  });
+
+// =================================
+// PROVIDER VALIDATION SCHEMAS
+// =================================
+
+export const providerProfileSchema = z.object({
+  credentials: z.string().min(2, 'Credentials are required').max(50),
+  npi: z
+    .string()
+    .regex(/^\d{10}$/, 'NPI must be 10 digits')
+    .optional(),
+  specialties: z
+    .array(z.string().min(2).max(100))
+    .min(1, 'Add at least one specialty')
+    .max(10),
+  boardCertifications: z.array(z.string().min(2).max(200)).max(10).default([]),
+});
+
+export const providerLicenseSchema = z.object({
+  state: z
+    .string()
+    .regex(/^[A-Z]{2}$/, 'Please enter a two-letter state code'),
+  licenseNumber: z.string().min(1, 'License number is required').max(50),
+  expiresOn: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Please enter a valid date')
+    .refine(date => !Number.isNaN(Date.parse(date)), 'Please enter a valid date'),
+});
+
+export const providerVerificationSchema = z
+  .object({
+    status: z.enum(PROVIDER_VERIFICATION_STATUSES),
+    notes: z.string().max(1000, 'Notes are too long').optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (
+      PROVIDER_STATUSES_REQUIRING_NOTES.includes(data.status) &&
+      !data.notes?.trim()
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['notes'],
+        message: 'Explain the decision to the provider',
+      });
+    }
+  });
+
+export const providerAvailabilitySchema = z.object({
+  acceptingCases: z.boolean(),
+  maxOpenCases: z
+    .number()
+    .int()
+    .min(1, 'Allow at least one open case')
+    .max(100, 'Capacity is too high')
+    .optional(),
+});
+
+// =================================
+// CASE ASSIGNMENT VALIDATION SCHEMAS
+// =================================
+
+/**
+ * Manual override of the assignment engine; a null provider unassigns
+ */
+export const claimAssignmentSchema = z.object({
+  assigneeId: z.string().uuid('Invalid user ID').nullable(),
+  reason: z
+    .string()
+    .trim()
+    .min(5, 'Explain why the case is being assigned manually')
+    .max(500, 'Reason is too long'),
+});
+
+// =================================
+// VETERAN INTAKE VALIDATION SCHEMAS
+// =================================
+
+const intakeDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Please enter a valid date')
+  .refine(date => !Number.isNaN(Date.parse(date)), 'Please enter a valid date');
+
+export const intakePersonalInfoSchema = z.object({
+  firstName: z
+    .string()
+    .min(1, 'First name is required')
+    .max(50, 'First name is too long'),
+  lastName: z
+    .string()
+    .min(1, 'Last name is required')
+    .max(50, 'Last name is too long'),
+  email: emailSchema,
+  phone: phoneSchema.or(z.literal('')),
+  state: z
+    .string()
+    .regex(/^[A-Z]{2}$/, 'Please enter a two-letter state code'),
+});
+
+export const deploymentSchema = z
+  .object({
+    location: z
+      .string()
+      .trim()
+      .min(1, 'Please enter a location')
+      .max(100, 'Location is too long'),
+    // Qualifying location for presumptive exposure; blank for most places
+    exposure: z
+      .enum(SERVICE_LOCATIONS, 'Please select an exposure area')
+      .optional()
+      .or(z.literal('')),
+    start: intakeDateSchema,
+    // Blank while still deployed
+    end: intakeDateSchema.optional().or(z.literal('')),
+  })
+  .refine(data => !data.end || data.end >= data.start, {
+    message: 'Deployment must end after it starts',
+    path: ['end'],
+  });
+
+const intakeServiceHistoryFields = z.object({
+  branch: z.enum(SERVICE_BRANCHES, 'Please select a branch of service'),
+  serviceStart: intakeDateSchema,
+  // Blank while still serving
+  serviceEnd: intakeDateSchema.optional().or(z.literal('')),
+  // Places served, some of which may qualify for presumptive service
+  // connection
+  deployments: z
+    .array(deploymentSchema)
+    .max(MAX_DEPLOYMENTS, `Maximum ${MAX_DEPLOYMENTS} deployments`)
+    .optional(),
+});
+
+const refineServiceDates = (
+  data: z.infer<typeof intakeServiceHistoryFields>,
+  ctx: z.RefinementCtx
+) => {
+  if (data.serviceStart > new Date().toISOString().slice(0, 10)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['serviceStart'],
+      message: 'Service start cannot be in the future',
+    });
+  }
+
+  if (data.serviceEnd && data.serviceEnd < data.serviceStart) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['serviceEnd'],
+      message: 'Service end must be after service start',
+    });
+  }
+};
+
+export const intakeServiceHistorySchema =
+  intakeServiceHistoryFields.superRefine(refineServiceDates);
+
+export const intakeConditionsSchema = z.object({
+  conditions: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .trim()
+          .min(1, 'Condition is required')
+          .max(200, 'Condition description is too long'),
+        /** Catalog entry picked from the autocomplete, if any */
+        conditionId: z.string().uuid('Invalid condition').optional(),
+        description: z
+          .string()
+          .max(1000, 'Description is too long')
+          .optional(),
+      })
+    )
+    .min(1, 'Add at least one condition')
+    .max(10, 'Maximum 10 conditions per intake'),
+});
+
+const intakeRatingFields = z.object({
+  hasVaRating: z.boolean(),
+  currentRating: z
+    .number()
+    .int()
+    .refine(
+      rating => (VA_RATINGS as readonly number[]).includes(rating),
+      'Please select your combined rating'
+    )
+    .optional(),
+});
+
+const refineCurrentRating = (
+  data: z.infer<typeof intakeRatingFields>,
+  ctx: z.RefinementCtx
+) => {
+  if (data.hasVaRating && data.currentRating === undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['currentRating'],
+      message: 'Please select your combined rating',
+    });
+  }
+};
+
+export const intakeRatingSchema =
+  intakeRatingFields.superRefine(refineCurrentRating);
+
+export const intakeEvidenceSchema = z.object({
+  evidence: z.array(z.enum(EVIDENCE_TYPES)).default([]),
+  evidenceNotes: z.string().max(2000, 'Notes are too long').optional(),
+});
+
+const intakeServiceSelectionFields = z.object({
+  claimType: z.enum(CLAIM_TYPES, 'Please select a service'),
+  otherService: z
+    .string()
+    .max(200, 'Service description is too long')
+    .optional(),
+  urgency: z.enum(CASE_URGENCIES).default('standard'),
+});
+
+const refineOtherService = (
+  data: z.infer<typeof intakeServiceSelectionFields>,
+  ctx: z.RefinementCtx
+) => {
+  if (data.claimType === 'other' && !data.otherService?.trim()) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['otherService'],
+      message: 'Please specify the service you need',
+    });
+  }
+};
+
+export const intakeServiceSelectionSchema =
+  intakeServiceSelectionFields.superRefine(refineOtherService);
+
+export const intakeConsentSchema = z.object({
+  consentToContact: z.boolean().refine(val => val === true, {
+    message: 'You must agree to be contacted about your case',
+  }),
+  authorizesRecordReview: z.boolean().refine(val => val === true, {
+    message: 'You must authorize review of your medical records',
+  }),
+  signature: z
+    .string()
+    .trim()
+    .min(2, 'Type your full name to sign')
+    .max(100, 'Signature is too long'),
+});
+
+/**
+ * Compensation estimate carried into the intake from the estimator
+ */
+export const compensationEstimateSchema = z.object({
+  rating: z
+    .number()
+    .int()
+    .refine(rating => (VA_RATINGS as readonly number[]).includes(rating)),
+  dependents: z.object({
+    spouse: z.boolean(),
+    spouseAidAndAttendance: z.boolean(),
+    childrenUnder18: z.number().int().min(0).max(20),
+    schoolChildren: z.number().int().min(0).max(20),
+    parents: z.number().int().min(0).max(2),
+  }),
+  effectiveDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  rateYear: z.number().int(),
+  monthlyAmount: z.number().min(0),
+  backPay: z.number().min(0).optional(),
+});
+
+/**
+ * Schema validating each intake wizard step, in INTAKE_STEPS order
+ */
+export const INTAKE_STEP_SCHEMAS: Record<
+  IntakeStepKey,
+  z.ZodType<Partial<VeteranIntakeData>>
+> = {
+  personal: intakePersonalInfoSchema,
+  service: intakeServiceHistorySchema,
+  conditions: intakeConditionsSchema,
+  rating: intakeRatingSchema,
+  evidence: intakeEvidenceSchema,
+  selection: intakeServiceSelectionSchema,
+  consent: intakeConsentSchema,
+};
+
+/**
+ * A completed intake, ready to become a claim
+ */
+export const veteranIntakeSchema = z
+  .object({
+    ...intakePersonalInfoSchema.shape,
+    ...intakeServiceHistoryFields.shape,
+    ...intakeConditionsSchema.shape,
+    ...intakeRatingFields.shape,
+    ...intakeEvidenceSchema.shape,
+    ...intakeServiceSelectionFields.shape,
+    ...intakeConsentSchema.shape,
+    compensationEstimate: compensationEstimateSchema.optional(),
+  })
+  .superRefine((data, ctx) => {
+    refineServiceDates(data, ctx);
+    refineCurrentRating(data, ctx);
+    refineOtherService(data, ctx);
+  });
+
+export const intakeDraftSaveSchema = z.object({
+  data: z.record(z.string(), z.unknown()),
+  currentStep: z
+    .number()
+    .int()
+    .min(0)
+    .max(INTAKE_STEPS.length - 1),
+});
+
+// =================================
+// SERVICE HISTORY VALIDATION SCHEMAS
+// =================================
+
+export const servicePeriodSchema = z
+  .object({
+    branch: z.enum(SERVICE_BRANCHES, 'Please select a branch of service'),
+    component: z.enum(SERVICE_COMPONENTS, 'Please select a component'),
+    entryDate: intakeDateSchema,
+    // Blank while still serving
+    separationDate: intakeDateSchema.optional().or(z.literal('')),
+    dischargeCharacterization: z
+      .enum(DISCHARGE_CHARACTERIZATIONS, 'Please select a characterization')
+      .optional()
+      .or(z.literal('')),
+    // MOS, rating or AFSC
+    occupation: z.string().trim().max(100, 'Occupation is too long').optional(),
+    deployments: z
+      .array(deploymentSchema)
+      .max(MAX_DEPLOYMENTS, `Maximum ${MAX_DEPLOYMENTS} deployments`),
+  })
+  .superRefine((data, ctx) => {
+    if (data.entryDate > new Date().toISOString().slice(0, 10)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['entryDate'],
+        message: 'Entry date cannot be in the future',
+      });
+    }
+
+    if (data.separationDate && data.separationDate < data.entryDate) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['separationDate'],
+        message: 'Separation must be after entry',
+      });
+    }
+
+    if (data.dischargeCharacterization && !data.separationDate) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['separationDate'],
+        message: 'Enter the separation date for this discharge',
+      });
+    }
+
+    // Deployments outside the period would skew presumptive eligibility
+    data.deployments.forEach((deployment, index) => {
+      if (deployment.start < data.entryDate) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['deployments', index, 'start'],
+          message: 'Deployment must start after entering service',
+        });
+      }
+      if (
+        data.separationDate &&
+        (deployment.start > data.separationDate ||
+          !deployment.end ||
+          deployment.end > data.separationDate)
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['deployments', index, 'end'],
+          message: 'Deployment must end by separation',
+        });
+      }
+    });
+  });
+
 // =================================
 // CONTACT FORM VALIDATION SCHEMAS
 // =================================
@@ -202,7 +794,13 @@ export const nexusContactFormSchema = z.object({
   phone: phoneSchema,
   service: z
     .string()
-    .min(1, 'Please select a service'),
+    .min(1, 'Please select a service')
+    .refine(
+      service =>
+        service === '' ||
+        SERVICE_OPTIONS.some(option => option.label === service),
+      'Please select a valid service'
+    ),
   otherService: z
     .string()
     .max(200, 'Service description is too long')
@@ -215,10 +813,10 @@ export const nexusContactFormSchema = z.object({
     .string()
     .max(2000, 'Message is too long')
     .optional(),
-  urgency: z.enum(['standard', 'expedited', 'urgent'] as const).default('standard'),
+  urgency: z.enum(CASE_URGENCIES).default('standard'),
 }).refine(data => {
   // If "Other" service is selected, otherService must be provided
-  if (data.service === 'Other (please specify)' && (!data.otherService || data.otherService.trim() === '')) {
+  if (data.service === OTHER_SERVICE_LABEL && (!data.otherService || data.otherService.trim() === '')) {
     return false;
   }
   return true;
@@ -227,6 +825,56 @@ export const nexusContactFormSchema = z.object({
   path: ['otherService'],
 });
 
+// =================================
+// LEAD VALIDATION SCHEMAS
+// =================================
+
+/**
+ * Statuses staff can set from the inbox; conversion has its own action
+ */
+export const leadStatusUpdateSchema = z.object({
+  status: z.enum(LEAD_STATUSES).refine(status => status !== 'converted', {
+    message: 'Convert the lead to mark it converted',
+  }),
+});
+
+export const leadNoteSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Note cannot be empty')
+    .max(5000, 'Note is too long'),
+});
+
+// The existing account staff confirmed belongs to the veteran, if any
+export const leadConversionSchema = z.object({
+  linkToUserId: z.string().uuid('Invalid account').optional(),
+});
+
+// =================================
+// WEBHOOK VALIDATION SCHEMAS
+// =================================
+
+export const webhookSubscriptionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name is too long'),
+  url: z
+    .string()
+    .trim()
+    .url('Please enter a valid URL')
+    .max(2048, 'URL is too long')
+    .refine(url => url.startsWith('https://'), {
+      message: 'Webhook URLs must use HTTPS',
+    }),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, 'Choose at least one event'),
+  active: z.boolean().default(true),
+});
+
 // =================================
 // SEARCH AND FILTER SCHEMAS
 // =================================
@@ -258,11 +906,16 @@ export const filterSchema = z.object({
 // FILE UPLOAD VALIDATION SCHEMAS
 // =================================
 
+const DEFAULT_MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Claim documents may pass a category to use its size limit instead of
+// the 10MB default
 export const fileUploadSchema = z.object({
+  category: z.enum(DOCUMENT_CATEGORIES).optional(),
   files: z
     .array(z.object({
       name: z.string().min(1, 'Filename is required'),
-      size: z.number().max(10 * 1024 * 1024, 'File size must be less than 10MB'),
+      size: z.number(),
       type: z.string().refine(
         type => [
           'image/jpeg',
@@ -280,6 +933,20 @@ export const fileUploadSchema = z.object({
     }))
     .min(1, 'At least one file is required')
     .max(10, 'Maximum 10 files allowed'),
+}).superRefine((data, ctx) => {
+  const maxSize = data.category
+    ? DOCUMENT_CATEGORY_SIZE_LIMITS[data.category]
+    : DEFAULT_MAX_UPLOAD_SIZE;
+
+  data.files.forEach((file, index) => {
+    if (file.size > maxSize) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['files', index, 'size'],
+        message: `File size must be less than ${formatFileSize(maxSize)}`,
+      });
+    }
+  });
 });
 
 // =================================
@@ -288,7 +955,7 @@ export const fileUploadSchema = z.object({
 
 export const userRoleUpdateSchema = z.object({
   userId: z.string().uuid('Invalid user ID'),
-  role: z.enum(['user', 'moderator', 'admin'] as const),
+  role: z.enum(['user', 'moderator', 'reviewer', 'admin'] as const),
 });
 
 export const bulkActionSchema = z.object({
@@ -334,9 +1001,36 @@ export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
 export type ClaimSubmissionData = z.infer<typeof claimSubmissionSchema>;
 export type ClaimUpdateData = z.infer<typeof claimUpdateSchema>;
 export type ClaimCommentData = z.infer<typeof claimCommentSchema>;
+export type ClaimDocumentUploadData = z.infer<typeof claimDocumentUploadSchema>;
+export type ClaimDocumentUploadSessionData = z.infer<
+  typeof claimDocumentUploadSessionSchema
+>;
+export type NexusLetterRequestData = z.infer<typeof nexusLetterRequestSchema>;
+export type LetterDraftContentData = z.infer<typeof letterDraftContentSchema>;
+export type LetterTemplateData = z.infer<typeof letterTemplateSchema>;
+export type LetterDraftCreateData = z.infer<typeof letterDraftCreateSchema>;
+export type LetterDraftSaveData = z.infer<typeof letterDraftSaveSchema>;
+export type QaReviewSubmitData = z.infer<typeof qaReviewSubmitSchema>;
+export type QaReviewDecisionData = z.infer<typeof qaReviewDecisionSchema>;
+export type ProviderProfileData = z.infer<typeof providerProfileSchema>;
+export type ProviderLicenseData = z.infer<typeof providerLicenseSchema>;
+export type ProviderVerificationData = z.infer<
+  typeof providerVerificationSchema
+>;
+export type ProviderAvailabilityData = z.infer<
+  typeof providerAvailabilitySchema
+>;
+export type ClaimAssignmentData = z.infer<typeof claimAssignmentSchema>;
+export type VeteranIntakeData = z.infer<typeof veteranIntakeSchema>;
+export type IntakeDraftSaveData = z.infer<typeof intakeDraftSaveSchema>;
+export type ServicePeriodData = z.infer<typeof servicePeriodSchema>;
 
 export type ContactFormData = z.infer<typeof contactFormSchema>;
 export type NexusContactFormData = z.infer<typeof nexusContactFormSchema>;
+export type LeadStatusUpdateData = z.infer<typeof leadStatusUpdateSchema>;
+export type LeadNoteData = z.infer<typeof leadNoteSchema>;
+export type LeadConversionData = z.infer<typeof leadConversionSchema>;
+export type WebhookSubscriptionData = z.infer<typeof webhookSubscriptionSchema>;
 export type SearchData = z.infer<typeof searchSchema>;
 export type FilterData = z.infer<typeof filterSchema>;
 export type FileUploadData = z.infer<typeof fileUploadSchema>;
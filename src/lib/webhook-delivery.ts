@@ -0,0 +1,175 @@
+/**
+ * Webhook Delivery
+ * Signs and sends queued webhook deliveries, recording each attempt and
+ * retrying with backoff (see lib/webhooks). Payloads are signed with
+ * HMAC-SHA256 as for Discourse SSO.
+ */
+
+import { webhookHelpers } from './database-helpers';
+import type { Json } from './database.types';
+import { generateHMAC } from './discourse';
+import type { WebhookDelivery, WebhookSubscription } from './supabase';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_PING_EVENT,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  getSignedContent,
+  getWebhookAttemptUpdate,
+  type WebhookAttemptResult,
+  type WebhookPayload,
+} from './webhooks';
+
+/**
+ * How long to wait for a partner endpoint to respond
+ */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * How long a dispatcher holds a delivery while sending it
+ */
+const SEND_LEASE_MINUTES = 5;
+
+/**
+ * `sha256=<hex>` signature of a delivery body sent at `timestamp`
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return `sha256=${generateHMAC(getSignedContent(timestamp, body), secret)}`;
+}
+
+/**
+ * POST a delivery to its subscription's endpoint
+ */
+export async function sendWebhook(
+  subscription: Pick<WebhookSubscription, 'url' | 'secret'>,
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'payload'>,
+  now: Date = new Date()
+): Promise<WebhookAttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NexusLetters-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhook(
+          subscription.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    const text = await response.text();
+
+    return response.ok
+      ? { delivered: true, status: response.status, body: text }
+      : {
+          delivered: false,
+          status: response.status,
+          error: `Endpoint responded with ${response.status}`,
+          body: text,
+        };
+  } catch (error) {
+    return {
+      delivered: false,
+      status: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Send one delivery and record the attempt
+ */
+export async function deliverWebhook(
+  delivery: WebhookDelivery,
+  subscription: Pick<WebhookSubscription, 'url' | 'secret'>,
+  now: Date = new Date()
+): Promise<WebhookDelivery> {
+  const result = await sendWebhook(subscription, delivery, now);
+
+  if (!result.delivered) {
+    console.warn('Webhook delivery failed:', {
+      deliveryId: delivery.id,
+      event: delivery.event,
+      attempt: delivery.attempts + 1,
+      error: result.error,
+    });
+  }
+
+  return webhookHelpers.recordAttempt(
+    delivery.id,
+    getWebhookAttemptUpdate(delivery, result, now)
+  );
+}
+
+/**
+ * Send every queued delivery that is due. Deliveries to subscriptions
+ * that have since been paused wait until they are resumed.
+ */
+export async function dispatchPendingWebhooks(
+  limit: number = 50,
+  now: Date = new Date()
+): Promise<WebhookDelivery[]> {
+  const due = await webhookHelpers.getDueDeliveries(limit, now);
+  const results: WebhookDelivery[] = [];
+
+  for (const { subscription, ...delivery } of due) {
+    if (!subscription?.active) continue;
+
+    const leased = await webhookHelpers.leaseDelivery(
+      delivery,
+      new Date(now.getTime() + SEND_LEASE_MINUTES * 60000)
+    );
+    if (!leased) continue;
+
+    results.push(await deliverWebhook(leased, subscription, now));
+  }
+
+  return results;
+}
+
+/**
+ * Send a test ping to a subscription straight away. A failed ping is
+ * recorded but not retried.
+ */
+export async function pingWebhook(
+  subscription: WebhookSubscription,
+  now: Date = new Date()
+): Promise<WebhookDelivery> {
+  const id = crypto.randomUUID();
+  const payload: WebhookPayload = {
+    id,
+    event: WEBHOOK_PING_EVENT,
+    occurred_at: now.toISOString(),
+    claim_id: null,
+    claim_status: null,
+  };
+
+  const delivery = await webhookHelpers.createDelivery({
+    id,
+    subscription_id: subscription.id,
+    event: WEBHOOK_PING_EVENT,
+    payload: payload as unknown as Json,
+    next_attempt_at: null,
+  });
+  const result = await sendWebhook(subscription, delivery, now);
+
+  return webhookHelpers.recordAttempt(delivery.id, {
+    ...getWebhookAttemptUpdate(delivery, result, now),
+    ...(!result.delivered && { status: 'failed', next_attempt_at: null }),
+  });
+}
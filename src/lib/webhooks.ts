@@ -0,0 +1,164 @@
+/**
+ * Webhooks
+ * Outbound webhooks for partners (VSOs, referring attorneys). Claim
+ * activity_log entries are queued as deliveries to the subscriptions
+ * listening for them, then signed and sent by the job worker (see
+ * lib/webhook-delivery).
+ */
+
+import { Constants } from './database.types';
+import type {
+  ActivityType,
+  ClaimStatus,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryUpdate,
+} from './supabase';
+
+// =================================
+// EVENTS
+// =================================
+
+/**
+ * Claim lifecycle events partners can subscribe to
+ */
+export const WEBHOOK_EVENTS = [
+  'claim_submitted',
+  'status_changed',
+  'assignment_changed',
+  'qa_submitted',
+  'qa_approved',
+  'qa_changes_requested',
+  'sla_escalated',
+] as const satisfies readonly ActivityType[];
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  claim_submitted: 'Claim submitted',
+  status_changed: 'Status changed',
+  assignment_changed: 'Assignment changed',
+  qa_submitted: 'Submitted for QA',
+  qa_approved: 'QA approved',
+  qa_changes_requested: 'QA changes requested',
+  sla_escalated: 'SLA escalated',
+};
+
+/**
+ * Event sent by the test-ping action
+ */
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export const WEBHOOK_DELIVERY_STATUSES =
+  Constants.public.Enums.webhook_delivery_status;
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<
+  WebhookDeliveryStatus,
+  string
+> = {
+  pending: 'Pending',
+  delivered: 'Delivered',
+  failed: 'Failed',
+};
+
+/**
+ * Body of every delivery. Subscriptions aren't limited to particular
+ * claims, so this stays at IDs and status; nothing about the veteran.
+ */
+export interface WebhookPayload {
+  /** The activity_log entry, or the delivery for pings */
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_PING_EVENT;
+  occurred_at: string;
+  claim_id: string | null;
+  /** The claim's status once the event happened; null for pings */
+  claim_status: ClaimStatus | null;
+}
+
+/**
+ * A new signing secret, shown to the partner when they subscribe
+ */
+export function createWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// =================================
+// SIGNATURES
+// =================================
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * What the signature covers: the Unix timestamp header and the raw body,
+ * so receivers can reject replayed deliveries
+ */
+export function getSignedContent(timestamp: number, body: string): string {
+  return `${timestamp}.${body}`;
+}
+
+// =================================
+// RETRIES
+// =================================
+
+/**
+ * Minutes to wait before each retry; a delivery that fails once more
+ * after the last delay is marked failed
+ */
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720] as const;
+
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * When to try again after `attempts` failed attempts, or null to give up
+ */
+export function getNextWebhookAttemptAt(
+  attempts: number,
+  now: Date = new Date()
+): Date | null {
+  const delay = WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay * 60000);
+}
+
+export type WebhookAttemptResult =
+  | { delivered: true; status: number; body: string }
+  | { delivered: false; status: number | null; error: string; body?: string };
+
+/**
+ * The `webhook_deliveries` update recording an attempt. Any 2xx response
+ * counts as delivered.
+ */
+export function getWebhookAttemptUpdate(
+  delivery: Pick<WebhookDelivery, 'attempts'>,
+  result: WebhookAttemptResult,
+  now: Date = new Date()
+): WebhookDeliveryUpdate {
+  const attempts = delivery.attempts + 1;
+  const response = {
+    attempts,
+    response_status: result.status,
+    response_body: result.body?.slice(0, 1000) ?? null,
+  };
+
+  if (result.delivered) {
+    return {
+      ...response,
+      status: 'delivered',
+      last_error: null,
+      next_attempt_at: null,
+      delivered_at: now.toISOString(),
+    };
+  }
+
+  const nextAttemptAt = getNextWebhookAttemptAt(attempts, now);
+
+  return {
+    ...response,
+    status: nextAttemptAt ? 'pending' : 'failed',
+    last_error: result.error.slice(0, 1000),
+    next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * Weekly Digest
+ * Weekly summaries for users who turned on weeklyDigest: status changes on
+ * their cases, records we are still waiting for, due dates coming up on
+ * cases assigned to them and, for admins, overdue cases. Digests are
+ * compiled from one snapshot of activity and sent through the
+ * notification pipeline.
+ */
+
+import { addCalendarDays, toBusinessDate } from './business-days';
+import { SLA_STATE_LABELS, getSlaStatus, type SlaStatus } from './case-sla';
+import { CLAIM_STATUS_LABELS } from './claim-workflow';
+import { digestHelpers } from './database-helpers';
+import {
+  renderEmail,
+  type EmailTemplateData,
+  type RenderedEmail,
+} from './email-templates';
+import { notifyUser, type NotificationInput } from './notification-dispatcher';
+import { isVeteranVisibleStatus } from './notifications';
+import type { Claim, ClaimStatusHistory, User } from './supabase';
+
+// =================================
+// TYPES
+// =================================
+
+/**
+ * A week of business dates; the period ends before `end`
+ */
+export interface DigestPeriod {
+  start: string;
+  end: string;
+}
+
+export type DigestClaim = Pick<
+  Claim,
+  | 'id'
+  | 'claim_number'
+  | 'title'
+  | 'status'
+  | 'due_date'
+  | 'resolved_at'
+  | 'urgency'
+  | 'claim_type'
+  | 'user_id'
+  | 'assigned_to'
+>;
+
+export interface DigestStatusChange extends Pick<
+  ClaimStatusHistory,
+  'claim_id' | 'from_status' | 'to_status' | 'created_at'
+> {
+  claim: Pick<
+    Claim,
+    'claim_number' | 'title' | 'user_id' | 'assigned_to'
+  > | null;
+}
+
+/**
+ * Everything a run needs, loaded once for all recipients
+ */
+export interface DigestActivity {
+  /** Cases not yet delivered, closed or cancelled */
+  openClaims: DigestClaim[];
+  /** Status changes during (at least) the digest period */
+  statusChanges: DigestStatusChange[];
+}
+
+export type DigestRecipient = Pick<
+  User,
+  'id' | 'email' | 'full_name' | 'role' | 'preferences'
+>;
+
+export type DigestSectionKind =
+  | 'status_changes'
+  | 'document_requests'
+  | 'upcoming_due_dates'
+  | 'sla_breaches';
+
+export interface DigestItem {
+  claim_number: string;
+  title: string;
+  detail: string;
+}
+
+export interface DigestSection {
+  kind: DigestSectionKind;
+  title: string;
+  items: DigestItem[];
+}
+
+export interface WeeklyDigest {
+  period: DigestPeriod;
+  /** Sections with something to report, in display order */
+  sections: DigestSection[];
+}
+
+export const DIGEST_SECTION_TITLES: Record<DigestSectionKind, string> = {
+  status_changes: 'Case status changes',
+  document_requests: 'Records we are waiting for',
+  upcoming_due_dates: 'Due in the next week',
+  sla_breaches: 'Overdue cases',
+};
+
+const DIGEST_SECTION_NOUNS: Record<DigestSectionKind, [string, string]> = {
+  status_changes: ['status change', 'status changes'],
+  document_requests: ['records request', 'records requests'],
+  upcoming_due_dates: ['upcoming due date', 'upcoming due dates'],
+  sla_breaches: ['overdue case', 'overdue cases'],
+};
+
+// =================================
+// PERIOD
+// =================================
+
+export const DIGEST_PERIOD_DAYS = 7;
+
+/**
+ * The last full week, Monday to Sunday in the business time zone, before
+ * `now`. Every run in the same week covers the same period.
+ */
+export function getDigestPeriod(now: Date = new Date()): DigestPeriod {
+  const today = toBusinessDate(now);
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const end = addCalendarDays(today, -((weekday + 6) % 7));
+
+  return { start: addCalendarDays(end, -DIGEST_PERIOD_DAYS), end };
+}
+
+const formatDay = (date: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(`${date.slice(0, 10)}T00:00:00Z`));
+
+/**
+ * e.g. "Oct 12 – Oct 18"
+ */
+export function formatDigestPeriod(period: DigestPeriod): string {
+  return `${formatDay(period.start)} – ${formatDay(addCalendarDays(period.end, -1))}`;
+}
+
+// =================================
+// COMPILING
+// =================================
+
+const byDueDate = (a: { sla: SlaStatus }, b: { sla: SlaStatus }) =>
+  a.sla.dueDate.localeCompare(b.sla.dueDate);
+
+/**
+ * A recipient's digest for the week before `now`. Sections with nothing
+ * to report are left out.
+ */
+export function compileDigest(
+  recipient: Pick<DigestRecipient, 'id' | 'role'>,
+  activity: DigestActivity,
+  now: Date = new Date()
+): WeeklyDigest {
+  const period = getDigestPeriod(now);
+  const today = toBusinessDate(now);
+  const dueBefore = addCalendarDays(today, DIGEST_PERIOD_DAYS);
+
+  const statusChanges = activity.statusChanges
+    .flatMap(change => {
+      const { claim, created_at } = change;
+      if (!claim || !created_at) return [];
+
+      // Staff see every step on their cases; veterans only the statuses
+      // they are notified about
+      const isAssigned = claim.assigned_to === recipient.id;
+      if (claim.user_id !== recipient.id && !isAssigned) return [];
+      if (!isAssigned && !isVeteranVisibleStatus(change.to_status)) return [];
+
+      const date = toBusinessDate(new Date(created_at));
+      return date >= period.start && date < period.end
+        ? [{ claim, created_at, date, to_status: change.to_status }]
+        : [];
+    })
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(({ claim, date, to_status }) => ({
+      claim_number: claim.claim_number,
+      title: claim.title,
+      detail: `Moved to ${CLAIM_STATUS_LABELS[to_status]} on ${formatDay(date)}`,
+    }));
+
+  const documentRequests = activity.openClaims
+    .filter(
+      claim =>
+        claim.user_id === recipient.id && claim.status === 'records_requested'
+    )
+    .map(claim => ({
+      claim_number: claim.claim_number,
+      title: claim.title,
+      detail: 'Upload your medical and service records from your dashboard',
+    }));
+
+  const withSla = activity.openClaims.flatMap(claim => {
+    const sla = getSlaStatus(claim, now);
+    return sla ? [{ claim, sla }] : [];
+  });
+
+  const upcomingDueDates = withSla
+    .filter(
+      ({ claim, sla }) =>
+        claim.assigned_to === recipient.id &&
+        (sla.state === 'on_track' || sla.state === 'at_risk') &&
+        sla.dueDate < dueBefore
+    )
+    .sort(byDueDate)
+    .map(({ claim, sla }) => ({
+      claim_number: claim.claim_number,
+      title: claim.title,
+      detail: `Due ${formatDay(sla.dueDate)} (${SLA_STATE_LABELS[sla.state]})`,
+    }));
+
+  const slaBreaches =
+    recipient.role === 'admin'
+      ? withSla
+          .filter(({ sla }) => sla.state === 'breached')
+          .sort(byDueDate)
+          .map(({ claim, sla }) => {
+            const overdue = -sla.remainingBusinessDays;
+            return {
+              claim_number: claim.claim_number,
+              title: claim.title,
+              detail: `Due ${formatDay(sla.dueDate)}, ${overdue} business ${overdue === 1 ? 'day' : 'days'} overdue`,
+            };
+          })
+      : [];
+
+  const items: Record<DigestSectionKind, DigestItem[]> = {
+    status_changes: statusChanges,
+    document_requests: documentRequests,
+    upcoming_due_dates: upcomingDueDates,
+    sla_breaches: slaBreaches,
+  };
+
+  return {
+    period,
+    sections: (Object.keys(items) as DigestSectionKind[])
+      .filter(kind => items[kind].length > 0)
+      .map(kind => ({
+        kind,
+        title: DIGEST_SECTION_TITLES[kind],
+        items: items[kind],
+      })),
+  };
+}
+
+/**
+ * One-line summary, e.g. "2 status changes, 1 records request"
+ */
+export function summarizeDigest(digest: WeeklyDigest): string {
+  return digest.sections
+    .map(section => {
+      const [one, many] = DIGEST_SECTION_NOUNS[section.kind];
+      return `${section.items.length} ${section.items.length === 1 ? one : many}`;
+    })
+    .join(', ');
+}
+
+export function getDigestEmailData(
+  recipient: Pick<DigestRecipient, 'full_name'>,
+  digest: WeeklyDigest
+): EmailTemplateData['weekly_digest'] {
+  return {
+    name: recipient.full_name,
+    period_label: formatDigestPeriod(digest.period),
+    sections: digest.sections,
+  };
+}
+
+/**
+ * The notification (and email) a digest is sent as
+ */
+export function getDigestNotification(
+  recipient: Pick<DigestRecipient, 'full_name'>,
+  digest: WeeklyDigest
+): NotificationInput<'weekly_digest'> {
+  return {
+    category: 'weekly_digest',
+    title: `Your weekly summary for ${formatDigestPeriod(digest.period)}`,
+    body: summarizeDigest(digest),
+    link: '/dashboard',
+    email: {
+      template: 'weekly_digest',
+      data: getDigestEmailData(recipient, digest),
+    },
+  };
+}
+
+// =================================
+// SENDING
+// =================================
+
+export interface DigestRunResult {
+  period: DigestPeriod;
+  recipients: number;
+  sent: number;
+  /** Nothing to report, or already sent this week */
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Compile and send this week's digests. Each digest is recorded before it
+ * is sent, so a repeated run skips users who already have one; a digest
+ * that fails to send is not retried.
+ */
+export async function sendWeeklyDigests(
+  now: Date = new Date()
+): Promise<DigestRunResult> {
+  const period = getDigestPeriod(now);
+  const [recipients, activity] = await Promise.all([
+    digestHelpers.getRecipients(),
+    digestHelpers.getActivity(period),
+  ]);
+
+  const result: DigestRunResult = {
+    period,
+    recipients: recipients.length,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const recipient of recipients) {
+    const digest = compileDigest(recipient, activity, now);
+
+    if (digest.sections.length === 0) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const record = await digestHelpers.record(recipient.id, digest);
+
+      if (!record) {
+        result.skipped++;
+        continue;
+      }
+
+      await notifyUser(recipient.id, getDigestNotification(recipient, digest));
+      result.sent++;
+    } catch (error) {
+      console.error(`Weekly digest failed for user ${recipient.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+export interface DigestPreview {
+  recipient: DigestRecipient;
+  digest: WeeklyDigest;
+  /** The email as it would be sent; null when there is nothing to report */
+  email: RenderedEmail | null;
+}
+
+/**
+ * A user's digest for the week before `now`, without sending or recording
+ * it. Works whether or not the user has weeklyDigest on.
+ */
+export async function previewWeeklyDigest(
+  userId: string,
+  now: Date = new Date()
+): Promise<DigestPreview | null> {
+  const recipient = await digestHelpers.getRecipient(userId);
+  if (!recipient) return null;
+
+  const activity = await digestHelpers.getActivity(getDigestPeriod(now));
+  const digest = compileDigest(recipient, activity, now);
+  const email =
+    digest.sections.length > 0
+      ? await renderEmail(
+          'weekly_digest',
+          getDigestEmailData(recipient, digest)
+        )
+      : null;
+
+  return { recipient, digest, email };
+}
@@ -65,8 +65,8 @@ export const supabaseHandlers = [
           claim_number: 'CLM-2024-001',
           title: 'Test Claim 1',
           description: 'Test claim description',
-          claim_type: 'disability',
-          status: 'pending',
+          claim_type: 'comprehensive_letter',
+          status: 'intake',
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z',
         },
@@ -81,7 +81,7 @@ export const supabaseHandlers = [
         id: 'new-claim-id',
         claim_number: 'CLM-2024-NEW',
         ...data,
-        status: 'pending',
+        status: 'intake',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       },
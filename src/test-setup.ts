@@ -103,7 +103,7 @@ vi.mock('@/lib/database-helpers', () => ({
         claim_number: 'CLM-001',
         title: 'Test Claim',
         description: 'Test claim description',
-        status: 'pending',
+        status: 'intake',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -111,8 +111,19 @@ vi.mock('@/lib/database-helpers', () => ({
     async getUserClaims() {
       return { claims: [], total: 0 };
     },
+    async getStatusHistory() {
+      return [];
+    },
     async getStats() {
-      return { total: 0, pending: 0, approved: 0, rejected: 0, underReview: 0 };
+      return {
+        total: 0,
+        open: 0,
+        onHold: 0,
+        delivered: 0,
+        closed: 0,
+        cancelled: 0,
+        byStatus: {},
+      };
     },
   },
   DatabaseError: class DatabaseError extends Error {
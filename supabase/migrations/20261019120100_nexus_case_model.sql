@@ -0,0 +1,73 @@
+-- =================================
+-- NEXUS LETTER CASE MODEL
+-- =================================
+-- Created: 2026-10-19
+-- Version: 005
+-- Description: Replace generic e-commerce claim types with nexus letter
+--              service types and add case fields captured by intake/contact
+
+-- =================================
+-- CLAIM TYPE (SERVICE) ENUM
+-- =================================
+
+-- Swap the enum out in place so existing rows, indexes and policies survive
+ALTER TYPE claim_type RENAME TO claim_type_old;
+
+CREATE TYPE claim_type AS ENUM (
+  'consultation',
+  'comprehensive_letter',
+  'ime',
+  'review_revision',
+  'expedited',
+  'other'
+);
+
+ALTER TABLE public.claims
+  ALTER COLUMN claim_type TYPE claim_type
+  USING (
+    CASE claim_type::TEXT
+      WHEN 'compensation' THEN 'comprehensive_letter'
+      ELSE 'other'
+    END
+  )::claim_type;
+
+DROP TYPE claim_type_old;
+
+-- =================================
+-- CASE URGENCY
+-- =================================
+
+-- Mirrors the urgency options offered on the contact form
+CREATE TYPE case_urgency AS ENUM ('standard', 'expedited', 'urgent');
+
+ALTER TABLE public.claims
+  ADD COLUMN condition VARCHAR(200),
+  ADD COLUMN urgency case_urgency DEFAULT 'standard';
+
+CREATE INDEX idx_claims_urgency ON public.claims(urgency);
+
+-- Include the new case fields in the submission audit entry
+CREATE OR REPLACE FUNCTION log_claim_creation()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM log_activity(
+    NEW.user_id,
+    'claim_submitted',
+    'claim',
+    NEW.id,
+    'Claim submitted: ' || NEW.title,
+    jsonb_build_object(
+      'claim_number', NEW.claim_number,
+      'claim_type', NEW.claim_type,
+      'condition', NEW.condition,
+      'urgency', NEW.urgency,
+      'amount', NEW.amount
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.claims IS 'Nexus letter cases requested by veterans';
+COMMENT ON COLUMN public.claims.claim_type IS 'Service ordered for the case (see /services)';
+COMMENT ON COLUMN public.claims.condition IS 'Medical condition/disability the letter addresses';
@@ -0,0 +1,292 @@
+-- =================================
+-- CLAIM WORKFLOW STATE MACHINE
+-- =================================
+-- Created: 2026-10-19
+-- Version: 006
+-- Description: Replace the four-value claim status with the nexus letter
+--              case lifecycle, enforce legal transitions (with reasons where
+--              required) and record every transition in claim_status_history
+
+-- =================================
+-- CLAIM STATUS ENUM
+-- =================================
+
+-- Policies and defaults that reference the old enum must be dropped first
+DROP POLICY IF EXISTS "Users can update own pending claims" ON public.claims;
+ALTER TABLE public.claims ALTER COLUMN status DROP DEFAULT;
+
+ALTER TYPE claim_status RENAME TO claim_status_old;
+
+CREATE TYPE claim_status AS ENUM (
+  'intake',
+  'records_requested',
+  'records_received',
+  'physician_review',
+  'drafting',
+  'qa_review',
+  'delivered',
+  'closed',
+  'on_hold',
+  'cancelled'
+);
+
+ALTER TABLE public.claims
+  ALTER COLUMN status TYPE claim_status
+  USING (
+    CASE status::TEXT
+      WHEN 'pending' THEN 'intake'
+      WHEN 'under_review' THEN 'physician_review'
+      WHEN 'approved' THEN 'delivered'
+      WHEN 'rejected' THEN 'cancelled'
+    END
+  )::claim_status;
+
+ALTER TABLE public.claims ALTER COLUMN status SET DEFAULT 'intake';
+
+DROP TYPE claim_status_old;
+
+-- Status the case was put on hold from; it may only resume to that status
+ALTER TABLE public.claims ADD COLUMN held_from_status claim_status;
+
+-- Veterans may still edit their case until work on it has started
+CREATE POLICY "Users can update own intake claims"
+  ON public.claims FOR UPDATE
+  USING (user_id = auth.uid() AND status = 'intake');
+
+-- =================================
+-- TRANSITION TABLE
+-- =================================
+
+-- Mirrors CLAIM_TRANSITIONS in src/lib/claim-workflow.ts. Moves out of
+-- on_hold other than cancelling are further limited to the status the
+-- case was held from (claims.held_from_status)
+CREATE TABLE public.claim_status_transitions (
+  from_status claim_status NOT NULL,
+  to_status claim_status NOT NULL,
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.claim_status_transitions (from_status, to_status, requires_reason) VALUES
+  ('intake', 'records_requested', false),
+  ('intake', 'physician_review', false),
+  ('intake', 'on_hold', true),
+  ('intake', 'cancelled', true),
+  ('records_requested', 'records_received', false),
+  ('records_requested', 'on_hold', true),
+  ('records_requested', 'cancelled', true),
+  ('records_received', 'physician_review', false),
+  ('records_received', 'records_requested', true),
+  ('records_received', 'on_hold', true),
+  ('records_received', 'cancelled', true),
+  ('physician_review', 'drafting', false),
+  ('physician_review', 'records_requested', true),
+  ('physician_review', 'on_hold', true),
+  ('physician_review', 'cancelled', true),
+  ('drafting', 'qa_review', false),
+  ('drafting', 'on_hold', true),
+  ('drafting', 'cancelled', true),
+  ('qa_review', 'delivered', false),
+  ('qa_review', 'drafting', true),
+  ('qa_review', 'on_hold', true),
+  ('delivered', 'closed', false),
+  ('delivered', 'drafting', true),
+  ('on_hold', 'intake', false),
+  ('on_hold', 'records_requested', false),
+  ('on_hold', 'records_received', false),
+  ('on_hold', 'physician_review', false),
+  ('on_hold', 'drafting', false),
+  ('on_hold', 'qa_review', false),
+  ('on_hold', 'cancelled', true);
+
+ALTER TABLE public.claim_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view claim status transitions"
+  ON public.claim_status_transitions FOR SELECT
+  USING (true);
+
+-- =================================
+-- STATUS HISTORY
+-- =================================
+
+CREATE TABLE public.claim_status_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  from_status claim_status,
+  to_status claim_status NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  activity_log_id UUID REFERENCES public.activity_log(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_claim_status_history_claim_id ON public.claim_status_history(claim_id);
+CREATE INDEX idx_claim_status_history_created_at ON public.claim_status_history(created_at DESC);
+
+ALTER TABLE public.claim_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own claim status history"
+  ON public.claim_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_status_history.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and moderators can view all claim status history"
+  ON public.claim_status_history FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.claim_status_history FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.claim_status_history TO service_role;
+GRANT SELECT ON public.claim_status_transitions TO anon, authenticated;
+
+-- =================================
+-- TRANSITION ENFORCEMENT
+-- =================================
+
+-- Reject illegal moves before they are written. The reason is passed in
+-- through the transaction-local app.claim_status_reason setting.
+CREATE OR REPLACE FUNCTION enforce_claim_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule RECORD;
+  transition_reason TEXT;
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.claim_status_transitions
+  WHERE from_status = COALESCE(OLD.status, 'intake')
+    AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Illegal claim status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  transition_reason := NULLIF(TRIM(current_setting('app.claim_status_reason', true)), '');
+
+  IF rule.requires_reason AND transition_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to move claim from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A held case resumes where it left off, so a hold can't skip steps
+  IF OLD.status = 'on_hold' AND NEW.status <> 'cancelled'
+     AND NEW.status IS DISTINCT FROM OLD.held_from_status THEN
+    RAISE EXCEPTION 'Claim on hold can only resume to %', COALESCE(OLD.held_from_status::TEXT, 'cancelled')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.held_from_status := CASE WHEN NEW.status = 'on_hold' THEN OLD.status END;
+
+  IF NEW.status IN ('delivered', 'closed', 'cancelled') THEN
+    NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+  ELSE
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER claim_status_transition_check
+  BEFORE UPDATE OF status ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_claim_status_transition();
+
+-- Log every status change and keep a history row linked to the log entry
+CREATE OR REPLACE FUNCTION log_claim_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  log_id UUID;
+  transition_reason TEXT;
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    transition_reason := NULLIF(TRIM(current_setting('app.claim_status_reason', true)), '');
+
+    log_id := log_activity(
+      NEW.user_id,
+      'status_changed',
+      'claim',
+      NEW.id,
+      'Claim status changed from ' || OLD.status || ' to ' || NEW.status,
+      jsonb_build_object(
+        'claim_number', NEW.claim_number,
+        'old_status', OLD.status,
+        'new_status', NEW.status,
+        'reason', transition_reason,
+        'changed_by', auth.uid(),
+        'assigned_to', NEW.assigned_to
+      )
+    );
+
+    INSERT INTO public.claim_status_history (
+      claim_id,
+      from_status,
+      to_status,
+      reason,
+      changed_by,
+      activity_log_id
+    ) VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      transition_reason,
+      auth.uid(),
+      log_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================
+-- TRANSITION RPC
+-- =================================
+
+-- Single entry point for status changes so the reason reaches the triggers
+CREATE OR REPLACE FUNCTION transition_claim_status(
+  p_claim_id UUID,
+  p_to_status claim_status,
+  p_reason TEXT DEFAULT NULL,
+  p_assigned_to UUID DEFAULT NULL
+) RETURNS public.claims AS $$
+DECLARE
+  updated_claim public.claims;
+BEGIN
+  PERFORM set_config('app.claim_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE public.claims
+  SET
+    status = p_to_status,
+    assigned_to = COALESCE(p_assigned_to, assigned_to),
+    updated_at = NOW()
+  WHERE id = p_claim_id
+  RETURNING * INTO updated_claim;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim % not found', p_claim_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.claim_status_reason', '', true);
+
+  RETURN updated_claim;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.claim_status_transitions IS 'Legal claim status moves; requires_reason marks moves that need a written reason';
+COMMENT ON TABLE public.claim_status_history IS 'One row per claim status change, linked to its activity_log entry';
+COMMENT ON COLUMN public.claims.held_from_status IS 'Status the claim was put on hold from, set while it is on hold; the only status it may resume to';
+COMMENT ON FUNCTION transition_claim_status IS 'Move a claim to a new status, recording the reason in history';
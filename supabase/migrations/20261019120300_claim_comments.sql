@@ -0,0 +1,119 @@
+-- =================================
+-- CLAIM COMMENTS & INTERNAL NOTES
+-- =================================
+-- Created: 2026-10-19
+-- Version: 007
+-- Description: Comment threads on claims. Veterans see public comments on
+--              their own claims; staff additionally see internal notes
+
+CREATE TABLE public.claim_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  is_internal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_claim_comments_claim_id ON public.claim_comments(claim_id, created_at);
+CREATE INDEX idx_claim_comments_author_id ON public.claim_comments(author_id);
+
+CREATE TRIGGER claim_comments_updated_at
+  BEFORE UPDATE ON public.claim_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.claim_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view public comments on own claims"
+  ON public.claim_comments FOR SELECT
+  USING (
+    is_internal = false
+    AND EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_comments.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can comment on own claims"
+  ON public.claim_comments FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND is_internal = false
+    AND EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_comments.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors can edit own comments"
+  ON public.claim_comments FOR UPDATE
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Admins and moderators can view all comments"
+  ON public.claim_comments FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can add comments and notes"
+  ON public.claim_comments FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can delete comments"
+  ON public.claim_comments FOR DELETE
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.claim_comments FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Authors may only reword a comment, not move it to another claim or
+-- change who can see it
+REVOKE UPDATE ON public.claim_comments FROM authenticated;
+GRANT UPDATE (content, updated_at) ON public.claim_comments TO authenticated;
+GRANT ALL ON public.claim_comments TO service_role;
+
+-- =================================
+-- ACTIVITY LOGGING
+-- =================================
+
+CREATE OR REPLACE FUNCTION log_claim_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM log_activity(
+    NEW.author_id,
+    'comment_added',
+    'claim',
+    NEW.claim_id,
+    CASE WHEN NEW.is_internal THEN 'Internal note added' ELSE 'Comment added' END,
+    jsonb_build_object(
+      'comment_id', NEW.id,
+      'is_internal', NEW.is_internal
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claim_comment_log
+  AFTER INSERT ON public.claim_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_claim_comment();
+
+-- =================================
+-- REALTIME
+-- =================================
+
+-- Broadcast inserts/updates so open threads refresh live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.claim_comments;
+
+COMMENT ON TABLE public.claim_comments IS 'Comment threads on claims; is_internal notes are visible to staff only';
@@ -0,0 +1,175 @@
+-- =================================
+-- CLAIM DOCUMENT VAULT
+-- =================================
+-- Created: 2026-10-19
+-- Version: 008
+-- Description: Medical record storage for claims. Files live in the private
+--              claim-documents bucket under {claim_id}/; metadata lives in
+--              claim_documents. Access is scoped per claim by RLS
+
+-- =================================
+-- DOCUMENT CATEGORIES
+-- =================================
+
+CREATE TYPE document_category AS ENUM (
+  'dd214',
+  'service_treatment_records',
+  'va_treatment_records',
+  'private_records',
+  'c_file',
+  'other'
+);
+
+-- =================================
+-- DOCUMENTS TABLE
+-- =================================
+
+CREATE TABLE public.claim_documents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  category document_category NOT NULL DEFAULT 'other',
+  file_name VARCHAR(255) NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_claim_documents_claim_id ON public.claim_documents(claim_id);
+CREATE INDEX idx_claim_documents_category ON public.claim_documents(category);
+
+CREATE TRIGGER claim_documents_updated_at
+  BEFORE UPDATE ON public.claim_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.claim_documents ENABLE ROW LEVEL SECURITY;
+
+-- Uploads go through /api/claims/[claimId]/documents (service role) so the
+-- file can be validated server side; clients only read and delete
+CREATE POLICY "Users can view documents on own claims"
+  ON public.claim_documents FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_documents.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own uploads on own claims"
+  ON public.claim_documents FOR DELETE
+  USING (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_documents.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and moderators can view all documents"
+  ON public.claim_documents FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can delete documents"
+  ON public.claim_documents FOR DELETE
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.claim_documents FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.claim_documents TO service_role;
+
+-- =================================
+-- STORAGE BUCKET
+-- =================================
+
+-- Limits mirror DOCUMENT_UPLOAD_CONFIG in src/lib/file-security.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'claim-documents',
+  'claim-documents',
+  false,
+  10485760,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Object names are {claim_id}/{document_id}-{file_name}
+CREATE OR REPLACE FUNCTION can_access_claim_folder(object_name TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id::TEXT = (storage.foldername(object_name))[1]
+      AND claims.user_id = auth.uid()
+  ) OR is_admin_or_moderator();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Claim participants can read claim documents"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'claim-documents' AND can_access_claim_folder(name));
+
+-- Same rule as deleting the claim_documents row: veterans may only remove
+-- files they uploaded to their own claims. The file is removed before its
+-- row (documentHelpers.delete), so the row is still there to check.
+CREATE POLICY "Uploaders and staff can delete claim documents"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'claim-documents'
+    AND (
+      is_admin_or_moderator()
+      OR EXISTS (
+        SELECT 1 FROM public.claim_documents
+        JOIN public.claims ON claims.id = claim_documents.claim_id
+        WHERE claim_documents.storage_path = storage.objects.name
+          AND claim_documents.uploaded_by = auth.uid()
+          AND claims.user_id = auth.uid()
+      )
+    )
+  );
+
+-- =================================
+-- ACTIVITY LOGGING
+-- =================================
+
+CREATE OR REPLACE FUNCTION log_claim_document_upload()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM log_activity(
+    NEW.uploaded_by,
+    'file_uploaded',
+    'claim',
+    NEW.claim_id,
+    'Document uploaded: ' || NEW.file_name,
+    jsonb_build_object(
+      'document_id', NEW.id,
+      'category', NEW.category,
+      'mime_type', NEW.mime_type,
+      'size_bytes', NEW.size_bytes
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claim_document_upload_log
+  AFTER INSERT ON public.claim_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION log_claim_document_upload();
+
+COMMENT ON TABLE public.claim_documents IS 'Medical records and service documents attached to claims';
+COMMENT ON COLUMN public.claims.attachments IS 'Deprecated: use claim_documents';
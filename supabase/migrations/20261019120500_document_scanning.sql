@@ -0,0 +1,43 @@
+-- =================================
+-- DOCUMENT MALWARE SCANNING
+-- =================================
+-- Created: 2026-10-19
+-- Version: 009
+-- Description: Quarantine uploaded claim documents until a malware scan
+--              passes. Only clean files can be downloaded
+
+CREATE TYPE document_scan_status AS ENUM ('pending', 'clean', 'infected', 'failed');
+
+-- Existing documents were uploaded before scanning existed; the default
+-- quarantines them until they are rescanned
+ALTER TABLE public.claim_documents
+  ADD COLUMN scan_status document_scan_status NOT NULL DEFAULT 'pending',
+  ADD COLUMN scan_signature TEXT,
+  ADD COLUMN scanner VARCHAR(50),
+  ADD COLUMN scanned_at TIMESTAMPTZ;
+
+CREATE INDEX idx_claim_documents_quarantine
+  ON public.claim_documents(scan_status, created_at)
+  WHERE scan_status <> 'clean';
+
+-- =================================
+-- STORAGE ACCESS
+-- =================================
+
+-- Downloads require a clean scan, for staff as well as veterans
+DROP POLICY IF EXISTS "Claim participants can read claim documents" ON storage.objects;
+
+CREATE POLICY "Claim participants can read clean claim documents"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'claim-documents'
+    AND can_access_claim_folder(name)
+    AND EXISTS (
+      SELECT 1 FROM public.claim_documents
+      WHERE claim_documents.storage_path = storage.objects.name
+        AND claim_documents.scan_status = 'clean'
+    )
+  );
+
+COMMENT ON COLUMN public.claim_documents.scan_status IS 'Malware scan state; anything other than clean is quarantined';
+COMMENT ON COLUMN public.claim_documents.scan_signature IS 'Signature name reported by the scanner for infected files';
@@ -0,0 +1,77 @@
+-- =================================
+-- RESUMABLE DOCUMENT UPLOADS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 010
+-- Description: Chunked, resumable uploads for large medical records.
+--              Chunks are staged in the private claim-document-uploads
+--              bucket under {session_id}/ and reassembled server side once
+--              the last chunk arrives
+
+-- =================================
+-- UPLOAD SESSIONS
+-- =================================
+
+CREATE TABLE public.document_upload_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  category document_category NOT NULL DEFAULT 'other',
+  description TEXT,
+  file_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  received_bytes BIGINT NOT NULL DEFAULT 0,
+  document_id UUID REFERENCES public.claim_documents(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '24 hours'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT received_within_size CHECK (received_bytes BETWEEN 0 AND size_bytes)
+);
+
+CREATE INDEX idx_document_upload_sessions_claim_id ON public.document_upload_sessions(claim_id);
+CREATE INDEX idx_document_upload_sessions_expires_at
+  ON public.document_upload_sessions(expires_at)
+  WHERE completed_at IS NULL;
+
+CREATE TRIGGER document_upload_sessions_updated_at
+  BEFORE UPDATE ON public.document_upload_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.document_upload_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are created and advanced by /api/claims/[claimId]/uploads
+-- (service role); uploaders can only see their own
+CREATE POLICY "Users can view own upload sessions"
+  ON public.document_upload_sessions FOR SELECT
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.document_upload_sessions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.document_upload_sessions TO service_role;
+
+-- =================================
+-- STORAGE BUCKETS
+-- =================================
+
+-- Staging area for chunks. No client policies: only the service role
+-- reads and writes here. Limit mirrors UPLOAD_CHUNK_SIZE in
+-- src/lib/resumable-upload.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('claim-document-uploads', 'claim-document-uploads', false, 4194304)
+ON CONFLICT (id) DO NOTHING;
+
+-- Raise the vault limit to the largest per-category limit in
+-- DOCUMENT_CATEGORY_SIZE_LIMITS (src/lib/claim-documents.ts)
+UPDATE storage.buckets
+SET file_size_limit = 524288000
+WHERE id = 'claim-documents';
+
+COMMENT ON TABLE public.document_upload_sessions IS 'In-progress resumable uploads of claim documents';
+COMMENT ON COLUMN public.document_upload_sessions.received_bytes IS 'Upload offset: bytes stored so far, always a whole number of chunks';
@@ -0,0 +1,229 @@
+-- =================================
+-- LETTER TEMPLATES AND DRAFTS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 011
+-- Description: Reusable nexus letter templates per condition and letter
+--              drafts with an immutable version history. Content is the
+--              physician opinion (see PhysicianOpinion in
+--              src/lib/nexus-letter.ts) stored as JSONB
+
+CREATE TYPE service_relationship AS ENUM ('direct', 'secondary', 'aggravation');
+
+-- =================================
+-- TEMPLATES
+-- =================================
+
+CREATE TABLE public.letter_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  condition VARCHAR(200) NOT NULL,
+  relationship service_relationship NOT NULL DEFAULT 'direct',
+  description TEXT,
+  -- Opinion content; strings may contain {{merge.fields}}
+  content JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_letter_templates_condition ON public.letter_templates(condition);
+
+CREATE TRIGGER letter_templates_updated_at
+  BEFORE UPDATE ON public.letter_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.letter_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and moderators can manage letter templates"
+  ON public.letter_templates FOR ALL
+  USING (is_admin_or_moderator())
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.letter_templates FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.letter_templates TO service_role;
+
+-- =================================
+-- DRAFTS
+-- =================================
+
+CREATE TABLE public.letter_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.letter_templates(id) ON DELETE SET NULL,
+  title VARCHAR(200) NOT NULL,
+  current_version INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_letter_drafts_claim_id ON public.letter_drafts(claim_id);
+
+CREATE TRIGGER letter_drafts_updated_at
+  BEFORE UPDATE ON public.letter_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Every save is a new row; versions are never edited or removed
+CREATE TABLE public.letter_draft_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  draft_id UUID NOT NULL REFERENCES public.letter_drafts(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  content JSONB NOT NULL,
+  change_summary TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (draft_id, version)
+);
+
+ALTER TABLE public.letter_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.letter_draft_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and moderators can manage letter drafts"
+  ON public.letter_drafts FOR ALL
+  USING (is_admin_or_moderator())
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can view draft versions"
+  ON public.letter_draft_versions FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can add draft versions"
+  ON public.letter_draft_versions FOR INSERT
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.letter_drafts FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.letter_draft_versions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.letter_drafts TO service_role;
+GRANT ALL ON public.letter_draft_versions TO service_role;
+
+-- =================================
+-- SAVE RPC
+-- =================================
+
+-- Appends the next version and bumps the draft's pointer in one
+-- transaction. p_expected_version guards against overwriting a save made
+-- by someone else since the editor loaded the draft.
+CREATE OR REPLACE FUNCTION save_letter_draft(
+  p_draft_id UUID,
+  p_content JSONB,
+  p_change_summary TEXT DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL
+) RETURNS public.letter_draft_versions AS $$
+DECLARE
+  draft public.letter_drafts;
+  saved public.letter_draft_versions;
+BEGIN
+  SELECT * INTO draft
+  FROM public.letter_drafts
+  WHERE id = p_draft_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Letter draft % not found', p_draft_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_expected_version IS NOT NULL
+     AND p_expected_version <> draft.current_version THEN
+    RAISE EXCEPTION 'Draft was saved by someone else (version % is current)',
+      draft.current_version
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  INSERT INTO public.letter_draft_versions (
+    draft_id, version, content, change_summary, created_by
+  )
+  VALUES (
+    p_draft_id, draft.current_version + 1, p_content, p_change_summary, auth.uid()
+  )
+  RETURNING * INTO saved;
+
+  UPDATE public.letter_drafts
+  SET current_version = saved.version, updated_by = auth.uid()
+  WHERE id = p_draft_id;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =================================
+-- STARTER TEMPLATES
+-- =================================
+
+INSERT INTO public.letter_templates (slug, name, condition, relationship, description, content)
+VALUES
+  (
+    'tinnitus-noise-exposure',
+    'Tinnitus - Military Noise Exposure',
+    'Tinnitus',
+    'direct',
+    'Direct service connection for tinnitus following in-service acoustic trauma',
+    '{
+      "condition": "tinnitus",
+      "likelihood": "at_least_as_likely_as_not",
+      "relationship": "direct",
+      "serviceConnection": "hazardous noise exposure during military service",
+      "recordsReviewed": ["Service treatment records", "DD-214", "VA audiology records"],
+      "rationale": ["{{veteran.full_name}} reports the onset of ringing in the ears during service, with continuous symptoms since. Acoustic trauma is a well-established cause of tinnitus."],
+      "citations": []
+    }'::JSONB
+  ),
+  (
+    'ptsd-in-service-stressor',
+    'PTSD - In-Service Stressor',
+    'Post-traumatic stress disorder (PTSD)',
+    'direct',
+    'Direct service connection for PTSD linked to a corroborated in-service stressor',
+    '{
+      "condition": "post-traumatic stress disorder (PTSD)",
+      "likelihood": "at_least_as_likely_as_not",
+      "relationship": "direct",
+      "serviceConnection": "the in-service stressor described in the record",
+      "recordsReviewed": ["Service treatment records", "Service personnel records", "VA mental health treatment records"],
+      "rationale": ["{{veteran.full_name}} meets the DSM-5 criteria for PTSD, and the symptoms described are consistent with the reported in-service stressor."],
+      "citations": []
+    }'::JSONB
+  ),
+  (
+    'sleep-apnea-secondary-ptsd',
+    'Sleep Apnea - Secondary to PTSD',
+    'Obstructive sleep apnea',
+    'secondary',
+    'Secondary service connection for sleep apnea caused or aggravated by service-connected PTSD',
+    '{
+      "condition": "obstructive sleep apnea",
+      "likelihood": "at_least_as_likely_as_not",
+      "relationship": "secondary",
+      "serviceConnection": "the veteran''s service-connected PTSD",
+      "recordsReviewed": ["Sleep study results", "VA mental health treatment records", "VA rating decision for PTSD"],
+      "rationale": ["Peer-reviewed studies report a markedly higher prevalence of obstructive sleep apnea among veterans with PTSD."],
+      "citations": [{"authors": "Colvonen PJ, Masino T, Drummond SP, Myers US, Angkaw AC, Norman SB", "title": "Obstructive sleep apnea and posttraumatic stress disorder among OEF/OIF/OND veterans", "source": "J Clin Sleep Med", "year": 2015}]
+    }'::JSONB
+  )
+ON CONFLICT (slug) DO NOTHING;
+
+COMMENT ON TABLE public.letter_templates IS 'Reusable nexus letter opinion content per condition';
+COMMENT ON TABLE public.letter_drafts IS 'Nexus letter drafts for a claim; content lives in letter_draft_versions';
+COMMENT ON TABLE public.letter_draft_versions IS 'Immutable version history of letter drafts';
+COMMENT ON FUNCTION save_letter_draft IS 'Append a new version to a letter draft, optionally checking the expected current version';
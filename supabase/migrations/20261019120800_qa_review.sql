@@ -0,0 +1,414 @@
+-- =================================
+-- QUALITY REVIEW GATE
+-- =================================
+-- Created: 2026-10-19
+-- Version: 012
+-- Description: Reviewer role and checklist-based quality review of letter
+--              drafts. A claim can only be delivered once a reviewer other
+--              than the draft's author has approved the current version of
+--              the letter; the approval is recorded in activity_log
+
+-- New enum values can't be used in the transaction that adds them, so
+-- below they only appear inside function bodies
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'reviewer';
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'qa_submitted';
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'qa_approved';
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'qa_changes_requested';
+
+CREATE TYPE qa_review_status AS ENUM (
+  'pending',
+  'approved',
+  'changes_requested',
+  'withdrawn'
+);
+
+CREATE OR REPLACE FUNCTION is_qa_reviewer()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.users
+    WHERE id = auth.uid() AND role::TEXT = 'reviewer'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================
+-- CHECKLIST
+-- =================================
+
+-- Mirrors QA_CHECKLIST in src/lib/qa-review.ts
+CREATE TABLE public.qa_checklist_items (
+  key VARCHAR(50) PRIMARY KEY,
+  label TEXT NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL
+);
+
+INSERT INTO public.qa_checklist_items (key, label, is_required, sort_order) VALUES
+  ('veteran_identity', 'Veteran name and case number match the claim', true, 1),
+  ('condition_matches', 'Condition matches the diagnosis in the records', true, 2),
+  ('likelihood_language', 'Opinion is stated in VA likelihood language', true, 3),
+  ('records_reviewed', 'Every record relied on is listed as reviewed', true, 4),
+  ('rationale_supported', 'Rationale explains the medical reasoning from the records', true, 5),
+  ('citations_verified', 'Cited literature is accurate and relevant', false, 6),
+  ('credentials_complete', 'Physician credentials, license and signature block are complete', true, 7),
+  ('no_placeholders', 'No unfilled merge fields or placeholder text remain', true, 8);
+
+ALTER TABLE public.qa_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view QA checklist items"
+  ON public.qa_checklist_items FOR SELECT
+  USING (true);
+
+GRANT SELECT ON public.qa_checklist_items TO anon, authenticated;
+
+-- =================================
+-- REVIEWS
+-- =================================
+
+-- One row per submission; a requested-changes round ends its row and the
+-- resubmitted draft gets a new one
+CREATE TABLE public.qa_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  draft_id UUID NOT NULL REFERENCES public.letter_drafts(id) ON DELETE CASCADE,
+  draft_version INTEGER NOT NULL,
+  round INTEGER NOT NULL,
+  status qa_review_status NOT NULL DEFAULT 'pending',
+  submitted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewer_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewer_credentials VARCHAR(200),
+  checklist JSONB NOT NULL DEFAULT '{}',
+  comments TEXT,
+  reviewed_at TIMESTAMPTZ,
+  activity_log_id UUID REFERENCES public.activity_log(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (claim_id, round)
+);
+
+CREATE INDEX idx_qa_reviews_claim_id ON public.qa_reviews(claim_id);
+
+-- Reviewer queue
+CREATE INDEX idx_qa_reviews_pending ON public.qa_reviews(submitted_at)
+  WHERE status = 'pending';
+
+CREATE UNIQUE INDEX idx_qa_reviews_one_pending_per_claim
+  ON public.qa_reviews(claim_id)
+  WHERE status = 'pending';
+
+CREATE TRIGGER qa_reviews_updated_at
+  BEFORE UPDATE ON public.qa_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.qa_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through the RPCs below
+CREATE POLICY "Staff and reviewers can view QA reviews"
+  ON public.qa_reviews FOR SELECT
+  USING (is_admin_or_moderator() OR is_qa_reviewer());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.qa_reviews FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.qa_reviews TO service_role;
+
+-- Reviewers need to read the case and the letter they are reviewing
+CREATE POLICY "Reviewers can view claims"
+  ON public.claims FOR SELECT
+  USING (is_qa_reviewer());
+
+CREATE POLICY "Reviewers can view letter drafts"
+  ON public.letter_drafts FOR SELECT
+  USING (is_qa_reviewer());
+
+CREATE POLICY "Reviewers can view draft versions"
+  ON public.letter_draft_versions FOR SELECT
+  USING (is_qa_reviewer());
+
+-- =================================
+-- DELIVERY GATE
+-- =================================
+
+-- The latest review must be an approval of the draft as it stands now
+CREATE OR REPLACE FUNCTION has_qa_approval(p_claim_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  latest public.qa_reviews;
+BEGIN
+  SELECT * INTO latest
+  FROM public.qa_reviews
+  WHERE claim_id = p_claim_id
+  ORDER BY round DESC
+  LIMIT 1;
+
+  RETURN FOUND
+    AND latest.status = 'approved'
+    AND latest.activity_log_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.letter_drafts
+      WHERE id = latest.draft_id
+        AND current_version = latest.draft_version
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION enforce_claim_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule RECORD;
+  transition_reason TEXT;
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.claim_status_transitions
+  WHERE from_status = COALESCE(OLD.status, 'intake')
+    AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Illegal claim status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  transition_reason := NULLIF(TRIM(current_setting('app.claim_status_reason', true)), '');
+
+  IF rule.requires_reason AND transition_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to move claim from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A held case resumes where it left off, so a hold can't skip steps
+  IF OLD.status = 'on_hold' AND NEW.status <> 'cancelled'
+     AND NEW.status IS DISTINCT FROM OLD.held_from_status THEN
+    RAISE EXCEPTION 'Claim on hold can only resume to %', COALESCE(OLD.held_from_status::TEXT, 'cancelled')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.held_from_status := CASE WHEN NEW.status = 'on_hold' THEN OLD.status END;
+
+  IF NEW.status = 'delivered' AND NOT has_qa_approval(NEW.id) THEN
+    RAISE EXCEPTION 'Claim % has no quality review approval for its current letter', NEW.claim_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IN ('delivered', 'closed', 'cancelled') THEN
+    NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+  ELSE
+    NEW.resolved_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =================================
+-- REVIEW RPCS
+-- =================================
+
+-- Hand a letter draft to the reviewers and move the claim to qa_review
+CREATE OR REPLACE FUNCTION submit_for_qa_review(
+  p_claim_id UUID,
+  p_draft_id UUID
+) RETURNS public.qa_reviews AS $$
+DECLARE
+  target_claim public.claims;
+  draft public.letter_drafts;
+  submitted public.qa_reviews;
+  log_id UUID;
+BEGIN
+  IF NOT is_admin_or_moderator() THEN
+    RAISE EXCEPTION 'Only staff can submit letters for review'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target_claim FROM public.claims WHERE id = p_claim_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim % not found', p_claim_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO draft
+  FROM public.letter_drafts
+  WHERE id = p_draft_id AND claim_id = p_claim_id;
+
+  IF NOT FOUND OR draft.current_version = 0 THEN
+    RAISE EXCEPTION 'Letter draft % has nothing to review', p_draft_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Left over if the claim was pulled back to drafting without a decision
+  UPDATE public.qa_reviews
+  SET status = 'withdrawn'
+  WHERE claim_id = p_claim_id AND status = 'pending';
+
+  INSERT INTO public.qa_reviews (claim_id, draft_id, draft_version, round, submitted_by)
+  VALUES (
+    p_claim_id,
+    p_draft_id,
+    draft.current_version,
+    (SELECT COALESCE(MAX(round), 0) + 1 FROM public.qa_reviews WHERE claim_id = p_claim_id),
+    auth.uid()
+  )
+  RETURNING * INTO submitted;
+
+  log_id := log_activity(
+    auth.uid(),
+    'qa_submitted',
+    'claim',
+    p_claim_id,
+    'Letter submitted for quality review (round ' || submitted.round || ')',
+    jsonb_build_object(
+      'claim_number', target_claim.claim_number,
+      'review_id', submitted.id,
+      'draft_id', p_draft_id,
+      'draft_version', submitted.draft_version,
+      'round', submitted.round
+    )
+  );
+
+  PERFORM transition_claim_status(p_claim_id, 'qa_review');
+
+  RETURN submitted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a reviewer's decision. Approval needs every required checklist
+-- item ticked and the reviewer's credentials; requesting changes needs
+-- comments and sends the claim back to drafting.
+CREATE OR REPLACE FUNCTION complete_qa_review(
+  p_review_id UUID,
+  p_decision qa_review_status,
+  p_checklist JSONB DEFAULT '{}',
+  p_comments TEXT DEFAULT NULL,
+  p_reviewer_credentials TEXT DEFAULT NULL
+) RETURNS public.qa_reviews AS $$
+DECLARE
+  review public.qa_reviews;
+  target_claim public.claims;
+  author_id UUID;
+  missing TEXT;
+  log_id UUID;
+BEGIN
+  IF NOT is_qa_reviewer() THEN
+    RAISE EXCEPTION 'Only reviewers can complete quality reviews'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'changes_requested') THEN
+    RAISE EXCEPTION 'Invalid review decision %', p_decision
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO review FROM public.qa_reviews WHERE id = p_review_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review % not found', p_review_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF review.status <> 'pending' THEN
+    RAISE EXCEPTION 'Review % is already %', p_review_id, review.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT created_by INTO author_id
+  FROM public.letter_draft_versions
+  WHERE draft_id = review.draft_id AND version = review.draft_version;
+
+  IF auth.uid() = review.submitted_by OR auth.uid() = author_id THEN
+    RAISE EXCEPTION 'A letter must be reviewed by someone other than its author'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO target_claim FROM public.claims WHERE id = review.claim_id;
+  IF target_claim.status IS DISTINCT FROM 'qa_review' THEN
+    RAISE EXCEPTION 'Claim % is not in quality review', target_claim.claim_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.letter_drafts
+      WHERE id = review.draft_id AND current_version = review.draft_version
+    ) THEN
+      RAISE EXCEPTION 'The draft has changed since it was submitted for review'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT string_agg(key, ', ' ORDER BY sort_order) INTO missing
+    FROM public.qa_checklist_items
+    WHERE is_required
+      AND COALESCE((p_checklist ->> key)::BOOLEAN, false) = false;
+
+    IF missing IS NOT NULL THEN
+      RAISE EXCEPTION 'Checklist items not confirmed: %', missing
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NULLIF(TRIM(p_reviewer_credentials), '') IS NULL THEN
+      RAISE EXCEPTION 'Reviewer credentials are required to approve'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NULLIF(TRIM(p_comments), '') IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes needed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  log_id := log_activity(
+    auth.uid(),
+    CASE p_decision
+      WHEN 'approved' THEN 'qa_approved'
+      ELSE 'qa_changes_requested'
+    END::activity_type,
+    'claim',
+    review.claim_id,
+    CASE p_decision
+      WHEN 'approved' THEN 'Letter approved in quality review'
+      ELSE 'Changes requested in quality review'
+    END,
+    jsonb_build_object(
+      'claim_number', target_claim.claim_number,
+      'review_id', review.id,
+      'draft_id', review.draft_id,
+      'draft_version', review.draft_version,
+      'round', review.round,
+      'reviewer_id', auth.uid(),
+      'reviewer_credentials', p_reviewer_credentials,
+      'checklist', p_checklist,
+      'comments', p_comments
+    )
+  );
+
+  UPDATE public.qa_reviews
+  SET
+    status = p_decision,
+    reviewer_id = auth.uid(),
+    reviewer_credentials = NULLIF(TRIM(p_reviewer_credentials), ''),
+    checklist = COALESCE(p_checklist, '{}'),
+    comments = NULLIF(TRIM(p_comments), ''),
+    reviewed_at = NOW(),
+    activity_log_id = log_id
+  WHERE id = p_review_id
+  RETURNING * INTO review;
+
+  IF p_decision = 'changes_requested' THEN
+    PERFORM transition_claim_status(review.claim_id, 'drafting', p_comments);
+  END IF;
+
+  RETURN review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE public.qa_checklist_items IS 'Items a reviewer confirms before approving a letter';
+COMMENT ON TABLE public.qa_reviews IS 'Quality review rounds for a claim''s letter, one per submission';
+COMMENT ON FUNCTION has_qa_approval IS 'Whether the claim''s current letter has been approved in quality review';
+COMMENT ON FUNCTION submit_for_qa_review IS 'Submit a letter draft for quality review and move the claim to qa_review';
+COMMENT ON FUNCTION complete_qa_review IS 'Approve a letter or request changes, recording the decision in activity_log';
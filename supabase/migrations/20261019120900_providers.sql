@@ -0,0 +1,361 @@
+-- =================================
+-- MEDICAL PROVIDERS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 013
+-- Description: Provider role for the licensed physicians who write letters,
+--              a credential registry (profile plus one row per state
+--              license) with admin verification, and access for providers
+--              to the cases assigned to them through claims.assigned_to:
+--              the claim, its documents and files, comments and notes, and
+--              letter drafts
+
+-- Only used inside function bodies below (see 20261019120800_qa_review.sql)
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'provider';
+
+CREATE TYPE provider_verification_status AS ENUM (
+  'pending',
+  'verified',
+  'rejected',
+  'suspended'
+);
+
+CREATE OR REPLACE FUNCTION is_provider()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.users
+    WHERE id = auth.uid() AND role::TEXT = 'provider'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================
+-- PROVIDER PROFILES
+-- =================================
+
+CREATE TABLE public.provider_profiles (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Post-nominal letters as printed on letters, e.g. 'MD, FACP'
+  credentials VARCHAR(50) NOT NULL,
+  npi VARCHAR(10) UNIQUE CHECK (npi ~ '^\d{10}$'),
+  specialties TEXT[] NOT NULL DEFAULT '{}',
+  board_certifications TEXT[] NOT NULL DEFAULT '{}',
+  verification_status provider_verification_status NOT NULL DEFAULT 'pending',
+  verification_notes TEXT,
+  verified_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_provider_profiles_verification_status
+  ON public.provider_profiles(verification_status);
+
+CREATE TRIGGER provider_profiles_updated_at
+  BEFORE UPDATE ON public.provider_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- LICENSES
+-- =================================
+
+CREATE TABLE public.provider_licenses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.provider_profiles(user_id) ON DELETE CASCADE,
+  state CHAR(2) NOT NULL CHECK (state ~ '^[A-Z]{2}$'),
+  license_number VARCHAR(50) NOT NULL,
+  expires_on DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider_id, state, license_number)
+);
+
+CREATE INDEX idx_provider_licenses_provider_id ON public.provider_licenses(provider_id);
+CREATE INDEX idx_provider_licenses_expires_on ON public.provider_licenses(expires_on);
+
+CREATE TRIGGER provider_licenses_updated_at
+  BEFORE UPDATE ON public.provider_licenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- VERIFICATION
+-- =================================
+
+-- Providers edit their own profile, but only admins decide verification.
+-- Credential changes made by the provider send the profile back to pending.
+CREATE OR REPLACE FUNCTION protect_provider_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_admin() OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_notes := NULL;
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+  ELSIF NEW.credentials IS DISTINCT FROM OLD.credentials
+     OR NEW.npi IS DISTINCT FROM OLD.npi
+     OR NEW.board_certifications IS DISTINCT FROM OLD.board_certifications THEN
+    NEW.verification_status := 'pending';
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+  ELSE
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_notes := OLD.verification_notes;
+    NEW.verified_by := OLD.verified_by;
+    NEW.verified_at := OLD.verified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER provider_profiles_protect_verification
+  BEFORE INSERT OR UPDATE ON public.provider_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_provider_verification();
+
+CREATE OR REPLACE FUNCTION reverify_provider_on_license_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_admin() OR auth.role() = 'service_role' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  UPDATE public.provider_profiles
+  SET verification_status = 'pending', verified_by = NULL, verified_at = NULL
+  WHERE user_id = COALESCE(NEW.provider_id, OLD.provider_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER provider_licenses_reverify
+  AFTER INSERT OR UPDATE OR DELETE ON public.provider_licenses
+  FOR EACH ROW
+  EXECUTE FUNCTION reverify_provider_on_license_change();
+
+-- Admin decision on a provider's credentials
+CREATE OR REPLACE FUNCTION verify_provider(
+  p_user_id UUID,
+  p_status provider_verification_status,
+  p_notes TEXT DEFAULT NULL
+) RETURNS public.provider_profiles AS $$
+DECLARE
+  profile public.provider_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can verify providers'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'verified' AND NOT EXISTS (
+    SELECT 1 FROM public.provider_licenses
+    WHERE provider_id = p_user_id AND expires_on >= CURRENT_DATE
+  ) THEN
+    RAISE EXCEPTION 'Provider has no current license on file'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_status IN ('rejected', 'suspended') AND NULLIF(TRIM(p_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to % a provider',
+      CASE p_status WHEN 'rejected' THEN 'reject' ELSE 'suspend' END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.provider_profiles
+  SET
+    verification_status = p_status,
+    verification_notes = NULLIF(TRIM(p_notes), ''),
+    verified_by = auth.uid(),
+    verified_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING * INTO profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Provider profile % not found', p_user_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM log_activity(
+    auth.uid(),
+    'updated',
+    'provider',
+    p_user_id,
+    'Provider verification set to ' || p_status,
+    jsonb_build_object('status', p_status, 'notes', p_notes)
+  );
+
+  RETURN profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.provider_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provider_licenses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can view own profile"
+  ON public.provider_profiles FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Providers can create own profile"
+  ON public.provider_profiles FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND is_provider());
+
+CREATE POLICY "Providers can update own profile"
+  ON public.provider_profiles FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins and moderators can view provider profiles"
+  ON public.provider_profiles FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins can manage provider profiles"
+  ON public.provider_profiles FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Providers can manage own licenses"
+  ON public.provider_licenses FOR ALL
+  USING (provider_id = auth.uid())
+  WITH CHECK (provider_id = auth.uid());
+
+CREATE POLICY "Admins and moderators can view provider licenses"
+  ON public.provider_licenses FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins can manage provider licenses"
+  ON public.provider_licenses FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.provider_profiles FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.provider_licenses FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.provider_profiles TO service_role;
+GRANT ALL ON public.provider_licenses TO service_role;
+
+-- Providers see the cases assigned to them
+CREATE POLICY "Providers can view assigned claims"
+  ON public.claims FOR SELECT
+  USING (assigned_to = auth.uid() AND is_provider());
+
+CREATE POLICY "Providers can view assigned claim status history"
+  ON public.claim_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_status_history.claim_id
+        AND claims.assigned_to = auth.uid()
+    )
+  );
+
+-- =================================
+-- ASSIGNED CASE ACCESS
+-- =================================
+
+-- Whether the caller is the provider a claim is assigned to
+CREATE OR REPLACE FUNCTION is_assigned_provider(p_claim_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE id = p_claim_id AND assigned_to = auth.uid()
+  ) AND is_provider();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Providers read the whole case file, internal notes included, to write
+-- the letter
+CREATE POLICY "Providers can view documents on assigned claims"
+  ON public.claim_documents FOR SELECT
+  USING (is_assigned_provider(claim_id));
+
+CREATE POLICY "Providers can view comments on assigned claims"
+  ON public.claim_comments FOR SELECT
+  USING (is_assigned_provider(claim_id));
+
+-- Storage downloads still require a clean scan (see
+-- 20261019120500_document_scanning.sql)
+CREATE OR REPLACE FUNCTION can_access_claim_folder(object_name TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id::TEXT = (storage.foldername(object_name))[1]
+      AND claims.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id::TEXT = (storage.foldername(object_name))[1]
+      AND is_assigned_provider(claims.id)
+  ) OR is_admin_or_moderator();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Providers draft the letters for their cases. save_letter_draft runs with
+-- the caller's RLS, so it needs the same access.
+CREATE POLICY "Providers can view drafts on assigned claims"
+  ON public.letter_drafts FOR SELECT
+  USING (is_assigned_provider(claim_id));
+
+CREATE POLICY "Providers can start drafts on assigned claims"
+  ON public.letter_drafts FOR INSERT
+  WITH CHECK (created_by = auth.uid() AND is_assigned_provider(claim_id));
+
+CREATE POLICY "Providers can save drafts on assigned claims"
+  ON public.letter_drafts FOR UPDATE
+  USING (is_assigned_provider(claim_id))
+  WITH CHECK (is_assigned_provider(claim_id));
+
+-- Only a draft that never got its first version (see letterDraftHelpers.create)
+CREATE POLICY "Providers can remove own empty drafts"
+  ON public.letter_drafts FOR DELETE
+  USING (
+    created_by = auth.uid()
+    AND current_version = 0
+    AND is_assigned_provider(claim_id)
+  );
+
+CREATE POLICY "Providers can view draft versions on assigned claims"
+  ON public.letter_draft_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.letter_drafts
+      WHERE letter_drafts.id = letter_draft_versions.draft_id
+        AND is_assigned_provider(letter_drafts.claim_id)
+    )
+  );
+
+CREATE POLICY "Providers can add draft versions on assigned claims"
+  ON public.letter_draft_versions FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.letter_drafts
+      WHERE letter_drafts.id = letter_draft_versions.draft_id
+        AND is_assigned_provider(letter_drafts.claim_id)
+    )
+  );
+
+COMMENT ON TABLE public.provider_profiles IS 'Credentials of the licensed physicians who write letters, verified by an admin';
+COMMENT ON TABLE public.provider_licenses IS 'State medical licenses held by a provider, with expiry dates';
+COMMENT ON FUNCTION is_assigned_provider IS 'Whether the caller is the provider assigned to the claim';
+COMMENT ON FUNCTION verify_provider IS 'Set a provider''s verification status, recording the decision in activity_log';
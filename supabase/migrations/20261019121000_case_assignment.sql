@@ -0,0 +1,181 @@
+-- =================================
+-- CASE ASSIGNMENT
+-- =================================
+-- Created: 2026-10-19
+-- Version: 014
+-- Description: Provider availability and capacity, a workload view for the
+--              assignment engine (src/lib/case-assignment.ts), a single RPC
+--              for automatic and manual assignment, and an
+--              assignment_changed activity entry for every change of
+--              claims.assigned_to
+
+-- =================================
+-- AVAILABILITY AND CAPACITY
+-- =================================
+
+ALTER TABLE public.provider_profiles
+  ADD COLUMN accepting_cases BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN max_open_cases INTEGER NOT NULL DEFAULT 15 CHECK (max_open_cases > 0);
+
+ALTER TABLE public.claims
+  ADD COLUMN assigned_at TIMESTAMPTZ;
+
+CREATE INDEX idx_claims_assigned_to ON public.claims(assigned_to);
+
+UPDATE public.claims
+SET assigned_at = COALESCE(updated_at, created_at)
+WHERE assigned_to IS NOT NULL;
+
+-- =================================
+-- WORKLOAD
+-- =================================
+
+-- Open caseload and turnaround (assignment to delivery, last 180 days) per
+-- provider. Runs with the caller's RLS, so providers only see their own row.
+CREATE VIEW public.provider_workload
+WITH (security_invoker = true) AS
+SELECT
+  p.user_id,
+  COUNT(c.id) FILTER (
+    WHERE c.status NOT IN ('delivered', 'closed', 'cancelled')
+  )::INTEGER AS open_cases,
+  COUNT(c.id) FILTER (
+    WHERE c.status IN ('delivered', 'closed')
+      AND c.resolved_at > NOW() - INTERVAL '180 days'
+  )::INTEGER AS completed_cases,
+  ROUND(
+    (AVG(EXTRACT(EPOCH FROM (c.resolved_at - c.assigned_at)) / 86400) FILTER (
+      WHERE c.status IN ('delivered', 'closed')
+        AND c.assigned_at IS NOT NULL
+        AND c.resolved_at > NOW() - INTERVAL '180 days'
+    ))::NUMERIC,
+    1
+  )::DOUBLE PRECISION AS avg_turnaround_days
+FROM public.provider_profiles p
+LEFT JOIN public.claims c ON c.assigned_to = p.user_id
+GROUP BY p.user_id;
+
+GRANT SELECT ON public.provider_workload TO authenticated, service_role;
+
+-- =================================
+-- ASSIGNMENT LOGGING
+-- =================================
+
+-- Stamp when the current assignee took the case
+CREATE OR REPLACE FUNCTION stamp_claim_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    NEW.assigned_at := CASE WHEN NEW.assigned_to IS NULL THEN NULL ELSE NOW() END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER claims_stamp_assignment
+  BEFORE INSERT OR UPDATE OF assigned_to ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_claim_assignment();
+
+-- Log every assignment change. The reason and method (automatic or manual)
+-- are passed in through transaction-local settings by assign_claim.
+CREATE OR REPLACE FUNCTION log_claim_assignment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    PERFORM log_activity(
+      COALESCE(auth.uid(), NEW.user_id),
+      'assignment_changed',
+      'claim',
+      NEW.id,
+      CASE
+        WHEN NEW.assigned_to IS NULL THEN 'Claim unassigned'
+        WHEN OLD.assigned_to IS NULL THEN 'Claim assigned'
+        ELSE 'Claim reassigned'
+      END,
+      jsonb_build_object(
+        'claim_number', NEW.claim_number,
+        'previous_assignee', OLD.assigned_to,
+        'new_assignee', NEW.assigned_to,
+        'method', COALESCE(
+          NULLIF(current_setting('app.claim_assignment_method', true), ''),
+          'manual'
+        ),
+        'reason', NULLIF(TRIM(current_setting('app.claim_assignment_reason', true)), ''),
+        'changed_by', auth.uid()
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claims_log_assignment_change
+  AFTER UPDATE OF assigned_to ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION log_claim_assignment_change();
+
+-- =================================
+-- ASSIGNMENT RPC
+-- =================================
+
+-- Assign (or unassign, with NULL) a claim. Providers must be verified and
+-- hold a current license; a manual override may skip the specialty,
+-- availability and capacity preferences the engine applies.
+CREATE OR REPLACE FUNCTION assign_claim(
+  p_claim_id UUID,
+  p_assignee UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_method TEXT DEFAULT 'manual'
+) RETURNS public.claims AS $$
+DECLARE
+  updated_claim public.claims;
+BEGIN
+  IF NOT is_admin_or_moderator() AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only staff can assign claims'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_method NOT IN ('automatic', 'manual') THEN
+    RAISE EXCEPTION 'Unknown assignment method %', p_method
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_assignee IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.users WHERE id = p_assignee AND role::TEXT = 'provider'
+  ) AND NOT EXISTS (
+    SELECT 1
+    FROM public.provider_profiles p
+    JOIN public.provider_licenses l ON l.provider_id = p.user_id
+    WHERE p.user_id = p_assignee
+      AND p.verification_status = 'verified'
+      AND l.expires_on >= CURRENT_DATE
+  ) THEN
+    RAISE EXCEPTION 'Provider % is not verified or has no current license', p_assignee
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.claim_assignment_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.claim_assignment_method', p_method, true);
+
+  UPDATE public.claims
+  SET assigned_to = p_assignee, updated_at = NOW()
+  WHERE id = p_claim_id
+  RETURNING * INTO updated_claim;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim % not found', p_claim_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.claim_assignment_reason', '', true);
+  PERFORM set_config('app.claim_assignment_method', '', true);
+
+  RETURN updated_claim;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON VIEW public.provider_workload IS 'Open caseload and recent turnaround per provider, used to balance assignments';
+COMMENT ON COLUMN public.claims.assigned_at IS 'When the current assignee was given the case';
+COMMENT ON COLUMN public.provider_profiles.accepting_cases IS 'False while a provider is unavailable; their open cases are reassigned';
+COMMENT ON FUNCTION assign_claim IS 'Assign a claim automatically or by manual override, logging assignment_changed';
@@ -0,0 +1,259 @@
+-- =================================
+-- CASE SLA ESCALATIONS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 015
+-- Description: Escalations raised when a case is at risk of missing, or
+--              has missed, the due date set from its service tier
+--              (src/lib/case-sla.ts). Each level is raised once per due
+--              date and is visible to admins and moderators until
+--              acknowledged. Time on hold is added back to the due date
+--              when the hold ends, on the same business-day calendar as
+--              src/lib/business-days.ts
+
+-- Only used inside function bodies below (see 20261019120800_qa_review.sql)
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'sla_escalated';
+
+CREATE TYPE sla_escalation_level AS ENUM ('at_risk', 'breached');
+
+CREATE INDEX idx_claims_due_date ON public.claims(due_date)
+  WHERE due_date IS NOT NULL;
+
+-- =================================
+-- BUSINESS DAYS
+-- =================================
+
+-- Weekdays that are not observed federal holidays, on the Eastern
+-- calendar. Keep in step with src/lib/business-days.ts.
+
+-- The nth weekday (0 = Sunday) of a month; n = -1 for the last one
+CREATE OR REPLACE FUNCTION nth_weekday(
+  p_year INTEGER,
+  p_month INTEGER,
+  p_weekday INTEGER,
+  p_n INTEGER
+) RETURNS DATE AS $$
+DECLARE
+  first_day DATE := make_date(p_year, p_month, 1);
+  last_day DATE := (make_date(p_year, p_month, 1) + INTERVAL '1 month - 1 day')::DATE;
+BEGIN
+  IF p_n > 0 THEN
+    RETURN first_day
+      + (p_weekday - EXTRACT(DOW FROM first_day)::INTEGER + 7) % 7
+      + (p_n - 1) * 7;
+  END IF;
+
+  RETURN last_day - (EXTRACT(DOW FROM last_day)::INTEGER - p_weekday + 7) % 7;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fixed-date holidays falling on a weekend are observed Friday or Monday
+CREATE OR REPLACE FUNCTION observed_holiday(p_date DATE)
+RETURNS DATE AS $$
+  SELECT CASE EXTRACT(DOW FROM p_date)
+    WHEN 6 THEN p_date - 1
+    WHEN 0 THEN p_date + 1
+    ELSE p_date
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Observed federal holidays in a year (5 U.S.C. 6103). New Year's Day on a
+-- Saturday is observed on December 31 of the year before.
+CREATE OR REPLACE FUNCTION federal_holidays(p_year INTEGER)
+RETURNS SETOF DATE AS $$
+  SELECT holiday
+  FROM (VALUES
+    (observed_holiday(make_date(p_year, 1, 1))),
+    (nth_weekday(p_year, 1, 1, 3)),
+    (nth_weekday(p_year, 2, 1, 3)),
+    (nth_weekday(p_year, 5, 1, -1)),
+    (observed_holiday(make_date(p_year, 6, 19))),
+    (observed_holiday(make_date(p_year, 7, 4))),
+    (nth_weekday(p_year, 9, 1, 1)),
+    (nth_weekday(p_year, 10, 1, 2)),
+    (observed_holiday(make_date(p_year, 11, 11))),
+    (nth_weekday(p_year, 11, 4, 4)),
+    (observed_holiday(make_date(p_year, 12, 25))),
+    (observed_holiday(make_date(p_year + 1, 1, 1)))
+  ) AS holidays(holiday)
+  WHERE EXTRACT(YEAR FROM holiday) = p_year;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_business_day(p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXTRACT(DOW FROM p_date) NOT IN (0, 6)
+    AND p_date NOT IN (SELECT federal_holidays(EXTRACT(YEAR FROM p_date)::INTEGER));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The date p_days business days after p_date (before it when negative).
+-- Zero days rolls a non-business day forward to the next business day.
+CREATE OR REPLACE FUNCTION add_business_days(p_date DATE, p_days INTEGER)
+RETURNS DATE AS $$
+DECLARE
+  current_day DATE := p_date;
+  remaining INTEGER := ABS(p_days);
+BEGIN
+  IF remaining = 0 THEN
+    WHILE NOT is_business_day(current_day) LOOP
+      current_day := current_day + 1;
+    END LOOP;
+    RETURN current_day;
+  END IF;
+
+  WHILE remaining > 0 LOOP
+    current_day := current_day + SIGN(p_days)::INTEGER;
+    IF is_business_day(current_day) THEN
+      remaining := remaining - 1;
+    END IF;
+  END LOOP;
+
+  RETURN current_day;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Business days after p_from up to and including p_to
+CREATE OR REPLACE FUNCTION business_days_between(p_from DATE, p_to DATE)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p_to < p_from THEN -business_days_between(p_to, p_from)
+    ELSE (
+      SELECT COUNT(*)::INTEGER
+      FROM generate_series(p_from + 1, p_to, INTERVAL '1 day') AS day
+      WHERE is_business_day(day::DATE)
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =================================
+-- HOLDS
+-- =================================
+
+-- Time on hold does not count against the due date. Runs in the same
+-- update as the status change that ends the hold, so the two can't get
+-- out of step. Due dates are stored as midnight UTC.
+CREATE OR REPLACE FUNCTION extend_due_date_after_hold()
+RETURNS TRIGGER AS $$
+DECLARE
+  held_since TIMESTAMPTZ;
+  held_days INTEGER;
+BEGIN
+  IF OLD.status IS DISTINCT FROM 'on_hold' OR NEW.status = 'on_hold'
+     OR NEW.due_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(created_at) INTO held_since
+  FROM public.claim_status_history
+  WHERE claim_id = NEW.id AND to_status = 'on_hold';
+
+  IF held_since IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  held_days := business_days_between(
+    (held_since AT TIME ZONE 'America/New_York')::DATE,
+    (NOW() AT TIME ZONE 'America/New_York')::DATE
+  );
+
+  IF held_days > 0 THEN
+    NEW.due_date := add_business_days(
+      (NEW.due_date AT TIME ZONE 'UTC')::DATE,
+      held_days
+    )::TIMESTAMP AT TIME ZONE 'UTC';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fires after claim_status_transition_check (triggers run in name order),
+-- so only legal moves are extended
+CREATE TRIGGER claims_extend_due_date_after_hold
+  BEFORE UPDATE OF status ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION extend_due_date_after_hold();
+
+CREATE TABLE public.claim_sla_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  level sla_escalation_level NOT NULL,
+  due_date DATE NOT NULL,
+  remaining_business_days INTEGER NOT NULL,
+  acknowledged_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A new due date (e.g. after a hold) can escalate again
+  UNIQUE (claim_id, level, due_date)
+);
+
+CREATE INDEX idx_claim_sla_escalations_claim_id ON public.claim_sla_escalations(claim_id);
+CREATE INDEX idx_claim_sla_escalations_open
+  ON public.claim_sla_escalations(created_at DESC)
+  WHERE acknowledged_at IS NULL;
+
+-- Logged by the system rather than as the veteran: activity with no actor
+-- is only readable by staff, so veterans never see their case escalated
+CREATE OR REPLACE FUNCTION log_sla_escalation()
+RETURNS TRIGGER AS $$
+DECLARE
+  claim RECORD;
+BEGIN
+  SELECT claim_number INTO claim
+  FROM public.claims
+  WHERE id = NEW.claim_id;
+
+  PERFORM log_activity(
+    NULL,
+    'sla_escalated',
+    'claim',
+    NEW.claim_id,
+    CASE NEW.level
+      WHEN 'breached' THEN 'Claim is past its due date'
+      ELSE 'Claim is at risk of missing its due date'
+    END,
+    jsonb_build_object(
+      'claim_number', claim.claim_number,
+      'level', NEW.level,
+      'due_date', NEW.due_date,
+      'remaining_business_days', NEW.remaining_business_days
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claim_sla_escalations_log
+  AFTER INSERT ON public.claim_sla_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION log_sla_escalation();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.claim_sla_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and moderators can view SLA escalations"
+  ON public.claim_sla_escalations FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can acknowledge SLA escalations"
+  ON public.claim_sla_escalations FOR UPDATE
+  USING (is_admin_or_moderator())
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.claim_sla_escalations FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.claim_sla_escalations TO service_role;
+
+-- Escalations reach admins live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.claim_sla_escalations;
+
+COMMENT ON TABLE public.claim_sla_escalations IS 'At-risk and breached SLA alerts for admins, one per claim, level and due date';
+COMMENT ON FUNCTION business_days_between IS 'Business days after p_from up to and including p_to, skipping weekends and federal holidays';
+COMMENT ON FUNCTION extend_due_date_after_hold IS 'Push a claim''s due date back by the business days it spent on hold';
+COMMENT ON COLUMN public.claims.due_date IS 'Delivery due date from the service tier, on the business-day calendar';
@@ -0,0 +1,77 @@
+-- =================================
+-- INTAKE DRAFTS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 016
+-- Description: Autosaved answers of the veteran intake wizard (see
+--              src/lib/intake.ts) so an intake can be resumed later. A
+--              completed draft records the claim it became and is no
+--              longer editable
+
+CREATE TABLE public.intake_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Answers keyed by form field; partial until the intake is completed
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  current_step INTEGER NOT NULL DEFAULT 0 CHECK (current_step >= 0),
+  claim_id UUID REFERENCES public.claims(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One intake in progress per veteran
+CREATE UNIQUE INDEX idx_intake_drafts_open
+  ON public.intake_drafts(user_id)
+  WHERE completed_at IS NULL;
+
+CREATE INDEX idx_intake_drafts_claim_id ON public.intake_drafts(claim_id);
+
+CREATE TRIGGER intake_drafts_updated_at
+  BEFORE UPDATE ON public.intake_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.intake_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own intake drafts"
+  ON public.intake_drafts FOR SELECT
+  USING (user_id = auth.uid() OR is_admin_or_moderator());
+
+CREATE POLICY "Users can start intake drafts"
+  ON public.intake_drafts FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND completed_at IS NULL);
+
+-- Completing a draft links it to one of the veteran's own claims
+CREATE POLICY "Users can update open intake drafts"
+  ON public.intake_drafts FOR UPDATE
+  USING (user_id = auth.uid() AND completed_at IS NULL)
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (
+      claim_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.claims
+        WHERE claims.id = intake_drafts.claim_id
+          AND claims.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can discard open intake drafts"
+  ON public.intake_drafts FOR DELETE
+  USING (user_id = auth.uid() AND completed_at IS NULL);
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.intake_drafts FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.intake_drafts TO service_role;
+
+COMMENT ON TABLE public.intake_drafts IS 'Autosaved veteran intake wizard answers, converted into a claim on completion';
@@ -0,0 +1,180 @@
+-- =================================
+-- LEADS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 017
+-- Description: Contact page inquiries (nexusContactFormSchema) stored for
+--              the staff lead inbox, with assignment, notes and conversion
+--              into a veteran account and claim (see src/lib/leads.ts).
+--              Leads are written by the contact API with the service role
+
+CREATE TYPE lead_status AS ENUM ('new', 'contacted', 'converted', 'spam');
+
+CREATE TABLE public.leads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  first_name VARCHAR(50) NOT NULL,
+  last_name VARCHAR(50) NOT NULL,
+  email VARCHAR(254) NOT NULL,
+  phone VARCHAR(20),
+  claim_type claim_type NOT NULL,
+  other_service VARCHAR(200),
+  condition VARCHAR(200),
+  message TEXT,
+  urgency case_urgency NOT NULL DEFAULT 'standard',
+  status lead_status NOT NULL DEFAULT 'new',
+  assigned_to UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  contacted_at TIMESTAMPTZ,
+  converted_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  converted_claim_id UUID REFERENCES public.claims(id) ON DELETE SET NULL,
+  converted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT leads_converted_check CHECK (
+    (status = 'converted') = (converted_at IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_leads_status ON public.leads(status, created_at DESC);
+CREATE INDEX idx_leads_assigned_to ON public.leads(assigned_to);
+CREATE INDEX idx_leads_email ON public.leads(email);
+
+CREATE TRIGGER leads_updated_at
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Conversion is final; first contact is stamped once
+CREATE OR REPLACE FUNCTION protect_lead_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'converted' AND NEW.status IS DISTINCT FROM 'converted' THEN
+    RAISE EXCEPTION 'Converted leads cannot change status'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'contacted' AND NEW.contacted_at IS NULL THEN
+    NEW.contacted_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER leads_protect_status
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_lead_status();
+
+-- =================================
+-- NOTES
+-- =================================
+
+CREATE TABLE public.lead_notes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_lead_notes_lead_id ON public.lead_notes(lead_id, created_at);
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and moderators can manage leads"
+  ON public.leads FOR ALL
+  USING (is_admin_or_moderator())
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can view lead notes"
+  ON public.lead_notes FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Admins and moderators can add lead notes"
+  ON public.lead_notes FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.leads FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.lead_notes FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.leads TO service_role;
+GRANT ALL ON public.lead_notes TO service_role;
+
+-- =================================
+-- CONVERSION
+-- =================================
+
+-- Open the claim, mark the lead converted and note it in one transaction.
+-- The lead row is locked first, so a second conversion of the same lead
+-- waits and then fails instead of opening a duplicate claim
+CREATE OR REPLACE FUNCTION convert_lead(
+  p_lead_id UUID,
+  p_user_id UUID,
+  p_claim JSONB,
+  p_converted_by UUID
+) RETURNS public.claims AS $$
+DECLARE
+  v_lead public.leads;
+  v_claim public.claims;
+BEGIN
+  SELECT * INTO v_lead
+  FROM public.leads
+  WHERE id = p_lead_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_lead.status NOT IN ('new', 'contacted') THEN
+    RAISE EXCEPTION 'Lead % cannot be converted from %', p_lead_id, v_lead.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.claims (
+    user_id, title, description, claim_type, condition,
+    urgency, priority, metadata, due_date
+  )
+  SELECT p_user_id, c.title, c.description, c.claim_type, c.condition,
+    c.urgency, c.priority, c.metadata, c.due_date
+  FROM jsonb_populate_record(NULL::public.claims, p_claim) c
+  RETURNING * INTO v_claim;
+
+  UPDATE public.leads
+  SET status = 'converted',
+      converted_user_id = p_user_id,
+      converted_claim_id = v_claim.id,
+      converted_at = NOW()
+  WHERE id = p_lead_id;
+
+  INSERT INTO public.lead_notes (lead_id, author_id, content)
+  VALUES (p_lead_id, p_converted_by, 'Converted into claim ' || v_claim.claim_number);
+
+  RETURN v_claim;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION convert_lead(UUID, UUID, JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION convert_lead(UUID, UUID, JSONB, UUID) TO service_role;
+
+-- New inquiries reach the inbox live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.leads;
+
+COMMENT ON TABLE public.leads IS 'Contact page inquiries worked by staff until converted into a veteran account and claim';
+COMMENT ON TABLE public.lead_notes IS 'Staff notes on a lead, oldest first';
+COMMENT ON FUNCTION convert_lead IS 'Convert a lead into a claim for the given veteran account; fails if the lead was already converted';
@@ -0,0 +1,136 @@
+-- =================================
+-- TRANSACTIONAL EMAIL
+-- =================================
+-- Created: 2026-10-19
+-- Version: 018
+-- Description: Outbox and send log for transactional email (see
+--              src/lib/email.ts). Messages are queued here, rendered and
+--              sent by the dispatcher, and retried with backoff until they
+--              are delivered or run out of attempts. Claim status changes
+--              queue their own notifications.
+
+CREATE TYPE email_template AS ENUM (
+  'lead_acknowledgment',
+  'status_changed',
+  'records_requested',
+  'letter_delivered'
+);
+
+CREATE TYPE email_status AS ENUM ('pending', 'sent', 'failed');
+
+CREATE TABLE public.email_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  template email_template NOT NULL,
+  to_email VARCHAR(254) NOT NULL,
+  -- Template variables, rendered at send time
+  data JSONB NOT NULL DEFAULT '{}',
+  subject VARCHAR(255),
+  status email_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  transport VARCHAR(50),
+  message_id VARCHAR(255),
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  claim_id UUID REFERENCES public.claims(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT email_log_sent_check CHECK (
+    (status = 'sent') = (sent_at IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_email_log_due ON public.email_log(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_email_log_claim_id ON public.email_log(claim_id);
+CREATE INDEX idx_email_log_lead_id ON public.email_log(lead_id);
+CREATE INDEX idx_email_log_created_at ON public.email_log(created_at DESC);
+
+CREATE TRIGGER email_log_updated_at
+  BEFORE UPDATE ON public.email_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- CLAIM STATUS NOTIFICATIONS
+-- =================================
+
+-- Veterans hear about the milestones that matter to them; internal steps
+-- (drafting, quality review, closing) are not emailed
+CREATE OR REPLACE FUNCTION queue_claim_status_email()
+RETURNS TRIGGER AS $$
+DECLARE
+  template email_template;
+  recipient RECORD;
+BEGIN
+  template := CASE NEW.to_status
+    WHEN 'records_requested' THEN 'records_requested'
+    WHEN 'delivered' THEN 'letter_delivered'
+    WHEN 'records_received' THEN 'status_changed'
+    WHEN 'physician_review' THEN 'status_changed'
+    WHEN 'on_hold' THEN 'status_changed'
+    WHEN 'cancelled' THEN 'status_changed'
+    ELSE NULL
+  END;
+
+  IF template IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.user_id, c.claim_number, c.condition, u.email, u.full_name
+    INTO recipient
+    FROM public.claims c
+    JOIN public.users u ON u.id = c.user_id
+    WHERE c.id = NEW.claim_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.email_log (template, to_email, data, user_id, claim_id)
+  VALUES (
+    template,
+    recipient.email,
+    jsonb_build_object(
+      'name', recipient.full_name,
+      'claim_number', recipient.claim_number,
+      'condition', recipient.condition,
+      'from_status', NEW.from_status,
+      'to_status', NEW.to_status,
+      'reason', NEW.reason
+    ),
+    recipient.user_id,
+    NEW.claim_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claim_status_history_queue_email
+  AFTER INSERT ON public.claim_status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_claim_status_email();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and moderators can view the email log"
+  ON public.email_log FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.email_log FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.email_log TO service_role;
+
+COMMENT ON TABLE public.email_log IS 'Transactional email outbox and send log; pending rows are retried with backoff';
+COMMENT ON COLUMN public.email_log.data IS 'Template variables (see EmailTemplateData in src/lib/email.ts)';
@@ -0,0 +1,164 @@
+-- =================================
+-- NOTIFICATION CENTER
+-- =================================
+-- Created: 2026-10-19
+-- Version: 019
+-- Description: In-app notifications, and claim status notifications that
+--              honour each user's notification settings
+--              (users.preferences -> 'notifications', see
+--              notificationSettingsSchema). Replaces the unconditional
+--              status email trigger from version 018.
+
+CREATE TYPE notification_category AS ENUM (
+  'claim_update',
+  'system_announcement',
+  'marketing'
+);
+
+CREATE TABLE public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  category notification_category NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  body TEXT NOT NULL,
+  -- App path opened from the notification, e.g. /dashboard
+  link VARCHAR(500),
+  claim_id UUID REFERENCES public.claims(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read"
+  ON public.notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.notifications FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Notifications are written by the server; users may only mark them read
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+GRANT ALL ON public.notifications TO service_role;
+
+-- The header bell updates live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- =================================
+-- CLAIM STATUS NOTIFICATIONS
+-- =================================
+
+DROP TRIGGER IF EXISTS claim_status_history_queue_email ON public.claim_status_history;
+DROP FUNCTION IF EXISTS queue_claim_status_email();
+
+-- Channel rules (keep in sync with getNotificationChannels in
+-- src/lib/notifications.ts): nothing when claimUpdates is off, otherwise
+-- the notification center, plus email when emailNotifications is on.
+-- Missing settings take the schema defaults (both on).
+CREATE OR REPLACE FUNCTION notify_claim_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  template email_template;
+  recipient RECORD;
+  settings JSONB;
+  status_label TEXT;
+BEGIN
+  -- Veterans hear about the milestones that matter to them; internal
+  -- steps (drafting, quality review, closing) are not notified. Keep in
+  -- sync with VETERAN_VISIBLE_CLAIM_STATUSES in src/lib/notifications.ts
+  template := CASE NEW.to_status
+    WHEN 'records_requested' THEN 'records_requested'
+    WHEN 'delivered' THEN 'letter_delivered'
+    WHEN 'records_received' THEN 'status_changed'
+    WHEN 'physician_review' THEN 'status_changed'
+    WHEN 'on_hold' THEN 'status_changed'
+    WHEN 'cancelled' THEN 'status_changed'
+    ELSE NULL
+  END;
+
+  IF template IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.user_id, c.claim_number, c.condition, u.email, u.full_name,
+         u.preferences
+    INTO recipient
+    FROM public.claims c
+    JOIN public.users u ON u.id = c.user_id
+    WHERE c.id = NEW.claim_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  settings := COALESCE(recipient.preferences -> 'notifications', '{}'::jsonb);
+
+  IF NOT COALESCE((settings ->> 'claimUpdates')::boolean, true) THEN
+    RETURN NEW;
+  END IF;
+
+  status_label := initcap(replace(NEW.to_status::text, '_', ' '));
+
+  INSERT INTO public.notifications (user_id, category, title, body, link, claim_id)
+  VALUES (
+    recipient.user_id,
+    'claim_update',
+    CASE template
+      WHEN 'records_requested' THEN 'Records needed for case ' || recipient.claim_number
+      WHEN 'letter_delivered' THEN 'Your nexus letter is ready'
+      ELSE 'Case ' || recipient.claim_number || ' is now ' || status_label
+    END,
+    CASE template
+      WHEN 'records_requested' THEN 'Upload your medical and service records so we can continue.'
+      WHEN 'letter_delivered' THEN 'Your letter for case ' || recipient.claim_number || ' has passed quality review.'
+      ELSE COALESCE(NEW.reason, 'Your case status changed to ' || status_label || '.')
+    END,
+    '/dashboard',
+    NEW.claim_id
+  );
+
+  IF COALESCE((settings ->> 'emailNotifications')::boolean, true) THEN
+    INSERT INTO public.email_log (template, to_email, data, user_id, claim_id)
+    VALUES (
+      template,
+      recipient.email,
+      jsonb_build_object(
+        'name', recipient.full_name,
+        'claim_number', recipient.claim_number,
+        'condition', recipient.condition,
+        'from_status', NEW.from_status,
+        'to_status', NEW.to_status,
+        'reason', NEW.reason
+      ),
+      recipient.user_id,
+      NEW.claim_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER claim_status_history_notify
+  AFTER INSERT ON public.claim_status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_claim_status_change();
+
+COMMENT ON TABLE public.notifications IS 'In-app notification center entries; only read_at is writable by the recipient';
@@ -0,0 +1,55 @@
+-- =================================
+-- WEEKLY DIGESTS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 020
+-- Description: Weekly summaries for users who turned on weeklyDigest in
+--              their notification settings. One digest per user per week;
+--              the row is written before the digest is sent so a repeated
+--              run never sends it twice.
+
+ALTER TYPE notification_category ADD VALUE IF NOT EXISTS 'weekly_digest';
+ALTER TYPE email_template ADD VALUE IF NOT EXISTS 'weekly_digest';
+
+CREATE TABLE public.weekly_digests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Business dates; the period ends before period_end
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  sections JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT weekly_digests_user_period_unique UNIQUE (user_id, period_start),
+  CONSTRAINT weekly_digests_period_check CHECK (period_end > period_start)
+);
+
+CREATE INDEX idx_weekly_digests_period_start ON public.weekly_digests(period_start);
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.weekly_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own weekly digests"
+  ON public.weekly_digests FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view weekly digests"
+  ON public.weekly_digests FOR SELECT
+  USING (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.weekly_digests FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.weekly_digests TO service_role;
+
+-- Recipients are found by their saved setting
+CREATE INDEX idx_users_weekly_digest ON public.users
+  (((preferences -> 'notifications' ->> 'weeklyDigest')));
+
+COMMENT ON TABLE public.weekly_digests IS 'Weekly digests sent to each user, one per week';
+COMMENT ON COLUMN public.weekly_digests.sections IS 'Digest sections as sent (see compileDigest in src/lib/weekly-digest.ts)';
@@ -0,0 +1,137 @@
+-- =================================
+-- BACKGROUND JOBS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 021
+-- Description: Postgres-backed job queue. Workers claim due jobs with
+--              FOR UPDATE SKIP LOCKED, failed jobs are retried with backoff
+--              and dead-lettered once they run out of attempts. Cron
+--              schedules enqueue one job per tick (see src/lib/jobs.ts).
+
+CREATE TYPE job_status AS ENUM (
+  'pending',
+  'running',
+  'completed',
+  'dead'
+);
+
+CREATE TABLE public.jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status job_status NOT NULL DEFAULT 'pending',
+  -- Higher runs first
+  priority INTEGER NOT NULL DEFAULT 0,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  -- Enqueueing the same key twice is a no-op, e.g. one job per cron tick
+  unique_key VARCHAR(255) UNIQUE,
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT jobs_lock_check CHECK (
+    (status = 'running') = (locked_until IS NOT NULL)
+  ),
+  CONSTRAINT jobs_completed_check CHECK (
+    (status = 'completed') = (completed_at IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_jobs_due ON public.jobs(priority DESC, run_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_jobs_running ON public.jobs(locked_until)
+  WHERE status = 'running';
+CREATE INDEX idx_jobs_status ON public.jobs(status, created_at DESC);
+CREATE INDEX idx_jobs_type ON public.jobs(type);
+
+CREATE TRIGGER jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view jobs"
+  ON public.jobs FOR SELECT
+  USING (is_admin());
+
+-- Admins retry dead jobs from the jobs page
+CREATE POLICY "Admins can retry dead jobs"
+  ON public.jobs FOR UPDATE
+  USING (is_admin() AND status = 'dead')
+  WITH CHECK (is_admin() AND status = 'pending');
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.jobs FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE UPDATE ON public.jobs FROM authenticated;
+GRANT UPDATE (status, attempts, run_at) ON public.jobs TO authenticated;
+GRANT ALL ON public.jobs TO service_role;
+
+-- =================================
+-- CLAIMING
+-- =================================
+
+-- Claim up to p_limit due jobs for a worker, highest priority first.
+-- Concurrent workers skip each other's rows instead of waiting. A running
+-- job whose lock has expired (its worker died) is claimed again, or
+-- dead-lettered if it has used all its attempts.
+CREATE OR REPLACE FUNCTION claim_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lock_seconds INTEGER DEFAULT 300,
+  p_types TEXT[] DEFAULT NULL
+) RETURNS SETOF public.jobs AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only workers can claim jobs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.jobs
+  SET status = 'dead',
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = COALESCE(last_error || E'\n', '') || 'Worker stopped before the job finished'
+  WHERE status = 'running'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lock_seconds)
+  WHERE j.id IN (
+    SELECT id
+    FROM public.jobs
+    WHERE ((status = 'pending' AND run_at <= NOW())
+        OR (status = 'running' AND locked_until < NOW()))
+      AND (p_types IS NULL OR type = ANY(p_types))
+    ORDER BY priority DESC, run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_jobs(TEXT, INTEGER, INTEGER, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_jobs(TEXT, INTEGER, INTEGER, TEXT[]) TO service_role;
+
+COMMENT ON TABLE public.jobs IS 'Background job queue; dead jobs ran out of attempts and wait for an admin retry';
+COMMENT ON COLUMN public.jobs.unique_key IS 'Deduplicates enqueues, e.g. schedule:<type>@<tick>';
+COMMENT ON FUNCTION claim_jobs IS 'Claim due jobs for a worker with FOR UPDATE SKIP LOCKED';
@@ -0,0 +1,153 @@
+-- =================================
+-- OUTBOUND WEBHOOKS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 022
+-- Description: Webhook subscriptions for partners (VSOs, referring
+--              attorneys). Claim activity_log entries queue a delivery for
+--              every active subscription to that event; deliveries are
+--              HMAC-signed, sent by the job worker and retried with backoff
+--              (see src/lib/webhook-delivery.ts). Subscriptions see every
+--              claim, so payloads carry only IDs and the claim's status.
+
+CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'delivered', 'failed');
+
+CREATE TABLE public.webhook_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  url VARCHAR(2048) NOT NULL CHECK (url ~ '^https://'),
+  -- Shared secret for the X-Webhook-Signature HMAC
+  secret VARCHAR(255) NOT NULL,
+  events activity_type[] NOT NULL CHECK (cardinality(events) > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_subscriptions_events
+  ON public.webhook_subscriptions USING GIN (events)
+  WHERE active;
+
+CREATE TRIGGER webhook_subscriptions_updated_at
+  BEFORE UPDATE ON public.webhook_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE public.webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+  -- An activity type, or 'ping' for test deliveries
+  event VARCHAR(50) NOT NULL,
+  activity_log_id UUID REFERENCES public.activity_log(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  status webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (subscription_id, activity_log_id),
+  CONSTRAINT webhook_deliveries_delivered_check CHECK (
+    (status = 'delivered') = (delivered_at IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_webhook_deliveries_subscription
+  ON public.webhook_deliveries(subscription_id, created_at DESC);
+
+CREATE TRIGGER webhook_deliveries_updated_at
+  BEFORE UPDATE ON public.webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- CLAIM EVENTS
+-- =================================
+
+-- Queue a delivery of each claim activity entry to the subscriptions
+-- listening for it. The payload is fixed when the event happens and
+-- leaves out the description and metadata, which can name the veteran
+-- or their conditions; partners get the claim ID and status only.
+CREATE OR REPLACE FUNCTION queue_claim_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status claim_status;
+BEGIN
+  IF NEW.entity_type IS DISTINCT FROM 'claim' OR NEW.entity_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO v_status FROM public.claims WHERE id = NEW.entity_id;
+
+  INSERT INTO public.webhook_deliveries (
+    subscription_id,
+    event,
+    activity_log_id,
+    payload
+  )
+  SELECT
+    subscription.id,
+    NEW.activity_type::TEXT,
+    NEW.id,
+    jsonb_build_object(
+      'id', NEW.id,
+      'event', NEW.activity_type,
+      'occurred_at', COALESCE(NEW.created_at, NOW()),
+      'claim_id', NEW.entity_id,
+      'claim_status', v_status
+    )
+  FROM public.webhook_subscriptions subscription
+  WHERE subscription.active
+    AND NEW.activity_type = ANY(subscription.events)
+  ON CONFLICT (subscription_id, activity_log_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER activity_log_queue_webhooks
+  AFTER INSERT ON public.activity_log
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_claim_webhooks();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook subscriptions"
+  ON public.webhook_subscriptions FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.webhook_subscriptions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.webhook_deliveries FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.webhook_subscriptions TO service_role;
+GRANT ALL ON public.webhook_deliveries TO service_role;
+
+COMMENT ON TABLE public.webhook_subscriptions IS 'Partner endpoints notified of claim lifecycle events';
+COMMENT ON COLUMN public.webhook_subscriptions.events IS 'Activity types delivered, e.g. claim_submitted, status_changed';
+COMMENT ON TABLE public.webhook_deliveries IS 'Webhook delivery attempts log; pending rows are retried with backoff';
+COMMENT ON FUNCTION queue_claim_webhooks IS 'Queue webhook deliveries for a claim activity_log entry';
@@ -0,0 +1,243 @@
+-- =================================
+-- CONDITION CATALOG
+-- =================================
+-- Created: 2026-10-19
+-- Version: 023
+-- Description: Catalog of commonly claimed conditions with their 38 CFR
+--              Part 4 diagnostic codes, body systems, common secondary
+--              conditions and the evidence a claim for each needs. Cases
+--              are linked to the catalog conditions picked at intake, and
+--              their evidence checklists are built from those.
+
+CREATE TYPE body_system AS ENUM (
+  'musculoskeletal',
+  'eye',
+  'ear',
+  'infectious',
+  'respiratory',
+  'cardiovascular',
+  'digestive',
+  'genitourinary',
+  'gynecological',
+  'hemic_lymphatic',
+  'skin',
+  'endocrine',
+  'neurological',
+  'mental',
+  'dental'
+);
+
+-- =================================
+-- CONDITIONS
+-- =================================
+
+CREATE TABLE public.conditions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(200) NOT NULL UNIQUE,
+  -- Several conditions can be rated under the same code
+  diagnostic_code VARCHAR(4) NOT NULL CHECK (diagnostic_code ~ '^[0-9]{4}$'),
+  body_system body_system NOT NULL,
+  -- Other names veterans search for
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  -- Names of catalog conditions often claimed secondary to this one
+  secondary_conditions TEXT[] NOT NULL DEFAULT '{}',
+  -- Keys of CONDITION_EVIDENCE in src/lib/conditions.ts
+  required_evidence TEXT[] NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_conditions_diagnostic_code ON public.conditions(diagnostic_code);
+
+CREATE TRIGGER conditions_updated_at
+  BEFORE UPDATE ON public.conditions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.conditions (name, diagnostic_code, body_system, aliases, secondary_conditions, required_evidence) VALUES
+  ('Tinnitus', '6260', 'ear',
+    ARRAY['Ringing in ears'],
+    ARRAY['Generalized anxiety disorder', 'Migraine headaches'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Hearing loss', '6100', 'ear',
+    ARRAY['Bilateral hearing loss', 'Sensorineural hearing loss'],
+    ARRAY['Tinnitus'],
+    ARRAY['service_record', 'in_service_event', 'audiogram']),
+  ('Post-traumatic stress disorder (PTSD)', '9411', 'mental',
+    ARRAY['PTSD'],
+    ARRAY['Obstructive sleep apnea', 'Hypertension', 'Gastroesophageal reflux disease (GERD)', 'Erectile dysfunction', 'Migraine headaches'],
+    ARRAY['service_record', 'stressor', 'current_diagnosis']),
+  ('Major depressive disorder', '9434', 'mental',
+    ARRAY['Depression', 'MDD'],
+    ARRAY['Obstructive sleep apnea', 'Erectile dysfunction'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Generalized anxiety disorder', '9400', 'mental',
+    ARRAY['Anxiety', 'GAD'],
+    ARRAY['Gastroesophageal reflux disease (GERD)', 'Hypertension'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Traumatic brain injury (TBI)', '8045', 'neurological',
+    ARRAY['TBI', 'Concussion'],
+    ARRAY['Migraine headaches', 'Major depressive disorder', 'Tinnitus'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Migraine headaches', '8100', 'neurological',
+    ARRAY['Migraines', 'Headaches'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'headache_log']),
+  ('Radiculopathy of the sciatic nerve', '8520', 'neurological',
+    ARRAY['Sciatica', 'Radiculopathy'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'primary_condition', 'current_diagnosis']),
+  ('Lumbosacral strain', '5237', 'musculoskeletal',
+    ARRAY['Lower back pain', 'Back strain', 'Lumbar strain'],
+    ARRAY['Radiculopathy of the sciatic nerve', 'Major depressive disorder'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Cervical strain', '5237', 'musculoskeletal',
+    ARRAY['Neck pain', 'Neck strain'],
+    ARRAY['Migraine headaches'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Degenerative arthritis', '5003', 'musculoskeletal',
+    ARRAY['Arthritis', 'Osteoarthritis'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Knee strain (limitation of flexion)', '5260', 'musculoskeletal',
+    ARRAY['Knee pain', 'Patellofemoral pain syndrome'],
+    ARRAY['Lumbosacral strain'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Shoulder impingement (limitation of arm motion)', '5201', 'musculoskeletal',
+    ARRAY['Shoulder pain', 'Rotator cuff tendinitis'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Plantar fasciitis', '5269', 'musculoskeletal',
+    ARRAY['Heel pain'],
+    ARRAY['Knee strain (limitation of flexion)', 'Lumbosacral strain'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Flatfoot (pes planus)', '5276', 'musculoskeletal',
+    ARRAY['Flat feet', 'Pes planus'],
+    ARRAY['Plantar fasciitis', 'Knee strain (limitation of flexion)'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis', 'imaging']),
+  ('Obstructive sleep apnea', '6847', 'respiratory',
+    ARRAY['Sleep apnea', 'OSA'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'sleep_study']),
+  ('Asthma', '6602', 'respiratory',
+    ARRAY['Bronchial asthma'],
+    ARRAY['Gastroesophageal reflux disease (GERD)'],
+    ARRAY['service_record', 'in_service_event', 'pulmonary_function_test']),
+  ('Chronic sinusitis', '6513', 'respiratory',
+    ARRAY['Sinusitis'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Hypertension', '7101', 'cardiovascular',
+    ARRAY['High blood pressure'],
+    ARRAY['Erectile dysfunction'],
+    ARRAY['service_record', 'in_service_event', 'blood_pressure']),
+  ('Gastroesophageal reflux disease (GERD)', '7206', 'digestive',
+    ARRAY['GERD', 'Acid reflux'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Irritable bowel syndrome', '7319', 'digestive',
+    ARRAY['IBS'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Erectile dysfunction', '7522', 'genitourinary',
+    ARRAY['ED'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'primary_condition', 'current_diagnosis']),
+  ('Diabetes mellitus type II', '7913', 'endocrine',
+    ARRAY['Diabetes', 'Type 2 diabetes'],
+    ARRAY['Hypertension', 'Erectile dysfunction'],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Scars', '7805', 'skin',
+    ARRAY['Scar'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']),
+  ('Eczema (dermatitis)', '7806', 'skin',
+    ARRAY['Dermatitis', 'Eczema'],
+    ARRAY[]::TEXT[],
+    ARRAY['service_record', 'in_service_event', 'current_diagnosis']);
+
+ALTER TABLE public.conditions ENABLE ROW LEVEL SECURITY;
+
+-- The catalog backs the public contact form's autocomplete
+CREATE POLICY "Anyone can view active conditions"
+  ON public.conditions FOR SELECT
+  USING (active OR is_admin());
+
+CREATE POLICY "Admins can manage conditions"
+  ON public.conditions FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.conditions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT ON public.conditions TO anon, authenticated;
+GRANT ALL ON public.conditions TO service_role;
+
+-- =================================
+-- CLAIM CONDITIONS
+-- =================================
+
+CREATE TABLE public.claim_conditions (
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  condition_id UUID NOT NULL REFERENCES public.conditions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (claim_id, condition_id)
+);
+
+CREATE INDEX idx_claim_conditions_condition_id ON public.claim_conditions(condition_id);
+
+ALTER TABLE public.claim_conditions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view conditions on own claims"
+  ON public.claim_conditions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_conditions.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+-- Completing an intake links the catalog conditions the veteran picked
+CREATE POLICY "Users can add conditions to own claims"
+  ON public.claim_conditions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_conditions.claim_id
+        AND claims.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Providers can view conditions on assigned claims"
+  ON public.claim_conditions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = claim_conditions.claim_id
+        AND claims.assigned_to = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and moderators can manage claim conditions"
+  ON public.claim_conditions FOR ALL
+  USING (is_admin_or_moderator())
+  WITH CHECK (is_admin_or_moderator());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.claim_conditions FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.claim_conditions TO service_role;
+
+COMMENT ON TABLE public.conditions IS 'Commonly claimed conditions with VA diagnostic codes and the evidence each needs';
+COMMENT ON COLUMN public.conditions.diagnostic_code IS '38 CFR Part 4 diagnostic code the condition is usually rated under';
+COMMENT ON COLUMN public.conditions.required_evidence IS 'Evidence checklist keys, defined in CONDITION_EVIDENCE';
+COMMENT ON TABLE public.claim_conditions IS 'Catalog conditions claimed on a case, used to build its evidence checklist';
@@ -0,0 +1,25 @@
+-- =================================
+-- PRESUMPTIVE ELIGIBILITY
+-- =================================
+-- Created: 2026-10-19
+-- Version: 024
+-- Description: Flags cases whose conditions VA presumes were caused by a
+--              toxic exposure the veteran qualifies for (PACT Act, Gulf
+--              War, Agent Orange, Camp Lejeune, radiation), so a nexus
+--              letter may be unnecessary, or where a secondary service
+--              connection letter is the better product. The rules live in
+--              src/lib/presumptive.ts; the flag is set at intake.
+
+CREATE TYPE presumptive_flag AS ENUM (
+  'nexus_unnecessary',
+  'secondary_letter'
+);
+
+ALTER TABLE public.claims
+  ADD COLUMN presumptive_flag presumptive_flag;
+
+CREATE INDEX idx_claims_presumptive_flag
+  ON public.claims(presumptive_flag)
+  WHERE presumptive_flag IS NOT NULL;
+
+COMMENT ON COLUMN public.claims.presumptive_flag IS 'Set at intake when every condition is presumptive, or when some are better argued as secondary to a presumptive one';
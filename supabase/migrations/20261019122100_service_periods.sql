@@ -0,0 +1,99 @@
+-- =================================
+-- SERVICE HISTORY
+-- =================================
+-- Created: 2026-10-19
+-- Version: 025
+-- Description: A veteran's periods of service: branch, component, entry
+--              and separation dates, characterization of discharge,
+--              MOS/rating/AFSC and the deployments served during each
+--              period. Kept on the profile so intake and the presumptive
+--              eligibility checker (src/lib/presumptive.ts) can start
+--              from it instead of asking again
+
+CREATE TYPE service_branch AS ENUM (
+  'army',
+  'navy',
+  'air_force',
+  'marine_corps',
+  'coast_guard',
+  'space_force'
+);
+
+CREATE TYPE service_component AS ENUM (
+  'active',
+  'reserve',
+  'national_guard'
+);
+
+CREATE TYPE discharge_characterization AS ENUM (
+  'honorable',
+  'general',
+  'other_than_honorable',
+  'bad_conduct',
+  'dishonorable',
+  'uncharacterized'
+);
+
+CREATE TABLE public.service_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  branch service_branch NOT NULL,
+  component service_component NOT NULL DEFAULT 'active',
+  entry_date DATE NOT NULL,
+  -- Null while still serving
+  separation_date DATE CHECK (separation_date >= entry_date),
+  -- Null until separated
+  discharge_characterization discharge_characterization,
+  -- MOS, rating or AFSC depending on the branch
+  occupation TEXT CHECK (char_length(occupation) <= 100),
+  -- [{ location, exposure, start, end }]: location is free text, exposure
+  -- is one of the location keys of src/lib/presumptive.ts or null for
+  -- places outside the presumptive exposure areas; end is null while
+  -- still deployed
+  deployments JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(deployments) = 'array'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_service_periods_user_id
+  ON public.service_periods(user_id, entry_date);
+
+CREATE TRIGGER service_periods_updated_at
+  BEFORE UPDATE ON public.service_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =================================
+-- ROW LEVEL SECURITY
+-- =================================
+
+ALTER TABLE public.service_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own service periods"
+  ON public.service_periods FOR SELECT
+  USING (user_id = auth.uid() OR is_admin_or_moderator());
+
+CREATE POLICY "Users can add own service periods"
+  ON public.service_periods FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own service periods"
+  ON public.service_periods FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own service periods"
+  ON public.service_periods FOR DELETE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can bypass RLS"
+  ON public.service_periods FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON public.service_periods TO service_role;
+
+COMMENT ON TABLE public.service_periods IS 'Periods of military service on a veteran''s profile, with the deployments served in each';
+COMMENT ON COLUMN public.service_periods.deployments IS 'Deployments and duty stations as [{location, exposure, start, end}]; those with an exposure area are checked against presumptive exposure windows';
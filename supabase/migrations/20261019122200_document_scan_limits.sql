@@ -0,0 +1,16 @@
+-- =================================
+-- DOCUMENT SCAN SIZE LIMITS
+-- =================================
+-- Created: 2026-10-19
+-- Version: 026
+-- Description: Record documents larger than the malware scanner accepts
+--              (clamd's StreamMaxLength) as too_large instead of failing
+--              their scan job over and over. The scanner is set up to take
+--              every size the vault accepts (CLAMD_DEFAULT_MAX_BYTES in
+--              src/lib/malware-scanner.ts), so this only happens when clamd
+--              is configured lower; once it is raised, an admin rescan
+--              clears them
+
+ALTER TYPE document_scan_status ADD VALUE IF NOT EXISTS 'too_large';
+
+COMMENT ON COLUMN public.claim_documents.scan_status IS 'Malware scan state; anything other than clean is quarantined. too_large files exceed what the scanner accepts';
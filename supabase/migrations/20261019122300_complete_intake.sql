@@ -0,0 +1,54 @@
+-- =================================
+-- INTAKE COMPLETION
+-- =================================
+-- Created: 2026-10-19
+-- Version: 027
+-- Description: Complete a veteran intake in one transaction: open the
+--              claim, link the catalog conditions picked and close out the
+--              draft (see intakeHelpers.complete). Runs as the veteran so
+--              the claim, claim_conditions and intake_drafts policies apply
+
+-- A draft that is already completed or gone fails the call, so a second
+-- submission of the same intake doesn't open a second claim
+CREATE OR REPLACE FUNCTION complete_intake(
+  p_claim JSONB,
+  p_condition_ids UUID[] DEFAULT '{}',
+  p_draft_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT NULL
+) RETURNS public.claims AS $$
+DECLARE
+  v_claim public.claims;
+BEGIN
+  INSERT INTO public.claims (
+    user_id, title, description, claim_type, condition,
+    urgency, priority, metadata, due_date, presumptive_flag
+  )
+  SELECT c.user_id, c.title, c.description, c.claim_type, c.condition,
+    c.urgency, c.priority, c.metadata, c.due_date, c.presumptive_flag
+  FROM jsonb_populate_record(NULL::public.claims, p_claim) c
+  RETURNING * INTO v_claim;
+
+  INSERT INTO public.claim_conditions (claim_id, condition_id)
+  SELECT DISTINCT v_claim.id, condition_id
+  FROM unnest(p_condition_ids) AS condition_id
+  ON CONFLICT DO NOTHING;
+
+  IF p_draft_id IS NOT NULL THEN
+    UPDATE public.intake_drafts
+    SET data = COALESCE(p_data, data),
+        claim_id = v_claim.id,
+        completed_at = NOW()
+    WHERE id = p_draft_id
+      AND completed_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Intake draft % is not open', p_draft_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  RETURN v_claim;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION complete_intake IS 'Turn a completed intake into a claim with its conditions and close out its draft';
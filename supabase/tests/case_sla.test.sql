@@ -0,0 +1,95 @@
+-- =================================
+-- CASE SLA CALENDAR AND HOLDS
+-- =================================
+-- The business-day calendar in 20261019121100_case_sla.sql matches
+-- src/lib/business-days.ts, and ending a hold pushes the due date back in
+-- the same update. Run with `supabase test db`.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- =================================
+-- CALENDAR
+-- =================================
+
+SELECT ok(
+  '2026-11-26'::DATE IN (SELECT federal_holidays(2026)),
+  'Thanksgiving is the fourth Thursday of November'
+);
+
+SELECT ok(
+  '2026-07-03'::DATE IN (SELECT federal_holidays(2026)),
+  'Independence Day on a Saturday is observed the Friday before'
+);
+
+SELECT ok(
+  '2027-12-31'::DATE IN (SELECT federal_holidays(2027)),
+  'New Year''s Day on a Saturday is observed on December 31'
+);
+
+SELECT is(
+  add_business_days('2026-11-25', 1),
+  '2026-11-27'::DATE,
+  'Adding business days skips holidays'
+);
+
+SELECT is(
+  business_days_between('2026-10-22', '2026-10-27'),
+  3,
+  'Business days between dates skip the weekend'
+);
+
+-- =================================
+-- HOLDS
+-- =================================
+
+INSERT INTO public.users (id, email, role)
+VALUES ('00000000-0000-4000-8000-000000000001', 'veteran@example.com', 'user');
+
+INSERT INTO public.claims (
+  id, user_id, claim_number, title, claim_type, status, held_from_status, due_date
+) VALUES (
+  '00000000-0000-4000-8000-000000000010',
+  '00000000-0000-4000-8000-000000000001',
+  'NX-TEST-000001',
+  'Tinnitus nexus letter',
+  'comprehensive_letter',
+  'on_hold',
+  'drafting',
+  '2026-11-02T00:00:00Z'
+);
+
+INSERT INTO public.claim_status_history (claim_id, from_status, to_status, reason, created_at)
+VALUES (
+  '00000000-0000-4000-8000-000000000010',
+  'drafting',
+  'on_hold',
+  'Waiting on records',
+  NOW() - INTERVAL '7 days'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT transition_claim_status('00000000-0000-4000-8000-000000000010', 'drafting')
+  $$,
+  'A held claim resumes'
+);
+
+SELECT is(
+  (SELECT (due_date AT TIME ZONE 'UTC')::DATE FROM public.claims),
+  add_business_days(
+    '2026-11-02',
+    business_days_between(
+      ((NOW() - INTERVAL '7 days') AT TIME ZONE 'America/New_York')::DATE,
+      (NOW() AT TIME ZONE 'America/New_York')::DATE
+    )
+  ),
+  'Resuming adds the business days on hold to the due date'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
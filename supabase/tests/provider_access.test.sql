@@ -0,0 +1,199 @@
+-- =================================
+-- ASSIGNED PROVIDER ACCESS
+-- =================================
+-- RLS for providers (20261019120900_providers.sql): the provider assigned
+-- to a claim reads its documents, clean files and comments and drafts its
+-- letter; other providers see none of it. Run with `supabase test db`.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Fixtures are inserted as the superuser, so RLS doesn't apply
+INSERT INTO public.users (id, email, role) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'veteran@example.com', 'user'),
+  ('00000000-0000-4000-8000-000000000002', 'assigned@example.com', 'provider'),
+  ('00000000-0000-4000-8000-000000000003', 'other@example.com', 'provider');
+
+INSERT INTO public.claims (id, user_id, claim_number, title, claim_type, assigned_to)
+VALUES (
+  '00000000-0000-4000-8000-000000000010',
+  '00000000-0000-4000-8000-000000000001',
+  'NX-TEST-000001',
+  'Tinnitus nexus letter',
+  'comprehensive_letter',
+  '00000000-0000-4000-8000-000000000002'
+);
+
+INSERT INTO public.claim_documents (
+  claim_id, uploaded_by, file_name, storage_path, mime_type, size_bytes, scan_status
+) VALUES
+  (
+    '00000000-0000-4000-8000-000000000010',
+    '00000000-0000-4000-8000-000000000001',
+    'audiogram.pdf',
+    '00000000-0000-4000-8000-000000000010/clean-audiogram.pdf',
+    'application/pdf',
+    1024,
+    'clean'
+  ),
+  (
+    '00000000-0000-4000-8000-000000000010',
+    '00000000-0000-4000-8000-000000000001',
+    'dd214.pdf',
+    '00000000-0000-4000-8000-000000000010/pending-dd214.pdf',
+    'application/pdf',
+    1024,
+    'pending'
+  );
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('claim-documents', '00000000-0000-4000-8000-000000000010/clean-audiogram.pdf'),
+  ('claim-documents', '00000000-0000-4000-8000-000000000010/pending-dd214.pdf');
+
+INSERT INTO public.claim_comments (claim_id, author_id, content, is_internal) VALUES
+  ('00000000-0000-4000-8000-000000000010', '00000000-0000-4000-8000-000000000001', 'Records uploaded', false),
+  ('00000000-0000-4000-8000-000000000010', NULL, 'Veteran prefers email', true);
+
+-- =================================
+-- ASSIGNED PROVIDER
+-- =================================
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.claim_documents),
+  2,
+  'Assigned provider can view the claim''s documents'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM storage.objects WHERE bucket_id = 'claim-documents'),
+  1,
+  'Assigned provider can read clean files only'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.claim_comments),
+  2,
+  'Assigned provider can view comments and internal notes'
+);
+
+SELECT lives_ok(
+  $$
+    INSERT INTO public.letter_drafts (id, claim_id, title, created_by, updated_by)
+    VALUES (
+      '00000000-0000-4000-8000-000000000020',
+      '00000000-0000-4000-8000-000000000010',
+      'Tinnitus nexus letter',
+      '00000000-0000-4000-8000-000000000002',
+      '00000000-0000-4000-8000-000000000002'
+    )
+  $$,
+  'Assigned provider can start a draft'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT save_letter_draft(
+      '00000000-0000-4000-8000-000000000020',
+      '{"rationale": []}'::JSONB,
+      'Draft created',
+      0
+    )
+  $$,
+  'Assigned provider can save a draft'
+);
+
+SELECT is(
+  (SELECT current_version FROM public.letter_drafts),
+  1,
+  'Saving bumps the draft''s version'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.letter_draft_versions),
+  1,
+  'Assigned provider can view draft versions'
+);
+
+SELECT throws_ok(
+  $$
+    INSERT INTO public.letter_drafts (claim_id, title, created_by)
+    VALUES (
+      '00000000-0000-4000-8000-000000000010',
+      'Someone else''s draft',
+      '00000000-0000-4000-8000-000000000001'
+    )
+  $$,
+  '42501',
+  NULL,
+  'Drafts are started in the provider''s own name'
+);
+
+-- =================================
+-- OTHER PROVIDERS
+-- =================================
+
+RESET ROLE;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.claim_documents),
+  0,
+  'Other providers can''t view the claim''s documents'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM storage.objects WHERE bucket_id = 'claim-documents'),
+  0,
+  'Other providers can''t read the claim''s files'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.claim_comments),
+  0,
+  'Other providers can''t view the claim''s comments'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.letter_drafts),
+  0,
+  'Other providers can''t view the claim''s drafts'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.letter_draft_versions),
+  0,
+  'Other providers can''t view the claim''s draft versions'
+);
+
+SELECT throws_ok(
+  $$
+    INSERT INTO public.letter_drafts (claim_id, title, created_by)
+    VALUES (
+      '00000000-0000-4000-8000-000000000010',
+      'Unassigned draft',
+      '00000000-0000-4000-8000-000000000003'
+    )
+  $$,
+  '42501',
+  NULL,
+  'Other providers can''t start drafts on the claim'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -106,8 +106,8 @@ describe('Database Helpers Integration Tests', () => {
         user_id: 'mock-user-1',
         title: 'Test Claim',
         description: 'Test claim description',
-        claim_type: 'disability' as const,
-        category: 'Medical',
+        claim_type: 'comprehensive_letter' as const,
+        condition: 'PTSD',
       };
 
       const claim = await claimHelpers.create(claimData);
@@ -115,7 +115,7 @@ describe('Database Helpers Integration Tests', () => {
       expect(claim).toBeTruthy();
       expect(claim.title).toBe(claimData.title);
       expect(claim.claim_number).toBe('CLM-2024-NEW');
-      expect(claim.status).toBe('pending');
+      expect(claim.status).toBe('intake');
     });
 
     it('should update claim', async () => {
@@ -142,7 +142,7 @@ describe('Database Helpers Integration Tests', () => {
 
     it('should filter claims by status', async () => {
       const result = await claimHelpers.getUserClaims('mock-user-1', {
-        status: 'pending',
+        status: 'intake',
       });
 
       expect(result.claims).toBeDefined();
@@ -160,7 +160,9 @@ describe('Database Helpers Integration Tests', () => {
     });
 
     it('should update claim status', async () => {
-      const claim = await claimHelpers.updateStatus('mock-claim-1', 'approved', 'admin-user-id');
+      const claim = await claimHelpers.updateStatus('mock-claim-1', 'records_requested', {
+        assignedTo: 'admin-user-id',
+      });
       
       expect(claim).toBeTruthy();
     });
@@ -170,10 +172,10 @@ describe('Database Helpers Integration Tests', () => {
       
       expect(stats).toBeTruthy();
       expect(typeof stats.total).toBe('number');
-      expect(typeof stats.pending).toBe('number');
-      expect(typeof stats.approved).toBe('number');
-      expect(typeof stats.rejected).toBe('number');
-      expect(typeof stats.underReview).toBe('number');
+      expect(typeof stats.open).toBe('number');
+      expect(typeof stats.onHold).toBe('number');
+      expect(typeof stats.delivered).toBe('number');
+      expect(typeof stats.byStatus.intake).toBe('number');
     });
   });
 